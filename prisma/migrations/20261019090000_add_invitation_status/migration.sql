@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "public"."InvitationStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'REVOKED');
+
+-- AlterTable
+ALTER TABLE "public"."ChamaInvitation" ADD COLUMN     "respondedAt" TIMESTAMP(3),
+ADD COLUMN     "status" "public"."InvitationStatus" NOT NULL DEFAULT 'PENDING';
+
+-- CreateIndex
+CREATE INDEX "ChamaInvitation_status_idx" ON "public"."ChamaInvitation"("status");
@@ -0,0 +1,89 @@
+-- CreateEnum
+CREATE TYPE "public"."LedgerAccountType" AS ENUM ('ASSET', 'LIABILITY', 'EQUITY', 'INCOME', 'EXPENSE');
+
+-- CreateEnum
+CREATE TYPE "public"."LedgerAccountKey" AS ENUM ('CASH', 'MEMBER_SAVINGS', 'LOANS_RECEIVABLE', 'INTEREST_INCOME', 'PENALTY_INCOME', 'EXPENSES');
+
+-- CreateEnum
+CREATE TYPE "public"."JournalSourceType" AS ENUM ('CONTRIBUTION', 'LOAN_DISBURSEMENT', 'LOAN_REPAYMENT', 'EXPENSE', 'ADJUSTMENT');
+
+-- CreateTable
+CREATE TABLE "public"."LedgerAccount" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "public"."LedgerAccountType" NOT NULL,
+    "systemKey" "public"."LedgerAccountKey" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "chamaId" TEXT NOT NULL,
+
+    CONSTRAINT "LedgerAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."JournalEntry" (
+    "id" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "sourceType" "public"."JournalSourceType" NOT NULL,
+    "sourceId" TEXT,
+    "reference" TEXT,
+    "postedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "chamaId" TEXT NOT NULL,
+
+    CONSTRAINT "JournalEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."JournalLine" (
+    "id" TEXT NOT NULL,
+    "debit" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "credit" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "entryId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "membershipId" TEXT,
+
+    CONSTRAINT "JournalLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LedgerAccount_chamaId_idx" ON "public"."LedgerAccount"("chamaId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_chamaId_systemKey_key" ON "public"."LedgerAccount"("chamaId", "systemKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_chamaId_code_key" ON "public"."LedgerAccount"("chamaId", "code");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_chamaId_idx" ON "public"."JournalEntry"("chamaId");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_sourceType_sourceId_idx" ON "public"."JournalEntry"("sourceType", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_postedAt_idx" ON "public"."JournalEntry"("postedAt");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_entryId_idx" ON "public"."JournalLine"("entryId");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_accountId_idx" ON "public"."JournalLine"("accountId");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_membershipId_idx" ON "public"."JournalLine"("membershipId");
+
+-- AddForeignKey
+ALTER TABLE "public"."LedgerAccount" ADD CONSTRAINT "LedgerAccount_chamaId_fkey" FOREIGN KEY ("chamaId") REFERENCES "public"."Chama"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."JournalEntry" ADD CONSTRAINT "JournalEntry_chamaId_fkey" FOREIGN KEY ("chamaId") REFERENCES "public"."Chama"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."JournalLine" ADD CONSTRAINT "JournalLine_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "public"."JournalEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."JournalLine" ADD CONSTRAINT "JournalLine_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "public"."LedgerAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."JournalLine" ADD CONSTRAINT "JournalLine_membershipId_fkey" FOREIGN KEY ("membershipId") REFERENCES "public"."Membership"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "public"."InterestMethod" AS ENUM ('FLAT', 'REDUCING_BALANCE', 'AMORTIZED');
+
+-- AlterTable
+ALTER TABLE "public"."Chama" ADD COLUMN     "loanInterestMethod" "public"."InterestMethod" NOT NULL DEFAULT 'FLAT';
+
+-- AlterTable
+ALTER TABLE "public"."Loan" ADD COLUMN     "interestMethod" "public"."InterestMethod" NOT NULL DEFAULT 'FLAT';
@@ -0,0 +1,35 @@
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'LOAN_INSTALLMENT_DUE';
+
+-- CreateEnum
+CREATE TYPE "public"."InstallmentStatus" AS ENUM ('PENDING', 'PARTIAL', 'PAID', 'OVERDUE');
+
+-- CreateTable
+CREATE TABLE "public"."LoanInstallment" (
+    "id" TEXT NOT NULL,
+    "installmentNumber" INTEGER NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "principalDue" DOUBLE PRECISION NOT NULL,
+    "interestDue" DOUBLE PRECISION NOT NULL,
+    "amountDue" DOUBLE PRECISION NOT NULL,
+    "principalPaid" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "interestPaid" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "amountPaid" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "status" "public"."InstallmentStatus" NOT NULL DEFAULT 'PENDING',
+    "paidAt" TIMESTAMP(3),
+    "loanId" TEXT NOT NULL,
+
+    CONSTRAINT "LoanInstallment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LoanInstallment_loanId_idx" ON "public"."LoanInstallment"("loanId");
+
+-- CreateIndex
+CREATE INDEX "LoanInstallment_status_dueDate_idx" ON "public"."LoanInstallment"("status", "dueDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoanInstallment_loanId_installmentNumber_key" ON "public"."LoanInstallment"("loanId", "installmentNumber");
+
+-- AddForeignKey
+ALTER TABLE "public"."LoanInstallment" ADD CONSTRAINT "LoanInstallment_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "public"."Loan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
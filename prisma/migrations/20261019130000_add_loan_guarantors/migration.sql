@@ -0,0 +1,44 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "public"."AuditAction" ADD VALUE 'LOAN_GUARANTEE_ACCEPT';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'LOAN_GUARANTEE_DECLINE';
+
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'LOAN_GUARANTEE';
+
+-- CreateEnum
+CREATE TYPE "public"."GuarantorStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED');
+
+-- CreateTable
+CREATE TABLE "public"."LoanGuarantor" (
+    "id" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" "public"."GuarantorStatus" NOT NULL DEFAULT 'PENDING',
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "respondedAt" TIMESTAMP(3),
+    "loanId" TEXT NOT NULL,
+    "membershipId" TEXT NOT NULL,
+
+    CONSTRAINT "LoanGuarantor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LoanGuarantor_loanId_idx" ON "public"."LoanGuarantor"("loanId");
+
+-- CreateIndex
+CREATE INDEX "LoanGuarantor_membershipId_idx" ON "public"."LoanGuarantor"("membershipId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoanGuarantor_loanId_membershipId_key" ON "public"."LoanGuarantor"("loanId", "membershipId");
+
+-- AddForeignKey
+ALTER TABLE "public"."LoanGuarantor" ADD CONSTRAINT "LoanGuarantor_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "public"."Loan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LoanGuarantor" ADD CONSTRAINT "LoanGuarantor_membershipId_fkey" FOREIGN KEY ("membershipId") REFERENCES "public"."Membership"("id") ON DELETE CASCADE ON UPDATE CASCADE;
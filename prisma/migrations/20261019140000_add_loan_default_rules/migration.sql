@@ -0,0 +1,44 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "public"."AuditAction" ADD VALUE 'LOAN_PENALTY_APPLY';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'LOAN_DEFAULT';
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "public"."NotificationType" ADD VALUE 'LOAN_PENALTY';
+ALTER TYPE "public"."NotificationType" ADD VALUE 'LOAN_DEFAULT';
+
+-- CreateEnum
+CREATE TYPE "public"."PenaltyPeriod" AS ENUM ('DAILY', 'MONTHLY');
+
+-- DropForeignKey
+ALTER TABLE "public"."AuditLog" DROP CONSTRAINT "AuditLog_userId_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."AuditLog" ALTER COLUMN "userId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."Chama" ADD COLUMN     "loanDefaultAfter" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "loanGracePeriodDays" INTEGER NOT NULL DEFAULT 7,
+ADD COLUMN     "loanPenaltyPeriod" "public"."PenaltyPeriod" NOT NULL DEFAULT 'MONTHLY',
+ADD COLUMN     "loanPenaltyRate" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."LoanInstallment" ADD COLUMN     "penaltyAccruedTo" TIMESTAMP(3),
+ADD COLUMN     "penaltyDue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "penaltyPaid" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AddForeignKey
+ALTER TABLE "public"."AuditLog" ADD CONSTRAINT "AuditLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."ContributionFrequency" AS ENUM ('WEEKLY', 'BIWEEKLY', 'MONTHLY');
+
+-- CreateEnum
+CREATE TYPE "public"."ContributionPenaltyType" AS ENUM ('FLAT', 'PERCENTAGE');
+
+-- CreateTable
+CREATE TABLE "public"."ChamaSettings" (
+    "id" TEXT NOT NULL,
+    "contributionFrequency" "public"."ContributionFrequency" NOT NULL DEFAULT 'MONTHLY',
+    "contributionDeadlineDay" INTEGER NOT NULL DEFAULT 15,
+    "penaltyType" "public"."ContributionPenaltyType" NOT NULL DEFAULT 'PERCENTAGE',
+    "penaltyAmount" DOUBLE PRECISION NOT NULL DEFAULT 0.05,
+    "penaltyCap" DOUBLE PRECISION,
+    "loanEligibilityMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 3,
+    "maxLoanDuration" INTEGER NOT NULL DEFAULT 24,
+    "defaultInterestRate" DOUBLE PRECISION NOT NULL DEFAULT 0.12,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "chamaId" TEXT NOT NULL,
+
+    CONSTRAINT "ChamaSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChamaSettings_chamaId_key" ON "public"."ChamaSettings"("chamaId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ChamaSettings" ADD CONSTRAINT "ChamaSettings_chamaId_fkey" FOREIGN KEY ("chamaId") REFERENCES "public"."Chama"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing chamas keep the rules that were previously hard-coded.
+INSERT INTO "public"."ChamaSettings" ("id", "updatedAt", "chamaId")
+SELECT md5(random()::text || "id"), CURRENT_TIMESTAMP, "id" FROM "public"."Chama";
@@ -0,0 +1,58 @@
+-- AlterEnum
+ALTER TYPE "public"."ContributionFrequency" ADD VALUE 'CUSTOM';
+
+-- AlterTable
+ALTER TABLE "public"."ChamaSettings" ADD COLUMN     "cycleStartDate" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Contribution" ADD COLUMN     "periodId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."ContributionPeriod" (
+    "id" TEXT NOT NULL,
+    "frequency" "public"."ContributionFrequency" NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "chamaId" TEXT NOT NULL,
+
+    CONSTRAINT "ContributionPeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Contribution_periodId_idx" ON "public"."Contribution"("periodId");
+
+-- CreateIndex
+CREATE INDEX "ContributionPeriod_chamaId_dueDate_idx" ON "public"."ContributionPeriod"("chamaId", "dueDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContributionPeriod_chamaId_frequency_startDate_key" ON "public"."ContributionPeriod"("chamaId", "frequency", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."Contribution" ADD CONSTRAINT "Contribution_periodId_fkey" FOREIGN KEY ("periodId") REFERENCES "public"."ContributionPeriod"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ContributionPeriod" ADD CONSTRAINT "ContributionPeriod_chamaId_fkey" FOREIGN KEY ("chamaId") REFERENCES "public"."Chama"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every chama was monthly until now, so existing contributions map
+-- onto the calendar month recorded on them.
+INSERT INTO "public"."ContributionPeriod" ("id", "frequency", "startDate", "endDate", "dueDate", "chamaId")
+SELECT md5(random()::text || m."chamaId" || c."year" || '-' || c."month"),
+       'MONTHLY',
+       make_date(c."year", c."month", 1),
+       make_date(c."year", c."month", 1) + INTERVAL '1 month',
+       make_date(c."year", c."month", COALESCE(s."contributionDeadlineDay", 15)),
+       m."chamaId"
+FROM (SELECT DISTINCT "membershipId", "year", "month" FROM "public"."Contribution") c
+JOIN "public"."Membership" m ON m."id" = c."membershipId"
+LEFT JOIN "public"."ChamaSettings" s ON s."chamaId" = m."chamaId"
+GROUP BY m."chamaId", c."year", c."month", s."contributionDeadlineDay";
+
+UPDATE "public"."Contribution" c
+SET "periodId" = p."id"
+FROM "public"."Membership" m, "public"."ContributionPeriod" p
+WHERE m."id" = c."membershipId"
+  AND p."chamaId" = m."chamaId"
+  AND p."frequency" = 'MONTHLY'
+  AND p."startDate" = make_date(c."year", c."month", 1);
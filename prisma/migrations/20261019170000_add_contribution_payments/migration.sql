@@ -0,0 +1,37 @@
+-- AlterEnum
+ALTER TYPE "public"."ContributionStatus" ADD VALUE 'PARTIALLY_PAID';
+
+-- AlterTable
+ALTER TABLE "public"."Contribution" ADD COLUMN     "expectedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."ContributionPayment" (
+    "id" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "paymentMethod" TEXT NOT NULL,
+    "mpesaCode" TEXT,
+    "paidAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "contributionId" TEXT NOT NULL,
+
+    CONSTRAINT "ContributionPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContributionPayment_contributionId_idx" ON "public"."ContributionPayment"("contributionId");
+
+-- CreateIndex
+CREATE INDEX "ContributionPayment_mpesaCode_idx" ON "public"."ContributionPayment"("mpesaCode");
+
+-- AddForeignKey
+ALTER TABLE "public"."ContributionPayment" ADD CONSTRAINT "ContributionPayment_contributionId_fkey" FOREIGN KEY ("contributionId") REFERENCES "public"."Contribution"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: `amount` now means what has been paid so far. Existing contributions expected what was
+-- recorded on them; unpaid ones have paid nothing yet.
+UPDATE "public"."Contribution" SET "expectedAmount" = "amount";
+UPDATE "public"."Contribution" SET "amount" = 0 WHERE "status" <> 'PAID';
+
+INSERT INTO "public"."ContributionPayment" ("id", "amount", "paymentMethod", "mpesaCode", "paidAt", "contributionId")
+SELECT md5(random()::text || "id"), "amount", "paymentMethod", "mpesaCode", COALESCE("paidAt", CURRENT_TIMESTAMP), "id"
+FROM "public"."Contribution"
+WHERE "status" = 'PAID';
@@ -0,0 +1,126 @@
+-- CreateEnum
+CREATE TYPE "public"."RotationOrder" AS ENUM ('FIXED', 'RANDOM');
+
+-- CreateEnum
+CREATE TYPE "public"."PayoutStatus" AS ENUM ('PENDING', 'PAID', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "public"."SwapStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED');
+
+-- AlterEnum
+ALTER TYPE "public"."TransactionType" ADD VALUE 'MERRY_GO_ROUND_PAYOUT';
+
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'ROTATION_SCHEDULE';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'ROTATION_SWAP';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'ROTATION_PAYOUT';
+
+-- CreateTable
+CREATE TABLE "public"."Rotation" (
+    "id" TEXT NOT NULL,
+    "order" "public"."RotationOrder" NOT NULL,
+    "cycle" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "chamaId" TEXT NOT NULL,
+
+    CONSTRAINT "Rotation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."RotationSlot" (
+    "id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "rotationId" TEXT NOT NULL,
+    "membershipId" TEXT NOT NULL,
+
+    CONSTRAINT "RotationSlot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."RotationPayout" (
+    "id" TEXT NOT NULL,
+    "cycle" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" "public"."PayoutStatus" NOT NULL DEFAULT 'PENDING',
+    "paymentMethod" TEXT NOT NULL,
+    "mpesaCode" TEXT,
+    "mpesaB2CRequestId" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rotationId" TEXT NOT NULL,
+    "membershipId" TEXT NOT NULL,
+    "periodId" TEXT NOT NULL,
+
+    CONSTRAINT "RotationPayout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."RotationSwap" (
+    "id" TEXT NOT NULL,
+    "status" "public"."SwapStatus" NOT NULL DEFAULT 'PENDING',
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "respondedAt" TIMESTAMP(3),
+    "rotationId" TEXT NOT NULL,
+    "requesterId" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+
+    CONSTRAINT "RotationSwap_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Rotation_chamaId_key" ON "public"."Rotation"("chamaId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RotationSlot_membershipId_key" ON "public"."RotationSlot"("membershipId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RotationSlot_rotationId_position_key" ON "public"."RotationSlot"("rotationId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RotationPayout_mpesaCode_key" ON "public"."RotationPayout"("mpesaCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RotationPayout_mpesaB2CRequestId_key" ON "public"."RotationPayout"("mpesaB2CRequestId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RotationPayout_periodId_key" ON "public"."RotationPayout"("periodId");
+
+-- CreateIndex
+CREATE INDEX "RotationPayout_rotationId_cycle_idx" ON "public"."RotationPayout"("rotationId", "cycle");
+
+-- CreateIndex
+CREATE INDEX "RotationPayout_membershipId_idx" ON "public"."RotationPayout"("membershipId");
+
+-- CreateIndex
+CREATE INDEX "RotationSwap_rotationId_idx" ON "public"."RotationSwap"("rotationId");
+
+-- CreateIndex
+CREATE INDEX "RotationSwap_targetId_idx" ON "public"."RotationSwap"("targetId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Rotation" ADD CONSTRAINT "Rotation_chamaId_fkey" FOREIGN KEY ("chamaId") REFERENCES "public"."Chama"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RotationSlot" ADD CONSTRAINT "RotationSlot_rotationId_fkey" FOREIGN KEY ("rotationId") REFERENCES "public"."Rotation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RotationSlot" ADD CONSTRAINT "RotationSlot_membershipId_fkey" FOREIGN KEY ("membershipId") REFERENCES "public"."Membership"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RotationPayout" ADD CONSTRAINT "RotationPayout_rotationId_fkey" FOREIGN KEY ("rotationId") REFERENCES "public"."Rotation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RotationPayout" ADD CONSTRAINT "RotationPayout_membershipId_fkey" FOREIGN KEY ("membershipId") REFERENCES "public"."Membership"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RotationPayout" ADD CONSTRAINT "RotationPayout_periodId_fkey" FOREIGN KEY ("periodId") REFERENCES "public"."ContributionPeriod"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RotationSwap" ADD CONSTRAINT "RotationSwap_rotationId_fkey" FOREIGN KEY ("rotationId") REFERENCES "public"."Rotation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RotationSwap" ADD CONSTRAINT "RotationSwap_requesterId_fkey" FOREIGN KEY ("requesterId") REFERENCES "public"."Membership"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RotationSwap" ADD CONSTRAINT "RotationSwap_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "public"."Membership"("id") ON DELETE CASCADE ON UPDATE CASCADE;
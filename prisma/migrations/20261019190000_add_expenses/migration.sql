@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "public"."ExpenseCategory" AS ENUM ('VENUE', 'BANK_CHARGES', 'WELFARE', 'TRANSPORT', 'STATIONERY', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "public"."ExpenseStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'EXPENSE_REQUEST';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'EXPENSE_APPROVE';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'EXPENSE_REJECT';
+
+-- CreateTable
+CREATE TABLE "public"."Expense" (
+    "id" TEXT NOT NULL,
+    "category" "public"."ExpenseCategory" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "description" TEXT NOT NULL,
+    "status" "public"."ExpenseStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewNotes" TEXT,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedAt" TIMESTAMP(3),
+    "chamaId" TEXT NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "reviewedById" TEXT,
+    "receiptId" TEXT,
+
+    CONSTRAINT "Expense_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Expense_receiptId_key" ON "public"."Expense"("receiptId");
+
+-- CreateIndex
+CREATE INDEX "Expense_chamaId_status_idx" ON "public"."Expense"("chamaId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."Expense" ADD CONSTRAINT "Expense_chamaId_fkey" FOREIGN KEY ("chamaId") REFERENCES "public"."Chama"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Expense" ADD CONSTRAINT "Expense_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "public"."Membership"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Expense" ADD CONSTRAINT "Expense_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "public"."Membership"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Expense" ADD CONSTRAINT "Expense_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "public"."File"("id") ON DELETE SET NULL ON UPDATE CASCADE;
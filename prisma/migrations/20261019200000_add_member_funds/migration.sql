@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "public"."FundType" AS ENUM ('SHARE_CAPITAL', 'SAVINGS', 'WELFARE');
+
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'FUND_CONFIGURE';
+
+-- CreateTable
+CREATE TABLE "public"."Fund" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "public"."FundType" NOT NULL,
+    "allocationRate" DOUBLE PRECISION NOT NULL,
+    "isWithdrawable" BOOLEAN NOT NULL DEFAULT false,
+    "withdrawalNoticeDays" INTEGER NOT NULL DEFAULT 0,
+    "minimumBalance" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "chamaId" TEXT NOT NULL,
+
+    CONSTRAINT "Fund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."FundAllocation" (
+    "id" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "contributionId" TEXT NOT NULL,
+    "fundId" TEXT NOT NULL,
+    "membershipId" TEXT NOT NULL,
+
+    CONSTRAINT "FundAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Fund_chamaId_name_key" ON "public"."Fund"("chamaId", "name");
+
+-- CreateIndex
+CREATE INDEX "FundAllocation_membershipId_fundId_idx" ON "public"."FundAllocation"("membershipId", "fundId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FundAllocation_contributionId_fundId_key" ON "public"."FundAllocation"("contributionId", "fundId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Fund" ADD CONSTRAINT "Fund_chamaId_fkey" FOREIGN KEY ("chamaId") REFERENCES "public"."Chama"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."FundAllocation" ADD CONSTRAINT "FundAllocation_contributionId_fkey" FOREIGN KEY ("contributionId") REFERENCES "public"."Contribution"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."FundAllocation" ADD CONSTRAINT "FundAllocation_fundId_fkey" FOREIGN KEY ("fundId") REFERENCES "public"."Fund"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."FundAllocation" ADD CONSTRAINT "FundAllocation_membershipId_fkey" FOREIGN KEY ("membershipId") REFERENCES "public"."Membership"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing chama gets a single withdrawable savings fund holding everything paid so far,
+-- so loan eligibility is unchanged until the chama sets up its own funds.
+INSERT INTO "public"."Fund" ("id", "name", "type", "allocationRate", "isWithdrawable", "updatedAt", "chamaId")
+SELECT md5(random()::text || "id"), 'Savings', 'SAVINGS', 1, true, CURRENT_TIMESTAMP, "id" FROM "public"."Chama";
+
+INSERT INTO "public"."FundAllocation" ("id", "amount", "contributionId", "fundId", "membershipId")
+SELECT md5(random()::text || c."id"), c."amount", c."id", f."id", c."membershipId"
+FROM "public"."Contribution" c
+JOIN "public"."Membership" m ON m."id" = c."membershipId"
+JOIN "public"."Fund" f ON f."chamaId" = m."chamaId"
+WHERE c."amount" > 0 AND c."status" IN ('PAID', 'PARTIALLY_PAID');
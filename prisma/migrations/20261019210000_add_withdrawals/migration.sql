@@ -0,0 +1,78 @@
+-- CreateEnum
+CREATE TYPE "public"."WithdrawalType" AS ENUM ('PARTIAL', 'EXIT');
+
+-- CreateEnum
+CREATE TYPE "public"."WithdrawalStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'PROCESSING', 'PAID', 'FAILED');
+
+-- AlterEnum
+ALTER TYPE "public"."TransactionType" ADD VALUE 'WITHDRAWAL';
+
+-- AlterEnum
+ALTER TYPE "public"."JournalSourceType" ADD VALUE 'WITHDRAWAL';
+
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'WITHDRAWAL_REQUEST';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'WITHDRAWAL_APPROVE';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'WITHDRAWAL_REJECT';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'WITHDRAWAL_PAYOUT';
+
+-- AlterTable
+ALTER TABLE "public"."FundAllocation" ALTER COLUMN "contributionId" DROP NOT NULL,
+ADD COLUMN     "withdrawalId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."Withdrawal" (
+    "id" TEXT NOT NULL,
+    "type" "public"."WithdrawalType" NOT NULL,
+    "requestedAmount" DOUBLE PRECISION,
+    "status" "public"."WithdrawalStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "reviewNotes" TEXT,
+    "availableFrom" TIMESTAMP(3) NOT NULL,
+    "grossAmount" DOUBLE PRECISION,
+    "loanOffset" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "penaltyOffset" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "netAmount" DOUBLE PRECISION,
+    "paymentMethod" TEXT,
+    "mpesaCode" TEXT,
+    "mpesaB2CRequestId" TEXT,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "chamaId" TEXT NOT NULL,
+    "membershipId" TEXT NOT NULL,
+    "fundId" TEXT,
+    "reviewedById" TEXT,
+
+    CONSTRAINT "Withdrawal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Withdrawal_mpesaCode_key" ON "public"."Withdrawal"("mpesaCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Withdrawal_mpesaB2CRequestId_key" ON "public"."Withdrawal"("mpesaB2CRequestId");
+
+-- CreateIndex
+CREATE INDEX "Withdrawal_chamaId_status_idx" ON "public"."Withdrawal"("chamaId", "status");
+
+-- CreateIndex
+CREATE INDEX "Withdrawal_membershipId_idx" ON "public"."Withdrawal"("membershipId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FundAllocation_withdrawalId_fundId_key" ON "public"."FundAllocation"("withdrawalId", "fundId");
+
+-- AddForeignKey
+ALTER TABLE "public"."FundAllocation" ADD CONSTRAINT "FundAllocation_withdrawalId_fkey" FOREIGN KEY ("withdrawalId") REFERENCES "public"."Withdrawal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Withdrawal" ADD CONSTRAINT "Withdrawal_chamaId_fkey" FOREIGN KEY ("chamaId") REFERENCES "public"."Chama"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Withdrawal" ADD CONSTRAINT "Withdrawal_membershipId_fkey" FOREIGN KEY ("membershipId") REFERENCES "public"."Membership"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Withdrawal" ADD CONSTRAINT "Withdrawal_fundId_fkey" FOREIGN KEY ("fundId") REFERENCES "public"."Fund"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Withdrawal" ADD CONSTRAINT "Withdrawal_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "public"."Membership"("id") ON DELETE SET NULL ON UPDATE CASCADE;
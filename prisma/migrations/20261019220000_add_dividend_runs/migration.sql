@@ -0,0 +1,92 @@
+-- CreateEnum
+CREATE TYPE "public"."DividendPolicy" AS ENUM ('SAVINGS_PROPORTIONAL', 'MONTHS_WEIGHTED', 'EQUAL');
+
+-- CreateEnum
+CREATE TYPE "public"."DividendRunStatus" AS ENUM ('DRAFT', 'CONFIRMED');
+
+-- CreateEnum
+CREATE TYPE "public"."DividendPayoutMethod" AS ENUM ('CREDIT_SAVINGS', 'MPESA');
+
+-- AlterEnum
+ALTER TYPE "public"."TransactionType" ADD VALUE 'DIVIDEND';
+
+-- AlterEnum
+ALTER TYPE "public"."JournalSourceType" ADD VALUE 'DIVIDEND';
+
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'DIVIDEND_PREVIEW';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'DIVIDEND_CONFIRM';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'DIVIDEND_PAYOUT';
+
+-- AlterTable
+ALTER TABLE "public"."FundAllocation" ADD COLUMN     "dividendPayoutId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."DividendRun" (
+    "id" TEXT NOT NULL,
+    "financialYear" INTEGER NOT NULL,
+    "policy" "public"."DividendPolicy" NOT NULL,
+    "status" "public"."DividendRunStatus" NOT NULL DEFAULT 'DRAFT',
+    "payoutMethod" "public"."DividendPayoutMethod",
+    "interestIncome" DOUBLE PRECISION NOT NULL,
+    "penaltyIncome" DOUBLE PRECISION NOT NULL,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "confirmedAt" TIMESTAMP(3),
+    "chamaId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "confirmedById" TEXT,
+
+    CONSTRAINT "DividendRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."DividendPayout" (
+    "id" TEXT NOT NULL,
+    "basis" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" "public"."PayoutStatus" NOT NULL DEFAULT 'PENDING',
+    "mpesaCode" TEXT,
+    "mpesaB2CRequestId" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "runId" TEXT NOT NULL,
+    "membershipId" TEXT NOT NULL,
+
+    CONSTRAINT "DividendPayout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DividendRun_chamaId_financialYear_key" ON "public"."DividendRun"("chamaId", "financialYear");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DividendPayout_mpesaCode_key" ON "public"."DividendPayout"("mpesaCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DividendPayout_mpesaB2CRequestId_key" ON "public"."DividendPayout"("mpesaB2CRequestId");
+
+-- CreateIndex
+CREATE INDEX "DividendPayout_membershipId_idx" ON "public"."DividendPayout"("membershipId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DividendPayout_runId_membershipId_key" ON "public"."DividendPayout"("runId", "membershipId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FundAllocation_dividendPayoutId_fundId_key" ON "public"."FundAllocation"("dividendPayoutId", "fundId");
+
+-- AddForeignKey
+ALTER TABLE "public"."FundAllocation" ADD CONSTRAINT "FundAllocation_dividendPayoutId_fkey" FOREIGN KEY ("dividendPayoutId") REFERENCES "public"."DividendPayout"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DividendRun" ADD CONSTRAINT "DividendRun_chamaId_fkey" FOREIGN KEY ("chamaId") REFERENCES "public"."Chama"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DividendRun" ADD CONSTRAINT "DividendRun_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."Membership"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DividendRun" ADD CONSTRAINT "DividendRun_confirmedById_fkey" FOREIGN KEY ("confirmedById") REFERENCES "public"."Membership"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DividendPayout" ADD CONSTRAINT "DividendPayout_runId_fkey" FOREIGN KEY ("runId") REFERENCES "public"."DividendRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DividendPayout" ADD CONSTRAINT "DividendPayout_membershipId_fkey" FOREIGN KEY ("membershipId") REFERENCES "public"."Membership"("id") ON DELETE CASCADE ON UPDATE CASCADE;
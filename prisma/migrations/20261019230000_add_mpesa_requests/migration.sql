@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "public"."MpesaRequestStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED', 'CANCELLED', 'TIMED_OUT', 'UNMATCHED', 'ASSIGNED');
+
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'MPESA_PAYMENT_ASSIGN';
+
+-- CreateTable
+CREATE TABLE "public"."MpesaRequest" (
+    "id" TEXT NOT NULL,
+    "checkoutRequestId" TEXT,
+    "merchantRequestId" TEXT,
+    "phone" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" "public"."MpesaRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "resultCode" INTEGER,
+    "resultDesc" TEXT,
+    "mpesaReceipt" TEXT,
+    "requestPayload" JSONB,
+    "responsePayload" JSONB,
+    "callbackPayload" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "chamaId" TEXT,
+    "membershipId" TEXT,
+    "contributionId" TEXT,
+    "assignedById" TEXT,
+
+    CONSTRAINT "MpesaRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."MpesaRequestEvent" (
+    "id" TEXT NOT NULL,
+    "status" "public"."MpesaRequestStatus" NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "requestId" TEXT NOT NULL,
+
+    CONSTRAINT "MpesaRequestEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MpesaRequest_checkoutRequestId_key" ON "public"."MpesaRequest"("checkoutRequestId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MpesaRequest_mpesaReceipt_key" ON "public"."MpesaRequest"("mpesaReceipt");
+
+-- CreateIndex
+CREATE INDEX "MpesaRequest_chamaId_status_idx" ON "public"."MpesaRequest"("chamaId", "status");
+
+-- CreateIndex
+CREATE INDEX "MpesaRequest_membershipId_idx" ON "public"."MpesaRequest"("membershipId");
+
+-- CreateIndex
+CREATE INDEX "MpesaRequest_contributionId_idx" ON "public"."MpesaRequest"("contributionId");
+
+-- CreateIndex
+CREATE INDEX "MpesaRequestEvent_requestId_idx" ON "public"."MpesaRequestEvent"("requestId");
+
+-- AddForeignKey
+ALTER TABLE "public"."MpesaRequest" ADD CONSTRAINT "MpesaRequest_chamaId_fkey" FOREIGN KEY ("chamaId") REFERENCES "public"."Chama"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MpesaRequest" ADD CONSTRAINT "MpesaRequest_membershipId_fkey" FOREIGN KEY ("membershipId") REFERENCES "public"."Membership"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MpesaRequest" ADD CONSTRAINT "MpesaRequest_contributionId_fkey" FOREIGN KEY ("contributionId") REFERENCES "public"."Contribution"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MpesaRequest" ADD CONSTRAINT "MpesaRequest_assignedById_fkey" FOREIGN KEY ("assignedById") REFERENCES "public"."Membership"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MpesaRequestEvent" ADD CONSTRAINT "MpesaRequestEvent_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "public"."MpesaRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."MpesaRequest" ADD COLUMN     "loanId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "MpesaRequest_loanId_idx" ON "public"."MpesaRequest"("loanId");
+
+-- AddForeignKey
+ALTER TABLE "public"."MpesaRequest" ADD CONSTRAINT "MpesaRequest_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "public"."Loan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "public"."MpesaChannel" AS ENUM ('STK_PUSH', 'C2B');
+
+-- AlterTable
+ALTER TABLE "public"."Membership" ADD COLUMN     "memberNumber" SERIAL NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."MpesaRequest" ADD COLUMN     "accountReference" TEXT,
+ADD COLUMN     "channel" "public"."MpesaChannel" NOT NULL DEFAULT 'STK_PUSH';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Membership_memberNumber_key" ON "public"."Membership"("memberNumber");
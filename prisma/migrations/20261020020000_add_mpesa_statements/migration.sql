@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "public"."StatementLineStatus" AS ENUM ('MATCHED', 'MISSING', 'DUPLICATE', 'AMOUNT_MISMATCH', 'RESOLVED');
+
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'MPESA_STATEMENT_IMPORT';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'MPESA_STATEMENT_RESOLVE';
+
+-- CreateTable
+CREATE TABLE "public"."MpesaStatement" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3),
+    "periodEnd" TIMESTAMP(3),
+    "skippedLines" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "chamaId" TEXT NOT NULL,
+    "uploadedById" TEXT,
+
+    CONSTRAINT "MpesaStatement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."MpesaStatementLine" (
+    "id" TEXT NOT NULL,
+    "receipt" TEXT NOT NULL,
+    "completedAt" TIMESTAMP(3) NOT NULL,
+    "details" TEXT,
+    "otherParty" TEXT,
+    "accountNumber" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "recordedAmount" DOUBLE PRECISION,
+    "status" "public"."StatementLineStatus" NOT NULL,
+    "note" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "statementId" TEXT NOT NULL,
+    "contributionId" TEXT,
+    "loanPaymentId" TEXT,
+
+    CONSTRAINT "MpesaStatementLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MpesaStatement_chamaId_idx" ON "public"."MpesaStatement"("chamaId");
+
+-- CreateIndex
+CREATE INDEX "MpesaStatementLine_statementId_status_idx" ON "public"."MpesaStatementLine"("statementId", "status");
+
+-- CreateIndex
+CREATE INDEX "MpesaStatementLine_receipt_idx" ON "public"."MpesaStatementLine"("receipt");
+
+-- AddForeignKey
+ALTER TABLE "public"."MpesaStatement" ADD CONSTRAINT "MpesaStatement_chamaId_fkey" FOREIGN KEY ("chamaId") REFERENCES "public"."Chama"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MpesaStatement" ADD CONSTRAINT "MpesaStatement_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "public"."Membership"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MpesaStatementLine" ADD CONSTRAINT "MpesaStatementLine_statementId_fkey" FOREIGN KEY ("statementId") REFERENCES "public"."MpesaStatement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MpesaStatementLine" ADD CONSTRAINT "MpesaStatementLine_contributionId_fkey" FOREIGN KEY ("contributionId") REFERENCES "public"."Contribution"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MpesaStatementLine" ADD CONSTRAINT "MpesaStatementLine_loanPaymentId_fkey" FOREIGN KEY ("loanPaymentId") REFERENCES "public"."LoanPayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "public"."MpesaCallbackType" AS ENUM ('STK_CALLBACK', 'C2B_CONFIRMATION', 'B2C_RESULT', 'B2C_TIMEOUT');
+
+-- CreateEnum
+CREATE TYPE "public"."MpesaCallbackStatus" AS ENUM ('PROCESSING', 'PROCESSED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."MpesaCallback" (
+    "id" TEXT NOT NULL,
+    "type" "public"."MpesaCallbackType" NOT NULL,
+    "reference" TEXT NOT NULL,
+    "status" "public"."MpesaCallbackStatus" NOT NULL DEFAULT 'PROCESSING',
+    "payload" JSONB NOT NULL,
+    "deliveries" INTEGER NOT NULL DEFAULT 1,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "MpesaCallback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MpesaCallback_status_idx" ON "public"."MpesaCallback"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MpesaCallback_type_reference_key" ON "public"."MpesaCallback"("type", "reference");
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "public"."TwoFactorMethod" AS ENUM ('SMS', 'TOTP');
+
+-- CreateEnum
+CREATE TYPE "public"."TwoFactorPurpose" AS ENUM ('LOGIN', 'STEP_UP', 'SETUP');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "twoFactorMethod" "public"."TwoFactorMethod",
+ADD COLUMN     "twoFactorSecret" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Session" ADD COLUMN     "stepUpAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."ChamaSettings" ADD COLUMN     "requireStepUp" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."TwoFactorChallenge" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "purpose" "public"."TwoFactorPurpose" NOT NULL,
+    "method" "public"."TwoFactorMethod" NOT NULL,
+    "codeHash" TEXT,
+    "secret" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TwoFactorChallenge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."RecoveryCode" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RecoveryCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TwoFactorChallenge_userId_idx" ON "public"."TwoFactorChallenge"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecoveryCode_codeHash_key" ON "public"."RecoveryCode"("codeHash");
+
+-- CreateIndex
+CREATE INDEX "RecoveryCode_userId_idx" ON "public"."RecoveryCode"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."TwoFactorChallenge" ADD CONSTRAINT "TwoFactorChallenge_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RecoveryCode" ADD CONSTRAINT "RecoveryCode_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
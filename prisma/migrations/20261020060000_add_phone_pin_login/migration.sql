@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "public"."TwoFactorPurpose" ADD VALUE 'PHONE_VERIFICATION';
+
+-- AlterTable
+ALTER TABLE "public"."User" ALTER COLUMN "email" DROP NOT NULL,
+ALTER COLUMN "password" DROP NOT NULL,
+ADD COLUMN     "isPhoneVerified" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "pin" TEXT,
+ADD COLUMN     "failedPinAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "pinLockedUntil" TIMESTAMP(3);
@@ -0,0 +1,32 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "public"."AuditAction" ADD VALUE 'LOGIN_SUCCESS';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'LOGIN_FAILED';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'PASSWORD_RESET';
+ALTER TYPE "public"."AuditAction" ADD VALUE 'EMAIL_VERIFIED';
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "failedLoginAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lockedUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."PasswordHistory" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "password" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PasswordHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PasswordHistory_userId_idx" ON "public"."PasswordHistory"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."PasswordHistory" ADD CONSTRAINT "PasswordHistory_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "public"."JournalSourceType" ADD VALUE 'ROTATION_PAYOUT';
+
+-- AlterTable
+ALTER TABLE "public"."FundAllocation" ADD COLUMN     "rotationPayoutId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FundAllocation_rotationPayoutId_membershipId_fundId_key" ON "public"."FundAllocation"("rotationPayoutId", "membershipId", "fundId");
+
+-- AddForeignKey
+ALTER TABLE "public"."FundAllocation" ADD CONSTRAINT "FundAllocation_rotationPayoutId_fkey" FOREIGN KEY ("rotationPayoutId") REFERENCES "public"."RotationPayout"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "public"."ChamaSettings" ADD COLUMN     "loanDefaultAfter" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "loanGracePeriodDays" INTEGER NOT NULL DEFAULT 7,
+ADD COLUMN     "loanInterestMethod" "public"."InterestMethod" NOT NULL DEFAULT 'FLAT',
+ADD COLUMN     "loanPenaltyPeriod" "public"."PenaltyPeriod" NOT NULL DEFAULT 'MONTHLY',
+ADD COLUMN     "loanPenaltyRate" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill: chamas without a settings row get one, then every chama keeps the loan rules it already had.
+INSERT INTO "public"."ChamaSettings" ("id", "updatedAt", "chamaId")
+SELECT md5(random()::text || c."id"), CURRENT_TIMESTAMP, c."id" FROM "public"."Chama" c
+WHERE NOT EXISTS (SELECT 1 FROM "public"."ChamaSettings" s WHERE s."chamaId" = c."id");
+
+UPDATE "public"."ChamaSettings" s
+SET "loanInterestMethod" = c."loanInterestMethod",
+    "loanGracePeriodDays" = c."loanGracePeriodDays",
+    "loanPenaltyRate" = c."loanPenaltyRate",
+    "loanPenaltyPeriod" = c."loanPenaltyPeriod",
+    "loanDefaultAfter" = c."loanDefaultAfter"
+FROM "public"."Chama" c
+WHERE s."chamaId" = c."id";
+
+-- AlterTable
+ALTER TABLE "public"."Chama" DROP COLUMN "loanDefaultAfter",
+DROP COLUMN "loanGracePeriodDays",
+DROP COLUMN "loanInterestMethod",
+DROP COLUMN "loanPenaltyPeriod",
+DROP COLUMN "loanPenaltyRate";
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "failedTwoFactorAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastTotpStep" INTEGER,
+ADD COLUMN     "twoFactorLockedUntil" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."MpesaCallback" ADD COLUMN     "claimedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill: callbacks were last claimed when they were last updated.
+UPDATE "public"."MpesaCallback" SET "claimedAt" = "updatedAt";
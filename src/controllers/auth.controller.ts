@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from 'express'; 
 import * as authService from '../services/auth.service';
+import * as sessionService from '../services/session.service';
+import * as twoFactorService from '../services/twoFactor.service';
+import { SessionRevocation } from '@prisma/client';
 import { isErrorWithMessage } from '../utils/error.utils';
 import logger from '../config/logger';
 
@@ -27,6 +30,12 @@ export const register = async (req: Request, res: Response, next: NextFunction)
   }
 };
 
+// The device a request came from, recorded against its session
+const clientInfo = (req: Request): sessionService.ClientInfo => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
+
 // POST /api/auth/login
 export const login = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -34,7 +43,12 @@ export const login = async (req: Request, res: Response, next: NextFunction) =>
     
     logger.debug({ email }, 'User login attempt');
     
-    const data = await authService.loginUser(email, password);
+    const data = await authService.loginUser(email, password, clientInfo(req));
+
+    if (data.twoFactorRequired) {
+      logger.info({ email, method: data.method }, 'Login awaiting second factor');
+      return res.status(200).json({ success: true, message: 'Enter your verification code to finish logging in', data });
+    }
     
     logger.info({ 
       userId: data.user?.id, 
@@ -51,6 +65,258 @@ export const login = async (req: Request, res: Response, next: NextFunction) =>
   }
 };
 
+// POST /api/auth/refresh
+export const refresh = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      logger.warn('Token refresh attempt without refresh token');
+      return res.status(400).json({ success: false, message: 'Refresh token is required.' });
+    }
+
+    const data = await sessionService.refreshSession(refreshToken, clientInfo(req));
+
+    res.status(200).json({ success: true, message: 'Token refreshed', data });
+  } catch (error) {
+    logger.error({ error }, 'Token refresh failed');
+    next(error);
+  }
+};
+
+// POST /api/auth/logout
+export const logout = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id: userId, sessionId } = req.user!;
+
+    if (!sessionId) {
+      logger.warn({ userId }, 'Logout attempt with a token that has no session');
+      return res.status(400).json({ success: false, message: 'This token does not belong to a session. Please log in again.' });
+    }
+
+    await sessionService.revokeSession(userId, sessionId, SessionRevocation.LOGOUT);
+
+    logger.info({ userId, sessionId }, 'User logged out');
+
+    res.status(200).json({ success: true, message: 'Logged out successfully' });
+  } catch (error) {
+    logger.error({ error, userId: req.user?.id }, 'Logout failed');
+    next(error);
+  }
+};
+
+// POST /api/auth/logout-all
+export const logoutAll = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user!.id;
+
+    const count = await sessionService.revokeAllSessions(userId, SessionRevocation.LOGOUT_ALL);
+
+    logger.info({ userId, count }, 'User logged out of all sessions');
+
+    res.status(200).json({ success: true, message: 'Logged out of all sessions', data: { count } });
+  } catch (error) {
+    logger.error({ error, userId: req.user?.id }, 'Logout from all sessions failed');
+    next(error);
+  }
+};
+
+// GET /api/auth/sessions
+export const getSessions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id: userId, sessionId } = req.user!;
+
+    const sessions = await sessionService.listSessions(userId, sessionId);
+
+    res.status(200).json({ success: true, data: sessions });
+  } catch (error) {
+    logger.error({ error, userId: req.user?.id }, 'Error fetching sessions');
+    next(error);
+  }
+};
+
+// DELETE /api/auth/sessions/:sessionId
+export const revokeSession = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user!.id;
+    const { sessionId } = req.params;
+
+    await sessionService.revokeSession(userId, sessionId);
+
+    logger.info({ userId, sessionId }, 'Session revoked by user');
+
+    res.status(200).json({ success: true, message: 'Session revoked' });
+  } catch (error) {
+    logger.error({ error, userId: req.user?.id, sessionId: req.params.sessionId }, 'Error revoking session');
+    next(error);
+  }
+};
+
+// POST /api/auth/phone/register
+export const registerWithPhone = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await authService.registerPhoneUser(req.body);
+
+    res.status(201).json({ success: true, message: 'User registered successfully. Enter the code sent to your phone to verify it.', data: user });
+  } catch (error) {
+    logger.error({ error, phone: req.body.phone }, 'Phone registration failed');
+    next(error);
+  }
+};
+
+// POST /api/auth/phone/verify
+export const verifyPhone = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { phone, code } = req.body;
+
+    const user = await authService.verifyPhoneNumber(phone, code);
+
+    res.status(200).json({ success: true, message: 'Phone number verified. You can now log in with your PIN.', data: user });
+  } catch (error) {
+    logger.error({ error, phone: req.body.phone }, 'Phone verification failed');
+    next(error);
+  }
+};
+
+// POST /api/auth/phone/resend-code
+export const resendPhoneCode = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await authService.resendPhoneVerification(req.body.phone);
+
+    res.status(200).json({ success: true, message: 'If that phone number is awaiting verification, a new code has been sent.' });
+  } catch (error) {
+    logger.error({ error, phone: req.body.phone }, 'Resending phone verification code failed');
+    next(error);
+  }
+};
+
+// POST /api/auth/phone/login
+export const loginWithPin = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { phone, pin } = req.body;
+
+    const data = await authService.loginWithPin(phone, pin, clientInfo(req));
+
+    if (data.twoFactorRequired) {
+      return res.status(200).json({ success: true, message: 'Enter your verification code to finish logging in', data });
+    }
+
+    res.status(200).json({ success: true, message: 'Login successful', data });
+  } catch (error) {
+    logger.error({ error, phone: req.body.phone }, 'PIN login failed');
+    next(error);
+  }
+};
+
+// POST /api/auth/2fa/verify
+export const verifyTwoFactorLogin = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { challengeId, code } = req.body;
+
+    const data = await twoFactorService.completeLoginChallenge(challengeId, code, clientInfo(req));
+
+    logger.info({ userId: data.user.id }, 'User logged in successfully with second factor');
+
+    res.status(200).json({ success: true, message: 'Login successful', data });
+  } catch (error) {
+    logger.error({ error }, 'Two-factor login failed');
+    next(error);
+  }
+};
+
+// GET /api/auth/2fa
+export const getTwoFactorStatus = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = await twoFactorService.getTwoFactorStatus(req.user!.id);
+
+    res.status(200).json({ success: true, data });
+  } catch (error) {
+    logger.error({ error, userId: req.user?.id }, 'Error fetching two-factor status');
+    next(error);
+  }
+};
+
+// POST /api/auth/2fa/setup
+export const setupTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = await twoFactorService.beginTwoFactorSetup(req.user!.id, req.body.method);
+
+    res.status(200).json({ success: true, message: 'Enter the code from your new second factor to finish setup', data });
+  } catch (error) {
+    logger.error({ error, userId: req.user?.id }, 'Two-factor setup failed');
+    next(error);
+  }
+};
+
+// POST /api/auth/2fa/enable
+export const enableTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id: userId, sessionId } = req.user!;
+    const { challengeId, code } = req.body;
+
+    const data = await twoFactorService.enableTwoFactor(userId, challengeId, code, sessionId);
+
+    res.status(200).json({ success: true, message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.', data });
+  } catch (error) {
+    logger.error({ error, userId: req.user?.id }, 'Enabling two-factor authentication failed');
+    next(error);
+  }
+};
+
+// POST /api/auth/2fa/disable
+export const disableTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await twoFactorService.disableTwoFactor(req.user!.id, req.body.code);
+
+    res.status(200).json({ success: true, message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    logger.error({ error, userId: req.user?.id }, 'Disabling two-factor authentication failed');
+    next(error);
+  }
+};
+
+// POST /api/auth/2fa/recovery-codes
+export const regenerateRecoveryCodes = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = await twoFactorService.regenerateRecoveryCodes(req.user!.id, req.body.code);
+
+    res.status(200).json({ success: true, message: 'New recovery codes generated. The old ones no longer work.', data });
+  } catch (error) {
+    logger.error({ error, userId: req.user?.id }, 'Regenerating recovery codes failed');
+    next(error);
+  }
+};
+
+// POST /api/auth/2fa/step-up/code
+export const sendStepUpCode = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = await twoFactorService.sendStepUpCode(req.user!.id);
+
+    res.status(200).json({ success: true, message: 'Verification code sent', data });
+  } catch (error) {
+    logger.error({ error, userId: req.user?.id }, 'Sending step-up code failed');
+    next(error);
+  }
+};
+
+// POST /api/auth/2fa/step-up
+export const stepUp = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id: userId, sessionId } = req.user!;
+
+    if (!sessionId) {
+      return res.status(400).json({ success: false, message: 'This token does not belong to a session. Please log in again.' });
+    }
+
+    await twoFactorService.stepUp(userId, sessionId, req.body.code);
+
+    res.status(200).json({ success: true, message: 'Verified' });
+  } catch (error) {
+    logger.error({ error, userId: req.user?.id }, 'Step-up verification failed');
+    next(error);
+  }
+};
+
 // GET /api/auth/profile
 export const getProfile = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -93,7 +359,8 @@ export const updateProfile = async (req: Request, res: Response, next: NextFunct
       updateFields 
     }, 'Updating user profile');
     
-    const updatedUser = await authService.updateUserProfile(userId, req.body);
+    const { firstName, lastName, email, phone } = req.body;
+    const updatedUser = await authService.updateUserProfile(userId, { firstName, lastName, email, phone }, req.user?.sessionId);
     
     logger.info({ 
       userId, 
@@ -123,7 +390,7 @@ export const verifyEmail = async (req: Request, res: Response) => {
     
     logger.debug({ tokenLength: token?.length }, 'Email verification attempt');
     
-    await authService.verifyUserEmail(token);
+    await authService.verifyUserEmail(token, clientInfo(req));
     
     logger.info('Email verified successfully');
     
@@ -180,7 +447,7 @@ export const resetPassword = async (req: Request, res: Response) => {
     
     logger.debug({ tokenLength: token?.length }, 'Password reset attempt');
     
-    await authService.resetUserPassword(token, password);
+    await authService.resetUserPassword(token, password, clientInfo(req));
     
     logger.info('Password reset successfully');
     
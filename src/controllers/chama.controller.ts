@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import * as chamaService from '../services/chama.service';
 import { MembershipRole } from '@prisma/client';
-import { isErrorWithMessage, isPrismaError } from '../utils/error.utils';
+import { isAppError, isErrorWithMessage, isPrismaError } from '../utils/error.utils';
 import logger from '../config/logger';
 
 // Extend request type to include user and file from middleware
@@ -16,7 +16,10 @@ export const createChama = async (req: AuthenticatedRequest, res: Response) => {
     if (!creatorId) {
       return res.status(401).json({ message: 'User not authenticated' });
     }
-    const { name, description, monthlyContribution, meetingDay } = req.body;
+    const {
+      name, description, monthlyContribution, meetingDay, loanInterestMethod,
+      loanGracePeriodDays, loanPenaltyRate, loanPenaltyPeriod, loanDefaultAfter,
+    } = req.body;
     const constitutionUrl = req.file?.path;
     const chamaData = {
       name,
@@ -24,6 +27,11 @@ export const createChama = async (req: AuthenticatedRequest, res: Response) => {
       monthlyContribution: parseFloat(monthlyContribution),
       meetingDay,
       constitutionUrl,
+      loanInterestMethod,
+      loanGracePeriodDays: loanGracePeriodDays !== undefined ? parseInt(loanGracePeriodDays, 10) : undefined,
+      loanPenaltyRate: loanPenaltyRate !== undefined ? parseFloat(loanPenaltyRate) : undefined,
+      loanPenaltyPeriod,
+      loanDefaultAfter: loanDefaultAfter !== undefined ? parseInt(loanDefaultAfter, 10) : undefined,
     };
     const newChama = await chamaService.createChamaAndFirstMember(chamaData, creatorId);
     logger.info({ creatorId, chamaId: newChama.id, chamaName: name }, 'Chama created successfully');
@@ -145,6 +153,10 @@ export const removeMember = async (req: AuthenticatedRequest, res: Response) =>
         logger.info({ actorId, chamaId, removedUserId: userId }, 'Member removed from chama');
         res.status(200).json({ message: 'Member removed successfully.' });
     } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.id, userId: req.params.userId }, 'Member removal blocked');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
         if (isPrismaError(error) && error.code === 'P2025') {
             logger.warn({ chamaId: req.params.id, userId: req.params.userId }, 'Membership not found for removal');
             return res.status(404).json({ message: 'Membership not found for this user and chama.' });
@@ -193,4 +205,185 @@ export const getChamaDashboard = async (req: AuthenticatedRequest, res: Response
         logger.error({ error, chamaId: req.params.id }, 'Get Dashboard Error');
         res.status(500).json({ message: 'An unexpected error occurred while fetching dashboard data.' });
     }
-};
\ No newline at end of file
+};
+
+// --- Settings ---
+
+export const getChamaSettings = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { id } = req.params;
+        const settings = await chamaService.getChamaSettings(id);
+        res.status(200).json({ data: settings });
+    } catch (error) {
+        logger.error({ error, chamaId: req.params.id }, 'Get Chama Settings Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching chama settings.' });
+    }
+};
+
+export const updateChamaSettings = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { id } = req.params;
+        const actorId = req.user?.id;
+        if (!actorId) {
+            return res.status(401).json({ message: 'User not authenticated' });
+        }
+        const {
+            contributionFrequency, contributionDeadlineDay, penaltyType, penaltyAmount, penaltyCap,
+            loanEligibilityMultiplier, maxLoanDuration, defaultInterestRate, loanInterestMethod, loanGracePeriodDays,
+            loanPenaltyRate, loanPenaltyPeriod, loanDefaultAfter, cycleStartDate, requireStepUp,
+        } = req.body;
+        const settings = await chamaService.updateChamaSettings(id, actorId, {
+            contributionFrequency,
+            contributionDeadlineDay,
+            penaltyType,
+            penaltyAmount,
+            penaltyCap,
+            loanEligibilityMultiplier,
+            maxLoanDuration,
+            defaultInterestRate,
+            loanInterestMethod,
+            loanGracePeriodDays,
+            loanPenaltyRate,
+            loanPenaltyPeriod,
+            loanDefaultAfter,
+            cycleStartDate,
+            requireStepUp,
+        });
+        logger.info({ actorId, chamaId: id, updates: Object.keys(req.body) }, 'Chama settings updated');
+        res.status(200).json({ message: 'Chama settings updated successfully', data: settings });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.id }, 'Update chama settings failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, chamaId: req.params.id }, 'Update Chama Settings Error');
+        res.status(500).json({ message: 'An unexpected error occurred while updating chama settings.' });
+    }
+};
+
+// --- Invitations ---
+
+export const createInvitation = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { id: chamaId } = req.params;
+        const { email } = req.body;
+        const actorId = req.user?.id;
+        if (!actorId) {
+            return res.status(401).json({ message: 'User not authenticated' });
+        }
+        const invitation = await chamaService.createMemberInvitation(chamaId, email, actorId);
+        logger.info({ actorId, chamaId, invitationId: invitation.id }, 'Invitation created');
+        res.status(201).json({ message: `Invitation sent to ${email}.`, data: invitation });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.id, email: req.body.email }, 'Create invitation failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, chamaId: req.params.id }, 'Create Invitation Error');
+        res.status(500).json({ message: 'An unexpected error occurred while creating the invitation.' });
+    }
+};
+
+export const getPendingInvitations = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { id: chamaId } = req.params;
+        const invitations = await chamaService.findPendingInvitations(chamaId);
+        logger.info({ chamaId, count: invitations.length }, 'Pending invitations fetched');
+        res.status(200).json({ data: invitations });
+    } catch (error) {
+        logger.error({ error, chamaId: req.params.id }, 'Get Pending Invitations Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching invitations.' });
+    }
+};
+
+export const getInvitationByCode = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const invitation = await chamaService.findInvitationByCode(req.params.code);
+        res.status(200).json({ data: invitation });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error }, 'Invitation lookup failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error }, 'Get Invitation Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching the invitation.' });
+    }
+};
+
+export const acceptInvitation = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) {
+            return res.status(401).json({ message: 'User not authenticated' });
+        }
+        const membership = await chamaService.acceptInvitation(req.params.code, userId);
+        logger.info({ userId, chamaId: membership.chamaId }, 'Invitation accepted');
+        res.status(201).json({ message: 'Invitation accepted. Welcome to the chama!', data: membership });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, userId: req.user?.id }, 'Accept invitation failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, userId: req.user?.id }, 'Accept Invitation Error');
+        res.status(500).json({ message: 'An unexpected error occurred while accepting the invitation.' });
+    }
+};
+
+export const declineInvitation = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) {
+            return res.status(401).json({ message: 'User not authenticated' });
+        }
+        await chamaService.declineInvitation(req.params.code, userId);
+        logger.info({ userId }, 'Invitation declined');
+        res.status(200).json({ message: 'Invitation declined.' });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, userId: req.user?.id }, 'Decline invitation failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, userId: req.user?.id }, 'Decline Invitation Error');
+        res.status(500).json({ message: 'An unexpected error occurred while declining the invitation.' });
+    }
+};
+
+export const resendInvitation = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { id: chamaId, invitationId } = req.params;
+        const actorId = req.user?.id;
+        if (!actorId) {
+            return res.status(401).json({ message: 'User not authenticated' });
+        }
+        const invitation = await chamaService.resendInvitation(chamaId, invitationId, actorId);
+        logger.info({ actorId, chamaId, invitationId }, 'Invitation resent');
+        res.status(200).json({ message: 'Invitation resent successfully.', data: invitation });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.id, invitationId: req.params.invitationId }, 'Resend invitation failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, chamaId: req.params.id }, 'Resend Invitation Error');
+        res.status(500).json({ message: 'An unexpected error occurred while resending the invitation.' });
+    }
+};
+
+export const revokeInvitation = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { id: chamaId, invitationId } = req.params;
+        const actorId = req.user?.id;
+        if (!actorId) {
+            return res.status(401).json({ message: 'User not authenticated' });
+        }
+        await chamaService.revokeInvitation(chamaId, invitationId, actorId);
+        logger.info({ actorId, chamaId, invitationId }, 'Invitation revoked');
+        res.status(200).json({ message: 'Invitation revoked successfully.' });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.id, invitationId: req.params.invitationId }, 'Revoke invitation failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, chamaId: req.params.id }, 'Revoke Invitation Error');
+        res.status(500).json({ message: 'An unexpected error occurred while revoking the invitation.' });
+    }
+};
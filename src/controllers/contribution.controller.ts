@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import * as contributionService from '../services/contribution.service';
+import * as contributionPeriodService from '../services/contributionPeriod.service';
 import { isErrorWithMessage, isPrismaError } from '../utils/error.utils';
 import { PrismaClient } from '@prisma/client';
 import { MembershipRole } from '@prisma/client';
@@ -224,6 +225,43 @@ export const getDefaulters = async (req: Request, res: Response) => {
     }
 };
 
+export const getContributionPeriods = async (req: Request, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const from = req.query.from ? new Date(req.query.from as string) : undefined;
+        const to = req.query.to ? new Date(req.query.to as string) : undefined;
+        const periods = await contributionPeriodService.listPeriods(chamaId, from, to);
+        logger.info({ chamaId, count: periods.length }, 'Contribution periods fetched');
+        res.status(200).json({ data: periods });
+    } catch (error) {
+        if (isErrorWithMessage(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId }, 'Get contribution periods failed');
+            return res.status(400).json({ message: error.message });
+        }
+        logger.error({ error, chamaId: req.params.chamaId }, 'Get contribution periods error');
+        res.status(500).json({ message: 'An unexpected error occurred.' });
+    }
+};
+
+export const createContributionPeriod = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const actorId = req.user?.id;
+        if (!actorId) return res.status(401).json({ message: 'User not authenticated' });
+
+        const { startDate, endDate, dueDate } = req.body;
+        const period = await contributionPeriodService.createCustomPeriod(req.params.chamaId, actorId, { startDate, endDate, dueDate });
+        logger.info({ actorId, chamaId: req.params.chamaId, periodId: period.id }, 'Contribution period created');
+        res.status(201).json({ message: 'Contribution period created successfully.', data: period });
+    } catch (error) {
+        if (isErrorWithMessage(error)) {
+            logger.warn({ error, actorId: req.user?.id, chamaId: req.params.chamaId }, 'Create contribution period failed');
+            return res.status(400).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, chamaId: req.params.chamaId }, 'Create contribution period error');
+        res.status(500).json({ message: 'An unexpected error occurred.' });
+    }
+};
+
 export const bulkImportContributions = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { chamaId } = req.params;
@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import * as dividendService from '../services/dividend.service';
+import { isAppError } from '../utils/error.utils';
+import logger from '../config/logger';
+
+interface AuthenticatedRequest extends Request {
+    user?: { id: string };
+}
+
+const getLogMeta = (req: Request) => ({ ipAddress: req.ip, userAgent: req.headers['user-agent'] });
+
+export const previewDividendRun = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const { financialYear, policy } = req.body;
+
+        const run = await dividendService.previewDividendRun(chamaId, req.user?.id!, financialYear, policy, getLogMeta(req));
+        res.status(201).json({ message: 'Dividend preview created. Confirm it to pay members.', data: run });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId }, 'Dividend preview failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, chamaId: req.params.chamaId }, 'Preview Dividend Run Error');
+        res.status(500).json({ message: 'An unexpected error occurred while previewing the dividend.' });
+    }
+};
+
+export const getDividendRuns = async (req: Request, res: Response) => {
+    try {
+        const runs = await dividendService.findDividendRuns(req.params.chamaId);
+        res.status(200).json({ data: runs });
+    } catch (error) {
+        logger.error({ error, chamaId: req.params.chamaId }, 'Get Dividend Runs Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching dividend runs.' });
+    }
+};
+
+export const getDividendRun = async (req: Request, res: Response) => {
+    try {
+        const { chamaId, runId } = req.params;
+        const run = await dividendService.getDividendRun(chamaId, runId);
+        res.status(200).json({ data: run });
+    } catch (error) {
+        if (isAppError(error)) {
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, runId: req.params.runId }, 'Get Dividend Run Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching the dividend run.' });
+    }
+};
+
+export const confirmDividendRun = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId, runId } = req.params;
+        const { payoutMethod } = req.body;
+
+        const run = await dividendService.confirmDividendRun(chamaId, runId, req.user?.id!, payoutMethod, getLogMeta(req));
+        const message = payoutMethod === 'MPESA'
+            ? 'Dividend confirmed. M-Pesa payouts have been initiated.'
+            : 'Dividend confirmed and credited to member savings.';
+        res.status(200).json({ message, data: run });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId, runId: req.params.runId }, 'Dividend confirmation failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, runId: req.params.runId }, 'Confirm Dividend Run Error');
+        res.status(500).json({ message: 'An unexpected error occurred while confirming the dividend.' });
+    }
+};
+
+export const retryFailedPayouts = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId, runId } = req.params;
+        const run = await dividendService.retryFailedPayouts(chamaId, runId, req.user?.id!);
+        res.status(200).json({ message: 'Failed M-Pesa payouts have been sent again.', data: run });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId, runId: req.params.runId }, 'Dividend payout retry failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, runId: req.params.runId }, 'Retry Dividend Payouts Error');
+        res.status(500).json({ message: 'An unexpected error occurred while retrying dividend payouts.' });
+    }
+};
+
+export const exportDividendStatement = async (req: Request, res: Response) => {
+    try {
+        const { chamaId, runId } = req.params;
+        const format = req.query.format as 'pdf' | 'excel';
+
+        const { buffer, financialYear } = await dividendService.exportDividendStatement(chamaId, runId, format);
+
+        const fileName = `dividends-${financialYear}.${format === 'pdf' ? 'pdf' : 'xlsx'}`;
+        res.setHeader('Content-Type', format === 'pdf' ? 'application/pdf' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename=${fileName}`);
+        res.status(200).send(buffer);
+    } catch (error) {
+        if (isAppError(error)) {
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, runId: req.params.runId }, 'Export Dividend Statement Error');
+        res.status(500).json({ message: 'An unexpected error occurred while exporting the dividend statement.' });
+    }
+};
@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import { ExpenseCategory, ExpenseStatus } from '@prisma/client';
+import * as expenseService from '../services/expense.service';
+import { isAppError } from '../utils/error.utils';
+import logger from '../config/logger';
+
+interface AuthenticatedRequest extends Request {
+    user?: { id: string };
+}
+
+const getLogMeta = (req: Request) => ({ ipAddress: req.ip, userAgent: req.headers['user-agent'] });
+
+export const requestExpense = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const { category, amount, description, receiptId } = req.body;
+        const actorId = req.user?.id!;
+
+        const expense = await expenseService.requestExpense(chamaId, actorId, { category, amount, description, receiptId }, getLogMeta(req));
+        res.status(201).json({ message: 'Expense submitted for approval.', data: expense });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId }, 'Expense request failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, chamaId: req.params.chamaId }, 'Request Expense Error');
+        res.status(500).json({ message: 'An unexpected error occurred while requesting the expense.' });
+    }
+};
+
+export const reviewExpense = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId, expenseId } = req.params;
+        const { status, reviewNotes } = req.body;
+        const actorId = req.user?.id!;
+
+        const expense = await expenseService.reviewExpense(chamaId, expenseId, status, actorId, getLogMeta(req), reviewNotes);
+        res.status(200).json({ message: `Expense ${status === 'APPROVED' ? 'approved' : 'rejected'} successfully.`, data: expense });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId, expenseId: req.params.expenseId }, 'Expense review failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, expenseId: req.params.expenseId }, 'Review Expense Error');
+        res.status(500).json({ message: 'An unexpected error occurred while reviewing the expense.' });
+    }
+};
+
+export const getChamaExpenses = async (req: Request, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const page = parseInt(req.query.page as string, 10) || 1;
+        const limit = parseInt(req.query.limit as string, 10) || 20;
+        const filters = {
+            status: req.query.status as ExpenseStatus | undefined,
+            category: req.query.category as ExpenseCategory | undefined,
+        };
+
+        const { expenses, totals, totalRecords, totalPages } = await expenseService.findChamaExpenses(chamaId, filters, page, limit);
+
+        res.status(200).json({
+            data: expenses,
+            totals,
+            meta: { page, limit, totalRecords, totalPages },
+        });
+    } catch (error) {
+        logger.error({ error, chamaId: req.params.chamaId }, 'Get Chama Expenses Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching expenses.' });
+    }
+};
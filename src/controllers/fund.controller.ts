@@ -0,0 +1,52 @@
+import { Request, Response } from 'express';
+import * as fundService from '../services/fund.service';
+import { isAppError } from '../utils/error.utils';
+import logger from '../config/logger';
+
+interface AuthenticatedRequest extends Request {
+    user?: { id: string };
+}
+
+const getLogMeta = (req: Request) => ({ ipAddress: req.ip, userAgent: req.headers['user-agent'] });
+
+export const getFunds = async (req: Request, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const funds = await fundService.getFundTotals(chamaId);
+        res.status(200).json({ data: funds });
+    } catch (error) {
+        logger.error({ error, chamaId: req.params.chamaId }, 'Get Funds Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching funds.' });
+    }
+};
+
+export const saveFunds = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const actorId = req.user?.id!;
+
+        const funds = await fundService.saveFunds(chamaId, actorId, req.body.funds, getLogMeta(req));
+        res.status(200).json({ message: 'Chama funds saved successfully.', data: funds });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId }, 'Save funds failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, chamaId: req.params.chamaId }, 'Save Funds Error');
+        res.status(500).json({ message: 'An unexpected error occurred while saving funds.' });
+    }
+};
+
+export const getMemberBalances = async (req: Request, res: Response) => {
+    try {
+        const { chamaId, membershipId } = req.params;
+        const balances = await fundService.getMemberFundBalances(chamaId, membershipId);
+        res.status(200).json({ data: balances });
+    } catch (error) {
+        if (isAppError(error)) {
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, chamaId: req.params.chamaId, membershipId: req.params.membershipId }, 'Get Member Fund Balances Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching fund balances.' });
+    }
+};
@@ -0,0 +1,63 @@
+import { Request, Response } from 'express';
+import { JournalSourceType } from '@prisma/client';
+import * as ledgerService from '../services/ledger.service';
+import logger from '../config/logger';
+
+const getDateFromParam = (param: any): Date | undefined => {
+    if (param && typeof param === 'string') {
+        const date = new Date(param);
+        if (!isNaN(date.getTime())) {
+            return date;
+        }
+    }
+    return undefined;
+};
+
+export const getTrialBalance = async (req: Request, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const trialBalance = await ledgerService.getTrialBalance(chamaId, getDateFromParam(req.query.asOf));
+        logger.info({ chamaId, isBalanced: trialBalance.isBalanced }, 'Trial balance generated');
+        res.status(200).json({ data: trialBalance });
+    } catch (error) {
+        logger.error({ error, chamaId: req.params.chamaId }, 'Error generating trial balance');
+        res.status(500).json({ message: 'Error generating trial balance.' });
+    }
+};
+
+export const getJournalEntries = async (req: Request, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const page = parseInt(req.query.page as string, 10) || 1;
+        const limit = parseInt(req.query.limit as string, 10) || 20;
+
+        const filters = {
+            sourceType: req.query.sourceType as JournalSourceType | undefined,
+            dateRange: {
+                from: getDateFromParam(req.query.startDate),
+                to: getDateFromParam(req.query.endDate),
+            },
+        };
+
+        const { entries, totalRecords, totalPages } = await ledgerService.findJournalEntries(chamaId, filters, page, limit);
+
+        res.status(200).json({
+            data: entries,
+            meta: { page, limit, totalRecords, totalPages }
+        });
+    } catch (error) {
+        logger.error({ error, chamaId: req.params.chamaId }, 'Error fetching journal entries');
+        res.status(500).json({ message: 'Error fetching journal entries.' });
+    }
+};
+
+export const rebuildLedger = async (req: Request, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const result = await ledgerService.rebuildLedger(chamaId);
+        res.status(200).json({ message: 'Ledger rebuilt successfully.', data: result });
+    } catch (error) {
+        logger.error({ error, chamaId: req.params.chamaId }, 'Error rebuilding ledger');
+        res.status(500).json({ message: 'Error rebuilding ledger.' });
+    }
+};
@@ -110,7 +110,7 @@ export const applyForLoan = async (req: AuthenticatedRequest, res: Response) =>
     try {
         const actorId = req.user?.id!;
         const logMeta = { ipAddress: req.ip, userAgent: req.headers['user-agent'] };
-        const { membershipId, amount, duration, purpose, interestRate } = req.body;
+        const { membershipId, amount, duration, purpose, interestRate, guarantors } = req.body;
 
         logger.debug({ 
             actorId, 
@@ -121,7 +121,7 @@ export const applyForLoan = async (req: AuthenticatedRequest, res: Response) =>
         }, 'Loan application initiated');
 
         const data = { amount, duration, purpose, interestRate, membership: { connect: { id: membershipId } } };
-        const newLoan = await loanService.applyForLoan(data, membershipId, actorId, logMeta);
+        const newLoan = await loanService.applyForLoan(data, membershipId, actorId, logMeta, guarantors);
         
         logger.info({ 
             actorId, 
@@ -149,7 +149,7 @@ export const approveOrRejectLoan = async (req: AuthenticatedRequest, res: Respon
         const actorId = req.user?.id!;
         const logMeta = { ipAddress: req.ip, userAgent: req.headers['user-agent'] };
         const { id: loanId } = req.params;
-        const { status } = req.body;
+        const { status, interestMethod } = req.body;
 
         logger.debug({ 
             actorId, 
@@ -157,7 +157,7 @@ export const approveOrRejectLoan = async (req: AuthenticatedRequest, res: Respon
             newStatus: status 
         }, 'Loan status update initiated');
 
-        const updatedLoan = await loanService.approveOrRejectLoan(loanId, status, actorId, logMeta);
+        const updatedLoan = await loanService.approveOrRejectLoan(loanId, status, actorId, logMeta, interestMethod);
         
         logger.info({ 
             actorId, 
@@ -179,6 +179,30 @@ export const approveOrRejectLoan = async (req: AuthenticatedRequest, res: Respon
     }
 };
 
+export const respondToGuaranteeRequest = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const actorId = req.user?.id!;
+        const logMeta = { ipAddress: req.ip, userAgent: req.headers['user-agent'] };
+        const { id: loanId } = req.params;
+        const { status } = req.body;
+
+        logger.debug({ actorId, loanId, status }, 'Guarantee response initiated');
+
+        const guarantor = await loanService.respondToGuaranteeRequest(loanId, status, actorId, logMeta);
+
+        res.status(200).json({ message: `Guarantee ${status === 'ACCEPTED' ? 'accepted' : 'declined'} successfully.`, data: guarantor });
+    } catch (error) {
+        logger.error({ 
+            error, 
+            actorId: req.user?.id, 
+            loanId: req.params.id,
+            status: req.body.status 
+        }, 'Guarantee response failed');
+        if (isErrorWithMessage(error)) return res.status(400).json({ message: error.message });
+        res.status(500).json({ message: 'An unexpected error occurred.' });
+    }
+};
+
 export const disburseLoan = async (req: AuthenticatedRequest, res: Response) => {
     try {
         const actorId = req.user?.id!;
@@ -402,7 +426,7 @@ export const getRepaymentSchedule = async (req: AuthenticatedRequest, res: Respo
             return res.status(403).json({ message: "Permission Denied." });
         }
 
-        const schedule = loanService.generateRepaymentSchedule(loan);
+        const schedule = await loanService.getRepaymentSchedule(loan);
         
         logger.info({ 
             actorId, 
@@ -444,4 +468,44 @@ export const getLoanDefaulters = async (req: Request, res: Response) => {
         }, 'Error fetching loan defaulters');
         res.status(500).json({ message: 'An unexpected error occurred.' });
     }
-};
\ No newline at end of file
+};
+
+export const sendInstallmentReminders = async (req: Request, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const daysAhead = req.body.daysAhead !== undefined ? Number(req.body.daysAhead) : undefined;
+
+        logger.debug({ chamaId, daysAhead }, 'Sending loan installment reminders');
+
+        const result = await loanService.sendInstallmentReminders(chamaId, daysAhead);
+
+        res.status(200).json({ message: 'Installment reminders sent.', data: result });
+    } catch (error) {
+        logger.error({ 
+            error, 
+            chamaId: req.params.chamaId 
+        }, 'Error sending loan installment reminders');
+        res.status(500).json({ message: 'An unexpected error occurred.' });
+    }
+};
+
+export const processOverdueLoans = async (req: Request, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+
+        logger.info({ chamaId, actorId: req.user?.id }, 'Manually applying overdue loan rules');
+
+        const result = await loanService.applyOverdueLoanRules(chamaId);
+
+        res.status(200).json({ message: 'Overdue loan rules applied.', data: result });
+    } catch (error) {
+        logger.error({ 
+            error, 
+            chamaId: req.params.chamaId 
+        }, 'Error applying overdue loan rules');
+        if (isErrorWithMessage(error)) {
+            return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: 'An unexpected error occurred.' });
+    }
+};
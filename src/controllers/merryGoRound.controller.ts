@@ -0,0 +1,111 @@
+import { Request, Response } from 'express';
+import * as merryGoRoundService from '../services/merryGoRound.service';
+import { isAppError } from '../utils/error.utils';
+import logger from '../config/logger';
+
+interface AuthenticatedRequest extends Request {
+    user?: { id: string };
+}
+
+const getLogMeta = (req: Request) => ({ ipAddress: req.ip, userAgent: req.headers['user-agent'] });
+
+export const getRotation = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const rotation = await merryGoRoundService.getRotation(chamaId);
+        res.status(200).json({ data: rotation });
+    } catch (error) {
+        if (isAppError(error)) {
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, chamaId: req.params.chamaId }, 'Get Rotation Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching the rotation.' });
+    }
+};
+
+export const saveRotation = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const { order, membershipIds } = req.body;
+        const actorId = req.user?.id!;
+
+        const rotation = await merryGoRoundService.saveRotation(chamaId, actorId, { order, membershipIds }, getLogMeta(req));
+        res.status(200).json({ message: 'Merry-go-round schedule saved successfully.', data: rotation });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId }, 'Save rotation failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, chamaId: req.params.chamaId }, 'Save Rotation Error');
+        res.status(500).json({ message: 'An unexpected error occurred while saving the rotation.' });
+    }
+};
+
+export const requestSwap = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const { targetMembershipId } = req.body;
+        const actorId = req.user?.id!;
+
+        const swap = await merryGoRoundService.requestSwap(chamaId, actorId, targetMembershipId, getLogMeta(req));
+        res.status(201).json({ message: 'Swap request sent.', data: swap });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId }, 'Swap request failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, chamaId: req.params.chamaId }, 'Request Swap Error');
+        res.status(500).json({ message: 'An unexpected error occurred while requesting the swap.' });
+    }
+};
+
+export const respondToSwap = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId, swapId } = req.params;
+        const { status } = req.body;
+        const actorId = req.user?.id!;
+
+        const swap = await merryGoRoundService.respondToSwap(chamaId, swapId, status, actorId, getLogMeta(req));
+        res.status(200).json({ message: `Swap ${status === 'ACCEPTED' ? 'accepted' : 'declined'} successfully.`, data: swap });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId, swapId: req.params.swapId }, 'Swap response failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, swapId: req.params.swapId }, 'Respond To Swap Error');
+        res.status(500).json({ message: 'An unexpected error occurred while responding to the swap.' });
+    }
+};
+
+export const recordPayout = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const { periodId, paymentMethod, mpesaCode, sendViaMpesa } = req.body;
+        const actorId = req.user?.id!;
+
+        const payout = await merryGoRoundService.recordPayout(chamaId, actorId, { periodId, paymentMethod, mpesaCode, sendViaMpesa }, getLogMeta(req));
+        const message = sendViaMpesa ? 'M-Pesa payout initiated.' : 'Payout recorded successfully.';
+        res.status(201).json({ message, data: payout });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId }, 'Record payout failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, chamaId: req.params.chamaId }, 'Record Payout Error');
+        res.status(500).json({ message: 'An unexpected error occurred while recording the payout.' });
+    }
+};
+
+export const getPayouts = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const payouts = await merryGoRoundService.listPayouts(chamaId);
+        res.status(200).json({ data: payouts });
+    } catch (error) {
+        if (isAppError(error)) {
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, chamaId: req.params.chamaId }, 'Get Payouts Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching payouts.' });
+    }
+};
@@ -1,10 +1,18 @@
 import { Request, Response } from 'express';
 import * as mpesaService from '../services/mpesa.service';
-import { isErrorWithMessage } from '../utils/error.utils';
+import { postLoanDisbursement } from '../services/ledger.service';
+import * as mpesaRequestService from '../services/mpesaRequest.service';
+import { processCallbackOnce } from '../services/mpesaCallback.service';
+import { PayoutCallback } from '../services/payments/types';
+import * as mpesaStatementService from '../services/mpesaStatement.service';
+import { createInstallmentSchedule } from '../services/loan.service';
+import { settleMpesaPayout } from '../services/merryGoRound.service';
+import { settleMpesaWithdrawal } from '../services/withdrawal.service';
+import { settleMpesaDividend } from '../services/dividend.service';
+import { isAppError, isErrorWithMessage } from '../utils/error.utils';
 import { PrismaClient } from '@prisma/client';
 import { MembershipRole } from '@prisma/client';
-import { LoanStatus, TransactionType } from '@prisma/client';
-import { addMonths } from 'date-fns';
+import { LoanStatus, MpesaCallbackType, MpesaChannel, MpesaRequestStatus, TransactionType } from '@prisma/client';
 import logger from '../config/logger';
 
 const prisma = new PrismaClient();
@@ -44,6 +52,26 @@ export const initiateStkPushController = async (req: AuthenticatedRequest, res:
     }
 };
 
+export const initiateLoanStkPushController = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { loanId, phone, amount } = req.body;
+        const actorId = req.user?.id;
+        if (!actorId) return res.status(401).json({ message: 'User not authenticated' });
+
+        // Without an amount the member is asked for their next installment.
+        const response = await mpesaRequestService.startLoanRepaymentPush(loanId, phone, amount, actorId);
+        res.status(200).json({ message: 'STK Push initiated successfully. Please check your phone.', data: response });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, loanId: req.body.loanId }, 'Loan STK push rejected');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, loanId: req.body.loanId }, 'Loan STK Push Error');
+        if (isErrorWithMessage(error)) return res.status(500).json({ message: error.message });
+        res.status(500).json({ message: 'An unexpected error occurred.' });
+    }
+};
+
 export const handleMpesaCallback = async (req: Request, res: Response) => {
     logger.info('--- M-PESA CALLBACK RECEIVED ---');
     logger.info({ body: req.body }, 'Callback data');
@@ -53,43 +81,71 @@ export const handleMpesaCallback = async (req: Request, res: Response) => {
 
     // --- Process the data asynchronously after responding ---
     try {
-        if (!req.body.Body || !req.body.Body.stkCallback) {
-            throw new Error('Invalid M-Pesa callback structure');
+        const callback = mpesaService.parseStkCallback(req.body);
+        const processed = await processCallbackOnce(MpesaCallbackType.STK_CALLBACK, callback.reference, req.body, async () => {
+            // Payments are applied or queued as unmatched; failed, cancelled and timed-out pushes are closed.
+            const request = await mpesaRequestService.processStkCallback(callback);
+            if (request) {
+                logger.info({ requestId: request.id, status: request.status }, `Processed STK callback for Checkout ID ${request.checkoutRequestId}.`);
+            }
+        });
+        if (!processed) {
+            logger.info({ checkoutRequestId: callback.reference }, 'STK callback already processed. Ignoring duplicate.');
         }
+    } catch (error) {
+        logger.error({ error }, 'Error processing M-Pesa callback asynchronously:');
+    }
+};
 
-        const callbackData = req.body.Body.stkCallback;
-        const resultCode = callbackData.ResultCode;
-        const checkoutRequestId = callbackData.CheckoutRequestID;
-
-        if (resultCode === 0) {
-            // Payment Success
-            const metadata = callbackData.CallbackMetadata.Item;
-            const mpesaReceiptNumber = metadata.find((item: any) => item.Name === 'MpesaReceiptNumber')?.Value;
-            
-            const updateResult = await prisma.contribution.updateMany({
-                where: { mpesaCheckoutId: checkoutRequestId },
-                data: {
-                    status: 'PAID',
-                    mpesaCode: mpesaReceiptNumber,
-                    paidAt: new Date(),
-                    paymentMethod: 'M-PESA',
-                },
-            });
-            if (updateResult.count > 0) {
-                 logger.info({ checkoutRequestId }, `Successfully updated contribution with Checkout ID ${checkoutRequestId} as PAID.`);
-            } else {
-                logger.warn({ checkoutRequestId }, `No contribution found for Checkout ID ${checkoutRequestId}.`);
+
+export const handleC2BValidation = async (req: Request, res: Response) => {
+    logger.info({ body: req.body }, 'M-PESA C2B VALIDATION RECEIVED');
+
+    try {
+        const result = await mpesaRequestService.validateC2BPayment(req.body);
+        res.status(200).json(result);
+    } catch (error) {
+        // Accept the payment rather than turn the payer away; it is matched or queued once confirmed.
+        logger.error({ error }, 'Error validating M-Pesa C2B payment');
+        res.status(200).json({ ResultCode: '0', ResultDesc: 'Accepted' });
+    }
+};
+
+export const handleC2BConfirmation = async (req: Request, res: Response) => {
+    logger.info({ body: req.body }, 'M-PESA C2B CONFIRMATION RECEIVED');
+
+    // Acknowledge the request to Safaricom immediately
+    res.status(200).json({ ResultCode: 0, ResultDesc: "Accepted" });
+
+    try {
+        if (!req.body.TransID) {
+            throw new Error('Invalid M-Pesa C2B confirmation structure');
+        }
+
+        const processed = await processCallbackOnce(MpesaCallbackType.C2B_CONFIRMATION, req.body.TransID, req.body, async () => {
+            // Matched payments are applied to the member's contributions or loan; the rest are queued for review.
+            const request = await mpesaRequestService.processC2BConfirmation(req.body);
+            if (request) {
+                logger.info({ requestId: request.id, status: request.status }, `Processed C2B confirmation for receipt ${request.mpesaReceipt}.`);
             }
-        } else {
-            // Payment Failed or Canceled
-            const resultDesc = callbackData.ResultDesc;
-            logger.info({ checkoutRequestId, resultDesc }, `M-Pesa transaction failed for ${checkoutRequestId}. Reason: ${resultDesc}`);
+        });
+        if (!processed) {
+            logger.info({ receipt: req.body.TransID }, 'C2B confirmation already processed. Ignoring duplicate.');
         }
     } catch (error) {
-        logger.error({ error }, 'Error processing M-Pesa callback asynchronously:');
+        logger.error({ error }, 'Error processing M-Pesa C2B confirmation asynchronously:');
     }
 };
 
+export const registerC2BUrlsController = async (req: Request, res: Response) => {
+    try {
+        const response = await mpesaService.registerC2BUrls();
+        res.status(200).json({ message: 'C2B URLs registered successfully.', data: response });
+    } catch (error) {
+        if (isErrorWithMessage(error)) return res.status(500).json({ message: error.message });
+        res.status(500).json({ message: 'An unexpected error occurred.' });
+    }
+};
 
 export const acknowledgeMpesaRequest = (req: Request, res: Response) => {
     logger.info('SAFARICOM PING RECEIVED');
@@ -102,26 +158,12 @@ export const checkStkStatusController = async (req: AuthenticatedRequest, res: R
         const actorId = req.user?.id;
         if (!actorId) return res.status(401).json({ message: 'User not authenticated' });
 
-        // Permission check: ensure the user requesting the status belongs to the chama of the contribution
-        const contribution = await prisma.contribution.findFirst({
-            where: { mpesaCheckoutId: checkoutRequestId },
-            include: { membership: true }
-        });
-        if (!contribution) {
-            return res.status(404).json({ message: 'Transaction not found for the given Checkout Request ID.' });
-        }
-
-        const isMember = await prisma.membership.findFirst({
-            where: { userId: actorId, chamaId: contribution.membership.chamaId }
-        });
-        if (!isMember) {
-            return res.status(403).json({ message: 'Permission Denied: You are not a member of the chama this transaction belongs to.' });
-        }
-
-        const response = await mpesaService.queryStkStatus(checkoutRequestId);
+        // Only members of the chama the push was made for can see it. A push Daraja reports as failed is closed.
+        const response = await mpesaRequestService.checkStkPushStatus(checkoutRequestId, actorId);
         res.status(200).json({ data: response });
 
     } catch (error) {
+        if (isAppError(error)) return res.status(error.statusCode).json({ message: error.message });
         if(isErrorWithMessage(error)) return res.status(500).json({ message: error.message });
         res.status(500).json({ message: 'An unexpected error occurred while checking transaction status.' });
     }
@@ -149,16 +191,99 @@ export const disburseLoanB2CController = async (req: AuthenticatedRequest, res:
         // Link the B2C request to the loan for tracking
         await prisma.loan.update({
             where: { id: loanId },
-            data: { mpesaB2CRequestId: response.ConversationID }
+            data: { mpesaB2CRequestId: response.reference }
         });
 
-        res.status(200).json({ message: 'B2C disbursement initiated.', data: response });
+        res.status(200).json({ message: 'B2C disbursement initiated.', data: response.response });
     } catch (error) {
         if(isErrorWithMessage(error)) return res.status(500).json({ message: error.message });
         res.status(500).json({ message: 'An unexpected error occurred.' });
     }
 };
 
+/**
+ * Settles a B2C result: a loan disbursement activates the loan, and anything else sent by B2C
+ * (merry-go-round payouts, savings withdrawals and dividends) is settled by its own service.
+ */
+const settleB2CResult = async (result: PayoutCallback) => {
+    const { reference: conversationID, succeeded, receipt: transactionReceipt } = result;
+
+    // Find the loan via the ConversationID
+    const loan = await prisma.loan.findFirst({
+        where: { mpesaB2CRequestId: conversationID },
+        include: { membership: true }
+    });
+
+    if (!loan) {
+        // Merry-go-round payouts, savings withdrawals and dividends are sent through the same B2C channel.
+        const payout = await settleMpesaPayout(conversationID, succeeded, transactionReceipt);
+        if (payout) {
+            logger.info({ payoutId: payout.id, status: payout.status }, `Processed B2C result for merry-go-round payout ${payout.id}.`);
+            return;
+        }
+        const withdrawal = await settleMpesaWithdrawal(conversationID, succeeded, transactionReceipt);
+        if (withdrawal) {
+            logger.info({ withdrawalId: withdrawal.id, status: withdrawal.status }, `Processed B2C result for withdrawal ${withdrawal.id}.`);
+            return;
+        }
+        const dividend = await settleMpesaDividend(conversationID, succeeded, transactionReceipt);
+        if (dividend) {
+            logger.info({ dividendPayoutId: dividend.id, status: dividend.status }, `Processed B2C result for dividend payout ${dividend.id}.`);
+            return;
+        }
+        logger.warn({ conversationID }, `No loan found for B2C ConversationID: ${conversationID}. Ignoring callback.`);
+        return;
+    }
+
+    // A loan that has already been disbursed must not be posted again
+    if (loan.disbursedAt) {
+        logger.warn({ loanId: loan.id, conversationID }, `Loan ${loan.id} has already been disbursed. Ignoring B2C result.`);
+        return;
+    }
+
+    // If the payout succeeded, update the loan status
+    if (succeeded) {
+        const transactionAmount = result.amount ?? loan.amount;
+
+        await prisma.$transaction(async (tx) => {
+            // Persist the installment schedule; the first installment is the first repayment date
+            const disbursedAt = new Date();
+            const [firstInstallment] = await createInstallmentSchedule(loan, disbursedAt, tx);
+
+            // Update the loan status to ACTIVE
+            const disbursedLoan = await tx.loan.update({
+                where: { id: loan.id },
+                data: {
+                    status: LoanStatus.ACTIVE,
+                    disbursedAt,
+                    dueDate: firstInstallment.dueDate
+                }
+            });
+
+            // Create a LOAN_DISBURSEMENT transaction for the chama's books
+            await tx.transaction.create({
+                data: {
+                    chamaId: loan.membership.chamaId,
+                    type: TransactionType.LOAN_DISBURSEMENT,
+                    amount: -transactionAmount, // Negative amount as money is going out
+                    description: `Loan disbursed to member. M-Pesa Receipt: ${transactionReceipt}`
+                }
+            });
+
+            // Post the disbursement to the general ledger
+            await postLoanDisbursement(disbursedLoan, loan.membership.chamaId, tx, transactionReceipt);
+        });
+
+        logger.info({ loanId: loan.id }, `Successfully processed B2C payment for loan ${loan.id}. Status set to ACTIVE.`);
+        // TODO: Send a success notification (email/SMS) to the member.
+
+    } else {
+        // Handle failed B2C transaction
+        const { resultDesc } = result;
+        logger.error({ loanId: loan.id, resultDesc }, `B2C disbursement failed for loan ${loan.id}. Reason: ${resultDesc}`);
+    }
+};
+
 export const handleB2CResultCallback = async (req: Request, res: Response) => {
     logger.info('M-PESA B2C RESULT CALLBACK');
     logger.info({ body: req.body }, 'Callback data');
@@ -167,66 +292,65 @@ export const handleB2CResultCallback = async (req: Request, res: Response) => {
     res.status(200).json({ ResultCode: 0, ResultDesc: "Accepted" });
 
     try {
-        const result = req.body.Result;
-        if (!result) {
-            throw new Error("Invalid B2C callback structure: Missing 'Result' object.");
-        }
+        const result = mpesaService.parseB2CCallback(req.body);
 
-        const resultCode = result.ResultCode;
-        const conversationID = result.ConversationID;
+        // A repeated result for the same ConversationID would otherwise post the disbursement twice
+        const processed = await processCallbackOnce(MpesaCallbackType.B2C_RESULT, result.reference, req.body, () => settleB2CResult(result));
+        if (!processed) {
+            logger.info({ conversationID: result.reference }, 'B2C result already processed. Ignoring duplicate.');
+        }
+    } catch (error) {
+        logger.error({ error }, 'Error processing M-Pesa B2C callback asynchronously:');
+    }
+};
 
-        // Find the loan via the ConversationID
-        const loan = await prisma.loan.findFirst({
-            where: { mpesaB2CRequestId: conversationID },
-            include: { membership: true }
-        });
+/**
+ * Handles a B2C request that timed out in Daraja's queue, so that it can be sent again.
+ */
+const settleB2CTimeout = async (conversationID: string) => {
+    // Find the loan via the ConversationID
+    const loan = await prisma.loan.findFirst({
+        where: { mpesaB2CRequestId: conversationID }
+    });
 
-        if (!loan) {
-            logger.warn({ conversationID }, `No loan found for B2C ConversationID: ${conversationID}. Ignoring callback.`);
+    if (!loan) {
+        // Timed-out merry-go-round payouts, withdrawals and dividends are marked FAILED so they can be paid again.
+        const payout = await settleMpesaPayout(conversationID, false);
+        if (payout) {
+            logger.info({ payoutId: payout.id }, `B2C payout ${payout.id} timed out and can be retried.`);
             return;
         }
+        const withdrawal = await settleMpesaWithdrawal(conversationID, false);
+        if (withdrawal) {
+            logger.info({ withdrawalId: withdrawal.id }, `B2C withdrawal payout ${withdrawal.id} timed out and can be retried.`);
+            return;
+        }
+        const dividend = await settleMpesaDividend(conversationID, false);
+        if (dividend) {
+            logger.info({ dividendPayoutId: dividend.id }, `B2C dividend payout ${dividend.id} timed out and can be retried.`);
+            return;
+        }
+        logger.warn({ conversationID }, `Timeout callback received for an unknown ConversationID: ${conversationID}`);
+        return;
+    }
 
-        //If the ResultCode is 0 (success), update the loan status
-        if (resultCode === 0) {
-            // Get details from the callback metadata
-            const resultParameters = result.ResultParameters.ResultParameter;
-            const transactionAmount = resultParameters.find((p: any) => p.Key === 'TransactionAmount')?.Value;
-            const transactionReceipt = resultParameters.find((p: any) => p.Key === 'TransactionReceipt')?.Value;
-            
-            await prisma.$transaction(async (tx) => {
-                // Update the loan status to ACTIVE
-                await tx.loan.update({
-                    where: { id: loan.id },
-                    data: {
-                        status: LoanStatus.ACTIVE,
-                        disbursedAt: new Date(),
-                        dueDate: addMonths(new Date(), 1) // Set the first repayment date
-                    }
-                });
-
-                // Create a LOAN_DISBURSEMENT transaction for the chama's books
-                await tx.transaction.create({
-                    data: {
-                        chamaId: loan.membership.chamaId,
-                        type: TransactionType.LOAN_DISBURSEMENT,
-                        amount: -transactionAmount, // Negative amount as money is going out
-                        description: `Loan disbursed to member. M-Pesa Receipt: ${transactionReceipt}`
-                    }
-                });
-            });
-
-            logger.info({ loanId: loan.id }, `Successfully processed B2C payment for loan ${loan.id}. Status set to ACTIVE.`);
-            // TODO: Send a success notification (email/SMS) to the member.
+    // A loan whose result has already arrived stays disbursed
+    if (loan.disbursedAt) {
+        logger.warn({ loanId: loan.id, conversationID }, `Loan ${loan.id} has already been disbursed. Ignoring B2C timeout.`);
+        return;
+    }
 
-        } else {
-            // Handle failed B2C transaction
-            const resultDesc = result.ResultDesc;
-            logger.error({ loanId: loan.id, resultDesc }, `B2C disbursement failed for loan ${loan.id}. Reason: ${resultDesc}`);
+    // revert the loan status back to APPROVED so the treasurer can try again.
+    await prisma.loan.update({
+        where: { id: loan.id },
+        data: {
+            status: LoanStatus.APPROVED, // Revert status
+            mpesaB2CRequestId: null, // Clear the request ID for a retry
         }
+    });
 
-    } catch (error) {
-        logger.error({ error }, 'Error processing M-Pesa B2C callback asynchronously:');
-    }
+    logger.info({ loanId: loan.id }, `B2C disbursement for loan ${loan.id} timed out. Loan status reverted to APPROVED for retry.`);
+    // TODO: Notify the treasurer that the disbursement timed out and needs to be re-initiated.
 };
 
 export const handleB2CTimeoutCallback = async (req: Request, res: Response) => {
@@ -238,35 +362,12 @@ export const handleB2CTimeoutCallback = async (req: Request, res: Response) => {
 
     // Process the timeout asynchronously
     try {
-        const result = req.body.Result;
-        if (!result) {
-            throw new Error("Invalid B2C timeout callback structure.");
-        }
-        
-        const conversationID = result.ConversationID;
+        const { reference: conversationID } = mpesaService.parseB2CCallback(req.body);
 
-        // Find the loan via the ConversationID
-        const loan = await prisma.loan.findFirst({
-            where: { mpesaB2CRequestId: conversationID }
-        });
-
-        if (!loan) {
-            logger.warn({ conversationID }, `Timeout callback received for an unknown ConversationID: ${conversationID}`);
-            return;
+        const processed = await processCallbackOnce(MpesaCallbackType.B2C_TIMEOUT, conversationID, req.body, () => settleB2CTimeout(conversationID));
+        if (!processed) {
+            logger.info({ conversationID }, 'B2C timeout already processed. Ignoring duplicate.');
         }
-
-        // revert the loan status back to APPROVED so the treasurer can try again.
-        await prisma.loan.update({
-            where: { id: loan.id },
-            data: {
-                status: LoanStatus.APPROVED, // Revert status
-                mpesaB2CRequestId: null, // Clear the request ID for a retry
-            }
-        });
-        
-        logger.info({ loanId: loan.id }, `B2C disbursement for loan ${loan.id} timed out. Loan status reverted to APPROVED for retry.`);
-        // TODO: Notify the treasurer that the disbursement timed out and needs to be re-initiated.
-
     } catch (error) {
         logger.error({ error }, 'Error processing M-Pesa B2C timeout callback asynchronously:');
     }
@@ -303,4 +404,113 @@ export const getMpesaTransactionsController = async (req: Request, res: Response
     });
     logger.info({ chamaId, contributionsCount: contributions.length, loanDisbursementsCount: loanDisbursements.length }, 'M-Pesa transactions fetched');
     res.status(200).json({ data: { contributions, loanDisbursements }});
-};
\ No newline at end of file
+};
+
+const getLogMeta = (req: Request) => ({ ipAddress: req.ip, userAgent: req.headers['user-agent'] });
+
+export const getMpesaRequestsController = async (req: Request, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const page = parseInt(req.query.page as string, 10) || 1;
+        const limit = parseInt(req.query.limit as string, 10) || 20;
+        const filters = {
+            status: req.query.status as MpesaRequestStatus | undefined,
+            channel: req.query.channel as MpesaChannel | undefined,
+            membershipId: req.query.membershipId as string | undefined,
+        };
+
+        const { requests, totalRecords, totalPages } = await mpesaRequestService.findChamaMpesaRequests(chamaId, filters, page, limit);
+
+        res.status(200).json({
+            data: requests,
+            meta: { page, limit, totalRecords, totalPages },
+        });
+    } catch (error) {
+        logger.error({ error, chamaId: req.params.chamaId }, 'Get M-Pesa Requests Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching M-Pesa requests.' });
+    }
+};
+
+export const getUnmatchedPaymentsController = async (req: Request, res: Response) => {
+    try {
+        const payments = await mpesaRequestService.findUnmatchedPayments(req.params.chamaId);
+        res.status(200).json({ data: payments });
+    } catch (error) {
+        logger.error({ error, chamaId: req.params.chamaId }, 'Get Unmatched Payments Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching unmatched payments.' });
+    }
+};
+
+export const assignUnmatchedPaymentController = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId, requestId } = req.params;
+        const { membershipId } = req.body;
+
+        const request = await mpesaRequestService.assignUnmatchedPayment(chamaId, requestId, membershipId, req.user?.id!, getLogMeta(req));
+        res.status(200).json({ message: 'Payment assigned to the member successfully.', data: request });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId, requestId: req.params.requestId }, 'Unmatched payment assignment failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, requestId: req.params.requestId }, 'Assign Unmatched Payment Error');
+        res.status(500).json({ message: 'An unexpected error occurred while assigning the payment.' });
+    }
+};
+
+export const uploadStatementController = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        if (!req.file) {
+            return res.status(400).json({ message: 'A CSV statement file is required.' });
+        }
+
+        const report = await mpesaStatementService.importStatement(chamaId, req.file.originalname, req.file.buffer, req.user?.id!, getLogMeta(req));
+        res.status(201).json({ message: 'Statement imported and reconciled.', data: report });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId }, 'M-Pesa statement import rejected');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, chamaId: req.params.chamaId }, 'Upload M-Pesa Statement Error');
+        res.status(500).json({ message: 'An unexpected error occurred while importing the statement.' });
+    }
+};
+
+export const getStatementsController = async (req: Request, res: Response) => {
+    try {
+        const statements = await mpesaStatementService.findStatements(req.params.chamaId);
+        res.status(200).json({ data: statements });
+    } catch (error) {
+        logger.error({ error, chamaId: req.params.chamaId }, 'Get M-Pesa Statements Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching statements.' });
+    }
+};
+
+export const getStatementReportController = async (req: Request, res: Response) => {
+    try {
+        const { chamaId, statementId } = req.params;
+        const report = await mpesaStatementService.getStatementReport(chamaId, statementId);
+        res.status(200).json({ data: report });
+    } catch (error) {
+        if (isAppError(error)) return res.status(error.statusCode).json({ message: error.message });
+        logger.error({ error, statementId: req.params.statementId }, 'Get M-Pesa Statement Report Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching the statement.' });
+    }
+};
+
+export const resolveStatementLineController = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId, statementId, lineId } = req.params;
+        const line = await mpesaStatementService.resolveStatementLine(chamaId, statementId, lineId, req.body, req.user?.id!, getLogMeta(req));
+        res.status(200).json({ message: 'Statement line resolved.', data: line });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, lineId: req.params.lineId }, 'M-Pesa statement line resolution failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, lineId: req.params.lineId }, 'Resolve Statement Line Error');
+        if (isErrorWithMessage(error)) return res.status(400).json({ message: error.message });
+        res.status(500).json({ message: 'An unexpected error occurred while resolving the statement line.' });
+    }
+};
@@ -0,0 +1,15 @@
+import * as ussdService from '../services/ussd.service';
+import logger from '../config/logger';
+
+/**
+ * Answers a step of a USSD session for Africa's Talking's USSD handler, which adds the CON or END
+ * prefix. Errors end the session with an apology, as the member cannot be shown anything else.
+ */
+export const handleUssdSession = async (params: ussdService.UssdRequest, respond: (reply: ussdService.UssdReply) => void) => {
+    try {
+        respond(await ussdService.handleUssdRequest(params));
+    } catch (error) {
+        logger.error({ error, sessionId: params.sessionId }, 'USSD Session Error');
+        respond({ response: 'Sorry, something went wrong. Please try again later.', endSession: true });
+    }
+};
@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import { WithdrawalStatus } from '@prisma/client';
+import * as withdrawalService from '../services/withdrawal.service';
+import { isAppError } from '../utils/error.utils';
+import logger from '../config/logger';
+
+interface AuthenticatedRequest extends Request {
+    user?: { id: string };
+}
+
+const getLogMeta = (req: Request) => ({ ipAddress: req.ip, userAgent: req.headers['user-agent'] });
+
+export const requestWithdrawal = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const { type, fundId, amount, reason, membershipId } = req.body;
+        const actorId = req.user?.id!;
+
+        const withdrawal = await withdrawalService.requestWithdrawal(chamaId, actorId, { type, fundId, amount, reason, membershipId }, getLogMeta(req));
+        res.status(201).json({ message: 'Withdrawal submitted for approval.', data: withdrawal });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId }, 'Withdrawal request failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, chamaId: req.params.chamaId }, 'Request Withdrawal Error');
+        res.status(500).json({ message: 'An unexpected error occurred while requesting the withdrawal.' });
+    }
+};
+
+export const getChamaWithdrawals = async (req: Request, res: Response) => {
+    try {
+        const { chamaId } = req.params;
+        const page = parseInt(req.query.page as string, 10) || 1;
+        const limit = parseInt(req.query.limit as string, 10) || 20;
+        const filters = {
+            status: req.query.status as WithdrawalStatus | undefined,
+            membershipId: req.query.membershipId as string | undefined,
+        };
+
+        const { withdrawals, totalRecords, totalPages } = await withdrawalService.findChamaWithdrawals(chamaId, filters, page, limit);
+
+        res.status(200).json({
+            data: withdrawals,
+            meta: { page, limit, totalRecords, totalPages },
+        });
+    } catch (error) {
+        logger.error({ error, chamaId: req.params.chamaId }, 'Get Chama Withdrawals Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching withdrawals.' });
+    }
+};
+
+export const getWithdrawal = async (req: Request, res: Response) => {
+    try {
+        const { chamaId, withdrawalId } = req.params;
+        const withdrawal = await withdrawalService.getWithdrawal(chamaId, withdrawalId);
+        res.status(200).json({ data: withdrawal });
+    } catch (error) {
+        if (isAppError(error)) {
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, withdrawalId: req.params.withdrawalId }, 'Get Withdrawal Error');
+        res.status(500).json({ message: 'An unexpected error occurred while fetching the withdrawal.' });
+    }
+};
+
+export const reviewWithdrawal = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId, withdrawalId } = req.params;
+        const { status, reviewNotes } = req.body;
+        const actorId = req.user?.id!;
+
+        const withdrawal = await withdrawalService.reviewWithdrawal(chamaId, withdrawalId, status, actorId, getLogMeta(req), reviewNotes);
+        res.status(200).json({ message: `Withdrawal ${status === 'APPROVED' ? 'approved' : 'rejected'} successfully.`, data: withdrawal });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId, withdrawalId: req.params.withdrawalId }, 'Withdrawal review failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, withdrawalId: req.params.withdrawalId }, 'Review Withdrawal Error');
+        res.status(500).json({ message: 'An unexpected error occurred while reviewing the withdrawal.' });
+    }
+};
+
+export const payWithdrawal = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId, withdrawalId } = req.params;
+        const { paymentMethod, mpesaCode, sendViaMpesa } = req.body;
+        const actorId = req.user?.id!;
+
+        const withdrawal = await withdrawalService.payWithdrawal(chamaId, withdrawalId, actorId, { paymentMethod, mpesaCode, sendViaMpesa }, getLogMeta(req));
+        const message = withdrawal.status === 'PAID'
+            ? 'Withdrawal paid out successfully.'
+            : 'M-Pesa payout initiated. The withdrawal will be marked paid once it is confirmed.';
+        res.status(200).json({ message, data: withdrawal });
+    } catch (error) {
+        if (isAppError(error)) {
+            logger.warn({ error, chamaId: req.params.chamaId, withdrawalId: req.params.withdrawalId }, 'Withdrawal payout failed');
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, actorId: req.user?.id, withdrawalId: req.params.withdrawalId }, 'Pay Withdrawal Error');
+        res.status(500).json({ message: 'An unexpected error occurred while paying out the withdrawal.' });
+    }
+};
+
+export const getMemberStatement = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { chamaId, membershipId } = req.params;
+        const buffer = await withdrawalService.generateMemberStatement(chamaId, membershipId, req.user?.id!);
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename=statement-${membershipId}-${new Date().toISOString()}.pdf`);
+        res.status(200).send(buffer);
+    } catch (error) {
+        if (isAppError(error)) {
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        logger.error({ error, membershipId: req.params.membershipId }, 'Get Member Statement Error');
+        res.status(500).json({ message: 'An unexpected error occurred while generating the statement.' });
+    }
+};
@@ -0,0 +1,44 @@
+import { PrismaClient, LoanStatus } from '@prisma/client';
+import { applyOverdueLoanRules } from '../services/loan.service';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Applies the overdue-loan rules of every chama with outstanding loans. A failure in one chama is
+ * logged and does not stop the others from being processed.
+ */
+export const runLoanOverdueJob = async (asOf = new Date()) => {
+    const chamas = await prisma.chama.findMany({
+        where: {
+            members: { some: { loans: { some: { status: { in: [LoanStatus.ACTIVE, LoanStatus.DEFAULTED] } } } } },
+        },
+        select: { id: true },
+    });
+
+    logger.info({ chamaCount: chamas.length }, 'Running loan overdue job');
+
+    for (const chama of chamas) {
+        try {
+            await applyOverdueLoanRules(chama.id, asOf);
+        } catch (error) {
+            logger.error({ error, chamaId: chama.id }, 'Failed to apply overdue loan rules');
+        }
+    }
+};
+
+/**
+ * Runs the loan overdue job every LOAN_OVERDUE_JOB_INTERVAL_HOURS hours (24 by default).
+ */
+export const startLoanOverdueJob = () => {
+    const intervalHours = parseFloat(process.env.LOAN_OVERDUE_JOB_INTERVAL_HOURS || '24');
+
+    const run = () => runLoanOverdueJob().catch((error) => logger.error({ error }, 'Loan overdue job failed'));
+    const timer = setInterval(run, intervalHours * HOUR_MS);
+    timer.unref();
+
+    logger.info({ intervalHours }, 'Loan overdue job scheduled');
+    return timer;
+};
@@ -0,0 +1,30 @@
+import { expireStalePushes } from '../services/mpesaRequest.service';
+import logger from '../config/logger';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Times out STK pushes that have had no callback for MPESA_STK_TIMEOUT_MINUTES minutes (5 by default).
+ */
+export const runStkTimeoutJob = async (asOf = new Date()) => {
+    const timeoutMinutes = parseFloat(process.env.MPESA_STK_TIMEOUT_MINUTES || '5');
+    const expired = await expireStalePushes(timeoutMinutes, asOf);
+
+    if (expired > 0) {
+        logger.info({ expired, timeoutMinutes }, 'Timed out unanswered STK pushes');
+    }
+};
+
+/**
+ * Runs the STK timeout job every MPESA_STK_TIMEOUT_MINUTES minutes.
+ */
+export const startStkTimeoutJob = () => {
+    const intervalMinutes = parseFloat(process.env.MPESA_STK_TIMEOUT_MINUTES || '5');
+
+    const run = () => runStkTimeoutJob().catch((error) => logger.error({ error }, 'STK timeout job failed'));
+    const timer = setInterval(run, intervalMinutes * MINUTE_MS);
+    timer.unref();
+
+    logger.info({ intervalMinutes }, 'STK timeout job scheduled');
+    return timer;
+};
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt.utils';
+import { isSessionActive } from '../services/session.service';
 import { PrismaClient } from '@prisma/client';
 import { JwtPayload } from 'jsonwebtoken';
 
@@ -17,8 +18,10 @@ export const protect = async (req: Request, res: Response, next: NextFunction) =
         return res.status(401).json({ success: false, message: 'Not authorized, token invalid' });
       }
       
-      const userId = (decoded as JwtPayload).id;
-      if (!userId) {
+      const { id: userId, sessionId, type } = decoded as JwtPayload;
+      // A refresh token is only good for getting a new access token. Every access token belongs to a
+      // session, so a token without one was issued before sessions existed and cannot be revoked.
+      if (!userId || !sessionId || type === 'refresh') {
         return res.status(401).json({ success: false, message: 'Not authorized, token invalid' });
       }
 
@@ -28,7 +31,11 @@ export const protect = async (req: Request, res: Response, next: NextFunction) =
         return res.status(401).json({ success: false, message: 'Not authorized, user not found' });
       }
 
-      req.user = user;
+      if (!(await isSessionActive(sessionId, userId))) {
+        return res.status(401).json({ success: false, message: 'Not authorized, session has ended' });
+      }
+
+      req.user = { ...user, sessionId };
       
       next();
     } catch (error) {
@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { isAllowedAddress, isValidToken } from '../utils/webhook.utils';
+import logger from '../config/logger';
+
+/**
+ * Checks that an M-Pesa webhook came from Safaricom before it is acted on. When
+ * MPESA_CALLBACK_TOKEN is set, the callback URLs registered with Daraja end in that secret and
+ * requests without it are rejected. When MPESA_CALLBACK_ALLOWED_IPS is set, only those addresses
+ * may call. Either check is skipped when its variable is not set, e.g. in the sandbox.
+ */
+export const verifyMpesaCallback = (req: Request, res: Response, next: NextFunction) => {
+  const expectedToken = process.env.MPESA_CALLBACK_TOKEN;
+  const allowedIps = process.env.MPESA_CALLBACK_ALLOWED_IPS;
+
+  if (expectedToken && !isValidToken(req.params.callbackToken, expectedToken)) {
+    logger.warn({ ip: req.ip, path: req.baseUrl + req.route?.path }, 'M-Pesa callback rejected: invalid callback token');
+    return res.status(403).json({ message: 'Forbidden.' });
+  }
+
+  if (allowedIps && !isAllowedAddress(req.ip, allowedIps)) {
+    logger.warn({ ip: req.ip, path: req.baseUrl + req.route?.path }, 'M-Pesa callback rejected: address not allowed');
+    return res.status(403).json({ message: 'Forbidden.' });
+  }
+
+  next();
+};
@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { hasRecentStepUp, stepUpWindowMinutes } from '../services/session.service';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+type ChamaResolver = (req: Request) => Promise<string | undefined>;
+
+const chamaFromParams: ChamaResolver = async (req) => req.params.chamaId || req.params.id;
+
+/**
+ * Finds the chama for actions on a loan, from the loan ID picked out of the request.
+ */
+export const chamaOfLoan = (loanId: (req: Request) => string | undefined): ChamaResolver => async (req) => {
+  const id = loanId(req);
+  if (!id) return undefined;
+
+  const loan = await prisma.loan.findUnique({ where: { id }, select: { membership: { select: { chamaId: true } } } });
+  return loan?.membership.chamaId;
+};
+
+/**
+ * Guards a sensitive action (moving money, removing members, deleting the chama). When the chama's
+ * settings require it, the user must have confirmed their second factor on this session within the
+ * last TWO_FACTOR_STEP_UP_MINUTES minutes (10 by default), through POST /api/auth/2fa/step-up.
+ * Place it after the membership check.
+ */
+export const requireStepUp = (resolveChamaId: ChamaResolver = chamaFromParams) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const chamaId = await resolveChamaId(req);
+      // Without a chama there is nothing to enforce; the handler reports what is missing
+      if (!chamaId) return next();
+
+      const settings = await prisma.chamaSettings.findUnique({ where: { chamaId }, select: { requireStepUp: true } });
+      if (!settings?.requireStepUp) return next();
+
+      const user = await prisma.user.findUnique({ where: { id: req.user!.id }, select: { twoFactorMethod: true } });
+      if (!user?.twoFactorMethod) {
+        return res.status(403).json({
+          message: 'This chama requires two-factor authentication for this action. Please enable it on your account first.',
+          code: 'TWO_FACTOR_REQUIRED',
+        });
+      }
+
+      const sessionId = req.user!.sessionId;
+      if (!sessionId || !(await hasRecentStepUp(sessionId, stepUpWindowMinutes()))) {
+        logger.info({ userId: req.user!.id, chamaId, path: req.originalUrl }, 'Step-up verification required');
+        return res.status(403).json({
+          message: 'Please confirm this action with your two-factor code.',
+          code: 'STEP_UP_REQUIRED',
+        });
+      }
+
+      next();
+    } catch (error) {
+      logger.error({ error }, 'Step-up check failed');
+      res.status(500).json({ message: 'Internal server error during two-factor check.' });
+    }
+  };
+};
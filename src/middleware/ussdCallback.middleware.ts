@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { isAllowedAddress, isValidToken } from '../utils/webhook.utils';
+import logger from '../config/logger';
+
+/**
+ * Checks that a USSD request came from Africa's Talking before the phone number in it is trusted. When
+ * USSD_CALLBACK_TOKEN is set, the callback URL configured for the service code ends in that secret and
+ * requests without it are rejected. When USSD_CALLBACK_ALLOWED_IPS is set, only those addresses may
+ * call. Either check is skipped when its variable is not set, e.g. with the local simulator.
+ */
+export const verifyUssdCallback = (req: Request, res: Response, next: NextFunction) => {
+  const expectedToken = process.env.USSD_CALLBACK_TOKEN;
+  const allowedIps = process.env.USSD_CALLBACK_ALLOWED_IPS;
+
+  if (expectedToken && !isValidToken(req.params.callbackToken, expectedToken)) {
+    logger.warn({ ip: req.ip }, 'USSD request rejected: invalid callback token');
+    return res.status(403).json({ message: 'Forbidden.' });
+  }
+
+  if (allowedIps && !isAllowedAddress(req.ip, allowedIps)) {
+    logger.warn({ ip: req.ip }, 'USSD request rejected: address not allowed');
+    return res.status(403).json({ message: 'Forbidden.' });
+  }
+
+  next();
+};
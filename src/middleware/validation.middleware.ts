@@ -1,6 +1,6 @@
 import { validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
-import rateLimit from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 
 // Handles validation errors from express-validator
 export const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
@@ -21,4 +21,29 @@ export const authRateLimiter = rateLimit({
     success: false,
     message: 'Too many requests from this IP, please try again after 15 minutes',
   },
-});
\ No newline at end of file
+});
+// Rate limiter for checking two-factor codes on behalf of a signed-in user, counted per user
+export const twoFactorRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // Limit each user to 10 requests per windowMs
+  keyGenerator: (req) => req.user!.id,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    message: 'Too many verification attempts, please try again after 15 minutes',
+  },
+});
+
+// Rate limiter for USSD sessions. Every request comes from Africa's Talking, so each phone is limited
+// rather than the caller's address, and the reply ends the session the way the phone expects.
+export const ussdRateLimiter = rateLimit({
+  windowMs: 5 * 60 * 1000, // 5 minutes
+  max: 30, // Limit each phone to 30 requests per windowMs
+  keyGenerator: (req) => req.body?.phoneNumber || ipKeyGenerator(req.ip ?? ''),
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    res.status(200).type('text/plain').send('END Too many requests. Please try again in a few minutes.');
+  },
+});
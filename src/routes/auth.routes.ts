@@ -1,8 +1,19 @@
 import { Router } from 'express';
 import * as authController from '../controllers/auth.controller';
 import { protect } from '../middleware/auth.middleware';
-import { handleValidationErrors, authRateLimiter } from '../middleware/validation.middleware';
-import { registerValidator, loginValidator, profileUpdateValidator } from '../validators/user.validators';
+import { handleValidationErrors, authRateLimiter, twoFactorRateLimiter } from '../middleware/validation.middleware';
+import {
+  registerValidator,
+  loginValidator,
+  profileUpdateValidator,
+  twoFactorSetupValidator,
+  twoFactorCodeValidator,
+  twoFactorChallengeValidator,
+  phoneRegisterValidator,
+  phoneVerifyValidator,
+  phoneResendValidator,
+  pinLoginValidator,
+} from '../validators/user.validators';
 
 const router = Router();
 
@@ -37,6 +48,7 @@ const router = Router();
  *                 type: string
  *                 format: password
  *                 minLength: 8
+ *                 description: Must meet the password policy (by default at least 8 characters with a number)
  *                 example: SecurePass123!
  *               firstName:
  *                 type: string
@@ -99,7 +111,12 @@ router.post('/register', authRateLimiter, ...registerValidator, handleValidation
  *   post:
  *     tags: [Authentication]
  *     summary: Login user
- *     description: Authenticates user and returns access and refresh JWT tokens. Email must be verified.
+ *     description: >
+ *       Authenticates user and returns access and refresh JWT tokens. Email must be verified. For a user
+ *       with two-factor authentication, returns `twoFactorRequired`, the `method` and a `challengeId`
+ *       instead (SMS users are texted a code); finish the login at POST /auth/2fa/verify. After repeated
+ *       wrong passwords the account is locked for longer and longer, and a sign-in from a new device is
+ *       reported to the user by email or SMS.
  *     requestBody:
  *       required: true
  *       content:
@@ -157,7 +174,7 @@ router.post('/register', authRateLimiter, ...registerValidator, handleValidation
  *       401:
  *         description: Invalid credentials or email not verified
  *       429:
- *         description: Too many login attempts
+ *         description: Too many login attempts from this address, or the account is locked after repeated wrong passwords
  */
 router.post('/login', authRateLimiter, ...loginValidator, handleValidationErrors, authController.login);
 
@@ -276,7 +293,7 @@ router.post('/forgot-password', authRateLimiter, authController.forgotPassword);
  *                 type: string
  *                 format: password
  *                 minLength: 8
- *                 description: New password (min 8 characters)
+ *                 description: New password. Must meet the password policy and differ from the user's recent passwords
  *                 example: NewSecurePass123!
  *     responses:
  *       200:
@@ -300,12 +317,254 @@ router.post('/forgot-password', authRateLimiter, authController.forgotPassword);
  *                     email:
  *                       type: string
  *       400:
- *         description: Invalid or expired token
+ *         description: Invalid or expired token, or a password that breaks the policy or was used recently
  *       429:
  *         description: Too many requests
  */
 router.post('/reset-password', authRateLimiter, authController.resetPassword);
 
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Refresh access token
+ *     description: >
+ *       Exchanges a refresh token for a new access token and a new refresh token. Each refresh token
+ *       can be used once; presenting one that has already been used ends its session, and the user
+ *       must log in again.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 description: Refresh token from login or the previous refresh
+ *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *     responses:
+ *       200:
+ *         description: Tokens refreshed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Token refreshed
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     accessToken:
+ *                       type: string
+ *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                     refreshToken:
+ *                       type: string
+ *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *       400:
+ *         description: Refresh token missing
+ *       401:
+ *         description: Refresh token invalid, expired, already used, or its session has ended
+ */
+router.post('/refresh', authController.refresh);
+
+/**
+ * @swagger
+ * /auth/phone/register:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Register with a phone number and PIN
+ *     description: >
+ *       Creates an account for a member without email, who signs in with their phone number and a PIN.
+ *       A verification code is texted to the phone; the account can log in once it has been entered at
+ *       POST /auth/phone/verify.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *               - pin
+ *               - firstName
+ *               - lastName
+ *               - idNumber
+ *             properties:
+ *               phone:
+ *                 type: string
+ *                 description: Kenyan phone number (will be normalized to E.164 format)
+ *                 example: "0712345678"
+ *               pin:
+ *                 type: string
+ *                 description: 4 to 6 digits
+ *                 example: "4821"
+ *               firstName:
+ *                 type: string
+ *                 example: Wanjiru
+ *               lastName:
+ *                 type: string
+ *                 example: Kamau
+ *               idNumber:
+ *                 type: string
+ *                 description: National ID number
+ *                 example: "12345678"
+ *     responses:
+ *       201:
+ *         description: User registered and verification code sent
+ *       400:
+ *         description: Validation error, or phone or ID number already registered
+ *       429:
+ *         description: Too many requests, please try again later
+ */
+router.post('/phone/register', authRateLimiter, ...phoneRegisterValidator, handleValidationErrors, authController.registerWithPhone);
+
+/**
+ * @swagger
+ * /auth/phone/verify:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Verify a phone number
+ *     description: Verifies a phone account with the code texted to it. Codes expire after 5 minutes or 5 wrong attempts.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *               - code
+ *             properties:
+ *               phone:
+ *                 type: string
+ *                 example: "0712345678"
+ *               code:
+ *                 type: string
+ *                 example: "492817"
+ *     responses:
+ *       200:
+ *         description: Phone number verified
+ *       400:
+ *         description: Validation error, or invalid or expired code
+ *       429:
+ *         description: Too many requests, please try again later
+ */
+router.post('/phone/verify', authRateLimiter, ...phoneVerifyValidator, handleValidationErrors, authController.verifyPhone);
+
+/**
+ * @swagger
+ * /auth/phone/resend-code:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Resend a phone verification code
+ *     description: Texts a new code to a phone account that has not been verified yet. Responds the same whether or not the number is registered.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *             properties:
+ *               phone:
+ *                 type: string
+ *                 example: "0712345678"
+ *     responses:
+ *       200:
+ *         description: Code sent if the number is awaiting verification
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       429:
+ *         description: Too many requests, please try again later
+ */
+router.post('/phone/resend-code', authRateLimiter, ...phoneResendValidator, handleValidationErrors, authController.resendPhoneCode);
+
+/**
+ * @swagger
+ * /auth/phone/login:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Login with phone number and PIN
+ *     description: >
+ *       Logs in a phone account and returns the same response as POST /auth/login, including the
+ *       two-factor challenge when it is enabled. The phone number must be verified. After 5 wrong PINs
+ *       in a row the number is locked out for 30 minutes.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *               - pin
+ *             properties:
+ *               phone:
+ *                 type: string
+ *                 example: "0712345678"
+ *               pin:
+ *                 type: string
+ *                 example: "4821"
+ *     responses:
+ *       200:
+ *         description: Login successful, or a second factor is needed
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Invalid credentials or phone number not verified
+ *       429:
+ *         description: Too many requests, or the phone number is locked out after too many wrong PINs
+ */
+router.post('/phone/login', authRateLimiter, ...pinLoginValidator, handleValidationErrors, authController.loginWithPin);
+
+/**
+ * @swagger
+ * /auth/2fa/verify:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Finish a two-factor login
+ *     description: >
+ *       Completes a login that returned `twoFactorRequired` with a code from the user's authenticator
+ *       app, the SMS code, or one of their recovery codes. Returns the same tokens as a normal login.
+ *       A challenge expires after 5 minutes or 5 wrong codes.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeId
+ *               - code
+ *             properties:
+ *               challengeId:
+ *                 type: string
+ *                 description: From the login response
+ *               code:
+ *                 type: string
+ *                 example: "492817"
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Invalid code, or the challenge has expired
+ *       429:
+ *         description: Too many requests, or too many wrong codes in a row (the account is locked out of code checks for 15 minutes)
+ */
+router.post('/2fa/verify', authRateLimiter, ...twoFactorChallengeValidator, handleValidationErrors, authController.verifyTwoFactorLogin);
+
 // --- MIDDLEWARE GATE ---
 router.use(protect);
 
@@ -366,7 +625,9 @@ router.get('/profile', authController.getProfile);
  *   put:
  *     tags: [Authentication]
  *     summary: Update user profile
- *     description: Updates authenticated user's profile information. Password cannot be updated through this endpoint.
+ *     description: >
+ *       Updates the authenticated user's name, email and phone number. Other fields are ignored.
+ *       Users whose second factor is SMS must step up (POST /auth/2fa/step-up) before changing their phone number.
  *     security:
  *       - BearerAuth: []
  *     requestBody:
@@ -382,14 +643,13 @@ router.get('/profile', authController.getProfile);
  *               lastName:
  *                 type: string
  *                 example: Doe
+ *               email:
+ *                 type: string
+ *                 format: email
  *               phone:
  *                 type: string
  *                 description: Kenyan phone number (will be normalized to E.164 format)
  *                 example: "+254712345678"
- *               idNumber:
- *                 type: string
- *                 description: National ID number
- *                 example: "12345678"
  *     responses:
  *       200:
  *         description: Profile updated successfully
@@ -421,7 +681,414 @@ router.get('/profile', authController.getProfile);
  *         $ref: '#/components/responses/ValidationError'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: The phone number receives the user's SMS codes and the session has not stepped up recently
  */
 router.put('/profile', ...profileUpdateValidator, handleValidationErrors, authController.updateProfile);
 
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Log out
+ *     description: Ends the session the access token belongs to. Its refresh token and access tokens stop working.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *       400:
+ *         description: The access token was issued before sessions were introduced
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/logout', authController.logout);
+
+/**
+ * @swagger
+ * /auth/logout-all:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Log out everywhere
+ *     description: Ends every session of the authenticated user, including the current one.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out of all sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Logged out of all sessions
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     count:
+ *                       type: integer
+ *                       description: Number of sessions ended
+ *                       example: 3
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/logout-all', authController.logoutAll);
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: List my sessions
+ *     description: Lists the devices the authenticated user is signed in on, most recently used first.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       userAgent:
+ *                         type: string
+ *                         description: The device's browser or app, as it identified itself
+ *                         example: Mozilla/5.0 (Linux; Android 14) Chrome/129.0
+ *                       ipAddress:
+ *                         type: string
+ *                         example: 41.90.64.12
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                       lastUsedAt:
+ *                         type: string
+ *                         format: date-time
+ *                         description: When the session last refreshed its tokens
+ *                       expiresAt:
+ *                         type: string
+ *                         format: date-time
+ *                       current:
+ *                         type: boolean
+ *                         description: Whether this is the session making the request
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/sessions', authController.getSessions);
+
+/**
+ * @swagger
+ * /auth/sessions/{sessionId}:
+ *   delete:
+ *     tags: [Authentication]
+ *     summary: Revoke a session
+ *     description: Signs one of the authenticated user's devices out.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         description: Session not found or already ended
+ */
+router.delete('/sessions/:sessionId', authController.revokeSession);
+
+/**
+ * @swagger
+ * /auth/2fa:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: Get two-factor status
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     enabled:
+ *                       type: boolean
+ *                     method:
+ *                       type: string
+ *                       enum: [SMS, TOTP]
+ *                       nullable: true
+ *                     recoveryCodesRemaining:
+ *                       type: integer
+ *                       example: 10
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/2fa', authController.getTwoFactorStatus);
+
+/**
+ * @swagger
+ * /auth/2fa/setup:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Start two-factor setup
+ *     description: >
+ *       For `TOTP`, returns a new secret with its otpauth URL and a QR code image to scan into an
+ *       authenticator app. For `SMS`, texts a code to the user's phone. Finish at POST /auth/2fa/enable
+ *       within 10 minutes (5 for SMS).
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - method
+ *             properties:
+ *               method:
+ *                 type: string
+ *                 enum: [SMS, TOTP]
+ *     responses:
+ *       200:
+ *         description: Setup started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     challengeId:
+ *                       type: string
+ *                     method:
+ *                       type: string
+ *                       enum: [SMS, TOTP]
+ *                     secret:
+ *                       type: string
+ *                       description: TOTP only. For entering into the app by hand.
+ *                     otpauthUrl:
+ *                       type: string
+ *                       description: TOTP only
+ *                     qrCode:
+ *                       type: string
+ *                       description: TOTP only. A PNG data URL of the otpauth URL.
+ *                     phone:
+ *                       type: string
+ *                       description: SMS only. The masked number the code was sent to.
+ *                       example: "+254****678"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ */
+router.post('/2fa/setup', twoFactorRateLimiter, ...twoFactorSetupValidator, handleValidationErrors, authController.setupTwoFactor);
+
+/**
+ * @swagger
+ * /auth/2fa/enable:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Enable two-factor authentication
+ *     description: >
+ *       Finishes setup with the first code from the new factor and returns ten single-use recovery
+ *       codes. They are shown only once; each one can stand in for a code if the phone is lost.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeId
+ *               - code
+ *             properties:
+ *               challengeId:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: "492817"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     method:
+ *                       type: string
+ *                       enum: [SMS, TOTP]
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         example: 3f9a-c12e
+ *       400:
+ *         description: Invalid code, or the setup request has expired
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/2fa/enable', twoFactorRateLimiter, ...twoFactorChallengeValidator, handleValidationErrors, authController.enableTwoFactor);
+
+/**
+ * @swagger
+ * /auth/2fa/disable:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Disable two-factor authentication
+ *     description: Needs a current code (for SMS, request one at POST /auth/2fa/step-up/code) or a recovery code.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Invalid code, or two-factor authentication is not enabled
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         description: Too many wrong codes in a row. The account is locked out of code checks for 15 minutes.
+ */
+router.post('/2fa/disable', twoFactorRateLimiter, ...twoFactorCodeValidator, handleValidationErrors, authController.disableTwoFactor);
+
+/**
+ * @swagger
+ * /auth/2fa/recovery-codes:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all recovery codes with ten new ones, after confirming a current code.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Invalid code, or two-factor authentication is not enabled
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         description: Too many wrong codes in a row. The account is locked out of code checks for 15 minutes.
+ */
+router.post('/2fa/recovery-codes', twoFactorRateLimiter, ...twoFactorCodeValidator, handleValidationErrors, authController.regenerateRecoveryCodes);
+
+/**
+ * @swagger
+ * /auth/2fa/step-up/code:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Text a step-up code
+ *     description: Sends an SMS user a code for POST /auth/2fa/step-up, disabling 2FA or regenerating recovery codes.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification code sent
+ *       400:
+ *         description: The user uses an authenticator app, or has no two-factor authentication
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/2fa/step-up/code', twoFactorRateLimiter, authController.sendStepUpCode);
+
+/**
+ * @swagger
+ * /auth/2fa/step-up:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Confirm the second factor for sensitive actions
+ *     description: >
+ *       Confirms a current code on this session. For the next TWO_FACTOR_STEP_UP_MINUTES minutes
+ *       (10 by default), actions that a chama guards with `requireStepUp` are allowed.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "492817"
+ *     responses:
+ *       200:
+ *         description: Verified
+ *       400:
+ *         description: Invalid code, or two-factor authentication is not enabled
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         description: Too many wrong codes in a row. The account is locked out of code checks for 15 minutes.
+ */
+router.post('/2fa/step-up', twoFactorRateLimiter, ...twoFactorCodeValidator, handleValidationErrors, authController.stepUp);
+
 export default router;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { protect } from '../middleware/auth.middleware';
 import { checkMembership } from '../middleware/membership.middleware';
+import { requireStepUp } from '../middleware/stepUp.middleware';
 import * as validator from '../validators/chama.validators';
 import * as chamaController from '../controllers/chama.controller';
 import { uploadConstitution } from '../middleware/upload.midlleware';
@@ -43,6 +44,33 @@ router.use(protect);
  *                 type: string
  *                 description: Meeting day schedule
  *                 example: First Friday of every month
+ *               loanInterestMethod:
+ *                 type: string
+ *                 enum: [FLAT, REDUCING_BALANCE, AMORTIZED]
+ *                 default: FLAT
+ *                 description: Interest method applied to new loans
+ *               loanGracePeriodDays:
+ *                 type: integer
+ *                 minimum: 0
+ *                 default: 7
+ *                 description: Days after an installment falls due before it counts as missed and starts accruing penalty interest
+ *               loanPenaltyRate:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 1
+ *                 default: 0
+ *                 example: 0.02
+ *                 description: Penalty interest charged per period on a missed installment's unpaid principal and interest
+ *               loanPenaltyPeriod:
+ *                 type: string
+ *                 enum: [DAILY, MONTHLY]
+ *                 default: MONTHLY
+ *                 description: How often penalty interest is charged
+ *               loanDefaultAfter:
+ *                 type: integer
+ *                 minimum: 1
+ *                 default: 3
+ *                 description: Number of missed installments after which a loan is marked as defaulted
  *               constitution:
  *                 type: string
  *                 format: binary
@@ -197,6 +225,120 @@ router.post(
  */
 router.get('/', chamaController.getUserChamas);
 
+// --- Invitation Redemption ---
+
+/**
+ * @swagger
+ * /chamas/invitations/{code}:
+ *   get:
+ *     tags: [Chamas]
+ *     summary: Look up an invitation
+ *     description: Returns the chama, inviter and status for an invitation code so the invitee can decide whether to join.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Invitation code from the invitation email
+ *     responses:
+ *       200:
+ *         description: Invitation retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     email:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       enum: [PENDING, ACCEPTED, DECLINED, REVOKED]
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                     isExpired:
+ *                       type: boolean
+ *                     chama:
+ *                       type: object
+ *                     invitedBy:
+ *                       type: object
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/invitations/:code', chamaController.getInvitationByCode);
+
+/**
+ * @swagger
+ * /chamas/invitations/{code}/accept:
+ *   post:
+ *     tags: [Chamas]
+ *     summary: Accept an invitation
+ *     description: Redeems an invitation code and adds the authenticated user to the chama as a MEMBER. The user's email must match the invited email. Codes are single-use and expire after 7 days.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Invitation accepted and membership created
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Invitation was issued to a different email address
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Invitation already used, declined or revoked, or user is already a member
+ *       410:
+ *         description: Invitation has expired
+ */
+router.post('/invitations/:code/accept', chamaController.acceptInvitation);
+
+/**
+ * @swagger
+ * /chamas/invitations/{code}/decline:
+ *   post:
+ *     tags: [Chamas]
+ *     summary: Decline an invitation
+ *     description: Declines an invitation. The code cannot be used afterwards.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation declined
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Invitation was issued to a different email address
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Invitation is no longer pending
+ *       410:
+ *         description: Invitation has expired
+ */
+router.post('/invitations/:code/decline', chamaController.declineInvitation);
+
 /**
  * @swagger
  * /chamas/{id}:
@@ -302,7 +444,7 @@ router.get(
  *   put:
  *     tags: [Chamas]
  *     summary: Update chama details
- *     description: Updates chama information. Admin only.
+ *     description: Updates chama information. Admin only. Loan rules are changed through /chamas/{id}/settings.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -394,11 +536,11 @@ router.put(
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       403:
- *         description: Admin access required
+ *         description: Admin access required, or two-factor confirmation needed (see /auth/2fa/step-up)
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  */
-router.delete('/:id', checkMembership(['ADMIN']), chamaController.deleteChama);
+router.delete('/:id', checkMembership(['ADMIN']), requireStepUp(), chamaController.deleteChama);
 
 // --- Member Management ---
 
@@ -480,7 +622,10 @@ router.post('/:id/members', checkMembership(['ADMIN']), validator.inviteMemberVa
  *   delete:
  *     tags: [Chamas]
  *     summary: Remove member from chama
- *     description: Removes a member from the chama. Admin only.
+ *     description: |
+ *       Removes a member from the chama. Admin only. The membership is deactivated rather than deleted,
+ *       so the member's history is kept. Members who still hold savings or share capital, or have loans
+ *       in progress, must leave through an exit withdrawal instead.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -514,11 +659,13 @@ router.post('/:id/members', checkMembership(['ADMIN']), validator.inviteMemberVa
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       403:
- *         description: Admin access required
+ *         description: Admin access required, or two-factor confirmation needed (see /auth/2fa/step-up)
  *       404:
  *         description: Member not found
+ *       409:
+ *         description: The member still has savings or loans with the chama
  */
-router.delete('/:id/members/:userId', checkMembership(['ADMIN']), chamaController.removeMember);
+router.delete('/:id/members/:userId', checkMembership(['ADMIN']), requireStepUp(), chamaController.removeMember);
 
 /**
  * @swagger
@@ -583,6 +730,138 @@ router.delete('/:id/members/:userId', checkMembership(['ADMIN']), chamaControlle
  */
 router.put('/:id/members/:userId/role', checkMembership(['ADMIN']), validator.updateRoleValidator, chamaController.updateMemberRole);
 
+// --- Invitation Management ---
+
+/**
+ * @swagger
+ * /chamas/{id}/invitations:
+ *   post:
+ *     tags: [Chamas]
+ *     summary: Invite a member by email
+ *     description: Creates a 7-day, single-use invitation code and emails it to the invitee. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: invitee@example.com
+ *     responses:
+ *       201:
+ *         description: Invitation created and sent
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin access required
+ *       409:
+ *         description: User is already a member
+ *   get:
+ *     tags: [Chamas]
+ *     summary: List pending invitations
+ *     description: Returns unexpired invitations that have not yet been accepted, declined or revoked. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pending invitations retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin access required
+ */
+router.post('/:id/invitations', checkMembership(['ADMIN']), validator.inviteMemberValidator, chamaController.createInvitation);
+router.get('/:id/invitations', checkMembership(['ADMIN']), chamaController.getPendingInvitations);
+
+/**
+ * @swagger
+ * /chamas/{id}/invitations/{invitationId}/resend:
+ *   post:
+ *     tags: [Chamas]
+ *     summary: Resend an invitation
+ *     description: Issues a fresh code with a new 7-day expiry and emails it again. The previous code stops working. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation resent
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Invitation is no longer pending
+ */
+router.post('/:id/invitations/:invitationId/resend', checkMembership(['ADMIN']), chamaController.resendInvitation);
+
+/**
+ * @swagger
+ * /chamas/{id}/invitations/{invitationId}:
+ *   delete:
+ *     tags: [Chamas]
+ *     summary: Revoke an invitation
+ *     description: Revokes a pending invitation so its code can no longer be redeemed. Admin only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation revoked
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Invitation is no longer pending
+ */
+router.delete('/:id/invitations/:invitationId', checkMembership(['ADMIN']), chamaController.revokeInvitation);
+
 // --- Dashboard ---
 
 /**
@@ -640,4 +919,193 @@ router.put('/:id/members/:userId/role', checkMembership(['ADMIN']), validator.up
  */
 router.get('/:id/dashboard', checkMembership(['ADMIN', 'TREASURER', 'SECRETARY', 'MEMBER']), chamaController.getChamaDashboard);
 
+/**
+ * @swagger
+ * /chamas/{id}/settings:
+ *   get:
+ *     tags: [Chamas]
+ *     summary: Get chama settings
+ *     description: Returns the chama's contribution and loan bylaws. Chamas that have never changed their settings get the defaults.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     responses:
+ *       200:
+ *         description: Settings retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     contributionFrequency:
+ *                       type: string
+ *                       enum: [WEEKLY, BIWEEKLY, MONTHLY, CUSTOM]
+ *                     contributionDeadlineDay:
+ *                       type: integer
+ *                       example: 15
+ *                     penaltyType:
+ *                       type: string
+ *                       enum: [FLAT, PERCENTAGE]
+ *                     penaltyAmount:
+ *                       type: number
+ *                       example: 0.05
+ *                     penaltyCap:
+ *                       type: number
+ *                       nullable: true
+ *                     loanEligibilityMultiplier:
+ *                       type: number
+ *                       example: 3
+ *                     maxLoanDuration:
+ *                       type: integer
+ *                       example: 24
+ *                     defaultInterestRate:
+ *                       type: number
+ *                       example: 0.12
+ *                     loanInterestMethod:
+ *                       type: string
+ *                       enum: [FLAT, REDUCING_BALANCE, AMORTIZED]
+ *                     loanGracePeriodDays:
+ *                       type: integer
+ *                       example: 7
+ *                     loanPenaltyRate:
+ *                       type: number
+ *                       example: 0
+ *                     loanPenaltyPeriod:
+ *                       type: string
+ *                       enum: [DAILY, MONTHLY]
+ *                     loanDefaultAfter:
+ *                       type: integer
+ *                       example: 3
+ *                     cycleStartDate:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *                     requireStepUp:
+ *                       type: boolean
+ *                       example: false
+ *                     updatedAt:
+ *                       type: string
+ *                       format: date-time
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not a member of this chama
+ */
+router.get('/:id/settings', checkMembership(['ADMIN', 'TREASURER', 'SECRETARY', 'MEMBER']), chamaController.getChamaSettings);
+
+/**
+ * @swagger
+ * /chamas/{id}/settings:
+ *   put:
+ *     tags: [Chamas]
+ *     summary: Update chama settings
+ *     description: |
+ *       Updates the chama's contribution and loan bylaws. Only the fields sent are changed. Each change is
+ *       recorded in the audit log as a CHAMA_UPDATE. Admin only.
+ *
+ *       - `contributionFrequency` sets the period calendar. `MONTHLY` periods are calendar months due on `contributionDeadlineDay`. `WEEKLY` and `BIWEEKLY` periods end on the chama's meeting day, which must name a weekday. `BIWEEKLY` periods are counted from `cycleStartDate`, or the chama's creation date when it is not set. `CUSTOM` periods are created one at a time by an admin or treasurer.
+ *       - Late contributions are those paid after the due date of their period.
+ *       - A `FLAT` penalty charges `penaltyAmount` in KES. A `PERCENTAGE` penalty charges `penaltyAmount` as a fraction of the per-period contribution. Either is limited to `penaltyCap` when set.
+ *       - A member can borrow up to `loanEligibilityMultiplier` times their free savings.
+ *       - Loan applications longer than `maxLoanDuration` months are rejected. Applications without an interest rate use `defaultInterestRate`.
+ *       - New loans use `loanInterestMethod`. An installment still unpaid `loanGracePeriodDays` after it falls due accrues `loanPenaltyRate` per `loanPenaltyPeriod` on its arrears, and a loan with `loanDefaultAfter` missed installments is marked DEFAULTED.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               contributionFrequency:
+ *                 type: string
+ *                 enum: [WEEKLY, BIWEEKLY, MONTHLY, CUSTOM]
+ *               contributionDeadlineDay:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 28
+ *               penaltyType:
+ *                 type: string
+ *                 enum: [FLAT, PERCENTAGE]
+ *               penaltyAmount:
+ *                 type: number
+ *                 minimum: 0
+ *                 description: KES for a FLAT penalty, or a fraction between 0 and 1 for a PERCENTAGE penalty
+ *               penaltyCap:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Largest penalty charged on one contribution. Send null to remove the cap.
+ *               loanEligibilityMultiplier:
+ *                 type: number
+ *                 minimum: 0
+ *                 exclusiveMinimum: true
+ *               maxLoanDuration:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Longest loan term in months
+ *               defaultInterestRate:
+ *                 type: number
+ *                 minimum: 0
+ *                 description: Annual interest rate as a decimal
+ *               loanInterestMethod:
+ *                 type: string
+ *                 enum: [FLAT, REDUCING_BALANCE, AMORTIZED]
+ *                 description: Interest method applied to new loans
+ *               loanGracePeriodDays:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: Days after an installment falls due before it counts as missed and starts accruing penalty interest
+ *               loanPenaltyRate:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 1
+ *                 example: 0.02
+ *                 description: Penalty interest charged per period on a missed installment's unpaid principal and interest
+ *               loanPenaltyPeriod:
+ *                 type: string
+ *                 enum: [DAILY, MONTHLY]
+ *                 description: How often penalty interest is charged
+ *               loanDefaultAfter:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Number of missed installments after which a loan is marked as defaulted
+ *               cycleStartDate:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *                 description: First day of the bi-weekly cycle. Send null to count from the chama creation date.
+ *               requireStepUp:
+ *                 type: boolean
+ *                 description: >
+ *                   Require officers to confirm their two-factor code before disbursing loans, sending B2C
+ *                   payouts, removing members, deleting the chama or changing these settings.
+ *     responses:
+ *       200:
+ *         description: Settings updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin access required, or two-factor confirmation needed (see /auth/2fa/step-up)
+ */
+router.put('/:id/settings', checkMembership(['ADMIN']), requireStepUp(), validator.updateChamaSettingsValidator, chamaController.updateChamaSettings);
+
 export default router;
\ No newline at end of file
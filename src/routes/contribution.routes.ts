@@ -16,7 +16,15 @@ router.use(protect);
  *   post:
  *     tags: [Contributions]
  *     summary: Record a new contribution
- *     description: Records a contribution payment for a chama member
+ *     description: |
+ *       Records a contribution payment for a chama member against one period of the chama's contribution calendar.
+ *       The period is `periodId` when sent. Otherwise, for a monthly chama it is the `month` and `year` sent, and
+ *       for any other chama it is the period `paidAt` falls in.
+ *
+ *       Each period expects the chama's standard contribution. A period can be paid in several instalments, and is
+ *       `PARTIALLY_PAID` until the total reaches what it expects. Anything paid beyond that carries forward as credit
+ *       to the following periods. The late penalty is charged when a period becomes fully paid after its due date.
+ *       A `PENDING` contribution records nothing paid yet, and only one can exist per member and period.
  *     security:
  *       - BearerAuth: []
  *     requestBody:
@@ -28,8 +36,6 @@ router.use(protect);
  *             required:
  *               - membershipId
  *               - amount
- *               - month
- *               - year
  *               - paymentMethod
  *               - paidAt
  *             properties:
@@ -40,13 +46,16 @@ router.use(protect);
  *               amount:
  *                 type: number
  *                 example: 5000
- *                 description: Contribution amount
+ *                 description: Amount paid
+ *               periodId:
+ *                 type: string
+ *                 description: ID of the contribution period being paid for
  *               month:
  *                 type: integer
  *                 minimum: 1
  *                 maximum: 12
  *                 example: 1
- *                 description: Month of contribution (1-12)
+ *                 description: Month of contribution (1-12). Monthly chamas only; must be sent with year.
  *               year:
  *                 type: integer
  *                 example: 2025
@@ -70,7 +79,7 @@ router.use(protect);
  *                 type: string
  *                 enum: [PENDING, PAID]
  *                 default: PAID
- *                 description: Payment status (defaults to PAID if not provided)
+ *                 description: Send PENDING to create a contribution that will be paid later (e.g., by STK push)
  *     responses:
  *       201:
  *         description: Contribution recorded successfully
@@ -95,10 +104,17 @@ router.use(protect);
  *                       type: string
  *                     amount:
  *                       type: number
+ *                       description: Total paid towards the period so far
+ *                     expectedAmount:
+ *                       type: number
+ *                       description: Amount the period expects
  *                     month:
  *                       type: integer
  *                     year:
  *                       type: integer
+ *                       description: Month and year of the period's due date
+ *                     periodId:
+ *                       type: string
  *                     paymentMethod:
  *                       type: string
  *                     mpesaCode:
@@ -109,7 +125,7 @@ router.use(protect);
  *                       format: date-time
  *                     status:
  *                       type: string
- *                       enum: [PENDING, PAID]
+ *                       enum: [PENDING, PARTIALLY_PAID, PAID]
  *                     penaltyApplied:
  *                       type: number
  *       400:
@@ -118,6 +134,8 @@ router.use(protect);
  *         $ref: '#/components/responses/UnauthorizedError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: A pending contribution already exists for the period, or the M-Pesa code has already been recorded
  */
 router.post(
   '/',
@@ -252,7 +270,7 @@ router.post(
  *         name: status
  *         schema:
  *           type: string
- *           enum: [PENDING, PAID]
+ *           enum: [PENDING, PARTIALLY_PAID, PAID]
  *       - in: query
  *         name: paymentMethod
  *         schema:
@@ -441,6 +459,12 @@ router.get(
  *                     year:
  *                       type: integer
  *                       description: Current year for the summary
+ *                     frequency:
+ *                       type: string
+ *                       enum: [WEEKLY, BIWEEKLY, MONTHLY, CUSTOM]
+ *                     periodsDue:
+ *                       type: integer
+ *                       description: Number of contribution periods due this year
  *                     totalPaid:
  *                       type: number
  *                       description: Total amount paid by all members
@@ -449,10 +473,13 @@ router.get(
  *                       description: Total penalties collected
  *                     paidContributionsCount:
  *                       type: integer
- *                       description: Number of paid contributions
+ *                       description: Number of fully paid contributions
+ *                     partiallyPaidContributionsCount:
+ *                       type: integer
+ *                       description: Number of contributions paid in part
  *                     totalExpected:
  *                       type: number
- *                       description: Expected total for the year
+ *                       description: Active members × contribution amount × periods due this year
  *                     deficit:
  *                       type: number
  *                       description: Difference between expected and paid
@@ -473,7 +500,7 @@ router.get(
  *   get:
  *     tags: [Contributions]
  *     summary: Get defaulting members
- *     description: Returns list of members who have missed contributions. Admin/Treasurer/Secretary only.
+ *     description: Returns active members who have not paid for the current contribution period. Admin/Treasurer/Secretary only.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -571,6 +598,135 @@ router.get(
   contributionController.exportContributions
 );
 
+/**
+ * @swagger
+ * /contributions/periods/{chamaId}:
+ *   get:
+ *     tags: [Contributions]
+ *     summary: List contribution periods
+ *     description: |
+ *       Returns the chama's contribution calendar for periods due between `from` (inclusive) and `to` (exclusive),
+ *       defaulting to the current year. Calendar periods nobody has paid for yet have a null `id`.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Periods retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                         nullable: true
+ *                       frequency:
+ *                         type: string
+ *                         enum: [WEEKLY, BIWEEKLY, MONTHLY, CUSTOM]
+ *                       startDate:
+ *                         type: string
+ *                         format: date-time
+ *                       endDate:
+ *                         type: string
+ *                         format: date-time
+ *                         description: Exclusive end of the period
+ *                       dueDate:
+ *                         type: string
+ *                         format: date-time
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not a member of this chama
+ */
+router.get(
+  '/periods/:chamaId',
+  checkMembership(['ADMIN', 'TREASURER', 'SECRETARY', 'MEMBER']),
+  contributionValidator.listPeriodsValidator,
+  contributionController.getContributionPeriods
+);
+
+/**
+ * @swagger
+ * /contributions/periods/{chamaId}:
+ *   post:
+ *     tags: [Contributions]
+ *     summary: Create a custom contribution period
+ *     description: Adds a period to a chama whose contribution frequency is CUSTOM. Periods may not overlap. Admin/Treasurer only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startDate
+ *               - endDate
+ *               - dueDate
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *                 example: 2025-03-01
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 example: 2025-04-15
+ *                 description: Exclusive end of the period
+ *               dueDate:
+ *                 type: string
+ *                 format: date
+ *                 example: 2025-04-10
+ *                 description: Must fall within the period
+ *     responses:
+ *       201:
+ *         description: Period created successfully
+ *       400:
+ *         description: The chama does not use custom periods, or the dates are invalid or overlap an existing period
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required
+ */
+router.post(
+  '/periods/:chamaId',
+  checkMembership(['ADMIN', 'TREASURER']),
+  contributionValidator.createPeriodValidator,
+  contributionController.createContributionPeriod
+);
+
 /**
  * @swagger
  * /contributions/{id}:
@@ -606,10 +762,17 @@ router.get(
  *                       type: string
  *                     amount:
  *                       type: number
+ *                       description: Total paid towards the period so far
+ *                     expectedAmount:
+ *                       type: number
+ *                       description: Amount the period expects
  *                     month:
  *                       type: integer
  *                     year:
  *                       type: integer
+ *                       description: Month and year of the period's due date
+ *                     periodId:
+ *                       type: string
  *                     paymentMethod:
  *                       type: string
  *                     mpesaCode:
@@ -620,8 +783,27 @@ router.get(
  *                       format: date-time
  *                     status:
  *                       type: string
+ *                       enum: [PENDING, PARTIALLY_PAID, PAID]
  *                     penaltyApplied:
  *                       type: number
+ *                     payments:
+ *                       type: array
+ *                       description: Payments applied to this contribution, oldest first
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           amount:
+ *                             type: number
+ *                           paymentMethod:
+ *                             type: string
+ *                           mpesaCode:
+ *                             type: string
+ *                             nullable: true
+ *                           paidAt:
+ *                             type: string
+ *                             format: date-time
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       404:
@@ -683,8 +865,8 @@ router.get('/:id', contributionController.getContributionById);
  *                 description: Updated payment date (affects penalty calculation)
  *               status:
  *                 type: string
- *                 enum: [PENDING, PAID]
- *                 description: Updated status (penalty recalculated if changing to PAID)
+ *                 enum: [PENDING, PARTIALLY_PAID, PAID]
+ *                 description: Updated status (penalty recalculated if changing to PAID). Marking a contribution PAID without an amount settles it in full; sending an amount without a status derives the status from it.
  *               penaltyApplied:
  *                 type: number
  *                 description: Manual penalty override (use with caution)
@@ -0,0 +1,333 @@
+import { Router } from 'express';
+import { protect } from '../middleware/auth.middleware';
+import { checkMembership } from '../middleware/membership.middleware';
+import { requireStepUp } from '../middleware/stepUp.middleware';
+import * as dividendController from '../controllers/dividend.controller';
+import * as dividendValidator from '../validators/dividend.validators';
+import { MembershipRole } from '@prisma/client';
+
+const router = Router();
+router.use(protect);
+
+const allMembers = Object.values(MembershipRole);
+const officerRoles = [MembershipRole.ADMIN, MembershipRole.TREASURER];
+
+/**
+ * @swagger
+ * /dividends/{chamaId}/runs:
+ *   post:
+ *     tags: [Dividends]
+ *     summary: Preview a year's dividend
+ *     description: |
+ *       Admin/Treasurer only. Shares the interest and penalty income the chama earned in a financial
+ *       (calendar) year among its active members and saves the result as a draft. Previewing the same
+ *       year again replaces the draft, so officers can compare policies before confirming.
+ *       - SAVINGS_PROPORTIONAL: by each member's savings and share capital at the end of the year
+ *       - MONTHS_WEIGHTED: by savings and share capital, weighted by the months of the year each amount was held
+ *       - EQUAL: the same amount for every member
+ *
+ *       Welfare funds do not earn dividends.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - financialYear
+ *               - policy
+ *             properties:
+ *               financialYear:
+ *                 type: integer
+ *                 example: 2025
+ *               policy:
+ *                 type: string
+ *                 enum: [SAVINGS_PROPORTIONAL, MONTHS_WEIGHTED, EQUAL]
+ *     responses:
+ *       201:
+ *         description: Draft dividend run with each member's share
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     financialYear:
+ *                       type: integer
+ *                     policy:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       example: DRAFT
+ *                     interestIncome:
+ *                       type: number
+ *                     penaltyIncome:
+ *                       type: number
+ *                     totalAmount:
+ *                       type: number
+ *                     payouts:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           membershipId:
+ *                             type: string
+ *                           basis:
+ *                             type: number
+ *                           amount:
+ *                             type: number
+ *                           status:
+ *                             type: string
+ *       400:
+ *         description: Validation error, no income to share, or no eligible members
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required
+ *       409:
+ *         description: The dividend for this year has already been confirmed
+ */
+router.post(
+    '/:chamaId/runs',
+    checkMembership(officerRoles),
+    dividendValidator.previewDividendValidator,
+    dividendController.previewDividendRun
+);
+
+/**
+ * @swagger
+ * /dividends/{chamaId}/runs:
+ *   get:
+ *     tags: [Dividends]
+ *     summary: List dividend runs
+ *     description: Returns the chama's dividend runs, latest financial year first.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dividend runs retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not an active member of this chama
+ */
+router.get(
+    '/:chamaId/runs',
+    checkMembership(allMembers),
+    dividendController.getDividendRuns
+);
+
+/**
+ * @swagger
+ * /dividends/{chamaId}/runs/{runId}:
+ *   get:
+ *     tags: [Dividends]
+ *     summary: Get a dividend run
+ *     description: Returns a dividend run with every member's share and payout status.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dividend run retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not an active member of this chama
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get(
+    '/:chamaId/runs/:runId',
+    checkMembership(allMembers),
+    dividendController.getDividendRun
+);
+
+/**
+ * @swagger
+ * /dividends/{chamaId}/runs/{runId}/confirm:
+ *   post:
+ *     tags: [Dividends]
+ *     summary: Confirm and pay a dividend
+ *     description: |
+ *       Admin only, once the financial year has ended. The year's income is checked against the preview
+ *       and the distribution is posted to the ledger.
+ *       - CREDIT_SAVINGS: each member's share is added to their savings straight away
+ *       - MPESA: each share is sent to the member's phone by M-Pesa B2C and is marked paid when the result
+ *         callback arrives. Payouts that fail can be retried.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - payoutMethod
+ *             properties:
+ *               payoutMethod:
+ *                 type: string
+ *                 enum: [CREDIT_SAVINGS, MPESA]
+ *     responses:
+ *       200:
+ *         description: Dividend confirmed
+ *       400:
+ *         description: Validation error, or the financial year has not ended
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin access required, or two-factor confirmation needed (see /auth/2fa/step-up)
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The run is already confirmed, or the income has changed since the preview
+ */
+router.post(
+    '/:chamaId/runs/:runId/confirm',
+    checkMembership([MembershipRole.ADMIN]),
+    requireStepUp(),
+    dividendValidator.confirmDividendValidator,
+    dividendController.confirmDividendRun
+);
+
+/**
+ * @swagger
+ * /dividends/{chamaId}/runs/{runId}/retry:
+ *   post:
+ *     tags: [Dividends]
+ *     summary: Retry failed M-Pesa dividend payouts
+ *     description: Admin/Treasurer only. Sends the run's FAILED M-Pesa payouts again.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Failed payouts sent again
+ *       400:
+ *         description: The run has no failed payouts
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required, or two-factor confirmation needed (see /auth/2fa/step-up)
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The run is not a confirmed M-Pesa run
+ */
+router.post(
+    '/:chamaId/runs/:runId/retry',
+    checkMembership(officerRoles),
+    requireStepUp(),
+    dividendController.retryFailedPayouts
+);
+
+/**
+ * @swagger
+ * /dividends/{chamaId}/runs/{runId}/export:
+ *   get:
+ *     tags: [Dividends]
+ *     summary: Export a dividend statement
+ *     description: |
+ *       Downloads the dividend run as a PDF or Excel statement, showing the income shared, who prepared
+ *       and confirmed it, and each member's dividend.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [pdf, excel]
+ *     responses:
+ *       200:
+ *         description: The statement file
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not an active member of this chama
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get(
+    '/:chamaId/runs/:runId/export',
+    checkMembership(allMembers),
+    dividendValidator.exportDividendValidator,
+    dividendController.exportDividendStatement
+);
+
+export default router;
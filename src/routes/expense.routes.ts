@@ -0,0 +1,201 @@
+import { Router } from 'express';
+import { protect } from '../middleware/auth.middleware';
+import { checkMembership } from '../middleware/membership.middleware';
+import * as expenseController from '../controllers/expense.controller';
+import * as expenseValidator from '../validators/expense.validators';
+import { MembershipRole } from '@prisma/client';
+
+const router = Router();
+router.use(protect);
+
+const allMembers = Object.values(MembershipRole);
+const reviewerRoles = [MembershipRole.ADMIN, MembershipRole.TREASURER];
+
+/**
+ * @swagger
+ * /expenses/{chamaId}:
+ *   post:
+ *     tags: [Expenses]
+ *     summary: Request an expense
+ *     description: |
+ *       Submits a request to spend chama funds. Any active member can submit one; it stays PENDING
+ *       until an admin or treasurer reviews it. A receipt can be attached by uploading it first through
+ *       `POST /files/upload/{chamaId}` and passing the returned file ID as `receiptId`.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - category
+ *               - amount
+ *               - description
+ *             properties:
+ *               category:
+ *                 type: string
+ *                 enum: [VENUE, BANK_CHARGES, WELFARE, TRANSPORT, STATIONERY, OTHER]
+ *               amount:
+ *                 type: number
+ *                 example: 2500
+ *               description:
+ *                 type: string
+ *                 example: Hall hire for the March meeting
+ *               receiptId:
+ *                 type: string
+ *                 description: ID of a file uploaded to this chama
+ *     responses:
+ *       201:
+ *         description: Expense submitted for approval
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not an active member of this chama
+ *       404:
+ *         description: The receipt was not found in this chama
+ *       409:
+ *         description: The receipt is already attached to another expense
+ */
+router.post(
+    '/:chamaId',
+    checkMembership(allMembers),
+    expenseValidator.requestExpenseValidator,
+    expenseController.requestExpense
+);
+
+/**
+ * @swagger
+ * /expenses/{chamaId}:
+ *   get:
+ *     tags: [Expenses]
+ *     summary: List expenses
+ *     description: Returns the chama's expenses, newest first, with the total amount in each status.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED]
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           enum: [VENUE, BANK_CHARGES, WELFARE, TRANSPORT, STATIONERY, OTHER]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Expenses retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 totals:
+ *                   type: object
+ *                   example: { PENDING: 2500, APPROVED: 14000 }
+ *                 meta:
+ *                   type: object
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not an active member of this chama
+ */
+router.get(
+    '/:chamaId',
+    checkMembership(allMembers),
+    expenseValidator.listExpensesValidator,
+    expenseController.getChamaExpenses
+);
+
+/**
+ * @swagger
+ * /expenses/{chamaId}/{expenseId}/review:
+ *   put:
+ *     tags: [Expenses]
+ *     summary: Approve or reject an expense
+ *     description: |
+ *       Admin/Treasurer only. Members cannot review their own requests.
+ *       Approving an expense records an EXPENSE transaction and posts it to the ledger, so it shows up
+ *       as an outflow in the financial summary and cashflow reports. The requester is notified either way.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: expenseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *               reviewNotes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Expense reviewed successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required, or the reviewer requested the expense
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The expense has already been reviewed
+ */
+router.put(
+    '/:chamaId/:expenseId/review',
+    checkMembership(reviewerRoles),
+    expenseValidator.reviewExpenseValidator,
+    expenseController.reviewExpense
+);
+
+export default router;
@@ -0,0 +1,221 @@
+import { Router } from 'express';
+import { protect } from '../middleware/auth.middleware';
+import { checkMembership } from '../middleware/membership.middleware';
+import * as fundController from '../controllers/fund.controller';
+import * as fundValidator from '../validators/fund.validators';
+import { MembershipRole } from '@prisma/client';
+
+const router = Router();
+router.use(protect);
+
+const allMembers = Object.values(MembershipRole);
+
+/**
+ * @swagger
+ * /funds/{chamaId}:
+ *   get:
+ *     tags: [Funds]
+ *     summary: List the chama's funds
+ *     description: |
+ *       Returns the funds every contribution is split across, with their withdrawal rules and the total
+ *       members hold in each. A chama that has not set up its funds has a single savings fund.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     responses:
+ *       200:
+ *         description: Funds retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                         example: Share Capital
+ *                       type:
+ *                         type: string
+ *                         enum: [SHARE_CAPITAL, SAVINGS, WELFARE]
+ *                       allocationRate:
+ *                         type: number
+ *                         example: 0.25
+ *                       isWithdrawable:
+ *                         type: boolean
+ *                       withdrawalNoticeDays:
+ *                         type: integer
+ *                       minimumBalance:
+ *                         type: number
+ *                       totalBalance:
+ *                         type: number
+ *                         example: 120000
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not an active member of this chama
+ */
+router.get(
+    '/:chamaId',
+    checkMembership(allMembers),
+    fundController.getFunds
+);
+
+/**
+ * @swagger
+ * /funds/{chamaId}:
+ *   put:
+ *     tags: [Funds]
+ *     summary: Set up the chama's funds
+ *     description: |
+ *       Replaces the chama's fund setup. Admin only.
+ *       - Funds sent with an `id` are updated, funds without one are created, and funds left out are removed
+ *       - A fund that already holds member balances cannot be removed
+ *       - Allocation rates are fractions of each contribution and must add up to 1
+ *       - There must be at least one SAVINGS fund, as loan eligibility is based on savings
+ *       - Share capital cannot be withdrawable. Savings funds are withdrawable unless `isWithdrawable` is false; other funds are not unless it is true
+ *
+ *       New rates apply to contributions paid from now on.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - funds
+ *             properties:
+ *               funds:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - name
+ *                     - type
+ *                     - allocationRate
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       description: Existing fund to update
+ *                     name:
+ *                       type: string
+ *                       example: Savings
+ *                     type:
+ *                       type: string
+ *                       enum: [SHARE_CAPITAL, SAVINGS, WELFARE]
+ *                     allocationRate:
+ *                       type: number
+ *                       example: 0.65
+ *                     isWithdrawable:
+ *                       type: boolean
+ *                     withdrawalNoticeDays:
+ *                       type: integer
+ *                       example: 30
+ *                     minimumBalance:
+ *                       type: number
+ *                       example: 1000
+ *     responses:
+ *       200:
+ *         description: Funds saved successfully
+ *       400:
+ *         description: Validation error, rates that do not add up to 1, no savings fund, or withdrawable share capital
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: A fund ID was not found in this chama
+ *       409:
+ *         description: A fund left out still holds member balances
+ */
+router.put(
+    '/:chamaId',
+    checkMembership([MembershipRole.ADMIN]),
+    fundValidator.saveFundsValidator,
+    fundController.saveFunds
+);
+
+/**
+ * @swagger
+ * /funds/{chamaId}/members/{membershipId}:
+ *   get:
+ *     tags: [Funds]
+ *     summary: Get a member's fund balances
+ *     description: Returns what the member holds in each fund and how much of it the fund's rules let them withdraw.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: membershipId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Balances retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       fundId:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                       type:
+ *                         type: string
+ *                         enum: [SHARE_CAPITAL, SAVINGS, WELFARE]
+ *                       balance:
+ *                         type: number
+ *                         example: 15000
+ *                       isWithdrawable:
+ *                         type: boolean
+ *                       withdrawalNoticeDays:
+ *                         type: integer
+ *                       availableToWithdraw:
+ *                         type: number
+ *                         example: 14000
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not an active member of this chama
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get(
+    '/:chamaId/members/:membershipId',
+    checkMembership(allMembers),
+    fundController.getMemberBalances
+);
+
+export default router;
@@ -0,0 +1,192 @@
+import { Router } from 'express';
+import { protect } from '../middleware/auth.middleware';
+import { checkMembership } from '../middleware/membership.middleware';
+import * as ledgerController from '../controllers/ledger.controller';
+import * as ledgerValidator from '../validators/ledger.validators';
+import { MembershipRole } from '@prisma/client';
+
+const router = Router();
+router.use(protect);
+
+// The books are visible to the same officials who can view reports.
+const privilegedRoles = [MembershipRole.ADMIN, MembershipRole.TREASURER, MembershipRole.SECRETARY];
+
+/**
+ * @swagger
+ * /ledger/trial-balance/{chamaId}:
+ *   get:
+ *     tags: [Ledger]
+ *     summary: Get trial balance
+ *     description: Returns the debit or credit balance of every ledger account as of a date, with totals. Admin/Treasurer/Secretary only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only entries posted on or before this date are included. Defaults to now.
+ *     responses:
+ *       200:
+ *         description: Trial balance retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     asOf:
+ *                       type: string
+ *                       format: date-time
+ *                     accounts:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           code:
+ *                             type: string
+ *                             example: "1000"
+ *                           name:
+ *                             type: string
+ *                             example: Cash & M-Pesa Float
+ *                           type:
+ *                             type: string
+ *                             enum: [ASSET, LIABILITY, EQUITY, INCOME, EXPENSE]
+ *                           debit:
+ *                             type: number
+ *                           credit:
+ *                             type: number
+ *                           balance:
+ *                             type: number
+ *                     totalDebit:
+ *                       type: number
+ *                     totalCredit:
+ *                       type: number
+ *                     isBalanced:
+ *                       type: boolean
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin, Treasurer, or Secretary access required
+ */
+router.get(
+    '/trial-balance/:chamaId',
+    checkMembership(privilegedRoles),
+    ledgerValidator.trialBalanceValidator,
+    ledgerController.getTrialBalance
+);
+
+/**
+ * @swagger
+ * /ledger/journal/{chamaId}:
+ *   get:
+ *     tags: [Ledger]
+ *     summary: List journal entries
+ *     description: Returns posted journal entries with their debit and credit lines, newest first. Admin/Treasurer/Secretary only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *       - in: query
+ *         name: sourceType
+ *         schema:
+ *           type: string
+ *           enum: [CONTRIBUTION, LOAN_DISBURSEMENT, LOAN_REPAYMENT, EXPENSE, WITHDRAWAL, DIVIDEND, ROTATION_PAYOUT, ADJUSTMENT]
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Journal entries retrieved successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin, Treasurer, or Secretary access required
+ */
+router.get(
+    '/journal/:chamaId',
+    checkMembership(privilegedRoles),
+    ledgerValidator.journalQueryValidator,
+    ledgerController.getJournalEntries
+);
+
+/**
+ * @swagger
+ * /ledger/rebuild/{chamaId}:
+ *   post:
+ *     tags: [Ledger]
+ *     summary: Post missing journal entries
+ *     description: Posts journal entries for paid contributions, disbursed loans and loan repayments that are not yet on the ledger, such as records created before the ledger existed. Records already posted are skipped, so this is safe to re-run. Admin/Treasurer only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     responses:
+ *       200:
+ *         description: Ledger rebuilt successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     contributions:
+ *                       type: integer
+ *                     disbursements:
+ *                       type: integer
+ *                     repayments:
+ *                       type: integer
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required
+ */
+router.post(
+    '/rebuild/:chamaId',
+    checkMembership([MembershipRole.ADMIN, MembershipRole.TREASURER]),
+    ledgerController.rebuildLedger
+);
+
+export default router;
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { protect } from '../middleware/auth.middleware';
 import { checkMembership } from '../middleware/membership.middleware';
 import { checkLoanPermission } from '../middleware/permission.middleware';
+import { chamaOfLoan, requireStepUp } from '../middleware/stepUp.middleware';
 import * as loanController from '../controllers/loan.controller';
 import * as loanValidator from '../validators/loan.validators';
 import { MembershipRole } from '@prisma/client';
@@ -53,6 +54,10 @@ router.use(protect);
  *                       type: number
  *                       example: 50000
  *                       description: Maximum amount the member can borrow based on contributions
+ *                     lockedSavings:
+ *                       type: number
+ *                       example: 5000
+ *                       description: Savings pledged as guarantor on outstanding loans, excluded from maxLoanable
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
@@ -98,6 +103,10 @@ router.get('/eligibility', loanController.checkEligibilityController);
  *                     interestRate:
  *                       type: number
  *                       description: Annual interest rate as decimal (e.g., 0.10 for 10%)
+ *                     interestMethod:
+ *                       type: string
+ *                       enum: [FLAT, REDUCING_BALANCE, AMORTIZED]
+ *                       description: How interest is charged. Defaults to the chama's loan interest method.
  *                     duration:
  *                       type: integer
  *                       description: Duration in months
@@ -113,7 +122,7 @@ router.get('/eligibility', loanController.checkEligibilityController);
  *                     monthlyInstallment:
  *                       type: number
  *                       nullable: true
- *                       description: Monthly payment amount
+ *                       description: First monthly installment (the largest one for reducing-balance loans)
  *                     dueDate:
  *                       type: string
  *                       format: date-time
@@ -182,8 +191,11 @@ router.get('/:id', loanController.getLoanById);
  *     description: |
  *       Submit a loan application to a chama. The system will:
  *       - Verify the member is applying for themselves
- *       - Check eligibility based on paid contributions (max = contributions × multiplier)
- *       - Create loan application in PENDING status
+ *       - Reject durations longer than the chama's maximum loan duration
+ *       - Check eligibility based on paid contributions (max = free savings × the chama's eligibility
+ *         multiplier), where savings pledged as guarantor on outstanding loans are not free
+ *       - If the amount exceeds eligibility, require guarantor pledges that cover the shortfall
+ *       - Create loan application in PENDING status and notify each guarantor
  *     security:
  *       - BearerAuth: []
  *     requestBody:
@@ -208,12 +220,29 @@ router.get('/:id', loanController.getLoanById);
  *                 description: Requested loan amount (must not exceed eligibility)
  *               duration:
  *                 type: integer
- *                 description: Loan duration in months
+ *                 description: Loan duration in months, up to the chama's maximum loan duration
  *                 example: 12
+ *               interestRate:
+ *                 type: number
+ *                 example: 0.12
+ *                 description: Annual interest rate as decimal. Defaults to the chama's default interest rate.
  *               purpose:
  *                 type: string
  *                 example: Business expansion
  *                 description: Reason for the loan
+ *               guarantors:
+ *                 type: array
+ *                 description: Other members pledging part of their savings. Required when the amount exceeds eligibility.
+ *                 items:
+ *                   type: object
+ *                   required: [membershipId, amount]
+ *                   properties:
+ *                     membershipId:
+ *                       type: string
+ *                       example: cmdjw3rr50002cuhv9312yj80
+ *                     amount:
+ *                       type: number
+ *                       example: 5000
  *     responses:
  *       201:
  *         description: Loan application submitted successfully
@@ -330,8 +359,9 @@ router.get(
  *     tags: [Loans]
  *     summary: Get loan defaulters
  *     description: |
- *       Returns list of members with ACTIVE loans whose dueDate has passed.
- *       Admin/Treasurer only.
+ *       Returns ACTIVE loans with at least one OVERDUE installment. Unpaid installments past their
+ *       due date are marked OVERDUE first. Loans disbursed before installments were stored are
+ *       judged on their single dueDate. Admin/Treasurer only.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -365,6 +395,27 @@ router.get(
  *                       dueDate:
  *                         type: string
  *                         format: date-time
+ *                       amountOverdue:
+ *                         type: number
+ *                         description: Unpaid balance of the overdue installments
+ *                       installments:
+ *                         type: array
+ *                         description: The loan's overdue installments
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             installmentNumber:
+ *                               type: integer
+ *                             dueDate:
+ *                               type: string
+ *                               format: date-time
+ *                             amountDue:
+ *                               type: number
+ *                             amountPaid:
+ *                               type: number
+ *                             status:
+ *                               type: string
+ *                               enum: [OVERDUE]
  *                       membership:
  *                         type: object
  *                         properties:
@@ -392,6 +443,117 @@ router.get(
     loanController.getLoanDefaulters
 );
 
+/**
+ * @swagger
+ * /loans/reminders/{chamaId}:
+ *   post:
+ *     tags: [Loans]
+ *     summary: Send installment reminders
+ *     description: |
+ *       Notifies borrowers of installments falling due within `daysAhead` days and of installments
+ *       that are already overdue. Admin/Treasurer only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               daysAhead:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 31
+ *                 default: 3
+ *     responses:
+ *       200:
+ *         description: Reminders sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     reminders:
+ *                       type: integer
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required
+ */
+router.post(
+    '/reminders/:chamaId',
+    checkMembership([MembershipRole.ADMIN, MembershipRole.TREASURER]),
+    loanValidator.installmentRemindersValidator,
+    loanController.sendInstallmentReminders
+);
+
+/**
+ * @swagger
+ * /loans/process-overdue/{chamaId}:
+ *   post:
+ *     tags: [Loans]
+ *     summary: Apply overdue loan rules
+ *     description: |
+ *       Runs the chama's overdue-loan rules immediately instead of waiting for the scheduled job.
+ *       Late installments are marked overdue. Installments past the grace period accrue penalty
+ *       interest. Active loans with `loanDefaultAfter` missed installments are marked defaulted.
+ *       Re-running is safe because penalties are only charged for periods not yet charged.
+ *       Admin/Treasurer only.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     responses:
+ *       200:
+ *         description: Overdue loan rules applied
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     loansPenalized:
+ *                       type: integer
+ *                     penaltyCharged:
+ *                       type: number
+ *                     loansDefaulted:
+ *                       type: integer
+ *       400:
+ *         description: Chama not found
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required
+ */
+router.post(
+    '/process-overdue/:chamaId',
+    checkMembership([MembershipRole.ADMIN, MembershipRole.TREASURER]),
+    loanController.processOverdueLoans
+);
+
 /**
  * @swagger
  * /loans/member/{membershipId}:
@@ -425,8 +587,10 @@ router.get('/member/:membershipId', loanController.getMemberLoans);
  *     tags: [Loans]
  *     summary: Get repayment schedule
  *     description: |
- *       Returns the complete repayment schedule for a loan. 
- *       Schedule is only generated for disbursed loans.
+ *       Returns the installments stored for the loan at disbursement, calculated with the loan's interest
+ *       method (FLAT, REDUCING_BALANCE or AMORTIZED), with what has been paid against each. Payments are
+ *       allocated to installments oldest first, interest before principal. Loans disbursed before
+ *       installments were stored get a calculated schedule without payment details.
  *       Accessible by loan owner or admin.
  *     security:
  *       - BearerAuth: []
@@ -465,10 +629,32 @@ router.get('/member/:membershipId', loanController.getMemberLoans);
  *                         type: number
  *                         example: 2291.67
  *                         description: Monthly installment amount
+ *                       principal:
+ *                         type: number
+ *                         example: 2083.33
+ *                         description: Portion of the installment that repays principal
+ *                       interest:
+ *                         type: number
+ *                         example: 208.34
+ *                         description: Portion of the installment that is interest
+ *                       penalty:
+ *                         type: number
+ *                         example: 0
+ *                         description: Penalty interest charged on the installment while overdue
  *                       balance:
  *                         type: number
  *                         example: 25208.33
  *                         description: Remaining balance after this payment
+ *                       amountPaid:
+ *                         type: number
+ *                         example: 1000
+ *                       status:
+ *                         type: string
+ *                         enum: [PENDING, PARTIAL, PAID, OVERDUE]
+ *                       paidAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       403:
@@ -485,10 +671,11 @@ router.get('/:id/schedule', loanController.getRepaymentSchedule);
  *     tags: [Loans]
  *     summary: Record loan payment
  *     description: |
- *       Records a repayment for an ACTIVE loan. Treasurer only.
+ *       Records a repayment for an ACTIVE or DEFAULTED loan. Treasurer only.
  *       
  *       Payment processing:
- *       - Validates loan is in ACTIVE status
+ *       - Validates loan is in ACTIVE or DEFAULTED status
+ *       - Settles installments oldest first, paying penalty, then interest, then principal
  *       - Checks for duplicate mpesaCode if provided
  *       - Updates loan status to PAID when fully repaid
  *       - Extends dueDate by 1 month for partial payments
@@ -570,7 +757,7 @@ router.post(
  *       Approves or rejects a PENDING loan application. Admin/Treasurer only.
  *       
  *       When approving:
- *       - Calculates total interest and repayment amount
+ *       - Calculates total interest and repayment amount using the loan's interest method (or the one supplied)
  *       - Sets monthly installment
  *       - Updates status to APPROVED
  *       
@@ -599,6 +786,10 @@ router.post(
  *                 enum: [APPROVED, REJECTED]
  *                 example: APPROVED
  *                 description: Must be either APPROVED or REJECTED
+ *               interestMethod:
+ *                 type: string
+ *                 enum: [FLAT, REDUCING_BALANCE, AMORTIZED]
+ *                 description: Overrides the interest method for this loan (optional)
  *     responses:
  *       200:
  *         description: Loan status updated successfully
@@ -629,7 +820,7 @@ router.post(
  *                       format: date-time
  *                       nullable: true
  *       400:
- *         description: Loan not in PENDING status or invalid status provided
+ *         description: Loan not in PENDING status, invalid status provided, or accepted guarantor pledges do not cover the amount above the applicant's eligibility
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       403:
@@ -644,6 +835,56 @@ router.put(
     loanController.approveOrRejectLoan
 );
 
+/**
+ * @swagger
+ * /loans/{id}/guarantee:
+ *   put:
+ *     tags: [Loans]
+ *     summary: Respond to a guarantee request
+ *     description: |
+ *       Lets a member named as guarantor accept or decline their pledge while the loan is PENDING.
+ *       Accepting locks the pledged savings against the guarantor's own eligibility until the loan
+ *       is PAID (or rejected). The applicant is notified of the response.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [ACCEPTED, DECLINED]
+ *     responses:
+ *       200:
+ *         description: Guarantee response recorded
+ *       400:
+ *         description: Not a guarantor, already responded, loan no longer pending, or insufficient free savings
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not an active member of the loan's chama
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put(
+    '/:id/guarantee',
+    checkLoanPermission([MembershipRole.ADMIN, MembershipRole.TREASURER, MembershipRole.SECRETARY, MembershipRole.MEMBER]),
+    loanValidator.guaranteeResponseValidator,
+    loanController.respondToGuaranteeRequest
+);
+
 /**
  * @swagger
  * /loans/{id}/disburse:
@@ -699,13 +940,14 @@ router.put(
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       403:
- *         description: Treasurer access required
+ *         description: Treasurer access required, or two-factor confirmation needed (see /auth/2fa/step-up)
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  */
 router.put(
     '/:id/disburse',
     checkLoanPermission([MembershipRole.TREASURER]),
+    requireStepUp(chamaOfLoan(req => req.params.id)),
     loanController.disburseLoan
 );
 
@@ -719,10 +961,11 @@ router.put(
  *       Modifies the terms of an existing loan. Admin/Treasurer only.
  *       
  *       Restructuring:
- *       - Updates interest rate and/or duration
+ *       - Updates interest rate, duration and/or interest method
  *       - Recalculates repayment amount and monthly installment
  *       - Marks loan as restructured
  *       - Records restructure notes
+ *       - Rebuilds the installments of an active or defaulted loan, keeping penalties already charged
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -749,6 +992,10 @@ router.put(
  *                 type: number
  *                 description: New interest rate as decimal (optional, e.g., 0.12 for 12%)
  *                 example: 0.08
+ *               newInterestMethod:
+ *                 type: string
+ *                 enum: [FLAT, REDUCING_BALANCE, AMORTIZED]
+ *                 description: New interest method (optional)
  *               notes:
  *                 type: string
  *                 example: Requested extension due to financial hardship
@@ -0,0 +1,387 @@
+import { Router } from 'express';
+import { protect } from '../middleware/auth.middleware';
+import { checkMembership } from '../middleware/membership.middleware';
+import { requireStepUp } from '../middleware/stepUp.middleware';
+import * as merryGoRoundController from '../controllers/merryGoRound.controller';
+import * as merryGoRoundValidator from '../validators/merryGoRound.validators';
+import { MembershipRole } from '@prisma/client';
+
+const router = Router();
+router.use(protect);
+
+const allMembers = Object.values(MembershipRole);
+const payoutRoles = [MembershipRole.ADMIN, MembershipRole.TREASURER];
+
+/**
+ * @swagger
+ * /merry-go-round/{chamaId}:
+ *   get:
+ *     tags: [Merry-Go-Round]
+ *     summary: Get the rotation schedule
+ *     description: |
+ *       Returns the chama's payout order, the current cycle, and who is due the pot for the current
+ *       contribution period. Members who have not paid for the period, or who have a defaulted loan,
+ *       are listed as skipped and keep their place for a later period.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     responses:
+ *       200:
+ *         description: Rotation retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     order:
+ *                       type: string
+ *                       enum: [FIXED, RANDOM]
+ *                     cycle:
+ *                       type: integer
+ *                       example: 1
+ *                     slots:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           position:
+ *                             type: integer
+ *                           membershipId:
+ *                             type: string
+ *                           hasReceivedThisCycle:
+ *                             type: boolean
+ *                     currentPeriod:
+ *                       type: object
+ *                       nullable: true
+ *                     nextRecipient:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         membershipId:
+ *                           type: string
+ *                         position:
+ *                           type: integer
+ *                         name:
+ *                           type: string
+ *                     skippedMembers:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           membershipId:
+ *                             type: string
+ *                           position:
+ *                             type: integer
+ *                           name:
+ *                             type: string
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not an active member of this chama
+ *       404:
+ *         description: The chama has no merry-go-round schedule
+ */
+router.get(
+    '/:chamaId',
+    checkMembership(allMembers),
+    merryGoRoundController.getRotation
+);
+
+/**
+ * @swagger
+ * /merry-go-round/{chamaId}:
+ *   put:
+ *     tags: [Merry-Go-Round]
+ *     summary: Create or replace the rotation schedule
+ *     description: |
+ *       Sets the order in which members receive the pot. Admin only.
+ *       - FIXED: members are paid in the order given in `membershipIds`
+ *       - RANDOM: the order is drawn at random from `membershipIds`, or from every active member if omitted
+ *
+ *       Payouts already made in the current cycle still count. Pending swap requests are declined.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - order
+ *             properties:
+ *               order:
+ *                 type: string
+ *                 enum: [FIXED, RANDOM]
+ *               membershipIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Required for FIXED, in payout order
+ *     responses:
+ *       200:
+ *         description: Schedule saved successfully
+ *       400:
+ *         description: Validation error, or a member listed twice or not active in this chama
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin access required
+ *       409:
+ *         description: A payout is still being processed
+ */
+router.put(
+    '/:chamaId',
+    checkMembership([MembershipRole.ADMIN]),
+    merryGoRoundValidator.saveRotationValidator,
+    merryGoRoundController.saveRotation
+);
+
+/**
+ * @swagger
+ * /merry-go-round/{chamaId}/swaps:
+ *   post:
+ *     tags: [Merry-Go-Round]
+ *     summary: Ask another member to swap places
+ *     description: |
+ *       Asks another member in the rotation to trade positions. Neither member may have received the
+ *       pot this cycle. The other member is notified and must accept before the order changes.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - targetMembershipId
+ *             properties:
+ *               targetMembershipId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Swap request sent
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: The caller is not part of the rotation
+ *       404:
+ *         description: No schedule, or the other member is not part of the rotation
+ *       409:
+ *         description: One of the members has had their turn this cycle, or the request already exists
+ */
+router.post(
+    '/:chamaId/swaps',
+    checkMembership(allMembers),
+    merryGoRoundValidator.requestSwapValidator,
+    merryGoRoundController.requestSwap
+);
+
+/**
+ * @swagger
+ * /merry-go-round/{chamaId}/swaps/{swapId}:
+ *   put:
+ *     tags: [Merry-Go-Round]
+ *     summary: Respond to a swap request
+ *     description: Lets the member asked to swap accept or decline. Accepting exchanges the two positions.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: swapId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [ACCEPTED, DECLINED]
+ *     responses:
+ *       200:
+ *         description: Swap response recorded
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Only the member asked to swap can respond
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Already answered, or one of the members has had their turn this cycle
+ */
+router.put(
+    '/:chamaId/swaps/:swapId',
+    checkMembership(allMembers),
+    merryGoRoundValidator.swapResponseValidator,
+    merryGoRoundController.respondToSwap
+);
+
+/**
+ * @swagger
+ * /merry-go-round/{chamaId}/payouts:
+ *   get:
+ *     tags: [Merry-Go-Round]
+ *     summary: List payouts
+ *     description: Returns every payout made from the rotation, newest first.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payouts retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not an active member of this chama
+ *       404:
+ *         description: The chama has no merry-go-round schedule
+ */
+router.get(
+    '/:chamaId/payouts',
+    checkMembership(allMembers),
+    merryGoRoundController.getPayouts
+);
+
+/**
+ * @swagger
+ * /merry-go-round/{chamaId}/payouts:
+ *   post:
+ *     tags: [Merry-Go-Round]
+ *     summary: Pay out the pot for a period
+ *     description: |
+ *       Pays the pot for a contribution period (the current one by default) to the next eligible
+ *       member in the rotation. Admin/Treasurer only.
+ *
+ *       - The amount is the sum of the period's PAID contributions, up to each contribution's expected amount
+ *       - Members who have not paid for the period, or who have a defaulted loan, are skipped
+ *       - Without `sendViaMpesa` the payout is recorded as paid and a MERRY_GO_ROUND_PAYOUT transaction is created
+ *       - With `sendViaMpesa` the pot is sent to the member's phone by M-Pesa B2C; the payout stays PENDING until
+ *         the B2C result callback settles it, and a failed payout can be retried
+ *       - A new cycle starts once every active member in the rotation has been paid
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               periodId:
+ *                 type: string
+ *                 description: Defaults to the current contribution period
+ *               paymentMethod:
+ *                 type: string
+ *                 example: CASH
+ *               mpesaCode:
+ *                 type: string
+ *                 description: Reference for a payout already made outside the API
+ *               sendViaMpesa:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       201:
+ *         description: Payout recorded, or M-Pesa payout initiated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     membershipId:
+ *                       type: string
+ *                     periodId:
+ *                       type: string
+ *                     cycle:
+ *                       type: integer
+ *                     amount:
+ *                       type: number
+ *                       example: 50000
+ *                     status:
+ *                       type: string
+ *                       enum: [PENDING, PAID, FAILED]
+ *                     skippedMembershipIds:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       400:
+ *         description: Validation error, nothing paid for the period, or no eligible member left in the cycle
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required, or two-factor confirmation needed (see /auth/2fa/step-up)
+ *       404:
+ *         description: No schedule, or the period was not found
+ *       409:
+ *         description: The period has already been paid out
+ *       502:
+ *         description: The M-Pesa B2C request failed
+ */
+router.post(
+    '/:chamaId/payouts',
+    checkMembership(payoutRoles),
+    requireStepUp(),
+    merryGoRoundValidator.recordPayoutValidator,
+    merryGoRoundController.recordPayout
+);
+
+export default router;
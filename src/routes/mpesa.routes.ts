@@ -2,6 +2,11 @@ import { Router } from 'express';
 import { protect } from '../middleware/auth.middleware';
 import * as mpesaController from '../controllers/mpesa.controller';
 import { checkMembership } from '../middleware/membership.middleware';
+import { chamaOfLoan, requireStepUp } from '../middleware/stepUp.middleware';
+import { checkRole } from '../middleware/rbac.middleware';
+import { uploadCsv } from '../middleware/upload.midlleware';
+import { verifyMpesaCallback } from '../middleware/mpesaCallback.middleware';
+import * as mpesaValidator from '../validators/mpesa.validators';
 import { MembershipRole } from '@prisma/client';
 
 const router = Router();
@@ -75,13 +80,104 @@ router.post(
     mpesaController.initiateStkPushController
 );
 
+/**
+ * @swagger
+ * /payments/stk-push/loan:
+ *   post:
+ *     tags: [M-Pesa Payments]
+ *     summary: Initiate STK push for a loan repayment
+ *     description: |
+ *       Asks the member to repay their own ACTIVE loan from their phone. Without `amount` the push is for
+ *       the unpaid part of the next installment, rounded up to whole shillings. Once the callback confirms
+ *       the payment it is recorded as a loan repayment: it is allocated to installments, posted to the
+ *       ledger and audited, and a loan that is paid off is marked PAID.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - loanId
+ *               - phone
+ *             properties:
+ *               loanId:
+ *                 type: string
+ *                 example: cmdjw3rr50002cuhv9312yj79
+ *               phone:
+ *                 type: string
+ *                 example: "254712345678"
+ *                 description: Phone number in format 254XXXXXXXXX
+ *               amount:
+ *                 type: integer
+ *                 example: 1834
+ *                 minimum: 1
+ *                 description: Defaults to the next installment
+ *     responses:
+ *       200:
+ *         description: STK push initiated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     CheckoutRequestID:
+ *                       type: string
+ *                       description: Use this to check payment status
+ *                     MerchantRequestID:
+ *                       type: string
+ *                     ResponseCode:
+ *                       type: string
+ *                     amount:
+ *                       type: integer
+ *                       description: The amount the member was asked to pay
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Members can only repay their own loans
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The loan is not active, or nothing is due on it
+ *       500:
+ *         description: M-Pesa service error
+ */
+router.post(
+    '/stk-push/loan',
+    protect,
+    mpesaValidator.loanStkPushValidator,
+    mpesaController.initiateLoanStkPushController
+);
+
 /**
  * @swagger
  * /payments/callback:
  *   post:
  *     tags: [M-Pesa Payments]
  *     summary: M-Pesa callback endpoint
- *     description: Webhook endpoint for M-Pesa to send payment confirmation. Not for direct use.
+ *     description: |
+ *       Webhook endpoint for M-Pesa to send payment confirmation. Not for direct use. Every callback is
+ *       reconciled with the STK push log:
+ *       - A successful payment is applied to the contribution the push was for and recorded as a
+ *         CONTRIBUTION transaction, or recorded as a repayment on the loan it was for. A payment that
+ *         cannot be matched is queued for a treasurer to assign.
+ *       - A failed, cancelled or timed-out push is closed and the contribution stops waiting on it.
+ *
+ *       The payer is notified in the app and by SMS either way. A callback that has already been
+ *       processed for the same CheckoutRequestID is acknowledged and ignored.
+ *
+ *       Like every M-Pesa webhook, when `MPESA_CALLBACK_TOKEN` is set the URL must end in that token,
+ *       e.g. `/payments/callback/{callbackToken}`, and when `MPESA_CALLBACK_ALLOWED_IPS` is set only
+ *       those addresses may call it.
  *     requestBody:
  *       required: true
  *       content:
@@ -103,9 +199,12 @@ router.post(
  *                 ResultDesc:
  *                   type: string
  *                   example: Accepted
+ *       403:
+ *         description: Callback token missing or wrong, or caller address not allowed
  */
 router.post(
-    '/callback',
+    '/callback{/:callbackToken}',
+    verifyMpesaCallback,
     mpesaController.handleMpesaCallback
 );
 
@@ -125,13 +224,122 @@ router.all(
     mpesaController.acknowledgeMpesaRequest
 );
 
+/**
+ * @swagger
+ * /payments/c2b/register:
+ *   post:
+ *     tags: [M-Pesa Payments]
+ *     summary: Register C2B URLs
+ *     description: |
+ *       System admin only. Registers the C2B validation and confirmation URLs for the paybill in
+ *       `MPESA_C2B_SHORT_CODE`, so that payments members make straight to the paybill reach the API.
+ *       Only needs to be done once per paybill, or when `MPESA_CALLBACK_URL` or `MPESA_CALLBACK_TOKEN` changes.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: URLs registered
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: System admin access required
+ *       500:
+ *         description: M-Pesa service error
+ */
+router.post(
+    '/c2b/register',
+    protect,
+    checkRole(['ADMIN']),
+    mpesaController.registerC2BUrlsController
+);
+
+/**
+ * @swagger
+ * /payments/c2b/validation:
+ *   post:
+ *     tags: [M-Pesa Payments]
+ *     summary: M-Pesa C2B validation endpoint
+ *     description: |
+ *       Webhook endpoint M-Pesa calls before completing a payment to the paybill. Not for direct use. A
+ *       payment whose account number starts with a member number that is not an active member is
+ *       rejected with `C2B00012`; every other payment is accepted.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: M-Pesa C2B payload
+ *     responses:
+ *       200:
+ *         description: Payment accepted or rejected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ResultCode:
+ *                   type: string
+ *                   example: "0"
+ *                 ResultDesc:
+ *                   type: string
+ *                   example: Accepted
+ *       403:
+ *         description: Callback token missing or wrong, or caller address not allowed
+ */
+router.post(
+    '/c2b/validation{/:callbackToken}',
+    verifyMpesaCallback,
+    mpesaController.handleC2BValidation
+);
+
+/**
+ * @swagger
+ * /payments/c2b/confirmation:
+ *   post:
+ *     tags: [M-Pesa Payments]
+ *     summary: M-Pesa C2B confirmation endpoint
+ *     description: |
+ *       Webhook endpoint M-Pesa calls for every completed payment to the paybill. Not for direct use.
+ *       The payment is matched to a member by account number: the member number followed by CONT for
+ *       a contribution or LOAN for a loan repayment, e.g. `1042LOAN`. A bare member number is a
+ *       contribution. Without a member number, the paying phone number is used when it belongs to
+ *       exactly one member.
+ *       - Contributions are applied to the period the payment was made in, carrying any surplus forward
+ *       - Loan repayments go to the member's oldest outstanding loan
+ *       - Payments that cannot be matched or applied are queued for a treasurer to assign
+ *
+ *       Every payment is added to the M-Pesa request log with channel C2B. A receipt that has already
+ *       been recorded is ignored.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: M-Pesa C2B payload
+ *     responses:
+ *       200:
+ *         description: Confirmation received and processed
+ *       403:
+ *         description: Callback token missing or wrong, or caller address not allowed
+ */
+router.post(
+    '/c2b/confirmation{/:callbackToken}',
+    verifyMpesaCallback,
+    mpesaController.handleC2BConfirmation
+);
+
 /**
  * @swagger
  * /payments/status/{checkoutRequestId}:
  *   get:
  *     tags: [M-Pesa Payments]
  *     summary: Check STK push status
- *     description: Queries the status of a previously initiated STK push payment
+ *     description: |
+ *       Queries the status of a previously initiated STK push payment. Available to members of the chama
+ *       the push was made for. A push that Daraja reports as failed, cancelled or timed out is closed
+ *       without waiting for its callback.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -168,6 +376,8 @@ router.all(
  *                       type: string
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not a member of the chama the push was made for
  *       404:
  *         description: Transaction not found
  */
@@ -238,14 +448,14 @@ router.get(
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       403:
- *         description: Treasurer access required
+ *         description: Treasurer access required, or two-factor confirmation needed (see /auth/2fa/step-up)
  *       500:
  *         description: M-Pesa service error
  */
 router.post(
     '/b2c',
     protect,
-    checkMembership([MembershipRole.TREASURER]),
+    requireStepUp(chamaOfLoan(req => req.body.loanId)),
     mpesaController.disburseLoanB2CController
 );
 
@@ -255,7 +465,9 @@ router.post(
  *   post:
  *     tags: [M-Pesa Payments]
  *     summary: B2C result callback
- *     description: Webhook endpoint for M-Pesa B2C transaction results. Not for direct use.
+ *     description: |
+ *       Webhook endpoint for M-Pesa B2C transaction results. Not for direct use. Each ConversationID is
+ *       processed once; a repeated result is acknowledged and ignored unless processing it failed.
  *     requestBody:
  *       required: true
  *       content:
@@ -275,8 +487,10 @@ router.post(
  *                   type: integer
  *                 ResultDesc:
  *                   type: string
+ *       403:
+ *         description: Callback token missing or wrong, or caller address not allowed
  */
-router.post('/b2c-result', mpesaController.handleB2CResultCallback);
+router.post('/b2c-result{/:callbackToken}', verifyMpesaCallback, mpesaController.handleB2CResultCallback);
 
 /**
  * @swagger
@@ -284,7 +498,9 @@ router.post('/b2c-result', mpesaController.handleB2CResultCallback);
  *   post:
  *     tags: [M-Pesa Payments]
  *     summary: B2C timeout callback
- *     description: Webhook endpoint for M-Pesa B2C timeout notifications. Not for direct use.
+ *     description: |
+ *       Webhook endpoint for M-Pesa B2C timeout notifications. Not for direct use. Each ConversationID is
+ *       processed once; a repeated timeout is acknowledged and ignored unless processing it failed.
  *     requestBody:
  *       required: true
  *       content:
@@ -295,8 +511,10 @@ router.post('/b2c-result', mpesaController.handleB2CResultCallback);
  *     responses:
  *       200:
  *         description: Timeout callback processed
+ *       403:
+ *         description: Callback token missing or wrong, or caller address not allowed
  */
-router.post('/b2c-timeout', mpesaController.handleB2CTimeoutCallback);
+router.post('/b2c-timeout{/:callbackToken}', verifyMpesaCallback, mpesaController.handleB2CTimeoutCallback);
 
 /**
  * @swagger
@@ -402,4 +620,353 @@ router.get(
     mpesaController.getMpesaTransactionsController
 );
 
-export default router;
\ No newline at end of file
+/**
+ * @swagger
+ * /payments/requests/{chamaId}:
+ *   get:
+ *     tags: [M-Pesa Payments]
+ *     summary: Get the M-Pesa request log
+ *     description: |
+ *       Admin/Treasurer only. Returns every STK push made for the chama and every paybill (C2B) payment
+ *       matched to it, newest first, with the request sent, the callback received and each status
+ *       change. Pushes with no callback after `MPESA_STK_TIMEOUT_MINUTES` minutes (5 by default) are
+ *       marked TIMED_OUT.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, COMPLETED, FAILED, CANCELLED, TIMED_OUT, UNMATCHED, ASSIGNED]
+ *       - in: query
+ *         name: channel
+ *         schema:
+ *           type: string
+ *           enum: [STK_PUSH, C2B]
+ *       - in: query
+ *         name: membershipId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: STK push log retrieved successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required
+ */
+router.get(
+    '/requests/:chamaId',
+    protect,
+    checkMembership([MembershipRole.ADMIN, MembershipRole.TREASURER]),
+    mpesaValidator.listMpesaRequestsValidator,
+    mpesaController.getMpesaRequestsController
+);
+
+/**
+ * @swagger
+ * /payments/unmatched/{chamaId}:
+ *   get:
+ *     tags: [M-Pesa Payments]
+ *     summary: Get unmatched payments
+ *     description: |
+ *       Admin/Treasurer only. Returns M-Pesa payments that could not be matched to a contribution, oldest
+ *       first. Payments for unknown pushes are included when they were paid from a member's phone number.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Unmatched payments retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required
+ */
+router.get(
+    '/unmatched/:chamaId',
+    protect,
+    checkMembership([MembershipRole.ADMIN, MembershipRole.TREASURER]),
+    mpesaController.getUnmatchedPaymentsController
+);
+
+/**
+ * @swagger
+ * /payments/unmatched/{chamaId}/{requestId}/assign:
+ *   post:
+ *     tags: [M-Pesa Payments]
+ *     summary: Assign an unmatched payment
+ *     description: |
+ *       Admin/Treasurer only. Records the payment as an M-Pesa contribution by the member, paid on the day
+ *       the money was received, and notifies them.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - membershipId
+ *             properties:
+ *               membershipId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payment assigned successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required
+ *       404:
+ *         description: Payment or member not found
+ *       409:
+ *         description: The payment has already been assigned
+ */
+router.post(
+    '/unmatched/:chamaId/:requestId/assign',
+    protect,
+    checkMembership([MembershipRole.ADMIN, MembershipRole.TREASURER]),
+    mpesaValidator.assignUnmatchedPaymentValidator,
+    mpesaController.assignUnmatchedPaymentController
+);
+
+/**
+ * @swagger
+ * /payments/statements/{chamaId}:
+ *   post:
+ *     tags: [M-Pesa Payments]
+ *     summary: Import an M-Pesa statement
+ *     description: |
+ *       Admin/Treasurer only. Uploads a Safaricom M-Pesa statement exported to CSV and reconciles every
+ *       completed payment on it with the chama's contribution payments and loan repayments by receipt
+ *       number. Lines above the "Receipt No." header are skipped, as are withdrawals, charges and failed
+ *       transactions. Each payment is flagged:
+ *       - MATCHED: recorded for the same amount
+ *       - MISSING: not recorded at all
+ *       - DUPLICATE: on the statement more than once, or recorded both as a contribution and a loan repayment
+ *       - AMOUNT_MISMATCH: recorded for a different amount
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - statementFile
+ *             properties:
+ *               statementFile:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: The reconciliation report, as for GET /payments/statements/{chamaId}/{statementId}
+ *       400:
+ *         description: No file, not an M-Pesa statement, or no completed payments on it
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required
+ */
+router.post(
+    '/statements/:chamaId',
+    protect,
+    checkMembership([MembershipRole.ADMIN, MembershipRole.TREASURER]),
+    uploadCsv.single('statementFile'),
+    mpesaController.uploadStatementController
+);
+
+/**
+ * @swagger
+ * /payments/statements/{chamaId}:
+ *   get:
+ *     tags: [M-Pesa Payments]
+ *     summary: List imported M-Pesa statements
+ *     description: Admin/Treasurer only. Returns the chama's imported statements, newest first, with their line counts.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Statements retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required
+ */
+router.get(
+    '/statements/:chamaId',
+    protect,
+    checkMembership([MembershipRole.ADMIN, MembershipRole.TREASURER]),
+    mpesaController.getStatementsController
+);
+
+/**
+ * @swagger
+ * /payments/statements/{chamaId}/{statementId}:
+ *   get:
+ *     tags: [M-Pesa Payments]
+ *     summary: Get a statement reconciliation report
+ *     description: |
+ *       Admin/Treasurer only. Returns the statement's lines with their status, a count per status in
+ *       `summary`, and in `notOnStatement` the M-Pesa payments recorded in the chama during the
+ *       statement's period whose receipt is not on it.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: statementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get(
+    '/statements/:chamaId/:statementId',
+    protect,
+    checkMembership([MembershipRole.ADMIN, MembershipRole.TREASURER]),
+    mpesaController.getStatementReportController
+);
+
+/**
+ * @swagger
+ * /payments/statements/{chamaId}/{statementId}/lines/{lineId}/resolve:
+ *   post:
+ *     tags: [M-Pesa Payments]
+ *     summary: Resolve a flagged statement line
+ *     description: |
+ *       Admin/Treasurer only. Marks the line RESOLVED after taking the chosen action:
+ *       - CREATE: records a MISSING payment as a contribution, or as a repayment on the member's loan
+ *         (their oldest outstanding loan unless `loanId` is given). A payment waiting in the unmatched
+ *         queue under the same receipt leaves the queue.
+ *       - FIX: corrects the record behind an AMOUNT_MISMATCH. Contributions are corrected in place; a loan
+ *         repayment recorded for too little is topped up with a further repayment for the difference.
+ *       - DISMISS: marks any flagged line as dealt with. A note is required.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: statementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: lineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - action
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [CREATE, FIX, DISMISS]
+ *               type:
+ *                 type: string
+ *                 enum: [CONTRIBUTION, LOAN]
+ *                 description: Required for CREATE
+ *               membershipId:
+ *                 type: string
+ *                 description: Required for CREATE
+ *               loanId:
+ *                 type: string
+ *               note:
+ *                 type: string
+ *                 description: Required for DISMISS
+ *     responses:
+ *       200:
+ *         description: Line resolved
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required
+ *       404:
+ *         description: Line, member or record not found
+ *       409:
+ *         description: The line does not need that action, the receipt is already recorded, or there is no loan to apply it to
+ */
+router.post(
+    '/statements/:chamaId/:statementId/lines/:lineId/resolve',
+    protect,
+    checkMembership([MembershipRole.ADMIN, MembershipRole.TREASURER]),
+    mpesaValidator.resolveStatementLineValidator,
+    mpesaController.resolveStatementLineController
+);
+
+export default router;
@@ -17,7 +17,7 @@ const privilegedRoles = [MembershipRole.ADMIN, MembershipRole.TREASURER, Members
  *   get:
  *     tags: [Reports]
  *     summary: Get financial summary report
- *     description: Returns comprehensive financial overview of the chama. Admin/Treasurer/Secretary only.
+ *     description: Returns comprehensive financial overview of the chama, derived from the general ledger. Admin/Treasurer/Secretary only.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -45,12 +45,17 @@ const privilegedRoles = [MembershipRole.ADMIN, MembershipRole.TREASURER, Members
  *                       example: 500000
  *                     totalPenalties:
  *                       type: number
+ *                     totalInterestIncome:
+ *                       type: number
  *                     totalLoansDisbursed:
  *                       type: number
  *                     totalLoanRepayments:
  *                       type: number
  *                     outstandingLoanPrincipal:
  *                       type: number
+ *                     totalExpenses:
+ *                       type: number
+ *                       description: Approved chama expenses
  *                     netPosition:
  *                       type: number
  *       401:
@@ -213,7 +218,7 @@ router.get(
  *   get:
  *     tags: [Reports]
  *     summary: Get cashflow report
- *     description: Returns detailed cashflow analysis showing inflows, outflows, and net position. Admin/Treasurer/Secretary only.
+ *     description: Returns detailed cashflow analysis showing inflows, outflows, and net position, based on movements in the ledger's cash account. Admin/Treasurer/Secretary only.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -263,6 +268,16 @@ router.get(
  *                       type: number
  *                     netCashflow:
  *                       type: number
+ *                     breakdown:
+ *                       type: object
+ *                       description: Inflows and outflows keyed by journal source type (CONTRIBUTION, LOAN_DISBURSEMENT, LOAN_REPAYMENT, EXPENSE, ...). Approved expenses appear as EXPENSE outflows.
+ *                       additionalProperties:
+ *                         type: object
+ *                         properties:
+ *                           inflows:
+ *                             type: number
+ *                           outflows:
+ *                             type: number
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       403:
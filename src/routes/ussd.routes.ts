@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import ussdHandler from 'africastalking/lib/ussd';
+import * as ussdController from '../controllers/ussd.controller';
+import { verifyUssdCallback } from '../middleware/ussdCallback.middleware';
+import { ussdRateLimiter } from '../middleware/validation.middleware';
+
+const router = Router();
+
+// The handler parses the form body before answering, so the rate limiter goes in between to key on the phone number.
+const [parseForm, parseJson, answer] = ussdHandler(ussdController.handleUssdSession);
+
+/**
+ * @swagger
+ * /ussd:
+ *   post:
+ *     tags: [USSD]
+ *     summary: USSD session callback
+ *     description: >
+ *       Called by Africa's Talking for every step of a USSD session. Members who log in with their phone
+ *       number and PIN enter their PIN, choose a chama if they belong to several, and can then check
+ *       their contribution for the current period, their loan balance and next installment, pay a
+ *       contribution or loan installment by STK push, or see the next meeting. The reply is plain text
+ *       starting with CON when the session continues or END when it is over.
+ *
+ *       When `USSD_CALLBACK_TOKEN` is set the callback URL must end in it, e.g. `/ussd/{callbackToken}`, and
+ *       when `USSD_CALLBACK_ALLOWED_IPS` is set only those addresses may call. Each phone number can make
+ *       30 requests every 5 minutes; after that the session is ended.
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sessionId
+ *               - phoneNumber
+ *             properties:
+ *               sessionId:
+ *                 type: string
+ *                 example: ATUid_0f2a9c7e
+ *               serviceCode:
+ *                 type: string
+ *                 example: "*384*1234#"
+ *               phoneNumber:
+ *                 type: string
+ *                 example: "+254712345678"
+ *               text:
+ *                 type: string
+ *                 description: Everything the member has typed this session, with each reply separated by "*"
+ *                 example: "4821*1"
+ *     responses:
+ *       200:
+ *         description: The next screen
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *               example: "END Paid KES 1500.00 of KES 2000.00 (PARTIALLY PAID)."
+ *       403:
+ *         description: Callback token missing or wrong, or caller address not allowed
+ */
+router.post(
+    '/{:callbackToken}',
+    verifyUssdCallback,
+    parseForm,
+    parseJson,
+    ussdRateLimiter,
+    answer
+);
+
+export default router;
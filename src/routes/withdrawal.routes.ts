@@ -0,0 +1,388 @@
+import { Router } from 'express';
+import { protect } from '../middleware/auth.middleware';
+import { checkMembership } from '../middleware/membership.middleware';
+import { requireStepUp } from '../middleware/stepUp.middleware';
+import * as withdrawalController from '../controllers/withdrawal.controller';
+import * as withdrawalValidator from '../validators/withdrawal.validators';
+import { MembershipRole } from '@prisma/client';
+
+const router = Router();
+router.use(protect);
+
+const allMembers = Object.values(MembershipRole);
+const officerRoles = [MembershipRole.ADMIN, MembershipRole.TREASURER];
+
+/**
+ * @swagger
+ * /withdrawals/{chamaId}:
+ *   post:
+ *     tags: [Withdrawals]
+ *     summary: Request a withdrawal
+ *     description: |
+ *       Asks to take money out of the chama. Admins and treasurers can request on behalf of a member
+ *       by passing `membershipId`.
+ *       - PARTIAL: withdraws `amount` from a withdrawable fund, leaving the fund's minimum balance. Savings
+ *         pledged as guarantor cannot be withdrawn.
+ *       - EXIT: the member leaves the chama. Share capital and every withdrawable fund are refunded in full;
+ *         non-withdrawable funds such as welfare stay with the chama. Not allowed while the member has loan
+ *         applications in progress, guarantees on outstanding loans, or loans larger than the refund.
+ *
+ *       Unpaid contribution penalties and then outstanding loans are deducted from the payout. The payout
+ *       becomes available once the longest notice period among the funds involved has passed.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: cmdjw3rr50002cuhv9312yj79
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [PARTIAL, EXIT]
+ *               fundId:
+ *                 type: string
+ *                 description: Required for PARTIAL
+ *               amount:
+ *                 type: number
+ *                 example: 5000
+ *                 description: Required for PARTIAL
+ *               reason:
+ *                 type: string
+ *               membershipId:
+ *                 type: string
+ *                 description: Admin/Treasurer only. Defaults to the caller.
+ *     responses:
+ *       201:
+ *         description: Withdrawal submitted for approval, with the settlement it would pay today
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     type:
+ *                       type: string
+ *                       enum: [PARTIAL, EXIT]
+ *                     status:
+ *                       type: string
+ *                       example: PENDING
+ *                     availableFrom:
+ *                       type: string
+ *                       format: date-time
+ *                     settlement:
+ *                       type: object
+ *                       properties:
+ *                         lines:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               fundId:
+ *                                 type: string
+ *                               name:
+ *                                 type: string
+ *                               amount:
+ *                                 type: number
+ *                         grossAmount:
+ *                           type: number
+ *                         penaltyOffset:
+ *                           type: number
+ *                         loanOffset:
+ *                           type: number
+ *                         netAmount:
+ *                           type: number
+ *                         outstandingLoans:
+ *                           type: number
+ *       400:
+ *         description: Validation error, the fund does not allow withdrawals, or the amount is more than can be withdrawn
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Only an admin or treasurer can request for another member
+ *       404:
+ *         description: Fund or member not found
+ *       409:
+ *         description: A withdrawal is already in progress, or the member cannot exit yet
+ */
+router.post(
+    '/:chamaId',
+    checkMembership(allMembers),
+    withdrawalValidator.requestWithdrawalValidator,
+    withdrawalController.requestWithdrawal
+);
+
+/**
+ * @swagger
+ * /withdrawals/{chamaId}:
+ *   get:
+ *     tags: [Withdrawals]
+ *     summary: List withdrawals
+ *     description: Returns the chama's withdrawals, newest first.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED, PROCESSING, PAID, FAILED]
+ *       - in: query
+ *         name: membershipId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Withdrawals retrieved successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not an active member of this chama
+ */
+router.get(
+    '/:chamaId',
+    checkMembership(allMembers),
+    withdrawalValidator.listWithdrawalsValidator,
+    withdrawalController.getChamaWithdrawals
+);
+
+/**
+ * @swagger
+ * /withdrawals/{chamaId}/members/{membershipId}/statement:
+ *   get:
+ *     tags: [Withdrawals]
+ *     summary: Download a member statement
+ *     description: |
+ *       Returns a PDF of the member's fund balances, contributions, loans and withdrawals. Used as the
+ *       final statement when a member exits. Members can only download their own; admins and
+ *       treasurers can download anyone's, including members who have left.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: membershipId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The statement PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Members can only view their own statement
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get(
+    '/:chamaId/members/:membershipId/statement',
+    checkMembership(allMembers),
+    withdrawalController.getMemberStatement
+);
+
+/**
+ * @swagger
+ * /withdrawals/{chamaId}/{withdrawalId}:
+ *   get:
+ *     tags: [Withdrawals]
+ *     summary: Get a withdrawal
+ *     description: |
+ *       Returns a withdrawal. Until it is paid out, `settlement` shows what it would pay as things stand,
+ *       or `blockedReason` explains why it cannot be paid right now.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: withdrawalId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Withdrawal retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not an active member of this chama
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get(
+    '/:chamaId/:withdrawalId',
+    checkMembership(allMembers),
+    withdrawalController.getWithdrawal
+);
+
+/**
+ * @swagger
+ * /withdrawals/{chamaId}/{withdrawalId}/review:
+ *   put:
+ *     tags: [Withdrawals]
+ *     summary: Approve or reject a withdrawal
+ *     description: |
+ *       Admin/Treasurer only. Members cannot review their own withdrawals. A withdrawal that has been
+ *       approved but not paid out, or whose M-Pesa payout failed, can still be rejected.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: withdrawalId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *               reviewNotes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Withdrawal reviewed successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required, or the reviewer requested the withdrawal
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The withdrawal can no longer be approved or rejected
+ */
+router.put(
+    '/:chamaId/:withdrawalId/review',
+    checkMembership(officerRoles),
+    withdrawalValidator.reviewWithdrawalValidator,
+    withdrawalController.reviewWithdrawal
+);
+
+/**
+ * @swagger
+ * /withdrawals/{chamaId}/{withdrawalId}/pay:
+ *   post:
+ *     tags: [Withdrawals]
+ *     summary: Pay out an approved withdrawal
+ *     description: |
+ *       Admin/Treasurer only, once the notice period has passed. The settlement is worked out again and
+ *       taken out of the member's fund balances.
+ *       - Loans recovered from the payout are recorded as repayments on the member's oldest loans, and a
+ *         negative WITHDRAWAL transaction is written for what the member receives
+ *       - Without `sendViaMpesa` the withdrawal is recorded as paid
+ *       - With `sendViaMpesa` the net amount is sent to the member's phone by M-Pesa B2C; the withdrawal stays
+ *         PROCESSING until the B2C result callback settles it, and a failed payout can be retried
+ *       - Paying an EXIT withdrawal closes the membership. The member's history is kept.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chamaId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: withdrawalId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               paymentMethod:
+ *                 type: string
+ *                 example: CASH
+ *               mpesaCode:
+ *                 type: string
+ *                 description: Reference for a payout already made outside the API
+ *               sendViaMpesa:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Withdrawal paid, or M-Pesa payout initiated
+ *       400:
+ *         description: Validation error, the notice period has not passed, or the member's balance has changed
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Admin or Treasurer access required, or two-factor confirmation needed (see /auth/2fa/step-up)
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The withdrawal is not approved, the M-Pesa code was already used, or the member cannot exit yet
+ *       502:
+ *         description: The M-Pesa B2C request failed
+ */
+router.post(
+    '/:chamaId/:withdrawalId/pay',
+    checkMembership(officerRoles),
+    requireStepUp(),
+    withdrawalValidator.payWithdrawalValidator,
+    withdrawalController.payWithdrawal
+);
+
+export default router;
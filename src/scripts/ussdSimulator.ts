@@ -0,0 +1,51 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import axios from 'axios';
+import crypto from 'crypto';
+import readline from 'readline/promises';
+
+/**
+ * Plays a USSD session against a running API from the terminal, posting to /api/ussd the way
+ * Africa's Talking does, so the menu can be tried without a phone or the Africa's Talking simulator.
+ *
+ *   npm run ussd:simulator -- +254712345678
+ *
+ * USSD_SIMULATOR_URL overrides the endpoint (http://localhost:$PORT/api/ussd by default, followed by
+ * USSD_CALLBACK_TOKEN when it is set). Pair it with PAYMENT_PROVIDER=simulator to try payments offline too.
+ */
+const callbackToken = process.env.USSD_CALLBACK_TOKEN ? `/${process.env.USSD_CALLBACK_TOKEN}` : '';
+const url = process.env.USSD_SIMULATOR_URL || `http://localhost:${process.env.PORT || '3000'}/api/ussd${callbackToken}`;
+const serviceCode = '*384*1234#';
+
+const main = async () => {
+  const terminal = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const phoneNumber = process.argv[2] || await terminal.question('Phone number: ');
+  const sessionId = `SIM_${crypto.randomBytes(6).toString('hex')}`;
+  const replies: string[] = [];
+
+  console.log(`Dialling ${serviceCode} from ${phoneNumber}\n`);
+
+  try {
+    for (;;) {
+      const body = new URLSearchParams({ sessionId, serviceCode, phoneNumber, networkCode: '63902', text: replies.join('*') });
+      const { data } = await axios.post<string>(url, body.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        responseType: 'text',
+      });
+
+      console.log(data.slice(4));
+      if (!data.startsWith('CON ')) break;
+
+      replies.push(await terminal.question('> '));
+      console.log();
+    }
+  } finally {
+    terminal.close();
+  }
+};
+
+main().catch((error) => {
+  console.error(axios.isAxiosError(error) ? `Could not reach ${url}: ${error.message}` : error);
+  process.exit(1);
+});
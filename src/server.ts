@@ -15,15 +15,24 @@ import chamaRoutes from './routes/chama.routes';
 import contributionRoutes from './routes/contribution.routes';
 import loanRoutes from './routes/loan.routes';
 import reportRoutes from './routes/report.routes';
+import ledgerRoutes from './routes/ledger.routes';
+import merryGoRoundRoutes from './routes/merryGoRound.routes';
+import expenseRoutes from './routes/expense.routes';
+import fundRoutes from './routes/fund.routes';
+import withdrawalRoutes from './routes/withdrawal.routes';
+import dividendRoutes from './routes/dividend.routes';
 import mpesaRoutes from './routes/mpesa.routes';
 import meetingRoutes from './routes/meeting.routes';
 import notificationRoutes from './routes/notification.routes';
 import fileRoutes from './routes/files.routes';
 import auditRoutes from './routes/audit.routes';
+import ussdRoutes from './routes/ussd.routes';
 import { WebSocketServer } from './websocket.server';
 import { createServer } from 'http';
 import { errorHandler } from './middleware/error.middleware';
 import swaggerDocs from './utils/swagger';
+import { startLoanOverdueJob } from './jobs/loanOverdue.job';
+import { startStkTimeoutJob } from './jobs/stkTimeout.job';
 
 export const app = express();
 export const server = createServer(app);
@@ -32,6 +41,12 @@ new WebSocketServer(server);
 
 const PORT = parseInt(process.env.PORT || '3000', 10);
 
+// Behind a load balancer, req.ip is the caller's address (e.g. for the M-Pesa callback allowlist) only once the proxy is trusted.
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy === 'true' || trustProxy);
+}
+
 app.use(pinoHttp({
   logger,
   customLogLevel: (req, res, err) => {
@@ -82,11 +97,18 @@ app.use('/api/chamas', chamaRoutes);
 app.use('/api/contributions', contributionRoutes);
 app.use('/api/loans', loanRoutes);
 app.use('/api/reports', reportRoutes);
+app.use('/api/ledger', ledgerRoutes);
+app.use('/api/merry-go-round', merryGoRoundRoutes);
+app.use('/api/expenses', expenseRoutes);
+app.use('/api/funds', fundRoutes);
+app.use('/api/withdrawals', withdrawalRoutes);
+app.use('/api/dividends', dividendRoutes);
 app.use('/api/payments', mpesaRoutes);
 app.use('/api/meetings', meetingRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/files', fileRoutes);
 app.use('/api/audit', auditRoutes);
+app.use('/api/ussd', ussdRoutes);
 
 app.get('/health', (req, res) => {
   res.json({ status: 'healthy', timestamp: new Date().toISOString() });
@@ -110,4 +132,9 @@ server.listen(PORT, () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info('WebSocket server initialized');
   swaggerDocs(app, PORT);
+
+  if (process.env.NODE_ENV !== 'test') {
+    startLoanOverdueJob();
+    startStkTimeoutJob();
+  }
 });
\ No newline at end of file
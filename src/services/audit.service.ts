@@ -6,7 +6,7 @@ const prisma = new PrismaClient();
 
 interface AuditLogData {
   action: AuditAction;
-  actorId: string;
+  actorId: string | null; // null for changes made by scheduled jobs rather than a user
   targetId?: string;
   chamaId?: string;
   contributionId?: string;
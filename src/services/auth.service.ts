@@ -1,15 +1,27 @@
-import { PrismaClient, User } from '@prisma/client';
+import { AuditAction, PrismaClient, SessionRevocation, TwoFactorMethod, User } from '@prisma/client';
 import bcrypt from 'bcrypt';
 import logger from '../config/logger';
-import { generateRefreshToken, generateToken } from '../utils/jwt.utils';
 import { parsePhoneNumberFromString } from 'libphonenumber-js';
 import { sendEmail } from './notification.service';
 import crypto from 'crypto';
 import { AppError } from '../utils/customErrors';
+import { describePasswordProblems, passwordPolicy } from '../utils/password.utils';
+import { createAuditLog } from './audit.service';
+import { ClientInfo, createSession, hasRecentStepUp, revokeAllSessions, stepUpWindowMinutes } from './session.service';
+import { checkPhoneVerificationCode, sendPhoneVerificationCode, startLoginChallenge } from './twoFactor.service';
 
 const prisma = new PrismaClient();
 
 
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MINUTES = 30;
+
+// Wrong passwords in a row before an account is locked, and how long the first lockout lasts. Each
+// further wrong password doubles the lockout, up to the maximum, until the user logs in.
+const maxLoginAttempts = () => parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5', 10);
+const loginLockoutMinutes = () => parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10);
+const maxLoginLockoutMinutes = () => parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || '1440', 10);
+
 const generateSecureToken = () => crypto.randomBytes(32).toString('hex');
 
 const hashPassword = async (password: string): Promise<string> => {
@@ -17,6 +29,61 @@ const hashPassword = async (password: string): Promise<string> => {
   return bcrypt.hash(password, salt);
 };
 
+const normalizePhone = (phone: string) => {
+  const phoneNumber = parsePhoneNumberFromString(phone, 'KE');
+  if (!phoneNumber || !phoneNumber.isValid()) {
+    logger.warn({ phone }, 'Invalid phone number format');
+    throw new AppError('Invalid Kenyan phone number format', 400);
+  }
+  return phoneNumber.format('E.164');
+};
+
+const minutesUntil = (date: Date) => {
+  const minutes = Math.ceil((date.getTime() - Date.now()) / 60000);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+const assertStrongPassword = (password: string) => {
+  const problems = describePasswordProblems(password);
+  if (problems) {
+    throw new AppError(problems, 400);
+  }
+};
+
+/**
+ * Refuses a new password that matches the user's current password or one of their recent ones
+ * (PASSWORD_HISTORY_COUNT in all).
+ */
+const assertPasswordNotReused = async (user: User, newPassword: string) => {
+  const { historyCount } = passwordPolicy();
+  if (historyCount <= 0) return;
+
+  const previous = await prisma.passwordHistory.findMany({
+    where: { userId: user.id },
+    orderBy: { createdAt: 'desc' },
+    take: historyCount - 1,
+    select: { password: true },
+  });
+
+  for (const hash of [user.password, ...previous.map(entry => entry.password)]) {
+    if (hash && await bcrypt.compare(newPassword, hash)) {
+      logger.warn({ userId: user.id }, 'Password reset refused: password reused');
+      throw new AppError(historyCount === 1
+        ? 'Your new password must be different from your current password.'
+        : `Your new password must be different from your last ${historyCount} passwords.`, 400);
+    }
+  }
+};
+
+const auditLogin = (action: AuditAction, userId: string | null, client: ClientInfo, details: object) => createAuditLog({
+  action,
+  actorId: userId,
+  targetId: userId ?? undefined,
+  newValue: details,
+  ipAddress: client.ipAddress,
+  userAgent: client.userAgent,
+});
+
 /**
  * Service to register a new user, generate a verification token, and send a verification email.
  */
@@ -34,12 +101,8 @@ export const registerUser = async (userData: any): Promise<Partial<User>> => {
     throw new AppError('User with this email, phone, or ID number already exists', 400);
   }
 
-  const phoneNumber = parsePhoneNumberFromString(phone, 'KE');
-  if (!phoneNumber || !phoneNumber.isValid()) {
-    logger.warn({ phone }, 'Invalid phone number format');
-    throw new AppError('Invalid Kenyan phone number format', 400);
-  }
-  const normalizedPhone = phoneNumber.format('E.164');
+  const normalizedPhone = normalizePhone(phone);
+  assertStrongPassword(password);
 
   const hashedPassword = await hashPassword(password);
   const emailVerificationToken = generateSecureToken();
@@ -75,7 +138,7 @@ export const registerUser = async (userData: any): Promise<Partial<User>> => {
 /**
  * Verifies a user's email using a token.
  */
-export const verifyUserEmail = async (token: string): Promise<Partial<User>> => {
+export const verifyUserEmail = async (token: string, client: ClientInfo = {}): Promise<Partial<User>> => {
     logger.info('Attempting to verify user email');
 
     const user = await prisma.user.findUnique({ where: { emailVerificationToken: token } });
@@ -94,51 +157,279 @@ export const verifyUserEmail = async (token: string): Promise<Partial<User>> =>
         select: { id: true, email: true, isEmailVerified: true }
     });
 
+    await createAuditLog({
+        action: AuditAction.EMAIL_VERIFIED,
+        actorId: user.id,
+        targetId: user.id,
+        newValue: { email: verifiedUser.email },
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+    });
+
     logger.info({ userId: verifiedUser.id, email: verifiedUser.email }, 'Email verified successfully');
 
     return verifiedUser;
 };
 
 /**
- * Service to log in a user, but only if their email is verified.
+ * Starts a session for a user whose credentials have been checked, or, when they have two-factor
+ * authentication on, a challenge for their second factor.
+ */
+const startLogin = async (user: User, client: ClientInfo): Promise<any> => {
+    if (user.twoFactorMethod) {
+        return startLoginChallenge(user);
+    }
+
+    const { accessToken, refreshToken } = await createSession(user.id, client);
+
+    return {
+        accessToken,
+        refreshToken,
+        user: {
+            id: user.id,
+            email: user.email,
+            firstName: user.firstName,
+            lastName: user.lastName,
+        },
+    };
+};
+
+/**
+ * Counts a wrong password against the account. Once LOGIN_MAX_ATTEMPTS wrong passwords have been
+ * entered in a row, the account is locked for LOGIN_LOCKOUT_MINUTES, and every further wrong password
+ * locks it again for twice as long as the time before, up to LOGIN_LOCKOUT_MAX_MINUTES.
+ * @throws AppError (429) when this attempt locks the account.
+ */
+const recordFailedLogin = async (user: User) => {
+    const { failedLoginAttempts } = await prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: { increment: 1 } },
+        select: { failedLoginAttempts: true },
+    });
+
+    const lockouts = failedLoginAttempts - maxLoginAttempts();
+    if (lockouts < 0) {
+        logger.warn({ userId: user.id, failedLoginAttempts }, 'Login failed: incorrect password');
+        return;
+    }
+
+    const minutes = Math.min(loginLockoutMinutes() * 2 ** lockouts, maxLoginLockoutMinutes());
+    const lockedUntil = new Date(Date.now() + minutes * 60 * 1000);
+    await prisma.user.update({ where: { id: user.id }, data: { lockedUntil } });
+
+    logger.warn({ userId: user.id, failedLoginAttempts, minutes }, 'Login failed: incorrect password. Account locked');
+    throw new AppError(`Too many failed login attempts. Try again in ${minutesUntil(lockedUntil)}.`, 429);
+};
+
+/**
+ * Service to log in a user, but only if their email is verified. Starts a session for the device, or,
+ * when the user has two-factor authentication on, a challenge for their second factor. Wrong passwords
+ * lock the account for longer and longer (see `recordFailedLogin`), and every attempt is audited.
  */
-export const loginUser = async (email: string, password: string): Promise<any> => {
+export const loginUser = async (email: string, password: string, client: ClientInfo = {}): Promise<any> => {
     logger.info({ email }, 'Login attempt');
 
     const user = await prisma.user.findUnique({ where: { email } });
 
     if (!user) {
         logger.warn({ email }, 'Login failed: user not found');
+        await auditLogin(AuditAction.LOGIN_FAILED, null, client, { email, reason: 'UNKNOWN_USER' });
         throw new AppError('Invalid credentials', 401);
     }
 
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+        logger.warn({ userId: user.id, email }, 'Login refused: account locked');
+        await auditLogin(AuditAction.LOGIN_FAILED, user.id, client, { email, reason: 'ACCOUNT_LOCKED' });
+        throw new AppError(`Too many failed login attempts. Try again in ${minutesUntil(user.lockedUntil)}.`, 429);
+    }
+
     if (!user.isEmailVerified) {
         logger.warn({ userId: user.id, email }, 'Login failed: email not verified');
+        await auditLogin(AuditAction.LOGIN_FAILED, user.id, client, { email, reason: 'EMAIL_NOT_VERIFIED' });
         throw new AppError('Please verify your email address before logging in', 401);
     }
 
-    const isMatch = await bcrypt.compare(password, user.password);
+    const isMatch = !!user.password && await bcrypt.compare(password, user.password);
     if (!isMatch) {
-        logger.warn({ userId: user.id, email }, 'Login failed: incorrect password');
+        await auditLogin(AuditAction.LOGIN_FAILED, user.id, client, { email, reason: 'WRONG_PASSWORD' });
+        await recordFailedLogin(user);
         throw new AppError('Invalid credentials', 401);
     }
 
-    const payload = { id: user.id };
-    const accessToken = generateToken(payload);
-    const refreshToken = generateRefreshToken(payload);
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+        await prisma.user.update({ where: { id: user.id }, data: { failedLoginAttempts: 0, lockedUntil: null } });
+    }
 
-    logger.info({ userId: user.id, email }, 'Login successful');
+    const data = await startLogin(user, client);
 
-    return {
-        accessToken,
-        refreshToken,
-        user: {
-            id: user.id,
-            email: user.email,
-            firstName: user.firstName,
-            lastName: user.lastName,
-        },
-    };
+    logger.info({ userId: user.id, email }, data.twoFactorRequired ? 'Login awaiting second factor' : 'Login successful');
+
+    return data;
+};
+
+/**
+ * Registers a member who signs in with their phone number and a PIN instead of an email and password.
+ * The account has no email, and can only be used once the code texted to the phone has been entered
+ * at `verifyPhoneNumber`.
+ */
+export const registerPhoneUser = async (userData: { phone: string; pin: string; firstName: string; lastName: string; idNumber: string }): Promise<Partial<User>> => {
+    const { pin, firstName, lastName, idNumber } = userData;
+    const phone = normalizePhone(userData.phone);
+
+    logger.info({ phone, idNumber }, 'Attempting to register user by phone');
+
+    const existingUser = await prisma.user.findFirst({
+        where: { OR: [{ phone }, { idNumber }] },
+    });
+
+    if (existingUser) {
+        logger.warn({ phone, idNumber }, 'Registration failed: user already exists');
+        throw new AppError('User with this phone or ID number already exists', 400);
+    }
+
+    const newUser = await prisma.user.create({
+        data: { phone, firstName, lastName, idNumber, pin: await hashPassword(pin) },
+        select: { id: true, phone: true, firstName: true, lastName: true, role: true },
+    });
+
+    await sendPhoneVerificationCode(newUser);
+
+    logger.info({ userId: newUser.id, phone }, 'User registered by phone. Verification code sent');
+
+    return newUser;
+};
+
+/**
+ * Texts a new verification code to a phone number that has not been verified yet. Says nothing about
+ * whether the number is registered.
+ */
+export const resendPhoneVerification = async (phone: string) => {
+    const user = await prisma.user.findUnique({ where: { phone: normalizePhone(phone) } });
+
+    if (!user || !user.pin || user.isPhoneVerified) {
+        logger.warn({ phone }, 'Phone verification code not resent: no unverified phone account');
+        return;
+    }
+
+    await sendPhoneVerificationCode(user);
+    logger.info({ userId: user.id }, 'Phone verification code resent');
+};
+
+/**
+ * Verifies a phone number with the code texted to it.
+ */
+export const verifyPhoneNumber = async (phone: string, code: string): Promise<Partial<User>> => {
+    const user = await prisma.user.findUnique({ where: { phone: normalizePhone(phone) } });
+
+    if (!user || user.isPhoneVerified || !(await checkPhoneVerificationCode(user.id, code))) {
+        logger.warn({ phone }, 'Phone verification failed: invalid or expired code');
+        throw new AppError('Invalid or expired verification code', 400);
+    }
+
+    const verifiedUser = await prisma.user.update({
+        where: { id: user.id },
+        data: { isPhoneVerified: true },
+        select: { id: true, phone: true, isPhoneVerified: true },
+    });
+
+    logger.info({ userId: user.id }, 'Phone number verified successfully');
+
+    return verifiedUser;
+};
+
+/**
+ * Checks a phone account's PIN. After MAX_PIN_ATTEMPTS wrong PINs in a row, the phone number is locked
+ * out for PIN_LOCKOUT_MINUTES minutes, whichever channel or IP address the attempts come from.
+ * @returns Whether the PIN is right.
+ * @throws AppError (429) while the phone number is locked out, including by this attempt.
+ */
+export const verifyPin = async (user: User, pin: string): Promise<boolean> => {
+    if (user.pinLockedUntil && user.pinLockedUntil > new Date()) {
+        const minutesLeft = Math.ceil((user.pinLockedUntil.getTime() - Date.now()) / 60000);
+        logger.warn({ userId: user.id }, 'PIN refused: phone locked out');
+        throw new AppError(`Too many wrong PINs. Try again in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}.`, 429);
+    }
+
+    if (!user.pin || !(await bcrypt.compare(pin, user.pin))) {
+        const { failedPinAttempts } = await prisma.user.update({
+            where: { id: user.id },
+            data: { failedPinAttempts: { increment: 1 } },
+            select: { failedPinAttempts: true },
+        });
+
+        if (failedPinAttempts >= MAX_PIN_ATTEMPTS) {
+            await prisma.user.update({
+                where: { id: user.id },
+                data: { failedPinAttempts: 0, pinLockedUntil: new Date(Date.now() + PIN_LOCKOUT_MINUTES * 60 * 1000) },
+            });
+            logger.warn({ userId: user.id }, 'Wrong PIN: phone locked out');
+            throw new AppError(`Too many wrong PINs. Try again in ${PIN_LOCKOUT_MINUTES} minutes.`, 429);
+        }
+
+        logger.warn({ userId: user.id, failedPinAttempts }, 'Wrong PIN');
+        return false;
+    }
+
+    if (user.failedPinAttempts > 0 || user.pinLockedUntil) {
+        await prisma.user.update({ where: { id: user.id }, data: { failedPinAttempts: 0, pinLockedUntil: null } });
+    }
+    return true;
+};
+
+/**
+ * Logs in a phone account with its PIN. Wrong PINs count towards the phone's lockout (see `verifyPin`).
+ */
+export const loginWithPin = async (phone: string, pin: string, client: ClientInfo = {}): Promise<any> => {
+    const normalizedPhone = normalizePhone(phone);
+    logger.info({ phone: normalizedPhone }, 'PIN login attempt');
+
+    const user = await prisma.user.findUnique({ where: { phone: normalizedPhone } });
+
+    if (!user || !user.pin) {
+        logger.warn({ phone: normalizedPhone }, 'PIN login failed: no phone account');
+        await auditLogin(AuditAction.LOGIN_FAILED, user?.id ?? null, client, { phone: normalizedPhone, reason: 'NO_PHONE_ACCOUNT' });
+        throw new AppError('Invalid credentials', 401);
+    }
+
+    if (!user.isPhoneVerified) {
+        logger.warn({ userId: user.id }, 'PIN login failed: phone not verified');
+        await auditLogin(AuditAction.LOGIN_FAILED, user.id, client, { phone: normalizedPhone, reason: 'PHONE_NOT_VERIFIED' });
+        throw new AppError('Please verify your phone number before logging in', 401);
+    }
+
+    let isMatch: boolean;
+    try {
+        isMatch = await verifyPin(user, pin);
+    } catch (error) {
+        await auditLogin(AuditAction.LOGIN_FAILED, user.id, client, { phone: normalizedPhone, reason: 'ACCOUNT_LOCKED' });
+        throw error;
+    }
+    if (!isMatch) {
+        await auditLogin(AuditAction.LOGIN_FAILED, user.id, client, { phone: normalizedPhone, reason: 'WRONG_PIN' });
+        throw new AppError('Invalid credentials', 401);
+    }
+
+    const data = await startLogin(user, client);
+
+    logger.info({ userId: user.id }, data.twoFactorRequired ? 'PIN login awaiting second factor' : 'PIN login successful');
+
+    return data;
+};
+
+/**
+ * Drops the passwords the reuse check no longer looks at.
+ */
+const prunePasswordHistory = async (userId: string) => {
+    const stale = await prisma.passwordHistory.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        skip: Math.max(passwordPolicy().historyCount - 1, 0),
+        select: { id: true },
+    });
+
+    if (stale.length > 0) {
+        await prisma.passwordHistory.deleteMany({ where: { id: { in: stale.map(entry => entry.id) } } });
+    }
 };
 
 /**
@@ -165,7 +456,7 @@ export const requestPasswordReset = async (email: string) => {
 
     const resetLink = `${process.env.FRONTEND_URL}/reset-password?token=${passwordResetToken}`;
     await sendEmail(
-        user.email,
+        user.email!,
         'Password Reset Request',
         `<p>You requested a password reset for your Chama App account. Click the link below to set a new password:</p>
          <a href="${resetLink}">${resetLink}</a>
@@ -176,9 +467,11 @@ export const requestPasswordReset = async (email: string) => {
 };
 
 /**
- * Resets a user's password using a valid token and new password.
+ * Resets a user's password using a valid token and new password, and signs the user out everywhere.
+ * The new password has to meet the password policy and must not be one the user has had recently.
+ * Resetting the password also lifts a login lockout.
  */
-export const resetUserPassword = async (token: string, newPassword: string): Promise<Partial<User>> => {
+export const resetUserPassword = async (token: string, newPassword: string, client: ClientInfo = {}): Promise<Partial<User>> => {
     logger.info('Attempting password reset');
 
     const user = await prisma.user.findFirst({
@@ -193,6 +486,9 @@ export const resetUserPassword = async (token: string, newPassword: string): Pro
         throw new AppError('Invalid or expired password reset token', 400);
     }
 
+    assertStrongPassword(newPassword);
+    await assertPasswordNotReused(user, newPassword);
+
     const hashedPassword = await hashPassword(newPassword);
 
     const updatedUser = await prisma.user.update({
@@ -201,10 +497,28 @@ export const resetUserPassword = async (token: string, newPassword: string): Pro
             password: hashedPassword,
             passwordResetToken: null,
             passwordResetTokenExpires: null,
+            failedLoginAttempts: 0,
+            lockedUntil: null,
         },
         select: { id: true, email: true }
     });
 
+    if (user.password) {
+        await prisma.passwordHistory.create({ data: { userId: user.id, password: user.password } });
+    }
+    await prunePasswordHistory(user.id);
+
+    // Whoever knew the old password may still be signed in
+    await revokeAllSessions(updatedUser.id, SessionRevocation.PASSWORD_RESET);
+
+    await createAuditLog({
+        action: AuditAction.PASSWORD_RESET,
+        actorId: user.id,
+        targetId: user.id,
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+    });
+
     logger.info({ userId: updatedUser.id, email: updatedUser.email }, 'Password reset successful');
 
     return updatedUser;
@@ -236,11 +550,30 @@ export const getUserProfile = async (userId: string): Promise<Partial<User> | nu
     return user;
 };
 
-export const updateUserProfile = async (userId: string, data: Partial<User>): Promise<Partial<User>> => {
+export type ProfileUpdate = Partial<Pick<User, 'firstName' | 'lastName' | 'email' | 'phone'>>;
+
+/**
+ * Updates the user's name and contact details. Nothing else about the account can be changed here.
+ * While the user's second factor is SMS, the phone number it is sent to can only be changed on a
+ * session that has stepped up within the last TWO_FACTOR_STEP_UP_MINUTES minutes.
+ * @throws AppError (403) when the phone number of an SMS two-factor user changes without a recent step-up.
+ */
+export const updateUserProfile = async (userId: string, data: ProfileUpdate, sessionId?: string): Promise<Partial<User>> => {
     logger.info({ userId }, 'Updating user profile');
 
-    const { password, ...updateData } = data;
-    
+    const { firstName, lastName, email } = data;
+    const phone = data.phone !== undefined ? normalizePhone(data.phone) : undefined;
+    const updateData = { firstName, lastName, email, phone };
+
+    if (phone !== undefined) {
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { phone: true, twoFactorMethod: true } });
+        const movesSecondFactor = user?.twoFactorMethod === TwoFactorMethod.SMS && user.phone !== phone;
+        if (movesSecondFactor && !(sessionId && await hasRecentStepUp(sessionId, stepUpWindowMinutes()))) {
+            logger.warn({ userId }, 'Profile update refused: phone change needs step-up');
+            throw new AppError('Your verification codes are sent to this phone number. Confirm your two-factor code at POST /api/auth/2fa/step-up before changing it.', 403);
+        }
+    }
+
     const updatedUser = await prisma.user.update({
         where: { id: userId },
         data: updateData,
@@ -1,16 +1,27 @@
-import { Chama, Membership, MembershipRole, AuditAction, PrismaClient } from '@prisma/client';
+import { Chama, ChamaInvitation, ChamaSettings, ContributionFrequency, ContributionPenaltyType, Membership, MembershipRole, AuditAction, InvitationStatus, InterestMethod, PenaltyPeriod, Prisma, PrismaClient } from '@prisma/client';
 import { add } from 'date-fns';
+import crypto from 'crypto';
 import { createAuditLog } from './audit.service';
+import { sendChamaInvitationEmail } from './notification.service';
+import { AppError } from '../utils/customErrors';
+import { parseMeetingWeekday } from '../utils/period.utils';
 import logger from '../config/logger';
 
 const prisma = new PrismaClient();
 
+const INVITATION_VALIDITY_DAYS = 7;
+
 interface ChamaCreationData {
   name: string;
   description?: string;
   monthlyContribution: number;
   meetingDay: string;
   constitutionUrl?: string;
+  loanInterestMethod?: InterestMethod;
+  loanGracePeriodDays?: number;
+  loanPenaltyRate?: number;
+  loanPenaltyPeriod?: PenaltyPeriod;
+  loanDefaultAfter?: number;
 }
 
 const generateRegistrationNumber = (): string => {
@@ -19,6 +30,20 @@ const generateRegistrationNumber = (): string => {
     return `${prefix}-${randomNumber}`;
 };
 
+const createId = (): string => crypto.randomBytes(16).toString('hex');
+
+/**
+ * Emails the invitation code to the invitee. Failures are logged rather than thrown
+ * so that an SMTP outage does not roll back an otherwise valid invitation.
+ */
+const notifyInvitee = async (email: string, chamaName: string, inviterName: string, code: string) => {
+    try {
+        await sendChamaInvitationEmail(email, chamaName, inviterName, code);
+    } catch (error) {
+        logger.warn({ error, email }, 'Invitation created but email could not be sent');
+    }
+};
+
 export const createChamaAndFirstMember = async (data: ChamaCreationData, creatorId: string): Promise<Chama> => {
   logger.info({ creatorId, chamaName: data.name }, 'Creating new chama');
 
@@ -45,6 +70,15 @@ export const createChamaAndFirstMember = async (data: ChamaCreationData, creator
         constitutionUrl: data.constitutionUrl,
         totalMembers: 1,
         registrationNumber: uniqueRegistrationNumber,
+        settings: {
+          create: {
+            loanInterestMethod: data.loanInterestMethod,
+            loanGracePeriodDays: data.loanGracePeriodDays,
+            loanPenaltyRate: data.loanPenaltyRate,
+            loanPenaltyPeriod: data.loanPenaltyPeriod,
+            loanDefaultAfter: data.loanDefaultAfter,
+          },
+        },
       },
     });
 
@@ -152,6 +186,58 @@ export const updateChamaDetails = async (chamaId: string, actorId: string, data:
     return updatedChama;
 };
 
+/**
+ * Returns a chama's bylaw settings, creating them with the defaults if the chama has none yet.
+ */
+export const getChamaSettings = async (chamaId: string): Promise<ChamaSettings> => {
+    return prisma.chamaSettings.upsert({
+        where: { chamaId },
+        update: {},
+        create: { chamaId },
+    });
+};
+
+type ChamaSettingsUpdate = Partial<Omit<ChamaSettings, 'id' | 'chamaId' | 'updatedAt'>>;
+
+export const updateChamaSettings = async (chamaId: string, actorId: string, data: ChamaSettingsUpdate) => {
+    logger.info({ chamaId, actorId, fields: Object.keys(data) }, 'Updating chama settings');
+
+    const oldValue = await getChamaSettings(chamaId);
+
+    // A percentage penalty is a fraction of the contribution, so it cannot exceed the whole of it.
+    const penaltyType = data.penaltyType ?? oldValue.penaltyType;
+    const penaltyAmount = data.penaltyAmount ?? oldValue.penaltyAmount;
+    if (penaltyType === ContributionPenaltyType.PERCENTAGE && penaltyAmount > 1) {
+        throw new AppError('A percentage penalty must be a decimal between 0 and 1 (e.g., 0.05 for 5%).', 400);
+    }
+
+    // Weekly and bi-weekly periods end on the meeting day, so it has to name a weekday.
+    const frequency = data.contributionFrequency ?? oldValue.contributionFrequency;
+    if (frequency === ContributionFrequency.WEEKLY || frequency === ContributionFrequency.BIWEEKLY) {
+        const chama = await prisma.chama.findUnique({ where: { id: chamaId }, select: { meetingDay: true } });
+        if (!chama || parseMeetingWeekday(chama.meetingDay) === null) {
+            throw new AppError('Weekly and bi-weekly contributions require the chama meeting day to name a weekday (e.g., "Saturday").', 400);
+        }
+    }
+
+    const updatedSettings = await prisma.chamaSettings.update({
+        where: { chamaId },
+        data,
+    });
+
+    await createAuditLog({
+        actorId,
+        chamaId,
+        action: AuditAction.CHAMA_UPDATE,
+        oldValue: { settings: oldValue },
+        newValue: { settings: updatedSettings },
+    });
+
+    logger.info({ chamaId, actorId }, 'Chama settings updated successfully');
+
+    return updatedSettings;
+};
+
 export const deleteChamaById = async (chamaId: string, actorId: string) => {
     logger.info({ chamaId, actorId }, 'Deleting chama');
 
@@ -171,6 +257,28 @@ export const deleteChamaById = async (chamaId: string, actorId: string) => {
     return deletedChama;
 };
 
+/**
+ * Members who left keep their membership record so their history stays intact. Rejoining reactivates
+ * it as an ordinary member; anyone else gets a new membership.
+ */
+const rejoinOrCreateMembership = async (tx: Prisma.TransactionClient, userId: string, chamaId: string) => {
+    const previous = await tx.membership.findUnique({ where: { userId_chamaId: { userId, chamaId } } });
+    if (previous && !previous.isActive) {
+        return tx.membership.update({
+            where: { id: previous.id },
+            data: { isActive: true, role: 'MEMBER', joinedAt: new Date() },
+        });
+    }
+    return tx.membership.create({
+        data: {
+            userId,
+            chamaId,
+            role: 'MEMBER',
+            isActive: true,
+        },
+    });
+};
+
 export const addMemberToChama = async (chamaId: string, actorId: string, userEmail: string): Promise<Membership> => {
     logger.info({ chamaId, actorId, userEmail }, 'Adding member to chama');
 
@@ -184,14 +292,7 @@ export const addMemberToChama = async (chamaId: string, actorId: string, userEma
     }
 
     const newMembership = await prisma.$transaction(async (tx) => {
-        const membership = await tx.membership.create({
-            data: {
-                userId: userToAdd.id,
-                chamaId: chamaId,
-                role: 'MEMBER',
-                isActive: true,
-            },
-        });
+        const membership = await rejoinOrCreateMembership(tx, userToAdd.id, chamaId);
         await tx.chama.update({
             where: { id: chamaId },
             data: { totalMembers: { increment: 1 } },
@@ -219,13 +320,29 @@ export const removeMemberFromChama = async (chamaId: string, actorId: string, us
         where: { userId_chamaId: { userId: userIdToRemove, chamaId } }
     });
     
-    if (!membershipToRemove) {
+    if (!membershipToRemove || !membershipToRemove.isActive) {
         logger.warn({ chamaId, userIdToRemove }, 'Cannot remove member: membership not found');
         throw new Error('Membership not found.');
     }
 
-    const deletedMembership = await prisma.$transaction(async (tx) => {
-        const membership = await tx.membership.delete({ where: { userId_chamaId: { userId: userIdToRemove, chamaId } } });
+    // Money the chama still holds for or is owed by the member is settled through an exit withdrawal,
+    // which closes the membership once it is paid out.
+    const refundable = await prisma.fundAllocation.aggregate({
+        _sum: { amount: true },
+        where: { membershipId: membershipToRemove.id, fund: { OR: [{ isWithdrawable: true }, { type: 'SHARE_CAPITAL' }] } },
+    });
+    const openLoans = await prisma.loan.count({
+        where: { membershipId: membershipToRemove.id, status: { in: ['PENDING', 'APPROVED', 'ACTIVE', 'DEFAULTED'] } },
+    });
+    if ((refundable._sum.amount || 0) > 0 || openLoans > 0) {
+        logger.warn({ chamaId, userIdToRemove, openLoans }, 'Cannot remove member: savings or loans outstanding');
+        throw new AppError('This member still has savings or loans with the chama. Request an exit withdrawal for them instead.', 409);
+    }
+
+    // Memberships are deactivated rather than deleted so the member's contributions, loans and audit
+    // history stay with the chama.
+    const removedMembership = await prisma.$transaction(async (tx) => {
+        const membership = await tx.membership.update({ where: { id: membershipToRemove.id }, data: { isActive: false } });
         await tx.chama.update({ where: { id: chamaId }, data: { totalMembers: { decrement: 1 } } });
         return membership;
     });
@@ -240,7 +357,7 @@ export const removeMemberFromChama = async (chamaId: string, actorId: string, us
 
     logger.info({ chamaId, actorId, userIdToRemove }, 'Member removed from chama successfully');
     
-    return deletedMembership;
+    return removedMembership;
 };
 
 export const updateMemberRoleInChama = async (chamaId: string, actorId: string, userIdToUpdate: string, newRole: MembershipRole) => {
@@ -284,28 +401,239 @@ export const updateMemberRoleInChama = async (chamaId: string, actorId: string,
     return updatedMembership;
 };
 
-export const createMemberInvitation = async (chamaId: string, email: string, inviterId: string) => {
-    logger.info({ chamaId, email, inviterId }, 'Creating member invitation');
+export const createMemberInvitation = async (chamaId: string, email: string, actorId: string) => {
+    logger.info({ chamaId, email, actorId }, 'Creating member invitation');
+
+    const inviter = await prisma.membership.findUnique({
+        where: { userId_chamaId: { userId: actorId, chamaId } },
+        include: { chama: true, user: true },
+    });
+
+    if (!inviter) {
+        logger.warn({ chamaId, actorId }, 'Cannot invite: inviter is not a member');
+        throw new AppError('Membership not found.', 404);
+    }
 
     const existingMembership = await prisma.membership.findFirst({
-        where: { chamaId, user: { email } },
+        where: { chamaId, isActive: true, user: { email } },
     });
 
     if (existingMembership) {
         logger.warn({ chamaId, email }, 'Cannot invite: user already a member');
-        throw new Error('This user is already a member of the chama.');
+        throw new AppError('This user is already a member of the chama.', 409);
     }
 
-    const expiresAt = add(new Date(), { days: 7 });
+    const expiresAt = add(new Date(), { days: INVITATION_VALIDITY_DAYS });
     const invitation = await prisma.chamaInvitation.create({
-        data: { chamaId, email, inviterId, expiresAt },
+        data: { chamaId, email, inviterId: inviter.id, expiresAt },
     });
 
-    logger.info({ chamaId, email, inviterId, invitationId: invitation.id }, 'Member invitation created successfully');
+    await createAuditLog({
+        actorId,
+        chamaId,
+        action: AuditAction.USER_INVITE,
+        newValue: { invitationId: invitation.id, email, expiresAt },
+    });
+
+    await notifyInvitee(invitation.email, inviter.chama.name, `${inviter.user.firstName} ${inviter.user.lastName}`, invitation.code);
+
+    logger.info({ chamaId, email, actorId, invitationId: invitation.id }, 'Member invitation created successfully');
 
     return invitation;
 };
 
+export const findPendingInvitations = async (chamaId: string) => {
+    logger.info({ chamaId }, 'Fetching pending invitations');
+
+    const invitations = await prisma.chamaInvitation.findMany({
+        where: { chamaId, status: InvitationStatus.PENDING, expiresAt: { gt: new Date() } },
+        include: {
+            inviter: { include: { user: { select: { id: true, firstName: true, lastName: true } } } },
+        },
+        orderBy: { createdAt: 'desc' },
+    });
+
+    logger.info({ chamaId, count: invitations.length }, 'Pending invitations fetched successfully');
+
+    return invitations;
+};
+
+export const findInvitationByCode = async (code: string) => {
+    logger.info('Looking up invitation by code');
+
+    const invitation = await prisma.chamaInvitation.findUnique({
+        where: { code },
+        include: {
+            chama: { select: { id: true, name: true, description: true, monthlyContribution: true, meetingDay: true } },
+            inviter: { include: { user: { select: { firstName: true, lastName: true } } } },
+        },
+    });
+
+    if (!invitation) {
+        logger.warn('Invitation not found for code');
+        throw new AppError('Invitation not found.', 404);
+    }
+
+    return {
+        id: invitation.id,
+        email: invitation.email,
+        status: invitation.status,
+        expiresAt: invitation.expiresAt,
+        isExpired: invitation.expiresAt <= new Date(),
+        chama: invitation.chama,
+        invitedBy: invitation.inviter.user,
+    };
+};
+
+/**
+ * Ensures an invitation can still be acted upon by the given user.
+ * Codes are single-use, time-limited and bound to the invited email address.
+ */
+const assertInvitationUsable = (invitation: ChamaInvitation | null, user: { email: string | null } | null) => {
+    if (!invitation) {
+        throw new AppError('Invitation not found.', 404);
+    }
+    if (invitation.status !== InvitationStatus.PENDING) {
+        throw new AppError(`This invitation has already been ${invitation.status.toLowerCase()}.`, 409);
+    }
+    if (invitation.expiresAt <= new Date()) {
+        throw new AppError('This invitation has expired. Please ask the chama admin to resend it.', 410);
+    }
+    if (!user?.email || user.email.toLowerCase() !== invitation.email.toLowerCase()) {
+        throw new AppError('This invitation was issued to a different email address.', 403);
+    }
+};
+
+export const acceptInvitation = async (code: string, userId: string): Promise<Membership> => {
+    logger.info({ userId }, 'Accepting chama invitation');
+
+    const [invitation, user] = await Promise.all([
+        prisma.chamaInvitation.findUnique({ where: { code } }),
+        prisma.user.findUnique({ where: { id: userId } }),
+    ]);
+
+    assertInvitationUsable(invitation, user);
+    const { id: invitationId, chamaId } = invitation!;
+
+    const existingMembership = await prisma.membership.findFirst({
+        where: { userId, chamaId, isActive: true },
+    });
+
+    if (existingMembership) {
+        logger.warn({ chamaId, userId }, 'Cannot accept invitation: user already a member');
+        throw new AppError('You are already a member of this chama.', 409);
+    }
+
+    const newMembership = await prisma.$transaction(async (tx) => {
+        // Guard against the same code being redeemed twice concurrently.
+        const claimed = await tx.chamaInvitation.updateMany({
+            where: { id: invitationId, status: InvitationStatus.PENDING },
+            data: { status: InvitationStatus.ACCEPTED, respondedAt: new Date() },
+        });
+        if (claimed.count === 0) {
+            throw new AppError('This invitation has already been used.', 409);
+        }
+
+        const membership = await rejoinOrCreateMembership(tx, userId, chamaId);
+        await tx.chama.update({
+            where: { id: chamaId },
+            data: { totalMembers: { increment: 1 } },
+        });
+        return membership;
+    });
+
+    await createAuditLog({
+        actorId: userId,
+        chamaId,
+        action: AuditAction.CHAMA_MEMBER_ADD,
+        targetId: userId,
+        newValue: { membershipId: newMembership.id, userId, invitationId, userEmail: user!.email },
+    });
+
+    logger.info({ chamaId, userId, invitationId }, 'Chama invitation accepted successfully');
+
+    return newMembership;
+};
+
+export const declineInvitation = async (code: string, userId: string) => {
+    logger.info({ userId }, 'Declining chama invitation');
+
+    const [invitation, user] = await Promise.all([
+        prisma.chamaInvitation.findUnique({ where: { code } }),
+        prisma.user.findUnique({ where: { id: userId } }),
+    ]);
+
+    assertInvitationUsable(invitation, user);
+
+    const declinedInvitation = await prisma.chamaInvitation.update({
+        where: { id: invitation!.id },
+        data: { status: InvitationStatus.DECLINED, respondedAt: new Date() },
+    });
+
+    logger.info({ chamaId: declinedInvitation.chamaId, userId, invitationId: declinedInvitation.id }, 'Chama invitation declined');
+
+    return declinedInvitation;
+};
+
+export const resendInvitation = async (chamaId: string, invitationId: string, actorId: string) => {
+    logger.info({ chamaId, invitationId, actorId }, 'Resending chama invitation');
+
+    const invitation = await prisma.chamaInvitation.findFirst({
+        where: { id: invitationId, chamaId },
+        include: { chama: true, inviter: { include: { user: true } } },
+    });
+
+    if (!invitation) {
+        logger.warn({ chamaId, invitationId }, 'Cannot resend: invitation not found');
+        throw new AppError('Invitation not found.', 404);
+    }
+    if (invitation.status !== InvitationStatus.PENDING) {
+        logger.warn({ chamaId, invitationId, status: invitation.status }, 'Cannot resend: invitation no longer pending');
+        throw new AppError(`Cannot resend an invitation that has been ${invitation.status.toLowerCase()}.`, 409);
+    }
+
+    // Issue a fresh code so any previously shared link stops working.
+    const refreshedInvitation = await prisma.chamaInvitation.update({
+        where: { id: invitationId },
+        data: { code: createId(), expiresAt: add(new Date(), { days: INVITATION_VALIDITY_DAYS }) },
+    });
+
+    await notifyInvitee(
+        refreshedInvitation.email,
+        invitation.chama.name,
+        `${invitation.inviter.user.firstName} ${invitation.inviter.user.lastName}`,
+        refreshedInvitation.code
+    );
+
+    logger.info({ chamaId, invitationId, actorId }, 'Chama invitation resent successfully');
+
+    return refreshedInvitation;
+};
+
+export const revokeInvitation = async (chamaId: string, invitationId: string, actorId: string) => {
+    logger.info({ chamaId, invitationId, actorId }, 'Revoking chama invitation');
+
+    const invitation = await prisma.chamaInvitation.findFirst({ where: { id: invitationId, chamaId } });
+
+    if (!invitation) {
+        logger.warn({ chamaId, invitationId }, 'Cannot revoke: invitation not found');
+        throw new AppError('Invitation not found.', 404);
+    }
+    if (invitation.status !== InvitationStatus.PENDING) {
+        logger.warn({ chamaId, invitationId, status: invitation.status }, 'Cannot revoke: invitation no longer pending');
+        throw new AppError(`Cannot revoke an invitation that has been ${invitation.status.toLowerCase()}.`, 409);
+    }
+
+    const revokedInvitation = await prisma.chamaInvitation.update({
+        where: { id: invitationId },
+        data: { status: InvitationStatus.REVOKED, respondedAt: new Date() },
+    });
+
+    logger.info({ chamaId, invitationId, actorId }, 'Chama invitation revoked successfully');
+
+    return revokedInvitation;
+};
+
 export const getDashboardData = async (chamaId: string) => {
     logger.info({ chamaId }, 'Fetching dashboard data');
 
@@ -314,7 +642,7 @@ export const getDashboardData = async (chamaId: string) => {
     const [totalContributions, loanData, memberCount] = await Promise.all([
         prisma.contribution.aggregate({
             _sum: { amount: true },
-            where: { membership: { chamaId }, year: currentYear, status: 'PAID' },
+            where: { membership: { chamaId }, year: currentYear, status: { in: ['PAID', 'PARTIALLY_PAID'] } },
         }),
         prisma.loan.aggregate({
             _sum: { amount: true },
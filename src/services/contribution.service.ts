@@ -1,7 +1,13 @@
-import { Contribution, Prisma, PrismaClient, AuditAction } from '@prisma/client';
+import { Chama, ChamaSettings, Contribution, ContributionFrequency, ContributionPenaltyType, ContributionPeriod, ContributionStatus, Membership, Prisma, PrismaClient, AuditAction } from '@prisma/client';
+import { addDays } from 'date-fns';
 import Papa from 'papaparse';
 import ExcelJS from 'exceljs';
 import { createAuditLog } from './audit.service';
+import { getChamaSettings } from './chama.service';
+import { countPeriodsDue, findCurrentPeriod, findNextPeriod, findPeriodById, findPeriodForDate, getCalendarRules } from './contributionPeriod.service';
+import { buildCalendarRules, CalendarRules } from '../utils/period.utils';
+import { postContributionAdjustment, postContributionCarryForward, postContributionReceipt, reverseSourceEntries } from './ledger.service';
+import { allocateContribution } from './fund.service';
 import logger from '../config/logger';
 
 const prisma = new PrismaClient();
@@ -11,14 +17,12 @@ interface LogMeta {
     userAgent?: string;
 }
 
-const PENALTY_RATE = 0.05; // 5% penalty
-const PAYMENT_DEADLINE_DAY = 15; // Payments are late after the 15th of the month
-
 interface ContributionData {
     membershipId: string;
     amount: number;
-    month: number;
-    year: number;
+    periodId?: string;
+    month?: number;
+    year?: number;
     paymentMethod: string;
     mpesaCode?: string | null;
     paidAt: Date;
@@ -26,30 +30,230 @@ interface ContributionData {
 }
 
 /**
- * Calculates penalty for a late contribution.
+ * Calculates penalty for a late contribution under the chama's settings. A contribution is late if
+ * it is paid after the end of its period's due date. The penalty is either a flat amount or a fraction
+ * of the standard contribution, limited to the penalty cap when one is set.
  * @param contributionData - The contribution details.
- * @param standardAmount - The standard monthly contribution amount for the chama.
+ * @param standardAmount - The standard contribution amount for the chama.
+ * @param dueDate - The due date of the contribution's period.
+ * @param settings - The chama's penalty settings.
  * @returns The calculated penalty amount.
  */
-const calculatePenalty = (contributionData: ContributionData, standardAmount: number): number => {
+export const calculatePenalty = (
+    contributionData: Pick<ContributionData, 'paidAt' | 'status'>,
+    standardAmount: number,
+    dueDate: Date,
+    settings: Pick<ChamaSettings, 'penaltyType' | 'penaltyAmount' | 'penaltyCap'>
+): number => {
     // Only calculate penalty for PAID contributions
     if (contributionData.status === 'PENDING') {
         return 0; // No penalty for pending payments
     }
     
     const paymentDate = new Date(contributionData.paidAt);
-    const deadline = new Date(contributionData.year, contributionData.month - 1, PAYMENT_DEADLINE_DAY);
-    if (paymentDate > deadline) {
-        return standardAmount * PENALTY_RATE;
+    if (paymentDate < addDays(dueDate, 1)) {
+        return 0;
+    }
+
+    const penalty = settings.penaltyType === ContributionPenaltyType.FLAT
+        ? settings.penaltyAmount
+        : standardAmount * settings.penaltyAmount;
+    return settings.penaltyCap != null ? Math.min(penalty, settings.penaltyCap) : penalty;
+};
+
+/**
+ * Works out which period a contribution is for: an explicit period, the month and year given for a
+ * monthly chama, or otherwise the period the payment date falls in.
+ */
+const resolveContributionPeriod = async (
+    chamaId: string,
+    data: Pick<ContributionData, 'periodId' | 'month' | 'year' | 'paidAt'>,
+    rules: CalendarRules,
+    client?: Prisma.TransactionClient
+): Promise<ContributionPeriod> => {
+    if (data.periodId) {
+        return findPeriodById(chamaId, data.periodId, client);
+    }
+    if (rules.frequency === ContributionFrequency.MONTHLY && data.month && data.year) {
+        return findPeriodForDate(chamaId, new Date(data.year, data.month - 1, 1), rules, client);
     }
-    return 0;
+    return findPeriodForDate(chamaId, data.paidAt ? new Date(data.paidAt) : new Date(), rules, client);
 };
 
 /**
- * Records a new contribution, checks for duplicates, applies penalties, and creates an audit log.
+ * Statuses of contributions that money has been paid into.
+ */
+export const PAID_CONTRIBUTION_STATUSES: ContributionStatus[] = [ContributionStatus.PAID, ContributionStatus.PARTIALLY_PAID];
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Works out a contribution's status from what has been paid against what its period expects.
+ */
+export const getContributionStatus = (amount: number, expectedAmount: number): ContributionStatus => {
+    if (amount > 0 && amount >= expectedAmount) {
+        return ContributionStatus.PAID;
+    }
+    return amount > 0 ? ContributionStatus.PARTIALLY_PAID : ContributionStatus.PENDING;
+};
+
+interface PaymentInput {
+    amount: number;
+    paymentMethod: string;
+    mpesaCode?: string | null;
+    paidAt: Date;
+}
+
+interface PaymentContext {
+    membershipId: string;
+    chamaId: string;
+    standardAmount: number;
+    settings: ChamaSettings;
+    rules: CalendarRules;
+}
+
+interface AppliedContribution {
+    before: Contribution | null;
+    after: Contribution;
+}
+
+/**
+ * Applies a payment to a member's contribution for a period. Anything beyond what the period still
+ * expects carries forward as credit to the following periods, whose contributions are created as
+ * needed. Once a CUSTOM calendar runs out of periods, the surplus stays on the last contribution and
+ * moves forward with the member's next payment. Cash is posted to the ledger and split across the
+ * chama's funds as it is applied, and the late penalty is charged when a contribution becomes fully paid.
+ * @returns The contributions the payment touched, in period order.
+ */
+const applyContributionPayment = async (
+    tx: Prisma.TransactionClient,
+    context: PaymentContext,
+    startPeriod: ContributionPeriod,
+    payment: PaymentInput
+): Promise<AppliedContribution[]> => {
+    const { membershipId, chamaId, standardAmount, settings, rules } = context;
+
+    // Surplus left over from an earlier payment moves forward with this one. That cash is already on
+    // the ledger, so it is applied first and only reclassified; the new payment is what gets posted as cash.
+    const overpaid = (await tx.contribution.findMany({ where: { membershipId, status: ContributionStatus.PAID } }))
+        .filter(contribution => contribution.amount > contribution.expectedAmount);
+    const carried: Array<{ from: Contribution; amount: number }> = [];
+    let remaining = payment.amount;
+    for (const contribution of overpaid) {
+        const surplus = roundAmount(contribution.amount - contribution.expectedAmount);
+        remaining += surplus;
+        carried.push({ from: contribution, amount: surplus });
+        const settled = await tx.contribution.update({ where: { id: contribution.id }, data: { amount: contribution.expectedAmount } });
+        await allocateContribution(settled, chamaId, tx);
+    }
+    remaining = roundAmount(remaining);
+
+    const applied: AppliedContribution[] = [];
+    let period: ContributionPeriod | null = startPeriod;
+    while (period && (remaining > 0 || applied.length === 0)) {
+        const existing: Contribution | null = await tx.contribution.findFirst({ where: { membershipId, periodId: period.id } });
+        const expectedAmount = existing?.expectedAmount ?? standardAmount;
+        const paidBefore = existing?.amount ?? 0;
+
+        let amountApplied = Math.min(remaining, Math.max(expectedAmount - paidBefore, 0));
+        let nextPeriod: ContributionPeriod | null = null;
+        if (remaining > amountApplied) {
+            nextPeriod = await findNextPeriod(chamaId, period, rules, tx);
+            if (!nextPeriod) {
+                amountApplied = remaining;
+            }
+        }
+
+        if (existing && amountApplied === 0) {
+            applied.push({ before: existing, after: existing });
+        } else {
+            const amount = roundAmount(paidBefore + amountApplied);
+            const status = getContributionStatus(amount, expectedAmount);
+            const penaltyBefore = existing?.penaltyApplied ?? 0;
+            const penaltyApplied = status === ContributionStatus.PAID && existing?.status !== ContributionStatus.PAID
+                ? calculatePenalty({ paidAt: payment.paidAt, status }, standardAmount, period.dueDate, settings)
+                : penaltyBefore;
+            // The receipt is shown on the contribution it was paid for, not on those it carried forward to.
+            const mpesaCode = existing?.mpesaCode ?? (applied.length === 0 ? payment.mpesaCode ?? null : null);
+            const data = { amount, status, penaltyApplied, paidAt: payment.paidAt, paymentMethod: payment.paymentMethod, mpesaCode };
+
+            const contribution: Contribution = existing
+                ? await tx.contribution.update({ where: { id: existing.id }, data })
+                : await tx.contribution.create({
+                    data: {
+                        ...data,
+                        membershipId,
+                        expectedAmount,
+                        periodId: period.id,
+                        // Month and year follow the period's due date so monthly reports keep working.
+                        month: period.dueDate.getMonth() + 1,
+                        year: period.dueDate.getFullYear(),
+                    },
+                });
+            await allocateContribution(contribution, chamaId, tx);
+
+            if (amountApplied > 0) {
+                await tx.contributionPayment.create({
+                    data: {
+                        contributionId: contribution.id,
+                        amount: amountApplied,
+                        paymentMethod: payment.paymentMethod,
+                        mpesaCode: payment.mpesaCode,
+                        paidAt: payment.paidAt,
+                    },
+                });
+            }
+            let paidInCash = amountApplied;
+            while (paidInCash > 0 && carried.length > 0) {
+                const credit = carried[0];
+                const amountCarried = Math.min(paidInCash, credit.amount);
+                if (credit.from.id !== contribution.id) {
+                    await postContributionCarryForward(credit.from, contribution, amountCarried, chamaId, tx);
+                }
+                paidInCash = roundAmount(paidInCash - amountCarried);
+                credit.amount = roundAmount(credit.amount - amountCarried);
+                if (credit.amount === 0) carried.shift();
+            }
+            await postContributionReceipt({
+                ...contribution,
+                amount: paidInCash,
+                penaltyApplied: (penaltyApplied ?? 0) - (penaltyBefore ?? 0),
+                mpesaCode: payment.mpesaCode ?? null,
+            }, chamaId, tx);
+
+            applied.push({ before: existing, after: contribution });
+        }
+
+        remaining = roundAmount(remaining - amountApplied);
+        period = nextPeriod;
+    }
+
+    return applied;
+};
+
+const auditAppliedContributions = async (applied: AppliedContribution[], actorId: string | null, chamaId: string, logMeta: LogMeta = {}) => {
+    for (const { before, after } of applied) {
+        if (before === after) continue;
+        await createAuditLog({
+            action: before ? AuditAction.CONTRIBUTION_UPDATE : AuditAction.CONTRIBUTION_CREATE,
+            actorId,
+            chamaId,
+            contributionId: after.id,
+            oldValue: before ?? undefined,
+            newValue: after,
+            ...logMeta,
+        });
+    }
+};
+
+/**
+ * Records a payment towards a member's contribution for a period, or a pending contribution to be
+ * paid later (e.g., by STK push). A period can be paid in several instalments; see
+ * `applyContributionPayment` for how partial and over-payments are handled.
+ * @returns The contribution for the period paid.
  */
 export const recordContribution = async (data: ContributionData, actorId: string, logMeta: LogMeta): Promise<Contribution> => {
-    logger.info({ membershipId: data.membershipId, actorId, month: data.month, year: data.year }, 'Recording contribution');
+    logger.info({ membershipId: data.membershipId, actorId, periodId: data.periodId, month: data.month, year: data.year }, 'Recording contribution');
 
     const membership = await prisma.membership.findUnique({
         where: { id: data.membershipId },
@@ -70,40 +274,166 @@ export const recordContribution = async (data: ContributionData, actorId: string
         throw new Error('Permission Denied: You cannot record a contribution for this member.');
     }
 
-    const existingContribution = await prisma.contribution.findFirst({
-        where: { membershipId: data.membershipId, month: data.month, year: data.year }
-    });
+    const settings = await getChamaSettings(membership.chamaId);
+    const rules = buildCalendarRules(membership.chama, settings);
+    const period = await resolveContributionPeriod(membership.chamaId, data, rules);
+
+    // A pending contribution is only a placeholder for a payment still to come.
+    if (data.status === 'PENDING') {
+        const existingContribution = await prisma.contribution.findFirst({
+            where: { membershipId: data.membershipId, periodId: period.id }
+        });
+
+        if (existingContribution) {
+            logger.warn({ membershipId: data.membershipId, periodId: period.id }, 'Duplicate contribution attempt');
+            throw new Error('A contribution for this member for the specified period already exists.');
+        }
+
+        const pendingContribution = await prisma.contribution.create({
+            data: {
+                membershipId: data.membershipId,
+                amount: 0,
+                expectedAmount: membership.chama.monthlyContribution,
+                periodId: period.id,
+                month: period.dueDate.getMonth() + 1,
+                year: period.dueDate.getFullYear(),
+                paymentMethod: data.paymentMethod,
+                paidAt: data.paidAt,
+                status: ContributionStatus.PENDING,
+            },
+        });
+
+        await auditAppliedContributions([{ before: null, after: pendingContribution }], actorId, membership.chamaId, logMeta);
+
+        logger.info({ contributionId: pendingContribution.id, membershipId: data.membershipId }, 'Pending contribution recorded');
+
+        return pendingContribution;
+    }
 
-    if (existingContribution) {
-        logger.warn({ membershipId: data.membershipId, month: data.month, year: data.year }, 'Duplicate contribution attempt');
-        throw new Error('A contribution for this member for the specified month and year already exists.');
+    if (data.mpesaCode && await prisma.contributionPayment.findFirst({ where: { mpesaCode: data.mpesaCode } })) {
+        logger.warn({ membershipId: data.membershipId, mpesaCode: data.mpesaCode }, 'Duplicate contribution payment attempt');
+        throw new Error('A payment with this M-Pesa code has already been recorded.');
     }
 
-    // Determine the final status and penalty
-    const finalStatus = data.status || 'PAID'; // Default to PAID for backward compatibility
-    const penaltyApplied = calculatePenalty({ ...data, status: finalStatus }, membership.chama.monthlyContribution);
+    const applied = await prisma.$transaction(tx => applyContributionPayment(tx, {
+        membershipId: data.membershipId,
+        chamaId: membership.chamaId,
+        standardAmount: membership.chama.monthlyContribution,
+        settings,
+        rules,
+    }, period, {
+        amount: data.amount,
+        paymentMethod: data.paymentMethod,
+        mpesaCode: data.mpesaCode,
+        paidAt: data.paidAt,
+    }));
+
+    await auditAppliedContributions(applied, actorId, membership.chamaId, logMeta);
+
+    const contribution = applied[0].after;
+
+    logger.info({ contributionId: contribution.id, membershipId: data.membershipId, amount: data.amount, status: contribution.status, periodsCovered: applied.length }, 'Contribution recorded successfully');
+
+    return contribution;
+};
 
-    const newContribution = await prisma.contribution.create({
-        data: {
-            ...data,
-            status: finalStatus,
-            penaltyApplied,
-        },
+/**
+ * Applies an M-Pesa payment nobody recorded by hand, starting at `period`, and records the money
+ * received as a CONTRIBUTION transaction. Audited as a system change.
+ */
+const applyMpesaContribution = async (
+    membership: Membership & { chama: Chama },
+    period: ContributionPeriod,
+    amount: number,
+    mpesaCode: string,
+    paidAt: Date
+) => {
+    const { chama } = membership;
+    const settings = await getChamaSettings(chama.id);
+    const rules = buildCalendarRules(chama, settings);
+
+    const applied = await prisma.$transaction(async (tx) => {
+        const touched = await applyContributionPayment(tx, {
+            membershipId: membership.id,
+            chamaId: chama.id,
+            standardAmount: chama.monthlyContribution,
+            settings,
+            rules,
+        }, period, { amount, paymentMethod: 'M-PESA', mpesaCode, paidAt });
+        await tx.transaction.create({
+            data: { chamaId: chama.id, type: 'CONTRIBUTION', amount, description: `M-Pesa contribution. Ref: ${mpesaCode}` },
+        });
+        return touched;
     });
 
-    // Create the audit log for the creation event
-    await createAuditLog({
-        action: AuditAction.CONTRIBUTION_CREATE,
-        actorId,
-        chamaId: membership.chamaId,
-        contributionId: newContribution.id,
-        newValue: newContribution,
-        ...logMeta,
+    await auditAppliedContributions(applied, null, chama.id);
+
+    return applied;
+};
+
+/**
+ * Applies a confirmed STK push payment to the contribution it was requested for and records the
+ * money received as a CONTRIBUTION transaction. Repeated confirmations of the same M-Pesa receipt
+ * are ignored.
+ * @returns The contributions the payment touched, or null when there is nothing to apply it to.
+ */
+export const recordMpesaContributionPayment = async (checkoutRequestId: string, amount: number, mpesaCode: string, paidAt: Date = new Date()) => {
+    logger.info({ checkoutRequestId, amount, mpesaCode }, 'Recording M-Pesa contribution payment');
+
+    // A push that timed out no longer marks the contribution, but a late payment for it still belongs there.
+    const target = await prisma.contribution.findFirst({
+        where: { OR: [{ mpesaCheckoutId: checkoutRequestId }, { mpesaRequests: { some: { checkoutRequestId } } }] },
+        include: { membership: { include: { chama: true } }, period: true },
     });
 
-    logger.info({ contributionId: newContribution.id, membershipId: data.membershipId, amount: data.amount, penaltyApplied }, 'Contribution recorded successfully');
+    if (!target) {
+        logger.warn({ checkoutRequestId }, 'No contribution found for checkout request');
+        return null;
+    }
+
+    if (await prisma.contributionPayment.findFirst({ where: { mpesaCode } })) {
+        logger.warn({ checkoutRequestId, mpesaCode }, 'M-Pesa receipt already recorded');
+        return null;
+    }
+
+    const { chama } = target.membership;
+    const period = target.period
+        ?? await resolveContributionPeriod(chama.id, { month: target.month, year: target.year, paidAt }, buildCalendarRules(chama, await getChamaSettings(chama.id)));
+
+    const applied = await applyMpesaContribution(target.membership, period, amount, mpesaCode, paidAt);
 
-    return newContribution;
+    logger.info({ checkoutRequestId, contributionId: target.id, periodsCovered: applied.length }, 'M-Pesa contribution payment recorded');
+
+    return applied.map(({ after }) => after);
+};
+
+/**
+ * Applies a payment made straight to the chama paybill as the member's contribution for the period
+ * it was paid in, carrying any surplus forward like any other contribution.
+ * @returns The contributions the payment touched, or null when the receipt has already been recorded.
+ */
+export const recordPaybillContributionPayment = async (membershipId: string, amount: number, mpesaCode: string, paidAt: Date) => {
+    logger.info({ membershipId, amount, mpesaCode }, 'Recording paybill contribution payment');
+
+    const membership = await prisma.membership.findUnique({ where: { id: membershipId }, include: { chama: true } });
+    if (!membership) {
+        logger.warn({ membershipId }, 'Membership not found');
+        throw new Error('Membership not found.');
+    }
+
+    if (await prisma.contributionPayment.findFirst({ where: { mpesaCode } })) {
+        logger.warn({ membershipId, mpesaCode }, 'M-Pesa receipt already recorded');
+        return null;
+    }
+
+    const rules = buildCalendarRules(membership.chama, await getChamaSettings(membership.chamaId));
+    const period = await resolveContributionPeriod(membership.chamaId, { paidAt }, rules);
+
+    const applied = await applyMpesaContribution(membership, period, amount, mpesaCode, paidAt);
+
+    logger.info({ membershipId, mpesaCode, periodsCovered: applied.length }, 'Paybill contribution payment recorded');
+
+    return applied.map(({ after }) => after);
 };
 
 /**
@@ -114,7 +444,7 @@ export const updateContribution = async (id: string, data: Partial<Contribution>
 
     const oldValue = await prisma.contribution.findUnique({
         where: { id },
-        include: { membership: true }
+        include: { membership: true, period: true }
     });
 
     if (!oldValue) {
@@ -122,10 +452,18 @@ export const updateContribution = async (id: string, data: Partial<Contribution>
         throw new Error('Contribution not found.');
     }
 
-    // If updating from PENDING to PAID, recalculate penalty
+    // Marking a contribution paid settles it in full; changing the amount paid moves its status with it.
     let updateData = { ...data };
-    if (oldValue.status === 'PENDING' && data.status === 'PAID') {
-        logger.info({ contributionId: id }, 'Recalculating penalty for status change from PENDING to PAID');
+    if (data.status === ContributionStatus.PAID && data.amount === undefined && oldValue.amount < oldValue.expectedAmount) {
+        updateData.amount = oldValue.expectedAmount;
+    }
+    if (data.amount !== undefined && data.status === undefined) {
+        updateData.status = getContributionStatus(data.amount, oldValue.expectedAmount);
+    }
+
+    // If the contribution is now fully paid, recalculate penalty
+    if (oldValue.status !== ContributionStatus.PAID && updateData.status === ContributionStatus.PAID) {
+        logger.info({ contributionId: id, fromStatus: oldValue.status }, 'Recalculating penalty for status change to PAID');
         
         const membership = await prisma.membership.findUnique({
             where: { id: oldValue.membershipId },
@@ -139,13 +477,27 @@ export const updateContribution = async (id: string, data: Partial<Contribution>
                 status: 'PAID' as const,
                 paidAt: data.paidAt || new Date(),
             };
-            updateData.penaltyApplied = calculatePenalty(contributionData, membership.chama.monthlyContribution);
+            const settings = await getChamaSettings(membership.chamaId);
+            const period = oldValue.period
+                ?? await resolveContributionPeriod(membership.chamaId, { month: oldValue.month, year: oldValue.year, paidAt: contributionData.paidAt }, buildCalendarRules(membership.chama, settings));
+            updateData.penaltyApplied = calculatePenalty(contributionData, membership.chama.monthlyContribution, period.dueDate, settings);
         }
     }
 
-    const updatedContribution = await prisma.contribution.update({ 
-        where: { id }, 
-        data: updateData 
+    // Paid contributions are on the books, so an edit posts only the change in what was paid. Earlier receipts and
+    // credit carried in from other contributions stay as posted. The fund split follows the same figures.
+    const updatedContribution = await prisma.$transaction(async (tx) => {
+        const contribution = await tx.contribution.update({
+            where: { id },
+            data: updateData
+        });
+        const isPaid = PAID_CONTRIBUTION_STATUSES.includes(contribution.status);
+        const wasPaid = PAID_CONTRIBUTION_STATUSES.includes(oldValue.status);
+        const amountChange = (isPaid ? contribution.amount : 0) - (wasPaid ? oldValue.amount : 0);
+        const penaltyChange = (isPaid ? contribution.penaltyApplied ?? 0 : 0) - (wasPaid ? oldValue.penaltyApplied ?? 0 : 0);
+        await postContributionAdjustment(contribution, amountChange, penaltyChange, oldValue.membership.chamaId, tx);
+        await allocateContribution(isPaid ? contribution : { ...contribution, amount: 0 }, oldValue.membership.chamaId, tx);
+        return contribution;
     });
 
     await createAuditLog({
@@ -179,7 +531,13 @@ export const deleteContribution = async (id: string, actorId: string, logMeta: L
         throw new Error('Contribution not found.');
     }
     
-    const deletedContribution = await prisma.contribution.delete({ where: { id } });
+    const deletedContribution = await prisma.$transaction(async (tx) => {
+        const contribution = await tx.contribution.delete({ where: { id } });
+        if (PAID_CONTRIBUTION_STATUSES.includes(oldValue.status)) {
+            await reverseSourceEntries(oldValue.membership.chamaId, 'CONTRIBUTION', id, `Reversal of deleted contribution for ${oldValue.month}/${oldValue.year}`, tx);
+        }
+        return contribution;
+    });
 
     await createAuditLog({
         action: AuditAction.CONTRIBUTION_DELETE,
@@ -231,7 +589,10 @@ export const findMemberContributions = async (membershipId: string) => {
 export const findContributionById = async (id: string) => {
     logger.info({ contributionId: id }, 'Fetching contribution by ID');
 
-    const contribution = await prisma.contribution.findUnique({ where: { id } });
+    const contribution = await prisma.contribution.findUnique({
+        where: { id },
+        include: { payments: { orderBy: { paidAt: 'asc' } } },
+    });
 
     if (contribution) {
         logger.info({ contributionId: id }, 'Contribution fetched successfully');
@@ -251,20 +612,30 @@ export const getContributionSummary = async (chamaId: string) => {
     const result = await prisma.contribution.aggregate({
         _sum: { amount: true, penaltyApplied: true },
         _count: { id: true },
-        where: { ...where, status: 'PAID' }
+        where: { ...where, status: ContributionStatus.PAID }
+    });
+    const partial = await prisma.contribution.aggregate({
+        _sum: { amount: true },
+        _count: { id: true },
+        where: { ...where, status: ContributionStatus.PARTIALLY_PAID }
     });
 
     const activeMembers = await prisma.membership.count({ where: { chamaId, isActive: true } });
     const chama = await prisma.chama.findUnique({ where: { id: chamaId } });
+    const rules = await getCalendarRules(chamaId);
+    const periodsDue = await countPeriodsDue(chamaId, rules, new Date(year, 0, 1), new Date(year + 1, 0, 1));
     
-    const totalExpected = (activeMembers * (chama?.monthlyContribution || 0)) * 12;
-    const totalPaid = result._sum.amount || 0;
+    const totalExpected = activeMembers * (chama?.monthlyContribution || 0) * periodsDue;
+    const totalPaid = (result._sum.amount || 0) + (partial._sum.amount || 0);
 
     const summary = {
         year,
+        frequency: rules.frequency,
+        periodsDue,
         totalPaid,
         totalPenalties: result._sum.penaltyApplied || 0,
         paidContributionsCount: result._count.id,
+        partiallyPaidContributionsCount: partial._count.id,
         totalExpected,
         deficit: totalExpected - totalPaid,
     };
@@ -277,12 +648,15 @@ export const getContributionSummary = async (chamaId: string) => {
 export const findDefaulters = async (chamaId: string) => {
     logger.info({ chamaId }, 'Finding defaulters');
 
-    const now = new Date();
-    const month = now.getMonth() + 1;
-    const year = now.getFullYear();
+    const rules = await getCalendarRules(chamaId);
+    const period = await findCurrentPeriod(chamaId, rules);
+    if (!period) {
+        logger.info({ chamaId }, 'No contribution period has started yet');
+        return [];
+    }
     
     const paidMemberIds = (await prisma.contribution.findMany({
-        where: { month, year, status: 'PAID', membership: { chamaId } },
+        where: { periodId: period.id, status: 'PAID' },
         select: { membershipId: true },
     })).map(c => c.membershipId);
 
@@ -291,7 +665,7 @@ export const findDefaulters = async (chamaId: string) => {
         include: { user: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } } },
     });
 
-    logger.info({ chamaId, month, year, defaultersCount: defaulters.length }, 'Defaulters found');
+    logger.info({ chamaId, periodId: period.id, defaultersCount: defaulters.length }, 'Defaulters found');
 
     return defaulters;
 };
@@ -310,6 +684,13 @@ export const parseAndImportContributions = async (chamaId: string, fileBuffer: B
     const records = parsed.data as any[];
     logger.info({ chamaId, recordCount: records.length }, 'Parsed CSV records');
 
+    const chama = await prisma.chama.findUnique({ where: { id: chamaId } });
+    if (!chama) {
+        throw new Error('Chama not found.');
+    }
+    const settings = await getChamaSettings(chamaId);
+    const rules = buildCalendarRules(chama, settings);
+
     const result = await prisma.$transaction(async (tx) => {
         const results = [];
         for (const record of records) {
@@ -320,18 +701,26 @@ export const parseAndImportContributions = async (chamaId: string, fileBuffer: B
                 logger.warn({ chamaId, email: record.email }, 'Membership not found for import record');
                 continue;
             }
-            const contribution = await tx.contribution.create({
-                data: {
-                    membershipId: membership.id,
-                    amount: parseFloat(record.amount),
-                    month: parseInt(record.month, 10),
-                    year: parseInt(record.year, 10),
-                    paymentMethod: record.paymentMethod,
-                    paidAt: new Date(record.paidAt),
-                    status: 'PAID', // Bulk imports are considered completed payments
-                }
+            const paidAt = new Date(record.paidAt);
+            const period = await resolveContributionPeriod(chamaId, {
+                periodId: record.periodId || undefined,
+                month: parseInt(record.month, 10),
+                year: parseInt(record.year, 10),
+                paidAt,
+            }, rules, tx);
+            // Bulk imports are considered completed payments, applied like any other
+            const applied = await applyContributionPayment(tx, {
+                membershipId: membership.id,
+                chamaId,
+                standardAmount: chama.monthlyContribution,
+                settings,
+                rules,
+            }, period, {
+                amount: parseFloat(record.amount),
+                paymentMethod: record.paymentMethod,
+                paidAt,
             });
-            results.push(contribution);
+            results.push(applied[0].after);
         }
         return { createdCount: results.length, totalRecords: records.length };
     });
@@ -0,0 +1,160 @@
+import { AuditAction, ContributionFrequency, ContributionPeriod, Prisma, PrismaClient } from '@prisma/client';
+import { createAuditLog } from './audit.service';
+import { getChamaSettings } from './chama.service';
+import { buildCalendarRules, CalendarPeriod, CalendarRules, getCalendarPeriod, listCalendarPeriods } from '../utils/period.utils';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+type PeriodClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Loads the rules that drive a chama's contribution calendar.
+ */
+export const getCalendarRules = async (chamaId: string): Promise<CalendarRules> => {
+    const chama = await prisma.chama.findUnique({ where: { id: chamaId } });
+    if (!chama) {
+        throw new Error('Chama not found.');
+    }
+    const settings = await getChamaSettings(chamaId);
+    return buildCalendarRules(chama, settings);
+};
+
+/**
+ * Finds the period a date falls in, persisting calendar periods the first time they are used.
+ * CUSTOM periods must already have been created by an admin.
+ */
+export const findPeriodForDate = async (chamaId: string, date: Date, rules: CalendarRules, client: PeriodClient = prisma): Promise<ContributionPeriod> => {
+    const calendarPeriod = getCalendarPeriod(date, rules);
+
+    if (!calendarPeriod) {
+        const customPeriod = await client.contributionPeriod.findFirst({
+            where: { chamaId, frequency: ContributionFrequency.CUSTOM, startDate: { lte: date }, endDate: { gt: date } },
+        });
+        if (!customPeriod) {
+            throw new Error(`No contribution period covers ${date.toDateString()}. An admin must create one first.`);
+        }
+        return customPeriod;
+    }
+
+    return client.contributionPeriod.upsert({
+        where: { chamaId_frequency_startDate: { chamaId, frequency: rules.frequency, startDate: calendarPeriod.startDate } },
+        update: {},
+        create: { chamaId, frequency: rules.frequency, ...calendarPeriod },
+    });
+};
+
+/**
+ * Finds the period after the given one. A calendar always has one; a CUSTOM calendar returns null
+ * once its last defined period is reached.
+ */
+export const findNextPeriod = async (chamaId: string, period: ContributionPeriod, rules: CalendarRules, client: PeriodClient = prisma): Promise<ContributionPeriod | null> => {
+    if (rules.frequency !== ContributionFrequency.CUSTOM) {
+        return findPeriodForDate(chamaId, period.endDate, rules, client);
+    }
+    return client.contributionPeriod.findFirst({
+        where: { chamaId, frequency: ContributionFrequency.CUSTOM, startDate: { gte: period.endDate } },
+        orderBy: { startDate: 'asc' },
+    });
+};
+
+export const findPeriodById = async (chamaId: string, periodId: string, client: PeriodClient = prisma): Promise<ContributionPeriod> => {
+    const period = await client.contributionPeriod.findFirst({ where: { id: periodId, chamaId } });
+    if (!period) {
+        throw new Error('Contribution period not found.');
+    }
+    return period;
+};
+
+/**
+ * Lists a chama's periods due in [from, to), defaulting to the current year. Calendar periods that
+ * have not been used yet are included with a null id.
+ */
+export const listPeriods = async (
+    chamaId: string,
+    from: Date = new Date(new Date().getFullYear(), 0, 1),
+    to: Date = new Date(new Date().getFullYear() + 1, 0, 1)
+) => {
+    logger.info({ chamaId, from, to }, 'Listing contribution periods');
+
+    const rules = await getCalendarRules(chamaId);
+    const persisted = await prisma.contributionPeriod.findMany({
+        where: { chamaId, frequency: rules.frequency, dueDate: { gte: from, lt: to } },
+        orderBy: { dueDate: 'asc' },
+    });
+
+    if (rules.frequency === ContributionFrequency.CUSTOM) {
+        return persisted;
+    }
+
+    const persistedByStart = new Map(persisted.map(period => [period.startDate.getTime(), period]));
+    return listCalendarPeriods(from, to, rules).map((period: CalendarPeriod) =>
+        persistedByStart.get(period.startDate.getTime()) ?? { id: null, chamaId, frequency: rules.frequency, ...period }
+    );
+};
+
+/**
+ * Counts the periods due in [from, to), which is how many contributions each member owes.
+ */
+export const countPeriodsDue = async (chamaId: string, rules: CalendarRules, from: Date, to: Date): Promise<number> => {
+    if (rules.frequency === ContributionFrequency.CUSTOM) {
+        return prisma.contributionPeriod.count({
+            where: { chamaId, frequency: ContributionFrequency.CUSTOM, dueDate: { gte: from, lt: to } },
+        });
+    }
+    return listCalendarPeriods(from, to, rules).length;
+};
+
+/**
+ * Finds the period currently open for contributions. For CUSTOM calendars with a gap today, the
+ * most recently started period is used instead.
+ */
+export const findCurrentPeriod = async (chamaId: string, rules: CalendarRules, asOf: Date = new Date()): Promise<ContributionPeriod | null> => {
+    if (rules.frequency !== ContributionFrequency.CUSTOM) {
+        return findPeriodForDate(chamaId, asOf, rules);
+    }
+    return prisma.contributionPeriod.findFirst({
+        where: { chamaId, frequency: ContributionFrequency.CUSTOM, startDate: { lte: asOf } },
+        orderBy: { startDate: 'desc' },
+    });
+};
+
+/**
+ * Adds a period to a chama that sets its own contribution calendar. Periods may not overlap.
+ */
+export const createCustomPeriod = async (chamaId: string, actorId: string, data: CalendarPeriod): Promise<ContributionPeriod> => {
+    logger.info({ chamaId, actorId, startDate: data.startDate, endDate: data.endDate }, 'Creating custom contribution period');
+
+    const settings = await getChamaSettings(chamaId);
+    if (settings.contributionFrequency !== ContributionFrequency.CUSTOM) {
+        throw new Error('Custom periods can only be created when the contribution frequency is CUSTOM.');
+    }
+    if (data.endDate <= data.startDate) {
+        throw new Error('A period must end after it starts.');
+    }
+    if (data.dueDate < data.startDate || data.dueDate >= data.endDate) {
+        throw new Error('The due date must fall within the period.');
+    }
+
+    const overlapping = await prisma.contributionPeriod.findFirst({
+        where: { chamaId, frequency: ContributionFrequency.CUSTOM, startDate: { lt: data.endDate }, endDate: { gt: data.startDate } },
+    });
+    if (overlapping) {
+        throw new Error('This period overlaps an existing contribution period.');
+    }
+
+    const period = await prisma.contributionPeriod.create({
+        data: { chamaId, frequency: ContributionFrequency.CUSTOM, ...data },
+    });
+
+    await createAuditLog({
+        actorId,
+        chamaId,
+        action: AuditAction.CHAMA_UPDATE,
+        newValue: { contributionPeriod: period },
+    });
+
+    logger.info({ chamaId, periodId: period.id }, 'Custom contribution period created');
+
+    return period;
+};
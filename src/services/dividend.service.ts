@@ -0,0 +1,463 @@
+import { AuditAction, DividendPayoutMethod, DividendPolicy, NotificationType, PrismaClient } from '@prisma/client';
+import { endOfYear, getMonth, startOfYear } from 'date-fns';
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { createAuditLog } from './audit.service';
+import { createNotification } from './notification.service';
+import { getChamaFunds } from './fund.service';
+import { postDividendDeclaration, postDividendPayout, sumAccountMovements } from './ledger.service';
+import { initiateB2CPayment } from './mpesa.service';
+import { AppError } from '../utils/customErrors';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+interface LogMeta {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+interface MemberShare {
+    membershipId: string;
+    name: string;
+    basis: number;
+    amount: number;
+}
+
+const runInclude = {
+    payouts: {
+        include: { membership: { include: { user: { select: { firstName: true, lastName: true, phone: true } } } } },
+        orderBy: { amount: 'desc' as const },
+    },
+    createdBy: { include: { user: { select: { firstName: true, lastName: true } } } },
+    confirmedBy: { include: { user: { select: { firstName: true, lastName: true } } } },
+};
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const findActiveMembership = async (chamaId: string, userId: string) => {
+    const membership = await prisma.membership.findFirst({ where: { chamaId, userId, isActive: true } });
+    if (!membership) {
+        throw new AppError('You are not an active member of this chama.', 403);
+    }
+    return membership;
+};
+
+const findRun = async (chamaId: string, runId: string) => {
+    const run = await prisma.dividendRun.findFirst({ where: { id: runId, chamaId }, include: runInclude });
+    if (!run) {
+        throw new AppError('Dividend run not found.', 404);
+    }
+    return run;
+};
+
+/**
+ * Works out each active member's basis for sharing out the year's income. Savings-based policies use
+ * the member's savings and share capital; welfare funds are pooled and do not earn dividends.
+ * - SAVINGS_PROPORTIONAL: the balance held at the end of the year
+ * - MONTHS_WEIGHTED: each deposit or withdrawal counts for the months of the year it was held, so
+ *   money saved in January earns twelve times what the same amount saved in December does
+ * - EQUAL: every member gets the same share
+ */
+const calculateBases = async (chamaId: string, financialYear: number, policy: DividendPolicy) => {
+    const yearStart = startOfYear(new Date(financialYear, 0, 1));
+    const yearEnd = endOfYear(yearStart);
+
+    const members = await prisma.membership.findMany({
+        where: { chamaId, isActive: true, joinedAt: { lte: yearEnd } },
+        include: { user: { select: { firstName: true, lastName: true } } },
+        orderBy: { joinedAt: 'asc' },
+    });
+
+    const bases = new Map(members.map(member => [member.id, policy === 'EQUAL' ? 1 : 0]));
+    if (policy !== 'EQUAL') {
+        const allocations = await prisma.fundAllocation.findMany({
+            where: { membershipId: { in: members.map(m => m.id) }, fund: { type: { in: ['SAVINGS', 'SHARE_CAPITAL'] } } },
+            include: { contribution: { select: { paidAt: true } }, withdrawal: { select: { paidAt: true } }, dividendPayout: { select: { paidAt: true } } },
+        });
+
+        for (const allocation of allocations) {
+            const heldFrom = allocation.contribution?.paidAt ?? allocation.withdrawal?.paidAt ?? allocation.dividendPayout?.paidAt ?? allocation.createdAt;
+            if (heldFrom > yearEnd) {
+                continue;
+            }
+            const monthsHeld = heldFrom < yearStart ? 12 : 12 - getMonth(heldFrom);
+            const weight = policy === 'MONTHS_WEIGHTED' ? monthsHeld / 12 : 1;
+            bases.set(allocation.membershipId, (bases.get(allocation.membershipId) ?? 0) + allocation.amount * weight);
+        }
+    }
+
+    return members
+        .map(member => ({
+            membershipId: member.id,
+            name: `${member.user.firstName} ${member.user.lastName}`,
+            basis: roundAmount(bases.get(member.id) ?? 0),
+        }))
+        .filter(member => member.basis > 0);
+};
+
+/**
+ * Totals the interest and penalty income the chama's ledger recorded for a financial year.
+ */
+const calculateDistributableIncome = async (chamaId: string, financialYear: number) => {
+    const from = startOfYear(new Date(financialYear, 0, 1));
+    const dateRange = { from, to: endOfYear(from) };
+
+    const interest = await sumAccountMovements(chamaId, 'INTEREST_INCOME', { dateRange });
+    const penalties = await sumAccountMovements(chamaId, 'PENALTY_INCOME', { dateRange });
+
+    const interestIncome = roundAmount(Math.max(interest.credit - interest.debit, 0));
+    const penaltyIncome = roundAmount(Math.max(penalties.credit - penalties.debit, 0));
+
+    return { interestIncome, penaltyIncome, totalAmount: roundAmount(interestIncome + penaltyIncome) };
+};
+
+/**
+ * Shares a year's interest and penalty income among members under a distribution policy. Rounding
+ * differences go to the last member, so the shares always add up to the income.
+ */
+export const calculateDividends = async (chamaId: string, financialYear: number, policy: DividendPolicy) => {
+    const income = await calculateDistributableIncome(chamaId, financialYear);
+    if (income.totalAmount <= 0) {
+        throw new AppError(`The chama earned no interest or penalty income in ${financialYear}.`, 400);
+    }
+
+    const members = await calculateBases(chamaId, financialYear, policy);
+    if (members.length === 0) {
+        throw new AppError(`No active member held savings in ${financialYear}.`, 400);
+    }
+
+    const totalBasis = members.reduce((sum, member) => sum + member.basis, 0);
+    let allocated = 0;
+    const shares: MemberShare[] = members.map((member, index) => {
+        const amount = index === members.length - 1
+            ? roundAmount(income.totalAmount - allocated)
+            : roundAmount(income.totalAmount * member.basis / totalBasis);
+        allocated = roundAmount(allocated + amount);
+        return { ...member, amount };
+    });
+
+    return { ...income, shares };
+};
+
+/**
+ * Works out a year's dividend and saves it as a draft for the officers to check. Running it again
+ * before it is confirmed replaces the draft, e.g. to try another policy.
+ */
+export const previewDividendRun = async (chamaId: string, actorId: string, financialYear: number, policy: DividendPolicy, logMeta: LogMeta) => {
+    logger.info({ chamaId, actorId, financialYear, policy }, 'Previewing dividend run');
+
+    const actor = await findActiveMembership(chamaId, actorId);
+
+    const existing = await prisma.dividendRun.findUnique({ where: { chamaId_financialYear: { chamaId, financialYear } } });
+    if (existing?.status === 'CONFIRMED') {
+        throw new AppError(`The dividend for ${financialYear} has already been confirmed.`, 409);
+    }
+
+    const { interestIncome, penaltyIncome, totalAmount, shares } = await calculateDividends(chamaId, financialYear, policy);
+
+    const run = await prisma.$transaction(async (tx) => {
+        if (existing) {
+            await tx.dividendRun.delete({ where: { id: existing.id } });
+        }
+        return tx.dividendRun.create({
+            data: {
+                chamaId,
+                financialYear,
+                policy,
+                interestIncome,
+                penaltyIncome,
+                totalAmount,
+                createdById: actor.id,
+                payouts: { create: shares.map(({ membershipId, basis, amount }) => ({ membershipId, basis, amount })) },
+            },
+            include: runInclude,
+        });
+    });
+
+    await createAuditLog({
+        action: AuditAction.DIVIDEND_PREVIEW,
+        actorId,
+        chamaId,
+        oldValue: existing,
+        newValue: { runId: run.id, financialYear, policy, totalAmount, memberCount: shares.length },
+        ...logMeta,
+    });
+
+    logger.info({ chamaId, runId: run.id, financialYear, policy, totalAmount }, 'Dividend run previewed');
+
+    return run;
+};
+
+// A payout that could not be sent stays FAILED and can be sent again.
+const sendMpesaPayout = async (payout: { id: string; amount: number; membership: { user: { phone: string } } }) => {
+    try {
+        const response = await initiateB2CPayment(payout.membership.user.phone, payout.amount, 'Dividend payout');
+        return prisma.dividendPayout.update({ where: { id: payout.id }, data: { status: 'PENDING', mpesaB2CRequestId: response.reference } });
+    } catch (error) {
+        logger.warn({ error, payoutId: payout.id }, 'Failed to initiate dividend B2C payout');
+        return prisma.dividendPayout.update({ where: { id: payout.id }, data: { status: 'FAILED' } });
+    }
+};
+
+/**
+ * Confirms a draft dividend run once its financial year has ended. The income is checked again so the
+ * confirmed figures match the books. Each member's share is then either credited to their savings
+ * straight away or sent to their phone by M-Pesa B2C.
+ */
+export const confirmDividendRun = async (chamaId: string, runId: string, actorId: string, payoutMethod: DividendPayoutMethod, logMeta: LogMeta) => {
+    logger.info({ chamaId, runId, actorId, payoutMethod }, 'Confirming dividend run');
+
+    const run = await findRun(chamaId, runId);
+    if (run.status !== 'DRAFT') {
+        throw new AppError('This dividend run has already been confirmed.', 409);
+    }
+    if (endOfYear(new Date(run.financialYear, 0, 1)) >= new Date()) {
+        throw new AppError(`The dividend for ${run.financialYear} can be confirmed once the financial year has ended.`, 400);
+    }
+    const income = await calculateDistributableIncome(chamaId, run.financialYear);
+    if (income.totalAmount !== run.totalAmount) {
+        throw new AppError('The chama\'s income has changed since this preview was made. Preview the dividend again before confirming.', 409);
+    }
+
+    const confirmer = await findActiveMembership(chamaId, actorId);
+    const savingsFund = payoutMethod === 'CREDIT_SAVINGS'
+        ? (await getChamaFunds(chamaId)).find(fund => fund.type === 'SAVINGS')
+        : undefined;
+
+    await prisma.$transaction(async (tx) => {
+        await tx.dividendRun.update({
+            where: { id: run.id },
+            data: { status: 'CONFIRMED', payoutMethod, confirmedAt: new Date(), confirmedById: confirmer.id },
+        });
+        await postDividendDeclaration(run, run.payouts, chamaId, tx);
+
+        if (savingsFund) {
+            await tx.fundAllocation.createMany({
+                data: run.payouts.map(payout => ({ dividendPayoutId: payout.id, fundId: savingsFund.id, membershipId: payout.membershipId, amount: payout.amount })),
+            });
+            await tx.dividendPayout.updateMany({ where: { runId: run.id }, data: { status: 'PAID', paidAt: new Date() } });
+        }
+    });
+
+    if (payoutMethod === 'MPESA') {
+        for (const payout of run.payouts) {
+            await sendMpesaPayout(payout);
+        }
+    }
+
+    const confirmed = await findRun(chamaId, runId);
+
+    await createAuditLog({
+        action: AuditAction.DIVIDEND_CONFIRM,
+        actorId,
+        chamaId,
+        oldValue: { status: run.status },
+        newValue: { runId, status: confirmed.status, payoutMethod, totalAmount: confirmed.totalAmount, memberCount: confirmed.payouts.length },
+        ...logMeta,
+    });
+
+    if (payoutMethod === 'CREDIT_SAVINGS') {
+        for (const payout of confirmed.payouts) {
+            await createNotification({
+                membershipId: payout.membershipId,
+                title: 'Dividend Credited',
+                message: `Your ${run.financialYear} dividend of KES ${payout.amount.toFixed(2)} has been added to your savings.`,
+                type: NotificationType.GENERAL,
+            });
+        }
+    }
+
+    logger.info({ chamaId, runId, payoutMethod, totalAmount: confirmed.totalAmount }, 'Dividend run confirmed');
+
+    return confirmed;
+};
+
+/**
+ * Sends the M-Pesa payouts of a confirmed run that failed again.
+ */
+export const retryFailedPayouts = async (chamaId: string, runId: string, actorId: string) => {
+    logger.info({ chamaId, runId, actorId }, 'Retrying failed dividend payouts');
+
+    const run = await findRun(chamaId, runId);
+    if (run.status !== 'CONFIRMED' || run.payoutMethod !== 'MPESA') {
+        throw new AppError('Only confirmed M-Pesa dividend runs have payouts to retry.', 409);
+    }
+
+    const failed = run.payouts.filter(payout => payout.status === 'FAILED');
+    if (failed.length === 0) {
+        throw new AppError('This dividend run has no failed payouts.', 400);
+    }
+    for (const payout of failed) {
+        await sendMpesaPayout(payout);
+    }
+
+    return findRun(chamaId, runId);
+};
+
+/**
+ * Settles a dividend sent by M-Pesa B2C once the result or timeout callback arrives.
+ * @returns The payout, or null when the conversation is not a dividend payout.
+ */
+export const settleMpesaDividend = async (conversationId: string, succeeded: boolean, receipt?: string) => {
+    const payout = await prisma.dividendPayout.findUnique({ where: { mpesaB2CRequestId: conversationId }, include: { run: true } });
+    if (!payout) {
+        return null;
+    }
+    if (payout.status !== 'PENDING') {
+        logger.warn({ payoutId: payout.id, status: payout.status }, 'Dividend payout already settled');
+        return payout;
+    }
+
+    const { chamaId, financialYear } = payout.run;
+    if (!succeeded) {
+        const failed = await prisma.dividendPayout.update({ where: { id: payout.id }, data: { status: 'FAILED' } });
+        logger.warn({ chamaId, payoutId: payout.id }, 'Dividend payout failed');
+        return failed;
+    }
+
+    const paid = await prisma.$transaction(async (tx) => {
+        const updated = await tx.dividendPayout.update({
+            where: { id: payout.id },
+            data: { status: 'PAID', paidAt: new Date(), mpesaCode: receipt ?? null },
+        });
+        await tx.transaction.create({
+            data: {
+                chamaId,
+                type: 'DIVIDEND',
+                amount: -updated.amount, // Negative amount as money is going out
+                description: `Dividend for ${financialYear}${receipt ? `. Ref: ${receipt}` : ''}`,
+            },
+        });
+        await postDividendPayout(updated, chamaId, tx);
+        return updated;
+    });
+
+    const { run, ...oldValue } = payout;
+    await createAuditLog({
+        action: AuditAction.DIVIDEND_PAYOUT,
+        actorId: null,
+        chamaId,
+        oldValue,
+        newValue: paid,
+    });
+
+    await createNotification({
+        membershipId: paid.membershipId,
+        title: 'Dividend Paid',
+        message: `Your ${financialYear} dividend of KES ${paid.amount.toFixed(2)} has been sent to your M-Pesa.`,
+        type: NotificationType.GENERAL,
+    });
+
+    logger.info({ chamaId, payoutId: paid.id, receipt }, 'Dividend payout settled');
+
+    return paid;
+};
+
+export const findDividendRuns = async (chamaId: string) => {
+    logger.info({ chamaId }, 'Fetching dividend runs');
+
+    return prisma.dividendRun.findMany({
+        where: { chamaId },
+        include: { _count: { select: { payouts: true } } },
+        orderBy: { financialYear: 'desc' },
+    });
+};
+
+export const getDividendRun = findRun;
+
+type DividendRunWithPayouts = Awaited<ReturnType<typeof findRun>>;
+
+const memberName = (payout: DividendRunWithPayouts['payouts'][number]) =>
+    `${payout.membership.user.firstName} ${payout.membership.user.lastName}`;
+
+const officerName = (membership: DividendRunWithPayouts['createdBy'] | null) =>
+    membership ? `${membership.user.firstName} ${membership.user.lastName}` : '-';
+
+const generateStatementPdf = (run: DividendRunWithPayouts, chamaName: string): Promise<Buffer> => {
+    return new Promise((resolve) => {
+        const doc = new PDFDocument({ size: 'A4', margin: 50 });
+        const buffers: any[] = [];
+
+        doc.on('data', buffers.push.bind(buffers));
+        doc.on('end', () => resolve(Buffer.concat(buffers)));
+
+        doc.fontSize(18).text(`${chamaName} Dividend Statement ${run.financialYear}`, { align: 'center' });
+        doc.moveDown();
+        doc.fontSize(10);
+        doc.text(`Policy: ${run.policy}`);
+        doc.text(`Interest income: KES ${run.interestIncome.toFixed(2)}`);
+        doc.text(`Penalty income: KES ${run.penaltyIncome.toFixed(2)}`);
+        doc.text(`Total distributed: KES ${run.totalAmount.toFixed(2)}`);
+        doc.text(`Status: ${run.status}${run.payoutMethod ? ` (${run.payoutMethod})` : ''}`);
+        doc.text(`Prepared by: ${officerName(run.createdBy)} on ${run.createdAt.toLocaleDateString()}`);
+        doc.text(`Confirmed by: ${officerName(run.confirmedBy)}${run.confirmedAt ? ` on ${run.confirmedAt.toLocaleDateString()}` : ''}`);
+        doc.moveDown();
+
+        doc.font('Helvetica-Bold').text('Member | Basis | Dividend | Status');
+        doc.font('Helvetica');
+        run.payouts.forEach(payout => {
+            doc.text(`${memberName(payout)} | ${payout.basis.toFixed(2)} | ${payout.amount.toFixed(2)} | ${payout.status}`);
+        });
+
+        doc.end();
+    });
+};
+
+const generateStatementExcel = async (run: DividendRunWithPayouts): Promise<Buffer> => {
+    const workbook = new ExcelJS.Workbook();
+
+    const summary = workbook.addWorksheet('Summary');
+    summary.columns = [{ header: 'Item', key: 'item', width: 25 }, { header: 'Value', key: 'value', width: 30 }];
+    summary.addRows([
+        { item: 'Financial year', value: run.financialYear },
+        { item: 'Policy', value: run.policy },
+        { item: 'Interest income', value: run.interestIncome },
+        { item: 'Penalty income', value: run.penaltyIncome },
+        { item: 'Total distributed', value: run.totalAmount },
+        { item: 'Status', value: run.status },
+        { item: 'Payout method', value: run.payoutMethod ?? '-' },
+        { item: 'Prepared by', value: officerName(run.createdBy) },
+        { item: 'Prepared at', value: run.createdAt },
+        { item: 'Confirmed by', value: officerName(run.confirmedBy) },
+        { item: 'Confirmed at', value: run.confirmedAt ?? '-' },
+    ]);
+
+    const payouts = workbook.addWorksheet('Payouts');
+    payouts.columns = [
+        { header: 'Member', key: 'member', width: 30 },
+        { header: 'Basis', key: 'basis', width: 15 },
+        { header: 'Dividend', key: 'amount', width: 15 },
+        { header: 'Status', key: 'status', width: 12 },
+        { header: 'M-Pesa Code', key: 'mpesaCode', width: 15 },
+        { header: 'Paid At', key: 'paidAt', width: 25 },
+    ];
+    payouts.addRows(run.payouts.map(payout => ({
+        member: memberName(payout),
+        basis: payout.basis,
+        amount: payout.amount,
+        status: payout.status,
+        mpesaCode: payout.mpesaCode ?? '',
+        paidAt: payout.paidAt ?? '',
+    })));
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return buffer as unknown as Buffer;
+};
+
+/**
+ * Exports a dividend run as a PDF or Excel statement showing the income shared, who prepared and
+ * confirmed it, and each member's dividend.
+ */
+export const exportDividendStatement = async (chamaId: string, runId: string, format: 'pdf' | 'excel') => {
+    logger.info({ chamaId, runId, format }, 'Exporting dividend statement');
+
+    const run = await findRun(chamaId, runId);
+    const chama = await prisma.chama.findUnique({ where: { id: chamaId }, select: { name: true } });
+
+    const buffer = format === 'pdf'
+        ? await generateStatementPdf(run, chama?.name ?? 'Chama')
+        : await generateStatementExcel(run);
+
+    return { buffer, financialYear: run.financialYear };
+};
@@ -0,0 +1,189 @@
+import { AuditAction, ExpenseCategory, ExpenseStatus, NotificationType, Prisma, PrismaClient, TransactionType } from '@prisma/client';
+import { createAuditLog } from './audit.service';
+import { createNotification } from './notification.service';
+import { postExpense } from './ledger.service';
+import { AppError } from '../utils/customErrors';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+interface LogMeta {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+interface ExpenseInput {
+    category: ExpenseCategory;
+    amount: number;
+    description: string;
+    receiptId?: string;
+}
+
+interface ExpenseFilters {
+    status?: ExpenseStatus;
+    category?: ExpenseCategory;
+}
+
+const expenseInclude = {
+    requestedBy: { include: { user: { select: { firstName: true, lastName: true } } } },
+    reviewedBy: { include: { user: { select: { firstName: true, lastName: true } } } },
+    receipt: true,
+};
+
+const findActiveMembership = async (chamaId: string, userId: string) => {
+    const membership = await prisma.membership.findFirst({ where: { chamaId, userId, isActive: true } });
+    if (!membership) {
+        throw new AppError('You are not an active member of this chama.', 403);
+    }
+    return membership;
+};
+
+/**
+ * Records a request to spend chama funds. The receipt is a file already uploaded to the chama
+ * through the file upload endpoint.
+ */
+export const requestExpense = async (chamaId: string, actorId: string, data: ExpenseInput, logMeta: LogMeta) => {
+    logger.info({ chamaId, actorId, category: data.category, amount: data.amount }, 'Requesting expense');
+
+    const membership = await findActiveMembership(chamaId, actorId);
+
+    if (data.receiptId) {
+        const receipt = await prisma.file.findFirst({ where: { id: data.receiptId, chamaId }, include: { expense: true } });
+        if (!receipt) {
+            throw new AppError('Receipt not found. Upload it to this chama first.', 404);
+        }
+        if (receipt.expense) {
+            throw new AppError('This receipt is already attached to another expense.', 409);
+        }
+    }
+
+    const expense = await prisma.expense.create({
+        data: {
+            chamaId,
+            requestedById: membership.id,
+            category: data.category,
+            amount: data.amount,
+            description: data.description,
+            receiptId: data.receiptId,
+        },
+        include: expenseInclude,
+    });
+
+    await createAuditLog({
+        action: AuditAction.EXPENSE_REQUEST,
+        actorId,
+        chamaId,
+        newValue: expense,
+        ...logMeta,
+    });
+
+    logger.info({ chamaId, expenseId: expense.id, amount: expense.amount }, 'Expense requested');
+
+    return expense;
+};
+
+/**
+ * Approves or rejects a pending expense. Approving pays it out: a negative EXPENSE transaction is
+ * written to the chama's books and the expense is posted to the ledger. Requesters cannot review
+ * their own expenses.
+ */
+export const reviewExpense = async (
+    chamaId: string,
+    expenseId: string,
+    status: ExpenseStatus,
+    actorId: string,
+    logMeta: LogMeta,
+    reviewNotes?: string
+) => {
+    logger.info({ chamaId, expenseId, status, actorId }, 'Reviewing expense');
+
+    const expense = await prisma.expense.findFirst({ where: { id: expenseId, chamaId }, include: { requestedBy: true } });
+    if (!expense) {
+        throw new AppError('Expense not found.', 404);
+    }
+    if (expense.status !== ExpenseStatus.PENDING) {
+        throw new AppError(`This expense has already been ${expense.status.toLowerCase()}.`, 409);
+    }
+    if (status !== ExpenseStatus.APPROVED && status !== ExpenseStatus.REJECTED) {
+        throw new AppError('Invalid status provided. Must be APPROVED or REJECTED.', 400);
+    }
+    if (expense.requestedBy.userId === actorId) {
+        throw new AppError('You cannot review an expense you requested.', 403);
+    }
+
+    const reviewer = await findActiveMembership(chamaId, actorId);
+
+    const reviewed = await prisma.$transaction(async (tx) => {
+        const updated = await tx.expense.update({
+            where: { id: expense.id },
+            data: { status, reviewNotes, reviewedAt: new Date(), reviewedById: reviewer.id },
+            include: expenseInclude,
+        });
+
+        if (status === ExpenseStatus.APPROVED) {
+            await tx.transaction.create({
+                data: {
+                    chamaId,
+                    type: TransactionType.EXPENSE,
+                    amount: -updated.amount, // Negative amount as money is going out
+                    description: `Expense (${updated.category}): ${updated.description}`,
+                },
+            });
+            await postExpense(updated, chamaId, tx);
+        }
+
+        return updated;
+    });
+
+    const { requestedBy, ...oldValue } = expense;
+    await createAuditLog({
+        action: status === ExpenseStatus.APPROVED ? AuditAction.EXPENSE_APPROVE : AuditAction.EXPENSE_REJECT,
+        actorId,
+        chamaId,
+        targetId: requestedBy.userId,
+        oldValue,
+        newValue: reviewed,
+        ...logMeta,
+    });
+
+    await createNotification({
+        membershipId: expense.requestedById,
+        title: status === ExpenseStatus.APPROVED ? 'Expense Approved' : 'Expense Rejected',
+        message: `Your KES ${expense.amount.toFixed(2)} expense for "${expense.description}" has been ${status.toLowerCase()}.${reviewNotes ? ` Note: ${reviewNotes}` : ''}`,
+        type: NotificationType.GENERAL,
+    });
+
+    logger.info({ chamaId, expenseId, status, amount: expense.amount }, 'Expense reviewed');
+
+    return reviewed;
+};
+
+/**
+ * Lists a chama's expenses, newest first, with totals for each status.
+ */
+export const findChamaExpenses = async (chamaId: string, filters: ExpenseFilters, page: number, limit: number) => {
+    logger.info({ chamaId, filters, page, limit }, 'Fetching chama expenses');
+
+    const where: Prisma.ExpenseWhereInput = { chamaId, status: filters.status, category: filters.category };
+
+    const expenses = await prisma.expense.findMany({
+        where,
+        include: expenseInclude,
+        orderBy: { requestedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+    });
+    const totalRecords = await prisma.expense.count({ where });
+    const totals = await prisma.expense.groupBy({
+        by: ['status'],
+        where: { chamaId, category: filters.category },
+        _sum: { amount: true },
+    });
+
+    return {
+        expenses,
+        totals: Object.fromEntries(totals.map(t => [t.status, t._sum.amount || 0])),
+        totalRecords,
+        totalPages: Math.ceil(totalRecords / limit),
+    };
+};
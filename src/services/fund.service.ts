@@ -0,0 +1,241 @@
+import { AuditAction, Contribution, Fund, FundType, Prisma, PrismaClient } from '@prisma/client';
+import { createAuditLog } from './audit.service';
+import { AppError } from '../utils/customErrors';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+type FundClient = PrismaClient | Prisma.TransactionClient;
+
+interface LogMeta {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface FundInput {
+    id?: string;
+    name: string;
+    type: FundType;
+    allocationRate: number;
+    isWithdrawable?: boolean;
+    withdrawalNoticeDays?: number;
+    minimumBalance?: number;
+}
+
+// Rates are stored as fractions, so allow for floating point error when checking they add up to 1.
+const RATE_TOLERANCE = 0.0001;
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Returns a chama's funds, creating a single savings fund that takes the whole of every contribution
+ * if the chama has not set any up yet.
+ */
+export const getChamaFunds = async (chamaId: string, client: FundClient = prisma): Promise<Fund[]> => {
+    const funds = await client.fund.findMany({ where: { chamaId }, orderBy: { createdAt: 'asc' } });
+    if (funds.length > 0) {
+        return funds;
+    }
+
+    const savings = await client.fund.upsert({
+        where: { chamaId_name: { chamaId, name: 'Savings' } },
+        update: {},
+        create: { chamaId, name: 'Savings', type: 'SAVINGS', allocationRate: 1, isWithdrawable: true },
+    });
+    return [savings];
+};
+
+/**
+ * Splits an amount across funds by their allocation rates. Rounding differences go to the last fund,
+ * so the parts always add up to the amount.
+ */
+export const splitAcrossFunds = (amount: number, funds: Pick<Fund, 'id' | 'allocationRate'>[]) => {
+    let allocated = 0;
+    return funds.map((fund, index) => {
+        const share = index === funds.length - 1
+            ? roundAmount(amount - allocated)
+            : roundAmount(amount * fund.allocationRate);
+        allocated = roundAmount(allocated + share);
+        return { fundId: fund.id, amount: share };
+    });
+};
+
+/**
+ * Brings a contribution's fund allocations in line with what has been paid on it. Called whenever a
+ * contribution's amount changes. Only the change is allocated, so earlier allocations stay in the funds
+ * they were paid into: an increase is split at the chama's current rates, and a decrease comes back out
+ * of the contribution's funds in proportion to what each holds.
+ */
+export const allocateContribution = async (
+    contribution: Pick<Contribution, 'id' | 'membershipId' | 'amount'>,
+    chamaId: string,
+    client: FundClient = prisma
+) => {
+    const existing = await client.fundAllocation.findMany({ where: { contributionId: contribution.id }, orderBy: { createdAt: 'asc' } });
+    const allocated = roundAmount(existing.reduce((sum, allocation) => sum + allocation.amount, 0));
+    const change = roundAmount(contribution.amount - allocated);
+    if (change === 0) {
+        return [];
+    }
+
+    const funds = change > 0
+        ? await getChamaFunds(chamaId, client)
+        : existing.map(allocation => ({ id: allocation.fundId, allocationRate: allocation.amount / allocated }));
+    const changes = splitAcrossFunds(change, funds)
+        .filter(allocation => allocation.amount !== 0)
+        .map(allocation => ({ ...allocation, contributionId: contribution.id, membershipId: contribution.membershipId }));
+
+    const created: typeof changes = [];
+    for (const allocation of changes) {
+        const current = existing.find(row => row.fundId === allocation.fundId);
+        if (!current) {
+            created.push(allocation);
+            continue;
+        }
+        const amount = roundAmount(current.amount + allocation.amount);
+        if (amount === 0) {
+            await client.fundAllocation.delete({ where: { id: current.id } });
+        } else {
+            await client.fundAllocation.update({ where: { id: current.id }, data: { amount } });
+        }
+    }
+    if (created.length > 0) {
+        await client.fundAllocation.createMany({ data: created });
+    }
+
+    return changes;
+};
+
+const validateFunds = (funds: FundInput[]) => {
+    const names = new Set(funds.map(fund => fund.name.trim().toLowerCase()));
+    if (names.size !== funds.length) {
+        throw new AppError('Each fund must have a different name.', 400);
+    }
+
+    const totalRate = funds.reduce((sum, fund) => sum + fund.allocationRate, 0);
+    if (Math.abs(totalRate - 1) > RATE_TOLERANCE) {
+        throw new AppError('Allocation rates must add up to 1 so that every contribution is fully allocated.', 400);
+    }
+
+    // Loan eligibility is worked out from savings, so a chama without a savings fund could never lend.
+    if (!funds.some(fund => fund.type === 'SAVINGS')) {
+        throw new AppError('A chama needs at least one SAVINGS fund.', 400);
+    }
+
+    if (funds.some(fund => fund.type === 'SHARE_CAPITAL' && fund.isWithdrawable)) {
+        throw new AppError('Share capital cannot be withdrawn.', 400);
+    }
+};
+
+/**
+ * Replaces a chama's fund setup. Funds listed with an `id` are updated, those without one are created,
+ * and funds left out are removed, which is only allowed while nothing has been allocated to them.
+ * Savings funds are withdrawable unless stated otherwise; other funds are not. New rates apply to
+ * contributions paid from now on.
+ */
+export const saveFunds = async (chamaId: string, actorId: string, funds: FundInput[], logMeta: LogMeta) => {
+    logger.info({ chamaId, actorId, fundCount: funds.length }, 'Saving chama funds');
+
+    validateFunds(funds);
+
+    const { oldValue, newValue } = await prisma.$transaction(async (tx) => {
+        const existing = await getChamaFunds(chamaId, tx);
+        const existingIds = new Set(existing.map(fund => fund.id));
+
+        const unknown = funds.find(fund => fund.id && !existingIds.has(fund.id));
+        if (unknown) {
+            throw new AppError(`Fund ${unknown.id} was not found in this chama.`, 404);
+        }
+
+        const keptIds = new Set(funds.map(fund => fund.id).filter(Boolean));
+        for (const fund of existing.filter(fund => !keptIds.has(fund.id))) {
+            const allocated = await tx.fundAllocation.count({ where: { fundId: fund.id } });
+            if (allocated > 0) {
+                throw new AppError(`The ${fund.name} fund holds member balances and cannot be removed.`, 409);
+            }
+            await tx.fund.delete({ where: { id: fund.id } });
+        }
+
+        for (const { id, ...fund } of funds) {
+            const data = {
+                name: fund.name.trim(),
+                type: fund.type,
+                allocationRate: fund.allocationRate,
+                isWithdrawable: fund.isWithdrawable ?? fund.type === 'SAVINGS',
+                withdrawalNoticeDays: fund.withdrawalNoticeDays ?? 0,
+                minimumBalance: fund.minimumBalance ?? 0,
+            };
+            if (id) {
+                await tx.fund.update({ where: { id }, data });
+            } else {
+                await tx.fund.create({ data: { ...data, chamaId } });
+            }
+        }
+
+        return {
+            oldValue: existing,
+            newValue: await tx.fund.findMany({ where: { chamaId }, orderBy: { createdAt: 'asc' } }),
+        };
+    });
+
+    await createAuditLog({
+        action: AuditAction.FUND_CONFIGURE,
+        actorId,
+        chamaId,
+        oldValue,
+        newValue,
+        ...logMeta,
+    });
+
+    logger.info({ chamaId, funds: newValue.map(fund => fund.name) }, 'Chama funds saved');
+
+    return newValue;
+};
+
+/**
+ * Returns a chama's funds with the total members hold in each.
+ */
+export const getFundTotals = async (chamaId: string) => {
+    const funds = await getChamaFunds(chamaId);
+    const totals = await prisma.fundAllocation.groupBy({
+        by: ['fundId'],
+        where: { fund: { chamaId } },
+        _sum: { amount: true },
+    });
+
+    return funds.map(fund => ({
+        ...fund,
+        totalBalance: roundAmount(totals.find(total => total.fundId === fund.id)?._sum.amount || 0),
+    }));
+};
+
+/**
+ * Returns a member's balance in each of the chama's funds, and how much of it the fund's rules allow
+ * them to withdraw.
+ */
+export const getMemberFundBalances = async (chamaId: string, membershipId: string) => {
+    const membership = await prisma.membership.findFirst({ where: { id: membershipId, chamaId } });
+    if (!membership) {
+        throw new AppError('Member not found in this chama.', 404);
+    }
+
+    const funds = await getChamaFunds(chamaId);
+    const balances = await prisma.fundAllocation.groupBy({
+        by: ['fundId'],
+        where: { membershipId },
+        _sum: { amount: true },
+    });
+
+    return funds.map(fund => {
+        const balance = roundAmount(balances.find(b => b.fundId === fund.id)?._sum.amount || 0);
+        return {
+            fundId: fund.id,
+            name: fund.name,
+            type: fund.type,
+            balance,
+            isWithdrawable: fund.isWithdrawable,
+            withdrawalNoticeDays: fund.withdrawalNoticeDays,
+            availableToWithdraw: fund.isWithdrawable ? roundAmount(Math.max(balance - fund.minimumBalance, 0)) : 0,
+        };
+    });
+};
@@ -0,0 +1,615 @@
+import {
+    Contribution,
+    DividendPayout,
+    DividendRun,
+    Expense,
+    JournalSourceType,
+    LedgerAccountKey,
+    LedgerAccountType,
+    Loan,
+    LoanPayment,
+    Prisma,
+    PrismaClient,
+    RotationPayout,
+    Withdrawal,
+} from '@prisma/client';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+type LedgerClient = PrismaClient | Prisma.TransactionClient;
+
+interface DateRange {
+    from?: Date;
+    to?: Date;
+}
+
+export interface JournalLineInput {
+    account: LedgerAccountKey;
+    debit?: number | null;
+    credit?: number | null;
+    membershipId?: string | null;
+}
+
+export interface JournalEntryInput {
+    chamaId: string;
+    description: string;
+    sourceType: JournalSourceType;
+    sourceId?: string | null;
+    reference?: string | null;
+    postedAt?: Date | null;
+    lines: JournalLineInput[];
+}
+
+/**
+ * Standard chart of accounts provisioned for every chama the first time it posts to the ledger.
+ */
+const CHART_OF_ACCOUNTS: Array<{ systemKey: LedgerAccountKey; code: string; name: string; type: LedgerAccountType }> = [
+    { systemKey: 'CASH', code: '1000', name: 'Cash & M-Pesa Float', type: 'ASSET' },
+    { systemKey: 'LOANS_RECEIVABLE', code: '1100', name: 'Loans Receivable', type: 'ASSET' },
+    { systemKey: 'MEMBER_SAVINGS', code: '2000', name: 'Member Savings', type: 'LIABILITY' },
+    { systemKey: 'INTEREST_INCOME', code: '4000', name: 'Interest Income', type: 'INCOME' },
+    { systemKey: 'PENALTY_INCOME', code: '4100', name: 'Penalty Income', type: 'INCOME' },
+    { systemKey: 'EXPENSES', code: '5000', name: 'Operating Expenses', type: 'EXPENSE' },
+];
+
+const DEBIT_NORMAL_TYPES: LedgerAccountType[] = ['ASSET', 'EXPENSE'];
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const ensureChartOfAccounts = async (chamaId: string, client: LedgerClient) => {
+    let accounts = await client.ledgerAccount.findMany({ where: { chamaId } });
+
+    if (accounts.length < CHART_OF_ACCOUNTS.length) {
+        await client.ledgerAccount.createMany({
+            data: CHART_OF_ACCOUNTS.map(account => ({ ...account, chamaId })),
+            skipDuplicates: true,
+        });
+        accounts = await client.ledgerAccount.findMany({ where: { chamaId } });
+        logger.info({ chamaId }, 'Chart of accounts provisioned');
+    }
+
+    return new Map(accounts.map(account => [account.systemKey, account]));
+};
+
+/**
+ * Posts a balanced journal entry. Zero-value lines are dropped; an entry whose lines are all zero is skipped.
+ * Pass a transaction client to post atomically with the business record that caused the entry.
+ */
+export const postJournalEntry = async (input: JournalEntryInput, client: LedgerClient = prisma) => {
+    const lines = input.lines
+        .map(line => ({ ...line, debit: roundAmount(line.debit || 0), credit: roundAmount(line.credit || 0) }))
+        .filter(line => line.debit !== 0 || line.credit !== 0);
+
+    if (lines.length === 0) {
+        logger.debug({ chamaId: input.chamaId, sourceType: input.sourceType, sourceId: input.sourceId }, 'Skipping zero-value journal entry');
+        return null;
+    }
+
+    if (lines.some(line => line.debit < 0 || line.credit < 0 || (line.debit > 0 && line.credit > 0))) {
+        throw new Error('Each journal line must be either a positive debit or a positive credit.');
+    }
+
+    const totalDebit = roundAmount(lines.reduce((sum, line) => sum + line.debit, 0));
+    const totalCredit = roundAmount(lines.reduce((sum, line) => sum + line.credit, 0));
+
+    if (lines.length < 2 || totalDebit !== totalCredit) {
+        logger.error({ chamaId: input.chamaId, sourceType: input.sourceType, sourceId: input.sourceId, totalDebit, totalCredit }, 'Rejected unbalanced journal entry');
+        throw new Error(`Unbalanced journal entry: debits (${totalDebit}) must equal credits (${totalCredit}).`);
+    }
+
+    const accounts = await ensureChartOfAccounts(input.chamaId, client);
+
+    const entry = await client.journalEntry.create({
+        data: {
+            chamaId: input.chamaId,
+            description: input.description,
+            sourceType: input.sourceType,
+            sourceId: input.sourceId,
+            reference: input.reference,
+            postedAt: input.postedAt || new Date(),
+            lines: {
+                create: lines.map(line => ({
+                    accountId: accounts.get(line.account)!.id,
+                    debit: line.debit,
+                    credit: line.credit,
+                    membershipId: line.membershipId,
+                })),
+            },
+        },
+        include: { lines: true },
+    });
+
+    logger.info({ entryId: entry.id, chamaId: input.chamaId, sourceType: input.sourceType, sourceId: input.sourceId, amount: totalDebit }, 'Journal entry posted');
+
+    return entry;
+};
+
+/**
+ * Cash in, credited to the member's savings. Any late penalty is charged against those savings as penalty income.
+ */
+export const postContributionReceipt = async (
+    contribution: Pick<Contribution, 'id' | 'membershipId' | 'amount' | 'penaltyApplied' | 'month' | 'year' | 'paidAt' | 'mpesaCode'>,
+    chamaId: string,
+    client: LedgerClient = prisma
+) => {
+    const { membershipId } = contribution;
+
+    return postJournalEntry({
+        chamaId,
+        description: `Contribution for ${contribution.month}/${contribution.year}`,
+        sourceType: 'CONTRIBUTION',
+        sourceId: contribution.id,
+        reference: contribution.mpesaCode,
+        postedAt: contribution.paidAt,
+        lines: [
+            { account: 'CASH', debit: contribution.amount, membershipId },
+            { account: 'MEMBER_SAVINGS', credit: contribution.amount, membershipId },
+            { account: 'MEMBER_SAVINGS', debit: contribution.penaltyApplied, membershipId },
+            { account: 'PENALTY_INCOME', credit: contribution.penaltyApplied, membershipId },
+        ],
+    }, client);
+};
+
+/**
+ * A correction to what was paid on a contribution, posted as the change alone. Earlier receipts and any credit
+ * carried in from other contributions stay on the books; a negative change takes the cash back out.
+ */
+export const postContributionAdjustment = async (
+    contribution: Pick<Contribution, 'id' | 'membershipId' | 'month' | 'year'>,
+    amountChange: number,
+    penaltyChange: number,
+    chamaId: string,
+    client: LedgerClient = prisma
+) => {
+    const { membershipId } = contribution;
+
+    return postJournalEntry({
+        chamaId,
+        description: `Correction of contribution for ${contribution.month}/${contribution.year}`,
+        sourceType: 'CONTRIBUTION',
+        sourceId: contribution.id,
+        lines: [
+            amountChange > 0 ? { account: 'CASH', membershipId, debit: amountChange } : { account: 'CASH', membershipId, credit: -amountChange },
+            amountChange > 0 ? { account: 'MEMBER_SAVINGS', membershipId, credit: amountChange } : { account: 'MEMBER_SAVINGS', membershipId, debit: -amountChange },
+            penaltyChange > 0 ? { account: 'MEMBER_SAVINGS', membershipId, debit: penaltyChange } : { account: 'MEMBER_SAVINGS', membershipId, credit: -penaltyChange },
+            penaltyChange > 0 ? { account: 'PENALTY_INCOME', membershipId, credit: penaltyChange } : { account: 'PENALTY_INCOME', membershipId, debit: -penaltyChange },
+        ],
+    }, client);
+};
+
+/**
+ * Credit a member already paid on one contribution moving to another. No cash changes hands, so the
+ * member's savings are only reclassified between the two contributions.
+ */
+export const postContributionCarryForward = async (
+    from: Pick<Contribution, 'id' | 'membershipId' | 'month' | 'year'>,
+    to: Pick<Contribution, 'id' | 'paidAt'>,
+    amount: number,
+    chamaId: string,
+    client: LedgerClient = prisma
+) => {
+    const { membershipId } = from;
+
+    return postJournalEntry({
+        chamaId,
+        description: `Credit carried forward from contribution for ${from.month}/${from.year}`,
+        sourceType: 'CONTRIBUTION',
+        sourceId: to.id,
+        reference: from.id,
+        postedAt: to.paidAt,
+        lines: [
+            { account: 'MEMBER_SAVINGS', debit: amount, membershipId },
+            { account: 'MEMBER_SAVINGS', credit: amount, membershipId },
+        ],
+    }, client);
+};
+
+/**
+ * Principal leaves the cash account and becomes a receivable from the borrower.
+ */
+export const postLoanDisbursement = async (
+    loan: Pick<Loan, 'id' | 'membershipId' | 'amount' | 'disbursedAt'>,
+    chamaId: string,
+    client: LedgerClient = prisma,
+    reference?: string | null
+) => {
+    const { membershipId } = loan;
+
+    return postJournalEntry({
+        chamaId,
+        description: `Loan disbursement for loan ID: ${loan.id}`,
+        sourceType: 'LOAN_DISBURSEMENT',
+        sourceId: loan.id,
+        reference,
+        postedAt: loan.disbursedAt,
+        lines: [
+            { account: 'LOANS_RECEIVABLE', debit: loan.amount, membershipId },
+            { account: 'CASH', credit: loan.amount, membershipId },
+        ],
+    }, client);
+};
+
+/**
+ * Splits a repayment into the principal and interest it settles. Interest is recognised in the same
+ * proportion it makes up of the total repayable; anything paid beyond the balance is an overpayment.
+ */
+export const splitLoanRepayment = (
+    loan: Pick<Loan, 'amount' | 'repaymentAmount'>,
+    paymentAmount: number,
+    paidBefore: number
+) => {
+    const repaymentAmount = loan.repaymentAmount || loan.amount;
+    const outstanding = Math.max(repaymentAmount - paidBefore, 0);
+    const applied = roundAmount(Math.min(paymentAmount, outstanding));
+    const interestShare = repaymentAmount > 0 ? Math.max(repaymentAmount - loan.amount, 0) / repaymentAmount : 0;
+    const interest = roundAmount(applied * interestShare);
+
+    return {
+        principal: roundAmount(applied - interest),
+        interest,
+        overpayment: roundAmount(paymentAmount - applied),
+    };
+};
+
+export interface RepaymentAllocation {
+    principal: number;
+    interest: number;
+    penalty?: number;
+    overpayment: number;
+}
+
+/**
+ * Cash in, reducing the receivable and recognising interest and penalty income as allocated by the
+ * caller. Penalty interest is only recognised when paid. Overpayments are held in the member's savings.
+ */
+export const postLoanRepayment = async (
+    payment: Pick<LoanPayment, 'id' | 'amount' | 'paidAt' | 'mpesaCode'>,
+    loan: Pick<Loan, 'id' | 'membershipId'>,
+    allocation: RepaymentAllocation,
+    chamaId: string,
+    client: LedgerClient = prisma
+) => {
+    const { membershipId } = loan;
+    const { principal, interest, penalty = 0, overpayment } = allocation;
+
+    return postJournalEntry({
+        chamaId,
+        description: `Loan repayment for loan ID: ${loan.id}`,
+        sourceType: 'LOAN_REPAYMENT',
+        sourceId: payment.id,
+        reference: payment.mpesaCode,
+        postedAt: payment.paidAt,
+        lines: [
+            { account: 'CASH', debit: payment.amount, membershipId },
+            { account: 'LOANS_RECEIVABLE', credit: principal, membershipId },
+            { account: 'INTEREST_INCOME', credit: interest, membershipId },
+            { account: 'PENALTY_INCOME', credit: penalty, membershipId },
+            { account: 'MEMBER_SAVINGS', credit: overpayment, membershipId },
+        ],
+    }, client);
+};
+
+/**
+ * Cash out to cover a chama running cost.
+ */
+export const postExpense = async (
+    expense: Pick<Expense, 'id' | 'amount' | 'category' | 'description' | 'reviewedAt'>,
+    chamaId: string,
+    client: LedgerClient = prisma
+) => {
+    return postJournalEntry({
+        chamaId,
+        description: `Expense (${expense.category}): ${expense.description}`,
+        sourceType: 'EXPENSE',
+        sourceId: expense.id,
+        postedAt: expense.reviewedAt,
+        lines: [
+            { account: 'EXPENSES', debit: expense.amount },
+            { account: 'CASH', credit: expense.amount },
+        ],
+    }, client);
+};
+
+/**
+ * A member's savings paid out. Contribution penalties were charged against savings when they were
+ * incurred, so the part of the withdrawal that recovers them has already left the member's balance.
+ * Any loan recovered from the withdrawal is posted separately as a repayment.
+ */
+export const postWithdrawal = async (
+    withdrawal: Pick<Withdrawal, 'id' | 'membershipId' | 'type' | 'grossAmount' | 'penaltyOffset' | 'paidAt' | 'mpesaCode'>,
+    chamaId: string,
+    client: LedgerClient = prisma
+) => {
+    const { membershipId } = withdrawal;
+    const amount = roundAmount((withdrawal.grossAmount ?? 0) - withdrawal.penaltyOffset);
+
+    return postJournalEntry({
+        chamaId,
+        description: withdrawal.type === 'EXIT' ? 'Exit refund of member savings' : 'Withdrawal of member savings',
+        sourceType: 'WITHDRAWAL',
+        sourceId: withdrawal.id,
+        reference: withdrawal.mpesaCode,
+        postedAt: withdrawal.paidAt,
+        lines: [
+            { account: 'MEMBER_SAVINGS', debit: amount, membershipId },
+            { account: 'CASH', credit: amount, membershipId },
+        ],
+    }, client);
+};
+
+/**
+ * A year's interest and penalty income shared out to members. The entry is dated at the end of the
+ * financial year so that year's income is closed off, and each member's share is owed to them through
+ * member savings until it is credited to their savings or paid out.
+ */
+export const postDividendDeclaration = async (
+    run: Pick<DividendRun, 'id' | 'financialYear' | 'interestIncome' | 'penaltyIncome'>,
+    payouts: Pick<DividendPayout, 'membershipId' | 'amount'>[],
+    chamaId: string,
+    client: LedgerClient = prisma
+) => {
+    return postJournalEntry({
+        chamaId,
+        description: `Dividend for ${run.financialYear}`,
+        sourceType: 'DIVIDEND',
+        sourceId: run.id,
+        postedAt: new Date(run.financialYear, 11, 31, 23, 59, 59),
+        lines: [
+            { account: 'INTEREST_INCOME', debit: run.interestIncome },
+            { account: 'PENALTY_INCOME', debit: run.penaltyIncome },
+            ...payouts.map(payout => ({ account: 'MEMBER_SAVINGS' as const, credit: payout.amount, membershipId: payout.membershipId })),
+        ],
+    }, client);
+};
+
+/**
+ * A member's dividend sent out of the chama rather than kept in their savings.
+ */
+export const postDividendPayout = async (
+    payout: Pick<DividendPayout, 'id' | 'membershipId' | 'amount' | 'paidAt' | 'mpesaCode'>,
+    chamaId: string,
+    client: LedgerClient = prisma
+) => {
+    const { membershipId } = payout;
+
+    return postJournalEntry({
+        chamaId,
+        description: 'Dividend payout',
+        sourceType: 'DIVIDEND',
+        sourceId: payout.id,
+        reference: payout.mpesaCode,
+        postedAt: payout.paidAt,
+        lines: [
+            { account: 'MEMBER_SAVINGS', debit: payout.amount, membershipId },
+            { account: 'CASH', credit: payout.amount, membershipId },
+        ],
+    }, client);
+};
+
+/**
+ * A merry-go-round pot paid out to the member whose turn it is. The pot is made up of the members'
+ * contributions for the period, so each contributor's share leaves their savings.
+ */
+export const postRotationPayout = async (
+    payout: Pick<RotationPayout, 'id' | 'membershipId' | 'amount' | 'paidAt' | 'mpesaCode'>,
+    shares: Array<{ membershipId: string; amount: number }>,
+    chamaId: string,
+    client: LedgerClient = prisma
+) => {
+    return postJournalEntry({
+        chamaId,
+        description: 'Merry-go-round payout',
+        sourceType: 'ROTATION_PAYOUT',
+        sourceId: payout.id,
+        reference: payout.mpesaCode,
+        postedAt: payout.paidAt,
+        lines: [
+            ...shares.map(share => ({ account: 'MEMBER_SAVINGS' as const, debit: share.amount, membershipId: share.membershipId })),
+            { account: 'CASH', credit: payout.amount, membershipId: payout.membershipId },
+        ],
+    }, client);
+};
+
+/**
+ * Posts a single entry that cancels whatever is still on the books for a source record, e.g. a
+ * contribution that was edited or deleted. Safe to call repeatedly: once the net is zero nothing is posted.
+ */
+export const reverseSourceEntries = async (
+    chamaId: string,
+    sourceType: JournalSourceType,
+    sourceId: string,
+    description: string,
+    client: LedgerClient = prisma
+) => {
+    const lines = await client.journalLine.findMany({
+        where: { entry: { chamaId, sourceType, sourceId } },
+        include: { account: { select: { systemKey: true } } },
+    });
+
+    const netByAccount = new Map<string, JournalLineInput & { net: number }>();
+    for (const line of lines) {
+        const key = `${line.account.systemKey}:${line.membershipId || ''}`;
+        const current = netByAccount.get(key) || { account: line.account.systemKey, membershipId: line.membershipId, net: 0 };
+        current.net += line.debit - line.credit;
+        netByAccount.set(key, current);
+    }
+
+    return postJournalEntry({
+        chamaId,
+        description,
+        sourceType,
+        sourceId,
+        lines: Array.from(netByAccount.values()).map(({ account, membershipId, net }) => (
+            net > 0 ? { account, membershipId, credit: net } : { account, membershipId, debit: -net }
+        )),
+    }, client);
+};
+
+/**
+ * Sums debits and credits on one of a chama's accounts, optionally narrowed to a source type and posting period.
+ */
+export const sumAccountMovements = async (
+    chamaId: string,
+    account: LedgerAccountKey,
+    options: { sourceType?: JournalSourceType; dateRange?: DateRange } = {}
+) => {
+    const result = await prisma.journalLine.aggregate({
+        _sum: { debit: true, credit: true },
+        where: {
+            account: { chamaId, systemKey: account },
+            entry: {
+                sourceType: options.sourceType,
+                postedAt: { gte: options.dateRange?.from, lte: options.dateRange?.to },
+            },
+        },
+    });
+
+    return {
+        debit: roundAmount(result._sum.debit || 0),
+        credit: roundAmount(result._sum.credit || 0),
+    };
+};
+
+/**
+ * Lists the cash account's lines for a period along with the type of record that caused each movement.
+ */
+export const findCashMovements = async (chamaId: string, dateRange: DateRange) => {
+    return prisma.journalLine.findMany({
+        where: {
+            account: { chamaId, systemKey: 'CASH' },
+            entry: { postedAt: { gte: dateRange.from, lte: dateRange.to } },
+        },
+        select: { debit: true, credit: true, entry: { select: { sourceType: true } } },
+    });
+};
+
+export const getTrialBalance = async (chamaId: string, asOf?: Date) => {
+    logger.info({ chamaId, asOf }, 'Generating trial balance');
+
+    const accounts = await prisma.ledgerAccount.findMany({
+        where: { chamaId },
+        orderBy: { code: 'asc' },
+    });
+
+    const totals = await prisma.journalLine.groupBy({
+        by: ['accountId'],
+        _sum: { debit: true, credit: true },
+        where: { account: { chamaId }, entry: { postedAt: { lte: asOf } } },
+    });
+
+    const totalsByAccount = new Map(totals.map(t => [t.accountId, t._sum]));
+
+    const rows = accounts.map(account => {
+        const sums = totalsByAccount.get(account.id);
+        const net = roundAmount((sums?.debit || 0) - (sums?.credit || 0));
+        return {
+            code: account.code,
+            name: account.name,
+            type: account.type,
+            debit: net > 0 ? net : 0,
+            credit: net < 0 ? -net : 0,
+            balance: DEBIT_NORMAL_TYPES.includes(account.type) ? net : roundAmount(-net),
+        };
+    });
+
+    const totalDebit = roundAmount(rows.reduce((sum, row) => sum + row.debit, 0));
+    const totalCredit = roundAmount(rows.reduce((sum, row) => sum + row.credit, 0));
+
+    const trialBalance = {
+        asOf: (asOf || new Date()).toISOString(),
+        accounts: rows,
+        totalDebit,
+        totalCredit,
+        isBalanced: totalDebit === totalCredit,
+    };
+
+    if (!trialBalance.isBalanced) {
+        logger.error({ chamaId, totalDebit, totalCredit }, 'Trial balance does not balance');
+    }
+
+    return trialBalance;
+};
+
+export const findJournalEntries = async (
+    chamaId: string,
+    filters: { sourceType?: JournalSourceType; dateRange: DateRange },
+    page: number,
+    limit: number
+) => {
+    logger.info({ chamaId, filters, page, limit }, 'Fetching journal entries');
+
+    const where: Prisma.JournalEntryWhereInput = {
+        chamaId,
+        sourceType: filters.sourceType,
+        postedAt: { gte: filters.dateRange.from, lte: filters.dateRange.to },
+    };
+
+    const entries = await prisma.journalEntry.findMany({
+        where,
+        include: {
+            lines: {
+                include: { account: { select: { code: true, name: true } } },
+            },
+        },
+        orderBy: { postedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+    });
+
+    const totalRecords = await prisma.journalEntry.count({ where });
+
+    return { entries, totalRecords, totalPages: Math.ceil(totalRecords / limit) };
+};
+
+/**
+ * Posts journal entries for paid contributions, disbursed loans and loan repayments that pre-date the
+ * ledger (or were missed by a failed posting). Records that already have entries are left untouched.
+ * Repayments posted here are split proportionally, as their original installment allocation is not kept.
+ */
+export const rebuildLedger = async (chamaId: string) => {
+    logger.info({ chamaId }, 'Rebuilding ledger from historical records');
+
+    const existing = await prisma.journalEntry.findMany({
+        where: { chamaId },
+        select: { sourceType: true, sourceId: true },
+    });
+    const posted = new Set(existing.map(e => `${e.sourceType}:${e.sourceId}`));
+
+    const result = { contributions: 0, disbursements: 0, repayments: 0 };
+
+    const contributions = await prisma.contribution.findMany({
+        where: { membership: { chamaId }, status: { in: ['PAID', 'PARTIALLY_PAID'] } },
+        orderBy: { paidAt: 'asc' },
+    });
+    for (const contribution of contributions) {
+        if (posted.has(`CONTRIBUTION:${contribution.id}`)) continue;
+        await postContributionReceipt(contribution, chamaId);
+        result.contributions++;
+    }
+
+    const loans = await prisma.loan.findMany({
+        where: { membership: { chamaId }, disbursedAt: { not: null } },
+        include: { payments: { orderBy: { paidAt: 'asc' } } },
+        orderBy: { disbursedAt: 'asc' },
+    });
+    for (const loan of loans) {
+        if (!posted.has(`LOAN_DISBURSEMENT:${loan.id}`)) {
+            await postLoanDisbursement(loan, chamaId);
+            result.disbursements++;
+        }
+
+        let paidBefore = 0;
+        for (const payment of loan.payments) {
+            if (!posted.has(`LOAN_REPAYMENT:${payment.id}`)) {
+                await postLoanRepayment(payment, loan, splitLoanRepayment(loan, payment.amount, paidBefore), chamaId);
+                result.repayments++;
+            }
+            paidBefore += payment.amount;
+        }
+    }
+
+    logger.info({ chamaId, ...result }, 'Ledger rebuild completed');
+
+    return result;
+};
@@ -1,6 +1,9 @@
-import { PrismaClient, Loan, LoanStatus, Prisma, TransactionType, AuditAction } from '@prisma/client';
-import { addMonths, format } from 'date-fns';
+import { PrismaClient, ChamaSettings, Loan, LoanInstallment, LoanStatus, InstallmentStatus, GuarantorStatus, MembershipRole, NotificationType, PenaltyPeriod, Prisma, TransactionType, AuditAction, InterestMethod } from '@prisma/client';
+import { addDays, addMonths, differenceInDays, differenceInMonths, format, subDays } from 'date-fns';
 import { createAuditLog } from "./audit.service";
+import { createNotification } from './notification.service';
+import { getChamaSettings } from './chama.service';
+import { postLoanDisbursement, postLoanRepayment, splitLoanRepayment, RepaymentAllocation } from './ledger.service';
 import logger from '../config/logger';
 
 interface LogMeta {
@@ -8,67 +11,320 @@ interface LogMeta {
     userAgent?: string;
 }
 
+type LoanClient = PrismaClient | Prisma.TransactionClient;
+
+export interface GuarantorPledge {
+    membershipId: string;
+    amount: number;
+}
+
+// The interest rate is optional on application; the chama's default rate applies when it is left out.
+export type LoanApplicationData = Omit<Prisma.LoanCreateInput, 'interestRate'> & { interestRate?: number };
+
+// A guarantor's pledge stays locked until the loan is repaid or turned down.
+const PLEDGE_LOCKING_STATUSES = [LoanStatus.PENDING, LoanStatus.APPROVED, LoanStatus.ACTIVE, LoanStatus.DEFAULTED];
+
+// Disbursed loans that still have money owing on them.
+const OUTSTANDING_LOAN_STATUSES: LoanStatus[] = [LoanStatus.ACTIVE, LoanStatus.DEFAULTED];
+
+type OverdueRules = Pick<ChamaSettings, 'loanGracePeriodDays' | 'loanPenaltyRate' | 'loanPenaltyPeriod' | 'loanDefaultAfter'>;
+
 const prisma = new PrismaClient();
 
 /**
- * Calculates if a member is eligible for a loan based on their contributions.
- * @returns {Promise<{isEligible: boolean, maxLoanable: number}>}
+ * Returns a member's balance in the chama's savings funds, the part of it pledged as guarantor on
+ * outstanding loans, and what is left free to borrow against or pledge. Share capital and welfare
+ * funds do not count.
+ */
+export const getAvailableSavings = async (membershipId: string, client: LoanClient = prisma) => {
+    const savings = await client.fundAllocation.aggregate({
+        _sum: { amount: true },
+        where: { membershipId, fund: { type: 'SAVINGS' } },
+    });
+    const pledges = await client.loanGuarantor.aggregate({
+        _sum: { amount: true },
+        where: { membershipId, status: GuarantorStatus.ACCEPTED, loan: { status: { in: PLEDGE_LOCKING_STATUSES } } },
+    });
+
+    const totalSavings = savings._sum.amount || 0;
+    const lockedSavings = pledges._sum.amount || 0;
+
+    return { totalSavings, lockedSavings, availableSavings: Math.max(totalSavings - lockedSavings, 0) };
+};
+
+/**
+ * Calculates if a member is eligible for a loan based on their savings and their chama's
+ * eligibility multiplier. Savings pledged to guarantee other members' loans are excluded until
+ * those loans are repaid.
+ * @returns {Promise<{isEligible: boolean, maxLoanable: number, lockedSavings: number}>}
  */
 export const calculateEligibility = async (membershipId: string, requestedAmount: number) => {
     logger.info({ membershipId, requestedAmount }, 'Calculating loan eligibility');
 
-    const totalContributions = await prisma.contribution.aggregate({
-        _sum: { amount: true },
-        where: { membershipId, status: 'PAID' },
-    });
+    const membership = await prisma.membership.findUnique({ where: { id: membershipId }, select: { chamaId: true } });
+    if (!membership) {
+        throw new Error("Membership not found.");
+    }
 
-    const totalPaid = totalContributions._sum.amount || 0;
-    const multiplier = parseFloat(process.env.LOAN_ELIGIBILITY_MULTIPLIER || '3');
-    const maxLoanable = totalPaid * multiplier;
+    const { loanEligibilityMultiplier } = await getChamaSettings(membership.chamaId);
+    const { totalSavings, lockedSavings, availableSavings } = await getAvailableSavings(membershipId);
+    const maxLoanable = availableSavings * loanEligibilityMultiplier;
 
     const eligibility = {
         isEligible: requestedAmount <= maxLoanable,
         maxLoanable,
+        lockedSavings,
     };
 
-    logger.info({ membershipId, totalPaid, maxLoanable, isEligible: eligibility.isEligible }, 'Loan eligibility calculated');
+    logger.info({ membershipId, totalSavings, lockedSavings, multiplier: loanEligibilityMultiplier, maxLoanable, isEligible: eligibility.isEligible }, 'Loan eligibility calculated');
 
     return eligibility;
 };
 
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
 /**
- * Generates a simple, flat-rate interest repayment schedule.
+ * Splits a loan into monthly installments under the given interest method. `interestRate` is annual.
+ * - FLAT: interest is charged on the original principal for the whole term.
+ * - REDUCING_BALANCE: equal principal each month, interest on the principal still outstanding.
+ * - AMORTIZED: equal installments each month, interest on the principal still outstanding.
+ * Rounding differences are absorbed by the final installment. `monthlyInstallment` is the first
+ * installment, which for reducing-balance loans is also the largest.
+ */
+export const calculateLoanTerms = (amount: number, interestRate: number, duration: number, method: InterestMethod) => {
+    const monthlyRate = interestRate / 12;
+    const flatInterest = amount * interestRate * (duration / 12);
+    const amortizedPayment = monthlyRate > 0
+        ? amount * monthlyRate / (1 - Math.pow(1 + monthlyRate, -duration))
+        : amount / duration;
+
+    const installments = [];
+    let principalBalance = amount;
+    let interestCharged = 0;
+
+    for (let i = 1; i <= duration; i++) {
+        const isLast = i === duration;
+        let interest: number;
+        let principal: number;
+
+        switch (method) {
+            case 'REDUCING_BALANCE':
+                interest = roundAmount(principalBalance * monthlyRate);
+                principal = amount / duration;
+                break;
+            case 'AMORTIZED':
+                interest = roundAmount(principalBalance * monthlyRate);
+                principal = amortizedPayment - interest;
+                break;
+            default:
+                interest = isLast ? roundAmount(flatInterest - interestCharged) : roundAmount(flatInterest / duration);
+                principal = amount / duration;
+        }
+
+        principal = isLast ? roundAmount(principalBalance) : roundAmount(principal);
+        principalBalance = roundAmount(principalBalance - principal);
+        interestCharged = roundAmount(interestCharged + interest);
+
+        installments.push({
+            installment: i,
+            payment: roundAmount(principal + interest),
+            principal,
+            interest,
+            principalBalance,
+        });
+    }
+
+    return {
+        interestMethod: method,
+        totalInterest: interestCharged,
+        repaymentAmount: roundAmount(amount + interestCharged),
+        monthlyInstallment: installments[0]?.payment ?? 0,
+        installments,
+    };
+};
+
+/**
+ * Generates the repayment schedule for a disbursed loan using the loan's interest method.
  */
 export const generateRepaymentSchedule = (loan: Loan) => {
-    logger.info({ loanId: loan.id, amount: loan.amount, duration: loan.duration }, 'Generating repayment schedule');
+    logger.info({ loanId: loan.id, amount: loan.amount, duration: loan.duration, interestMethod: loan.interestMethod }, 'Generating repayment schedule');
 
-    const { amount, interestRate, duration, disbursedAt } = loan;
+    const { amount, interestRate, duration, interestMethod, disbursedAt } = loan;
     if (!disbursedAt) {
         logger.warn({ loanId: loan.id }, 'Cannot generate schedule: loan not yet disbursed');
         return [];
     }
 
-    const schedule = [];
-    const totalInterest = amount * interestRate * (duration / 12);
-    const totalRepayable = amount + totalInterest;
-    const monthlyInstallment = totalRepayable / duration;
-    let balance = totalRepayable;
+    const { installments, repaymentAmount } = calculateLoanTerms(amount, interestRate, duration, interestMethod);
+    let balance = repaymentAmount;
 
-    for (let i = 1; i <= duration; i++) {
-        balance -= monthlyInstallment;
-        schedule.push({
-            installment: i,
-            dueDate: format(addMonths(disbursedAt, i), 'yyyy-MM-dd'),
-            payment: parseFloat(monthlyInstallment.toFixed(2)),
-            balance: parseFloat(balance.toFixed(2)),
-        });
-    }
+    const schedule = installments.map(({ installment, payment, principal, interest }) => {
+        balance = roundAmount(balance - payment);
+        return {
+            installment,
+            dueDate: format(addMonths(disbursedAt, installment), 'yyyy-MM-dd'),
+            payment,
+            principal,
+            interest,
+            balance,
+        };
+    });
 
     logger.info({ loanId: loan.id, installments: schedule.length }, 'Repayment schedule generated');
 
     return schedule;
 };
 
+/**
+ * Returns the loan's persisted installments with what has been paid against each. Loans disbursed
+ * before installments were persisted fall back to the generated schedule.
+ */
+export const getRepaymentSchedule = async (loan: Loan) => {
+    const installments = await prisma.loanInstallment.findMany({
+        where: { loanId: loan.id },
+        orderBy: { installmentNumber: 'asc' },
+    });
+
+    if (installments.length === 0) {
+        return generateRepaymentSchedule(loan);
+    }
+
+    let balance = installments.reduce((sum, i) => sum + i.amountDue, 0);
+
+    return installments.map((i) => {
+        balance = roundAmount(balance - i.amountDue);
+        return {
+            installment: i.installmentNumber,
+            dueDate: format(i.dueDate, 'yyyy-MM-dd'),
+            payment: i.amountDue,
+            principal: i.principalDue,
+            interest: i.interestDue,
+            penalty: i.penaltyDue,
+            balance,
+            amountPaid: i.amountPaid,
+            status: i.status,
+            paidAt: i.paidAt,
+        };
+    });
+};
+
+/**
+ * Persists a loan's installments at disbursement. Installment `n` falls due `n` months after disbursement.
+ */
+export const createInstallmentSchedule = async (loan: Loan, disbursedAt: Date, client: LoanClient = prisma) => {
+    const { installments } = calculateLoanTerms(loan.amount, loan.interestRate, loan.duration, loan.interestMethod);
+
+    const data = installments.map(({ installment, payment, principal, interest }) => ({
+        loanId: loan.id,
+        installmentNumber: installment,
+        dueDate: addMonths(disbursedAt, installment),
+        principalDue: principal,
+        interestDue: interest,
+        amountDue: payment,
+    }));
+
+    await client.loanInstallment.createMany({ data });
+
+    logger.info({ loanId: loan.id, installments: data.length }, 'Loan installment schedule created');
+
+    return data;
+};
+
+const resolveInstallmentStatus = (amountDue: number, amountPaid: number, dueDate: Date): InstallmentStatus => {
+    if (amountPaid >= amountDue) return InstallmentStatus.PAID;
+    if (dueDate < new Date()) return InstallmentStatus.OVERDUE;
+    return amountPaid > 0 ? InstallmentStatus.PARTIAL : InstallmentStatus.PENDING;
+};
+
+type InstallmentBalance = Pick<LoanInstallment, 'id' | 'dueDate' | 'principalDue' | 'interestDue' | 'penaltyDue' | 'amountDue' | 'principalPaid' | 'interestPaid' | 'penaltyPaid'>;
+
+/**
+ * Allocates a payment across unpaid installments, oldest first. Within each installment penalty
+ * interest is settled first, then interest, then principal. Whatever is left once every installment
+ * is settled is an overpayment.
+ */
+export const allocatePaymentToInstallments = (installments: InstallmentBalance[], paymentAmount: number, paidAt: Date) => {
+    const ordered = [...installments].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+    const updates = [];
+    let remaining = roundAmount(paymentAmount);
+    let principal = 0;
+    let interest = 0;
+    let penalty = 0;
+
+    const apply = (due: number, paid: number) => {
+        const applied = Math.min(remaining, Math.max(roundAmount(due - paid), 0));
+        remaining = roundAmount(remaining - applied);
+        return applied;
+    };
+
+    for (const installment of ordered) {
+        if (remaining <= 0) break;
+
+        const penaltyApplied = apply(installment.penaltyDue, installment.penaltyPaid);
+        const interestApplied = apply(installment.interestDue, installment.interestPaid);
+        const principalApplied = apply(installment.principalDue, installment.principalPaid);
+
+        if (penaltyApplied === 0 && interestApplied === 0 && principalApplied === 0) continue;
+
+        penalty += penaltyApplied;
+        interest += interestApplied;
+        principal += principalApplied;
+
+        const penaltyPaid = roundAmount(installment.penaltyPaid + penaltyApplied);
+        const interestPaid = roundAmount(installment.interestPaid + interestApplied);
+        const principalPaid = roundAmount(installment.principalPaid + principalApplied);
+        const amountPaid = roundAmount(penaltyPaid + interestPaid + principalPaid);
+        const status = resolveInstallmentStatus(installment.amountDue, amountPaid, installment.dueDate);
+
+        updates.push({
+            id: installment.id,
+            penaltyPaid,
+            interestPaid,
+            principalPaid,
+            amountPaid,
+            status,
+            paidAt: status === InstallmentStatus.PAID ? paidAt : null,
+        });
+    }
+
+    const allocation: RepaymentAllocation = {
+        principal: roundAmount(principal),
+        interest: roundAmount(interest),
+        penalty: roundAmount(penalty),
+        overpayment: remaining,
+    };
+
+    return { updates, allocation };
+};
+
+/**
+ * Applies a payment to the loan's stored installments and reports where the loan stands afterwards.
+ * Returns null for loans that have no installments, i.e. those disbursed before they were persisted.
+ */
+const applyPaymentToInstallments = async (loanId: string, paymentAmount: number, paidAt: Date, client: LoanClient) => {
+    const installments = await client.loanInstallment.findMany({
+        where: { loanId },
+        orderBy: { installmentNumber: 'asc' },
+    });
+    if (installments.length === 0) return null;
+
+    const unpaid = installments.filter((i) => i.status !== InstallmentStatus.PAID);
+    const { updates, allocation } = allocatePaymentToInstallments(unpaid, paymentAmount, paidAt);
+
+    for (const { id, ...data } of updates) {
+        await client.loanInstallment.update({ where: { id }, data });
+    }
+
+    const statusById = new Map(updates.map((u) => [u.id, u.status]));
+    const outstanding = unpaid.filter((i) => (statusById.get(i.id) ?? i.status) !== InstallmentStatus.PAID);
+
+    return {
+        allocation,
+        isFullyPaid: outstanding.length === 0,
+        nextDueDate: outstanding[0]?.dueDate ?? null,
+    };
+};
+
 export const findLoanById = async (loanId: string) => {
     logger.info({ loanId }, 'Fetching loan by ID');
 
@@ -91,6 +347,21 @@ export const findLoanById = async (loanId: string) => {
                 orderBy: {
                     paidAt: 'asc'
                 }
+            },
+            guarantors: {
+                include: {
+                    membership: {
+                        include: {
+                            user: {
+                                select: {
+                                    id: true,
+                                    firstName: true,
+                                    lastName: true,
+                                }
+                            }
+                        }
+                    }
+                }
             }
         }
     });
@@ -104,27 +375,88 @@ export const findLoanById = async (loanId: string) => {
     return loan;
 };
 
-export const applyForLoan = async (data: Prisma.LoanCreateInput, membershipId: string, actorId: string, logMeta: LogMeta) => {
-    logger.info({ membershipId, actorId, amount: data.amount }, 'Processing loan application');
+/**
+ * Checks that each guarantor is another active member of the chama, named once, whose free savings cover the pledge.
+ */
+const validateGuarantors = async (applicantMembershipId: string, chamaId: string, guarantors: GuarantorPledge[]) => {
+    const seen = new Set<string>();
+
+    for (const { membershipId, amount } of guarantors) {
+        if (membershipId === applicantMembershipId) {
+            throw new Error("You cannot guarantee your own loan.");
+        }
+        if (seen.has(membershipId)) {
+            throw new Error("Each guarantor can only be named once.");
+        }
+        seen.add(membershipId);
+
+        const guarantor = await prisma.membership.findFirst({ where: { id: membershipId, chamaId, isActive: true } });
+        if (!guarantor) {
+            throw new Error(`Guarantor ${membershipId} is not an active member of this chama.`);
+        }
+
+        const { availableSavings } = await getAvailableSavings(membershipId);
+        if (amount > availableSavings) {
+            throw new Error(`Guarantor ${membershipId} can pledge at most ${availableSavings.toFixed(2)}.`);
+        }
+    }
+};
+
+/**
+ * Creates a pending loan application. The duration is capped by the chama's maximum loan duration,
+ * and the chama's default interest rate applies unless a rate is given.
+ */
+export const applyForLoan = async (data: LoanApplicationData, membershipId: string, actorId: string, logMeta: LogMeta, guarantors: GuarantorPledge[] = []) => {
+    logger.info({ membershipId, actorId, amount: data.amount, guarantors: guarantors.length }, 'Processing loan application');
 
     if (membershipId !== data.membership.connect?.id) {
         logger.warn({ membershipId, actorId }, 'Loan application rejected: membership mismatch');
         throw new Error("A member can only apply for a loan for themselves.");
     }
 
-    const member = await prisma.membership.findFirst({ where: { id: membershipId, userId: actorId }});
+    const member = await prisma.membership.findFirst({
+        where: { id: membershipId, userId: actorId },
+        include: { chama: true, user: { select: { firstName: true, lastName: true } } },
+    });
     if(!member) {
         logger.warn({ membershipId, actorId }, 'Membership not found for authenticated user');
         throw new Error("Membership not found for the authenticated user.");
     }
+
+    const settings = await getChamaSettings(member.chamaId);
+    if (data.duration > settings.maxLoanDuration) {
+        logger.warn({ membershipId, duration: data.duration, maxLoanDuration: settings.maxLoanDuration }, 'Loan application rejected: duration too long');
+        throw new Error(`Loan duration cannot exceed ${settings.maxLoanDuration} months.`);
+    }
     
     const { isEligible, maxLoanable } = await calculateEligibility(membershipId, data.amount);
     if (!isEligible) {
-        logger.warn({ membershipId, requestedAmount: data.amount, maxLoanable }, 'Loan application rejected: exceeds eligibility');
-        throw new Error(`Loan application rejected. You are only eligible to borrow up to ${maxLoanable.toFixed(2)}.`);
+        const shortfall = roundAmount(data.amount - maxLoanable);
+        const pledged = roundAmount(guarantors.reduce((sum, g) => sum + g.amount, 0));
+
+        if (guarantors.length === 0) {
+            logger.warn({ membershipId, requestedAmount: data.amount, maxLoanable }, 'Loan application rejected: exceeds eligibility');
+            throw new Error(`Loan application rejected. You are only eligible to borrow up to ${maxLoanable.toFixed(2)}.`);
+        }
+        if (pledged < shortfall) {
+            logger.warn({ membershipId, requestedAmount: data.amount, maxLoanable, pledged }, 'Loan application rejected: pledges do not cover shortfall');
+            throw new Error(`Loan application rejected. Guarantor pledges of ${pledged.toFixed(2)} do not cover the ${shortfall.toFixed(2)} above your limit of ${maxLoanable.toFixed(2)}.`);
+        }
     }
 
-    const newLoan = await prisma.loan.create({ data });
+    await validateGuarantors(membershipId, member.chamaId, guarantors);
+
+    // Loans take the chama's interest method at the time of application; officials can override it on approval.
+    const newLoan = await prisma.loan.create({
+        data: {
+            ...data,
+            interestRate: data.interestRate ?? settings.defaultInterestRate,
+            interestMethod: settings.loanInterestMethod,
+            ...(guarantors.length > 0 && {
+                guarantors: { create: guarantors.map(({ membershipId, amount }) => ({ amount, membership: { connect: { id: membershipId } } })) },
+            }),
+        },
+    });
 
     await createAuditLog({
         action: AuditAction.LOAN_APPLY,
@@ -135,12 +467,81 @@ export const applyForLoan = async (data: Prisma.LoanCreateInput, membershipId: s
         ...logMeta,
     });
 
-    logger.info({ loanId: newLoan.id, membershipId, amount: data.amount }, 'Loan application created successfully');
+    for (const guarantor of guarantors) {
+        await createNotification({
+            membershipId: guarantor.membershipId,
+            title: 'Loan Guarantee Request',
+            message: `${member.user.firstName} ${member.user.lastName} has asked you to guarantee KES ${guarantor.amount.toFixed(2)} of their KES ${data.amount.toFixed(2)} loan. Your pledge is locked until the loan is repaid.`,
+            type: NotificationType.LOAN_GUARANTEE,
+        });
+    }
+
+    logger.info({ loanId: newLoan.id, membershipId, amount: data.amount, guarantors: guarantors.length }, 'Loan application created successfully');
 
     return newLoan;
 };
 
-export const approveOrRejectLoan = async (loanId: string, status: LoanStatus, actorId: string, logMeta: LogMeta) => {
+/**
+ * Records a guarantor accepting or declining their pledge on a pending loan. Accepting locks the
+ * pledged savings, so the guarantor must still have that much free.
+ */
+export const respondToGuaranteeRequest = async (loanId: string, status: GuarantorStatus, actorId: string, logMeta: LogMeta) => {
+    logger.info({ loanId, status, actorId }, 'Processing guarantee response');
+
+    const guarantor = await prisma.loanGuarantor.findFirst({
+        where: { loanId, membership: { userId: actorId } },
+        include: { loan: { include: { membership: true } } },
+    });
+    if (!guarantor) {
+        logger.warn({ loanId, actorId }, 'Guarantee response rejected: actor is not a guarantor');
+        throw new Error("You have not been asked to guarantee this loan.");
+    }
+    if (guarantor.status !== GuarantorStatus.PENDING) {
+        throw new Error("You have already responded to this guarantee request.");
+    }
+    if (guarantor.loan.status !== LoanStatus.PENDING) {
+        throw new Error("This loan is no longer awaiting guarantors.");
+    }
+
+    if (status === GuarantorStatus.ACCEPTED) {
+        const { availableSavings } = await getAvailableSavings(guarantor.membershipId);
+        if (guarantor.amount > availableSavings) {
+            logger.warn({ loanId, actorId, pledge: guarantor.amount, availableSavings }, 'Guarantee rejected: insufficient free savings');
+            throw new Error(`You can pledge at most ${availableSavings.toFixed(2)} of your savings.`);
+        }
+    } else if (status !== GuarantorStatus.DECLINED) {
+        throw new Error("Invalid status provided. Must be ACCEPTED or DECLINED.");
+    }
+
+    const { loan, ...oldValue } = guarantor;
+    const updated = await prisma.loanGuarantor.update({
+        where: { id: guarantor.id },
+        data: { status, respondedAt: new Date() },
+    });
+
+    await createAuditLog({
+        action: status === GuarantorStatus.ACCEPTED ? AuditAction.LOAN_GUARANTEE_ACCEPT : AuditAction.LOAN_GUARANTEE_DECLINE,
+        actorId,
+        chamaId: loan.membership.chamaId,
+        loanId,
+        oldValue,
+        newValue: updated,
+        ...logMeta,
+    });
+
+    await createNotification({
+        membershipId: loan.membershipId,
+        title: status === GuarantorStatus.ACCEPTED ? 'Loan Guarantee Accepted' : 'Loan Guarantee Declined',
+        message: `A guarantor has ${status === GuarantorStatus.ACCEPTED ? 'accepted' : 'declined'} their KES ${guarantor.amount.toFixed(2)} pledge on your loan.`,
+        type: NotificationType.LOAN_GUARANTEE,
+    });
+
+    logger.info({ loanId, actorId, status, amount: guarantor.amount }, 'Guarantee response recorded');
+
+    return updated;
+};
+
+export const approveOrRejectLoan = async (loanId: string, status: LoanStatus, actorId: string, logMeta: LogMeta, interestMethod?: InterestMethod) => {
     logger.info({ loanId, status, actorId }, 'Processing loan approval/rejection');
 
     const oldValue = await prisma.loan.findUnique({ where: { id: loanId }, include: { membership: true } });
@@ -154,14 +555,28 @@ export const approveOrRejectLoan = async (loanId: string, status: LoanStatus, ac
         updatedLoan = await prisma.loan.update({ where: { id: loanId }, data: { status: LoanStatus.REJECTED } });
         logger.info({ loanId, actorId }, 'Loan rejected');
     } else if (status === LoanStatus.APPROVED) {
-        const totalInterest = oldValue.amount * oldValue.interestRate * (oldValue.duration / 12);
-        const repaymentAmount = oldValue.amount + totalInterest;
-        const monthlyInstallment = repaymentAmount / oldValue.duration;
+        // Anything above the applicant's own limit must be covered by accepted guarantor pledges.
+        const { maxLoanable } = await calculateEligibility(oldValue.membershipId, oldValue.amount);
+        const shortfall = roundAmount(oldValue.amount - maxLoanable);
+        if (shortfall > 0) {
+            const pledges = await prisma.loanGuarantor.aggregate({
+                _sum: { amount: true },
+                where: { loanId, status: GuarantorStatus.ACCEPTED },
+            });
+            const covered = pledges._sum.amount || 0;
+            if (covered < shortfall) {
+                logger.warn({ loanId, shortfall, covered }, 'Cannot approve loan: guarantor pledges do not cover shortfall');
+                throw new Error(`Loan cannot be approved until accepted guarantor pledges cover ${shortfall.toFixed(2)}. Currently covered: ${covered.toFixed(2)}.`);
+            }
+        }
+
+        const method = interestMethod ?? oldValue.interestMethod;
+        const { repaymentAmount, monthlyInstallment } = calculateLoanTerms(oldValue.amount, oldValue.interestRate, oldValue.duration, method);
         updatedLoan = await prisma.loan.update({
             where: { id: loanId },
-            data: { status: LoanStatus.APPROVED, approvedAt: new Date(), repaymentAmount, monthlyInstallment },
+            data: { status: LoanStatus.APPROVED, approvedAt: new Date(), interestMethod: method, repaymentAmount, monthlyInstallment },
         });
-        logger.info({ loanId, actorId, repaymentAmount, monthlyInstallment }, 'Loan approved');
+        logger.info({ loanId, actorId, interestMethod: method, repaymentAmount, monthlyInstallment }, 'Loan approved');
     } else {
         logger.warn({ loanId, status }, 'Invalid status provided for loan approval');
         throw new Error("Invalid status provided. Must be APPROVED or REJECTED.");
@@ -190,9 +605,11 @@ export const disburseLoan = async (loanId: string, actorId: string, logMeta: Log
     }
 
     const updatedLoan = await prisma.$transaction(async (tx) => {
+        const disbursedAt = new Date();
+        const [firstInstallment] = await createInstallmentSchedule(oldValue, disbursedAt, tx);
         const loan = await tx.loan.update({
             where: { id: loanId },
-            data: { status: LoanStatus.ACTIVE, disbursedAt: new Date(), dueDate: addMonths(new Date(), 1) },
+            data: { status: LoanStatus.ACTIVE, disbursedAt, dueDate: firstInstallment.dueDate },
         });
         await tx.transaction.create({
             data: {
@@ -202,6 +619,7 @@ export const disburseLoan = async (loanId: string, actorId: string, logMeta: Log
                 description: `Loan disbursement to member for loan ID: ${loanId}`,
             },
         });
+        await postLoanDisbursement(loan, oldValue.membership.chamaId, tx);
         return loan;
     });
 
@@ -220,11 +638,89 @@ export const disburseLoan = async (loanId: string, actorId: string, logMeta: Log
     return updatedLoan;
 };
 
-export const recordLoanPayment = async (loanId: string, paymentData: Prisma.LoanPaymentCreateWithoutLoanInput, actorId: string, logMeta: LogMeta) => {
+/**
+ * Records a repayment within the caller's transaction: the payment is allocated to installments, the
+ * loan's due date or status moves on, and the repayment is posted to the ledger.
+ */
+export const applyLoanRepayment = async (
+    tx: Prisma.TransactionClient,
+    loan: Loan,
+    paidBefore: number,
+    chamaId: string,
+    paymentData: Prisma.LoanPaymentCreateWithoutLoanInput
+) => {
+    const payment = await tx.loanPayment.create({
+        data: { loanId: loan.id, ...paymentData },
+    });
+
+    // Loans disbursed before installments were persisted keep a single rolling due date.
+    const applied = await applyPaymentToInstallments(loan.id, payment.amount, payment.paidAt, tx) ?? {
+        allocation: splitLoanRepayment(loan, payment.amount, paidBefore),
+        isFullyPaid: paidBefore + payment.amount >= (loan.repaymentAmount || 0),
+        nextDueDate: loan.dueDate ? addMonths(loan.dueDate, 1) : null,
+    };
+
+    if (applied.isFullyPaid) {
+        await tx.loan.update({ where: { id: loan.id }, data: { status: LoanStatus.PAID, dueDate: null } });
+    } else {
+        await tx.loan.update({ where: { id: loan.id }, data: { dueDate: applied.nextDueDate } });
+    }
+
+    await postLoanRepayment(payment, loan, applied.allocation, chamaId, tx);
+    return { payment, isFullyPaid: applied.isFullyPaid };
+};
+
+/**
+ * Returns what is still owed on each of a member's disbursed loans, oldest first, including any
+ * penalty interest charged on overdue installments.
+ */
+export const getOutstandingLoans = async (membershipId: string, client: LoanClient = prisma) => {
+    const loans = await client.loan.findMany({
+        where: { membershipId, status: { in: OUTSTANDING_LOAN_STATUSES } },
+        include: { payments: true, installments: true },
+        orderBy: { disbursedAt: 'asc' },
+    });
+
+    return loans.map(({ payments, installments, ...loan }) => {
+        const paid = payments.reduce((sum, p) => sum + p.amount, 0);
+        // Loans disbursed before installments were persisted only know their total repayable.
+        const balance = installments.length > 0
+            ? installments.reduce((sum, i) => sum + Math.max(i.amountDue - i.amountPaid, 0), 0)
+            : (loan.repaymentAmount || loan.amount) - paid;
+        return { loan, paid, balance: roundAmount(Math.max(balance, 0)) };
+    }).filter(({ balance }) => balance > 0);
+};
+
+/**
+ * Returns what a member should pay next on a disbursed loan: the unpaid part of the earliest
+ * installment not yet settled. Loans disbursed before installments were persisted fall back to
+ * the monthly installment, capped at what is still owed.
+ */
+export const getNextInstallmentAmount = async (loanId: string) => {
+    const installment = await prisma.loanInstallment.findFirst({
+        where: { loanId, status: { not: InstallmentStatus.PAID } },
+        orderBy: { installmentNumber: 'asc' },
+    });
+    if (installment) {
+        return roundAmount(Math.max(installment.amountDue - installment.amountPaid, 0));
+    }
+
+    const loan = await prisma.loan.findUnique({ where: { id: loanId }, include: { payments: true } });
+    if (!loan) return 0;
+    const paid = loan.payments.reduce((sum, p) => sum + p.amount, 0);
+    const balance = Math.max((loan.repaymentAmount || loan.amount) - paid, 0);
+    return roundAmount(Math.min(loan.monthlyInstallment ?? balance, balance));
+};
+
+/**
+ * Records a repayment on an outstanding loan. `actorId` is null for repayments confirmed by an
+ * M-Pesa callback rather than recorded by a user.
+ */
+export const recordLoanPayment = async (loanId: string, paymentData: Prisma.LoanPaymentCreateWithoutLoanInput, actorId: string | null, logMeta: LogMeta) => {
     logger.info({ loanId, actorId, amount: paymentData.amount }, 'Recording loan payment');
 
     const loan = await prisma.loan.findUnique({ where: { id: loanId }, include: { payments: true, membership: true } });
-    if (!loan || loan.status !== LoanStatus.ACTIVE) {
+    if (!loan || !OUTSTANDING_LOAN_STATUSES.includes(loan.status)) {
         logger.warn({ loanId, currentStatus: loan?.status }, 'Cannot record payment: loan not active');
         throw new Error("Cannot record payment for this loan.");
     }
@@ -244,19 +740,17 @@ export const recordLoanPayment = async (loanId: string, paymentData: Prisma.Loan
         mpesaCode: normalizedMpesaCode,
     };
 
-    const totalPaid = loan.payments.reduce((sum, p) => sum + p.amount, 0) + cleanedPaymentData.amount;
-    const isFullyPaid = totalPaid >= (loan.repaymentAmount || 0);
+    const paidBefore = loan.payments.reduce((sum, p) => sum + p.amount, 0);
+    const totalPaid = paidBefore + cleanedPaymentData.amount;
 
-    const newPayment = await prisma.loanPayment.create({
-        data: { loanId: loanId, ...cleanedPaymentData },
-    });
+    const { payment: newPayment, isFullyPaid } = await prisma.$transaction(tx =>
+        applyLoanRepayment(tx, loan, paidBefore, loan.membership.chamaId, cleanedPaymentData)
+    );
 
     if (isFullyPaid) {
-        await prisma.loan.update({ where: { id: loanId }, data: { status: LoanStatus.PAID, dueDate: null } });
         logger.info({ loanId, totalPaid }, 'Loan fully paid');
-    } else if (loan.dueDate) {
-        await prisma.loan.update({ where: { id: loanId }, data: { dueDate: addMonths(loan.dueDate, 1) } });
-        logger.info({ loanId, totalPaid, remaining: (loan.repaymentAmount || 0) - totalPaid }, 'Payment recorded, due date extended');
+    } else {
+        logger.info({ loanId, totalPaid, remaining: (loan.repaymentAmount || 0) - totalPaid }, 'Payment recorded against installments');
     }
 
     await createAuditLog({
@@ -269,30 +763,280 @@ export const recordLoanPayment = async (loanId: string, paymentData: Prisma.Loan
     });
 
     logger.info({ loanId, paymentId: newPayment.id, amount: paymentData.amount }, 'Loan payment recorded successfully');
+
+    return newPayment;
 };
 
+/**
+ * Flags unpaid installments whose due date has passed as OVERDUE. Scoped to one chama when `chamaId` is given.
+ */
+export const markOverdueInstallments = async (chamaId?: string) => {
+    const { count } = await prisma.loanInstallment.updateMany({
+        where: {
+            status: { in: [InstallmentStatus.PENDING, InstallmentStatus.PARTIAL] },
+            dueDate: { lt: new Date() },
+            loan: { status: { in: OUTSTANDING_LOAN_STATUSES }, ...(chamaId && { membership: { chamaId } }) },
+        },
+        data: { status: InstallmentStatus.OVERDUE },
+    });
+
+    logger.info({ chamaId, count }, 'Overdue loan installments marked');
+
+    return count;
+};
+
+/**
+ * Active and defaulted loans with at least one overdue installment, with the overdue installments and
+ * the amount in arrears. Loans without stored installments are judged on their single due date.
+ */
 export const findLoanDefaulters = async (chamaId: string) => {
     logger.info({ chamaId }, 'Finding loan defaulters');
 
-    const defaulters = await prisma.loan.findMany({
+    await markOverdueInstallments(chamaId);
+
+    const loans = await prisma.loan.findMany({
         where: {
             membership: { chamaId },
-            status: LoanStatus.ACTIVE,
-            dueDate: { lt: new Date() }, // Due date is in the past
+            status: { in: OUTSTANDING_LOAN_STATUSES },
+            OR: [
+                { installments: { some: { status: InstallmentStatus.OVERDUE } } },
+                { installments: { none: {} }, dueDate: { lt: new Date() } },
+            ],
         },
         include: {
             membership: { include: { user: true } },
             payments: true,
+            installments: {
+                where: { status: InstallmentStatus.OVERDUE },
+                orderBy: { installmentNumber: 'asc' },
+            },
         },
     });
 
+    const defaulters = loans.map((loan) => ({
+        ...loan,
+        amountOverdue: roundAmount(loan.installments.reduce((sum, i) => sum + i.amountDue - i.amountPaid, 0)),
+    }));
+
     logger.info({ chamaId, defaultersCount: defaulters.length }, 'Loan defaulters found');
 
     return defaulters;
 };
 
-export const restructureLoan = async (loanId: string, data: { newInterestRate?: number, newDuration?: number, notes: string }, actorId: string, logMeta: LogMeta) => {
-    logger.info({ loanId, actorId, newInterestRate: data.newInterestRate, newDuration: data.newDuration }, 'Restructuring loan');
+/**
+ * Notifies borrowers of installments falling due within `daysAhead` days, and of any already overdue.
+ */
+export const sendInstallmentReminders = async (chamaId: string, daysAhead = 3) => {
+    logger.info({ chamaId, daysAhead }, 'Sending loan installment reminders');
+
+    await markOverdueInstallments(chamaId);
+
+    const installments = await prisma.loanInstallment.findMany({
+        where: {
+            status: { in: [InstallmentStatus.PENDING, InstallmentStatus.PARTIAL, InstallmentStatus.OVERDUE] },
+            dueDate: { lte: addDays(new Date(), daysAhead) },
+            loan: { status: { in: OUTSTANDING_LOAN_STATUSES }, membership: { chamaId } },
+        },
+        include: { loan: { select: { membershipId: true } } },
+        orderBy: { dueDate: 'asc' },
+    });
+
+    for (const installment of installments) {
+        const outstanding = roundAmount(installment.amountDue - installment.amountPaid);
+        const dueDate = format(installment.dueDate, 'yyyy-MM-dd');
+        const isOverdue = installment.status === InstallmentStatus.OVERDUE;
+
+        await createNotification({
+            membershipId: installment.loan.membershipId,
+            title: isOverdue ? 'Loan Installment Overdue' : 'Loan Installment Due',
+            message: isOverdue
+                ? `Installment ${installment.installmentNumber} of your loan (KES ${outstanding.toFixed(2)}) was due on ${dueDate} and is overdue.`
+                : `Installment ${installment.installmentNumber} of your loan (KES ${outstanding.toFixed(2)}) is due on ${dueDate}.`,
+            type: NotificationType.LOAN_INSTALLMENT_DUE,
+        });
+    }
+
+    logger.info({ chamaId, reminders: installments.length }, 'Loan installment reminders sent');
+
+    return { reminders: installments.length };
+};
+
+/**
+ * Penalty interest owed on an installment's unpaid principal and interest for each whole day or month
+ * since penalties were last charged, or since the grace period after its due date ended. Returns null
+ * when nothing new is owed.
+ */
+export const calculateInstallmentPenalty = (
+    installment: Pick<LoanInstallment, 'dueDate' | 'principalDue' | 'interestDue' | 'principalPaid' | 'interestPaid' | 'penaltyAccruedTo'>,
+    rules: OverdueRules,
+    asOf = new Date()
+) => {
+    if (rules.loanPenaltyRate <= 0) return null;
+
+    const accrualStart = installment.penaltyAccruedTo ?? addDays(installment.dueDate, rules.loanGracePeriodDays);
+    const isDaily = rules.loanPenaltyPeriod === PenaltyPeriod.DAILY;
+    const periods = isDaily ? differenceInDays(asOf, accrualStart) : differenceInMonths(asOf, accrualStart);
+    if (periods <= 0) return null;
+
+    const arrears = roundAmount(installment.principalDue + installment.interestDue - installment.principalPaid - installment.interestPaid);
+    const penalty = roundAmount(arrears * rules.loanPenaltyRate * periods);
+    if (penalty <= 0) return null;
+
+    return {
+        penalty,
+        accruedTo: isDaily ? addDays(accrualStart, periods) : addMonths(accrualStart, periods),
+    };
+};
+
+/**
+ * Applies a chama's overdue-loan rules. Late installments are marked OVERDUE. Once an installment is
+ * past the grace period it counts as missed and accrues penalty interest on its arrears. An ACTIVE
+ * loan with `loanDefaultAfter` missed installments is marked DEFAULTED. Every penalty charge and
+ * default is audited and notified to the borrower and the chama's treasurers.
+ */
+export const applyOverdueLoanRules = async (chamaId: string, asOf = new Date()) => {
+    logger.info({ chamaId, asOf }, 'Applying overdue loan rules');
+
+    const chama = await prisma.chama.findUnique({ where: { id: chamaId } });
+    if (!chama) {
+        throw new Error("Chama not found.");
+    }
+    const rules = await getChamaSettings(chamaId);
+
+    await markOverdueInstallments(chamaId);
+
+    const missedBefore = subDays(asOf, rules.loanGracePeriodDays);
+    const loans = await prisma.loan.findMany({
+        where: {
+            membership: { chamaId },
+            status: { in: OUTSTANDING_LOAN_STATUSES },
+            installments: { some: { status: InstallmentStatus.OVERDUE, dueDate: { lt: missedBefore } } },
+        },
+        include: {
+            membership: { include: { user: { select: { firstName: true, lastName: true } } } },
+            installments: {
+                where: { status: InstallmentStatus.OVERDUE, dueDate: { lt: missedBefore } },
+                orderBy: { installmentNumber: 'asc' },
+            },
+        },
+    });
+
+    const treasurers = await prisma.membership.findMany({
+        where: { chamaId, role: MembershipRole.TREASURER, isActive: true },
+        select: { id: true },
+    });
+
+    const result = { loansPenalized: 0, penaltyCharged: 0, loansDefaulted: 0 };
+
+    for (const loan of loans) {
+        const { membership, installments, ...oldValue } = loan;
+        const borrowerName = `${membership.user.firstName} ${membership.user.lastName}`;
+        const notify = async (title: string, message: string, type: NotificationType) => {
+            const recipients = new Set([membership.id, ...treasurers.map((t) => t.id)]);
+            for (const membershipId of recipients) {
+                await createNotification({ membershipId, title, message, type });
+            }
+        };
+
+        let loanPenalty = 0;
+        for (const installment of installments) {
+            const charge = calculateInstallmentPenalty(installment, rules, asOf);
+            if (!charge) continue;
+
+            await prisma.loanInstallment.update({
+                where: { id: installment.id },
+                data: {
+                    penaltyDue: roundAmount(installment.penaltyDue + charge.penalty),
+                    amountDue: roundAmount(installment.amountDue + charge.penalty),
+                    penaltyAccruedTo: charge.accruedTo,
+                },
+            });
+            loanPenalty = roundAmount(loanPenalty + charge.penalty);
+        }
+
+        if (loanPenalty > 0) {
+            await createAuditLog({
+                action: AuditAction.LOAN_PENALTY_APPLY,
+                actorId: null,
+                chamaId,
+                loanId: loan.id,
+                newValue: { penalty: loanPenalty, rate: rules.loanPenaltyRate, period: rules.loanPenaltyPeriod, missedInstallments: installments.length },
+            });
+            await notify(
+                'Loan Penalty Charged',
+                `A penalty of KES ${loanPenalty.toFixed(2)} has been charged on ${borrowerName}'s loan for ${installments.length} missed installment(s).`,
+                NotificationType.LOAN_PENALTY
+            );
+            result.loansPenalized++;
+            result.penaltyCharged = roundAmount(result.penaltyCharged + loanPenalty);
+        }
+
+        if (loan.status === LoanStatus.ACTIVE && installments.length >= rules.loanDefaultAfter) {
+            const defaultedLoan = await prisma.loan.update({
+                where: { id: loan.id },
+                data: { status: LoanStatus.DEFAULTED },
+            });
+            await createAuditLog({
+                action: AuditAction.LOAN_DEFAULT,
+                actorId: null,
+                chamaId,
+                loanId: loan.id,
+                oldValue,
+                newValue: defaultedLoan,
+            });
+            await notify(
+                'Loan Defaulted',
+                `${borrowerName}'s loan of KES ${loan.amount.toFixed(2)} has been marked as defaulted after ${installments.length} missed installments.`,
+                NotificationType.LOAN_DEFAULT
+            );
+            result.loansDefaulted++;
+            logger.warn({ chamaId, loanId: loan.id, missedInstallments: installments.length }, 'Loan marked as defaulted');
+        }
+    }
+
+    logger.info({ chamaId, ...result }, 'Overdue loan rules applied');
+
+    return result;
+};
+
+/**
+ * Moves penalties from a loan's old installments onto its rebuilt schedule, keeping each on the
+ * installment with the same number, which falls due on the same date. Penalties on installments
+ * the new schedule no longer has go to its last installment.
+ * @returns The penalty already paid, which is not to be re-applied as a repayment.
+ */
+const carryInstallmentPenalties = async (loanId: string, previous: LoanInstallment[], client: LoanClient) => {
+    const installments = await client.loanInstallment.findMany({ where: { loanId }, orderBy: { installmentNumber: 'asc' } });
+    const last = installments[installments.length - 1];
+    let penaltyPaid = 0;
+
+    for (const installment of installments) {
+        const carried = previous.filter(old => old.installmentNumber === installment.installmentNumber
+            || (installment === last && old.installmentNumber > installment.installmentNumber));
+        const penaltyDue = roundAmount(carried.reduce((sum, old) => sum + old.penaltyDue, 0));
+        const paid = roundAmount(carried.reduce((sum, old) => sum + old.penaltyPaid, 0));
+        if (penaltyDue === 0 && paid === 0) continue;
+
+        const amountDue = roundAmount(installment.amountDue + penaltyDue);
+        await client.loanInstallment.update({
+            where: { id: installment.id },
+            data: {
+                penaltyDue,
+                penaltyPaid: paid,
+                amountDue,
+                amountPaid: paid,
+                penaltyAccruedTo: carried.find(old => old.installmentNumber === installment.installmentNumber)?.penaltyAccruedTo ?? null,
+                status: resolveInstallmentStatus(amountDue, paid, installment.dueDate),
+            },
+        });
+        penaltyPaid = roundAmount(penaltyPaid + paid);
+    }
+
+    return penaltyPaid;
+};
+
+export const restructureLoan = async (loanId: string, data: { newInterestRate?: number, newDuration?: number, newInterestMethod?: InterestMethod, notes: string }, actorId: string, logMeta: LogMeta) => {
+    logger.info({ loanId, actorId, newInterestRate: data.newInterestRate, newDuration: data.newDuration, newInterestMethod: data.newInterestMethod }, 'Restructuring loan');
 
     const oldValue = await prisma.loan.findUnique({ where: { id: loanId }, include: { membership: true } });
     if (!oldValue) {
@@ -302,13 +1046,34 @@ export const restructureLoan = async (loanId: string, data: { newInterestRate?:
 
     const newInterestRate = data.newInterestRate ?? oldValue.interestRate;
     const newDuration = data.newDuration ?? oldValue.duration;
-    const totalInterest = oldValue.amount * newInterestRate * (newDuration / 12);
-    const repaymentAmount = oldValue.amount + totalInterest;
-    const monthlyInstallment = repaymentAmount / newDuration;
+    const newInterestMethod = data.newInterestMethod ?? oldValue.interestMethod;
+    const { repaymentAmount, monthlyInstallment } = calculateLoanTerms(oldValue.amount, newInterestRate, newDuration, newInterestMethod);
 
-    const updatedLoan = await prisma.loan.update({
-        where: { id: loanId },
-        data: { interestRate: newInterestRate, duration: newDuration, repaymentAmount, monthlyInstallment, isRestructured: true, restructureNotes: data.notes },
+    const updatedLoan = await prisma.$transaction(async (tx) => {
+        const loan = await tx.loan.update({
+            where: { id: loanId },
+            data: { interestRate: newInterestRate, duration: newDuration, interestMethod: newInterestMethod, repaymentAmount, monthlyInstallment, isRestructured: true, restructureNotes: data.notes },
+        });
+        if (!OUTSTANDING_LOAN_STATUSES.includes(loan.status) || !loan.disbursedAt) return loan;
+
+        // Rebuild the schedule on the new terms and re-apply everything already repaid. Penalties are
+        // not part of the terms, so what was charged and paid moves across to the new schedule and
+        // only the rest of the repayments go to interest and principal.
+        const previous = await tx.loanInstallment.findMany({ where: { loanId }, orderBy: { installmentNumber: 'asc' } });
+        await tx.loanInstallment.deleteMany({ where: { loanId } });
+        await createInstallmentSchedule(loan, loan.disbursedAt, tx);
+        const penaltyPaid = await carryInstallmentPenalties(loanId, previous, tx);
+
+        const payments = await tx.loanPayment.aggregate({ _sum: { amount: true }, _max: { paidAt: true }, where: { loanId } });
+        const totalRepaid = roundAmount((payments._sum.amount || 0) - penaltyPaid);
+        const applied = await applyPaymentToInstallments(loanId, totalRepaid, payments._max.paidAt || new Date(), tx);
+
+        return tx.loan.update({
+            where: { id: loanId },
+            data: applied?.isFullyPaid
+                ? { status: LoanStatus.PAID, dueDate: null }
+                : { dueDate: applied?.nextDueDate ?? null },
+        });
     });
 
     await createAuditLog({
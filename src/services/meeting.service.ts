@@ -198,6 +198,20 @@ export const cancelMeeting = async (meetingId: string, actorId: string, logMeta:
     return cancelledMeeting;
 };
 
+/**
+ * Lists a chama's scheduled meetings that have not happened yet, soonest first.
+ */
+export const getUpcomingMeetings = async (chamaId: string): Promise<Meeting[]> => {
+    return prisma.meeting.findMany({
+        where: {
+            chamaId,
+            status: MeetingStatus.SCHEDULED,
+            scheduledFor: { gte: new Date() },
+        },
+        orderBy: { scheduledFor: 'asc' },
+    });
+};
+
 /**
  * Generates a data URL for a QR code that contains the meeting ID.
  * This can be scanned by the frontend to call the mark attendance API.
@@ -0,0 +1,559 @@
+import { AuditAction, ContributionPeriod, ContributionStatus, LoanStatus, NotificationType, PayoutStatus, Prisma, PrismaClient, Rotation, RotationOrder, RotationPayout, SwapStatus, TransactionType } from '@prisma/client';
+import crypto from 'crypto';
+import { createAuditLog } from './audit.service';
+import { createNotification } from './notification.service';
+import { findCurrentPeriod, getCalendarRules } from './contributionPeriod.service';
+import { getChamaFunds, splitAcrossFunds } from './fund.service';
+import { postRotationPayout } from './ledger.service';
+import { initiateB2CPayment } from './mpesa.service';
+import { AppError } from '../utils/customErrors';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+interface LogMeta {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+interface ScheduleInput {
+    order: RotationOrder;
+    membershipIds?: string[];
+}
+
+interface PayoutInput {
+    periodId?: string;
+    paymentMethod?: string;
+    mpesaCode?: string;
+    sendViaMpesa?: boolean;
+}
+
+type RotationClient = PrismaClient | Prisma.TransactionClient;
+
+// A payout that is in flight or complete holds the member's turn for the cycle.
+const TURN_TAKEN_STATUSES: PayoutStatus[] = ['PENDING', 'PAID'];
+
+const memberSelect = { user: { select: { firstName: true, lastName: true, phone: true } } };
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const memberName = (membership: { user: { firstName: string; lastName: string } }) =>
+    `${membership.user.firstName} ${membership.user.lastName}`;
+
+const shuffle = <T>(items: T[]): T[] => {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = crypto.randomInt(i + 1);
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+};
+
+const findRotation = async (chamaId: string) => {
+    const rotation = await prisma.rotation.findUnique({ where: { chamaId } });
+    if (!rotation) {
+        throw new AppError('This chama has no merry-go-round schedule.', 404);
+    }
+    return rotation;
+};
+
+const findMemberSlot = async (rotationId: string, chamaId: string, userId: string) => {
+    const slot = await prisma.rotationSlot.findFirst({
+        where: { rotationId, membership: { userId, chamaId } },
+        include: { membership: { include: memberSelect } },
+    });
+    if (!slot) {
+        throw new AppError('You are not part of this merry-go-round.', 403);
+    }
+    return slot;
+};
+
+const membersWithTurnTaken = async (rotation: Rotation, client: RotationClient = prisma): Promise<Set<string>> => {
+    const payouts = await client.rotationPayout.findMany({
+        where: { rotationId: rotation.id, cycle: rotation.cycle, status: { in: TURN_TAKEN_STATUSES } },
+        select: { membershipId: true },
+    });
+    return new Set(payouts.map(payout => payout.membershipId));
+};
+
+/**
+ * The pot for a period is what members have paid towards it. Surplus carried on a contribution is
+ * the member's credit for later periods, so only the expected amount counts.
+ */
+export const calculatePayoutAmount = async (periodId: string, client: RotationClient = prisma): Promise<number> => {
+    const contributions = await client.contribution.findMany({
+        where: { periodId, status: ContributionStatus.PAID },
+        select: { amount: true, expectedAmount: true },
+    });
+    const total = contributions.reduce((sum, { amount, expectedAmount }) => sum + Math.min(amount, expectedAmount), 0);
+    return roundAmount(total);
+};
+
+/**
+ * Works out how much of a pot each member paid in and which of their funds it comes out of. A share
+ * leaves the funds in the proportions the member's contribution went into them.
+ */
+const splitPot = async (tx: Prisma.TransactionClient, periodId: string, amount: number, chamaId: string) => {
+    const contributions = await tx.contribution.findMany({
+        where: { periodId, status: ContributionStatus.PAID },
+        include: { fundAllocations: true },
+    });
+    const paidIn = contributions.map(contribution => Math.min(contribution.amount, contribution.expectedAmount));
+    const total = paidIn.reduce((sum, value) => sum + value, 0);
+
+    let allocated = 0;
+    const shares = [];
+    for (const [index, contribution] of contributions.entries()) {
+        // The pot was fixed when the payout was recorded, so scale each share in case a contribution has changed since.
+        const share = index === contributions.length - 1
+            ? roundAmount(amount - allocated)
+            : roundAmount(amount * paidIn[index] / total);
+        allocated = roundAmount(allocated + share);
+
+        const byFund = new Map<string, number>();
+        for (const allocation of contribution.fundAllocations) {
+            byFund.set(allocation.fundId, (byFund.get(allocation.fundId) ?? 0) + allocation.amount);
+        }
+        const allocatedIn = [...byFund.values()].reduce((sum, value) => sum + value, 0);
+        const funds = allocatedIn > 0
+            ? [...byFund].map(([id, value]) => ({ id, allocationRate: value / allocatedIn }))
+            : await getChamaFunds(chamaId, tx);
+
+        shares.push({ membershipId: contribution.membershipId, amount: share, funds: splitAcrossFunds(share, funds) });
+    }
+    return shares;
+};
+
+/**
+ * Walks the schedule in order and returns the first member still owed a turn this cycle. Members
+ * who have not paid for the period, or who have a defaulted loan, are skipped but keep their place.
+ */
+export const findNextRecipient = async (rotation: Rotation, period: ContributionPeriod, client: RotationClient = prisma) => {
+    const slots = await client.rotationSlot.findMany({
+        where: { rotationId: rotation.id },
+        include: { membership: { include: memberSelect } },
+        orderBy: { position: 'asc' },
+    });
+    const turnTaken = await membersWithTurnTaken(rotation, client);
+    const membershipIds = slots.map(slot => slot.membershipId);
+
+    const paid = new Set((await client.contribution.findMany({
+        where: { periodId: period.id, status: ContributionStatus.PAID, membershipId: { in: membershipIds } },
+        select: { membershipId: true },
+    })).map(c => c.membershipId));
+    const defaultedLoans = new Set((await client.loan.findMany({
+        where: { status: LoanStatus.DEFAULTED, membershipId: { in: membershipIds } },
+        select: { membershipId: true },
+    })).map(loan => loan.membershipId));
+
+    const skipped: typeof slots = [];
+    for (const slot of slots) {
+        if (turnTaken.has(slot.membershipId) || !slot.membership.isActive) {
+            continue;
+        }
+        if (!paid.has(slot.membershipId) || defaultedLoans.has(slot.membershipId)) {
+            skipped.push(slot);
+            continue;
+        }
+        return { recipient: slot, skipped };
+    }
+    return { recipient: null, skipped };
+};
+
+/**
+ * Returns a chama's rotation in order, with who is due the pot for the current period.
+ */
+export const getRotation = async (chamaId: string) => {
+    logger.info({ chamaId }, 'Fetching merry-go-round schedule');
+
+    const rotation = await findRotation(chamaId);
+    const slots = await prisma.rotationSlot.findMany({
+        where: { rotationId: rotation.id },
+        include: { membership: { include: memberSelect } },
+        orderBy: { position: 'asc' },
+    });
+    const turnTaken = await membersWithTurnTaken(rotation);
+
+    const period = await findCurrentPeriod(chamaId, await getCalendarRules(chamaId));
+    const next = period ? await findNextRecipient(rotation, period) : { recipient: null, skipped: [] };
+
+    return {
+        ...rotation,
+        slots: slots.map(slot => ({ ...slot, hasReceivedThisCycle: turnTaken.has(slot.membershipId) })),
+        currentPeriod: period,
+        nextRecipient: next.recipient && { membershipId: next.recipient.membershipId, position: next.recipient.position, name: memberName(next.recipient.membership) },
+        skippedMembers: next.skipped.map(slot => ({ membershipId: slot.membershipId, position: slot.position, name: memberName(slot.membership) })),
+    };
+};
+
+/**
+ * Creates or replaces a chama's rotation. A FIXED order takes the members as listed; a RANDOM
+ * order draws them, defaulting to every active member. Payouts already made this cycle still count.
+ */
+export const saveRotation = async (chamaId: string, actorId: string, data: ScheduleInput, logMeta: LogMeta) => {
+    logger.info({ chamaId, actorId, order: data.order }, 'Saving merry-go-round schedule');
+
+    const activeMembers = await prisma.membership.findMany({ where: { chamaId, isActive: true }, select: { id: true } });
+    const activeIds = new Set(activeMembers.map(member => member.id));
+
+    let membershipIds = data.membershipIds ?? [];
+    if (data.order === RotationOrder.FIXED && membershipIds.length === 0) {
+        throw new AppError('A fixed rotation needs the members in payout order.', 400);
+    }
+    if (data.order === RotationOrder.RANDOM && membershipIds.length === 0) {
+        membershipIds = [...activeIds];
+    }
+    if (new Set(membershipIds).size !== membershipIds.length) {
+        throw new AppError('Each member can only appear once in the rotation.', 400);
+    }
+    const unknown = membershipIds.filter(id => !activeIds.has(id));
+    if (unknown.length > 0) {
+        throw new AppError(`These are not active members of this chama: ${unknown.join(', ')}`, 400);
+    }
+    if (data.order === RotationOrder.RANDOM) {
+        membershipIds = shuffle(membershipIds);
+    }
+
+    const existing = await prisma.rotation.findUnique({ where: { chamaId }, include: { slots: { orderBy: { position: 'asc' } } } });
+    if (existing && await prisma.rotationPayout.count({ where: { rotationId: existing.id, status: PayoutStatus.PENDING } }) > 0) {
+        throw new AppError('The rotation cannot be changed while a payout is being processed.', 409);
+    }
+
+    const rotation = await prisma.$transaction(async (tx) => {
+        const saved = await tx.rotation.upsert({
+            where: { chamaId },
+            update: { order: data.order },
+            create: { chamaId, order: data.order },
+        });
+        // Swaps were asked for against the old order, so they no longer apply.
+        await tx.rotationSwap.updateMany({
+            where: { rotationId: saved.id, status: SwapStatus.PENDING },
+            data: { status: SwapStatus.DECLINED, respondedAt: new Date() },
+        });
+        await tx.rotationSlot.deleteMany({ where: { rotationId: saved.id } });
+        await tx.rotationSlot.createMany({
+            data: membershipIds.map((membershipId, index) => ({ rotationId: saved.id, membershipId, position: index + 1 })),
+        });
+        return tx.rotation.findUniqueOrThrow({
+            where: { id: saved.id },
+            include: { slots: { orderBy: { position: 'asc' } } },
+        });
+    });
+
+    await createAuditLog({
+        action: AuditAction.ROTATION_SCHEDULE,
+        actorId,
+        chamaId,
+        oldValue: existing,
+        newValue: rotation,
+        ...logMeta,
+    });
+
+    logger.info({ chamaId, rotationId: rotation.id, order: rotation.order, members: membershipIds.length }, 'Merry-go-round schedule saved');
+
+    return rotation;
+};
+
+/**
+ * Asks another member to trade places in the rotation. Neither may have had their turn this cycle.
+ */
+export const requestSwap = async (chamaId: string, actorId: string, targetMembershipId: string, logMeta: LogMeta) => {
+    logger.info({ chamaId, actorId, targetMembershipId }, 'Requesting merry-go-round swap');
+
+    const rotation = await findRotation(chamaId);
+    const requesterSlot = await findMemberSlot(rotation.id, chamaId, actorId);
+    const targetSlot = await prisma.rotationSlot.findFirst({ where: { rotationId: rotation.id, membershipId: targetMembershipId } });
+    if (!targetSlot) {
+        throw new AppError('That member is not part of this merry-go-round.', 404);
+    }
+    if (targetSlot.id === requesterSlot.id) {
+        throw new AppError('You cannot swap places with yourself.', 400);
+    }
+
+    const turnTaken = await membersWithTurnTaken(rotation);
+    if (turnTaken.has(requesterSlot.membershipId) || turnTaken.has(targetMembershipId)) {
+        throw new AppError('Members who have already received the pot this cycle cannot swap.', 409);
+    }
+
+    const pending = await prisma.rotationSwap.findFirst({
+        where: { rotationId: rotation.id, requesterId: requesterSlot.membershipId, targetId: targetMembershipId, status: SwapStatus.PENDING },
+    });
+    if (pending) {
+        throw new AppError('You have already asked this member to swap.', 409);
+    }
+
+    const swap = await prisma.rotationSwap.create({
+        data: { rotationId: rotation.id, requesterId: requesterSlot.membershipId, targetId: targetMembershipId },
+    });
+
+    await createAuditLog({
+        action: AuditAction.ROTATION_SWAP,
+        actorId,
+        chamaId,
+        newValue: swap,
+        ...logMeta,
+    });
+
+    await createNotification({
+        membershipId: targetMembershipId,
+        title: 'Merry-Go-Round Swap Request',
+        message: `${memberName(requesterSlot.membership)} (position ${requesterSlot.position}) has asked to swap places with you (position ${targetSlot.position}) in the merry-go-round.`,
+        type: NotificationType.GENERAL,
+    });
+
+    logger.info({ chamaId, swapId: swap.id }, 'Merry-go-round swap requested');
+
+    return swap;
+};
+
+/**
+ * Lets the member asked to swap accept or decline. Accepting exchanges the two positions.
+ */
+export const respondToSwap = async (chamaId: string, swapId: string, status: SwapStatus, actorId: string, logMeta: LogMeta) => {
+    logger.info({ chamaId, swapId, status, actorId }, 'Responding to merry-go-round swap');
+
+    const rotation = await findRotation(chamaId);
+    const swap = await prisma.rotationSwap.findFirst({
+        where: { id: swapId, rotationId: rotation.id },
+        include: { target: true },
+    });
+    if (!swap) {
+        throw new AppError('Swap request not found.', 404);
+    }
+    if (swap.target.userId !== actorId) {
+        throw new AppError('Only the member asked to swap can respond.', 403);
+    }
+    if (swap.status !== SwapStatus.PENDING) {
+        throw new AppError('This swap request has already been answered.', 409);
+    }
+    if (status !== SwapStatus.ACCEPTED && status !== SwapStatus.DECLINED) {
+        throw new AppError('Invalid status provided. Must be ACCEPTED or DECLINED.', 400);
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+        if (status === SwapStatus.ACCEPTED) {
+            const turnTaken = await membersWithTurnTaken(rotation, tx);
+            if (turnTaken.has(swap.requesterId) || turnTaken.has(swap.targetId)) {
+                throw new AppError('Members who have already received the pot this cycle cannot swap.', 409);
+            }
+            const requesterSlot = await tx.rotationSlot.findUniqueOrThrow({ where: { membershipId: swap.requesterId } });
+            const targetSlot = await tx.rotationSlot.findUniqueOrThrow({ where: { membershipId: swap.targetId } });
+            // Positions are unique, so park one slot while the other moves.
+            await tx.rotationSlot.update({ where: { id: requesterSlot.id }, data: { position: 0 } });
+            await tx.rotationSlot.update({ where: { id: targetSlot.id }, data: { position: requesterSlot.position } });
+            await tx.rotationSlot.update({ where: { id: requesterSlot.id }, data: { position: targetSlot.position } });
+        }
+        return tx.rotationSwap.update({ where: { id: swap.id }, data: { status, respondedAt: new Date() } });
+    });
+
+    const { target, ...oldValue } = swap;
+    await createAuditLog({
+        action: AuditAction.ROTATION_SWAP,
+        actorId,
+        chamaId,
+        oldValue,
+        newValue: updated,
+        ...logMeta,
+    });
+
+    await createNotification({
+        membershipId: swap.requesterId,
+        title: status === SwapStatus.ACCEPTED ? 'Merry-Go-Round Swap Accepted' : 'Merry-Go-Round Swap Declined',
+        message: `Your request to swap places in the merry-go-round has been ${status === SwapStatus.ACCEPTED ? 'accepted' : 'declined'}.`,
+        type: NotificationType.GENERAL,
+    });
+
+    logger.info({ chamaId, swapId, status }, 'Merry-go-round swap answered');
+
+    return updated;
+};
+
+/**
+ * Settles a payout in the chama's books, taking each member's share of the pot out of their savings,
+ * and starts a new cycle once every member has had a turn.
+ */
+const completePayout = async (tx: Prisma.TransactionClient, payout: RotationPayout, chamaId: string, mpesaCode: string | null) => {
+    const paid = await tx.rotationPayout.update({
+        where: { id: payout.id },
+        data: { status: PayoutStatus.PAID, paidAt: new Date(), mpesaCode },
+        include: { membership: { include: memberSelect }, period: true },
+    });
+
+    await tx.transaction.create({
+        data: {
+            chamaId,
+            type: TransactionType.MERRY_GO_ROUND_PAYOUT,
+            amount: -paid.amount, // Negative amount as money is going out
+            description: `Merry-go-round payout to ${memberName(paid.membership)} for the period due ${paid.period.dueDate.toDateString()}${mpesaCode ? `. Ref: ${mpesaCode}` : ''}`,
+        },
+    });
+
+    const shares = await splitPot(tx, paid.periodId, paid.amount, chamaId);
+    await postRotationPayout(paid, shares, chamaId, tx);
+    const allocations = shares.flatMap(share => share.funds
+        .filter(fund => fund.amount !== 0)
+        .map(fund => ({ rotationPayoutId: paid.id, fundId: fund.fundId, membershipId: share.membershipId, amount: -fund.amount })));
+    if (allocations.length > 0) {
+        await tx.fundAllocation.createMany({ data: allocations });
+    }
+
+    const rotation = await tx.rotation.findUniqueOrThrow({ where: { id: payout.rotationId } });
+    // The cycle is over once no active member is still waiting for their turn. Members who have left keep their
+    // slot but are never paid again, so they do not hold the cycle open.
+    const stillWaiting = await tx.rotationSlot.count({
+        where: {
+            rotationId: rotation.id,
+            membership: {
+                isActive: true,
+                rotationPayouts: { none: { rotationId: rotation.id, cycle: rotation.cycle, status: PayoutStatus.PAID } },
+            },
+        },
+    });
+    if (stillWaiting === 0) {
+        await tx.rotation.update({ where: { id: rotation.id }, data: { cycle: { increment: 1 } } });
+    }
+
+    return paid;
+};
+
+/**
+ * Pays the pot for a period to the next eligible member. The payout can be recorded as already
+ * paid, or sent to the member's phone by M-Pesa B2C and settled when Safaricom confirms it.
+ */
+export const recordPayout = async (chamaId: string, actorId: string, data: PayoutInput, logMeta: LogMeta) => {
+    logger.info({ chamaId, actorId, periodId: data.periodId, sendViaMpesa: data.sendViaMpesa }, 'Recording merry-go-round payout');
+
+    const rotation = await findRotation(chamaId);
+    const period = data.periodId
+        ? await prisma.contributionPeriod.findFirst({ where: { id: data.periodId, chamaId } })
+        : await findCurrentPeriod(chamaId, await getCalendarRules(chamaId));
+    if (!period) {
+        throw new AppError(data.periodId ? 'Contribution period not found.' : 'No contribution period has started yet.', 404);
+    }
+
+    const existing = await prisma.rotationPayout.findUnique({ where: { periodId: period.id } });
+    if (existing && existing.status !== PayoutStatus.FAILED) {
+        throw new AppError('A payout has already been recorded for this period.', 409);
+    }
+
+    const amount = await calculatePayoutAmount(period.id);
+    if (amount <= 0) {
+        throw new AppError('No contributions have been paid for this period.', 400);
+    }
+
+    const { recipient, skipped } = await findNextRecipient(rotation, period);
+    if (!recipient) {
+        throw new AppError('No member is eligible for the pot this period. Everyone left in the cycle has defaulted.', 400);
+    }
+    if (skipped.length > 0) {
+        logger.info({ chamaId, periodId: period.id, skipped: skipped.map(slot => slot.membershipId) }, 'Skipping defaulted members in rotation');
+    }
+
+    let payout = await prisma.$transaction(async (tx) => {
+        if (existing) {
+            await tx.rotationPayout.delete({ where: { id: existing.id } });
+        }
+        const created = await tx.rotationPayout.create({
+            data: {
+                rotationId: rotation.id,
+                membershipId: recipient.membershipId,
+                periodId: period.id,
+                cycle: rotation.cycle,
+                amount,
+                paymentMethod: data.sendViaMpesa ? 'M-PESA' : data.paymentMethod ?? 'CASH',
+            },
+        });
+        return data.sendViaMpesa ? created : completePayout(tx, created, chamaId, data.mpesaCode ?? null);
+    });
+
+    if (data.sendViaMpesa) {
+        try {
+            const response = await initiateB2CPayment(recipient.membership.user.phone, amount, 'Merry-go-round payout');
+            payout = await prisma.rotationPayout.update({ where: { id: payout.id }, data: { mpesaB2CRequestId: response.reference } });
+        } catch (error) {
+            await prisma.rotationPayout.update({ where: { id: payout.id }, data: { status: PayoutStatus.FAILED } });
+            throw new AppError(error instanceof Error ? error.message : 'Failed to initiate M-Pesa B2C payment.', 502);
+        }
+    }
+
+    await createAuditLog({
+        action: AuditAction.ROTATION_PAYOUT,
+        actorId,
+        chamaId,
+        targetId: recipient.membership.userId,
+        newValue: payout,
+        ...logMeta,
+    });
+
+    if (payout.status === PayoutStatus.PAID) {
+        await createNotification({
+            membershipId: recipient.membershipId,
+            title: 'Merry-Go-Round Payout',
+            message: `You have received the merry-go-round pot of KES ${amount.toFixed(2)}.`,
+            type: NotificationType.GENERAL,
+        });
+    }
+
+    logger.info({ chamaId, payoutId: payout.id, membershipId: recipient.membershipId, amount, status: payout.status }, 'Merry-go-round payout recorded');
+
+    return { ...payout, skippedMembershipIds: skipped.map(slot => slot.membershipId) };
+};
+
+/**
+ * Settles a payout sent by M-Pesa B2C once the result or timeout callback arrives. A failed or
+ * timed-out payout frees the period so it can be paid again.
+ * @returns The payout, or null when the conversation is not a merry-go-round payout.
+ */
+export const settleMpesaPayout = async (conversationId: string, succeeded: boolean, receipt?: string) => {
+    const payout = await prisma.rotationPayout.findUnique({
+        where: { mpesaB2CRequestId: conversationId },
+        include: { rotation: true },
+    });
+    if (!payout) {
+        return null;
+    }
+    if (payout.status !== PayoutStatus.PENDING) {
+        logger.warn({ payoutId: payout.id, status: payout.status }, 'Merry-go-round payout already settled');
+        return payout;
+    }
+
+    const { chamaId } = payout.rotation;
+    if (!succeeded) {
+        const failed = await prisma.rotationPayout.update({ where: { id: payout.id }, data: { status: PayoutStatus.FAILED } });
+        logger.warn({ chamaId, payoutId: payout.id }, 'Merry-go-round payout failed');
+        return failed;
+    }
+
+    const paid = await prisma.$transaction(tx => completePayout(tx, payout, chamaId, receipt ?? null));
+
+    await createAuditLog({
+        action: AuditAction.ROTATION_PAYOUT,
+        actorId: null,
+        chamaId,
+        targetId: paid.membership.userId,
+        oldValue: payout,
+        newValue: paid,
+    });
+
+    await createNotification({
+        membershipId: paid.membershipId,
+        title: 'Merry-Go-Round Payout',
+        message: `You have received the merry-go-round pot of KES ${paid.amount.toFixed(2)}.`,
+        type: NotificationType.GENERAL,
+    });
+
+    logger.info({ chamaId, payoutId: paid.id, receipt }, 'Merry-go-round payout settled');
+
+    return paid;
+};
+
+export const listPayouts = async (chamaId: string) => {
+    logger.info({ chamaId }, 'Listing merry-go-round payouts');
+
+    const rotation = await findRotation(chamaId);
+    return prisma.rotationPayout.findMany({
+        where: { rotationId: rotation.id },
+        include: { membership: { include: { user: { select: { firstName: true, lastName: true } } } }, period: true },
+        orderBy: { createdAt: 'desc' },
+    });
+};
@@ -1,173 +1,147 @@
-import axios from 'axios';
-import { format } from 'date-fns';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getPaymentProvider } from './payments/paymentProvider';
+import { PaymentProviderError } from './payments/types';
 import { isErrorWithMessage } from '../utils/error.utils';
 import logger from '../config/logger'; // Import Pino logger
 
 const prisma = new PrismaClient();
 
-// This is an in-memory cache. In a real production app, you might use Redis.
-let mpesaToken: { token: string; expires: Date } | null = null;
-
 /**
- * Generates or retrieves a cached M-Pesa Daraja API access token.
- * This function is based on the "Authorization API" documentation.
+ * Builds the public URL Daraja calls back on. When MPESA_CALLBACK_TOKEN is set it is appended to
+ * the path, so that callbacks can be told apart from requests by anyone else.
  */
-const getAccessToken = async (): Promise<string> => {
-    if (mpesaToken && mpesaToken.expires > new Date()) {
-        logger.debug('Using cached M-Pesa access token');
-        return mpesaToken.token;
-    }
-
-    const consumerKey = process.env.MPESA_CONSUMER_KEY;
-    const consumerSecret = process.env.MPESA_CONSUMER_SECRET;
-    const baseURL = process.env.MPESA_API_BASE_URL;
+const callbackUrl = (path: string) => {
+    const token = process.env.MPESA_CALLBACK_TOKEN;
+    return `${process.env.MPESA_CALLBACK_URL}/api/payments/${path}${token ? `/${token}` : ''}`;
+};
 
-    if (!consumerKey || !consumerSecret || !baseURL) {
-        logger.error('M-Pesa environment variables not configured');
-        throw new Error('M-Pesa environment variables are not configured.');
-    }
+interface StkPushOrder {
+    accountReference: string;
+    description: string;
+    // What the push pays for, kept on the request log so its callback can be reconciled.
+    target: { chamaId?: string; membershipId?: string; contributionId?: string; loanId?: string };
+}
 
-    const url = `${baseURL}/oauth/v1/generate?grant_type=client_credentials`;
-    const auth = Buffer.from(`${consumerKey}:${consumerSecret}`).toString('base64');
+/**
+ * Sends an STK push through the payment provider and logs it, including pushes the provider
+ * rejects. Credentials are left out of the log.
+ */
+const sendStkPush = async (phone: string, amount: number, order: StkPushOrder) => {
+    const provider = getPaymentProvider();
+    const request = {
+        phone,
+        amount,
+        accountReference: order.accountReference,
+        description: order.description,
+        callbackUrl: callbackUrl('callback'),
+    };
 
     try {
-        const response = await axios.get(url, {
-            headers: {
-                Authorization: `Basic ${auth}`,
-            },
-        });
-
-        const token = response.data.access_token;
-        const expiresIn = response.data.expires_in; // Typically 3599 seconds
-
-        const expires = new Date().getTime() + (expiresIn - 60) * 1000;
-        mpesaToken = { token, expires: new Date(expires) };
+        logger.info({ phone, amount, provider: provider.name, ...order.target }, 'Initiating STK push');
+
+        const result = await provider.collect(request);
+        const requestLog = { phone, amount, requestPayload: result.request as Prisma.InputJsonValue, ...order.target };
+
+        if (result.reference) {
+            await prisma.mpesaRequest.create({
+                data: {
+                    ...requestLog,
+                    checkoutRequestId: result.reference,
+                    merchantRequestId: result.merchantReference,
+                    responsePayload: result.response as Prisma.InputJsonValue,
+                    events: { create: { status: 'PENDING', note: result.message } },
+                },
+            });
+            logger.info({ checkoutRequestId: result.reference, ...order.target }, 'STK push initiated successfully');
+        }
 
-        logger.info({ expiresIn }, 'M-Pesa access token obtained');
-        return token;
+        return result;
     } catch (error) {
-        if (axios.isAxiosError(error)) {
-            logger.error({ error: error.response?.data || error.message }, 'M-Pesa auth error');
-        } else {
-            logger.error({ error }, 'M-Pesa auth error');
+        const resultDesc = isErrorWithMessage(error) ? error.message : 'Failed to initiate M-Pesa STK Push.';
+        const requestPayload = (error instanceof PaymentProviderError && error.request ? error.request : request) as Prisma.InputJsonValue;
+        try {
+            await prisma.mpesaRequest.create({
+                data: { phone, amount, requestPayload, ...order.target, status: 'FAILED', resultDesc, events: { create: { status: 'FAILED', note: resultDesc } } },
+            });
+        } catch (logError) {
+            logger.error({ error: logError, ...order.target }, 'Failed to log rejected STK push');
         }
-        throw new Error('Failed to obtain M-Pesa access token.');
+
+        logger.error({ error: resultDesc, phone, amount, ...order.target }, 'STK push failed');
+        throw new Error(resultDesc);
     }
 };
 
 /**
- * Initiates an M-Pesa STK Push request.
- * This function is based on the "LIPA NA MPESA (STKPUSH) API" documentation.
+ * Initiates an M-Pesa STK Push request for a contribution.
  * @param phone - The customer's phone number in 254... format.
  * @param amount - The amount to be paid.
  * @param contributionId - The ID of the contribution record this payment is for.
- * @returns The response from the Daraja API.
+ * @returns The provider's response.
  */
 export const initiateStkPush = async (phone: string, amount: number, contributionId: string) => {
-    const token = await getAccessToken();
-
-    const shortCode = process.env.MPESA_BUSINESS_SHORT_CODE!;
-    const passkey = process.env.MPESA_PASSKEY!;
-    const callbackURL = `${process.env.MPESA_CALLBACK_URL}/api/payments/callback`;
-    const baseURL = process.env.MPESA_API_BASE_URL!;
-    
-    const timestamp = format(new Date(), 'yyyyMMddHHmmss');
-    const password = Buffer.from(`${shortCode}${passkey}${timestamp}`).toString('base64');
-
-    const payload = {
-        BusinessShortCode: shortCode,
-        Password: password,
-        Timestamp: timestamp,
-        TransactionType: process.env.MPESA_TRANSACTION_TYPE!,
-        Amount: amount,
-        PartyA: phone,
-        PartyB: shortCode,
-        PhoneNumber: phone,
-        CallBackURL: callbackURL,
-        AccountReference: "ChamaContribution",
-        TransactionDesc: `Payment for contribution ID ${contributionId}`,
-    };
-
-    const url = `${baseURL}/mpesa/stkpush/v1/processrequest`;
-    
-    try {
-        logger.info({ phone, amount, contributionId }, 'Initiating STK push');
-        
-        const response = await axios.post(url, payload, {
-            headers: {
-                Authorization: `Bearer ${token}`,
-            },
-            
+    const contribution = await prisma.contribution.findUnique({ where: { id: contributionId }, include: { membership: true } });
+
+    const result = await sendStkPush(phone, amount, {
+        accountReference: "ChamaContribution",
+        description: `Payment for contribution ID ${contributionId}`,
+        target: { contributionId: contribution?.id, membershipId: contribution?.membershipId, chamaId: contribution?.membership.chamaId },
+    });
+
+    if (result.reference) {
+        await prisma.contribution.update({
+            where: { id: contributionId },
+            data: { mpesaCheckoutId: result.reference },
         });
+    }
 
-        const checkoutRequestId = response.data.CheckoutRequestID;
-        if (checkoutRequestId) {
-            await prisma.contribution.update({
-                where: { id: contributionId },
-                data: { mpesaCheckoutId: checkoutRequestId },
-            });
-            logger.info({ checkoutRequestId, contributionId }, 'STK push initiated successfully');
-        }
+    return result.response;
+};
 
-        return response.data;
-    } catch (error) {
-        if (axios.isAxiosError(error) && error.response?.data) {
-            logger.error({ error: error.response.data, phone, amount, contributionId }, 'STK push failed');
-            throw new Error(JSON.stringify(error.response.data));
-        } else if (isErrorWithMessage(error)) {
-            logger.error({ error: error.message, phone, amount, contributionId }, 'STK push failed');
-            throw new Error(error.message);
-        }
-        logger.error({ error, phone, amount, contributionId }, 'STK push failed');
-        throw new Error('Failed to initiate M-Pesa STK Push.');
-    }
+/**
+ * Initiates an M-Pesa STK Push request for a loan repayment. The callback records it as a payment
+ * on the loan.
+ * @param phone - The customer's phone number in 254... format.
+ * @param amount - The amount to be repaid.
+ * @param loanId - The ID of the loan being repaid.
+ * @returns The provider's response.
+ */
+export const initiateLoanStkPush = async (phone: string, amount: number, loanId: string) => {
+    const loan = await prisma.loan.findUnique({ where: { id: loanId }, include: { membership: true } });
+
+    const result = await sendStkPush(phone, amount, {
+        accountReference: "ChamaLoan",
+        description: `Repayment for loan ID ${loanId}`,
+        target: { loanId: loan?.id, membershipId: loan?.membershipId, chamaId: loan?.membership.chamaId },
+    });
+
+    return result.response;
 };
 
 /**
  * Queries the status of a previously initiated M-Pesa STK Push transaction.
  * @params checkoutRequestId - The ID of the checkout request to query.
- * @returns The response from the Daraja API.
+ * @returns The outcome so far, with the provider's response.
  */
-
 export const queryStkStatus = async (checkoutRequestId: string) => {
-    const token = await getAccessToken();
-    const shortCode = process.env.MPESA_BUSINESS_SHORT_CODE!;
-    const baseURL = process.env.MPESA_API_BASE_URL!;
-    const passkey = process.env.MPESA_PASSKEY!;
-    const timestamp = format(new Date(), 'yyyyMMddHHmmss');
-    const password = Buffer.from(`${shortCode}${passkey}${timestamp}`).toString('base64');
-
-    const payload = {
-        BusinessShortCode: shortCode,
-        Password: password,
-        Timestamp: timestamp,
-        CheckoutRequestID: checkoutRequestId,
-    };
+    logger.debug({ checkoutRequestId }, 'Querying STK push status');
 
-    try {
-        logger.debug({ checkoutRequestId }, 'Querying STK push status');
-        
-        const response = await axios.post(`${baseURL}/mpesa/stkpushquery/v1/query`, payload, {
-            headers: {
-                Authorization: `Bearer ${token}`,
-            },
-        });
-        
-        logger.info({ checkoutRequestId, resultCode: response.data.ResultCode }, 'STK push status queried');
-        return response.data;
-    } catch (error) {
-        if (axios.isAxiosError(error) && error.response?.data) {
-            logger.error({ error: error.response.data, checkoutRequestId }, 'STK push query error');
-            throw new Error(JSON.stringify(error.response.data));
-        } else if (isErrorWithMessage(error)) {
-            logger.error({ error: error.message, checkoutRequestId }, 'STK push query error');
-            throw new Error(error.message);
-        }
-        logger.error({ error, checkoutRequestId }, 'STK push query error');
-        throw new Error('Failed to query M-Pesa STK Push status.');
-    }
-}
+    const status = await getPaymentProvider().queryCollection(checkoutRequestId);
+
+    logger.info({ checkoutRequestId, resultCode: status.resultCode, outcome: status.outcome }, 'STK push status queried');
+    return status;
+};
+
+/**
+ * Reads an STK push callback into the provider-neutral form reconciliation works with.
+ * Throws when the body is not a callback.
+ */
+export const parseStkCallback = (body: unknown) => getPaymentProvider().parseCollectionCallback(body);
+
+/**
+ * Reads a B2C result or timeout callback. Throws when the body is not a callback.
+ */
+export const parseB2CCallback = (body: unknown) => getPaymentProvider().parsePayoutCallback(body);
 
 /**
  * Initiates a B2C payment to a mobile number.
@@ -175,56 +149,29 @@ export const queryStkStatus = async (checkoutRequestId: string) => {
  * @param phone - The recipient's phone number in 254... format.
  * @param amount - The amount to be sent.
  * @param remarks - A description of the transaction.
- * @return The response from the Daraja API.
+ * @return The payout's reference (the B2C ConversationID) and the provider's response.
  */
-
 export const initiateB2CPayment = async (phone: string, amount: number, remarks: string) => {
-    const token = await getAccessToken();
-    const shortCode = process.env.MPESA_BUSINESS_SHORT_CODE!;
-    const baseURL = process.env.MPESA_API_BASE_URL!;
-
-    //NOTE: For B2C, you need different credentials: an initiator name and security credential.
-    const initiatorName = process.env.MPESA_B2C_INITIATOR_NAME!;
-    const securityCredential = process.env.MPESA_B2C_SECURITY_CREDENTIAL!;
-
-    const payload = {
-        InitiatorName: initiatorName,
-        SecurityCredential: securityCredential,
-        CommandID: 'BusinessPayment',
-        Amount: amount,
-        PartyA: shortCode,
-        PartyB: phone,
-        Remarks: remarks,
-        QueueTimeOutURL: `${process.env.MPESA_CALLBACK_URL}/api/payments/b2c-timeout`,
-        ResultURL: `${process.env.MPESA_CALLBACK_URL}/api/payments/b2c-result`,
-        Occassion: `Payment to ${phone}`,
-    }
-
-    try {
-        logger.info({ phone, amount, remarks }, 'Initiating B2C payment');
-        
-        const response = await axios.post(`${baseURL}/mpesa/b2c/v1/paymentrequest`, payload, {
-            headers: {
-                Authorization: `Bearer ${token}`,
-            },
-        });
+    logger.info({ phone, amount, remarks }, 'Initiating B2C payment');
+
+    const result = await getPaymentProvider().payout({
+        phone,
+        amount,
+        remarks,
+        resultUrl: callbackUrl('b2c-result'),
+        timeoutUrl: callbackUrl('b2c-timeout'),
+    });
+
+    logger.info({ phone, amount, conversationId: result.reference }, 'B2C payment initiated successfully');
+    return result;
+};
 
-        logger.info({ 
-            phone, 
-            amount, 
-            conversationId: response.data.ConversationID 
-        }, 'B2C payment initiated successfully');
-        
-        return response.data;
-    } catch (error) {
-        if (axios.isAxiosError(error) && error.response?.data) {
-            logger.error({ error: error.response.data, phone, amount }, 'B2C payment error');
-            throw new Error(JSON.stringify(error.response.data));
-        } else if (isErrorWithMessage(error)) {
-            logger.error({ error: error.message, phone, amount }, 'B2C payment error');
-            throw new Error(error.message);
-        }
-        logger.error({ error, phone, amount }, 'B2C payment error');
-        throw new Error('Failed to initiate M-Pesa B2C payment.');
-    }
-}
\ No newline at end of file
+/**
+ * Registers the C2B validation and confirmation URLs for the chama paybill, so that payments made
+ * straight to the paybill are reported to the API. Payments are completed if the validation URL
+ * cannot be reached; they are matched or queued for review when confirmed either way.
+ */
+export const registerC2BUrls = async () => getPaymentProvider().registerPaybillUrls({
+    confirmationUrl: callbackUrl('c2b/confirmation'),
+    validationUrl: callbackUrl('c2b/validation'),
+});
@@ -0,0 +1,80 @@
+import { MpesaCallback, MpesaCallbackStatus, MpesaCallbackType, Prisma, PrismaClient } from '@prisma/client';
+import { isErrorWithMessage, isPrismaError } from '../utils/error.utils';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+// A callback still PROCESSING after this long was interrupted (e.g. by a restart) and may be taken over.
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+/**
+ * Records a callback delivery and claims it for processing. Daraja retries callbacks it gets no
+ * answer to, and the same result can arrive more than once; only the first delivery of each
+ * CheckoutRequestID, ConversationID or receipt is processed. A repeat is processed again only
+ * when the earlier attempt failed or was interrupted.
+ * @returns The claimed callback, or null when it has been, or is being, processed already.
+ */
+const claimCallback = async (type: MpesaCallbackType, reference: string, payload: Prisma.InputJsonValue): Promise<MpesaCallback | null> => {
+    try {
+        return await prisma.mpesaCallback.create({ data: { type, reference, payload } });
+    } catch (error) {
+        if (!isPrismaError(error) || error.code !== 'P2002') throw error;
+    }
+
+    // Counting the delivery moves updatedAt, so whether processing was interrupted is judged by claimedAt.
+    const existing = await prisma.mpesaCallback.update({
+        where: { type_reference: { type, reference } },
+        data: { deliveries: { increment: 1 } },
+    });
+
+    const interrupted = existing.status === MpesaCallbackStatus.PROCESSING
+        && Date.now() - existing.claimedAt.getTime() > STALE_PROCESSING_MS;
+    if (existing.status !== MpesaCallbackStatus.FAILED && !interrupted) {
+        logger.info({ type, reference, status: existing.status, deliveries: existing.deliveries }, 'Duplicate M-Pesa callback ignored');
+        return null;
+    }
+
+    // Two redeliveries of a failed or interrupted callback can arrive together; only one of them takes it over.
+    const { count } = await prisma.mpesaCallback.updateMany({
+        where: { id: existing.id, status: existing.status, claimedAt: existing.claimedAt },
+        data: { status: MpesaCallbackStatus.PROCESSING, payload, attempts: { increment: 1 }, claimedAt: new Date() },
+    });
+    if (count === 0) {
+        logger.info({ type, reference }, 'Duplicate M-Pesa callback is already being reprocessed');
+        return null;
+    }
+
+    logger.info({ type, reference, attempts: existing.attempts + 1 }, 'Reprocessing M-Pesa callback');
+    return existing;
+};
+
+/**
+ * Runs a callback's processing once per reference, recording whether it succeeded. A failure is
+ * stored with its error and rethrown, and the callback is processed again if Daraja redelivers it.
+ * @returns True if the callback was processed, false if it was a duplicate.
+ */
+export const processCallbackOnce = async (
+    type: MpesaCallbackType,
+    reference: string,
+    payload: Prisma.InputJsonValue,
+    process: () => Promise<unknown>
+) => {
+    const callback = await claimCallback(type, reference, payload);
+    if (!callback) return false;
+
+    try {
+        await process();
+    } catch (error) {
+        await prisma.mpesaCallback.update({
+            where: { id: callback.id },
+            data: { status: MpesaCallbackStatus.FAILED, error: isErrorWithMessage(error) ? error.message : String(error) },
+        });
+        throw error;
+    }
+
+    await prisma.mpesaCallback.update({
+        where: { id: callback.id },
+        data: { status: MpesaCallbackStatus.PROCESSED, error: null, processedAt: new Date() },
+    });
+    return true;
+};
@@ -0,0 +1,597 @@
+import { AuditAction, LoanStatus, MpesaChannel, MpesaRequest, MpesaRequestStatus, NotificationType, Prisma, PrismaClient } from '@prisma/client';
+import { createAuditLog } from './audit.service';
+import { createNotification, sendSms } from './notification.service';
+import { recordContribution, recordMpesaContributionPayment, recordPaybillContributionPayment } from './contribution.service';
+import { getNextInstallmentAmount, getOutstandingLoans, recordLoanPayment } from './loan.service';
+import { initiateLoanStkPush, queryStkStatus } from './mpesa.service';
+import { parseDarajaDate } from './payments/daraja.provider';
+import { CollectionCallback, ProviderPayload } from './payments/types';
+import { AppError } from '../utils/customErrors';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+interface LogMeta {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+// A C2B confirmation or validation request, as Daraja sends it. Amounts and times arrive as strings.
+export interface C2BPayment {
+    TransactionType?: string;
+    TransID: string;
+    TransTime: string;
+    TransAmount: string | number;
+    BusinessShortCode?: string;
+    BillRefNumber?: string;
+    MSISDN: string;
+    FirstName?: string;
+}
+
+interface RequestFilters {
+    status?: MpesaRequestStatus;
+    channel?: MpesaChannel;
+    membershipId?: string;
+}
+
+const requestInclude = {
+    chama: { select: { name: true } },
+    events: { orderBy: { createdAt: 'asc' as const } },
+};
+
+type LoggedRequest = MpesaRequest & { chama: { name: string } | null };
+
+interface ReceivedPayment {
+    amount: number;
+    receipt: string;
+    phone: string;
+    paidAt: Date;
+}
+
+const describeFailure: Partial<Record<MpesaRequestStatus, string>> = {
+    CANCELLED: 'the M-Pesa prompt was cancelled',
+    TIMED_OUT: 'the M-Pesa prompt expired before it was answered',
+};
+
+/**
+ * Maps a Daraja result code to the status of the push. 1032 means the member cancelled the prompt and
+ * 1037 that their phone could not be reached in time; anything else is a failure such as a wrong PIN.
+ */
+/**
+ * Tells the payer how their M-Pesa payment went, in the app when they are a member and by SMS.
+ * Notification failures are logged and never undo the payment itself.
+ */
+const notifyPayer = async (membershipId: string | null, phone: string, title: string, message: string) => {
+    try {
+        if (membershipId) {
+            await createNotification({ membershipId, title, message, type: NotificationType.GENERAL });
+        }
+        await sendSms([phone.startsWith('+') ? phone : `+${phone}`], message);
+    } catch (error) {
+        logger.warn({ error, membershipId }, 'Failed to notify payer about M-Pesa payment');
+    }
+};
+
+/**
+ * Closes a push that did not collect any money. The contribution stops waiting on it, so the member
+ * can start a new payment.
+ */
+const closeUnpaidPush = async (request: LoggedRequest, status: MpesaRequestStatus, resultDesc: string, resultCode: number | null, callbackPayload?: ProviderPayload) => {
+    const closed = await prisma.$transaction(async (tx) => {
+        if (request.contributionId && request.checkoutRequestId) {
+            await tx.contribution.updateMany({
+                where: { id: request.contributionId, mpesaCheckoutId: request.checkoutRequestId },
+                data: { mpesaCheckoutId: null },
+            });
+        }
+        return tx.mpesaRequest.update({
+            where: { id: request.id },
+            data: {
+                status,
+                resultCode,
+                resultDesc,
+                callbackPayload: callbackPayload as unknown as Prisma.InputJsonValue,
+                completedAt: new Date(),
+                events: { create: { status, note: resultDesc } },
+            },
+        });
+    });
+
+    logger.info({ requestId: request.id, checkoutRequestId: request.checkoutRequestId, status, resultDesc }, 'STK push closed without payment');
+
+    const reason = describeFailure[status] ?? resultDesc;
+    await notifyPayer(
+        request.membershipId,
+        request.phone,
+        'Payment Not Completed',
+        `Your M-Pesa payment of KES ${request.amount.toFixed(2)}${request.chama ? ` to ${request.chama.name}` : ''} was not completed because ${reason}. Please try again.`
+    );
+
+    return closed;
+};
+
+/**
+ * Puts a payment that cannot be matched to a contribution in the chama's unmatched-payments queue
+ * for a treasurer to assign. A payment for an unknown push is logged without a chama; it shows up in
+ * the queue of any chama the paying phone number belongs to.
+ */
+const queueUnmatchedPayment = async (request: LoggedRequest | null, callback: CollectionCallback, payment: ReceivedPayment) => {
+    const data = {
+        status: 'UNMATCHED' as const,
+        resultCode: callback.resultCode,
+        resultDesc: callback.resultDesc,
+        mpesaReceipt: payment.receipt,
+        callbackPayload: callback.payload as Prisma.InputJsonValue,
+        completedAt: payment.paidAt,
+        events: {
+            create: {
+                status: 'UNMATCHED' as const,
+                note: request?.loanId ? 'The loan this payment was for is no longer outstanding' : 'No contribution found for this payment',
+            },
+        },
+    };
+
+    const queued = request
+        ? await prisma.mpesaRequest.update({ where: { id: request.id }, data: { ...data, amount: payment.amount } })
+        : await prisma.mpesaRequest.create({
+            data: {
+                ...data,
+                checkoutRequestId: callback.reference,
+                merchantRequestId: callback.merchantReference,
+                phone: payment.phone,
+                amount: payment.amount,
+            },
+        });
+
+    logger.warn({ requestId: queued.id, checkoutRequestId: callback.reference, receipt: payment.receipt }, 'M-Pesa payment queued as unmatched');
+
+    await notifyPayer(
+        queued.membershipId,
+        payment.phone,
+        'Payment Received',
+        `We received your M-Pesa payment of KES ${payment.amount.toFixed(2)} (ref ${payment.receipt}). Your treasurer will assign it to your account shortly.`
+    );
+
+    return queued;
+};
+
+// Whether an M-Pesa receipt has already been logged or recorded as a payment.
+const isReceiptRecorded = async (receipt: string) => Boolean(
+    await prisma.mpesaRequest.findUnique({ where: { mpesaReceipt: receipt } })
+    || await prisma.contributionPayment.findFirst({ where: { mpesaCode: receipt } })
+    || await prisma.loanPayment.findUnique({ where: { mpesaCode: receipt } })
+);
+
+/**
+ * Records an M-Pesa payment as a repayment on a loan. Returns null when the loan can no longer take
+ * payments, e.g. because it was paid off some other way while the payment was on its way.
+ */
+const repayLoanFromMpesa = async (loanId: string, payment: ReceivedPayment) => {
+    try {
+        return await recordLoanPayment(loanId, {
+            amount: payment.amount,
+            paymentMethod: 'M-PESA',
+            mpesaCode: payment.receipt,
+            paidAt: payment.paidAt,
+        }, null, {});
+    } catch (error) {
+        logger.warn({ error, loanId, receipt: payment.receipt }, 'Could not apply M-Pesa payment to loan');
+        return null;
+    }
+};
+
+/**
+ * Reconciles an STK push callback with the request log. Successful payments are applied to the
+ * contribution or loan the push was for; payments that cannot be matched are queued for a treasurer. Failed,
+ * cancelled and timed-out pushes are closed. The payer is notified either way.
+ *
+ * A payment that arrives after its push was timed out is still applied. Callbacks for a receipt
+ * that has already been recorded are ignored.
+ * @returns The updated request, or null when the callback needed no action.
+ */
+export const processStkCallback = async (callback: CollectionCallback) => {
+    const { reference: checkoutRequestId, outcome, resultCode, resultDesc } = callback;
+    const request = await prisma.mpesaRequest.findUnique({ where: { checkoutRequestId }, include: requestInclude });
+
+    if (outcome !== 'PAID' || !callback.payment) {
+        if (!request) {
+            logger.warn({ checkoutRequestId, resultCode }, 'Failure callback received for an unknown STK push');
+            return null;
+        }
+        if (request.status !== 'PENDING') {
+            logger.warn({ checkoutRequestId, status: request.status }, 'STK push already settled');
+            return null;
+        }
+        return closeUnpaidPush(request, outcome === 'PAID' ? 'FAILED' : outcome, resultDesc, resultCode, callback.payload);
+    }
+
+    const { receipt } = callback.payment;
+    const payment = { ...callback.payment, phone: callback.payment.phone ?? request?.phone ?? '' };
+
+    if (request?.mpesaReceipt || await isReceiptRecorded(receipt)) {
+        logger.warn({ checkoutRequestId, receipt }, 'M-Pesa receipt already recorded');
+        return null;
+    }
+
+    let applied = null;
+    if (request?.loanId) {
+        applied = await repayLoanFromMpesa(request.loanId, payment);
+    } else if (request?.contributionId) {
+        applied = await recordMpesaContributionPayment(checkoutRequestId, payment.amount, receipt, payment.paidAt);
+    }
+    if (!request || !applied) {
+        return queueUnmatchedPayment(request, callback, payment);
+    }
+
+    const completed = await prisma.mpesaRequest.update({
+        where: { id: request.id },
+        data: {
+            status: 'COMPLETED',
+            resultCode,
+            resultDesc,
+            mpesaReceipt: receipt,
+            amount: payment.amount,
+            callbackPayload: callback.payload as Prisma.InputJsonValue,
+            completedAt: payment.paidAt,
+            events: { create: { status: 'COMPLETED', note: resultDesc } },
+        },
+    });
+
+    logger.info({ requestId: request.id, checkoutRequestId, receipt, contributionId: request.contributionId, loanId: request.loanId }, 'STK push payment reconciled');
+
+    await notifyPayer(
+        request.membershipId,
+        request.phone,
+        'Payment Received',
+        `We received your M-Pesa payment of KES ${payment.amount.toFixed(2)} (ref ${receipt})${request.loanId ? ' towards your loan' : ''}${request.chama ? ` to ${request.chama.name}` : ''}. Thank you.`
+    );
+
+    return completed;
+};
+
+/**
+ * Sends an STK push for a repayment on the caller's own ACTIVE loan. Without an amount the member is
+ * asked for their next installment, rounded up to whole shillings as M-Pesa requires; anything over
+ * the installment goes towards the ones after it.
+ * @returns Daraja's response and the amount requested.
+ */
+export const startLoanRepaymentPush = async (loanId: string, phone: string, amount: number | undefined, actorId: string) => {
+    const loan = await prisma.loan.findUnique({ where: { id: loanId }, include: { membership: true } });
+    if (!loan) {
+        throw new AppError('Loan not found.', 404);
+    }
+    if (loan.membership.userId !== actorId) {
+        throw new AppError('Permission Denied: You can only repay your own loans.', 403);
+    }
+    if (loan.status !== LoanStatus.ACTIVE) {
+        throw new AppError('Only active loans can be repaid by M-Pesa.', 409);
+    }
+
+    const amountDue = amount ?? Math.ceil(await getNextInstallmentAmount(loanId));
+    if (amountDue <= 0) {
+        throw new AppError('Nothing is due on this loan.', 409);
+    }
+
+    logger.info({ loanId, amount: amountDue, actorId }, 'Requesting loan repayment by STK push');
+
+    const response = await initiateLoanStkPush(phone, amountDue, loanId);
+    return { ...response, amount: amountDue };
+};
+
+// Paybill account numbers are the member number followed by what the payment is for, e.g. 1042LOAN.
+// A bare member number is a contribution; a bare CONT or LOAN leaves the member to the phone number.
+const ACCOUNT_PATTERN = /^(\d*)[\s#-]*(CONT|LOAN)?$/;
+
+type PaybillPurpose = 'CONT' | 'LOAN';
+
+const parseAccountReference = (billRefNumber?: string) => {
+    const match = (billRefNumber ?? '').trim().toUpperCase().match(ACCOUNT_PATTERN);
+    if (!match) return { memberNumber: null, purpose: 'CONT' as PaybillPurpose };
+    return { memberNumber: match[1] ? Number(match[1]) : null, purpose: (match[2] ?? 'CONT') as PaybillPurpose };
+};
+
+/**
+ * Finds the member a paybill payment is from: by the member number in the account reference, or
+ * failing that by the paying phone number when it belongs to exactly one active member.
+ */
+const matchPaybillMember = async (payment: C2BPayment) => {
+    const { memberNumber, purpose } = parseAccountReference(payment.BillRefNumber);
+    const include = { chama: { select: { name: true } } };
+
+    if (memberNumber !== null) {
+        const membership = await prisma.membership.findFirst({ where: { memberNumber, isActive: true }, include });
+        return { membership, purpose, matchedBy: 'account number' };
+    }
+
+    const phone = payment.MSISDN.replace(/^\+/, '');
+    const memberships = await prisma.membership.findMany({
+        where: { isActive: true, user: { phone: { in: [phone, `+${phone}`] } } },
+        include,
+    });
+    return { membership: memberships.length === 1 ? memberships[0] : null, purpose, matchedBy: 'phone number' };
+};
+
+/**
+ * Answers Daraja's C2B validation request. A payment whose account reference names a member number
+ * that is not an active member is rejected, so the payer gets their money back straight away. Every
+ * other payment is accepted; those that cannot be matched are queued for review once confirmed.
+ */
+export const validateC2BPayment = async (payment: C2BPayment) => {
+    const { memberNumber } = parseAccountReference(payment.BillRefNumber);
+    if (memberNumber !== null) {
+        const membership = await prisma.membership.findFirst({ where: { memberNumber, isActive: true } });
+        if (!membership) {
+            logger.warn({ transId: payment.TransID, billRefNumber: payment.BillRefNumber }, 'C2B payment rejected: unknown member number');
+            return { ResultCode: 'C2B00012', ResultDesc: 'Rejected' };
+        }
+    }
+    return { ResultCode: '0', ResultDesc: 'Accepted' };
+};
+
+/**
+ * Records a payment made straight to the chama paybill. It is matched to a member by account number
+ * or phone, then applied to their contributions or, for LOAN payments, to their oldest outstanding
+ * loan. The payment is logged as UNMATCHED before anything is applied, so a payment that cannot be
+ * matched or applied stays in the review queue for a treasurer. Repeated confirmations of the same
+ * receipt are ignored.
+ * @returns The logged payment, or null when the receipt has already been recorded.
+ */
+export const processC2BConfirmation = async (payment: C2BPayment) => {
+    const receipt = payment.TransID;
+    if (await isReceiptRecorded(receipt)) {
+        logger.warn({ receipt }, 'M-Pesa receipt already recorded');
+        return null;
+    }
+
+    const received: ReceivedPayment = {
+        amount: Number(payment.TransAmount),
+        receipt,
+        phone: payment.MSISDN,
+        paidAt: parseDarajaDate(payment.TransTime),
+    };
+    const { membership, purpose, matchedBy } = await matchPaybillMember(payment);
+
+    const logged = await prisma.mpesaRequest.create({
+        data: {
+            channel: 'C2B',
+            accountReference: payment.BillRefNumber,
+            phone: received.phone,
+            amount: received.amount,
+            status: 'UNMATCHED',
+            mpesaReceipt: receipt,
+            callbackPayload: payment as unknown as Prisma.InputJsonValue,
+            completedAt: received.paidAt,
+            chamaId: membership?.chamaId,
+            membershipId: membership?.id,
+            events: { create: { status: 'UNMATCHED', note: 'Paybill payment received' } },
+        },
+    });
+
+    let target: { contributionId?: string; loanId?: string } | null = null;
+    try {
+        if (membership && purpose === 'LOAN') {
+            const [oldest] = await getOutstandingLoans(membership.id);
+            if (oldest && await repayLoanFromMpesa(oldest.loan.id, received)) {
+                target = { loanId: oldest.loan.id };
+            }
+        } else if (membership) {
+            const contributions = await recordPaybillContributionPayment(membership.id, received.amount, receipt, received.paidAt);
+            if (contributions) {
+                target = { contributionId: contributions[0].id };
+            }
+        }
+    } catch (error) {
+        logger.error({ error, receipt, membershipId: membership?.id }, 'Failed to apply paybill payment');
+    }
+
+    if (!membership || !target) {
+        let note = `No member matches account "${payment.BillRefNumber ?? ''}" or the paying phone number`;
+        if (membership) {
+            const applyingTo = purpose === 'LOAN' ? 'an outstanding loan' : 'their contributions';
+            note = `Matched to member ${membership.memberNumber} by ${matchedBy}, but it could not be applied to ${applyingTo}`;
+        }
+        const queued = await prisma.mpesaRequest.update({
+            where: { id: logged.id },
+            data: { events: { create: { status: 'UNMATCHED', note } } },
+        });
+
+        logger.warn({ requestId: logged.id, receipt, billRefNumber: payment.BillRefNumber }, 'Paybill payment queued as unmatched');
+
+        await notifyPayer(
+            membership?.id ?? null,
+            received.phone,
+            'Payment Received',
+            `We received your M-Pesa payment of KES ${received.amount.toFixed(2)} (ref ${receipt}). Your treasurer will assign it to your account shortly.`
+        );
+
+        return queued;
+    }
+
+    const completed = await prisma.mpesaRequest.update({
+        where: { id: logged.id },
+        data: {
+            ...target,
+            status: 'COMPLETED',
+            events: { create: { status: 'COMPLETED', note: `Matched to member ${membership.memberNumber} by ${matchedBy}` } },
+        },
+    });
+
+    logger.info({ requestId: logged.id, receipt, membershipId: membership.id, ...target }, 'Paybill payment matched');
+
+    await notifyPayer(
+        membership.id,
+        received.phone,
+        'Payment Received',
+        `We received your M-Pesa payment of KES ${received.amount.toFixed(2)} (ref ${receipt})${target.loanId ? ' towards your loan' : ''} to ${membership.chama.name}. Thank you.`
+    );
+
+    return completed;
+};
+
+/**
+ * Times out pushes that have had no callback for `timeoutMinutes`. The member most likely never saw
+ * or answered the prompt.
+ * @returns How many pushes were timed out.
+ */
+export const expireStalePushes = async (timeoutMinutes: number, asOf = new Date()) => {
+    const stale = await prisma.mpesaRequest.findMany({
+        where: { status: 'PENDING', createdAt: { lt: new Date(asOf.getTime() - timeoutMinutes * 60 * 1000) } },
+        include: requestInclude,
+    });
+
+    for (const request of stale) {
+        try {
+            await closeUnpaidPush(request, 'TIMED_OUT', `No callback received within ${timeoutMinutes} minutes`, null);
+        } catch (error) {
+            logger.error({ error, requestId: request.id }, 'Failed to time out STK push');
+        }
+    }
+
+    return stale.length;
+};
+
+/**
+ * Asks the payment provider for the status of a push. A push that the provider reports as failed is
+ * closed straight away rather than waiting for its callback.
+ */
+export const checkStkPushStatus = async (checkoutRequestId: string, actorId: string) => {
+    const request = await prisma.mpesaRequest.findUnique({ where: { checkoutRequestId }, include: requestInclude });
+    if (!request) {
+        throw new AppError('Transaction not found for the given Checkout Request ID.', 404);
+    }
+
+    const isMember = request.chamaId && await prisma.membership.findFirst({
+        where: { userId: actorId, chamaId: request.chamaId, isActive: true },
+    });
+    if (!isMember) {
+        throw new AppError('Permission Denied: You are not a member of the chama this transaction belongs to.', 403);
+    }
+
+    const status = await queryStkStatus(checkoutRequestId);
+
+    if (request.status === 'PENDING' && status.outcome !== 'PENDING' && status.outcome !== 'PAID') {
+        await closeUnpaidPush(request, status.outcome, status.resultDesc, status.resultCode);
+    }
+
+    return status.response;
+};
+
+/**
+ * Unmatched payments a chama's treasurer can see: those logged against the chama, and those with no
+ * chama paid from the phone number of one of its members.
+ */
+const unmatchedScope = async (chamaId: string): Promise<Prisma.MpesaRequestWhereInput> => {
+    const members = await prisma.membership.findMany({
+        where: { chamaId, isActive: true },
+        select: { user: { select: { phone: true } } },
+    });
+    const phones = members.map(member => member.user.phone.replace(/^\+/, ''));
+
+    return { status: 'UNMATCHED', OR: [{ chamaId }, { chamaId: null, phone: { in: phones } }] };
+};
+
+export const findUnmatchedPayments = async (chamaId: string) => {
+    logger.info({ chamaId }, 'Fetching unmatched M-Pesa payments');
+
+    return prisma.mpesaRequest.findMany({
+        where: await unmatchedScope(chamaId),
+        include: { membership: { include: { user: { select: { firstName: true, lastName: true } } } } },
+        orderBy: { completedAt: 'asc' },
+    });
+};
+
+/**
+ * Assigns an unmatched payment to a member. It is recorded as an M-Pesa contribution paid on the
+ * day the money was received, and applied like any other contribution payment.
+ */
+export const assignUnmatchedPayment = async (chamaId: string, requestId: string, membershipId: string, actorId: string, logMeta: LogMeta) => {
+    logger.info({ chamaId, requestId, membershipId, actorId }, 'Assigning unmatched M-Pesa payment');
+
+    const request = await prisma.mpesaRequest.findFirst({ where: { id: requestId, ...(await unmatchedScope(chamaId)) } });
+    if (!request) {
+        throw new AppError('Unmatched payment not found.', 404);
+    }
+
+    const member = await prisma.membership.findFirst({ where: { id: membershipId, chamaId, isActive: true } });
+    if (!member) {
+        throw new AppError('Member not found in this chama.', 404);
+    }
+    const actor = await prisma.membership.findFirst({ where: { userId: actorId, chamaId, isActive: true } });
+
+    // Claim the payment first so that two treasurers cannot assign it at the same time.
+    const claimed = await prisma.mpesaRequest.updateMany({ where: { id: requestId, status: 'UNMATCHED' }, data: { status: 'ASSIGNED' } });
+    if (claimed.count === 0) {
+        throw new AppError('This payment has already been assigned.', 409);
+    }
+
+    let contribution;
+    try {
+        contribution = await recordContribution({
+            membershipId,
+            amount: request.amount,
+            paymentMethod: 'M-PESA',
+            mpesaCode: request.mpesaReceipt,
+            paidAt: request.completedAt ?? request.createdAt,
+        }, actorId, logMeta);
+    } catch (error) {
+        await prisma.mpesaRequest.update({ where: { id: requestId }, data: { status: 'UNMATCHED' } });
+        throw error;
+    }
+
+    const assigned = await prisma.$transaction(async (tx) => {
+        await tx.transaction.create({
+            data: { chamaId, type: 'CONTRIBUTION', amount: request.amount, description: `M-Pesa contribution. Ref: ${request.mpesaReceipt}` },
+        });
+        return tx.mpesaRequest.update({
+            where: { id: requestId },
+            data: {
+                chamaId,
+                membershipId,
+                contributionId: contribution.id,
+                assignedById: actor?.id,
+                events: { create: { status: 'ASSIGNED', note: `Assigned to membership ${membershipId}` } },
+            },
+        });
+    });
+
+    await createAuditLog({
+        action: AuditAction.MPESA_PAYMENT_ASSIGN,
+        actorId,
+        chamaId,
+        oldValue: request,
+        newValue: assigned,
+        ...logMeta,
+    });
+
+    await createNotification({
+        membershipId,
+        title: 'Payment Assigned',
+        message: `Your M-Pesa payment of KES ${request.amount.toFixed(2)} (ref ${request.mpesaReceipt}) has been added to your contributions.`,
+        type: NotificationType.GENERAL,
+    });
+
+    logger.info({ chamaId, requestId, membershipId, contributionId: contribution.id }, 'Unmatched M-Pesa payment assigned');
+
+    return assigned;
+};
+
+/**
+ * Returns the chama's M-Pesa request log, STK pushes and paybill payments alike, newest first, with
+ * each entry's status history.
+ */
+export const findChamaMpesaRequests = async (chamaId: string, filters: RequestFilters, page: number, limit: number) => {
+    logger.info({ chamaId, filters, page, limit }, 'Fetching M-Pesa request log');
+
+    const where: Prisma.MpesaRequestWhereInput = { chamaId, status: filters.status, channel: filters.channel, membershipId: filters.membershipId };
+
+    const requests = await prisma.mpesaRequest.findMany({
+        where,
+        include: { events: { orderBy: { createdAt: 'asc' } } },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+    });
+    const totalRecords = await prisma.mpesaRequest.count({ where });
+
+    return { requests, totalRecords, totalPages: Math.ceil(totalRecords / limit) };
+};
@@ -0,0 +1,420 @@
+import { AuditAction, MpesaStatementLine, Prisma, PrismaClient, StatementLineStatus } from '@prisma/client';
+import { isValid, parse } from 'date-fns';
+import Papa from 'papaparse';
+import { createAuditLog } from './audit.service';
+import { recordContribution, updateContribution } from './contribution.service';
+import { getOutstandingLoans, recordLoanPayment } from './loan.service';
+import { AppError } from '../utils/customErrors';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+interface LogMeta {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export type StatementLineAction = 'CREATE' | 'FIX' | 'DISMISS';
+
+export interface ResolveLineData {
+    action: StatementLineAction;
+    type?: 'CONTRIBUTION' | 'LOAN';
+    membershipId?: string;
+    loanId?: string;
+    note?: string;
+}
+
+interface StatementEntry {
+    receipt: string;
+    completedAt: Date;
+    details?: string;
+    otherParty?: string;
+    accountNumber?: string;
+    amount: number;
+}
+
+interface RecordedReceipt {
+    contributionAmount: number;
+    contributionId?: string;
+    loanPaymentId?: string;
+    loanPaymentAmount: number;
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+// Safaricom statements have shipped completion times in each of these forms.
+const COMPLETION_TIME_FORMATS = ['yyyy-MM-dd HH:mm:ss', 'dd-MM-yyyy HH:mm:ss', 'dd/MM/yyyy HH:mm:ss', 'dd/MM/yyyy HH:mm', 'yyyy-MM-dd HH:mm'];
+
+const parseCompletionTime = (value: string) => {
+    for (const format of COMPLETION_TIME_FORMATS) {
+        const date = parse(value.trim(), format, new Date());
+        if (isValid(date)) return date;
+    }
+    return null;
+};
+
+// Statement amounts use thousands separators, and withdrawals can carry a minus sign.
+const parseStatementAmount = (value?: string) => Math.abs(Number((value ?? '').replace(/,/g, '')) || 0);
+
+/**
+ * Parses a Safaricom M-Pesa statement exported to CSV. Organisation statements open with a few lines
+ * about the account before the table, so everything above the "Receipt No." header is skipped. Only
+ * completed money paid in is kept; withdrawals, charges and failed transactions are counted as skipped.
+ */
+export const parseStatement = (fileBuffer: Buffer) => {
+    const lines = fileBuffer.toString('utf-8').replace(/^\uFEFF/, '').split(/\r?\n/);
+    const headerIndex = lines.findIndex(line => /receipt no/i.test(line));
+    if (headerIndex === -1) {
+        throw new AppError('CSV parsing error: this is not an M-Pesa statement, as it has no "Receipt No." column.', 400);
+    }
+
+    const parsed = Papa.parse<Record<string, string>>(lines.slice(headerIndex).join('\n'), {
+        header: true,
+        skipEmptyLines: true,
+        transformHeader: header => header.trim().toLowerCase().replace(/\.$/, ''),
+    });
+    if (parsed.errors.length) {
+        logger.error({ errors: parsed.errors }, 'CSV parsing error');
+        throw new AppError(`CSV parsing error: ${parsed.errors[0].message}`, 400);
+    }
+
+    const entries: StatementEntry[] = [];
+    let skipped = 0;
+    for (const row of parsed.data) {
+        const completedAt = row['completion time'] ? parseCompletionTime(row['completion time']) : null;
+        const amount = parseStatementAmount(row['paid in']);
+        const status = row['transaction status']?.trim().toLowerCase();
+        if (!row['receipt no'] || !completedAt || amount <= 0 || (status && status !== 'completed')) {
+            skipped++;
+            continue;
+        }
+        entries.push({
+            receipt: row['receipt no'].trim().toUpperCase(),
+            completedAt,
+            details: row['details']?.trim() || undefined,
+            otherParty: row['other party info']?.trim() || undefined,
+            accountNumber: row['a/c no']?.trim() || undefined,
+            amount,
+        });
+    }
+
+    return { entries, skipped };
+};
+
+/**
+ * Looks up how each receipt was recorded in the chama: as contribution payments, spread over the
+ * periods they covered, and as loan repayments. Contributions recorded before payments were kept
+ * separately only carry the receipt on the contribution itself.
+ */
+const findRecordedReceipts = async (chamaId: string, receipts: string[]) => {
+    const [payments, contributions, loanPayments] = await Promise.all([
+        prisma.contributionPayment.findMany({
+            where: { mpesaCode: { in: receipts }, contribution: { membership: { chamaId } } },
+            select: { mpesaCode: true, amount: true, contributionId: true },
+            orderBy: { createdAt: 'asc' },
+        }),
+        prisma.contribution.findMany({
+            where: { mpesaCode: { in: receipts }, membership: { chamaId } },
+            select: { id: true, mpesaCode: true, amount: true },
+        }),
+        prisma.loanPayment.findMany({
+            where: { mpesaCode: { in: receipts }, loan: { membership: { chamaId } } },
+            select: { id: true, mpesaCode: true, amount: true },
+        }),
+    ]);
+
+    const recorded = new Map<string, RecordedReceipt>();
+    const entryFor = (receipt: string) => {
+        if (!recorded.has(receipt)) recorded.set(receipt, { contributionAmount: 0, loanPaymentAmount: 0 });
+        return recorded.get(receipt)!;
+    };
+
+    for (const payment of payments) {
+        const entry = entryFor(payment.mpesaCode!);
+        entry.contributionAmount = roundAmount(entry.contributionAmount + payment.amount);
+        entry.contributionId ??= payment.contributionId;
+    }
+    for (const contribution of contributions) {
+        const entry = entryFor(contribution.mpesaCode!);
+        if (!entry.contributionId) entry.contributionAmount = contribution.amount;
+        entry.contributionId = contribution.id;
+    }
+    for (const loanPayment of loanPayments) {
+        const entry = entryFor(loanPayment.mpesaCode!);
+        entry.loanPaymentId = loanPayment.id;
+        entry.loanPaymentAmount = loanPayment.amount;
+    }
+
+    return recorded;
+};
+
+/**
+ * Works out how a statement entry compares with the chama's records.
+ */
+const classifyEntry = (entry: StatementEntry, recorded: RecordedReceipt | undefined, seenBefore: boolean) => {
+    const links = { contributionId: recorded?.contributionId, loanPaymentId: recorded?.loanPaymentId };
+
+    if (seenBefore) {
+        return { ...links, status: 'DUPLICATE' as StatementLineStatus, note: 'This receipt appears more than once on the statement' };
+    }
+    if (!recorded) {
+        return { status: 'MISSING' as StatementLineStatus, note: 'No contribution or loan repayment has been recorded for this receipt' };
+    }
+    if (recorded.contributionId && recorded.loanPaymentId) {
+        return {
+            ...links,
+            status: 'DUPLICATE' as StatementLineStatus,
+            recordedAmount: roundAmount(recorded.contributionAmount + recorded.loanPaymentAmount),
+            note: 'This receipt has been recorded both as a contribution and as a loan repayment',
+        };
+    }
+
+    const recordedAmount = recorded.contributionId ? recorded.contributionAmount : recorded.loanPaymentAmount;
+    if (Math.abs(recordedAmount - entry.amount) >= 0.01) {
+        return {
+            ...links,
+            status: 'AMOUNT_MISMATCH' as StatementLineStatus,
+            recordedAmount,
+            note: `Recorded as KES ${recordedAmount.toFixed(2)} but the statement shows KES ${entry.amount.toFixed(2)}`,
+        };
+    }
+    return { ...links, status: 'MATCHED' as StatementLineStatus, recordedAmount };
+};
+
+/**
+ * Imports an M-Pesa statement and reconciles every payment on it with the chama's contributions and
+ * loan repayments by receipt number. Each line is flagged MATCHED, MISSING, DUPLICATE or
+ * AMOUNT_MISMATCH and kept with the statement, so it can be resolved later.
+ * @returns The statement with its reconciliation report.
+ */
+export const importStatement = async (chamaId: string, fileName: string, fileBuffer: Buffer, actorId: string, logMeta: LogMeta) => {
+    logger.info({ chamaId, fileName, fileSize: fileBuffer.length }, 'Importing M-Pesa statement');
+
+    const { entries, skipped } = parseStatement(fileBuffer);
+    if (entries.length === 0) {
+        throw new AppError('The statement has no completed payments to reconcile.', 400);
+    }
+
+    const recorded = await findRecordedReceipts(chamaId, entries.map(entry => entry.receipt));
+    const seen = new Set<string>();
+    const lines = entries.map((entry) => {
+        const line = { ...entry, ...classifyEntry(entry, recorded.get(entry.receipt), seen.has(entry.receipt)) };
+        seen.add(entry.receipt);
+        return line;
+    });
+
+    const times = entries.map(entry => entry.completedAt.getTime());
+    const uploader = await prisma.membership.findFirst({ where: { userId: actorId, chamaId, isActive: true } });
+
+    const statement = await prisma.mpesaStatement.create({
+        data: {
+            chamaId,
+            fileName,
+            periodStart: new Date(Math.min(...times)),
+            periodEnd: new Date(Math.max(...times)),
+            skippedLines: skipped,
+            uploadedById: uploader?.id,
+            lines: { create: lines },
+        },
+    });
+
+    await createAuditLog({
+        action: AuditAction.MPESA_STATEMENT_IMPORT,
+        actorId,
+        chamaId,
+        newValue: { ...statement, lineCount: lines.length },
+        ...logMeta,
+    });
+
+    logger.info({ chamaId, statementId: statement.id, lines: lines.length, skipped }, 'M-Pesa statement imported');
+
+    return getStatementReport(chamaId, statement.id);
+};
+
+export const findStatements = async (chamaId: string) => {
+    logger.info({ chamaId }, 'Fetching M-Pesa statements');
+
+    return prisma.mpesaStatement.findMany({
+        where: { chamaId },
+        include: { _count: { select: { lines: true } } },
+        orderBy: { createdAt: 'desc' },
+    });
+};
+
+/**
+ * Returns a statement's reconciliation report: every line with its status, a count per status, and
+ * the M-Pesa payments recorded in the chama during the statement's period whose receipt is not on it.
+ */
+export const getStatementReport = async (chamaId: string, statementId: string) => {
+    const statement = await prisma.mpesaStatement.findFirst({
+        where: { id: statementId, chamaId },
+        include: { lines: { orderBy: { completedAt: 'asc' } } },
+    });
+    if (!statement) {
+        throw new AppError('Statement not found.', 404);
+    }
+
+    const summary = Object.fromEntries(Object.values(StatementLineStatus).map(status => [status, 0])) as Record<StatementLineStatus, number>;
+    for (const line of statement.lines) summary[line.status]++;
+
+    const receipts = statement.lines.map(line => line.receipt);
+    const paidAt = { gte: statement.periodStart ?? undefined, lte: statement.periodEnd ?? undefined };
+    const [contributionPayments, loanPayments] = await Promise.all([
+        prisma.contributionPayment.findMany({
+            where: { mpesaCode: { not: null, notIn: receipts }, paidAt, contribution: { membership: { chamaId } } },
+            select: { id: true, mpesaCode: true, amount: true, paidAt: true, contributionId: true },
+        }),
+        prisma.loanPayment.findMany({
+            where: { mpesaCode: { not: null, notIn: receipts }, paidAt, loan: { membership: { chamaId } } },
+            select: { id: true, mpesaCode: true, amount: true, paidAt: true, loanId: true },
+        }),
+    ]);
+
+    return {
+        ...statement,
+        summary,
+        notOnStatement: { contributionPayments, loanPayments },
+    };
+};
+
+/**
+ * Records a payment that is on the statement but missing from the books, as a contribution or as a
+ * repayment on the member's loan (their oldest outstanding loan unless one is given). A payment
+ * waiting in the unmatched-payments queue under the same receipt leaves the queue.
+ */
+const createMissingRecord = async (chamaId: string, line: MpesaStatementLine, data: ResolveLineData, actorId: string, logMeta: LogMeta) => {
+    if (!data.type || !data.membershipId) {
+        throw new AppError('A record type and membership ID are required to create a record.', 400);
+    }
+
+    const member = await prisma.membership.findFirst({ where: { id: data.membershipId, chamaId, isActive: true } });
+    if (!member) {
+        throw new AppError('Member not found in this chama.', 404);
+    }
+
+    const alreadyRecorded = await prisma.contributionPayment.findFirst({ where: { mpesaCode: line.receipt } })
+        || await prisma.loanPayment.findUnique({ where: { mpesaCode: line.receipt } });
+    if (alreadyRecorded) {
+        throw new AppError('This receipt has already been recorded.', 409);
+    }
+
+    const payment = { amount: line.amount, paymentMethod: 'M-PESA', mpesaCode: line.receipt, paidAt: line.completedAt };
+    let link: { contributionId?: string; loanPaymentId?: string; loanId?: string };
+
+    if (data.type === 'LOAN') {
+        const outstanding = await getOutstandingLoans(member.id);
+        const target = data.loanId ? outstanding.find(({ loan }) => loan.id === data.loanId) : outstanding[0];
+        if (!target) {
+            throw new AppError('The member has no outstanding loan to apply this payment to.', 409);
+        }
+        const loanPayment = await recordLoanPayment(target.loan.id, payment, actorId, logMeta);
+        link = { loanPaymentId: loanPayment.id, loanId: target.loan.id };
+    } else {
+        const contribution = await recordContribution({ membershipId: member.id, ...payment }, actorId, logMeta);
+        await prisma.transaction.create({
+            data: { chamaId, type: 'CONTRIBUTION', amount: line.amount, description: `M-Pesa contribution. Ref: ${line.receipt}` },
+        });
+        link = { contributionId: contribution.id };
+    }
+
+    const actor = await prisma.membership.findFirst({ where: { userId: actorId, chamaId, isActive: true } });
+    await prisma.mpesaRequest.updateMany({
+        where: { mpesaReceipt: line.receipt, status: 'UNMATCHED' },
+        data: { status: 'ASSIGNED', chamaId, membershipId: member.id, contributionId: link.contributionId, loanId: link.loanId, assignedById: actor?.id },
+    });
+
+    return {
+        contributionId: link.contributionId,
+        loanPaymentId: link.loanPaymentId,
+        note: `Recorded as a ${data.type === 'LOAN' ? 'loan repayment' : 'contribution'} for membership ${member.id}`,
+    };
+};
+
+/**
+ * Brings a record whose amount differs from the statement in line with it. Contributions are
+ * corrected in place and the difference is posted. A loan repayment recorded for too little is topped up with a
+ * further repayment for the difference; one recorded for too much cannot be reduced here, because
+ * the installments it settled would have to be reopened.
+ */
+const fixRecordedAmount = async (line: MpesaStatementLine, actorId: string, logMeta: LogMeta) => {
+    const difference = roundAmount(line.amount - (line.recordedAmount ?? 0));
+
+    if (line.contributionId) {
+        const contribution = await prisma.contribution.findUnique({ where: { id: line.contributionId } });
+        if (!contribution) {
+            throw new AppError('The contribution recorded for this receipt no longer exists.', 404);
+        }
+        await updateContribution(contribution.id, { amount: roundAmount(contribution.amount + difference) }, actorId, logMeta);
+
+        const payment = await prisma.contributionPayment.findFirst({ where: { contributionId: contribution.id, mpesaCode: line.receipt } });
+        if (payment) {
+            await prisma.contributionPayment.update({ where: { id: payment.id }, data: { amount: roundAmount(payment.amount + difference) } });
+        }
+        return { recordedAmount: line.amount, note: `Contribution corrected by KES ${difference.toFixed(2)}` };
+    }
+
+    const loanPayment = line.loanPaymentId ? await prisma.loanPayment.findUnique({ where: { id: line.loanPaymentId } }) : null;
+    if (!loanPayment) {
+        throw new AppError('The loan repayment recorded for this receipt no longer exists.', 404);
+    }
+    if (difference < 0) {
+        throw new AppError('A loan repayment recorded for more than the statement shows cannot be reduced here.', 409);
+    }
+    await recordLoanPayment(loanPayment.loanId, { amount: difference, paymentMethod: 'M-PESA', paidAt: line.completedAt }, actorId, logMeta);
+    return { recordedAmount: line.amount, note: `Loan repayment topped up by KES ${difference.toFixed(2)}` };
+};
+
+/**
+ * Resolves a flagged statement line:
+ * - CREATE records a MISSING payment as a contribution or loan repayment
+ * - FIX corrects the record behind an AMOUNT_MISMATCH
+ * - DISMISS marks any flagged line as dealt with, e.g. a DUPLICATE, with a note saying why
+ */
+export const resolveStatementLine = async (chamaId: string, statementId: string, lineId: string, data: ResolveLineData, actorId: string, logMeta: LogMeta) => {
+    logger.info({ chamaId, statementId, lineId, action: data.action, actorId }, 'Resolving M-Pesa statement line');
+
+    const line = await prisma.mpesaStatementLine.findFirst({ where: { id: lineId, statementId, statement: { chamaId } } });
+    if (!line) {
+        throw new AppError('Statement line not found.', 404);
+    }
+    if (line.status === 'MATCHED' || line.status === 'RESOLVED') {
+        throw new AppError('This line does not need resolving.', 409);
+    }
+
+    let update: Prisma.MpesaStatementLineUncheckedUpdateInput;
+    if (data.action === 'CREATE') {
+        if (line.status !== 'MISSING') {
+            throw new AppError('Only missing payments can be recorded.', 409);
+        }
+        update = await createMissingRecord(chamaId, line, data, actorId, logMeta);
+    } else if (data.action === 'FIX') {
+        if (line.status !== 'AMOUNT_MISMATCH') {
+            throw new AppError('Only amount mismatches can be fixed.', 409);
+        }
+        update = await fixRecordedAmount(line, actorId, logMeta);
+    } else {
+        if (!data.note) {
+            throw new AppError('A note is required to dismiss a line.', 400);
+        }
+        update = {};
+    }
+
+    const resolved = await prisma.mpesaStatementLine.update({
+        where: { id: lineId },
+        data: { ...update, note: data.note ?? update.note, status: 'RESOLVED', resolvedAt: new Date() },
+    });
+
+    await createAuditLog({
+        action: AuditAction.MPESA_STATEMENT_RESOLVE,
+        actorId,
+        chamaId,
+        contributionId: resolved.contributionId ?? undefined,
+        oldValue: line,
+        newValue: { ...resolved, action: data.action },
+        ...logMeta,
+    });
+
+    logger.info({ chamaId, statementId, lineId, action: data.action }, 'M-Pesa statement line resolved');
+
+    return resolved;
+};
@@ -49,6 +49,27 @@ export const sendInvitationEmail = async (email: string, inviterName: string) =>
   }
 };
 
+/**
+ * Sends a chama invitation containing the single-use code the invitee redeems to join.
+ */
+export const sendChamaInvitationEmail = async (email: string, chamaName: string, inviterName: string, code: string) => {
+  const invitationLink = `${process.env.FRONTEND_URL}/invitations/${code}`;
+  const mailOptions = {
+    from: process.env.EMAIL_FROM,
+    to: email,
+    subject: `You have been invited to join ${chamaName}`,
+    html: `<p>Hello,</p><p>${inviterName} has invited you to join <strong>${chamaName}</strong>.</p><p>Sign in (or register with this email address) and open the link below to accept or decline. The invitation expires in 7 days.</p><p><a href="${invitationLink}">View Invitation</a></p><p>Invitation code: <strong>${code}</strong></p>`,
+  };
+
+  try {
+    await transporter.sendMail(mailOptions);
+    logger.info({ email, chamaName }, 'Chama invitation email sent');
+  } catch (error) {
+    logger.error({ error, email, chamaName }, 'Failed to send chama invitation email');
+    throw error;
+  }
+};
+
 /**
  * Creates a notification record and sends real-time notification
  */
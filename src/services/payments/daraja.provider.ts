@@ -0,0 +1,282 @@
+import axios from 'axios';
+import { format, isValid, parse } from 'date-fns';
+import { isErrorWithMessage } from '../../utils/error.utils';
+import logger from '../../config/logger';
+import {
+    CollectionCallback,
+    CollectionOutcome,
+    CollectionRequest,
+    PaybillUrls,
+    PaymentProvider,
+    PaymentProviderError,
+    PayoutCallback,
+    PayoutRequest,
+    ProviderPayload,
+} from './types';
+
+// The stkCallback object Daraja posts to the STK push callback URL.
+export interface StkCallback {
+    MerchantRequestID?: string;
+    CheckoutRequestID: string;
+    ResultCode: number;
+    ResultDesc: string;
+    CallbackMetadata?: { Item: { Name: string; Value?: string | number }[] };
+}
+
+// The Result object Daraja posts to the B2C result and timeout URLs.
+export interface B2CResult {
+    ResultType?: number;
+    ResultCode: number;
+    ResultDesc: string;
+    OriginatorConversationID?: string;
+    ConversationID: string;
+    TransactionID?: string;
+    ResultParameters?: { ResultParameter: { Key: string; Value?: string | number }[] };
+}
+
+// Daraja answers a status query for a push the member has not answered yet with this error code.
+const STILL_PROCESSING = '500.001.1001';
+
+// This is an in-memory cache. In a real production app, you might use Redis.
+let mpesaToken: { token: string; expires: Date } | null = null;
+
+/**
+ * Generates or retrieves a cached M-Pesa Daraja API access token.
+ * This function is based on the "Authorization API" documentation.
+ */
+const getAccessToken = async (): Promise<string> => {
+    if (mpesaToken && mpesaToken.expires > new Date()) {
+        logger.debug('Using cached M-Pesa access token');
+        return mpesaToken.token;
+    }
+
+    const consumerKey = process.env.MPESA_CONSUMER_KEY;
+    const consumerSecret = process.env.MPESA_CONSUMER_SECRET;
+    const baseURL = process.env.MPESA_API_BASE_URL;
+
+    if (!consumerKey || !consumerSecret || !baseURL) {
+        logger.error('M-Pesa environment variables not configured');
+        throw new Error('M-Pesa environment variables are not configured.');
+    }
+
+    const url = `${baseURL}/oauth/v1/generate?grant_type=client_credentials`;
+    const auth = Buffer.from(`${consumerKey}:${consumerSecret}`).toString('base64');
+
+    try {
+        const response = await axios.get(url, {
+            headers: {
+                Authorization: `Basic ${auth}`,
+            },
+        });
+
+        const token = response.data.access_token;
+        const expiresIn = response.data.expires_in; // Typically 3599 seconds
+
+        const expires = new Date().getTime() + (expiresIn - 60) * 1000;
+        mpesaToken = { token, expires: new Date(expires) };
+
+        logger.info({ expiresIn }, 'M-Pesa access token obtained');
+        return token;
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            logger.error({ error: error.response?.data || error.message }, 'M-Pesa auth error');
+        } else {
+            logger.error({ error }, 'M-Pesa auth error');
+        }
+        throw new Error('Failed to obtain M-Pesa access token.');
+    }
+};
+
+/**
+ * Posts a request to Daraja. A rejection is logged and raised as a PaymentProviderError carrying
+ * Daraja's error body as its message, and the request without its credentials.
+ */
+const postToDaraja = async (path: string, payload: ProviderPayload, sent: ProviderPayload, messages: { log: string; error: string }, logContext: object) => {
+    const token = await getAccessToken();
+
+    try {
+        const response = await axios.post(`${process.env.MPESA_API_BASE_URL}${path}`, payload, {
+            headers: {
+                Authorization: `Bearer ${token}`,
+            },
+        });
+        return response.data as ProviderPayload;
+    } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.data) {
+            logger.error({ error: error.response.data, ...logContext }, messages.log);
+            throw new PaymentProviderError(JSON.stringify(error.response.data), sent);
+        } else if (isErrorWithMessage(error)) {
+            logger.error({ error: error.message, ...logContext }, messages.log);
+            throw new PaymentProviderError(error.message, sent);
+        }
+        logger.error({ error, ...logContext }, messages.log);
+        throw new PaymentProviderError(messages.error, sent);
+    }
+};
+
+// The Lipa Na M-Pesa password is the short code, passkey and timestamp, base64-encoded.
+const stkCredentials = () => {
+    const shortCode = process.env.MPESA_BUSINESS_SHORT_CODE!;
+    const timestamp = format(new Date(), 'yyyyMMddHHmmss');
+    const password = Buffer.from(`${shortCode}${process.env.MPESA_PASSKEY!}${timestamp}`).toString('base64');
+    return { BusinessShortCode: shortCode, Password: password, Timestamp: timestamp };
+};
+
+export const outcomeForResult = (resultCode: number): Exclude<CollectionOutcome, 'PENDING'> => {
+    if (resultCode === 0) return 'PAID';
+    if (resultCode === 1032) return 'CANCELLED';
+    if (resultCode === 1037) return 'TIMED_OUT';
+    return 'FAILED';
+};
+
+// Daraja sends dates as a number in yyyyMMddHHmmss form.
+export const parseDarajaDate = (value?: string | number) => {
+    const date = value ? parse(String(value), 'yyyyMMddHHmmss', new Date()) : null;
+    return date && isValid(date) ? date : new Date();
+};
+
+/**
+ * Safaricom's Daraja API, used for M-Pesa in both its sandbox and live environments.
+ * Based on the "LIPA NA MPESA (STKPUSH)", "Transaction Status", "Business To Customer (B2C)" and
+ * "Customer To Business (C2B) Register URL" documentation.
+ */
+export const darajaProvider: PaymentProvider = {
+    name: 'mpesa',
+
+    async collect(request: CollectionRequest) {
+        const payload = {
+            ...stkCredentials(),
+            TransactionType: process.env.MPESA_TRANSACTION_TYPE!,
+            Amount: request.amount,
+            PartyA: request.phone,
+            PartyB: process.env.MPESA_BUSINESS_SHORT_CODE!,
+            PhoneNumber: request.phone,
+            CallBackURL: request.callbackUrl,
+            AccountReference: request.accountReference,
+            TransactionDesc: request.description,
+        };
+        const { Password, ...sent } = payload;
+
+        const response = await postToDaraja('/mpesa/stkpush/v1/processrequest', payload, sent, { log: 'STK push failed', error: 'Failed to initiate M-Pesa STK Push.' }, { phone: request.phone, amount: request.amount });
+
+        return {
+            reference: response.CheckoutRequestID as string,
+            merchantReference: response.MerchantRequestID as string | undefined,
+            message: response.ResponseDescription as string | undefined,
+            request: sent,
+            response,
+        };
+    },
+
+    async payout(request: PayoutRequest) {
+        //NOTE: For B2C, you need different credentials: an initiator name and security credential.
+        const payload = {
+            InitiatorName: process.env.MPESA_B2C_INITIATOR_NAME!,
+            SecurityCredential: process.env.MPESA_B2C_SECURITY_CREDENTIAL!,
+            CommandID: 'BusinessPayment',
+            Amount: request.amount,
+            PartyA: process.env.MPESA_BUSINESS_SHORT_CODE!,
+            PartyB: request.phone,
+            Remarks: request.remarks,
+            QueueTimeOutURL: request.timeoutUrl,
+            ResultURL: request.resultUrl,
+            Occassion: `Payment to ${request.phone}`,
+        };
+        const { SecurityCredential, ...sent } = payload;
+
+        const response = await postToDaraja('/mpesa/b2c/v1/paymentrequest', payload, sent, { log: 'B2C payment error', error: 'Failed to initiate M-Pesa B2C payment.' }, { phone: request.phone, amount: request.amount });
+
+        return { reference: response.ConversationID as string, response };
+    },
+
+    async queryCollection(reference: string) {
+        const payload = { ...stkCredentials(), CheckoutRequestID: reference };
+        const { Password, ...sent } = payload;
+
+        try {
+            const response = await postToDaraja('/mpesa/stkpushquery/v1/query', payload, sent, { log: 'STK push query error', error: 'Failed to query M-Pesa STK Push status.' }, { checkoutRequestId: reference });
+            const resultCode = response.ResultCode === undefined ? null : Number(response.ResultCode);
+            return {
+                reference,
+                outcome: resultCode === null ? 'PENDING' as const : outcomeForResult(resultCode),
+                resultCode,
+                resultDesc: String(response.ResultDesc ?? response.ResponseDescription ?? ''),
+                response,
+            };
+        } catch (error) {
+            // Daraja reports a push that is still waiting on the member as an error
+            if (error instanceof PaymentProviderError && error.message.includes(STILL_PROCESSING)) {
+                const response = JSON.parse(error.message) as ProviderPayload;
+                return { reference, outcome: 'PENDING' as const, resultCode: null, resultDesc: String(response.errorMessage ?? ''), response };
+            }
+            throw error;
+        }
+    },
+
+    parseCollectionCallback(body: unknown) {
+        const callback = (body as { Body?: { stkCallback?: StkCallback } })?.Body?.stkCallback;
+        if (!callback?.CheckoutRequestID) {
+            throw new Error('Invalid M-Pesa callback structure');
+        }
+
+        const parsed: CollectionCallback = {
+            reference: callback.CheckoutRequestID,
+            merchantReference: callback.MerchantRequestID,
+            outcome: outcomeForResult(callback.ResultCode),
+            resultCode: callback.ResultCode,
+            resultDesc: callback.ResultDesc,
+            payload: callback as unknown as ProviderPayload,
+        };
+
+        if (parsed.outcome === 'PAID') {
+            const metadata = callback.CallbackMetadata?.Item ?? [];
+            const valueOf = (name: string) => metadata.find(item => item.Name === name)?.Value;
+            parsed.payment = {
+                amount: Number(valueOf('Amount')),
+                receipt: String(valueOf('MpesaReceiptNumber')),
+                phone: valueOf('PhoneNumber') ? String(valueOf('PhoneNumber')) : undefined,
+                paidAt: parseDarajaDate(valueOf('TransactionDate')),
+            };
+        }
+        return parsed;
+    },
+
+    parsePayoutCallback(body: unknown) {
+        const result = (body as { Result?: B2CResult })?.Result;
+        if (!result?.ConversationID) {
+            throw new Error("Invalid B2C callback structure: Missing 'Result' object.");
+        }
+
+        const parameters = result.ResultParameters?.ResultParameter ?? [];
+        const valueOf = (key: string) => parameters.find(parameter => parameter.Key === key)?.Value;
+        const amount = valueOf('TransactionAmount');
+        const receipt = valueOf('TransactionReceipt');
+
+        const parsed: PayoutCallback = {
+            reference: result.ConversationID,
+            succeeded: result.ResultCode === 0,
+            resultCode: result.ResultCode,
+            resultDesc: result.ResultDesc,
+            receipt: receipt === undefined ? undefined : String(receipt),
+            amount: amount === undefined ? undefined : Number(amount),
+            payload: result as unknown as ProviderPayload,
+        };
+        return parsed;
+    },
+
+    async registerPaybillUrls(urls: PaybillUrls) {
+        const shortCode = process.env.MPESA_C2B_SHORT_CODE || process.env.MPESA_BUSINESS_SHORT_CODE!;
+        const payload = {
+            ShortCode: shortCode,
+            ResponseType: 'Completed',
+            ConfirmationURL: urls.confirmationUrl,
+            ValidationURL: urls.validationUrl,
+        };
+
+        logger.info({ shortCode }, 'Registering C2B URLs');
+        const response = await postToDaraja('/mpesa/c2b/v1/registerurl', payload, payload, { log: 'C2B URL registration error', error: 'Failed to register M-Pesa C2B URLs.' }, { shortCode });
+        logger.info({ shortCode, response }, 'C2B URLs registered');
+
+        return response;
+    },
+};
@@ -0,0 +1,29 @@
+import logger from '../../config/logger';
+import { darajaProvider } from './daraja.provider';
+import { simulatorProvider } from './simulator.provider';
+import { PaymentProvider } from './types';
+
+const providers: Record<string, PaymentProvider> = {
+    mpesa: darajaProvider,
+    simulator: simulatorProvider,
+};
+
+/**
+ * Returns the provider selected by PAYMENT_PROVIDER: 'mpesa' (Daraja, the default) or 'simulator'.
+ * The simulator moves no real money, so it is refused in production.
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+    const name = process.env.PAYMENT_PROVIDER || 'mpesa';
+    const provider = providers[name];
+
+    if (!provider) {
+        logger.error({ provider: name }, 'Unknown payment provider');
+        throw new Error(`Unknown payment provider "${name}". Use one of: ${Object.keys(providers).join(', ')}.`);
+    }
+    if (provider === simulatorProvider && process.env.NODE_ENV === 'production') {
+        logger.error('The payment simulator cannot be used in production');
+        throw new Error('The payment simulator cannot be used in production.');
+    }
+
+    return provider;
+};
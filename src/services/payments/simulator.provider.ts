@@ -0,0 +1,185 @@
+import axios from 'axios';
+import { randomBytes } from 'crypto';
+import { format } from 'date-fns';
+import logger from '../../config/logger';
+import { darajaProvider, outcomeForResult } from './daraja.provider';
+import {
+    CollectionRequest,
+    CollectionStatus,
+    PaybillUrls,
+    PaymentProvider,
+    PaymentProviderError,
+    PayoutRequest,
+    ProviderPayload,
+} from './types';
+
+/**
+ * Result codes the simulator returns when the last four digits of the phone number match one of
+ * them, so that every outcome can be tried without a real phone. Any other number pays.
+ */
+export const SIMULATED_RESULTS: Record<string, string> = {
+    '0001': 'The balance is insufficient for the transaction.',
+    '1032': 'Request cancelled by user.',
+    '1037': 'DS timeout user cannot be reached.',
+    '2001': 'The initiator information is invalid.',
+};
+
+interface SimulatedCollection {
+    request: CollectionRequest;
+    merchantReference: string;
+    // Set once the callback has been sent
+    resultCode?: number;
+    resultDesc?: string;
+}
+
+// Pushes the simulator has accepted, so their status can be queried.
+const collections = new Map<string, SimulatedCollection>();
+
+const callbackDelay = () => parseInt(process.env.PAYMENT_SIMULATOR_DELAY_MS || '2000', 10);
+
+// M-Pesa receipts and request IDs are upper-case letters and digits.
+const randomCode = (length: number) => randomBytes(length).toString('hex').toUpperCase().slice(0, length);
+
+const simulatedResult = (phone: string) => {
+    const suffix = phone.slice(-4);
+    return suffix in SIMULATED_RESULTS
+        ? { resultCode: Number(suffix), resultDesc: SIMULATED_RESULTS[suffix] }
+        : { resultCode: 0, resultDesc: 'The service request is processed successfully.' };
+};
+
+/**
+ * Posts a simulated callback to one of our own webhook URLs, as Daraja would.
+ */
+const sendCallback = async (url: string, body: ProviderPayload) => {
+    try {
+        await axios.post(url, body);
+        logger.info({ url }, 'Simulated M-Pesa callback sent');
+    } catch (error) {
+        logger.error({ error, url }, 'Failed to send simulated M-Pesa callback');
+    }
+};
+
+const later = (task: () => Promise<void>) => {
+    setTimeout(() => { void task(); }, callbackDelay()).unref();
+};
+
+/**
+ * A stand-in for Daraja that needs no credentials or network, for running the payment flows end to
+ * end on a developer machine. It accepts every request straight away and, after
+ * PAYMENT_SIMULATOR_DELAY_MS milliseconds (2000 by default), posts the callback Daraja would send to
+ * the callback URL, so that payments go through the same webhooks, verification and reconciliation
+ * as real ones. The outcome is chosen by the phone number (see SIMULATED_RESULTS).
+ */
+export const simulatorProvider: PaymentProvider = {
+    name: 'simulator',
+
+    async collect(request: CollectionRequest) {
+        const reference = `ws_CO_SIM_${format(new Date(), 'ddMMyyyyHHmmss')}${randomCode(6)}`;
+        const merchantReference = `SIM-${randomCode(8)}`;
+        collections.set(reference, { request, merchantReference });
+
+        later(async () => {
+            const { resultCode, resultDesc } = simulatedResult(request.phone);
+            const stkCallback: ProviderPayload = { MerchantRequestID: merchantReference, CheckoutRequestID: reference, ResultCode: resultCode, ResultDesc: resultDesc };
+            if (resultCode === 0) {
+                stkCallback.CallbackMetadata = {
+                    Item: [
+                        { Name: 'Amount', Value: request.amount },
+                        { Name: 'MpesaReceiptNumber', Value: randomCode(10) },
+                        { Name: 'TransactionDate', Value: Number(format(new Date(), 'yyyyMMddHHmmss')) },
+                        { Name: 'PhoneNumber', Value: Number(request.phone) },
+                    ],
+                };
+            }
+            collections.set(reference, { request, merchantReference, resultCode, resultDesc });
+            await sendCallback(request.callbackUrl, { Body: { stkCallback } });
+        });
+
+        logger.info({ reference, phone: request.phone, amount: request.amount }, 'Simulated STK push accepted');
+
+        const response = {
+            MerchantRequestID: merchantReference,
+            CheckoutRequestID: reference,
+            ResponseCode: '0',
+            ResponseDescription: 'Success. Request accepted for processing',
+            CustomerMessage: 'Success. Request accepted for processing',
+        };
+        return { reference, merchantReference, message: response.ResponseDescription, request: { ...request }, response };
+    },
+
+    async payout(request: PayoutRequest) {
+        const reference = `AG_SIM_${format(new Date(), 'yyyyMMdd')}_${randomCode(20)}`;
+        const originatorReference = `SIM-${randomCode(8)}`;
+
+        later(async () => {
+            const { resultCode, resultDesc } = simulatedResult(request.phone);
+            const result: ProviderPayload = {
+                ResultType: 0,
+                ResultCode: resultCode,
+                ResultDesc: resultDesc,
+                OriginatorConversationID: originatorReference,
+                ConversationID: reference,
+                TransactionID: randomCode(10),
+            };
+
+            // An unreachable recipient is reported to the queue timeout URL instead
+            if (resultCode === 1037) {
+                await sendCallback(request.timeoutUrl, { Result: result });
+                return;
+            }
+            if (resultCode === 0) {
+                result.ResultParameters = {
+                    ResultParameter: [
+                        { Key: 'TransactionAmount', Value: request.amount },
+                        { Key: 'TransactionReceipt', Value: result.TransactionID },
+                        { Key: 'ReceiverPartyPublicName', Value: `${request.phone} - Simulated Recipient` },
+                        { Key: 'TransactionCompletedDateTime', Value: format(new Date(), 'dd.MM.yyyy HH:mm:ss') },
+                        { Key: 'B2CRecipientIsRegisteredCustomer', Value: 'Y' },
+                    ],
+                };
+            }
+            await sendCallback(request.resultUrl, { Result: result });
+        });
+
+        logger.info({ reference, phone: request.phone, amount: request.amount }, 'Simulated B2C payment accepted');
+
+        const response = {
+            ConversationID: reference,
+            OriginatorConversationID: originatorReference,
+            ResponseCode: '0',
+            ResponseDescription: 'Accept the service request successfully.',
+        };
+        return { reference, response };
+    },
+
+    async queryCollection(reference: string): Promise<CollectionStatus> {
+        const collection = collections.get(reference);
+        if (!collection) {
+            throw new PaymentProviderError(JSON.stringify({ errorCode: '400.002.02', errorMessage: 'Bad Request - Invalid CheckoutRequestID' }));
+        }
+
+        if (collection.resultCode === undefined) {
+            const response = { requestId: collection.merchantReference, errorCode: '500.001.1001', errorMessage: 'The transaction is being processed' };
+            return { reference, outcome: 'PENDING', resultCode: null, resultDesc: response.errorMessage, response };
+        }
+
+        const response = {
+            ResponseCode: '0',
+            ResponseDescription: 'The service request has been accepted successfully',
+            MerchantRequestID: collection.merchantReference,
+            CheckoutRequestID: reference,
+            ResultCode: String(collection.resultCode),
+            ResultDesc: collection.resultDesc,
+        };
+        return { reference, outcome: outcomeForResult(collection.resultCode), resultCode: collection.resultCode, resultDesc: collection.resultDesc!, response };
+    },
+
+    // The simulator sends callbacks in Daraja's format, so they are read the same way.
+    parseCollectionCallback: darajaProvider.parseCollectionCallback,
+    parsePayoutCallback: darajaProvider.parsePayoutCallback,
+
+    async registerPaybillUrls(urls: PaybillUrls) {
+        logger.info(urls, 'Simulated C2B URL registration');
+        return { OriginatorCoversationID: `SIM-${randomCode(8)}`, ResponseCode: '0', ResponseDescription: 'Success' };
+    },
+};
@@ -0,0 +1,107 @@
+/**
+ * The contract every payment provider implements: collecting money from a member's phone, paying
+ * money out to one, checking on a collection, and reading the callbacks the provider sends back.
+ * Callers work with these provider-neutral shapes; each provider's own request and response bodies
+ * are kept alongside them for the request log.
+ */
+
+export type ProviderPayload = Record<string, unknown>;
+
+// How a collection ended, or PENDING while the member has not answered the prompt yet.
+export type CollectionOutcome = 'PAID' | 'FAILED' | 'CANCELLED' | 'TIMED_OUT' | 'PENDING';
+
+export interface CollectionRequest {
+    phone: string;
+    amount: number;
+    accountReference: string;
+    description: string;
+    callbackUrl: string;
+}
+
+export interface CollectionResult {
+    reference: string;
+    merchantReference?: string;
+    message?: string;
+    // What was sent, without credentials
+    request: ProviderPayload;
+    response: ProviderPayload;
+}
+
+export interface CollectionStatus {
+    reference: string;
+    outcome: CollectionOutcome;
+    resultCode: number | null;
+    resultDesc: string;
+    response: ProviderPayload;
+}
+
+export interface ReceivedPayment {
+    amount: number;
+    receipt: string;
+    phone?: string;
+    paidAt: Date;
+}
+
+export interface CollectionCallback {
+    reference: string;
+    merchantReference?: string;
+    outcome: Exclude<CollectionOutcome, 'PENDING'>;
+    resultCode: number;
+    resultDesc: string;
+    // Only set when the collection was paid
+    payment?: ReceivedPayment;
+    payload: ProviderPayload;
+}
+
+export interface PayoutRequest {
+    phone: string;
+    amount: number;
+    remarks: string;
+    resultUrl: string;
+    timeoutUrl: string;
+}
+
+export interface PayoutResult {
+    reference: string;
+    response: ProviderPayload;
+}
+
+export interface PayoutCallback {
+    reference: string;
+    succeeded: boolean;
+    resultCode: number;
+    resultDesc: string;
+    receipt?: string;
+    amount?: number;
+    payload: ProviderPayload;
+}
+
+export interface PaybillUrls {
+    confirmationUrl: string;
+    validationUrl: string;
+}
+
+export interface PaymentProvider {
+    readonly name: string;
+    collect(request: CollectionRequest): Promise<CollectionResult>;
+    payout(request: PayoutRequest): Promise<PayoutResult>;
+    queryCollection(reference: string): Promise<CollectionStatus>;
+    parseCollectionCallback(body: unknown): CollectionCallback;
+    parsePayoutCallback(body: unknown): PayoutCallback;
+    registerPaybillUrls(urls: PaybillUrls): Promise<ProviderPayload>;
+}
+
+/**
+ * Raised when a provider rejects a request or cannot be reached. Carries what was sent, so that
+ * rejected requests can still be logged.
+ */
+export class PaymentProviderError extends Error {
+    public request?: ProviderPayload;
+
+    constructor(message: string, request?: ProviderPayload) {
+        super(message);
+        this.request = request;
+        this.name = 'PaymentProviderError';
+        Error.captureStackTrace(this, this.constructor);
+    }
+}
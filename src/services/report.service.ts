@@ -2,6 +2,7 @@ import { Prisma, PrismaClient } from '@prisma/client';
 import ExcelJS from 'exceljs';
 import PDFDocument from 'pdfkit';
 import logger from '../config/logger';
+import * as ledgerService from './ledger.service';
 
 const prisma = new PrismaClient();
 
@@ -10,39 +11,32 @@ interface DateRange {
     to?: Date;
 }
 
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Summarises the chama's position from the general ledger so that every figure reconciles with the trial balance.
+ */
 export const getFinancialSummary = async (chamaId: string) => {
     logger.info({ chamaId }, 'Generating financial summary');
 
-    const contributions = await prisma.contribution.aggregate({
-        _sum: { amount: true, penaltyApplied: true },
-        where: { membership: { chamaId }, status: 'PAID' },
-    });
-
-    const loansDisbursed = await prisma.loan.aggregate({
-        _sum: { amount: true },
-        where: { membership: { chamaId }, status: { not: 'PENDING' } },
-    });
-
-    const loanRepayments = await prisma.loanPayment.aggregate({
-        _sum: { amount: true },
-        where: { loan: { membership: { chamaId } } },
-    });
-
-    const activeLoans = await prisma.loan.aggregate({
-        _sum: { amount: true },
-        where: { membership: { chamaId }, status: 'ACTIVE' },
-    });
-
-    const totalInflow = (contributions._sum.amount || 0) + (loanRepayments._sum.amount || 0);
-    const totalOutflow = loansDisbursed._sum.amount || 0;
+    const contributionCash = await ledgerService.sumAccountMovements(chamaId, 'CASH', { sourceType: 'CONTRIBUTION' });
+    const repaymentCash = await ledgerService.sumAccountMovements(chamaId, 'CASH', { sourceType: 'LOAN_REPAYMENT' });
+    const disbursedLoans = await ledgerService.sumAccountMovements(chamaId, 'LOANS_RECEIVABLE', { sourceType: 'LOAN_DISBURSEMENT' });
+    const loansReceivable = await ledgerService.sumAccountMovements(chamaId, 'LOANS_RECEIVABLE');
+    const penaltyIncome = await ledgerService.sumAccountMovements(chamaId, 'PENALTY_INCOME');
+    const interestIncome = await ledgerService.sumAccountMovements(chamaId, 'INTEREST_INCOME');
+    const expenses = await ledgerService.sumAccountMovements(chamaId, 'EXPENSES');
+    const cash = await ledgerService.sumAccountMovements(chamaId, 'CASH');
 
     const summary = {
-        totalContributions: contributions._sum.amount || 0,
-        totalPenalties: contributions._sum.penaltyApplied || 0,
-        totalLoansDisbursed: loansDisbursed._sum.amount || 0,
-        totalLoanRepayments: loanRepayments._sum.amount || 0,
-        outstandingLoanPrincipal: activeLoans._sum.amount || 0,
-        netPosition: totalInflow - totalOutflow,
+        totalContributions: roundAmount(contributionCash.debit - contributionCash.credit),
+        totalPenalties: roundAmount(penaltyIncome.credit - penaltyIncome.debit),
+        totalInterestIncome: roundAmount(interestIncome.credit - interestIncome.debit),
+        totalLoansDisbursed: roundAmount(disbursedLoans.debit - disbursedLoans.credit),
+        totalLoanRepayments: roundAmount(repaymentCash.debit - repaymentCash.credit),
+        outstandingLoanPrincipal: roundAmount(loansReceivable.debit - loansReceivable.credit),
+        totalExpenses: roundAmount(expenses.debit - expenses.credit),
+        netPosition: roundAmount(cash.debit - cash.credit),
     };
 
     logger.info({ chamaId, ...summary }, 'Financial summary generated');
@@ -104,43 +98,39 @@ export const getLoanPortfolioReport = async (chamaId: string) => {
     return portfolio;
 };
 
+/**
+ * Reports movements on the cash account for a period, broken down by the kind of record that caused them.
+ */
 export const getCashflowReport = async (chamaId: string, dateRange: DateRange) => {
     logger.info({ chamaId, dateRange }, 'Generating cashflow report');
 
-    const dateFilter = {
-        gte: dateRange.from,
-        lte: dateRange.to,
-    };
+    const movements = await ledgerService.findCashMovements(chamaId, dateRange);
 
-    const inflows = await prisma.contribution.aggregate({
-        _sum: { amount: true },
-        where: { membership: { chamaId }, status: 'PAID', paidAt: dateFilter },
-    });
+    const breakdown: Record<string, { inflows: number; outflows: number }> = {};
+    let totalIn = 0;
+    let totalOut = 0;
 
-    const loanRepayments = await prisma.loanPayment.aggregate({
-        _sum: { amount: true },
-        where: { loan: { membership: { chamaId } }, paidAt: dateFilter },
-    });
-
-    const outflows = await prisma.loan.aggregate({
-        _sum: { amount: true },
-        where: { membership: { chamaId }, disbursedAt: dateFilter },
-    });
-
-    const totalIn = (inflows._sum.amount || 0) + (loanRepayments._sum.amount || 0);
-    const totalOut = outflows._sum.amount || 0;
+    for (const movement of movements) {
+        const source = movement.entry.sourceType;
+        breakdown[source] = breakdown[source] || { inflows: 0, outflows: 0 };
+        breakdown[source].inflows = roundAmount(breakdown[source].inflows + movement.debit);
+        breakdown[source].outflows = roundAmount(breakdown[source].outflows + movement.credit);
+        totalIn += movement.debit;
+        totalOut += movement.credit;
+    }
 
     const cashflow = {
         period: { 
             startDate: dateRange.from?.toISOString(),
             endDate: dateRange.to?.toISOString(),
         },
-        totalInflows: totalIn,
-        totalOutflows: totalOut,
-        netCashflow: totalIn - totalOut,
+        totalInflows: roundAmount(totalIn),
+        totalOutflows: roundAmount(totalOut),
+        netCashflow: roundAmount(totalIn - totalOut),
+        breakdown,
     };
 
-    logger.info({ chamaId, ...cashflow }, 'Cashflow report generated');
+    logger.info({ chamaId, totalInflows: cashflow.totalInflows, totalOutflows: cashflow.totalOutflows }, 'Cashflow report generated');
 
     return cashflow;
 };
@@ -157,7 +147,7 @@ export const getMemberPerformanceReport = async (chamaId: string) => {
                 select: { contributions: true, loans: true },
             },
             contributions: {
-                where: { status: 'PAID' },
+                where: { status: { in: ['PAID', 'PARTIALLY_PAID'] } },
                 select: { amount: true }
             },
             loans: {
@@ -0,0 +1,232 @@
+import { AuditAction, PrismaClient, SessionRevocation } from '@prisma/client';
+import crypto from 'crypto';
+import { format } from 'date-fns';
+import logger from '../config/logger';
+import { createAuditLog } from './audit.service';
+import { sendEmail, sendSms } from './notification.service';
+import { AppError } from '../utils/customErrors';
+import { generateRefreshToken, generateToken, REFRESH_TOKEN_TTL_DAYS, verifyRefreshToken } from '../utils/jwt.utils';
+
+const prisma = new PrismaClient();
+
+// The device a session was started or last refreshed from.
+export interface ClientInfo {
+    userAgent?: string;
+    ipAddress?: string;
+}
+
+const generateTokenId = () => crypto.randomBytes(16).toString('hex');
+
+const sessionExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+const issueTokens = (userId: string, sessionId: string, tokenId: string) => ({
+    accessToken: generateToken({ id: userId, sessionId }),
+    refreshToken: generateRefreshToken({ id: userId, sessionId, tokenId }),
+});
+
+// The user agent and IP address come from the request, so they are escaped before going into an HTML email.
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Whether the user has signed in from this device before. Devices are told apart by their user agent.
+ * A user's first sign-in counts as recognized, as there is nothing to compare it with.
+ */
+const isKnownDevice = async (userId: string, client: ClientInfo) => {
+    const anySession = await prisma.session.findFirst({ where: { userId }, select: { id: true } });
+    if (!anySession) return true;
+
+    const sameDevice = await prisma.session.findFirst({ where: { userId, userAgent: client.userAgent ?? null }, select: { id: true } });
+    return !!sameDevice;
+};
+
+/**
+ * Tells the user about a sign-in from a device they have not used before: by email when their email
+ * address is verified, otherwise by SMS. A failure to send is logged and does not stop the sign-in.
+ */
+const alertNewDevice = async (userId: string, client: ClientInfo) => {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true, isEmailVerified: true, phone: true, firstName: true },
+    });
+    if (!user) return;
+
+    const device = client.userAgent || 'an unknown device';
+    const when = format(new Date(), 'dd/MM/yyyy HH:mm');
+
+    try {
+        if (user.email && user.isEmailVerified) {
+            await sendEmail(
+                user.email,
+                'New sign-in to your Chama App account',
+                `<p>Hello ${user.firstName},</p>
+                 <p>Your Chama App account was just signed in to from a new device:</p>
+                 <ul><li>Device: ${escapeHtml(device)}</li><li>IP address: ${escapeHtml(client.ipAddress || 'unknown')}</li><li>Time: ${when}</li></ul>
+                 <p>If this was you, there is nothing to do. If not, reset your password and log out of all sessions straight away.</p>`
+            );
+        } else {
+            await sendSms(
+                [user.phone],
+                `Chama App: your account was signed in to from a new device (${device}) at ${when}. If this was not you, log out of all sessions in the app straight away.`
+            );
+        }
+        logger.info({ userId }, 'New device sign-in alert sent');
+    } catch (error) {
+        logger.error({ error, userId }, 'Failed to send new device sign-in alert');
+    }
+};
+
+/**
+ * Starts a session for a user who has just signed in and issues its first pair of tokens. A sign-in
+ * completed with a second factor also counts as a step-up for the new session. The sign-in is audited,
+ * and the user is alerted when it comes from a device they have not signed in from before.
+ */
+export const createSession = async (userId: string, client: ClientInfo, options: { steppedUp?: boolean } = {}) => {
+    const knownDevice = await isKnownDevice(userId, client);
+
+    const tokenId = generateTokenId();
+    const session = await prisma.session.create({
+        data: {
+            userId,
+            tokenId,
+            userAgent: client.userAgent,
+            ipAddress: client.ipAddress,
+            expiresAt: sessionExpiry(),
+            stepUpAt: options.steppedUp ? new Date() : null,
+        },
+    });
+
+    logger.info({ userId, sessionId: session.id }, 'Session started');
+
+    await createAuditLog({
+        action: AuditAction.LOGIN_SUCCESS,
+        actorId: userId,
+        targetId: userId,
+        newValue: { sessionId: session.id, newDevice: !knownDevice, secondFactor: !!options.steppedUp },
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+    });
+
+    if (!knownDevice) {
+        await alertNewDevice(userId, client);
+    }
+
+    return { sessionId: session.id, ...issueTokens(userId, session.id, tokenId) };
+};
+
+/**
+ * Exchanges a refresh token for a new access token and refresh token. The old refresh token stops
+ * working. Presenting one that has already been exchanged means it was copied, so the session is
+ * revoked and both the thief and the owner have to sign in again.
+ */
+export const refreshSession = async (refreshToken: string, client: ClientInfo) => {
+    const decoded = verifyRefreshToken(refreshToken);
+    if (!decoded?.sessionId || !decoded.tokenId) {
+        throw new AppError('Invalid or expired refresh token.', 401);
+    }
+
+    const session = await prisma.session.findUnique({ where: { id: decoded.sessionId } });
+    if (!session || session.userId !== decoded.id) {
+        throw new AppError('Invalid or expired refresh token.', 401);
+    }
+    if (session.revokedAt || session.expiresAt < new Date()) {
+        throw new AppError('This session has ended. Please log in again.', 401);
+    }
+
+    const tokenId = generateTokenId();
+    // Guarded on the current token ID, so two requests with the same token cannot both rotate it
+    const { count } = session.tokenId === decoded.tokenId
+        ? await prisma.session.updateMany({
+            where: { id: session.id, tokenId: decoded.tokenId, revokedAt: null },
+            data: { tokenId, lastUsedAt: new Date(), expiresAt: sessionExpiry(), userAgent: client.userAgent, ipAddress: client.ipAddress },
+        })
+        : { count: 0 };
+
+    if (count === 0) {
+        await prisma.session.update({
+            where: { id: session.id },
+            data: { revokedAt: new Date(), revokedReason: SessionRevocation.TOKEN_REUSE },
+        });
+        logger.warn({ userId: session.userId, sessionId: session.id, ipAddress: client.ipAddress }, 'Refresh token reused. Session revoked');
+        throw new AppError('This refresh token has already been used. Please log in again.', 401);
+    }
+
+    logger.info({ userId: session.userId, sessionId: session.id }, 'Session refreshed');
+    return issueTokens(session.userId, session.id, tokenId);
+};
+
+/**
+ * Whether an access token's session is still live. Access tokens from a revoked session are refused
+ * even before they expire.
+ */
+export const isSessionActive = async (sessionId: string, userId: string) => {
+    const session = await prisma.session.findUnique({
+        where: { id: sessionId },
+        select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+    return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+};
+
+/**
+ * Records that the user has just proved a second factor on this session.
+ */
+export const recordStepUp = async (sessionId: string) => {
+    await prisma.session.update({ where: { id: sessionId }, data: { stepUpAt: new Date() } });
+};
+
+// How long a step-up lasts before sensitive actions ask for a code again.
+export const stepUpWindowMinutes = () => parseInt(process.env.TWO_FACTOR_STEP_UP_MINUTES || '10', 10);
+
+/**
+ * Whether the user proved a second factor on this session within the last `windowMinutes`.
+ */
+export const hasRecentStepUp = async (sessionId: string, windowMinutes: number) => {
+    const session = await prisma.session.findUnique({ where: { id: sessionId }, select: { stepUpAt: true } });
+    return !!session?.stepUpAt && Date.now() - session.stepUpAt.getTime() <= windowMinutes * 60 * 1000;
+};
+
+/**
+ * Lists a user's live sessions, most recently used first, marking the one the request came from.
+ */
+export const listSessions = async (userId: string, currentSessionId?: string) => {
+    const sessions = await prisma.session.findMany({
+        where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+        select: { id: true, userAgent: true, ipAddress: true, createdAt: true, lastUsedAt: true, expiresAt: true },
+        orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map(session => ({ ...session, current: session.id === currentSessionId }));
+};
+
+/**
+ * Ends one of a user's sessions. Its refresh token stops working straight away.
+ */
+export const revokeSession = async (userId: string, sessionId: string, reason: SessionRevocation = SessionRevocation.REVOKED) => {
+    const { count } = await prisma.session.updateMany({
+        where: { id: sessionId, userId, revokedAt: null },
+        data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    if (count === 0) {
+        throw new AppError('Session not found.', 404);
+    }
+    logger.info({ userId, sessionId, reason }, 'Session revoked');
+};
+
+/**
+ * Ends every session a user has, e.g. when they sign out everywhere or reset their password.
+ * @returns The number of sessions ended.
+ */
+export const revokeAllSessions = async (userId: string, reason: SessionRevocation) => {
+    const { count } = await prisma.session.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    logger.info({ userId, count, reason }, 'All sessions revoked');
+    return count;
+};
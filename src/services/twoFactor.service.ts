@@ -0,0 +1,415 @@
+import { AuditAction, PrismaClient, TwoFactorChallenge, TwoFactorMethod, TwoFactorPurpose, User } from '@prisma/client';
+import crypto from 'crypto';
+import qrcode from 'qrcode';
+import logger from '../config/logger';
+import { AppError } from '../utils/customErrors';
+import { findTotpStep, generateTotpSecret, totpUri } from '../utils/totp.utils';
+import { createAuditLog } from './audit.service';
+import { sendSms } from './notification.service';
+import { ClientInfo, createSession, recordStepUp } from './session.service';
+
+const prisma = new PrismaClient();
+
+const SMS_CODE_MINUTES = 5;
+const SETUP_MINUTES = 10;
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = 'Chama App';
+
+const hashCode = (code: string) => crypto.createHash('sha256').update(code).digest('hex');
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+
+const generateSmsCode = () => crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+// Recovery codes look like "3f9a-c12e" so that they cannot be mistaken for a six-digit code.
+const generateRecoveryCode = () => {
+    const hex = crypto.randomBytes(4).toString('hex');
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+};
+
+const normalizeRecoveryCode = (code: string) => code.trim().toLowerCase();
+
+const isRecoveryCode = (code: string) => /^[0-9a-f]{4}-[0-9a-f]{4}$/.test(normalizeRecoveryCode(code));
+
+const matchesHash = (code: string, hash: string) => {
+    const given = Buffer.from(hashCode(code));
+    const expected = Buffer.from(hash);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+const maskPhone = (phone: string) => `${phone.slice(0, 4)}****${phone.slice(-3)}`;
+
+/**
+ * Sends a fresh SMS code and records it as a challenge.
+ */
+const sendSmsChallenge = async (user: Pick<User, 'id' | 'phone'>, purpose: TwoFactorPurpose) => {
+    const code = generateSmsCode();
+    const challenge = await prisma.twoFactorChallenge.create({
+        data: { userId: user.id, purpose, method: TwoFactorMethod.SMS, codeHash: hashCode(code), expiresAt: minutesFromNow(SMS_CODE_MINUTES) },
+    });
+
+    await sendSms([user.phone], `Your Chama App verification code is ${code}. It expires in ${SMS_CODE_MINUTES} minutes. Do not share it with anyone.`);
+    logger.info({ userId: user.id, challengeId: challenge.id, purpose }, 'Two-factor SMS code sent');
+    return challenge;
+};
+
+// An open challenge: not used, not expired and not locked by too many wrong codes.
+const findOpenChallenge = async (where: { id?: string; userId: string; purpose: TwoFactorPurpose; method?: TwoFactorMethod }) => {
+    return prisma.twoFactorChallenge.findFirst({
+        where: { ...where, usedAt: null, expiresAt: { gt: new Date() }, attempts: { lt: MAX_ATTEMPTS } },
+        orderBy: { createdAt: 'desc' },
+    });
+};
+
+/**
+ * Uses up one of the user's recovery codes, if the code is one.
+ */
+const useRecoveryCode = async (userId: string, code: string) => {
+    if (!isRecoveryCode(code)) return false;
+
+    const { count } = await prisma.recoveryCode.updateMany({
+        where: { userId, codeHash: hashCode(normalizeRecoveryCode(code)), usedAt: null },
+        data: { usedAt: new Date() },
+    });
+    if (count > 0) {
+        logger.warn({ userId }, 'Two-factor recovery code used');
+    }
+    return count > 0;
+};
+
+/**
+ * Checks a code from the user's authenticator app and records the time step it was generated for.
+ * A code from the last step accepted or an earlier one is refused, so each code only works once.
+ */
+const useTotpCode = async (userId: string, secret: string, code: string) => {
+    const step = findTotpStep(secret, code);
+    if (step === null) return false;
+
+    const { count } = await prisma.user.updateMany({
+        where: { id: userId, OR: [{ lastTotpStep: null }, { lastTotpStep: { lt: step } }] },
+        data: { lastTotpStep: step },
+    });
+    if (count === 0) {
+        logger.warn({ userId }, 'Two-factor code refused: already used');
+    }
+    return count > 0;
+};
+
+/**
+ * Checks a code from the user's second factor: their authenticator app, the SMS code sent with the
+ * challenge, or one of their recovery codes. A wrong code counts against the challenge.
+ */
+const verifySecondFactor = async (user: Pick<User, 'id' | 'twoFactorMethod' | 'twoFactorSecret'>, code: string, challenge: TwoFactorChallenge | null) => {
+    if (await useRecoveryCode(user.id, code)) return true;
+
+    let valid = false;
+    if (user.twoFactorMethod === TwoFactorMethod.TOTP && user.twoFactorSecret) {
+        valid = await useTotpCode(user.id, user.twoFactorSecret, code);
+    } else if (challenge?.codeHash) {
+        valid = matchesHash(code, challenge.codeHash);
+    }
+
+    if (!valid && challenge) {
+        await prisma.twoFactorChallenge.update({ where: { id: challenge.id }, data: { attempts: { increment: 1 } } });
+    }
+    return valid;
+};
+
+/**
+ * Refuses code checks while the user is locked out by too many wrong codes.
+ * @throws AppError (429) until the lockout ends.
+ */
+const assertNotLockedOut = (user: Pick<User, 'id' | 'twoFactorLockedUntil'>) => {
+    if (user.twoFactorLockedUntil && user.twoFactorLockedUntil > new Date()) {
+        const minutesLeft = Math.ceil((user.twoFactorLockedUntil.getTime() - Date.now()) / 60000);
+        logger.warn({ userId: user.id }, 'Two-factor verification refused: locked out');
+        throw new AppError(`Too many wrong verification codes. Try again in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}.`, 429);
+    }
+};
+
+/**
+ * Counts a wrong code against the user. After MAX_ATTEMPTS in a row, across logins, step-ups and
+ * every other check, the user is locked out of code checks for LOCKOUT_MINUTES minutes.
+ * @throws AppError (429) when this attempt starts a lockout.
+ */
+const countWrongCode = async (userId: string) => {
+    const { failedTwoFactorAttempts } = await prisma.user.update({
+        where: { id: userId },
+        data: { failedTwoFactorAttempts: { increment: 1 } },
+        select: { failedTwoFactorAttempts: true },
+    });
+
+    if (failedTwoFactorAttempts >= MAX_ATTEMPTS) {
+        await prisma.user.update({
+            where: { id: userId },
+            data: { failedTwoFactorAttempts: 0, twoFactorLockedUntil: minutesFromNow(LOCKOUT_MINUTES) },
+        });
+        logger.warn({ userId }, 'Two-factor verification failed: locked out');
+        throw new AppError(`Too many wrong verification codes. Try again in ${LOCKOUT_MINUTES} minutes.`, 429);
+    }
+
+    logger.warn({ userId, failedTwoFactorAttempts }, 'Two-factor verification failed');
+};
+
+const clearWrongCodes = async (user: Pick<User, 'id' | 'failedTwoFactorAttempts' | 'twoFactorLockedUntil'>) => {
+    if (user.failedTwoFactorAttempts > 0 || user.twoFactorLockedUntil) {
+        await prisma.user.update({ where: { id: user.id }, data: { failedTwoFactorAttempts: 0, twoFactorLockedUntil: null } });
+    }
+};
+
+const replaceRecoveryCodes = async (userId: string, tx: Pick<PrismaClient, 'recoveryCode'> = prisma) => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await tx.recoveryCode.deleteMany({ where: { userId } });
+    await tx.recoveryCode.createMany({ data: codes.map(code => ({ userId, codeHash: hashCode(code) })) });
+    return codes;
+};
+
+const findUser = async (userId: string) => {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+        throw new AppError('User not found.', 404);
+    }
+    return user;
+};
+
+/**
+ * Returns whether the user has two-factor authentication on, by which method, and how many unused
+ * recovery codes they have left.
+ */
+export const getTwoFactorStatus = async (userId: string) => {
+    const user = await findUser(userId);
+    const recoveryCodesRemaining = await prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+
+    return { enabled: !!user.twoFactorMethod, method: user.twoFactorMethod, recoveryCodesRemaining };
+};
+
+/**
+ * Starts setting up two-factor authentication. For TOTP, returns a new secret and a QR code for the
+ * authenticator app; for SMS, texts a code to the user's phone. Either way, the setup is only
+ * completed by `enableTwoFactor` with a code that proves it works.
+ */
+export const beginTwoFactorSetup = async (userId: string, method: TwoFactorMethod) => {
+    const user = await findUser(userId);
+    if (user.twoFactorMethod) {
+        throw new AppError('Two-factor authentication is already enabled. Disable it first to change the method.', 409);
+    }
+
+    if (method === TwoFactorMethod.SMS) {
+        const challenge = await sendSmsChallenge(user, TwoFactorPurpose.SETUP);
+        return { challengeId: challenge.id, method, phone: maskPhone(user.phone) };
+    }
+
+    const secret = generateTotpSecret();
+    const challenge = await prisma.twoFactorChallenge.create({
+        data: { userId, purpose: TwoFactorPurpose.SETUP, method, secret, expiresAt: minutesFromNow(SETUP_MINUTES) },
+    });
+    // Phone-only accounts have no email, so the app lists them by phone number
+    const otpauthUrl = totpUri(secret, user.email ?? user.phone, ISSUER);
+
+    logger.info({ userId, challengeId: challenge.id }, 'Authenticator app setup started');
+    return { challengeId: challenge.id, method, secret, otpauthUrl, qrCode: await qrcode.toDataURL(otpauthUrl) };
+};
+
+/**
+ * Completes setup with the first code from the new factor, turns two-factor authentication on and
+ * issues recovery codes. The codes are only ever shown here.
+ */
+export const enableTwoFactor = async (userId: string, challengeId: string, code: string, sessionId?: string) => {
+    const challenge = await findOpenChallenge({ id: challengeId, userId, purpose: TwoFactorPurpose.SETUP });
+    if (!challenge) {
+        throw new AppError('This setup request has expired. Please start again.', 400);
+    }
+
+    const totpStep = challenge.method === TwoFactorMethod.TOTP ? findTotpStep(challenge.secret!, code) : null;
+    const valid = challenge.method === TwoFactorMethod.TOTP
+        ? totpStep !== null
+        : matchesHash(code, challenge.codeHash!);
+    if (!valid) {
+        await prisma.twoFactorChallenge.update({ where: { id: challenge.id }, data: { attempts: { increment: 1 } } });
+        throw new AppError('Invalid verification code.', 400);
+    }
+
+    const recoveryCodes = await prisma.$transaction(async (tx) => {
+        await tx.user.update({
+            where: { id: userId },
+            data: { twoFactorMethod: challenge.method, twoFactorSecret: challenge.secret, lastTotpStep: totpStep },
+        });
+        await tx.twoFactorChallenge.update({ where: { id: challenge.id }, data: { usedAt: new Date() } });
+        return replaceRecoveryCodes(userId, tx);
+    });
+
+    if (sessionId) {
+        await recordStepUp(sessionId);
+    }
+
+    logger.info({ userId, method: challenge.method }, 'Two-factor authentication enabled');
+    return { method: challenge.method, recoveryCodes };
+};
+
+/**
+ * Texts an SMS user a code for confirming a sensitive action. Authenticator app users read theirs
+ * from the app instead.
+ */
+export const sendStepUpCode = async (userId: string) => {
+    const user = await findUser(userId);
+    if (user.twoFactorMethod !== TwoFactorMethod.SMS) {
+        throw new AppError(user.twoFactorMethod
+            ? 'Use the code from your authenticator app.'
+            : 'Two-factor authentication is not enabled.', 400);
+    }
+
+    await sendSmsChallenge(user, TwoFactorPurpose.STEP_UP);
+    return { method: user.twoFactorMethod, phone: maskPhone(user.phone) };
+};
+
+/**
+ * Checks a code from the user's second factor outside of login: an authenticator or recovery code,
+ * or the SMS code from `sendStepUpCode`. Wrong codes count towards the user's lockout (see `countWrongCode`).
+ * @throws AppError (429) while the user is locked out, including by this attempt.
+ */
+const verifyUserCode = async (userId: string, code: string) => {
+    const user = await findUser(userId);
+    if (!user.twoFactorMethod) {
+        throw new AppError('Two-factor authentication is not enabled.', 400);
+    }
+    assertNotLockedOut(user);
+
+    const challenge = user.twoFactorMethod === TwoFactorMethod.SMS
+        ? await findOpenChallenge({ userId, purpose: TwoFactorPurpose.STEP_UP })
+        : null;
+    if (!(await verifySecondFactor(user, code, challenge))) {
+        await countWrongCode(userId);
+        throw new AppError('Invalid verification code.', 400);
+    }
+
+    await clearWrongCodes(user);
+    if (challenge) {
+        await prisma.twoFactorChallenge.update({ where: { id: challenge.id }, data: { usedAt: new Date() } });
+    }
+};
+
+/**
+ * Confirms the user's second factor on their current session, allowing sensitive actions for a while.
+ */
+export const stepUp = async (userId: string, sessionId: string, code: string) => {
+    await verifyUserCode(userId, code);
+    await recordStepUp(sessionId);
+    logger.info({ userId, sessionId }, 'Session stepped up');
+};
+
+/**
+ * Turns two-factor authentication off, after confirming a code from it.
+ */
+export const disableTwoFactor = async (userId: string, code: string) => {
+    await verifyUserCode(userId, code);
+
+    await prisma.$transaction([
+        prisma.user.update({ where: { id: userId }, data: { twoFactorMethod: null, twoFactorSecret: null, lastTotpStep: null } }),
+        prisma.recoveryCode.deleteMany({ where: { userId } }),
+    ]);
+    logger.info({ userId }, 'Two-factor authentication disabled');
+};
+
+/**
+ * Replaces the user's recovery codes, after confirming a code from their second factor.
+ */
+export const regenerateRecoveryCodes = async (userId: string, code: string) => {
+    await verifyUserCode(userId, code);
+
+    const recoveryCodes = await replaceRecoveryCodes(userId);
+    logger.info({ userId }, 'Recovery codes regenerated');
+    return { recoveryCodes };
+};
+
+/**
+ * Texts a code that proves the user owns their phone number, for accounts that sign in with a PIN.
+ */
+export const sendPhoneVerificationCode = async (user: Pick<User, 'id' | 'phone'>) => {
+    await sendSmsChallenge(user, TwoFactorPurpose.PHONE_VERIFICATION);
+};
+
+/**
+ * Checks the latest phone verification code sent to the user, using it up if it matches. A wrong
+ * code counts against it.
+ */
+export const checkPhoneVerificationCode = async (userId: string, code: string) => {
+    const challenge = await findOpenChallenge({ userId, purpose: TwoFactorPurpose.PHONE_VERIFICATION });
+    if (!challenge?.codeHash) return false;
+
+    if (!matchesHash(code, challenge.codeHash)) {
+        await prisma.twoFactorChallenge.update({ where: { id: challenge.id }, data: { attempts: { increment: 1 } } });
+        return false;
+    }
+
+    await prisma.twoFactorChallenge.update({ where: { id: challenge.id }, data: { usedAt: new Date() } });
+    return true;
+};
+
+/**
+ * Starts the second step of a login for a user with two-factor authentication: SMS users are sent
+ * a code, and the client is given the challenge to answer at `completeLoginChallenge`.
+ */
+export const startLoginChallenge = async (user: User) => {
+    const challenge = user.twoFactorMethod === TwoFactorMethod.SMS
+        ? await sendSmsChallenge(user, TwoFactorPurpose.LOGIN)
+        : await prisma.twoFactorChallenge.create({
+            data: { userId: user.id, purpose: TwoFactorPurpose.LOGIN, method: user.twoFactorMethod!, expiresAt: minutesFromNow(SMS_CODE_MINUTES) },
+        });
+
+    logger.info({ userId: user.id, challengeId: challenge.id }, 'Login awaiting second factor');
+    return { twoFactorRequired: true, method: user.twoFactorMethod, challengeId: challenge.id };
+};
+
+/**
+ * Finishes a login with the code from the user's second factor and starts their session. Wrong codes
+ * count towards the user's lockout as well as the challenge's, so new logins do not bring fresh tries.
+ * @throws AppError (429) while the user is locked out, including by this attempt.
+ */
+export const completeLoginChallenge = async (challengeId: string, code: string, client: ClientInfo) => {
+    const challenge = await prisma.twoFactorChallenge.findUnique({ where: { id: challengeId }, include: { user: true } });
+    if (
+        !challenge || challenge.purpose !== TwoFactorPurpose.LOGIN || challenge.usedAt
+        || challenge.expiresAt < new Date() || challenge.attempts >= MAX_ATTEMPTS
+    ) {
+        throw new AppError('This login attempt has expired. Please log in again.', 401);
+    }
+
+    const { user } = challenge;
+    assertNotLockedOut(user);
+    if (!(await verifySecondFactor(user, code, challenge))) {
+        logger.warn({ userId: user.id, challengeId }, 'Login failed: invalid two-factor code');
+        await createAuditLog({
+            action: AuditAction.LOGIN_FAILED,
+            actorId: user.id,
+            targetId: user.id,
+            newValue: { reason: 'WRONG_TWO_FACTOR_CODE' },
+            ipAddress: client.ipAddress,
+            userAgent: client.userAgent,
+        });
+        await countWrongCode(user.id);
+        throw new AppError('Invalid verification code.', 401);
+    }
+
+    // Only one request can use the challenge
+    const { count } = await prisma.twoFactorChallenge.updateMany({ where: { id: challenge.id, usedAt: null }, data: { usedAt: new Date() } });
+    if (count === 0) {
+        throw new AppError('This login attempt has expired. Please log in again.', 401);
+    }
+
+    await clearWrongCodes(user);
+    const { accessToken, refreshToken } = await createSession(user.id, client, { steppedUp: true });
+    logger.info({ userId: user.id }, 'Login completed with second factor');
+
+    return {
+        accessToken,
+        refreshToken,
+        user: {
+            id: user.id,
+            email: user.email,
+            firstName: user.firstName,
+            lastName: user.lastName,
+        },
+    };
+};
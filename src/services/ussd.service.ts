@@ -0,0 +1,283 @@
+import { Chama, ContributionStatus, Membership, PrismaClient, User } from '@prisma/client';
+import { format } from 'date-fns';
+import { parsePhoneNumberFromString } from 'libphonenumber-js';
+import { verifyPin } from './auth.service';
+import { recordContribution } from './contribution.service';
+import { findCurrentPeriod, getCalendarRules } from './contributionPeriod.service';
+import { getNextInstallmentAmount, getOutstandingLoans } from './loan.service';
+import { getUpcomingMeetings } from './meeting.service';
+import { initiateStkPush } from './mpesa.service';
+import { startLoanRepaymentPush } from './mpesaRequest.service';
+import { isAppError } from '../utils/error.utils';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+// A USSD request, as Africa's Talking sends it. `text` holds everything the member has typed this
+// session, with each reply separated by "*", e.g. "1234*2*1".
+export interface UssdRequest {
+    sessionId: string;
+    serviceCode?: string;
+    phoneNumber: string;
+    text?: string;
+}
+
+export interface UssdReply {
+    response: string;
+    endSession: boolean;
+}
+
+type MemberOf = Membership & { chama: Pick<Chama, 'id' | 'name' | 'monthlyContribution'> };
+
+interface UssdSession {
+    user: User;
+    phone: string;
+    memberships: MemberOf[];
+    membership?: MemberOf;
+}
+
+type Transition = { next: MenuState } | { end: string } | { retry: string };
+
+// One screen of the menu: what the member is shown, and where each reply takes them.
+interface MenuState {
+    prompt: (session: UssdSession) => Promise<string>;
+    handle: (input: string, session: UssdSession) => Promise<Transition>;
+}
+
+const money = (amount: number) => `KES ${amount.toFixed(2)}`;
+
+const day = (date: Date) => format(date, 'dd/MM/yyyy');
+
+const parseAmount = (input: string) => {
+    const amount = Number(input);
+    return Number.isInteger(amount) && amount > 0 ? amount : null;
+};
+
+// Daraja takes phone numbers as 2547..., without the plus.
+const mpesaPhone = (phone: string) => phone.replace(/^\+/, '');
+
+/**
+ * Runs an STK push, turning a refusal into the message that ends the session.
+ */
+const sendPush = async (push: () => Promise<unknown>, amount: number, session: UssdSession) => {
+    try {
+        await push();
+        logger.info({ userId: session.user.id, membershipId: session.membership!.id, amount }, 'USSD payment requested');
+        return { end: `Enter your M-Pesa PIN on the prompt to pay ${money(amount)}.` };
+    } catch (error) {
+        logger.warn({ error, userId: session.user.id, membershipId: session.membership!.id }, 'USSD payment could not be started');
+        return { end: isAppError(error) ? error.message : 'We could not start the M-Pesa payment. Please try again later.' };
+    }
+};
+
+/**
+ * The member's contribution for the current period and what is still due on it.
+ */
+const currentContribution = async (membership: MemberOf) => {
+    const period = await findCurrentPeriod(membership.chamaId, await getCalendarRules(membership.chamaId));
+    if (!period) return null;
+
+    const contribution = await prisma.contribution.findFirst({ where: { membershipId: membership.id, periodId: period.id } });
+    const expected = contribution?.expectedAmount ?? membership.chama.monthlyContribution;
+    const paid = contribution?.amount ?? 0;
+    return { period, contribution, expected, paid, due: Math.max(expected - paid, 0) };
+};
+
+const payContribution = async (amount: number, session: UssdSession) => {
+    const membership = session.membership!;
+    const current = await currentContribution(membership);
+    if (!current) {
+        return { end: 'There is no contribution period open right now.' };
+    }
+
+    // The push pays into this period's contribution, created as a placeholder if none exists yet.
+    const contribution = current.contribution ?? await recordContribution({
+        membershipId: membership.id,
+        amount: 0,
+        periodId: current.period.id,
+        paymentMethod: 'MPESA',
+        paidAt: new Date(),
+        status: 'PENDING',
+    }, session.user.id, {});
+
+    return sendPush(() => initiateStkPush(mpesaPhone(session.phone), amount, contribution.id), amount, session);
+};
+
+const oldestLoan = async (membership: MemberOf) => {
+    const [oldest] = await getOutstandingLoans(membership.id);
+    return oldest ?? null;
+};
+
+const payLoan = async (amount: number, session: UssdSession) => {
+    const outstanding = await oldestLoan(session.membership!);
+    if (!outstanding) {
+        return { end: 'You have no loan to repay.' };
+    }
+    return sendPush(() => startLoanRepaymentPush(outstanding.loan.id, mpesaPhone(session.phone), amount, session.user.id), amount, session);
+};
+
+/**
+ * Asks for an amount and pays it.
+ */
+const enterAmount = (pay: (amount: number, session: UssdSession) => Promise<Transition>): MenuState => ({
+    prompt: async () => 'Enter amount in KES:',
+    handle: async (input, session) => {
+        const amount = parseAmount(input);
+        return amount ? pay(amount, session) : { retry: 'Enter a whole number of shillings.' };
+    },
+});
+
+/**
+ * Offers to pay what is due, or another amount.
+ */
+const offerPayment = (
+    amountDue: (session: UssdSession) => Promise<{ amount: number; label: string } | string>,
+    pay: (amount: number, session: UssdSession) => Promise<Transition>,
+): MenuState => ({
+    prompt: async (session) => {
+        const due = await amountDue(session);
+        if (typeof due === 'string') return `${due}\n2. Enter amount`;
+        return `${due.label}\n1. Pay ${money(due.amount)}\n2. Enter another amount`;
+    },
+    handle: async (input, session) => {
+        if (input === '2') return { next: enterAmount(pay) };
+        if (input !== '1') return { retry: 'Invalid choice.' };
+
+        const due = await amountDue(session);
+        return typeof due === 'string' ? { retry: 'Invalid choice.' } : pay(due.amount, session);
+    },
+});
+
+const payContributionMenu = offerPayment(async (session) => {
+    const current = await currentContribution(session.membership!);
+    if (!current || current.due <= 0) return 'Your contribution for this period is fully paid.';
+    return { amount: Math.ceil(current.due), label: `Contribution due ${day(current.period.dueDate)}` };
+}, payContribution);
+
+const payLoanMenu = offerPayment(async (session) => {
+    const outstanding = await oldestLoan(session.membership!);
+    if (!outstanding) return 'You have no loan to repay.';
+    const next = Math.ceil(await getNextInstallmentAmount(outstanding.loan.id));
+    if (next <= 0) return `Loan balance ${money(outstanding.balance)}.`;
+    return { amount: next, label: `Loan balance ${money(outstanding.balance)}` };
+}, payLoan);
+
+const contributionStatus = async (session: UssdSession) => {
+    const current = await currentContribution(session.membership!);
+    if (!current) return 'There is no contribution period open right now.';
+
+    const status = current.contribution?.status ?? ContributionStatus.PENDING;
+    return `Contribution for ${day(current.period.startDate)} - ${day(current.period.endDate)}:\n`
+        + `Paid ${money(current.paid)} of ${money(current.expected)} (${status.replace('_', ' ')}).\n`
+        + `Due ${day(current.period.dueDate)}.`;
+};
+
+const loanStatus = async (session: UssdSession) => {
+    const loans = await getOutstandingLoans(session.membership!.id);
+    if (loans.length === 0) return 'You have no outstanding loans.';
+
+    const balance = loans.reduce((sum, { balance }) => sum + balance, 0);
+    const [{ loan }] = loans;
+    const next = await getNextInstallmentAmount(loan.id);
+    return `Loan balance: ${money(balance)}.\n`
+        + `Next installment: ${money(next)}${loan.dueDate ? ` due ${day(loan.dueDate)}` : ''}.`;
+};
+
+const nextMeeting = async (session: UssdSession) => {
+    const [meeting] = await getUpcomingMeetings(session.membership!.chamaId);
+    if (!meeting) return 'No meetings are scheduled.';
+    return `Next meeting: ${meeting.title}\n${format(meeting.scheduledFor, 'EEE dd/MM/yyyy HH:mm')}\nAt ${meeting.location}`;
+};
+
+const mainMenu: MenuState = {
+    prompt: async (session) => `${session.membership!.chama.name}\n`
+        + '1. Contribution status\n2. Loan balance\n3. Pay contribution\n4. Repay loan\n5. Next meeting',
+    handle: async (input, session) => {
+        switch (input) {
+            case '1': return { end: await contributionStatus(session) };
+            case '2': return { end: await loanStatus(session) };
+            case '3': return { next: payContributionMenu };
+            case '4': return { next: payLoanMenu };
+            case '5': return { end: await nextMeeting(session) };
+            default: return { retry: 'Invalid choice.' };
+        }
+    },
+};
+
+const chamaMenu: MenuState = {
+    prompt: async (session) => `Choose a chama:\n${session.memberships.map((m, i) => `${i + 1}. ${m.chama.name}`).join('\n')}`,
+    handle: async (input, session) => {
+        const membership = session.memberships[Number(input) - 1];
+        if (!membership) return { retry: 'Invalid choice.' };
+        session.membership = membership;
+        return { next: mainMenu };
+    },
+};
+
+const pinMenu: MenuState = {
+    prompt: async () => 'Welcome to Chama App.\nEnter your PIN:',
+    handle: async (input, session) => {
+        try {
+            if (!(await verifyPin(session.user, input))) {
+                return { end: 'Wrong PIN.' };
+            }
+        } catch (error) {
+            if (isAppError(error)) return { end: error.message };
+            throw error;
+        }
+
+        session.memberships = await prisma.membership.findMany({
+            where: { userId: session.user.id, isActive: true },
+            include: { chama: { select: { id: true, name: true, monthlyContribution: true } } },
+            orderBy: { joinedAt: 'asc' },
+        });
+        if (session.memberships.length === 0) {
+            return { end: 'You are not a member of any chama yet.' };
+        }
+        if (session.memberships.length === 1) {
+            session.membership = session.memberships[0];
+            return { next: mainMenu };
+        }
+        return { next: chamaMenu };
+    },
+};
+
+/**
+ * Answers one step of a USSD session. Africa's Talking resends everything typed so far on every
+ * step, so the session is rebuilt by replaying those replies through the menus from the start,
+ * with nothing stored between steps. Only phone accounts with a verified number and a PIN can use
+ * it; the PIN is checked on every step, and wrong PINs count towards the phone's lockout.
+ */
+export const handleUssdRequest = async ({ sessionId, phoneNumber, text }: UssdRequest): Promise<UssdReply> => {
+    const phone = parsePhoneNumberFromString(phoneNumber ?? '', 'KE');
+    const user = phone?.isValid()
+        ? await prisma.user.findUnique({ where: { phone: phone.format('E.164') } })
+        : null;
+
+    if (!user?.pin || !user.isPhoneVerified) {
+        logger.warn({ sessionId, phoneNumber }, 'USSD session from a phone without a PIN account');
+        return { response: 'This service is for members who log in with their phone number and PIN. Please register in the Chama App.', endSession: true };
+    }
+
+    const session: UssdSession = { user, phone: user.phone, memberships: [] };
+    const replies = text ? text.split('*') : [];
+
+    let state = pinMenu;
+    let notice = '';
+    for (const reply of replies) {
+        const transition = await state.handle(reply.trim(), session);
+        if ('end' in transition) {
+            logger.info({ sessionId, userId: user.id, steps: replies.length }, 'USSD session ended');
+            return { response: transition.end, endSession: true };
+        }
+        if ('retry' in transition) {
+            notice = transition.retry;
+        } else {
+            state = transition.next;
+            notice = '';
+        }
+    }
+
+    const prompt = await state.prompt(session);
+    return { response: notice ? `${notice}\n${prompt}` : prompt, endSession: false };
+};
@@ -0,0 +1,585 @@
+import { AuditAction, NotificationType, Prisma, PrismaClient, Withdrawal, WithdrawalStatus, WithdrawalType } from '@prisma/client';
+import { addDays } from 'date-fns';
+import PDFDocument from 'pdfkit';
+import { createAuditLog } from './audit.service';
+import { createNotification } from './notification.service';
+import { getChamaFunds } from './fund.service';
+import { applyLoanRepayment, getAvailableSavings, getOutstandingLoans } from './loan.service';
+import { postWithdrawal } from './ledger.service';
+import { initiateB2CPayment } from './mpesa.service';
+import { AppError } from '../utils/customErrors';
+import logger from '../config/logger';
+
+const prisma = new PrismaClient();
+
+type WithdrawalClient = PrismaClient | Prisma.TransactionClient;
+
+interface LogMeta {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+interface WithdrawalInput {
+    type: WithdrawalType;
+    fundId?: string;
+    amount?: number;
+    reason?: string;
+    membershipId?: string;
+}
+
+interface PaymentInput {
+    paymentMethod?: string;
+    mpesaCode?: string;
+    sendViaMpesa?: boolean;
+}
+
+interface WithdrawalFilters {
+    status?: WithdrawalStatus;
+    membershipId?: string;
+}
+
+export interface Settlement {
+    lines: { fundId: string; name: string; amount: number; withdrawalNoticeDays: number }[];
+    grossAmount: number;
+    penaltyOffset: number;
+    loanOffset: number;
+    netAmount: number;
+    outstandingLoans: number;
+}
+
+// A member can only have one of these at a time. Failed payouts stay open so they can be retried.
+const OPEN_WITHDRAWAL_STATUSES: WithdrawalStatus[] = ['PENDING', 'APPROVED', 'PROCESSING', 'FAILED'];
+
+const OFFICER_ROLES = ['ADMIN', 'TREASURER'];
+
+const withdrawalInclude = {
+    membership: { include: { user: { select: { firstName: true, lastName: true, phone: true } } } },
+    reviewedBy: { include: { user: { select: { firstName: true, lastName: true } } } },
+    fund: true,
+};
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const findActiveMembership = async (chamaId: string, userId: string) => {
+    const membership = await prisma.membership.findFirst({ where: { chamaId, userId, isActive: true } });
+    if (!membership) {
+        throw new AppError('You are not an active member of this chama.', 403);
+    }
+    return membership;
+};
+
+/**
+ * Works out what a withdrawal pays out as things stand. A partial withdrawal takes an amount from one
+ * withdrawable fund, leaving the fund's minimum balance behind. An exit refunds share capital and every
+ * withdrawable fund in full; non-withdrawable funds such as welfare stay with the chama. Unpaid
+ * contribution penalties and then outstanding loans are recovered from the payout before the member
+ * receives the rest.
+ */
+export const calculateSettlement = async (
+    withdrawal: Pick<Withdrawal, 'chamaId' | 'membershipId' | 'type' | 'fundId' | 'requestedAmount'>,
+    client: WithdrawalClient = prisma
+): Promise<Settlement> => {
+    const { chamaId, membershipId } = withdrawal;
+
+    const funds = await getChamaFunds(chamaId, client);
+    const balances = await client.fundAllocation.groupBy({
+        by: ['fundId'],
+        where: { membershipId },
+        _sum: { amount: true },
+    });
+    const balanceOf = (fundId: string) => roundAmount(balances.find(b => b.fundId === fundId)?._sum.amount || 0);
+
+    let lines: Settlement['lines'];
+    if (withdrawal.type === 'EXIT') {
+        lines = funds
+            .filter(fund => fund.isWithdrawable || fund.type === 'SHARE_CAPITAL')
+            .map(fund => ({ fundId: fund.id, name: fund.name, amount: balanceOf(fund.id), withdrawalNoticeDays: fund.withdrawalNoticeDays }))
+            .filter(line => line.amount > 0);
+    } else {
+        const fund = funds.find(f => f.id === withdrawal.fundId);
+        if (!fund) {
+            throw new AppError('Fund not found in this chama.', 404);
+        }
+        if (!fund.isWithdrawable) {
+            throw new AppError(`The ${fund.name} fund does not allow withdrawals.`, 400);
+        }
+        const available = roundAmount(Math.max(balanceOf(fund.id) - fund.minimumBalance, 0));
+        const amount = withdrawal.requestedAmount ?? 0;
+        if (amount > available) {
+            throw new AppError(`Only KES ${available.toFixed(2)} can be withdrawn from the ${fund.name} fund.`, 400);
+        }
+        lines = [{ fundId: fund.id, name: fund.name, amount, withdrawalNoticeDays: fund.withdrawalNoticeDays }];
+    }
+
+    // Savings pledged as guarantor stay locked until the guaranteed loans are repaid or turned down.
+    const savingsOut = roundAmount(lines
+        .filter(line => funds.find(f => f.id === line.fundId)?.type === 'SAVINGS')
+        .reduce((sum, line) => sum + line.amount, 0));
+    const { availableSavings, lockedSavings } = await getAvailableSavings(membershipId, client);
+    if (withdrawal.type === 'EXIT' && lockedSavings > 0) {
+        throw new AppError('This member has guaranteed loans that are still outstanding and cannot exit until they are repaid.', 409);
+    }
+    if (savingsOut > availableSavings) {
+        throw new AppError(`KES ${lockedSavings.toFixed(2)} of these savings is pledged as guarantor. Only KES ${availableSavings.toFixed(2)} can be withdrawn.`, 400);
+    }
+
+    const grossAmount = roundAmount(lines.reduce((sum, line) => sum + line.amount, 0));
+
+    const penalties = await client.contribution.aggregate({ _sum: { penaltyApplied: true }, where: { membershipId } });
+    const recovered = await client.withdrawal.aggregate({ _sum: { penaltyOffset: true }, where: { membershipId, status: 'PAID' } });
+    const penaltiesOwed = roundAmount(Math.max((penalties._sum.penaltyApplied || 0) - (recovered._sum.penaltyOffset || 0), 0));
+    const penaltyOffset = Math.min(penaltiesOwed, grossAmount);
+
+    const loans = await getOutstandingLoans(membershipId, client);
+    const outstandingLoans = roundAmount(loans.reduce((sum, { balance }) => sum + balance, 0));
+    const loanOffset = roundAmount(Math.min(outstandingLoans, grossAmount - penaltyOffset));
+    if (withdrawal.type === 'EXIT' && outstandingLoans > loanOffset) {
+        throw new AppError(`Outstanding loans exceed the member's refund by KES ${(outstandingLoans - loanOffset).toFixed(2)} and must be repaid before they can exit.`, 409);
+    }
+
+    return {
+        lines,
+        grossAmount,
+        penaltyOffset,
+        loanOffset,
+        netAmount: roundAmount(grossAmount - penaltyOffset - loanOffset),
+        outstandingLoans,
+    };
+};
+
+/**
+ * Records a member's request to withdraw from a fund, or to leave the chama and take their savings.
+ * Officers can request an exit on behalf of a member. The payout becomes available once the longest
+ * notice period among the funds involved has passed.
+ */
+export const requestWithdrawal = async (chamaId: string, actorId: string, data: WithdrawalInput, logMeta: LogMeta) => {
+    logger.info({ chamaId, actorId, type: data.type, fundId: data.fundId, amount: data.amount }, 'Requesting withdrawal');
+
+    const actor = await findActiveMembership(chamaId, actorId);
+    let membershipId = actor.id;
+    if (data.membershipId && data.membershipId !== actor.id) {
+        if (!OFFICER_ROLES.includes(actor.role)) {
+            throw new AppError('Only an admin or treasurer can request a withdrawal for another member.', 403);
+        }
+        const member = await prisma.membership.findFirst({ where: { id: data.membershipId, chamaId, isActive: true } });
+        if (!member) {
+            throw new AppError('Member not found in this chama.', 404);
+        }
+        membershipId = member.id;
+    }
+
+    const open = await prisma.withdrawal.findFirst({ where: { membershipId, status: { in: OPEN_WITHDRAWAL_STATUSES } } });
+    if (open) {
+        throw new AppError('This member already has a withdrawal in progress.', 409);
+    }
+
+    if (data.type === 'EXIT') {
+        const pendingLoans = await prisma.loan.count({ where: { membershipId, status: { in: ['PENDING', 'APPROVED'] } } });
+        if (pendingLoans > 0) {
+            throw new AppError('Loan applications that have not been disbursed must be rejected before the member can exit.', 409);
+        }
+    }
+
+    const request = {
+        chamaId,
+        membershipId,
+        type: data.type,
+        fundId: data.type === 'PARTIAL' ? data.fundId ?? null : null,
+        requestedAmount: data.type === 'PARTIAL' ? data.amount ?? null : null,
+    };
+    const settlement = await calculateSettlement(request);
+    const noticeDays = Math.max(0, ...settlement.lines.map(line => line.withdrawalNoticeDays));
+
+    const withdrawal = await prisma.withdrawal.create({
+        data: { ...request, reason: data.reason, availableFrom: addDays(new Date(), noticeDays) },
+        include: withdrawalInclude,
+    });
+
+    await createAuditLog({
+        action: AuditAction.WITHDRAWAL_REQUEST,
+        actorId,
+        chamaId,
+        targetId: withdrawal.membership.userId,
+        newValue: withdrawal,
+        ...logMeta,
+    });
+
+    logger.info({ chamaId, withdrawalId: withdrawal.id, type: withdrawal.type, availableFrom: withdrawal.availableFrom }, 'Withdrawal requested');
+
+    return { ...withdrawal, settlement };
+};
+
+/**
+ * Approves or rejects a withdrawal request. Approved withdrawals that have not been paid out yet, or
+ * whose M-Pesa payout failed, can still be rejected. Members cannot review their own withdrawals.
+ */
+export const reviewWithdrawal = async (
+    chamaId: string,
+    withdrawalId: string,
+    status: WithdrawalStatus,
+    actorId: string,
+    logMeta: LogMeta,
+    reviewNotes?: string
+) => {
+    logger.info({ chamaId, withdrawalId, status, actorId }, 'Reviewing withdrawal');
+
+    if (status !== 'APPROVED' && status !== 'REJECTED') {
+        throw new AppError('Invalid status provided. Must be APPROVED or REJECTED.', 400);
+    }
+
+    const withdrawal = await prisma.withdrawal.findFirst({ where: { id: withdrawalId, chamaId }, include: { membership: true } });
+    if (!withdrawal) {
+        throw new AppError('Withdrawal not found.', 404);
+    }
+    const reviewable: WithdrawalStatus[] = status === 'APPROVED' ? ['PENDING'] : ['PENDING', 'APPROVED', 'FAILED'];
+    if (!reviewable.includes(withdrawal.status)) {
+        throw new AppError(`A ${withdrawal.status.toLowerCase()} withdrawal cannot be ${status.toLowerCase()}.`, 409);
+    }
+    if (withdrawal.membership.userId === actorId) {
+        throw new AppError('You cannot review your own withdrawal.', 403);
+    }
+
+    const reviewer = await findActiveMembership(chamaId, actorId);
+
+    const reviewed = await prisma.withdrawal.update({
+        where: { id: withdrawal.id },
+        data: { status, reviewNotes, reviewedAt: new Date(), reviewedById: reviewer.id },
+        include: withdrawalInclude,
+    });
+
+    const { membership, ...oldValue } = withdrawal;
+    await createAuditLog({
+        action: status === 'APPROVED' ? AuditAction.WITHDRAWAL_APPROVE : AuditAction.WITHDRAWAL_REJECT,
+        actorId,
+        chamaId,
+        targetId: membership.userId,
+        oldValue,
+        newValue: reviewed,
+        ...logMeta,
+    });
+
+    await createNotification({
+        membershipId: withdrawal.membershipId,
+        title: status === 'APPROVED' ? 'Withdrawal Approved' : 'Withdrawal Rejected',
+        message: status === 'APPROVED'
+            ? `Your withdrawal request has been approved and can be paid out from ${withdrawal.availableFrom.toDateString()}.`
+            : `Your withdrawal request has been rejected.${reviewNotes ? ` Note: ${reviewNotes}` : ''}`,
+        type: NotificationType.GENERAL,
+    });
+
+    logger.info({ chamaId, withdrawalId, status }, 'Withdrawal reviewed');
+
+    return reviewed;
+};
+
+/**
+ * Finishes a payout within the caller's transaction: the recovered loan balance is applied to the
+ * member's oldest loans, the payout is booked, and an exiting member's membership is closed.
+ */
+const completeWithdrawal = async (tx: Prisma.TransactionClient, withdrawal: Withdrawal, mpesaCode: string | null) => {
+    const paid = await tx.withdrawal.update({
+        where: { id: withdrawal.id },
+        data: { status: 'PAID', paidAt: new Date(), mpesaCode },
+        include: withdrawalInclude,
+    });
+    const { chamaId, membershipId } = paid;
+
+    let remaining = paid.loanOffset;
+    for (const { loan, paid: paidBefore, balance } of await getOutstandingLoans(membershipId, tx)) {
+        if (remaining <= 0) {
+            break;
+        }
+        const amount = roundAmount(Math.min(balance, remaining));
+        await applyLoanRepayment(tx, loan, paidBefore, chamaId, { amount, paidAt: paid.paidAt!, paymentMethod: 'SAVINGS_OFFSET' });
+        remaining = roundAmount(remaining - amount);
+    }
+
+    if (paid.netAmount) {
+        const { firstName, lastName } = paid.membership.user;
+        await tx.transaction.create({
+            data: {
+                chamaId,
+                type: 'WITHDRAWAL',
+                amount: -paid.netAmount, // Negative amount as money is going out
+                description: `${paid.type === 'EXIT' ? 'Exit refund' : 'Savings withdrawal'} to ${firstName} ${lastName}${mpesaCode ? `. Ref: ${mpesaCode}` : ''}`,
+            },
+        });
+    }
+    await postWithdrawal(paid, chamaId, tx);
+
+    if (paid.type === 'EXIT') {
+        await tx.membership.update({ where: { id: membershipId }, data: { isActive: false } });
+        await tx.chama.update({ where: { id: chamaId }, data: { totalMembers: { decrement: 1 } } });
+    }
+
+    return paid;
+};
+
+const notifyPaid = (withdrawal: Withdrawal) => createNotification({
+    membershipId: withdrawal.membershipId,
+    title: withdrawal.type === 'EXIT' ? 'Exit Refund Paid' : 'Withdrawal Paid',
+    message: withdrawal.type === 'EXIT'
+        ? `Your exit refund of KES ${(withdrawal.netAmount ?? 0).toFixed(2)} has been paid and your membership has been closed.`
+        : `Your withdrawal of KES ${(withdrawal.netAmount ?? 0).toFixed(2)} has been paid.`,
+    type: NotificationType.GENERAL,
+});
+
+// Gives a failed payout's reserved balances back to the member so the payout can be retried or rejected.
+const releaseWithdrawal = (withdrawalId: string) => prisma.$transaction(async (tx) => {
+    await tx.fundAllocation.deleteMany({ where: { withdrawalId } });
+    return tx.withdrawal.update({ where: { id: withdrawalId }, data: { status: 'FAILED' } });
+});
+
+/**
+ * Pays out an approved withdrawal once its notice period has passed. The settlement is worked out
+ * again at payout time and the amounts are taken out of the member's fund balances. The payout can be
+ * recorded as already paid, or sent to the member's phone by M-Pesa B2C and settled when Safaricom
+ * confirms it.
+ */
+export const payWithdrawal = async (chamaId: string, withdrawalId: string, actorId: string, data: PaymentInput, logMeta: LogMeta) => {
+    logger.info({ chamaId, withdrawalId, actorId, sendViaMpesa: data.sendViaMpesa }, 'Paying withdrawal');
+
+    const withdrawal = await prisma.withdrawal.findFirst({ where: { id: withdrawalId, chamaId }, include: withdrawalInclude });
+    if (!withdrawal) {
+        throw new AppError('Withdrawal not found.', 404);
+    }
+    if (withdrawal.status !== 'APPROVED' && withdrawal.status !== 'FAILED') {
+        throw new AppError('Only approved withdrawals can be paid out.', 409);
+    }
+    if (withdrawal.availableFrom > new Date()) {
+        throw new AppError(`The notice period for this withdrawal ends on ${withdrawal.availableFrom.toDateString()}.`, 400);
+    }
+    if (data.mpesaCode && await prisma.withdrawal.findUnique({ where: { mpesaCode: data.mpesaCode } })) {
+        throw new AppError('This M-Pesa code has already been used for another withdrawal.', 409);
+    }
+
+    let sendViaMpesa = false;
+    let paid = await prisma.$transaction(async (tx) => {
+        const settlement = await calculateSettlement(withdrawal, tx);
+        sendViaMpesa = Boolean(data.sendViaMpesa) && settlement.netAmount > 0;
+
+        const reserved = settlement.lines
+            .filter(line => line.amount > 0)
+            .map(line => ({ withdrawalId: withdrawal.id, fundId: line.fundId, membershipId: withdrawal.membershipId, amount: -line.amount }));
+        if (reserved.length > 0) {
+            await tx.fundAllocation.createMany({ data: reserved });
+        }
+
+        const processing = await tx.withdrawal.update({
+            where: { id: withdrawal.id },
+            data: {
+                status: 'PROCESSING',
+                grossAmount: settlement.grossAmount,
+                penaltyOffset: settlement.penaltyOffset,
+                loanOffset: settlement.loanOffset,
+                netAmount: settlement.netAmount,
+                paymentMethod: sendViaMpesa ? 'M-PESA' : data.paymentMethod ?? 'CASH',
+            },
+            include: withdrawalInclude,
+        });
+        return sendViaMpesa ? processing : completeWithdrawal(tx, processing, data.mpesaCode ?? null);
+    });
+
+    if (sendViaMpesa) {
+        try {
+            const response = await initiateB2CPayment(withdrawal.membership.user.phone, paid.netAmount!, 'Savings withdrawal');
+            paid = await prisma.withdrawal.update({
+                where: { id: paid.id },
+                data: { mpesaB2CRequestId: response.reference },
+                include: withdrawalInclude,
+            });
+        } catch (error) {
+            await releaseWithdrawal(paid.id);
+            throw new AppError(error instanceof Error ? error.message : 'Failed to initiate M-Pesa B2C payment.', 502);
+        }
+    }
+
+    const { membership, ...oldValue } = withdrawal;
+    await createAuditLog({
+        action: AuditAction.WITHDRAWAL_PAYOUT,
+        actorId,
+        chamaId,
+        targetId: membership.userId,
+        oldValue,
+        newValue: paid,
+        ...logMeta,
+    });
+
+    if (paid.status === 'PAID') {
+        await notifyPaid(paid);
+    }
+
+    logger.info({ chamaId, withdrawalId, netAmount: paid.netAmount, status: paid.status }, 'Withdrawal payout recorded');
+
+    return paid;
+};
+
+/**
+ * Settles a withdrawal sent by M-Pesa B2C once the result or timeout callback arrives. A failed or
+ * timed-out payout returns the reserved balances to the member and can be retried.
+ * @returns The withdrawal, or null when the conversation is not a withdrawal payout.
+ */
+export const settleMpesaWithdrawal = async (conversationId: string, succeeded: boolean, receipt?: string) => {
+    const withdrawal = await prisma.withdrawal.findUnique({ where: { mpesaB2CRequestId: conversationId }, include: { membership: true } });
+    if (!withdrawal) {
+        return null;
+    }
+    if (withdrawal.status !== 'PROCESSING') {
+        logger.warn({ withdrawalId: withdrawal.id, status: withdrawal.status }, 'Withdrawal payout already settled');
+        return withdrawal;
+    }
+
+    const { chamaId } = withdrawal;
+    if (!succeeded) {
+        const failed = await releaseWithdrawal(withdrawal.id);
+        logger.warn({ chamaId, withdrawalId: withdrawal.id }, 'Withdrawal payout failed');
+        return failed;
+    }
+
+    const { membership, ...oldValue } = withdrawal;
+    const paid = await prisma.$transaction(tx => completeWithdrawal(tx, oldValue, receipt ?? null));
+
+    await createAuditLog({
+        action: AuditAction.WITHDRAWAL_PAYOUT,
+        actorId: null,
+        chamaId,
+        targetId: membership.userId,
+        oldValue,
+        newValue: paid,
+    });
+
+    await notifyPaid(paid);
+
+    logger.info({ chamaId, withdrawalId: paid.id, receipt }, 'Withdrawal payout settled');
+
+    return paid;
+};
+
+/**
+ * Lists a chama's withdrawals, newest first.
+ */
+export const findChamaWithdrawals = async (chamaId: string, filters: WithdrawalFilters, page: number, limit: number) => {
+    logger.info({ chamaId, filters, page, limit }, 'Fetching chama withdrawals');
+
+    const where: Prisma.WithdrawalWhereInput = { chamaId, status: filters.status, membershipId: filters.membershipId };
+
+    const withdrawals = await prisma.withdrawal.findMany({
+        where,
+        include: withdrawalInclude,
+        orderBy: { requestedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+    });
+    const totalRecords = await prisma.withdrawal.count({ where });
+
+    return { withdrawals, totalRecords, totalPages: Math.ceil(totalRecords / limit) };
+};
+
+/**
+ * Returns a withdrawal. Until it is paid out, the settlement it would pay as things stand is included,
+ * or the reason it cannot be paid right now.
+ */
+export const getWithdrawal = async (chamaId: string, withdrawalId: string) => {
+    const withdrawal = await prisma.withdrawal.findFirst({ where: { id: withdrawalId, chamaId }, include: withdrawalInclude });
+    if (!withdrawal) {
+        throw new AppError('Withdrawal not found.', 404);
+    }
+    if (!['PENDING', 'APPROVED', 'FAILED'].includes(withdrawal.status)) {
+        return withdrawal;
+    }
+
+    try {
+        return { ...withdrawal, settlement: await calculateSettlement(withdrawal) };
+    } catch (error) {
+        if (error instanceof AppError) {
+            return { ...withdrawal, settlement: null, blockedReason: error.message };
+        }
+        throw error;
+    }
+};
+
+/**
+ * Builds a PDF statement of everything a member has put into and taken out of the chama: fund
+ * balances, contributions, loans and withdrawals. Used as the final statement when a member exits.
+ * Members can only get their own statement; officers can get anyone's.
+ */
+export const generateMemberStatement = async (chamaId: string, membershipId: string, actorId: string): Promise<Buffer> => {
+    const actor = await findActiveMembership(chamaId, actorId);
+    if (actor.id !== membershipId && !OFFICER_ROLES.includes(actor.role)) {
+        throw new AppError('You can only view your own statement.', 403);
+    }
+
+    const membership = await prisma.membership.findFirst({
+        where: { id: membershipId, chamaId },
+        include: { user: { select: { firstName: true, lastName: true, phone: true } }, chama: { select: { name: true } } },
+    });
+    if (!membership) {
+        throw new AppError('Member not found in this chama.', 404);
+    }
+
+    const funds = await getChamaFunds(chamaId);
+    const allocations = await prisma.fundAllocation.findMany({ where: { membershipId } });
+    const contributions = await prisma.contribution.aggregate({ _sum: { amount: true, penaltyApplied: true }, _count: true, where: { membershipId } });
+    const loans = await prisma.loan.findMany({ where: { membershipId }, include: { payments: true }, orderBy: { appliedAt: 'asc' } });
+    const withdrawals = await prisma.withdrawal.findMany({ where: { membershipId }, orderBy: { requestedAt: 'asc' } });
+    const exit = withdrawals.find(w => w.type === 'EXIT' && w.status === 'PAID');
+
+    logger.info({ chamaId, membershipId }, 'Generating member statement');
+
+    return new Promise((resolve) => {
+        const doc = new PDFDocument({ size: 'A4', margin: 50 });
+        const buffers: any[] = [];
+
+        doc.on('data', buffers.push.bind(buffers));
+        doc.on('end', () => resolve(Buffer.concat(buffers)));
+
+        const { firstName, lastName, phone } = membership.user;
+        doc.fontSize(18).text(`${membership.chama.name} Member Statement`, { align: 'center' });
+        doc.moveDown();
+        doc.fontSize(10);
+        doc.text(`Member: ${firstName} ${lastName} (${phone})`);
+        doc.text(`Joined: ${membership.joinedAt.toLocaleDateString()}`);
+        doc.text(exit ? `Exited: ${exit.paidAt!.toLocaleDateString()}` : `Status: ${membership.isActive ? 'Active' : 'Inactive'}`);
+        doc.text(`Generated: ${new Date().toLocaleDateString()}`);
+        doc.moveDown();
+
+        doc.font('Helvetica-Bold').text('Fund | Paid In | Withdrawn | Balance');
+        doc.font('Helvetica');
+        funds.forEach(fund => {
+            const fundAllocations = allocations.filter(a => a.fundId === fund.id);
+            const paidIn = roundAmount(fundAllocations.filter(a => a.amount > 0).reduce((sum, a) => sum + a.amount, 0));
+            const withdrawn = roundAmount(fundAllocations.filter(a => a.amount < 0).reduce((sum, a) => sum - a.amount, 0));
+            doc.text(`${fund.name} | ${paidIn.toFixed(2)} | ${withdrawn.toFixed(2)} | ${roundAmount(paidIn - withdrawn).toFixed(2)}`);
+        });
+        doc.moveDown();
+
+        doc.text(`Contributions: ${contributions._count} totalling KES ${(contributions._sum.amount || 0).toFixed(2)}`);
+        doc.text(`Contribution penalties charged: KES ${(contributions._sum.penaltyApplied || 0).toFixed(2)}`);
+        doc.moveDown();
+
+        doc.font('Helvetica-Bold').text('Loans: Amount | Status | Repaid');
+        doc.font('Helvetica');
+        if (loans.length > 0) {
+            loans.forEach(loan => {
+                const repaid = roundAmount(loan.payments.reduce((sum, p) => sum + p.amount, 0));
+                doc.text(`${loan.amount.toFixed(2)} | ${loan.status} | ${repaid.toFixed(2)}`);
+            });
+        } else {
+            doc.text('No loans.');
+        }
+        doc.moveDown();
+
+        doc.font('Helvetica-Bold').text('Withdrawals: Date | Type | Status | Gross | Penalties | Loans | Net');
+        doc.font('Helvetica');
+        if (withdrawals.length > 0) {
+            withdrawals.forEach(w => {
+                const date = (w.paidAt ?? w.requestedAt).toLocaleDateString();
+                doc.text(`${date} | ${w.type} | ${w.status} | ${(w.grossAmount ?? 0).toFixed(2)} | ${w.penaltyOffset.toFixed(2)} | ${w.loanOffset.toFixed(2)} | ${(w.netAmount ?? 0).toFixed(2)}`);
+            });
+        } else {
+            doc.text('No withdrawals.');
+        }
+
+        doc.end();
+    });
+};
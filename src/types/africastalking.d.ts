@@ -3,4 +3,4 @@
  * It tells TypeScript to treat this module as having the 'any' type,
  * which silences the "Could not find a declaration file" error.
  */
-declare module 'africastalking';
\ No newline at end of file
+declare module 'africastalking';declare module 'africastalking/lib/ussd';
@@ -5,7 +5,7 @@ declare global {
   namespace Express {
     // This interface adds properties directly to the main Request object.
     export interface Request {
-      user?: { id: string };
+      user?: { id: string; sessionId?: string };
       prisma?: PrismaClient;
     }
 
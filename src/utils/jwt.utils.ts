@@ -11,13 +11,16 @@ if (!JWT_SECRET) {
 
 export function generateToken(payload: object): string {
   return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m',
   } as SignOptions);
 }
 
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+// Refresh tokens are marked so that they cannot be used as access tokens, and vice versa.
 export function generateRefreshToken(payload: object): string {
-  return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: '30d',
+  return jwt.sign({ ...payload, type: 'refresh' }, JWT_SECRET, {
+    expiresIn: `${REFRESH_TOKEN_TTL_DAYS}d`,
   } as SignOptions);
 }
 
@@ -27,4 +30,12 @@ export function verifyToken(token: string): JwtPayload | string | null {
   } catch (error) {
     return null;
   }
+}
+
+export function verifyRefreshToken(token: string): JwtPayload | null {
+  const decoded = verifyToken(token);
+  if (!decoded || typeof decoded !== 'object' || decoded.type !== 'refresh') {
+    return null;
+  }
+  return decoded;
 }
\ No newline at end of file
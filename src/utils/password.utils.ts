@@ -0,0 +1,41 @@
+// The rules a new password has to meet, set through the environment.
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  // How many of the user's most recent passwords, counting the current one, cannot be chosen again. 0 allows any.
+  historyCount: number;
+}
+
+const flag = (value: string | undefined, fallback: boolean) => (value === undefined || value === '' ? fallback : value === 'true');
+
+export const passwordPolicy = (): PasswordPolicy => ({
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '8', 10),
+  requireUppercase: flag(process.env.PASSWORD_REQUIRE_UPPERCASE, false),
+  requireLowercase: flag(process.env.PASSWORD_REQUIRE_LOWERCASE, false),
+  requireNumber: flag(process.env.PASSWORD_REQUIRE_NUMBER, true),
+  requireSymbol: flag(process.env.PASSWORD_REQUIRE_SYMBOL, false),
+  historyCount: parseInt(process.env.PASSWORD_HISTORY_COUNT || '5', 10),
+});
+
+/**
+ * Checks a password against the policy.
+ * @returns A sentence naming every rule the password breaks, or null when it meets them all.
+ */
+export const describePasswordProblems = (password: string, policy: PasswordPolicy = passwordPolicy()): string | null => {
+  const problems: string[] = [];
+  if (password.length < policy.minLength) problems.push(`be at least ${policy.minLength} characters long`);
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) problems.push('contain an uppercase letter');
+  if (policy.requireLowercase && !/[a-z]/.test(password)) problems.push('contain a lowercase letter');
+  if (policy.requireNumber && !/\d/.test(password)) problems.push('contain a number');
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) problems.push('contain a symbol');
+
+  if (problems.length === 0) return null;
+  const rules = problems.length === 1
+    ? problems[0]
+    : `${problems.slice(0, -1).join(', ')} and ${problems[problems.length - 1]}`;
+  return `Password must ${rules}.`;
+};
@@ -0,0 +1,96 @@
+import { Chama, ChamaSettings, ContributionFrequency } from '@prisma/client';
+import { addDays, addMonths, differenceInCalendarDays, startOfDay, startOfMonth, subDays } from 'date-fns';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface CalendarRules {
+    frequency: ContributionFrequency;
+    deadlineDay: number;
+    meetingWeekday: number | null;
+    cycleStart: Date;
+}
+
+/**
+ * A contribution period. `endDate` is exclusive; contributions are due by the end of `dueDate`.
+ */
+export interface CalendarPeriod {
+    startDate: Date;
+    endDate: Date;
+    dueDate: Date;
+}
+
+/**
+ * Finds the weekday named in a chama's free-text meeting day (e.g., "Every Saturday" → 6).
+ * @returns The weekday (0 = Sunday) or null when none is named.
+ */
+export const parseMeetingWeekday = (meetingDay: string): number | null => {
+    const text = meetingDay.toLowerCase();
+    const index = WEEKDAYS.findIndex(day => text.includes(day));
+    return index === -1 ? null : index;
+};
+
+export const buildCalendarRules = (
+    chama: Pick<Chama, 'meetingDay' | 'createdAt'>,
+    settings: Pick<ChamaSettings, 'contributionFrequency' | 'contributionDeadlineDay' | 'cycleStartDate'>
+): CalendarRules => ({
+    frequency: settings.contributionFrequency,
+    deadlineDay: settings.contributionDeadlineDay,
+    meetingWeekday: parseMeetingWeekday(chama.meetingDay),
+    cycleStart: settings.cycleStartDate ?? chama.createdAt,
+});
+
+const nextWeekday = (date: Date, weekday: number): Date => addDays(date, (weekday - date.getDay() + 7) % 7);
+
+/**
+ * Works out the period containing a date for calendar-driven frequencies.
+ * - MONTHLY: the calendar month, due on the chama's deadline day.
+ * - WEEKLY: the seven days up to and including the next meeting day.
+ * - BIWEEKLY: fourteen-day blocks ending on every other meeting day, counted from the cycle start.
+ * CUSTOM periods are defined by the chama, so they have no calendar and this returns null.
+ */
+export const getCalendarPeriod = (date: Date, rules: CalendarRules): CalendarPeriod | null => {
+    const day = startOfDay(date);
+
+    switch (rules.frequency) {
+        case ContributionFrequency.MONTHLY: {
+            const startDate = startOfMonth(day);
+            return {
+                startDate,
+                endDate: addMonths(startDate, 1),
+                dueDate: new Date(startDate.getFullYear(), startDate.getMonth(), rules.deadlineDay),
+            };
+        }
+        case ContributionFrequency.WEEKLY:
+        case ContributionFrequency.BIWEEKLY: {
+            if (rules.meetingWeekday === null) {
+                throw new Error('Weekly and bi-weekly contributions require the chama meeting day to name a weekday.');
+            }
+            let dueDate = nextWeekday(day, rules.meetingWeekday);
+            let length = 7;
+            if (rules.frequency === ContributionFrequency.BIWEEKLY) {
+                const firstDueDate = nextWeekday(startOfDay(rules.cycleStart), rules.meetingWeekday);
+                const cycles = Math.ceil(differenceInCalendarDays(day, firstDueDate) / 14);
+                dueDate = addDays(firstDueDate, cycles * 14);
+                length = 14;
+            }
+            return { startDate: subDays(dueDate, length - 1), endDate: addDays(dueDate, 1), dueDate };
+        }
+        default:
+            return null;
+    }
+};
+
+/**
+ * Lists the calendar periods whose due date falls in [from, to).
+ */
+export const listCalendarPeriods = (from: Date, to: Date, rules: CalendarRules): CalendarPeriod[] => {
+    const periods: CalendarPeriod[] = [];
+    let period = getCalendarPeriod(from, rules);
+    while (period && period.dueDate < to) {
+        if (period.dueDate >= from) {
+            periods.push(period);
+        }
+        period = getCalendarPeriod(period.endDate, rules);
+    }
+    return periods;
+};
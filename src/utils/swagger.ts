@@ -150,6 +150,34 @@ const options: swaggerJSDoc.Options = {
             name: "Reports",
             description: "Financial reports, contribution summaries, loan reports, and analytics generation",
         },
+        {
+            name: "Ledger",
+            description: "Double-entry general ledger including the trial balance, journal entries, and ledger rebuilds",
+        },
+        {
+            name: "Merry-Go-Round",
+            description: "Rotating payouts including the payout order, member swaps, and payout recording",
+        },
+        {
+            name: "Expenses",
+            description: "Chama expense requests with receipts and treasurer approval",
+        },
+        {
+            name: "Funds",
+            description: "Share capital, savings and welfare funds, contribution allocation, and member fund balances",
+        },
+        {
+            name: "Withdrawals",
+            description: "Savings withdrawals and member exits, with notice periods, officer approval and final statements",
+        },
+        {
+            name: "Dividends",
+            description: "Annual distribution of interest and penalty income to members, with payouts and statements",
+        },
+        {
+            name: "USSD",
+            description: "USSD menu for members on basic phones, served through Africa's Talking",
+        },
         {
             name: "Audit",
             description: "Audit trail and activity logs for tracking system changes and user actions",
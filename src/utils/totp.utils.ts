@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+
+// Time-based one-time passwords (RFC 6238), as used by Google Authenticator, Authy and similar apps.
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = '';
+  for (const byte of buffer) {
+    bits += byte.toString(2).padStart(8, '0');
+  }
+  let output = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return output;
+};
+
+const base32Decode = (value: string) => {
+  let bits = '';
+  for (const char of value.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character in TOTP secret.');
+    }
+    bits += index.toString(2).padStart(5, '0');
+  }
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generates a random 160-bit secret, base32-encoded as authenticator apps expect.
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * The code for a secret at a given time (HOTP over the 30-second step, RFC 4226).
+ */
+export function generateTotp(secret: string, time: number = Date.now()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(time / 1000 / STEP_SECONDS)));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+/**
+ * The time step a code was generated for, checking the current step and one step either side to
+ * allow for clock drift. Returns null when the code matches none of them.
+ */
+export function findTotpStep(secret: string, code: string, time: number = Date.now()): number | null {
+  const given = Buffer.from(code);
+  const current = Math.floor(time / 1000 / STEP_SECONDS);
+  for (const step of [current - 1, current, current + 1]) {
+    const expected = Buffer.from(generateTotp(secret, step * STEP_SECONDS * 1000));
+    if (given.length === expected.length && crypto.timingSafeEqual(given, expected)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks a code against the current step and one step either side, to allow for clock drift.
+ */
+export function verifyTotp(secret: string, code: string, time: number = Date.now()): boolean {
+  return findTotpStep(secret, code, time) !== null;
+}
+
+/**
+ * The otpauth:// URI an authenticator app reads from a QR code.
+ */
+export function totpUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,34 @@
+import { timingSafeEqual } from 'crypto';
+import { BlockList, isIPv4, isIPv6 } from 'net';
+
+/**
+ * Builds an allowlist from a comma-separated list of addresses and CIDR ranges,
+ * e.g. "196.201.214.0/24,196.201.213.0/24".
+ */
+const buildAllowlist = (value: string) => {
+  const allowlist = new BlockList();
+  for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [address, prefix] = entry.split('/');
+    const type = isIPv6(address) ? 'ipv6' : 'ipv4';
+    if (prefix) {
+      allowlist.addSubnet(address, parseInt(prefix, 10), type);
+    } else {
+      allowlist.addAddress(address, type);
+    }
+  }
+  return allowlist;
+};
+
+export const isAllowedAddress = (ip: string | undefined, allowedIps: string) => {
+  if (!ip) return false;
+  // IPv4 callers show up as IPv4-mapped IPv6 addresses on a dual-stack server.
+  const address = ip.replace(/^::ffff:/, '');
+  return buildAllowlist(allowedIps).check(address, isIPv4(address) ? 'ipv4' : 'ipv6');
+};
+
+export const isValidToken = (token: string | undefined, expected: string) => {
+  if (!token) return false;
+  const given = Buffer.from(token);
+  const secret = Buffer.from(expected);
+  return given.length === secret.length && timingSafeEqual(given, secret);
+};
@@ -2,6 +2,9 @@ import { body } from 'express-validator';
 import { handleValidationErrors } from '../middleware/validation.middleware';
 import { MembershipRole } from '@prisma/client';
 
+const interestMethods = ['FLAT', 'REDUCING_BALANCE', 'AMORTIZED'];
+const penaltyPeriods = ['DAILY', 'MONTHLY'];
+
 export const createChamaValidator = [
   body('name')
     .trim()
@@ -24,6 +27,31 @@ export const createChamaValidator = [
     .notEmpty()
     .withMessage('Meeting day description is required (e.g., "Last Sunday of the month").'),
 
+  body('loanInterestMethod')
+    .optional()
+    .isIn(interestMethods)
+    .withMessage(`Loan interest method must be one of: ${interestMethods.join(', ')}`),
+
+  body('loanGracePeriodDays')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Loan grace period must be a whole number of days, 0 or more.'),
+
+  body('loanPenaltyRate')
+    .optional()
+    .isFloat({ min: 0, max: 1 })
+    .withMessage('Loan penalty rate must be a decimal between 0 and 1 (e.g., 0.02 for 2%).'),
+
+  body('loanPenaltyPeriod')
+    .optional()
+    .isIn(penaltyPeriods)
+    .withMessage(`Loan penalty period must be one of: ${penaltyPeriods.join(', ')}`),
+
+  body('loanDefaultAfter')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Loans must default after at least 1 missed installment.'),
+
   handleValidationErrors,
 ];
 
@@ -52,6 +80,11 @@ export const updateChamaValidator = [
     .notEmpty()
     .withMessage('Meeting day description cannot be empty.'),
 
+  body(['loanInterestMethod', 'loanGracePeriodDays', 'loanPenaltyRate', 'loanPenaltyPeriod', 'loanDefaultAfter'])
+    .not()
+    .exists()
+    .withMessage('Loan rules are chama settings. Change them through PUT /api/chamas/{id}/settings.'),
+
   handleValidationErrors,
 ];
 
@@ -69,4 +102,86 @@ export const updateRoleValidator = [
     .withMessage(`Invalid role specified. Must be one of: ${Object.values(MembershipRole).join(', ')}`),
 
   handleValidationErrors,
-];
\ No newline at end of file
+];
+const contributionFrequencies = ['WEEKLY', 'BIWEEKLY', 'MONTHLY', 'CUSTOM'];
+const penaltyTypes = ['FLAT', 'PERCENTAGE'];
+
+export const updateChamaSettingsValidator = [
+  body('contributionFrequency')
+    .optional()
+    .isIn(contributionFrequencies)
+    .withMessage(`Contribution frequency must be one of: ${contributionFrequencies.join(', ')}`),
+
+  body('contributionDeadlineDay')
+    .optional()
+    .isInt({ min: 1, max: 28 })
+    .withMessage('Contribution deadline day must be a day of the month between 1 and 28.'),
+
+  body('penaltyType')
+    .optional()
+    .isIn(penaltyTypes)
+    .withMessage(`Penalty type must be one of: ${penaltyTypes.join(', ')}`),
+
+  body('penaltyAmount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Penalty amount must be 0 or more.'),
+
+  body('penaltyCap')
+    .optional({ values: 'null' })
+    .isFloat({ gt: 0 })
+    .withMessage('Penalty cap must be a positive number, or null for no cap.'),
+
+  body('loanEligibilityMultiplier')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Loan eligibility multiplier must be a positive number.'),
+
+  body('maxLoanDuration')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Maximum loan duration must be at least 1 month.'),
+
+  body('defaultInterestRate')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Default interest rate must be 0 or more.'),
+
+  body('loanInterestMethod')
+    .optional()
+    .isIn(interestMethods)
+    .withMessage(`Loan interest method must be one of: ${interestMethods.join(', ')}`),
+
+  body('loanGracePeriodDays')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Loan grace period must be a whole number of days, 0 or more.'),
+
+  body('loanPenaltyRate')
+    .optional()
+    .isFloat({ min: 0, max: 1 })
+    .withMessage('Loan penalty rate must be a decimal between 0 and 1 (e.g., 0.02 for 2%).'),
+
+  body('loanPenaltyPeriod')
+    .optional()
+    .isIn(penaltyPeriods)
+    .withMessage(`Loan penalty period must be one of: ${penaltyPeriods.join(', ')}`),
+
+  body('loanDefaultAfter')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Loans must default after at least 1 missed installment.'),
+
+  body('cycleStartDate')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .toDate()
+    .withMessage('Cycle start date must be a valid date, or null to count from the chama creation date.'),
+
+  body('requireStepUp')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('Require step-up must be true or false.'),
+
+  handleValidationErrors,
+];
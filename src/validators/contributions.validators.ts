@@ -1,12 +1,13 @@
-import { body } from "express-validator";
+import { body, query } from "express-validator";
 import { handleValidationErrors } from "../middleware/validation.middleware";
 import { ContributionStatus } from "@prisma/client";
 
 export const recordContributionValidator = [
 body('membershipId').isString().notEmpty().withMessage('Membership ID is required.'),
 body('amount').isFloat({ gt: 0 }).withMessage('Contribution amount must be a positive number.'),
-body('month').isInt({ min: 1, max: 12 }).withMessage('Month must be between 1 and 12.'),
-body('year').isInt({ min: 2020, max: 2100 }).withMessage('Please provide a valid year.'),
+body('periodId').optional().isString().notEmpty().withMessage('Period ID must be a string.'),
+body('month').optional().isInt({ min: 1, max: 12 }).withMessage('Month must be between 1 and 12.'),
+body('year').optional().isInt({ min: 2020, max: 2100 }).withMessage('Please provide a valid year.'),
 body('paymentMethod').notEmpty().withMessage('Payment method is required.'),
 body('paidAt').isISO8601().toDate().withMessage('A valid payment date is required.'),
 handleValidationErrors,
@@ -16,4 +17,15 @@ body('amount').optional().isFloat({ gt: 0 }).withMessage('Contribution amount mu
 body('paymentMethod').optional().notEmpty(),
 body('status').optional().isIn(Object.values(ContributionStatus)),
 handleValidationErrors,
+];
+export const listPeriodsValidator = [
+query('from').optional().isISO8601().withMessage('From must be a valid date.'),
+query('to').optional().isISO8601().withMessage('To must be a valid date.'),
+handleValidationErrors,
+];
+export const createPeriodValidator = [
+body('startDate').isISO8601().toDate().withMessage('A valid start date is required.'),
+body('endDate').isISO8601().toDate().withMessage('A valid end date is required.'),
+body('dueDate').isISO8601().toDate().withMessage('A valid due date is required.'),
+handleValidationErrors,
 ];
\ No newline at end of file
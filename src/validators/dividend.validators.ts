@@ -0,0 +1,20 @@
+import { body, query } from 'express-validator';
+import { handleValidationErrors } from '../middleware/validation.middleware';
+
+export const previewDividendValidator = [
+  body('financialYear').isInt({ min: 2000, max: 2100 }).withMessage('Financial year must be a valid year, e.g. 2025.').toInt(),
+  body('policy')
+    .isIn(['SAVINGS_PROPORTIONAL', 'MONTHS_WEIGHTED', 'EQUAL'])
+    .withMessage('Policy must be one of: SAVINGS_PROPORTIONAL, MONTHS_WEIGHTED, EQUAL'),
+  handleValidationErrors,
+];
+
+export const confirmDividendValidator = [
+  body('payoutMethod').isIn(['CREDIT_SAVINGS', 'MPESA']).withMessage('Payout method must be either CREDIT_SAVINGS or MPESA.'),
+  handleValidationErrors,
+];
+
+export const exportDividendValidator = [
+  query('format').isIn(['pdf', 'excel']).withMessage('Format must be either pdf or excel.'),
+  handleValidationErrors,
+];
@@ -0,0 +1,25 @@
+import { body, query } from 'express-validator';
+import { handleValidationErrors } from '../middleware/validation.middleware';
+
+const expenseCategories = ['VENUE', 'BANK_CHARGES', 'WELFARE', 'TRANSPORT', 'STATIONERY', 'OTHER'];
+const expenseStatuses = ['PENDING', 'APPROVED', 'REJECTED'];
+
+export const requestExpenseValidator = [
+  body('category').isIn(expenseCategories).withMessage(`Category must be one of: ${expenseCategories.join(', ')}`),
+  body('amount').isFloat({ gt: 0 }).withMessage('Expense amount must be a positive number.'),
+  body('description').isString().trim().notEmpty().withMessage('A description of the expense is required.'),
+  body('receiptId').optional().isString().notEmpty().withMessage('Receipt ID must be a string.'),
+  handleValidationErrors,
+];
+
+export const reviewExpenseValidator = [
+  body('status').isIn(['APPROVED', 'REJECTED']).withMessage('Status must be either APPROVED or REJECTED.'),
+  body('reviewNotes').optional().isString().withMessage('Review notes must be a string.'),
+  handleValidationErrors,
+];
+
+export const listExpensesValidator = [
+  query('status').optional().isIn(expenseStatuses).withMessage(`Status must be one of: ${expenseStatuses.join(', ')}`),
+  query('category').optional().isIn(expenseCategories).withMessage(`Category must be one of: ${expenseCategories.join(', ')}`),
+  handleValidationErrors,
+];
@@ -0,0 +1,16 @@
+import { body } from 'express-validator';
+import { handleValidationErrors } from '../middleware/validation.middleware';
+
+const fundTypes = ['SHARE_CAPITAL', 'SAVINGS', 'WELFARE'];
+
+export const saveFundsValidator = [
+  body('funds').isArray({ min: 1 }).withMessage('At least one fund is required.'),
+  body('funds.*.id').optional().isString().notEmpty().withMessage('Fund ID must be a string.'),
+  body('funds.*.name').isString().trim().notEmpty().withMessage('Each fund needs a name.'),
+  body('funds.*.type').isIn(fundTypes).withMessage(`Fund type must be one of: ${fundTypes.join(', ')}`),
+  body('funds.*.allocationRate').isFloat({ min: 0, max: 1 }).withMessage('Allocation rate must be a decimal between 0 and 1 (e.g., 0.25 for 25%).').toFloat(),
+  body('funds.*.isWithdrawable').optional().isBoolean().withMessage('isWithdrawable must be true or false.'),
+  body('funds.*.withdrawalNoticeDays').optional().isInt({ min: 0 }).withMessage('Withdrawal notice must be a whole number of days.').toInt(),
+  body('funds.*.minimumBalance').optional().isFloat({ min: 0 }).withMessage('Minimum balance cannot be negative.').toFloat(),
+  handleValidationErrors,
+];
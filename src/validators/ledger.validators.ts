@@ -0,0 +1,16 @@
+import { query } from 'express-validator';
+import { handleValidationErrors } from '../middleware/validation.middleware';
+
+const journalSourceTypes = ['CONTRIBUTION', 'LOAN_DISBURSEMENT', 'LOAN_REPAYMENT', 'EXPENSE', 'WITHDRAWAL', 'DIVIDEND', 'ROTATION_PAYOUT', 'ADJUSTMENT'];
+
+export const trialBalanceValidator = [
+    query('asOf').optional().isISO8601().withMessage('asOf must be a valid date.'),
+    handleValidationErrors,
+];
+
+export const journalQueryValidator = [
+    query('sourceType').optional().isIn(journalSourceTypes).withMessage(`Source type must be one of: ${journalSourceTypes.join(', ')}`),
+    query('startDate').optional().isISO8601().withMessage('Start date must be a valid date.'),
+    query('endDate').optional().isISO8601().withMessage('End date must be a valid date.'),
+    handleValidationErrors,
+];
@@ -2,17 +2,28 @@ import { body } from "express-validator";
 import { handleValidationErrors } from "../middleware/validation.middleware";
 import { LoanStatus } from "@prisma/client";
 
+const interestMethods = ['FLAT', 'REDUCING_BALANCE', 'AMORTIZED'];
+
 export const applyLoanValidator = [
   body('membershipId').isString().notEmpty().withMessage('Membership ID is required.'),
   body('amount').isFloat({ gt: 0 }).withMessage('Loan amount must be a positive number.'),
   body('duration').isInt({ gt: 0 }).withMessage('Duration must be a positive number of months.'),
   body('purpose').isString().notEmpty().withMessage('Loan purpose is required.'),
-  body('interestRate').isFloat({ min: 0 }).withMessage('Interest rate is required.'),
+  body('interestRate').optional().isFloat({ min: 0 }).withMessage('Interest rate must be 0 or more.'),
+  body('guarantors').optional().isArray().withMessage('Guarantors must be an array.'),
+  body('guarantors.*.membershipId').isString().notEmpty().withMessage('Each guarantor needs a membership ID.'),
+  body('guarantors.*.amount').isFloat({ gt: 0 }).withMessage('Each guarantor pledge must be a positive number.'),
+  handleValidationErrors,
+];
+
+export const guaranteeResponseValidator = [
+  body('status').isIn(['ACCEPTED', 'DECLINED']).withMessage('Status must be either ACCEPTED or DECLINED.'),
   handleValidationErrors,
 ];
 
 export const approveLoanValidator = [
   body('status').isIn([LoanStatus.APPROVED, LoanStatus.REJECTED]).withMessage('Status must be either APPROVED or REJECTED.'),
+  body('interestMethod').optional().isIn(interestMethods).withMessage(`Interest method must be one of: ${interestMethods.join(', ')}`),
   handleValidationErrors,
 ];
 
@@ -25,6 +36,12 @@ export const recordPaymentValidator = [
 export const restructureLoanValidator = [
   body('newInterestRate').optional().isFloat({ min: 0 }),
   body('newDuration').optional().isInt({ gt: 0 }),
+  body('newInterestMethod').optional().isIn(interestMethods).withMessage(`Interest method must be one of: ${interestMethods.join(', ')}`),
   body('notes').isString().notEmpty().withMessage('Restructure notes are required.'),
   handleValidationErrors,
-];
\ No newline at end of file
+];
+
+export const installmentRemindersValidator = [
+  body('daysAhead').optional().isInt({ min: 0, max: 31 }).withMessage('daysAhead must be a whole number of days between 0 and 31.'),
+  handleValidationErrors,
+];
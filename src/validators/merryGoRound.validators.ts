@@ -0,0 +1,30 @@
+import { body } from 'express-validator';
+import { handleValidationErrors } from '../middleware/validation.middleware';
+
+export const saveRotationValidator = [
+  body('order').isIn(['FIXED', 'RANDOM']).withMessage('Order must be either FIXED or RANDOM.'),
+  body('membershipIds')
+    .if(body('order').equals('FIXED'))
+    .isArray({ min: 1 }).withMessage('A fixed rotation needs the members in payout order.'),
+  body('membershipIds').optional().isArray().withMessage('membershipIds must be an array.'),
+  body('membershipIds.*').isString().notEmpty().withMessage('Each membership ID must be a string.'),
+  handleValidationErrors,
+];
+
+export const requestSwapValidator = [
+  body('targetMembershipId').isString().notEmpty().withMessage('The member to swap with is required.'),
+  handleValidationErrors,
+];
+
+export const swapResponseValidator = [
+  body('status').isIn(['ACCEPTED', 'DECLINED']).withMessage('Status must be either ACCEPTED or DECLINED.'),
+  handleValidationErrors,
+];
+
+export const recordPayoutValidator = [
+  body('periodId').optional().isString().notEmpty().withMessage('Period ID must be a string.'),
+  body('paymentMethod').optional().isString().notEmpty().withMessage('Payment method must be a string.'),
+  body('mpesaCode').optional().isString().notEmpty().withMessage('M-Pesa code must be a string.'),
+  body('sendViaMpesa').optional().isBoolean().withMessage('sendViaMpesa must be true or false.'),
+  handleValidationErrors,
+];
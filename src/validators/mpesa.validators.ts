@@ -0,0 +1,33 @@
+import { body, query } from 'express-validator';
+import { handleValidationErrors } from '../middleware/validation.middleware';
+
+export const loanStkPushValidator = [
+  body('loanId').isString().notEmpty().withMessage('A loan ID is required.'),
+  body('phone').matches(/^254\d{9}$/).withMessage('Phone number must be in the format 254XXXXXXXXX.'),
+  body('amount').optional().isInt({ min: 1 }).withMessage('Amount must be a whole number of at least 1.').toInt(),
+  handleValidationErrors,
+];
+
+const requestStatuses = ['PENDING', 'COMPLETED', 'FAILED', 'CANCELLED', 'TIMED_OUT', 'UNMATCHED', 'ASSIGNED'];
+
+export const listMpesaRequestsValidator = [
+  query('status').optional().isIn(requestStatuses).withMessage(`Status must be one of: ${requestStatuses.join(', ')}`),
+  query('channel').optional().isIn(['STK_PUSH', 'C2B']).withMessage('Channel must be one of: STK_PUSH, C2B'),
+  query('membershipId').optional().isString(),
+  handleValidationErrors,
+];
+
+export const assignUnmatchedPaymentValidator = [
+  body('membershipId').isString().notEmpty().withMessage('A membership ID is required.'),
+  handleValidationErrors,
+];
+
+export const resolveStatementLineValidator = [
+  body('action').isIn(['CREATE', 'FIX', 'DISMISS']).withMessage('Action must be one of: CREATE, FIX, DISMISS'),
+  body('type').if(body('action').equals('CREATE')).isIn(['CONTRIBUTION', 'LOAN']).withMessage('Type must be CONTRIBUTION or LOAN'),
+  body('membershipId').if(body('action').equals('CREATE')).isString().notEmpty().withMessage('A membership ID is required.'),
+  body('loanId').optional().isString(),
+  body('note').if(body('action').equals('DISMISS')).isString().notEmpty().withMessage('A note is required to dismiss a line.'),
+  body('note').optional().isString().trim(),
+  handleValidationErrors,
+];
@@ -21,7 +21,8 @@ export const registerValidator = [
   body('idNumber', 'A valid ID number is required').isString().notEmpty(),
   body('phone', 'A valid Kenyan phone number is required (+254... or 07...)')
     .custom(isKenyanPhoneNumber),
-  body('password', 'Password must be at least 6 characters long').isLength({ min: 6 }),
+  // Strength is checked against the configurable password policy when the account is created
+  body('password', 'Password is required').isString().notEmpty(),
 ];
 
 export const loginValidator = [
@@ -29,6 +30,45 @@ export const loginValidator = [
   body('password', 'Password cannot be empty').notEmpty(),
 ];
 
+const phoneRule = () => body('phone', 'A valid Kenyan phone number is required (+254... or 07...)')
+  .isString()
+  .custom(isKenyanPhoneNumber);
+
+export const phoneRegisterValidator = [
+  phoneRule(),
+  body('firstName', 'First name is required').notEmpty().trim().escape(),
+  body('lastName', 'Last name is required').notEmpty().trim().escape(),
+  body('idNumber', 'A valid ID number is required').isString().notEmpty(),
+  body('pin', 'PIN must be 4 to 6 digits').isString().matches(/^\d{4,6}$/),
+];
+
+export const phoneVerifyValidator = [
+  phoneRule(),
+  body('code', 'A verification code is required').isString().trim().notEmpty(),
+];
+
+export const phoneResendValidator = [
+  phoneRule(),
+];
+
+export const pinLoginValidator = [
+  phoneRule(),
+  body('pin', 'PIN cannot be empty').isString().notEmpty(),
+];
+
+export const twoFactorSetupValidator = [
+  body('method', 'Method must be SMS or TOTP').isIn(['SMS', 'TOTP']),
+];
+
+export const twoFactorCodeValidator = [
+  body('code', 'A verification code is required').isString().trim().notEmpty(),
+];
+
+export const twoFactorChallengeValidator = [
+  body('challengeId', 'Challenge ID is required').isString().notEmpty(),
+  ...twoFactorCodeValidator,
+];
+
 export const passwordResetValidator = [
   body('email', 'A valid email is required').isEmail().normalizeEmail(),
 ];
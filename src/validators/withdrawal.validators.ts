@@ -0,0 +1,37 @@
+import { body, query } from 'express-validator';
+import { handleValidationErrors } from '../middleware/validation.middleware';
+
+const withdrawalStatuses = ['PENDING', 'APPROVED', 'REJECTED', 'PROCESSING', 'PAID', 'FAILED'];
+
+export const requestWithdrawalValidator = [
+  body('type').isIn(['PARTIAL', 'EXIT']).withMessage('Type must be either PARTIAL or EXIT.'),
+  body('fundId')
+    .if(body('type').equals('PARTIAL'))
+    .isString().notEmpty().withMessage('A fund ID is required for a partial withdrawal.'),
+  body('amount')
+    .if(body('type').equals('PARTIAL'))
+    .isFloat({ gt: 0 }).withMessage('Withdrawal amount must be a positive number.')
+    .toFloat(),
+  body('reason').optional().isString().withMessage('Reason must be a string.'),
+  body('membershipId').optional().isString().notEmpty().withMessage('Membership ID must be a string.'),
+  handleValidationErrors,
+];
+
+export const reviewWithdrawalValidator = [
+  body('status').isIn(['APPROVED', 'REJECTED']).withMessage('Status must be either APPROVED or REJECTED.'),
+  body('reviewNotes').optional().isString().withMessage('Review notes must be a string.'),
+  handleValidationErrors,
+];
+
+export const payWithdrawalValidator = [
+  body('paymentMethod').optional().isString().notEmpty().withMessage('Payment method must be a string.'),
+  body('mpesaCode').optional().isString().notEmpty().withMessage('M-Pesa code must be a string.'),
+  body('sendViaMpesa').optional().isBoolean().withMessage('sendViaMpesa must be true or false.'),
+  handleValidationErrors,
+];
+
+export const listWithdrawalsValidator = [
+  query('status').optional().isIn(withdrawalStatuses).withMessage(`Status must be one of: ${withdrawalStatuses.join(', ')}`),
+  query('membershipId').optional().isString(),
+  handleValidationErrors,
+];
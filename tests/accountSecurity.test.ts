@@ -0,0 +1,281 @@
+import request from 'supertest';
+import { mockDeep } from 'jest-mock-extended';
+import { PrismaClient, User, UserRole } from '@prisma/client';
+import bcrypt from 'bcrypt';
+
+const prismaMock = mockDeep<PrismaClient>();
+
+jest.mock('@prisma/client', () => {
+    return {
+        __esModule: true,
+        PrismaClient: jest.fn(() => prismaMock),
+        UserRole: {
+            USER: 'USER',
+            ADMIN: 'ADMIN',
+        },
+        MembershipRole: {
+            ADMIN: 'ADMIN',
+            TREASURER: 'TREASURER',
+            SECRETARY: 'SECRETARY',
+            MEMBER: 'MEMBER',
+        },
+        ContributionStatus: {
+            PENDING: 'PENDING',
+            PAID: 'PAID',
+            OVERDUE: 'OVERDUE',
+        },
+        LoanStatus: {
+            PENDING: 'PENDING',
+            APPROVED: 'APPROVED',
+            REJECTED: 'REJECTED',
+            ACTIVE: 'ACTIVE',
+            PAID: 'PAID',
+            DEFAULTED: 'DEFAULTED',
+        },
+        SessionRevocation: {
+            LOGOUT: 'LOGOUT',
+            LOGOUT_ALL: 'LOGOUT_ALL',
+            REVOKED: 'REVOKED',
+            TOKEN_REUSE: 'TOKEN_REUSE',
+            PASSWORD_RESET: 'PASSWORD_RESET',
+        },
+        AuditAction: {
+            LOGIN_SUCCESS: 'LOGIN_SUCCESS',
+            LOGIN_FAILED: 'LOGIN_FAILED',
+            PASSWORD_RESET: 'PASSWORD_RESET',
+            EMAIL_VERIFIED: 'EMAIL_VERIFIED',
+        },
+    };
+});
+
+jest.mock('bcrypt');
+jest.mock('../src/services/audit.service');
+
+jest.mock('../src/services/notification.service', () => ({
+    sendEmail: jest.fn().mockResolvedValue(true),
+    sendSms: jest.fn().mockResolvedValue(true),
+}));
+
+import { app, server } from '../src/server';
+import { sendEmail, sendSms } from '../src/services/notification.service';
+import { createAuditLog } from '../src/services/audit.service';
+import { createSession } from '../src/services/session.service';
+
+// Every request here goes through authRateLimiter, which allows 10 per test file.
+describe('Account Security', () => {
+    afterAll((done) => {
+        server.close(() => {
+            done();
+        });
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        prismaMock.user.findUnique.mockReset();
+        prismaMock.user.update.mockReset();
+        prismaMock.session.findFirst.mockReset();
+        prismaMock.passwordHistory.findMany.mockReset();
+    });
+
+    const user: User = {
+        id: '1',
+        email: 'test@example.com',
+        firstName: 'Test',
+        lastName: 'User',
+        phone: '+254712345678',
+        role: UserRole.USER,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        deletedAt: null,
+        idNumber: '12345678',
+        isEmailVerified: true,
+        emailVerificationToken: null,
+        passwordResetToken: 'reset-token',
+        passwordResetTokenExpires: new Date(Date.now() + 3600000),
+        isPhoneVerified: false,
+        pin: null,
+        failedPinAttempts: 0,
+        pinLockedUntil: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        twoFactorMethod: null,
+        twoFactorSecret: null,
+        failedTwoFactorAttempts: 0,
+        twoFactorLockedUntil: null,
+        lastTotpStep: null,
+        password: 'hashedpassword'
+    };
+
+    const login = (password = 'password123') => request(app)
+        .post('/api/auth/login')
+        .set('User-Agent', 'ChamaApp/2.1 (Android 14)')
+        .send({ email: 'test@example.com', password });
+
+    describe('Login lockout', () => {
+        it('should lock the account after the fifth wrong password in a row', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...user, failedLoginAttempts: 4 });
+            (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+            prismaMock.user.update.mockResolvedValue({ failedLoginAttempts: 5 } as any);
+
+            const res = await login('wrongpassword');
+
+            expect(res.statusCode).toEqual(429);
+            expect(res.body.message).toBe('Too many failed login attempts. Try again in 15 minutes.');
+            expect(prismaMock.user.update).toHaveBeenLastCalledWith({ where: { id: '1' }, data: { lockedUntil: expect.any(Date) } });
+            expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'LOGIN_FAILED', actorId: '1', newValue: { email: 'test@example.com', reason: 'WRONG_PASSWORD' } }));
+        });
+
+        it('should lock the account for twice as long on each wrong password after a lockout', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...user, failedLoginAttempts: 6, lockedUntil: new Date(Date.now() - 1000) });
+            (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+            prismaMock.user.update.mockResolvedValue({ failedLoginAttempts: 7 } as any);
+
+            const res = await login('wrongpassword');
+
+            expect(res.statusCode).toEqual(429);
+            expect(res.body.message).toBe('Too many failed login attempts. Try again in 60 minutes.');
+        });
+
+        it('should refuse even the right password while the account is locked', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...user, failedLoginAttempts: 5, lockedUntil: new Date(Date.now() + 10 * 60 * 1000) });
+            (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+
+            const res = await login();
+
+            expect(res.statusCode).toEqual(429);
+            expect(res.body.message).toBe('Too many failed login attempts. Try again in 10 minutes.');
+            expect(bcrypt.compare).not.toHaveBeenCalled();
+            expect(prismaMock.session.create).not.toHaveBeenCalled();
+            expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'LOGIN_FAILED', actorId: '1', newValue: { email: 'test@example.com', reason: 'ACCOUNT_LOCKED' } }));
+        });
+
+        it('should audit a login for an email address that is not registered', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(null);
+
+            const res = await login();
+
+            expect(res.statusCode).toEqual(401);
+            expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'LOGIN_FAILED', actorId: null, newValue: { email: 'test@example.com', reason: 'UNKNOWN_USER' } }));
+        });
+    });
+
+    describe('New device alerts', () => {
+        it('should clear failed attempts, audit the login and alert the user about a new device', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...user, failedLoginAttempts: 3 });
+            (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+            prismaMock.session.findFirst
+                .mockResolvedValueOnce({ id: 'session-0' } as any)
+                .mockResolvedValueOnce(null);
+            prismaMock.session.create.mockResolvedValue({ id: 'session-1' } as any);
+
+            const res = await login();
+
+            expect(res.statusCode).toEqual(200);
+            expect(prismaMock.user.update).toHaveBeenCalledWith({ where: { id: '1' }, data: { failedLoginAttempts: 0, lockedUntil: null } });
+            expect(prismaMock.session.findFirst).toHaveBeenLastCalledWith({
+                where: { userId: '1', userAgent: 'ChamaApp/2.1 (Android 14)' },
+                select: { id: true },
+            });
+            expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'LOGIN_SUCCESS', actorId: '1', newValue: { sessionId: 'session-1', newDevice: true, secondFactor: false } }));
+            expect(sendEmail).toHaveBeenCalledWith('test@example.com', 'New sign-in to your Chama App account', expect.stringContaining('ChamaApp/2.1 (Android 14)'));
+            expect(sendSms).not.toHaveBeenCalled();
+        });
+
+        it('should escape the device in the alert email', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(user);
+            prismaMock.session.findFirst
+                .mockResolvedValueOnce({ id: 'session-0' } as any)
+                .mockResolvedValueOnce(null);
+            prismaMock.session.create.mockResolvedValue({ id: 'session-1' } as any);
+
+            await createSession('1', { userAgent: '<a href="https://evil.example">Reset your password</a>', ipAddress: '10.0.0.1' });
+
+            const html = (sendEmail as jest.Mock).mock.calls[0][2];
+            expect(html).toContain('Device: &lt;a href=&quot;https://evil.example&quot;&gt;Reset your password&lt;/a&gt;');
+            expect(html).not.toContain('<a href');
+        });
+
+        it('should not alert the user about a device they have signed in from before', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(user);
+            (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+            prismaMock.session.findFirst.mockResolvedValue({ id: 'session-0' } as any);
+            prismaMock.session.create.mockResolvedValue({ id: 'session-1' } as any);
+
+            const res = await login();
+
+            expect(res.statusCode).toEqual(200);
+            expect(prismaMock.user.update).not.toHaveBeenCalled();
+            expect(sendEmail).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Password policy', () => {
+        afterEach(() => {
+            delete process.env.PASSWORD_REQUIRE_UPPERCASE;
+        });
+
+        it('should refuse to register with a password that breaks the policy', async () => {
+            process.env.PASSWORD_REQUIRE_UPPERCASE = 'true';
+            prismaMock.user.findFirst.mockResolvedValue(null);
+
+            const res = await request(app)
+                .post('/api/auth/register')
+                .send({ email: 'new@example.com', password: 'abcdefg', firstName: 'New', lastName: 'User', phone: '0712345679', idNumber: '87654321' });
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.message).toBe('Password must be at least 8 characters long, contain an uppercase letter and contain a number.');
+            expect(prismaMock.user.create).not.toHaveBeenCalled();
+        });
+
+        it('should refuse to reset the password to a recent one', async () => {
+            prismaMock.user.findFirst.mockResolvedValue(user);
+            prismaMock.passwordHistory.findMany.mockResolvedValue([{ password: 'olderhash' }] as any);
+            (bcrypt.compare as jest.Mock).mockImplementation(async (_password: string, hash: string) => hash === 'olderhash');
+
+            const res = await request(app)
+                .post('/api/auth/reset-password')
+                .send({ token: 'reset-token', password: 'password123' });
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.message).toBe('Your new password must be different from your last 5 passwords.');
+            expect(prismaMock.passwordHistory.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: '1' }, take: 4 }));
+            expect(prismaMock.user.update).not.toHaveBeenCalled();
+        });
+
+        it('should reset the password, keep the old one in the history and lift a lockout', async () => {
+            prismaMock.user.findFirst.mockResolvedValue({ ...user, failedLoginAttempts: 5, lockedUntil: new Date(Date.now() + 60000) });
+            prismaMock.passwordHistory.findMany
+                .mockResolvedValueOnce([{ password: 'olderhash' }] as any)
+                .mockResolvedValueOnce([{ id: 'history-5' }] as any);
+            (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+            (bcrypt.genSalt as jest.Mock).mockResolvedValue('salt');
+            (bcrypt.hash as jest.Mock).mockResolvedValue('newhash');
+            prismaMock.user.update.mockResolvedValue({ id: '1', email: 'test@example.com' } as any);
+            prismaMock.session.updateMany.mockResolvedValue({ count: 2 });
+
+            const res = await request(app)
+                .post('/api/auth/reset-password')
+                .send({ token: 'reset-token', password: 'newpassword456' });
+
+            expect(res.statusCode).toEqual(200);
+            expect(prismaMock.user.update).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({ password: 'newhash', failedLoginAttempts: 0, lockedUntil: null }),
+            }));
+            expect(prismaMock.passwordHistory.create).toHaveBeenCalledWith({ data: { userId: '1', password: 'hashedpassword' } });
+            expect(prismaMock.passwordHistory.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['history-5'] } } });
+            expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'PASSWORD_RESET', actorId: '1', targetId: '1' }));
+        });
+    });
+
+    it('should audit email verification', async () => {
+        prismaMock.user.findUnique.mockResolvedValue({ ...user, isEmailVerified: false, emailVerificationToken: 'verify-token' });
+        prismaMock.user.update.mockResolvedValue({ id: '1', email: 'test@example.com', isEmailVerified: true } as any);
+
+        const res = await request(app)
+            .post('/api/auth/verify-email')
+            .send({ token: 'verify-token' });
+
+        expect(res.statusCode).toEqual(200);
+        expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'EMAIL_VERIFIED', actorId: '1', targetId: '1', newValue: { email: 'test@example.com' } }));
+    });
+});
@@ -31,6 +31,19 @@ jest.mock('@prisma/client', () => {
             ACTIVE: 'ACTIVE',
             PAID: 'PAID',
             DEFAULTED: 'DEFAULTED',
+        },
+        SessionRevocation: {
+            LOGOUT: 'LOGOUT',
+            LOGOUT_ALL: 'LOGOUT_ALL',
+            REVOKED: 'REVOKED',
+            TOKEN_REUSE: 'TOKEN_REUSE',
+            PASSWORD_RESET: 'PASSWORD_RESET',
+        },
+        AuditAction: {
+            LOGIN_SUCCESS: 'LOGIN_SUCCESS',
+            LOGIN_FAILED: 'LOGIN_FAILED',
+            PASSWORD_RESET: 'PASSWORD_RESET',
+            EMAIL_VERIFIED: 'EMAIL_VERIFIED',
         }
     };
 });
@@ -43,6 +56,7 @@ jest.mock('../src/services/notification.service', () => ({
 
 import { app, server } from '../src/server';
 import { sendEmail } from '../src/services/notification.service';
+import { generateRefreshToken, generateToken } from '../src/utils/jwt.utils';
 
 const prisma = new PrismaClient() as unknown as DeepMockProxy<PrismaClient>;
 
@@ -78,6 +92,17 @@ describe('Auth Routes', () => {
         emailVerificationToken: 'token123',
         passwordResetToken: null,
         passwordResetTokenExpires: null,
+        isPhoneVerified: false,
+        pin: null,
+        failedPinAttempts: 0,
+        pinLockedUntil: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        twoFactorMethod: null,
+        twoFactorSecret: null,
+        failedTwoFactorAttempts: 0,
+        twoFactorLockedUntil: null,
+        lastTotpStep: null,
         password: 'hashedpassword'
     };
 
@@ -132,15 +157,20 @@ describe('Auth Routes', () => {
                 isEmailVerified: true 
             });
             (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+            prismaMock.session.create.mockResolvedValue({ id: 'session-1' } as any);
 
             const res = await request(app)
                 .post('/api/auth/login')
+                .set('User-Agent', 'ChamaApp/2.1 (Android 14)')
                 .send({
                     email: 'test@example.com',
                     password: 'password123',
                 });
 
             expect(res.statusCode).toEqual(200);
+            expect(prismaMock.session.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ userId: '1', tokenId: expect.any(String), userAgent: 'ChamaApp/2.1 (Android 14)', ipAddress: expect.any(String) }),
+            });
             expect(res.body.success).toBe(true);
             expect(res.body.data).toHaveProperty('accessToken');
             expect(res.body.data).toHaveProperty('refreshToken');
@@ -153,6 +183,7 @@ describe('Auth Routes', () => {
                 isEmailVerified: true 
             });
             (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+            prismaMock.user.update.mockResolvedValue({ failedLoginAttempts: 1 } as any);
 
             const res = await request(app)
                 .post('/api/auth/login')
@@ -164,6 +195,10 @@ describe('Auth Routes', () => {
             expect(res.statusCode).toEqual(401);
             expect(res.body.success).toBe(false);
             expect(res.body.message).toContain('Invalid credentials');
+            expect(prismaMock.user.update).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: '1' },
+                data: { failedLoginAttempts: { increment: 1 } },
+            }));
         });
 
         it('should not login an unverified user', async () => {
@@ -182,4 +217,162 @@ describe('Auth Routes', () => {
             expect(res.body.message).toContain('verify your email');
         });
     });
-});
\ No newline at end of file
+
+    describe('Sessions', () => {
+        const liveSession = {
+            id: 'session-1',
+            userId: '1',
+            tokenId: 'token-1',
+            userAgent: 'ChamaApp/2.1 (Android 14)',
+            ipAddress: '41.90.64.12',
+            createdAt: new Date(),
+            lastUsedAt: new Date(),
+            expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+            revokedAt: null,
+            revokedReason: null,
+            stepUpAt: null,
+        };
+        const accessToken = generateToken({ id: '1', sessionId: 'session-1' });
+
+        beforeEach(() => {
+            prismaMock.user.findUnique.mockResolvedValue({ id: '1' } as any);
+            prismaMock.session.findUnique.mockResolvedValue(liveSession);
+        });
+
+        describe('POST /refresh', () => {
+            it('should rotate the refresh token and issue a new access token', async () => {
+                prismaMock.session.updateMany.mockResolvedValue({ count: 1 });
+
+                const res = await request(app)
+                    .post('/api/auth/refresh')
+                    .send({ refreshToken: generateRefreshToken({ id: '1', sessionId: 'session-1', tokenId: 'token-1' }) });
+
+                expect(res.statusCode).toEqual(200);
+                expect(res.body.data).toHaveProperty('accessToken');
+                expect(res.body.data).toHaveProperty('refreshToken');
+                expect(prismaMock.session.updateMany).toHaveBeenCalledWith({
+                    where: { id: 'session-1', tokenId: 'token-1', revokedAt: null },
+                    data: expect.objectContaining({ tokenId: expect.not.stringMatching(/^token-1$/), lastUsedAt: expect.any(Date) }),
+                });
+            });
+
+            it('should revoke the session when a used refresh token is presented again', async () => {
+                const res = await request(app)
+                    .post('/api/auth/refresh')
+                    .send({ refreshToken: generateRefreshToken({ id: '1', sessionId: 'session-1', tokenId: 'token-0' }) });
+
+                expect(res.statusCode).toEqual(401);
+                expect(res.body.message).toContain('already been used');
+                expect(prismaMock.session.updateMany).not.toHaveBeenCalled();
+                expect(prismaMock.session.update).toHaveBeenCalledWith({
+                    where: { id: 'session-1' },
+                    data: { revokedAt: expect.any(Date), revokedReason: 'TOKEN_REUSE' },
+                });
+            });
+
+            it('should refuse a refresh token from a session that has ended', async () => {
+                prismaMock.session.findUnique.mockResolvedValue({ ...liveSession, revokedAt: new Date(), revokedReason: 'LOGOUT' } as any);
+
+                const res = await request(app)
+                    .post('/api/auth/refresh')
+                    .send({ refreshToken: generateRefreshToken({ id: '1', sessionId: 'session-1', tokenId: 'token-1' }) });
+
+                expect(res.statusCode).toEqual(401);
+                expect(res.body.message).toContain('session has ended');
+            });
+
+            it('should not accept an access token as a refresh token', async () => {
+                const res = await request(app)
+                    .post('/api/auth/refresh')
+                    .send({ refreshToken: accessToken });
+
+                expect(res.statusCode).toEqual(401);
+                expect(prismaMock.session.findUnique).not.toHaveBeenCalled();
+            });
+        });
+
+        it('should not accept a refresh token as an access token', async () => {
+            const res = await request(app)
+                .get('/api/auth/sessions')
+                .set('Authorization', `Bearer ${generateRefreshToken({ id: '1', sessionId: 'session-1', tokenId: 'token-1' })}`);
+
+            expect(res.statusCode).toEqual(401);
+        });
+
+        it('should refuse a token that does not belong to a session', async () => {
+            const res = await request(app)
+                .get('/api/auth/sessions')
+                .set('Authorization', `Bearer ${generateToken({ id: '1' })}`);
+
+            expect(res.statusCode).toEqual(401);
+            expect(prismaMock.user.findUnique).not.toHaveBeenCalled();
+        });
+
+        it('should refuse an access token from a revoked session', async () => {
+            prismaMock.session.findUnique.mockResolvedValue({ ...liveSession, revokedAt: new Date(), revokedReason: 'LOGOUT' } as any);
+
+            const res = await request(app)
+                .get('/api/auth/sessions')
+                .set('Authorization', `Bearer ${accessToken}`);
+
+            expect(res.statusCode).toEqual(401);
+            expect(res.body.message).toContain('session has ended');
+        });
+
+        it('should list live sessions and mark the current one', async () => {
+            prismaMock.session.findMany.mockResolvedValue([liveSession, { ...liveSession, id: 'session-2', userAgent: 'Mozilla/5.0' }]);
+
+            const res = await request(app)
+                .get('/api/auth/sessions')
+                .set('Authorization', `Bearer ${accessToken}`);
+
+            expect(res.statusCode).toEqual(200);
+            expect(res.body.data.map((session: any) => [session.id, session.current])).toEqual([['session-1', true], ['session-2', false]]);
+            expect(prismaMock.session.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: { userId: '1', revokedAt: null, expiresAt: { gt: expect.any(Date) } },
+            }));
+        });
+
+        it('should end the current session on logout', async () => {
+            prismaMock.session.updateMany.mockResolvedValue({ count: 1 });
+
+            const res = await request(app)
+                .post('/api/auth/logout')
+                .set('Authorization', `Bearer ${accessToken}`);
+
+            expect(res.statusCode).toEqual(200);
+            expect(prismaMock.session.updateMany).toHaveBeenCalledWith({
+                where: { id: 'session-1', userId: '1', revokedAt: null },
+                data: { revokedAt: expect.any(Date), revokedReason: 'LOGOUT' },
+            });
+        });
+
+        it('should end every session on logout-all', async () => {
+            prismaMock.session.updateMany.mockResolvedValue({ count: 3 });
+
+            const res = await request(app)
+                .post('/api/auth/logout-all')
+                .set('Authorization', `Bearer ${accessToken}`);
+
+            expect(res.statusCode).toEqual(200);
+            expect(res.body.data.count).toBe(3);
+            expect(prismaMock.session.updateMany).toHaveBeenCalledWith({
+                where: { userId: '1', revokedAt: null },
+                data: { revokedAt: expect.any(Date), revokedReason: 'LOGOUT_ALL' },
+            });
+        });
+
+        it('should not revoke a session that belongs to someone else', async () => {
+            prismaMock.session.updateMany.mockResolvedValue({ count: 0 });
+
+            const res = await request(app)
+                .delete('/api/auth/sessions/session-9')
+                .set('Authorization', `Bearer ${accessToken}`);
+
+            expect(res.statusCode).toEqual(404);
+            expect(prismaMock.session.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: 'session-9', userId: '1', revokedAt: null },
+            }));
+        });
+    });
+});
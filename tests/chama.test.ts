@@ -27,9 +27,19 @@ const prismaMock = {
   },
   loan: {
     aggregate: jest.fn(),
+    count: jest.fn(),
+  },
+  fundAllocation: {
+    aggregate: jest.fn(),
   },
   chamaInvitation: {
     create: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  chamaSettings: {
+    upsert: jest.fn(),
+    update: jest.fn(),
   },
   $transaction: jest.fn().mockImplementation((callback) => callback(prismaMock)),
 };
@@ -46,7 +56,23 @@ jest.mock('@prisma/client', () => ({
     CHAMA_MEMBER_ADD: 'CHAMA_MEMBER_ADD',
     CHAMA_MEMBER_REMOVE: 'CHAMA_MEMBER_REMOVE',
     CHAMA_MEMBER_ROLE_UPDATE: 'CHAMA_MEMBER_ROLE_UPDATE',
-  }
+  },
+  InvitationStatus: {
+    PENDING: 'PENDING',
+    ACCEPTED: 'ACCEPTED',
+    DECLINED: 'DECLINED',
+    REVOKED: 'REVOKED',
+  },
+  ContributionPenaltyType: {
+    FLAT: 'FLAT',
+    PERCENTAGE: 'PERCENTAGE',
+  },
+  ContributionFrequency: {
+    WEEKLY: 'WEEKLY',
+    BIWEEKLY: 'BIWEEKLY',
+    MONTHLY: 'MONTHLY',
+    CUSTOM: 'CUSTOM',
+  },
 }));
 
 // Mock JWT utils
@@ -63,6 +89,11 @@ jest.mock('../src/services/audit.service', () => ({
 // Mock chama service
 jest.mock('../src/services/chama.service');
 
+// Mock notification service, which needs Africa's Talking credentials to load
+jest.mock('../src/services/notification.service', () => ({
+  sendChamaInvitationEmail: jest.fn(),
+}));
+
 // Mock Cloudinary upload
 jest.mock('../src/config/cloudinary.config', () => ({
   uploadToCloudinary: jest.fn().mockResolvedValue({ secure_url: 'http://example.com/file.pdf' }),
@@ -82,8 +113,14 @@ jest.mock('../src/middleware/membership.middleware', () => ({
     },
 }));
 
+jest.mock('../src/middleware/stepUp.middleware', () => ({
+    requireStepUp: () => (req: Request, res: Response, next: NextFunction) => next(),
+}));
+
 import chamaRoutes from '../src/routes/chama.routes';
 import { errorHandler } from '../src/middleware/error.middleware';
+import { AppError } from '../src/utils/customErrors';
+import { createAuditLog } from '../src/services/audit.service';
 
 
 interface AuthenticatedRequest extends Request {
@@ -260,6 +297,28 @@ describe('Chama Module Tests', () => {
       expect(mockResponse.status).toHaveBeenCalledWith(200);
       expect(responseJson).toHaveBeenCalledWith({ data: dashboardData });
     });
+
+    it('acceptInvitation should create the membership and return 201', async () => {
+      mockRequest.params = { code: 'invite-code' };
+      const membership = { id: 'mem3', chamaId: 'chama1', role: 'MEMBER' };
+      chamaService.acceptInvitation.mockResolvedValue(membership as any);
+
+      await chamaController.acceptInvitation(mockRequest as Request, mockResponse as Response);
+
+      expect(chamaService.acceptInvitation).toHaveBeenCalledWith('invite-code', '1');
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(responseJson).toHaveBeenCalledWith(expect.objectContaining({ data: membership }));
+    });
+
+    it('acceptInvitation should surface the status code of an expired invitation', async () => {
+      mockRequest.params = { code: 'old-code' };
+      chamaService.acceptInvitation.mockRejectedValue(new AppError('This invitation has expired. Please ask the chama admin to resend it.', 410));
+
+      await chamaController.acceptInvitation(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(410);
+      expect(responseJson).toHaveBeenCalledWith({ message: expect.stringContaining('expired') });
+    });
   });
 
   //--------------------------------------------------------------------------
@@ -338,6 +397,72 @@ describe('Chama Module Tests', () => {
       expect(response.body.data).toEqual(updatedChama);
     });
 
+    it('GET /:id/settings - should return the chama settings', async () => {
+      const settings = { chamaId: 'chama1', contributionDeadlineDay: 15, penaltyType: 'PERCENTAGE', penaltyAmount: 0.05 };
+      chamaService.getChamaSettings.mockResolvedValue(settings as any);
+
+      const response = await request(app)
+        .get('/chama1/settings')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(settings);
+    });
+
+    it('PUT /:id/settings - should update only the settings sent', async () => {
+      chamaService.updateChamaSettings.mockResolvedValue({ chamaId: 'chama1', penaltyType: 'FLAT', penaltyAmount: 200 } as any);
+
+      const response = await request(app)
+        .put('/chama1/settings')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ penaltyType: 'FLAT', penaltyAmount: 200, penaltyCap: null });
+
+      expect(response.status).toBe(200);
+      expect(chamaService.updateChamaSettings).toHaveBeenCalledWith('chama1', 'cluser123', expect.objectContaining({
+        penaltyType: 'FLAT',
+        penaltyAmount: 200,
+        penaltyCap: null,
+        maxLoanDuration: undefined,
+      }));
+    });
+
+    it('PUT /:id/settings - should update the loan rules', async () => {
+      chamaService.updateChamaSettings.mockResolvedValue({ chamaId: 'chama1', loanPenaltyRate: 0.02, loanDefaultAfter: 2 } as any);
+
+      const response = await request(app)
+        .put('/chama1/settings')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ loanPenaltyRate: 0.02, loanPenaltyPeriod: 'DAILY', loanDefaultAfter: 2 });
+
+      expect(response.status).toBe(200);
+      expect(chamaService.updateChamaSettings).toHaveBeenCalledWith('chama1', 'cluser123', expect.objectContaining({
+        loanPenaltyRate: 0.02,
+        loanPenaltyPeriod: 'DAILY',
+        loanDefaultAfter: 2,
+        loanInterestMethod: undefined,
+      }));
+    });
+
+    it('PUT /:id - should refuse to change the loan rules outside the settings', async () => {
+      const response = await request(app)
+        .put('/chama1')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ loanPenaltyRate: 0.5 });
+
+      expect(response.status).toBe(400);
+      expect(chamaService.updateChamaDetails).not.toHaveBeenCalled();
+    });
+
+    it('PUT /:id/settings - should reject a deadline day that does not exist in every month', async () => {
+      const response = await request(app)
+        .put('/chama1/settings')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ contributionDeadlineDay: 31 });
+
+      expect(response.status).toBe(400);
+      expect(chamaService.updateChamaSettings).not.toHaveBeenCalled();
+    });
+
     it('DELETE /:id - should delete a chama', async () => {
       chamaService.deleteChamaById.mockResolvedValue({} as any);
 
@@ -404,5 +529,243 @@ describe('Chama Module Tests', () => {
       expect(response.status).toBe(200);
       expect(response.body.data).toEqual(dashboardData);
     });
+    it('POST /:id/invitations - should create an invitation', async () => {
+      const invitation = { id: 'inv1', code: 'abc', email: 'invitee@example.com', status: 'PENDING' };
+      chamaService.createMemberInvitation.mockResolvedValue(invitation as any);
+
+      const response = await request(app)
+        .post('/chama1/invitations')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ email: 'invitee@example.com' });
+
+      expect(response.status).toBe(201);
+      expect(chamaService.createMemberInvitation).toHaveBeenCalledWith('chama1', 'invitee@example.com', userId);
+      expect(response.body.data).toEqual(invitation);
+    });
+
+    it('GET /:id/invitations - should list pending invitations', async () => {
+      const invitations = [{ id: 'inv1', email: 'invitee@example.com', status: 'PENDING' }];
+      chamaService.findPendingInvitations.mockResolvedValue(invitations as any);
+
+      const response = await request(app)
+        .get('/chama1/invitations')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(invitations);
+    });
+
+    it('POST /invitations/:code/accept - should reject a reused code with 409', async () => {
+      chamaService.acceptInvitation.mockRejectedValue(new AppError('This invitation has already been accepted.', 409));
+
+      const response = await request(app)
+        .post('/invitations/used-code/accept')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(409);
+      expect(response.body.message).toContain('already been accepted');
+    });
+
+    it('DELETE /:id/invitations/:invitationId - should revoke an invitation', async () => {
+      chamaService.revokeInvitation.mockResolvedValue({} as any);
+
+      const response = await request(app)
+        .delete('/chama1/invitations/inv1')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(chamaService.revokeInvitation).toHaveBeenCalledWith('chama1', 'inv1', userId);
+    });
+  });
+
+  //--------------------------------------------------------------------------
+  // Invitation Service Tests
+  //--------------------------------------------------------------------------
+  describe('Invitation Service', () => {
+    const actualService = jest.requireActual('../src/services/chama.service') as typeof import('../src/services/chama.service');
+    const pendingInvitation = {
+      id: 'inv1',
+      code: 'invite-code',
+      chamaId: 'chama1',
+      email: 'invitee@example.com',
+      status: 'PENDING',
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    };
+
+    beforeEach(() => {
+      prismaMock.user.findUnique.mockResolvedValue({ id: 'user3', email: 'Invitee@example.com' });
+      prismaMock.membership.findUnique.mockResolvedValue(null);
+      prismaMock.chamaInvitation.updateMany.mockResolvedValue({ count: 1 });
+      prismaMock.membership.create.mockResolvedValue({ id: 'mem3', userId: 'user3', chamaId: 'chama1', role: 'MEMBER' });
+      prismaMock.chama.update.mockResolvedValue({});
+      prismaMock.$transaction.mockImplementation((callback: any) => callback(prismaMock));
+    });
+
+    it('acceptInvitation should create a membership, bump totalMembers and audit the join', async () => {
+      prismaMock.chamaInvitation.findUnique.mockResolvedValue(pendingInvitation);
+
+      const membership = await actualService.acceptInvitation('invite-code', 'user3');
+
+      expect(membership.id).toBe('mem3');
+      expect(prismaMock.chama.update).toHaveBeenCalledWith({
+        where: { id: 'chama1' },
+        data: { totalMembers: { increment: 1 } },
+      });
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'CHAMA_MEMBER_ADD',
+        actorId: 'user3',
+        chamaId: 'chama1',
+      }));
+    });
+
+    it('acceptInvitation should reactivate the membership of a member who left', async () => {
+      prismaMock.chamaInvitation.findUnique.mockResolvedValue(pendingInvitation);
+      prismaMock.membership.findUnique.mockResolvedValue({ id: 'mem3', userId: 'user3', chamaId: 'chama1', role: 'TREASURER', isActive: false });
+      prismaMock.membership.update.mockResolvedValue({ id: 'mem3', userId: 'user3', chamaId: 'chama1', role: 'MEMBER', isActive: true });
+
+      const membership = await actualService.acceptInvitation('invite-code', 'user3');
+
+      expect(membership.id).toBe('mem3');
+      expect(prismaMock.membership.create).not.toHaveBeenCalled();
+      expect(prismaMock.membership.update).toHaveBeenCalledWith({
+        where: { id: 'mem3' },
+        data: { isActive: true, role: 'MEMBER', joinedAt: expect.any(Date) },
+      });
+    });
+
+    it('acceptInvitation should reject an expired code', async () => {
+      prismaMock.chamaInvitation.findUnique.mockResolvedValue({ ...pendingInvitation, expiresAt: new Date(Date.now() - 1000) });
+
+      await expect(actualService.acceptInvitation('invite-code', 'user3')).rejects.toMatchObject({ statusCode: 410 });
+      expect(prismaMock.membership.create).not.toHaveBeenCalled();
+    });
+
+    it('acceptInvitation should reject a code that has already been accepted', async () => {
+      prismaMock.chamaInvitation.findUnique.mockResolvedValue({ ...pendingInvitation, status: 'ACCEPTED' });
+
+      await expect(actualService.acceptInvitation('invite-code', 'user3')).rejects.toMatchObject({ statusCode: 409 });
+      expect(prismaMock.membership.create).not.toHaveBeenCalled();
+    });
+
+    it('acceptInvitation should reject a user whose email does not match the invitation', async () => {
+      prismaMock.chamaInvitation.findUnique.mockResolvedValue(pendingInvitation);
+      prismaMock.user.findUnique.mockResolvedValue({ id: 'user4', email: 'someone.else@example.com' });
+
+      await expect(actualService.acceptInvitation('invite-code', 'user4')).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
+  //--------------------------------------------------------------------------
+  // Member Removal Service Tests
+  //--------------------------------------------------------------------------
+  describe('Member Removal Service', () => {
+    const actualService = jest.requireActual('../src/services/chama.service') as typeof import('../src/services/chama.service');
+    const activeMembership = { id: 'mem2', userId: 'user2', chamaId: 'chama1', role: 'MEMBER', isActive: true };
+
+    beforeEach(() => {
+      prismaMock.membership.findUnique.mockResolvedValue(activeMembership);
+      prismaMock.fundAllocation.aggregate.mockResolvedValue({ _sum: { amount: null } });
+      prismaMock.loan.count.mockResolvedValue(0);
+      prismaMock.membership.update.mockResolvedValue({ ...activeMembership, isActive: false });
+      prismaMock.chama.update.mockResolvedValue({});
+      prismaMock.$transaction.mockImplementation((callback: any) => callback(prismaMock));
+    });
+
+    it('removeMemberFromChama should deactivate the membership instead of deleting it', async () => {
+      const membership = await actualService.removeMemberFromChama('chama1', 'user1', 'user2');
+
+      expect(membership.isActive).toBe(false);
+      expect(prismaMock.membership.delete).not.toHaveBeenCalled();
+      expect(prismaMock.membership.update).toHaveBeenCalledWith({ where: { id: 'mem2' }, data: { isActive: false } });
+      expect(prismaMock.chama.update).toHaveBeenCalledWith({ where: { id: 'chama1' }, data: { totalMembers: { decrement: 1 } } });
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'CHAMA_MEMBER_REMOVE', targetId: 'user2' }));
+    });
+
+    it('removeMemberFromChama should refuse a member who still has savings', async () => {
+      prismaMock.fundAllocation.aggregate.mockResolvedValue({ _sum: { amount: 4000 } });
+
+      await expect(actualService.removeMemberFromChama('chama1', 'user1', 'user2')).rejects.toMatchObject({ statusCode: 409 });
+      expect(prismaMock.membership.update).not.toHaveBeenCalled();
+    });
+
+    it('removeMemberFromChama should refuse a member with a loan in progress', async () => {
+      prismaMock.loan.count.mockResolvedValue(1);
+
+      await expect(actualService.removeMemberFromChama('chama1', 'user1', 'user2')).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('removeMemberFromChama should treat a member who already left as not found', async () => {
+      prismaMock.membership.findUnique.mockResolvedValue({ ...activeMembership, isActive: false });
+
+      await expect(actualService.removeMemberFromChama('chama1', 'user1', 'user2')).rejects.toThrow('Membership not found.');
+    });
+  });
+
+  //--------------------------------------------------------------------------
+  // Settings Service Tests
+  //--------------------------------------------------------------------------
+  describe('Settings Service', () => {
+    const actualService = jest.requireActual('../src/services/chama.service') as typeof import('../src/services/chama.service');
+    const currentSettings = { id: 'set1', chamaId: 'chama1', contributionFrequency: 'MONTHLY', penaltyType: 'PERCENTAGE', penaltyAmount: 0.05, penaltyCap: null, maxLoanDuration: 24 };
+
+    beforeEach(() => {
+      prismaMock.chamaSettings.upsert.mockResolvedValue(currentSettings);
+    });
+
+    it('getChamaSettings should create the defaults for a chama without settings', async () => {
+      await actualService.getChamaSettings('chama1');
+
+      expect(prismaMock.chamaSettings.upsert).toHaveBeenCalledWith({
+        where: { chamaId: 'chama1' },
+        update: {},
+        create: { chamaId: 'chama1' },
+      });
+    });
+
+    it('updateChamaSettings should save the change and audit old and new values', async () => {
+      const updated = { ...currentSettings, maxLoanDuration: 12 };
+      prismaMock.chamaSettings.update.mockResolvedValue(updated);
+
+      const result = await actualService.updateChamaSettings('chama1', 'user1', { maxLoanDuration: 12 });
+
+      expect(result).toEqual(updated);
+      expect(prismaMock.chamaSettings.update).toHaveBeenCalledWith({ where: { chamaId: 'chama1' }, data: { maxLoanDuration: 12 } });
+      expect(createAuditLog).toHaveBeenCalledWith({
+        actorId: 'user1',
+        chamaId: 'chama1',
+        action: 'CHAMA_UPDATE',
+        oldValue: { settings: currentSettings },
+        newValue: { settings: updated },
+      });
+    });
+
+    it('updateChamaSettings should reject a percentage penalty above 100%', async () => {
+      await expect(actualService.updateChamaSettings('chama1', 'user1', { penaltyAmount: 5 })).rejects.toMatchObject({ statusCode: 400 });
+      expect(prismaMock.chamaSettings.update).not.toHaveBeenCalled();
+    });
+
+    it('updateChamaSettings should allow a flat penalty above 1', async () => {
+      prismaMock.chamaSettings.update.mockResolvedValue({ ...currentSettings, penaltyType: 'FLAT', penaltyAmount: 200 });
+
+      await actualService.updateChamaSettings('chama1', 'user1', { penaltyType: 'FLAT', penaltyAmount: 200 });
+
+      expect(prismaMock.chamaSettings.update).toHaveBeenCalled();
+    });
+
+    it('updateChamaSettings should switch to weekly contributions when the meeting day names a weekday', async () => {
+      prismaMock.chama.findUnique.mockResolvedValue({ meetingDay: 'Every Saturday' });
+      prismaMock.chamaSettings.update.mockResolvedValue({ ...currentSettings, contributionFrequency: 'WEEKLY' });
+
+      await actualService.updateChamaSettings('chama1', 'user1', { contributionFrequency: 'WEEKLY' });
+
+      expect(prismaMock.chamaSettings.update).toHaveBeenCalledWith({ where: { chamaId: 'chama1' }, data: { contributionFrequency: 'WEEKLY' } });
+    });
+
+    it('updateChamaSettings should reject weekly contributions when the meeting day names no weekday', async () => {
+      prismaMock.chama.findUnique.mockResolvedValue({ meetingDay: 'End of the month' });
+
+      await expect(actualService.updateChamaSettings('chama1', 'user1', { contributionFrequency: 'BIWEEKLY' })).rejects.toMatchObject({ statusCode: 400 });
+      expect(prismaMock.chamaSettings.update).not.toHaveBeenCalled();
+    });
   });
-});
\ No newline at end of file
+});
@@ -6,6 +6,7 @@ const prismaMock = {
     contribution: {
       create: jest.fn(),
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       findMany: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
@@ -20,6 +21,13 @@ const prismaMock = {
     chama:{
         findUnique: jest.fn(),
     },
+    chamaSettings: {
+      upsert: jest.fn(),
+    },
+    contributionPayment: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+    },
     $transaction: jest.fn().mockImplementation((callback) => callback(prismaMock)),
   };
   
@@ -33,6 +41,7 @@ const prismaMock = {
     },
     ContributionStatus: {
         PAID: 'PAID',
+        PARTIALLY_PAID: 'PARTIALLY_PAID',
         PENDING: 'PENDING',
     },
     AuditAction: {
@@ -40,6 +49,16 @@ const prismaMock = {
       CONTRIBUTION_UPDATE: 'CONTRIBUTION_UPDATE',
       CONTRIBUTION_DELETE: 'CONTRIBUTION_DELETE',
     },
+    ContributionPenaltyType: {
+      FLAT: 'FLAT',
+      PERCENTAGE: 'PERCENTAGE',
+    },
+    ContributionFrequency: {
+      WEEKLY: 'WEEKLY',
+      BIWEEKLY: 'BIWEEKLY',
+      MONTHLY: 'MONTHLY',
+      CUSTOM: 'CUSTOM',
+    },
   }));
 
 // Mock services
@@ -47,6 +66,13 @@ jest.mock('../src/services/audit.service', () => ({
     createAuditLog: jest.fn(),
 }));
 jest.mock('../src/services/contribution.service');
+jest.mock('../src/services/contributionPeriod.service');
+jest.mock('../src/services/ledger.service');
+jest.mock('../src/services/fund.service');
+// Loaded through the chama service; the real module needs Africa's Talking credentials.
+jest.mock('../src/services/notification.service', () => ({
+    sendChamaInvitationEmail: jest.fn(),
+}));
 
 // Mock middlewares
 jest.mock('../src/middleware/auth.middleware', () => ({
@@ -64,6 +90,10 @@ jest.mock('../src/middleware/membership.middleware', () => ({
 
 import * as contributionController from '../src/controllers/contribution.controller';
 import * as contributionService from '../src/services/contribution.service';
+import * as contributionPeriodService from '../src/services/contributionPeriod.service';
+import { postContributionAdjustment, postContributionCarryForward, postContributionReceipt, reverseSourceEntries } from '../src/services/ledger.service';
+import { allocateContribution } from '../src/services/fund.service';
+import { CalendarRules, getCalendarPeriod, listCalendarPeriods, parseMeetingWeekday } from '../src/utils/period.utils';
 import contributionRoutes from '../src/routes/contribution.routes';
 import { errorHandler } from '../src/middleware/error.middleware';
 
@@ -76,6 +106,7 @@ interface AuthenticatedRequest extends Request {
 describe('Contribution Module Tests', () => {
     let app: Express;
     let mockContributionService: jest.Mocked<typeof contributionService>;
+    let mockContributionPeriodService: jest.Mocked<typeof contributionPeriodService>;
 
     beforeAll(() => {
         app = express();
@@ -83,6 +114,7 @@ describe('Contribution Module Tests', () => {
         app.use('/', contributionRoutes);
         app.use(errorHandler);
         mockContributionService = contributionService as jest.Mocked<typeof contributionService>;
+        mockContributionPeriodService = contributionPeriodService as jest.Mocked<typeof contributionPeriodService>;
       });
   
     afterEach(() => {
@@ -348,5 +380,317 @@ describe('Contribution Module Tests', () => {
             expect(response.header['content-type']).toContain('text/csv');
             expect(response.text).toBe('a,b,c');
         });
+
+        it('GET /periods/:chamaId - should list contribution periods', async () => {
+            const periods = [{ id: 'period1', frequency: 'WEEKLY' }];
+            mockContributionPeriodService.listPeriods.mockResolvedValue(periods as any);
+
+            const response = await request(app)
+                .get('/periods/chama1?from=2025-01-01&to=2025-02-01');
+
+            expect(response.status).toBe(200);
+            expect(response.body.data).toEqual(periods);
+            expect(mockContributionPeriodService.listPeriods).toHaveBeenCalledWith('chama1', new Date('2025-01-01'), new Date('2025-02-01'));
+        });
+
+        it('POST /periods/:chamaId - should create a custom period', async () => {
+            const period = { id: 'period1', frequency: 'CUSTOM' };
+            mockContributionPeriodService.createCustomPeriod.mockResolvedValue(period as any);
+
+            const response = await request(app)
+                .post('/periods/chama1')
+                .send({ startDate: '2025-03-01', endDate: '2025-04-15', dueDate: '2025-04-10' });
+
+            expect(response.status).toBe(201);
+            expect(mockContributionPeriodService.createCustomPeriod).toHaveBeenCalledWith('chama1', 'user1', {
+                startDate: new Date('2025-03-01'),
+                endDate: new Date('2025-04-15'),
+                dueDate: new Date('2025-04-10'),
+            });
+        });
+
+        it('POST /periods/:chamaId - should return 400 when the chama does not use custom periods', async () => {
+            mockContributionPeriodService.createCustomPeriod.mockRejectedValue(new Error('Custom periods can only be created when the contribution frequency is CUSTOM.'));
+
+            const response = await request(app)
+                .post('/periods/chama1')
+                .send({ startDate: '2025-03-01', endDate: '2025-04-15', dueDate: '2025-04-10' });
+
+            expect(response.status).toBe(400);
+        });
+
+        it('POST /periods/:chamaId - should reject a missing due date', async () => {
+            const response = await request(app)
+                .post('/periods/chama1')
+                .send({ startDate: '2025-03-01', endDate: '2025-04-15' });
+
+            expect(response.status).toBe(400);
+            expect(mockContributionPeriodService.createCustomPeriod).not.toHaveBeenCalled();
+        });
+    });
+
+    //--------------------------------------------------------------------------
+    // Penalty Calculation Tests
+    //--------------------------------------------------------------------------
+    describe('calculatePenalty', () => {
+        const { calculatePenalty } = jest.requireActual('../src/services/contribution.service') as typeof contributionService;
+        const settings = { penaltyType: 'PERCENTAGE' as const, penaltyAmount: 0.1, penaltyCap: null };
+        const dueDate = new Date(2025, 2, 10);
+        const contribution = (paidAt: string) => ({
+            paidAt: new Date(paidAt),
+            status: 'PAID' as const,
+        });
+
+        it('should not penalize a contribution paid before the due date', () => {
+            expect(calculatePenalty(contribution('2025-03-09T12:00:00'), 5000, dueDate, settings)).toBe(0);
+        });
+
+        it('should not penalize a contribution paid during the due date', () => {
+            expect(calculatePenalty(contribution('2025-03-10T23:30:00'), 5000, dueDate, settings)).toBe(0);
+        });
+
+        it('should charge a percentage of the standard contribution after the due date', () => {
+            expect(calculatePenalty(contribution('2025-03-12T12:00:00'), 5000, dueDate, settings)).toBe(500);
+        });
+
+        it('should charge a flat penalty after the due date', () => {
+            expect(calculatePenalty(contribution('2025-03-12T12:00:00'), 5000, dueDate, { ...settings, penaltyType: 'FLAT', penaltyAmount: 200 })).toBe(200);
+        });
+
+        it('should limit the penalty to the cap', () => {
+            expect(calculatePenalty(contribution('2025-03-12T12:00:00'), 5000, dueDate, { ...settings, penaltyCap: 300 })).toBe(300);
+        });
+
+        it('should not penalize a pending contribution', () => {
+            expect(calculatePenalty({ ...contribution('2025-03-12T12:00:00'), status: 'PENDING' }, 5000, dueDate, settings)).toBe(0);
+        });
+    });
+
+    //--------------------------------------------------------------------------
+    // Contribution Calendar Tests
+    //--------------------------------------------------------------------------
+    describe('Contribution calendar', () => {
+        const rules = (overrides: Partial<CalendarRules>): CalendarRules => ({
+            frequency: 'MONTHLY',
+            deadlineDay: 15,
+            meetingWeekday: 6, // Saturday
+            cycleStart: new Date(2025, 0, 1),
+            ...overrides,
+        });
+
+        it('should find the weekday named in a meeting day', () => {
+            expect(parseMeetingWeekday('Every Saturday at 2pm')).toBe(6);
+            expect(parseMeetingWeekday('Last sunday of the month')).toBe(0);
+            expect(parseMeetingWeekday('End of month')).toBeNull();
+        });
+
+        it('should use the calendar month for monthly periods, due on the deadline day', () => {
+            expect(getCalendarPeriod(new Date(2025, 2, 20, 9), rules({}))).toEqual({
+                startDate: new Date(2025, 2, 1),
+                endDate: new Date(2025, 3, 1),
+                dueDate: new Date(2025, 2, 15),
+            });
+        });
+
+        it('should end weekly periods on the meeting day', () => {
+            // Wednesday 5 March 2025 falls in the week due on Saturday 8 March.
+            expect(getCalendarPeriod(new Date(2025, 2, 5, 9), rules({ frequency: 'WEEKLY' }))).toEqual({
+                startDate: new Date(2025, 2, 2),
+                endDate: new Date(2025, 2, 9),
+                dueDate: new Date(2025, 2, 8),
+            });
+            // A payment on the meeting day itself belongs to that day's period.
+            expect(getCalendarPeriod(new Date(2025, 2, 8, 18), rules({ frequency: 'WEEKLY' }))?.dueDate).toEqual(new Date(2025, 2, 8));
+        });
+
+        it('should count bi-weekly periods from the cycle start', () => {
+            // The cycle starts on Wednesday 1 January 2025, so the first period is due on Saturday 4 January.
+            const biweekly = rules({ frequency: 'BIWEEKLY' });
+            expect(getCalendarPeriod(new Date(2025, 0, 2), biweekly)?.dueDate).toEqual(new Date(2025, 0, 4));
+            expect(getCalendarPeriod(new Date(2025, 0, 5), biweekly)).toEqual({
+                startDate: new Date(2025, 0, 5),
+                endDate: new Date(2025, 0, 19),
+                dueDate: new Date(2025, 0, 18),
+            });
+            expect(getCalendarPeriod(new Date(2025, 0, 19), biweekly)?.dueDate).toEqual(new Date(2025, 1, 1));
+        });
+
+        it('should require a meeting weekday for weekly periods', () => {
+            expect(() => getCalendarPeriod(new Date(2025, 2, 5), rules({ frequency: 'WEEKLY', meetingWeekday: null }))).toThrow('meeting day');
+        });
+
+        it('should leave custom periods to the chama', () => {
+            expect(getCalendarPeriod(new Date(2025, 2, 5), rules({ frequency: 'CUSTOM' }))).toBeNull();
+        });
+
+        it('should list the periods due in a year', () => {
+            const from = new Date(2025, 0, 1);
+            const to = new Date(2026, 0, 1);
+            expect(listCalendarPeriods(from, to, rules({}))).toHaveLength(12);
+            expect(listCalendarPeriods(from, to, rules({ frequency: 'WEEKLY' }))).toHaveLength(52);
+            expect(listCalendarPeriods(from, to, rules({ frequency: 'BIWEEKLY' }))).toHaveLength(26);
+        });
+    });
+
+    //--------------------------------------------------------------------------
+    // Partial and Over-payment Tests
+    //--------------------------------------------------------------------------
+    describe('Recording contribution payments', () => {
+        const actualService = jest.requireActual('../src/services/contribution.service') as typeof contributionService;
+        const period = (n: number) => ({
+            id: `period${n}`,
+            frequency: 'MONTHLY',
+            startDate: new Date(2025, n - 1, 1),
+            endDate: new Date(2025, n, 1),
+            dueDate: new Date(2025, n - 1, 15),
+            chamaId: 'chama1',
+        });
+        const payment = (amount: number) => ({
+            membershipId: 'mem1',
+            amount,
+            month: 1,
+            year: 2025,
+            paymentMethod: 'MPESA',
+            mpesaCode: `CODE${amount}`,
+            paidAt: new Date(2025, 0, 10),
+        });
+        let created: any[];
+
+        beforeEach(() => {
+            created = [];
+            prismaMock.membership.findUnique.mockResolvedValue({
+                id: 'mem1', userId: 'user1', chamaId: 'chama1',
+                chama: { id: 'chama1', monthlyContribution: 5000, meetingDay: 'Saturday', createdAt: new Date(2024, 0, 1) },
+            });
+            prismaMock.chamaSettings.upsert.mockResolvedValue({
+                chamaId: 'chama1', contributionFrequency: 'MONTHLY', contributionDeadlineDay: 15, cycleStartDate: null,
+                penaltyType: 'PERCENTAGE', penaltyAmount: 0.1, penaltyCap: null,
+            });
+            prismaMock.contribution.findMany.mockResolvedValue([]);
+            prismaMock.contribution.findFirst.mockResolvedValue(null);
+            prismaMock.contribution.create.mockImplementation(({ data }: any) => {
+                const contribution = { id: `contr${created.length + 1}`, penaltyApplied: 0, ...data };
+                created.push(contribution);
+                return Promise.resolve(contribution);
+            });
+            prismaMock.contribution.update.mockImplementation(({ where, data }: any) => Promise.resolve({ id: where.id, ...data }));
+            prismaMock.contributionPayment.findFirst.mockResolvedValue(null);
+            prismaMock.$transaction.mockImplementation((callback: any) => callback(prismaMock));
+            (contributionPeriodService.findPeriodForDate as jest.Mock).mockResolvedValue(period(1));
+            (contributionPeriodService.findNextPeriod as jest.Mock).mockImplementation((chamaId: string, current: any) =>
+                Promise.resolve(period(Number(current.id.replace('period', '')) + 1)));
+        });
+
+        it('should record a payment below the expected amount as partially paid', async () => {
+            const contribution = await actualService.recordContribution(payment(2000), 'user1', {});
+
+            expect(contribution).toMatchObject({ amount: 2000, expectedAmount: 5000, status: 'PARTIALLY_PAID', periodId: 'period1', penaltyApplied: 0 });
+            expect(prismaMock.contributionPayment.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ contributionId: 'contr1', amount: 2000, mpesaCode: 'CODE2000' }),
+            });
+            expect(postContributionReceipt).toHaveBeenCalledWith(expect.objectContaining({ amount: 2000 }), 'chama1', prismaMock);
+        });
+
+        it('should complete a partially paid period with a later instalment', async () => {
+            prismaMock.contribution.findFirst.mockResolvedValue({ id: 'contr1', amount: 2000, expectedAmount: 5000, status: 'PARTIALLY_PAID', penaltyApplied: 0, mpesaCode: 'CODE2000' });
+
+            const contribution = await actualService.recordContribution({ ...payment(3000), paidAt: new Date(2025, 0, 20) }, 'user1', {});
+
+            expect(prismaMock.contribution.update).toHaveBeenCalledWith({
+                where: { id: 'contr1' },
+                data: expect.objectContaining({ amount: 5000, status: 'PAID', mpesaCode: 'CODE2000' }),
+            });
+            // Paid in full after the 15th, so the late penalty applies.
+            expect(contribution.penaltyApplied).toBe(500);
+            expect(prismaMock.contribution.create).not.toHaveBeenCalled();
+        });
+
+        it('should carry an overpayment forward to the next periods', async () => {
+            const contribution = await actualService.recordContribution(payment(12000), 'user1', {});
+
+            expect(contribution).toMatchObject({ id: 'contr1', amount: 5000, status: 'PAID' });
+            expect(created.map(c => [c.periodId, c.amount, c.status])).toEqual([
+                ['period1', 5000, 'PAID'],
+                ['period2', 5000, 'PAID'],
+                ['period3', 2000, 'PARTIALLY_PAID'],
+            ]);
+            // The receipt belongs to the period paid for; carried-forward periods have none.
+            expect(created.map(c => c.mpesaCode)).toEqual(['CODE12000', null, null]);
+            expect(prismaMock.contributionPayment.create).toHaveBeenCalledTimes(3);
+            // Each period's share is split across the chama's funds.
+            expect((allocateContribution as jest.Mock).mock.calls.map(([c]) => [c.periodId, c.amount])).toEqual([
+                ['period1', 5000],
+                ['period2', 5000],
+                ['period3', 2000],
+            ]);
+        });
+
+        it('should carry a payment on an already paid period forward', async () => {
+            prismaMock.contribution.findFirst.mockResolvedValueOnce({ id: 'contr0', amount: 5000, expectedAmount: 5000, status: 'PAID', penaltyApplied: 0 });
+
+            const contribution = await actualService.recordContribution(payment(1000), 'user1', {});
+
+            expect(contribution.id).toBe('contr0');
+            expect(created).toEqual([expect.objectContaining({ periodId: 'period2', amount: 1000, status: 'PARTIALLY_PAID' })]);
+        });
+
+        it('should keep the surplus on the last period when no later period exists', async () => {
+            (contributionPeriodService.findNextPeriod as jest.Mock).mockResolvedValue(null);
+
+            await actualService.recordContribution(payment(7000), 'user1', {});
+
+            expect(created).toEqual([expect.objectContaining({ periodId: 'period1', amount: 7000, status: 'PAID' })]);
+        });
+
+        it('should move surplus held from an earlier payment forward with the next one', async () => {
+            prismaMock.contribution.findMany.mockResolvedValue([{ id: 'contr0', amount: 7000, expectedAmount: 5000, status: 'PAID' }]);
+            (contributionPeriodService.findPeriodForDate as jest.Mock).mockResolvedValue(period(2));
+
+            await actualService.recordContribution(payment(3000), 'user1', {});
+
+            expect(prismaMock.contribution.update).toHaveBeenCalledWith({ where: { id: 'contr0' }, data: { amount: 5000 } });
+            expect(created).toEqual([expect.objectContaining({ periodId: 'period2', amount: 5000, status: 'PAID' })]);
+            // The surplus was posted as cash when it was paid, so only the new payment reaches the cash account.
+            const cashPosted = (postContributionReceipt as jest.Mock).mock.calls.reduce((sum, [receipt]) => sum + receipt.amount, 0);
+            expect(cashPosted).toBe(3000);
+            expect(postContributionCarryForward).toHaveBeenCalledWith(
+                expect.objectContaining({ id: 'contr0' }), expect.objectContaining({ periodId: 'period2' }), 2000, 'chama1', prismaMock);
+        });
+
+        it('should post only the change when a contribution funded by carried credit is edited', async () => {
+            prismaMock.contribution.findUnique.mockResolvedValue({
+                id: 'contr2', membershipId: 'mem1', amount: 5000, expectedAmount: 5000, status: 'PAID', penaltyApplied: 0,
+                month: 2, year: 2025, membership: { id: 'mem1', chamaId: 'chama1' }, period: period(2),
+            });
+
+            const contribution = await actualService.updateContribution('contr2', { amount: 4000 }, 'user1', {});
+
+            expect(contribution).toMatchObject({ amount: 4000, status: 'PARTIALLY_PAID' });
+            // The credit carried in stays where it was posted; only the 1000 taken off comes back out of cash.
+            expect(reverseSourceEntries).not.toHaveBeenCalled();
+            expect(postContributionReceipt).not.toHaveBeenCalled();
+            expect(postContributionAdjustment).toHaveBeenCalledWith(expect.objectContaining({ id: 'contr2' }), -1000, 0, 'chama1', prismaMock);
+        });
+
+        it('should reject an M-Pesa code that has already been recorded', async () => {
+            prismaMock.contributionPayment.findFirst.mockResolvedValue({ id: 'payment1' });
+
+            await expect(actualService.recordContribution(payment(2000), 'user1', {})).rejects.toThrow('already been recorded');
+            expect(prismaMock.contribution.create).not.toHaveBeenCalled();
+        });
+
+        it('should create a pending contribution with nothing paid', async () => {
+            const contribution = await actualService.recordContribution({ ...payment(5000), status: 'PENDING' }, 'user1', {});
+
+            expect(contribution).toMatchObject({ amount: 0, expectedAmount: 5000, status: 'PENDING' });
+            expect(prismaMock.contributionPayment.create).not.toHaveBeenCalled();
+        });
+
+        it('should derive the status from the amount paid', () => {
+            expect(actualService.getContributionStatus(0, 5000)).toBe('PENDING');
+            expect(actualService.getContributionStatus(2500, 5000)).toBe('PARTIALLY_PAID');
+            expect(actualService.getContributionStatus(5000, 5000)).toBe('PAID');
+            expect(actualService.getContributionStatus(6000, 5000)).toBe('PAID');
+        });
     });
-});
\ No newline at end of file
+});
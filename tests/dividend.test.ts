@@ -0,0 +1,326 @@
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaFunctions: any = {
+    dividendRun: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    dividendPayout: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    membership: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    fundAllocation: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    transaction: {
+      create: jest.fn(),
+    },
+    chama: {
+      findUnique: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mockPrismaFunctions),
+    MembershipRole: {
+      ADMIN: 'ADMIN',
+      TREASURER: 'TREASURER',
+      SECRETARY: 'SECRETARY',
+      MEMBER: 'MEMBER',
+    },
+    NotificationType: { GENERAL: 'GENERAL' },
+    AuditAction: {
+      DIVIDEND_PREVIEW: 'DIVIDEND_PREVIEW',
+      DIVIDEND_CONFIRM: 'DIVIDEND_CONFIRM',
+      DIVIDEND_PAYOUT: 'DIVIDEND_PAYOUT',
+    },
+  };
+});
+
+jest.mock('../src/middleware/auth.middleware', () => ({
+  protect: (req: any, res: Response, next: NextFunction) => {
+    req.user = { id: req.headers['x-user-id'] || 'user1' };
+    next();
+  },
+}));
+
+jest.mock('../src/middleware/membership.middleware', () => ({
+  checkMembership: () => (req: Request, res: Response, next: NextFunction) => next(),
+}));
+
+jest.mock('../src/middleware/stepUp.middleware', () => ({
+  requireStepUp: () => (req: Request, res: Response, next: NextFunction) => next(),
+}));
+
+jest.mock('../src/services/audit.service');
+jest.mock('../src/services/notification.service');
+jest.mock('../src/services/ledger.service');
+jest.mock('../src/services/mpesa.service');
+jest.mock('../src/services/fund.service');
+
+import dividendRoutes from '../src/routes/dividend.routes';
+import * as dividendService from '../src/services/dividend.service';
+import { getChamaFunds } from '../src/services/fund.service';
+import { postDividendDeclaration, postDividendPayout, sumAccountMovements } from '../src/services/ledger.service';
+import { initiateB2CPayment } from '../src/services/mpesa.service';
+import { createAuditLog } from '../src/services/audit.service';
+import { createNotification } from '../src/services/notification.service';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient() as any;
+
+const app = express();
+app.use(express.json());
+app.use('/dividends', dividendRoutes);
+
+const members = [
+  { id: 'mem1', userId: 'user1', chamaId: 'chama1', role: 'ADMIN', isActive: true, user: { firstName: 'Jane', lastName: 'Doe' } },
+  { id: 'mem2', userId: 'user2', chamaId: 'chama1', role: 'MEMBER', isActive: true, user: { firstName: 'John', lastName: 'Kamau' } },
+  { id: 'mem3', userId: 'user3', chamaId: 'chama1', role: 'MEMBER', isActive: true, user: { firstName: 'Mary', lastName: 'Wanjiru' } },
+];
+
+const allocation = (membershipId: string, amount: number, paidAt: Date) => ({
+  membershipId,
+  amount,
+  createdAt: paidAt,
+  contribution: { paidAt },
+  withdrawal: null,
+  dividendPayout: null,
+});
+
+const payoutFor = (id: string, membershipId: string, amount: number, phone: string) => ({
+  id,
+  runId: 'run1',
+  membershipId,
+  basis: amount,
+  amount,
+  status: 'PENDING',
+  membership: { user: { firstName: 'Member', lastName: membershipId, phone } },
+});
+
+const draftRun = {
+  id: 'run1',
+  chamaId: 'chama1',
+  financialYear: 2025,
+  policy: 'SAVINGS_PROPORTIONAL',
+  status: 'DRAFT',
+  payoutMethod: null,
+  interestIncome: 9000,
+  penaltyIncome: 1000,
+  totalAmount: 10000,
+  createdAt: new Date(2026, 0, 10),
+  confirmedAt: null,
+  createdBy: { user: { firstName: 'Jane', lastName: 'Doe' } },
+  confirmedBy: null,
+  payouts: [
+    payoutFor('pay1', 'mem1', 6000, '254700000001'),
+    payoutFor('pay2', 'mem2', 4000, '254700000002'),
+  ],
+};
+
+describe('Dividend Module Tests', () => {
+  let storedRun: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.$transaction.mockImplementation((callback: any) => callback(prisma));
+    prisma.membership.findFirst.mockResolvedValue(members[0]);
+    prisma.membership.findMany.mockResolvedValue(members);
+    (sumAccountMovements as jest.Mock).mockImplementation((chamaId: string, account: string) => Promise.resolve(
+      account === 'INTEREST_INCOME' ? { debit: 0, credit: 9000 } : { debit: 500, credit: 1500 }
+    ));
+    prisma.fundAllocation.findMany.mockResolvedValue([
+      allocation('mem1', 12000, new Date(2024, 5, 1)),
+      allocation('mem2', 12000, new Date(2025, 6, 1)),
+      allocation('mem2', 50000, new Date(2026, 1, 1)),
+    ]);
+    prisma.dividendRun.findUnique.mockResolvedValue(null);
+    prisma.dividendRun.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'run1', status: 'DRAFT', ...data, payouts: data.payouts.create }));
+    storedRun = draftRun;
+    prisma.dividendRun.findFirst.mockImplementation(() => Promise.resolve(storedRun));
+    prisma.dividendRun.update.mockImplementation(({ data }: any) => {
+      storedRun = { ...storedRun, ...data };
+      return Promise.resolve(storedRun);
+    });
+    prisma.dividendPayout.update.mockImplementation(({ where, data }: any) => Promise.resolve({ id: where.id, ...data }));
+    (getChamaFunds as jest.Mock).mockResolvedValue([
+      { id: 'fund-share', type: 'SHARE_CAPITAL' },
+      { id: 'fund-savings', type: 'SAVINGS' },
+    ]);
+  });
+
+  describe('Previewing dividends', () => {
+    it('should weight savings by the months they were held and ignore deposits after the year end', async () => {
+      const res = await request(app)
+        .post('/dividends/chama1/runs')
+        .send({ financialYear: 2025, policy: 'MONTHS_WEIGHTED' });
+
+      expect(res.statusCode).toBe(201);
+      const { data } = prisma.dividendRun.create.mock.calls[0][0];
+      expect(data).toMatchObject({ financialYear: 2025, policy: 'MONTHS_WEIGHTED', interestIncome: 9000, penaltyIncome: 1000, totalAmount: 10000, createdById: 'mem1' });
+      // mem1 held 12000 all year, mem2 held 12000 for the last six months, and mem3 saved nothing.
+      expect(data.payouts.create).toEqual([
+        { membershipId: 'mem1', basis: 12000, amount: 6666.67 },
+        { membershipId: 'mem2', basis: 6000, amount: 3333.33 },
+      ]);
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'DIVIDEND_PREVIEW', chamaId: 'chama1' }));
+    });
+
+    it('should share income equally among all active members', async () => {
+      await request(app)
+        .post('/dividends/chama1/runs')
+        .send({ financialYear: 2025, policy: 'EQUAL' });
+
+      const { data } = prisma.dividendRun.create.mock.calls[0][0];
+      expect(data.payouts.create.map((payout: any) => payout.amount)).toEqual([3333.33, 3333.33, 3333.34]);
+      expect(prisma.fundAllocation.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should replace an earlier draft for the same year', async () => {
+      prisma.dividendRun.findUnique.mockResolvedValue({ id: 'run0', status: 'DRAFT' });
+
+      const res = await request(app)
+        .post('/dividends/chama1/runs')
+        .send({ financialYear: 2025, policy: 'SAVINGS_PROPORTIONAL' });
+
+      expect(res.statusCode).toBe(201);
+      expect(prisma.dividendRun.delete).toHaveBeenCalledWith({ where: { id: 'run0' } });
+    });
+
+    it('should not preview a year whose dividend is already confirmed', async () => {
+      prisma.dividendRun.findUnique.mockResolvedValue({ id: 'run0', status: 'CONFIRMED' });
+
+      const res = await request(app)
+        .post('/dividends/chama1/runs')
+        .send({ financialYear: 2025, policy: 'EQUAL' });
+
+      expect(res.statusCode).toBe(409);
+      expect(prisma.dividendRun.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse when the chama earned no income that year', async () => {
+      (sumAccountMovements as jest.Mock).mockResolvedValue({ debit: 0, credit: 0 });
+
+      const res = await request(app)
+        .post('/dividends/chama1/runs')
+        .send({ financialYear: 2025, policy: 'EQUAL' });
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body.message).toBe('The chama earned no interest or penalty income in 2025.');
+    });
+
+    it('should reject an unknown policy', async () => {
+      const res = await request(app)
+        .post('/dividends/chama1/runs')
+        .send({ financialYear: 2025, policy: 'BY_SENIORITY' });
+
+      expect(res.statusCode).toBe(400);
+    });
+  });
+
+  describe('Confirming dividends', () => {
+    it('should post the declaration and credit each share to member savings', async () => {
+      const res = await request(app)
+        .post('/dividends/chama1/runs/run1/confirm')
+        .send({ payoutMethod: 'CREDIT_SAVINGS' });
+
+      expect(res.statusCode).toBe(200);
+      expect(prisma.dividendRun.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'CONFIRMED', payoutMethod: 'CREDIT_SAVINGS', confirmedById: 'mem1' }),
+      }));
+      expect(postDividendDeclaration).toHaveBeenCalledWith(expect.objectContaining({ id: 'run1' }), draftRun.payouts, 'chama1', prisma);
+      expect(prisma.fundAllocation.createMany).toHaveBeenCalledWith({
+        data: [
+          { dividendPayoutId: 'pay1', fundId: 'fund-savings', membershipId: 'mem1', amount: 6000 },
+          { dividendPayoutId: 'pay2', fundId: 'fund-savings', membershipId: 'mem2', amount: 4000 },
+        ],
+      });
+      expect(prisma.dividendPayout.updateMany).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ status: 'PAID' }) }));
+      expect(createNotification).toHaveBeenCalledTimes(2);
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'DIVIDEND_CONFIRM' }));
+    });
+
+    it('should ask for a new preview when the income has changed', async () => {
+      (sumAccountMovements as jest.Mock).mockResolvedValue({ debit: 0, credit: 12000 });
+
+      const res = await request(app)
+        .post('/dividends/chama1/runs/run1/confirm')
+        .send({ payoutMethod: 'CREDIT_SAVINGS' });
+
+      expect(res.statusCode).toBe(409);
+      expect(postDividendDeclaration).not.toHaveBeenCalled();
+    });
+
+    it('should not confirm before the financial year has ended', async () => {
+      storedRun = { ...draftRun, financialYear: new Date().getFullYear() };
+
+      const res = await request(app)
+        .post('/dividends/chama1/runs/run1/confirm')
+        .send({ payoutMethod: 'CREDIT_SAVINGS' });
+
+      expect(res.statusCode).toBe(400);
+    });
+
+    it('should send each share by M-Pesa and mark payouts that could not be sent as failed', async () => {
+      (initiateB2CPayment as jest.Mock)
+        .mockResolvedValueOnce({ reference: 'AG_1' })
+        .mockRejectedValueOnce(new Error('Network error'));
+
+      const res = await request(app)
+        .post('/dividends/chama1/runs/run1/confirm')
+        .send({ payoutMethod: 'MPESA' });
+
+      expect(res.statusCode).toBe(200);
+      expect(initiateB2CPayment).toHaveBeenCalledWith('254700000001', 6000, 'Dividend payout');
+      expect(prisma.dividendPayout.update).toHaveBeenCalledWith({ where: { id: 'pay1' }, data: { status: 'PENDING', mpesaB2CRequestId: 'AG_1' } });
+      expect(prisma.dividendPayout.update).toHaveBeenCalledWith({ where: { id: 'pay2' }, data: { status: 'FAILED' } });
+      expect(prisma.fundAllocation.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settleMpesaDividend', () => {
+    it('should mark the payout paid and post it to the ledger when the B2C payment succeeds', async () => {
+      prisma.dividendPayout.findUnique.mockResolvedValue({ id: 'pay1', membershipId: 'mem1', amount: 6000, status: 'PENDING', run: { chamaId: 'chama1', financialYear: 2025 } });
+      prisma.dividendPayout.update.mockImplementation(({ data }: any) => Promise.resolve({ id: 'pay1', membershipId: 'mem1', amount: 6000, ...data }));
+
+      const paid = await dividendService.settleMpesaDividend('AG_1', true, 'RCPT1');
+
+      expect(paid?.status).toBe('PAID');
+      expect(prisma.transaction.create).toHaveBeenCalledWith({ data: expect.objectContaining({ chamaId: 'chama1', type: 'DIVIDEND', amount: -6000 }) });
+      expect(postDividendPayout).toHaveBeenCalledWith(expect.objectContaining({ id: 'pay1', mpesaCode: 'RCPT1' }), 'chama1', prisma);
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'DIVIDEND_PAYOUT', actorId: null }));
+    });
+
+    it('should ignore conversations that are not dividend payouts', async () => {
+      prisma.dividendPayout.findUnique.mockResolvedValue(null);
+
+      await expect(dividendService.settleMpesaDividend('AG_unknown', true)).resolves.toBeNull();
+    });
+  });
+
+  describe('Dividend statements', () => {
+    it('should export the run as an Excel workbook', async () => {
+      prisma.chama.findUnique.mockResolvedValue({ name: 'Umoja Chama' });
+
+      const res = await request(app).get('/dividends/chama1/runs/run1/export?format=excel');
+
+      expect(res.statusCode).toBe(200);
+      expect(res.headers['content-type']).toContain('spreadsheetml');
+      expect(res.headers['content-disposition']).toContain('dividends-2025.xlsx');
+    });
+  });
+});
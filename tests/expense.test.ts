@@ -0,0 +1,232 @@
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaFunctions: any = {
+    expense: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    membership: {
+      findFirst: jest.fn(),
+    },
+    file: {
+      findFirst: jest.fn(),
+    },
+    transaction: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mockPrismaFunctions),
+    MembershipRole: {
+      ADMIN: 'ADMIN',
+      TREASURER: 'TREASURER',
+      SECRETARY: 'SECRETARY',
+      MEMBER: 'MEMBER',
+    },
+    ExpenseStatus: { PENDING: 'PENDING', APPROVED: 'APPROVED', REJECTED: 'REJECTED' },
+    TransactionType: { EXPENSE: 'EXPENSE' },
+    NotificationType: { GENERAL: 'GENERAL' },
+    AuditAction: { EXPENSE_REQUEST: 'EXPENSE_REQUEST', EXPENSE_APPROVE: 'EXPENSE_APPROVE', EXPENSE_REJECT: 'EXPENSE_REJECT' },
+  };
+});
+
+jest.mock('../src/middleware/auth.middleware', () => ({
+  protect: (req: any, res: Response, next: NextFunction) => {
+    req.user = { id: req.headers['x-user-id'] || 'user1' };
+    next();
+  },
+}));
+
+jest.mock('../src/middleware/membership.middleware', () => ({
+  checkMembership: () => (req: Request, res: Response, next: NextFunction) => next(),
+}));
+
+jest.mock('../src/services/audit.service');
+jest.mock('../src/services/notification.service');
+jest.mock('../src/services/ledger.service');
+
+import expenseRoutes from '../src/routes/expense.routes';
+import { postExpense } from '../src/services/ledger.service';
+import { createAuditLog } from '../src/services/audit.service';
+import { createNotification } from '../src/services/notification.service';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient() as any;
+
+const app = express();
+app.use(express.json());
+app.use('/expenses', expenseRoutes);
+
+const pendingExpense = {
+  id: 'exp1',
+  chamaId: 'chama1',
+  category: 'VENUE',
+  amount: 2500,
+  description: 'Hall hire',
+  status: 'PENDING',
+  requestedById: 'mem1',
+  requestedBy: { id: 'mem1', userId: 'user1' },
+};
+
+describe('Expense Module Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.$transaction.mockImplementation((callback: any) => callback(prisma));
+    prisma.membership.findFirst.mockImplementation(({ where }: any) =>
+      Promise.resolve({ id: where.userId === 'user1' ? 'mem1' : 'mem2', userId: where.userId, chamaId: 'chama1', isActive: true })
+    );
+  });
+
+  describe('Requesting expenses', () => {
+    it('should create a pending expense with a receipt', async () => {
+      prisma.file.findFirst.mockResolvedValue({ id: 'file1', chamaId: 'chama1', expense: null });
+      prisma.expense.create.mockResolvedValue({ ...pendingExpense, receiptId: 'file1' });
+
+      const res = await request(app)
+        .post('/expenses/chama1')
+        .send({ category: 'VENUE', amount: 2500, description: 'Hall hire', receiptId: 'file1' });
+
+      expect(res.statusCode).toBe(201);
+      expect(prisma.expense.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          chamaId: 'chama1',
+          requestedById: 'mem1',
+          category: 'VENUE',
+          amount: 2500,
+          description: 'Hall hire',
+          receiptId: 'file1',
+        },
+      }));
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'EXPENSE_REQUEST' }));
+    });
+
+    it('should reject a receipt that is not a file in the chama', async () => {
+      prisma.file.findFirst.mockResolvedValue(null);
+
+      const res = await request(app)
+        .post('/expenses/chama1')
+        .send({ category: 'VENUE', amount: 2500, description: 'Hall hire', receiptId: 'other-file' });
+
+      expect(res.statusCode).toBe(404);
+      expect(prisma.expense.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a receipt already attached to another expense', async () => {
+      prisma.file.findFirst.mockResolvedValue({ id: 'file1', chamaId: 'chama1', expense: { id: 'exp0' } });
+
+      const res = await request(app)
+        .post('/expenses/chama1')
+        .send({ category: 'VENUE', amount: 2500, description: 'Hall hire', receiptId: 'file1' });
+
+      expect(res.statusCode).toBe(409);
+    });
+
+    it('should validate the category and amount', async () => {
+      const res = await request(app)
+        .post('/expenses/chama1')
+        .send({ category: 'PARTY', amount: -10, description: 'Cake' });
+
+      expect(res.statusCode).toBe(400);
+      expect(prisma.expense.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Reviewing expenses', () => {
+    beforeEach(() => {
+      prisma.expense.findFirst.mockResolvedValue(pendingExpense);
+      prisma.expense.update.mockImplementation(({ data }: any) => Promise.resolve({ ...pendingExpense, ...data }));
+    });
+
+    it('should write an outgoing transaction and post the ledger when approved', async () => {
+      const res = await request(app)
+        .put('/expenses/chama1/exp1/review')
+        .set('x-user-id', 'user2')
+        .send({ status: 'APPROVED', reviewNotes: 'Receipt checked' });
+
+      expect(res.statusCode).toBe(200);
+      expect(prisma.expense.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'exp1' },
+        data: expect.objectContaining({ status: 'APPROVED', reviewNotes: 'Receipt checked', reviewedById: 'mem2' }),
+      }));
+      expect(prisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ chamaId: 'chama1', type: 'EXPENSE', amount: -2500 }),
+      });
+      expect(postExpense).toHaveBeenCalledWith(expect.objectContaining({ id: 'exp1', amount: 2500 }), 'chama1', prisma);
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'EXPENSE_APPROVE', targetId: 'user1' }));
+      expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({ membershipId: 'mem1', title: 'Expense Approved' }));
+    });
+
+    it('should not touch the books when rejected', async () => {
+      const res = await request(app)
+        .put('/expenses/chama1/exp1/review')
+        .set('x-user-id', 'user2')
+        .send({ status: 'REJECTED' });
+
+      expect(res.statusCode).toBe(200);
+      expect(prisma.transaction.create).not.toHaveBeenCalled();
+      expect(postExpense).not.toHaveBeenCalled();
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'EXPENSE_REJECT' }));
+    });
+
+    it('should not let members review their own expense', async () => {
+      const res = await request(app)
+        .put('/expenses/chama1/exp1/review')
+        .set('x-user-id', 'user1')
+        .send({ status: 'APPROVED' });
+
+      expect(res.statusCode).toBe(403);
+      expect(prisma.expense.update).not.toHaveBeenCalled();
+    });
+
+    it('should not review an expense twice', async () => {
+      prisma.expense.findFirst.mockResolvedValue({ ...pendingExpense, status: 'APPROVED' });
+
+      const res = await request(app)
+        .put('/expenses/chama1/exp1/review')
+        .set('x-user-id', 'user2')
+        .send({ status: 'REJECTED' });
+
+      expect(res.statusCode).toBe(409);
+    });
+
+    it('should return 404 for an expense in another chama', async () => {
+      prisma.expense.findFirst.mockResolvedValue(null);
+
+      const res = await request(app)
+        .put('/expenses/chama1/missing/review')
+        .set('x-user-id', 'user2')
+        .send({ status: 'APPROVED' });
+
+      expect(res.statusCode).toBe(404);
+    });
+  });
+
+  describe('Listing expenses', () => {
+    it('should return expenses with totals by status', async () => {
+      prisma.expense.findMany.mockResolvedValue([pendingExpense]);
+      prisma.expense.count.mockResolvedValue(1);
+      prisma.expense.groupBy.mockResolvedValue([
+        { status: 'PENDING', _sum: { amount: 2500 } },
+        { status: 'APPROVED', _sum: { amount: 4000 } },
+      ]);
+
+      const res = await request(app).get('/expenses/chama1?category=VENUE');
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body.totals).toEqual({ PENDING: 2500, APPROVED: 4000 });
+      expect(res.body.meta).toEqual({ page: 1, limit: 20, totalRecords: 1, totalPages: 1 });
+      expect(prisma.expense.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { chamaId: 'chama1', status: undefined, category: 'VENUE' },
+      }));
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaFunctions: any = {
+    fund: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    fundAllocation: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+      count: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    membership: {
+      findFirst: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mockPrismaFunctions),
+    MembershipRole: {
+      ADMIN: 'ADMIN',
+      TREASURER: 'TREASURER',
+      SECRETARY: 'SECRETARY',
+      MEMBER: 'MEMBER',
+    },
+    FundType: { SHARE_CAPITAL: 'SHARE_CAPITAL', SAVINGS: 'SAVINGS', WELFARE: 'WELFARE' },
+    AuditAction: { FUND_CONFIGURE: 'FUND_CONFIGURE' },
+  };
+});
+
+jest.mock('../src/middleware/auth.middleware', () => ({
+  protect: (req: any, res: Response, next: NextFunction) => {
+    req.user = { id: req.headers['x-user-id'] || 'user1' };
+    next();
+  },
+}));
+
+jest.mock('../src/middleware/membership.middleware', () => ({
+  checkMembership: () => (req: Request, res: Response, next: NextFunction) => next(),
+}));
+
+jest.mock('../src/services/audit.service');
+
+import fundRoutes from '../src/routes/fund.routes';
+import { allocateContribution, splitAcrossFunds } from '../src/services/fund.service';
+import { createAuditLog } from '../src/services/audit.service';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient() as any;
+
+const app = express();
+app.use(express.json());
+app.use('/funds', fundRoutes);
+
+const fund = (id: string, type: string, allocationRate: number, extra: object = {}) => ({
+  id,
+  name: id,
+  type,
+  allocationRate,
+  isWithdrawable: type === 'SAVINGS',
+  withdrawalNoticeDays: 0,
+  minimumBalance: 0,
+  chamaId: 'chama1',
+  ...extra,
+});
+const funds = [fund('share', 'SHARE_CAPITAL', 0.25), fund('savings', 'SAVINGS', 0.65, { minimumBalance: 1000 }), fund('welfare', 'WELFARE', 0.1)];
+
+describe('Fund Module Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.$transaction.mockImplementation((callback: any) => callback(prisma));
+    prisma.fund.findMany.mockResolvedValue(funds);
+    prisma.fundAllocation.findMany.mockResolvedValue([]);
+  });
+
+  describe('Allocating contributions', () => {
+    it('should split an amount by allocation rate with rounding left on the last fund', () => {
+      const parts = splitAcrossFunds(1000.01, funds);
+
+      expect(parts).toEqual([
+        { fundId: 'share', amount: 250 },
+        { fundId: 'savings', amount: 650.01 },
+        { fundId: 'welfare', amount: 100 },
+      ]);
+    });
+
+    it('should split a new contribution at the current rates', async () => {
+      await allocateContribution({ id: 'contr1', membershipId: 'mem1', amount: 2000 }, 'chama1');
+
+      expect(prisma.fundAllocation.findMany).toHaveBeenCalledWith({ where: { contributionId: 'contr1' }, orderBy: { createdAt: 'asc' } });
+      expect(prisma.fundAllocation.createMany).toHaveBeenCalledWith({
+        data: [
+          { fundId: 'share', amount: 500, contributionId: 'contr1', membershipId: 'mem1' },
+          { fundId: 'savings', amount: 1300, contributionId: 'contr1', membershipId: 'mem1' },
+          { fundId: 'welfare', amount: 200, contributionId: 'contr1', membershipId: 'mem1' },
+        ],
+      });
+    });
+
+    it('should split only a top-up at the current rates and leave what was allocated before', async () => {
+      // Allocated when the chama split contributions 20/80 between share capital and savings.
+      prisma.fundAllocation.findMany.mockResolvedValue([
+        { id: 'alloc1', fundId: 'share', amount: 400 },
+        { id: 'alloc2', fundId: 'savings', amount: 1600 },
+      ]);
+
+      const changes = await allocateContribution({ id: 'contr1', membershipId: 'mem1', amount: 3000 }, 'chama1');
+
+      expect(changes.map(({ fundId, amount }) => [fundId, amount])).toEqual([['share', 250], ['savings', 650], ['welfare', 100]]);
+      expect(prisma.fundAllocation.update).toHaveBeenCalledWith({ where: { id: 'alloc1' }, data: { amount: 650 } });
+      expect(prisma.fundAllocation.update).toHaveBeenCalledWith({ where: { id: 'alloc2' }, data: { amount: 2250 } });
+      expect(prisma.fundAllocation.createMany).toHaveBeenCalledWith({
+        data: [{ fundId: 'welfare', amount: 100, contributionId: 'contr1', membershipId: 'mem1' }],
+      });
+      expect(prisma.fundAllocation.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should take a reduction back out of the funds the contribution was paid into', async () => {
+      prisma.fundAllocation.findMany.mockResolvedValue([
+        { id: 'alloc1', fundId: 'share', amount: 400 },
+        { id: 'alloc2', fundId: 'savings', amount: 1600 },
+      ]);
+
+      await allocateContribution({ id: 'contr1', membershipId: 'mem1', amount: 1000 }, 'chama1');
+
+      expect(prisma.fund.findMany).not.toHaveBeenCalled();
+      expect(prisma.fundAllocation.update).toHaveBeenCalledWith({ where: { id: 'alloc1' }, data: { amount: 200 } });
+      expect(prisma.fundAllocation.update).toHaveBeenCalledWith({ where: { id: 'alloc2' }, data: { amount: 800 } });
+      expect(prisma.fundAllocation.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should leave the allocations alone when the amount has not changed', async () => {
+      prisma.fundAllocation.findMany.mockResolvedValue([{ id: 'alloc1', fundId: 'share', amount: 2000 }]);
+
+      const changes = await allocateContribution({ id: 'contr1', membershipId: 'mem1', amount: 2000 }, 'chama1');
+
+      expect(changes).toEqual([]);
+      expect(prisma.fundAllocation.update).not.toHaveBeenCalled();
+      expect(prisma.fundAllocation.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should put everything in a default savings fund when the chama has none', async () => {
+      prisma.fund.findMany.mockResolvedValue([]);
+      prisma.fund.upsert.mockResolvedValue(fund('default', 'SAVINGS', 1));
+
+      await allocateContribution({ id: 'contr1', membershipId: 'mem1', amount: 2000 }, 'chama1');
+
+      expect(prisma.fund.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: { chamaId: 'chama1', name: 'Savings', type: 'SAVINGS', allocationRate: 1, isWithdrawable: true },
+      }));
+      expect(prisma.fundAllocation.createMany).toHaveBeenCalledWith({
+        data: [{ fundId: 'default', amount: 2000, contributionId: 'contr1', membershipId: 'mem1' }],
+      });
+    });
+
+    it('should clear the allocations of a contribution with nothing paid', async () => {
+      prisma.fundAllocation.findMany.mockResolvedValue([
+        { id: 'alloc1', fundId: 'share', amount: 500 },
+        { id: 'alloc2', fundId: 'savings', amount: 1500 },
+      ]);
+
+      await allocateContribution({ id: 'contr1', membershipId: 'mem1', amount: 0 }, 'chama1');
+
+      expect(prisma.fundAllocation.delete).toHaveBeenCalledWith({ where: { id: 'alloc1' } });
+      expect(prisma.fundAllocation.delete).toHaveBeenCalledWith({ where: { id: 'alloc2' } });
+      expect(prisma.fundAllocation.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Setting up funds', () => {
+    const body = {
+      funds: [
+        { id: 'savings', name: 'Savings', type: 'SAVINGS', allocationRate: 0.7, withdrawalNoticeDays: 30 },
+        { name: 'Share Capital', type: 'SHARE_CAPITAL', allocationRate: 0.3 },
+      ],
+    };
+
+    it('should update listed funds, create new ones and remove empty ones', async () => {
+      prisma.fundAllocation.count.mockResolvedValue(0);
+
+      const res = await request(app).put('/funds/chama1').send(body);
+
+      expect(res.statusCode).toBe(200);
+      expect(prisma.fund.delete).toHaveBeenCalledTimes(2);
+      expect(prisma.fund.update).toHaveBeenCalledWith({
+        where: { id: 'savings' },
+        data: { name: 'Savings', type: 'SAVINGS', allocationRate: 0.7, isWithdrawable: true, withdrawalNoticeDays: 30, minimumBalance: 0 },
+      });
+      expect(prisma.fund.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ chamaId: 'chama1', name: 'Share Capital', isWithdrawable: false }),
+      });
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'FUND_CONFIGURE' }));
+    });
+
+    it('should not remove a fund that holds member balances', async () => {
+      prisma.fundAllocation.count.mockResolvedValue(4);
+
+      const res = await request(app).put('/funds/chama1').send(body);
+
+      expect(res.statusCode).toBe(409);
+      expect(prisma.fund.delete).not.toHaveBeenCalled();
+    });
+
+    it('should require allocation rates to add up to 1', async () => {
+      const res = await request(app).put('/funds/chama1').send({
+        funds: [{ name: 'Savings', type: 'SAVINGS', allocationRate: 0.7 }, { name: 'Welfare', type: 'WELFARE', allocationRate: 0.2 }],
+      });
+
+      expect(res.statusCode).toBe(400);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should require a savings fund', async () => {
+      const res = await request(app).put('/funds/chama1').send({
+        funds: [{ name: 'Share Capital', type: 'SHARE_CAPITAL', allocationRate: 1 }],
+      });
+
+      expect(res.statusCode).toBe(400);
+    });
+
+    it('should not allow withdrawable share capital', async () => {
+      const res = await request(app).put('/funds/chama1').send({
+        funds: [
+          { name: 'Savings', type: 'SAVINGS', allocationRate: 0.5 },
+          { name: 'Share Capital', type: 'SHARE_CAPITAL', allocationRate: 0.5, isWithdrawable: true },
+        ],
+      });
+
+      expect(res.statusCode).toBe(400);
+    });
+
+    it('should return 404 for a fund from another chama', async () => {
+      const res = await request(app).put('/funds/chama1').send({
+        funds: [{ id: 'elsewhere', name: 'Savings', type: 'SAVINGS', allocationRate: 1 }],
+      });
+
+      expect(res.statusCode).toBe(404);
+    });
+  });
+
+  describe('Fund balances', () => {
+    it('should return chama totals per fund', async () => {
+      prisma.fundAllocation.groupBy.mockResolvedValue([{ fundId: 'savings', _sum: { amount: 13000 } }]);
+
+      const res = await request(app).get('/funds/chama1');
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body.data.map((f: any) => [f.id, f.totalBalance])).toEqual([['share', 0], ['savings', 13000], ['welfare', 0]]);
+    });
+
+    it('should return a member\'s balances with what each fund lets them withdraw', async () => {
+      prisma.membership.findFirst.mockResolvedValue({ id: 'mem1', chamaId: 'chama1' });
+      prisma.fundAllocation.groupBy.mockResolvedValue([
+        { fundId: 'share', _sum: { amount: 5000 } },
+        { fundId: 'savings', _sum: { amount: 13000 } },
+      ]);
+
+      const res = await request(app).get('/funds/chama1/members/mem1');
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body.data.map((b: any) => [b.fundId, b.balance, b.availableToWithdraw])).toEqual([
+        ['share', 5000, 0],
+        ['savings', 13000, 12000],
+        ['welfare', 0, 0],
+      ]);
+    });
+
+    it('should return 404 for a member of another chama', async () => {
+      prisma.membership.findFirst.mockResolvedValue(null);
+
+      const res = await request(app).get('/funds/chama1/members/stranger');
+
+      expect(res.statusCode).toBe(404);
+    });
+  });
+});
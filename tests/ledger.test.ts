@@ -0,0 +1,313 @@
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaFunctions = {
+    ledgerAccount: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    journalEntry: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    journalLine: {
+      findMany: jest.fn(),
+      groupBy: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    contribution: {
+      findMany: jest.fn(),
+    },
+    loan: {
+      findMany: jest.fn(),
+    },
+  };
+
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mockPrismaFunctions),
+    MembershipRole: {
+      ADMIN: 'ADMIN',
+      TREASURER: 'TREASURER',
+      SECRETARY: 'SECRETARY',
+      MEMBER: 'MEMBER',
+    },
+  };
+});
+
+jest.mock('../src/middleware/auth.middleware', () => ({
+  protect: (req: Request, res: Response, next: NextFunction) => next(),
+}));
+
+jest.mock('../src/middleware/membership.middleware', () => ({
+  checkMembership: () => (req: Request, res: Response, next: NextFunction) => next(),
+}));
+
+import * as ledgerService from '../src/services/ledger.service';
+import ledgerRoutes from '../src/routes/ledger.routes';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient() as any;
+
+const app = express();
+app.use(express.json());
+app.use('/ledger', ledgerRoutes);
+
+const chartOfAccounts = [
+  { id: 'acc-cash', code: '1000', name: 'Cash & M-Pesa Float', type: 'ASSET', systemKey: 'CASH' },
+  { id: 'acc-loans', code: '1100', name: 'Loans Receivable', type: 'ASSET', systemKey: 'LOANS_RECEIVABLE' },
+  { id: 'acc-savings', code: '2000', name: 'Member Savings', type: 'LIABILITY', systemKey: 'MEMBER_SAVINGS' },
+  { id: 'acc-interest', code: '4000', name: 'Interest Income', type: 'INCOME', systemKey: 'INTEREST_INCOME' },
+  { id: 'acc-penalty', code: '4100', name: 'Penalty Income', type: 'INCOME', systemKey: 'PENALTY_INCOME' },
+  { id: 'acc-expenses', code: '5000', name: 'Operating Expenses', type: 'EXPENSE', systemKey: 'EXPENSES' },
+];
+
+describe('Ledger Module Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.ledgerAccount.findMany.mockResolvedValue(chartOfAccounts);
+    prisma.journalEntry.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'entry1', ...data }));
+  });
+
+  describe('Ledger Service Unit Tests', () => {
+    describe('postJournalEntry', () => {
+      it('should reject an unbalanced entry', async () => {
+        await expect(ledgerService.postJournalEntry({
+          chamaId: 'chama1',
+          description: 'Broken entry',
+          sourceType: 'ADJUSTMENT',
+          lines: [
+            { account: 'CASH', debit: 1000 },
+            { account: 'MEMBER_SAVINGS', credit: 900 },
+          ],
+        })).rejects.toThrow('Unbalanced journal entry');
+
+        expect(prisma.journalEntry.create).not.toHaveBeenCalled();
+      });
+
+      it('should provision the chart of accounts on first posting', async () => {
+        prisma.ledgerAccount.findMany
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce(chartOfAccounts);
+
+        await ledgerService.postJournalEntry({
+          chamaId: 'chama1',
+          description: 'Opening float',
+          sourceType: 'ADJUSTMENT',
+          lines: [
+            { account: 'CASH', debit: 500 },
+            { account: 'MEMBER_SAVINGS', credit: 500 },
+          ],
+        });
+
+        expect(prisma.ledgerAccount.createMany).toHaveBeenCalledWith({
+          data: expect.arrayContaining([
+            expect.objectContaining({ chamaId: 'chama1', systemKey: 'CASH', code: '1000' }),
+            expect.objectContaining({ chamaId: 'chama1', systemKey: 'EXPENSES', code: '5000' }),
+          ]),
+          skipDuplicates: true,
+        });
+        expect(prisma.journalEntry.create).toHaveBeenCalled();
+      });
+
+      it('should skip an entry whose lines are all zero', async () => {
+        const entry = await ledgerService.postJournalEntry({
+          chamaId: 'chama1',
+          description: 'Nothing to post',
+          sourceType: 'CONTRIBUTION',
+          lines: [
+            { account: 'CASH', debit: 0 },
+            { account: 'MEMBER_SAVINGS', credit: 0 },
+          ],
+        });
+
+        expect(entry).toBeNull();
+        expect(prisma.journalEntry.create).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('postContributionReceipt', () => {
+      it('should credit savings and charge the penalty against them', async () => {
+        const paidAt = new Date('2025-03-20');
+
+        await ledgerService.postContributionReceipt({
+          id: 'contribution1',
+          membershipId: 'membership1',
+          amount: 5000,
+          penaltyApplied: 250,
+          month: 3,
+          year: 2025,
+          paidAt,
+          mpesaCode: 'QWE123',
+        }, 'chama1');
+
+        const { data } = prisma.journalEntry.create.mock.calls[0][0];
+        expect(data).toMatchObject({
+          chamaId: 'chama1',
+          sourceType: 'CONTRIBUTION',
+          sourceId: 'contribution1',
+          reference: 'QWE123',
+          postedAt: paidAt,
+        });
+        expect(data.lines.create).toEqual([
+          { accountId: 'acc-cash', debit: 5000, credit: 0, membershipId: 'membership1' },
+          { accountId: 'acc-savings', debit: 0, credit: 5000, membershipId: 'membership1' },
+          { accountId: 'acc-savings', debit: 250, credit: 0, membershipId: 'membership1' },
+          { accountId: 'acc-penalty', debit: 0, credit: 250, membershipId: 'membership1' },
+        ]);
+      });
+    });
+
+    describe('postContributionAdjustment', () => {
+      it('should take a reduction back out of cash and savings', async () => {
+        await ledgerService.postContributionAdjustment({
+          id: 'contribution1',
+          membershipId: 'membership1',
+          month: 3,
+          year: 2025,
+        }, -1000, 0, 'chama1');
+
+        const { data } = prisma.journalEntry.create.mock.calls[0][0];
+        expect(data).toMatchObject({ sourceType: 'CONTRIBUTION', sourceId: 'contribution1' });
+        expect(data.lines.create).toEqual([
+          { accountId: 'acc-cash', debit: 0, credit: 1000, membershipId: 'membership1' },
+          { accountId: 'acc-savings', debit: 1000, credit: 0, membershipId: 'membership1' },
+        ]);
+      });
+    });
+
+    describe('splitLoanRepayment', () => {
+      const loan = { amount: 10000, repaymentAmount: 12000 };
+
+      it('should recognise interest in proportion to the total repayable', () => {
+        expect(ledgerService.splitLoanRepayment(loan, 1200, 0)).toEqual({
+          principal: 1000,
+          interest: 200,
+          overpayment: 0,
+        });
+      });
+
+      it('should treat anything beyond the outstanding balance as an overpayment', () => {
+        expect(ledgerService.splitLoanRepayment(loan, 1500, 11400)).toEqual({
+          principal: 500,
+          interest: 100,
+          overpayment: 900,
+        });
+      });
+    });
+
+    describe('reverseSourceEntries', () => {
+      it('should post offsetting lines for what is still on the books', async () => {
+        prisma.journalLine.findMany.mockResolvedValue([
+          { debit: 5000, credit: 0, membershipId: 'membership1', account: { systemKey: 'CASH' } },
+          { debit: 0, credit: 5000, membershipId: 'membership1', account: { systemKey: 'MEMBER_SAVINGS' } },
+        ]);
+
+        await ledgerService.reverseSourceEntries('chama1', 'CONTRIBUTION', 'contribution1', 'Reversal');
+
+        const { data } = prisma.journalEntry.create.mock.calls[0][0];
+        expect(data.lines.create).toEqual([
+          { accountId: 'acc-cash', debit: 0, credit: 5000, membershipId: 'membership1' },
+          { accountId: 'acc-savings', debit: 5000, credit: 0, membershipId: 'membership1' },
+        ]);
+      });
+
+      it('should post nothing once a source has already been reversed', async () => {
+        prisma.journalLine.findMany.mockResolvedValue([
+          { debit: 5000, credit: 0, membershipId: 'membership1', account: { systemKey: 'CASH' } },
+          { debit: 0, credit: 5000, membershipId: 'membership1', account: { systemKey: 'CASH' } },
+        ]);
+
+        const entry = await ledgerService.reverseSourceEntries('chama1', 'CONTRIBUTION', 'contribution1', 'Reversal');
+
+        expect(entry).toBeNull();
+        expect(prisma.journalEntry.create).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('getTrialBalance', () => {
+      it('should report each account on its normal side and balance the totals', async () => {
+        prisma.journalLine.groupBy.mockResolvedValue([
+          { accountId: 'acc-cash', _sum: { debit: 15000, credit: 5000 } },
+          { accountId: 'acc-loans', _sum: { debit: 5000, credit: 1000 } },
+          { accountId: 'acc-savings', _sum: { debit: 250, credit: 13000 } },
+          { accountId: 'acc-interest', _sum: { debit: 0, credit: 1000 } },
+          { accountId: 'acc-penalty', _sum: { debit: 0, credit: 250 } },
+        ]);
+
+        const trialBalance = await ledgerService.getTrialBalance('chama1', new Date('2025-12-31'));
+
+        expect(trialBalance.accounts).toEqual(expect.arrayContaining([
+          { code: '1000', name: 'Cash & M-Pesa Float', type: 'ASSET', debit: 10000, credit: 0, balance: 10000 },
+          { code: '2000', name: 'Member Savings', type: 'LIABILITY', debit: 0, credit: 12750, balance: 12750 },
+          { code: '5000', name: 'Operating Expenses', type: 'EXPENSE', debit: 0, credit: 0, balance: 0 },
+        ]));
+        expect(trialBalance.totalDebit).toBe(14000);
+        expect(trialBalance.totalCredit).toBe(14000);
+        expect(trialBalance.isBalanced).toBe(true);
+      });
+    });
+
+    describe('rebuildLedger', () => {
+      it('should only post records that are not already on the ledger', async () => {
+        prisma.journalEntry.findMany.mockResolvedValue([
+          { sourceType: 'CONTRIBUTION', sourceId: 'contribution1' },
+        ]);
+        prisma.contribution.findMany.mockResolvedValue([
+          { id: 'contribution1', membershipId: 'membership1', amount: 1000, penaltyApplied: 0, month: 1, year: 2025, paidAt: new Date(), mpesaCode: null },
+          { id: 'contribution2', membershipId: 'membership1', amount: 1000, penaltyApplied: 0, month: 2, year: 2025, paidAt: new Date(), mpesaCode: null },
+        ]);
+        prisma.loan.findMany.mockResolvedValue([
+          {
+            id: 'loan1',
+            membershipId: 'membership1',
+            amount: 10000,
+            repaymentAmount: 12000,
+            disbursedAt: new Date(),
+            payments: [{ id: 'payment1', amount: 1200, paidAt: new Date(), mpesaCode: null }],
+          },
+        ]);
+
+        const result = await ledgerService.rebuildLedger('chama1');
+
+        expect(result).toEqual({ contributions: 1, disbursements: 1, repayments: 1 });
+        expect(prisma.journalEntry.create).toHaveBeenCalledTimes(3);
+      });
+    });
+  });
+
+  describe('Ledger Routes', () => {
+    it('GET /ledger/trial-balance/:chamaId should return the trial balance', async () => {
+      prisma.journalLine.groupBy.mockResolvedValue([]);
+
+      const res = await request(app).get('/ledger/trial-balance/chama1?asOf=2025-12-31');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.isBalanced).toBe(true);
+      expect(res.body.data.accounts).toHaveLength(chartOfAccounts.length);
+    });
+
+    it('GET /ledger/trial-balance/:chamaId should reject an invalid asOf date', async () => {
+      const res = await request(app).get('/ledger/trial-balance/chama1?asOf=not-a-date');
+
+      expect(res.status).toBe(400);
+      expect(prisma.journalLine.groupBy).not.toHaveBeenCalled();
+    });
+
+    it('GET /ledger/journal/:chamaId should return paginated journal entries', async () => {
+      prisma.journalEntry.findMany.mockResolvedValue([{ id: 'entry1', lines: [] }]);
+      prisma.journalEntry.count.mockResolvedValue(1);
+
+      const res = await request(app).get('/ledger/journal/chama1?sourceType=CONTRIBUTION&limit=10');
+
+      expect(res.status).toBe(200);
+      expect(res.body.meta).toEqual({ page: 1, limit: 10, totalRecords: 1, totalPages: 1 });
+      expect(prisma.journalEntry.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ chamaId: 'chama1', sourceType: 'CONTRIBUTION' }),
+        take: 10,
+      }));
+    });
+  });
+});
@@ -1,7 +1,9 @@
-import { PrismaClient, Loan, LoanStatus, Membership, User, Chama, Contribution, MembershipRole, Prisma } from '@prisma/client';
+import { PrismaClient, Loan, LoanStatus, Membership, User, Chama, ChamaSettings, Contribution, MembershipRole, Prisma } from '@prisma/client';
 import { addMonths } from 'date-fns';
 import * as loanService from '../src/services/loan.service';
 import { createAuditLog } from '../src/services/audit.service';
+import { postLoanDisbursement, postLoanRepayment } from '../src/services/ledger.service';
+import { createNotification } from '../src/services/notification.service';
 import request from 'supertest';
 import express, { Request, Response, NextFunction } from 'express';
 import loanRoutes from '../src/routes/loan.routes';
@@ -11,6 +13,16 @@ jest.mock('../src/services/audit.service', () => ({
     createAuditLog: jest.fn().mockResolvedValue(undefined),
 }));
 
+jest.mock('../src/services/ledger.service', () => ({
+    postLoanDisbursement: jest.fn().mockResolvedValue(null),
+    postLoanRepayment: jest.fn().mockResolvedValue(null),
+    splitLoanRepayment: jest.requireActual('../src/services/ledger.service').splitLoanRepayment,
+}));
+
+jest.mock('../src/services/notification.service', () => ({
+    createNotification: jest.fn().mockResolvedValue({}),
+}));
+
 // Mock the auth middleware
 jest.mock('../src/middleware/auth.middleware', () => ({
     protect: (req: Request, res: Response, next: NextFunction) => {
@@ -29,15 +41,37 @@ jest.mock('@prisma/client', () => {
             findMany: jest.fn(),
             aggregate: jest.fn(),
         },
-        contribution: {
+        fundAllocation: {
             aggregate: jest.fn(),
         },
         membership: {
             findFirst: jest.fn(),
             findUnique: jest.fn(),
+            findMany: jest.fn(),
+        },
+        chama: {
+            findUnique: jest.fn(),
+        },
+        chamaSettings: {
+            findUnique: jest.fn(),
+            upsert: jest.fn(),
         },
         loanPayment: {
             create: jest.fn(),
+            aggregate: jest.fn(),
+        },
+        loanGuarantor: {
+            aggregate: jest.fn(),
+            findFirst: jest.fn(),
+            update: jest.fn(),
+        },
+        loanInstallment: {
+            createMany: jest.fn(),
+            findMany: jest.fn(),
+            findFirst: jest.fn(),
+            update: jest.fn(),
+            updateMany: jest.fn(),
+            deleteMany: jest.fn(),
         },
         $transaction: jest.fn(),
     };
@@ -51,6 +85,27 @@ jest.mock('@prisma/client', () => {
             PAID: 'PAID',
             DEFAULTED: 'DEFAULTED',
         },
+        GuarantorStatus: {
+            PENDING: 'PENDING',
+            ACCEPTED: 'ACCEPTED',
+            DECLINED: 'DECLINED',
+        },
+        InstallmentStatus: {
+            PENDING: 'PENDING',
+            PARTIAL: 'PARTIAL',
+            PAID: 'PAID',
+            OVERDUE: 'OVERDUE',
+        },
+        NotificationType: {
+            LOAN_INSTALLMENT_DUE: 'LOAN_INSTALLMENT_DUE',
+            LOAN_GUARANTEE: 'LOAN_GUARANTEE',
+            LOAN_PENALTY: 'LOAN_PENALTY',
+            LOAN_DEFAULT: 'LOAN_DEFAULT',
+        },
+        PenaltyPeriod: {
+            DAILY: 'DAILY',
+            MONTHLY: 'MONTHLY',
+        },
         MembershipRole: {
             ADMIN: 'ADMIN',
             MEMBER: 'MEMBER',
@@ -70,6 +125,10 @@ jest.mock('@prisma/client', () => {
             LOAN_REPAYMENT: 'LOAN_REPAYMENT',
             LOAN_RESTRUCTURE: 'LOAN_RESTRUCTURE',
             LOAN_DISBURSE: 'LOAN_DISBURSE',
+            LOAN_GUARANTEE_ACCEPT: 'LOAN_GUARANTEE_ACCEPT',
+            LOAN_GUARANTEE_DECLINE: 'LOAN_GUARANTEE_DECLINE',
+            LOAN_PENALTY_APPLY: 'LOAN_PENALTY_APPLY',
+            LOAN_DEFAULT: 'LOAN_DEFAULT',
         },
         Prisma: {
             Decimal: jest.fn((value) => ({
@@ -94,6 +153,7 @@ let mockMemberships: Membership[];
 let mockContributions: Contribution[];
 let mockLoans: Loan[];
 let mockLoanPayments: any[];
+let mockSettings: ChamaSettings;
 
 beforeEach(() => {
     jest.clearAllMocks();
@@ -112,6 +172,17 @@ beforeEach(() => {
             emailVerificationToken: null,
             passwordResetToken: null,
             passwordResetTokenExpires: null,
+            isPhoneVerified: false,
+            pin: null,
+            failedPinAttempts: 0,
+            pinLockedUntil: null,
+            failedLoginAttempts: 0,
+            lockedUntil: null,
+            twoFactorMethod: null,
+            twoFactorSecret: null,
+            failedTwoFactorAttempts: 0,
+            twoFactorLockedUntil: null,
+            lastTotpStep: null,
             createdAt: new Date(), 
             updatedAt: new Date(),
             deletedAt: null,
@@ -129,6 +200,17 @@ beforeEach(() => {
             emailVerificationToken: null,
             passwordResetToken: null,
             passwordResetTokenExpires: null,
+            isPhoneVerified: false,
+            pin: null,
+            failedPinAttempts: 0,
+            pinLockedUntil: null,
+            failedLoginAttempts: 0,
+            lockedUntil: null,
+            twoFactorMethod: null,
+            twoFactorSecret: null,
+            failedTwoFactorAttempts: 0,
+            twoFactorLockedUntil: null,
+            lastTotpStep: null,
             createdAt: new Date(), 
             updatedAt: new Date(),
             deletedAt: null,
@@ -154,6 +236,7 @@ beforeEach(() => {
             id: 'membership1', 
             userId: 'user1', 
             chamaId: 'chama1', 
+            memberNumber: 1,
             role: MembershipRole.ADMIN,
             isActive: true,
             joinedAt: new Date(),
@@ -162,6 +245,7 @@ beforeEach(() => {
             id: 'membership2', 
             userId: 'user2', 
             chamaId: 'chama1', 
+            memberNumber: 2,
             role: MembershipRole.MEMBER,
             isActive: true,
             joinedAt: new Date(),
@@ -172,6 +256,7 @@ beforeEach(() => {
         { 
             id: 'contrib1', 
             amount: 5000, 
+            expectedAmount: 5000,
             membershipId: 'membership1', 
             paidAt: new Date(), 
             status: 'PAID' as any,
@@ -181,10 +266,12 @@ beforeEach(() => {
             paymentMethod: 'MPESA',
             mpesaCode: null,
             penaltyApplied: null,
+            periodId: null,
         },
         { 
             id: 'contrib2', 
             amount: 10000, 
+            expectedAmount: 10000,
             membershipId: 'membership2', 
             paidAt: new Date(), 
             status: 'PAID' as any,
@@ -194,11 +281,43 @@ beforeEach(() => {
             paymentMethod: 'MPESA',
             mpesaCode: null,
             penaltyApplied: null,
+            periodId: null,
         },
     ];
 
+    mockSettings = {
+        id: 'settings1',
+        chamaId: 'chama1',
+        contributionFrequency: 'MONTHLY',
+        contributionDeadlineDay: 15,
+        penaltyType: 'PERCENTAGE',
+        penaltyAmount: 0.05,
+        penaltyCap: null,
+        loanEligibilityMultiplier: 3,
+        maxLoanDuration: 24,
+        defaultInterestRate: 0.12,
+        loanInterestMethod: 'FLAT',
+        loanGracePeriodDays: 7,
+        loanPenaltyRate: 0.05,
+        loanPenaltyPeriod: 'MONTHLY',
+        loanDefaultAfter: 2,
+        cycleStartDate: null,
+        requireStepUp: false,
+        updatedAt: new Date(),
+    };
+
     mockLoans = [];
     mockLoanPayments = [];
+
+    (prisma.$transaction as jest.Mock).mockImplementation(async (callback) => callback(prisma));
+    (prisma.loanInstallment.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.loanInstallment.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+    (prisma.loanPayment.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: null }, _max: { paidAt: null } });
+    // Enough savings by default that approval is not held up waiting for guarantors.
+    (prisma.fundAllocation.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 100000 } });
+    (prisma.loanGuarantor.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: null } });
+    (prisma.membership.findUnique as jest.Mock).mockResolvedValue({ chamaId: 'chama1' });
+    (prisma.chamaSettings.upsert as jest.Mock).mockResolvedValue(mockSettings);
 });
 
 describe('Loan Module', () => {
@@ -208,7 +327,7 @@ describe('Loan Module', () => {
                 const requestedAmount = 15000;
                 const expectedMaxLoanable = 5000 * 3; // 15000
     
-                (prisma.contribution.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
+                (prisma.fundAllocation.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
     
                 const { isEligible, maxLoanable } = await loanService.calculateEligibility('membership1', requestedAmount);
     
@@ -220,13 +339,51 @@ describe('Loan Module', () => {
                 const requestedAmount = 20000;
                 const expectedMaxLoanable = 5000 * 3; // 15000
     
-                (prisma.contribution.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
+                (prisma.fundAllocation.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
     
                 const { isEligible, maxLoanable } = await loanService.calculateEligibility('membership1', requestedAmount);
     
                 expect(isEligible).toBe(false);
                 expect(maxLoanable).toEqual(expectedMaxLoanable);
             });
+
+            it('should only count savings funds towards eligibility', async () => {
+                (prisma.fundAllocation.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
+
+                await loanService.calculateEligibility('membership1', 1000);
+
+                expect(prisma.fundAllocation.aggregate).toHaveBeenCalledWith({
+                    _sum: { amount: true },
+                    where: { membershipId: 'membership1', fund: { type: 'SAVINGS' } },
+                });
+            });
+
+            it('should exclude savings pledged as guarantor on outstanding loans', async () => {
+                (prisma.fundAllocation.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 10000 } });
+                (prisma.loanGuarantor.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 4000 } });
+
+                const eligibility = await loanService.calculateEligibility('membership1', 20000);
+
+                expect(eligibility).toEqual({ isEligible: false, maxLoanable: 18000, lockedSavings: 4000 });
+                expect(prisma.loanGuarantor.aggregate).toHaveBeenCalledWith({
+                    _sum: { amount: true },
+                    where: {
+                        membershipId: 'membership1',
+                        status: 'ACCEPTED',
+                        loan: { status: { in: ['PENDING', 'APPROVED', 'ACTIVE', 'DEFAULTED'] } },
+                    },
+                });
+            });
+
+            it("should use the chama's eligibility multiplier", async () => {
+                (prisma.fundAllocation.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
+                (prisma.chamaSettings.upsert as jest.Mock).mockResolvedValue({ ...mockSettings, loanEligibilityMultiplier: 1.5 });
+
+                const { maxLoanable } = await loanService.calculateEligibility('membership1', 5000);
+
+                expect(maxLoanable).toBe(7500);
+                expect(prisma.chamaSettings.upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { chamaId: 'chama1' } }));
+            });
         });
     
         describe('generateRepaymentSchedule', () => {
@@ -235,6 +392,7 @@ describe('Loan Module', () => {
                     id: 'loan1',
                     amount: 12000,
                     interestRate: 0.1,
+                    interestMethod: 'FLAT',
                     duration: 12,
                     status: LoanStatus.ACTIVE,
                     membershipId: 'membership1',
@@ -256,9 +414,102 @@ describe('Loan Module', () => {
                 expect(schedule[0].payment).toBe(1100);
                 expect(schedule[11].balance).toBeCloseTo(0);
             });
+
+            it('should generate a reducing-balance schedule that agrees with the repayment amount', () => {
+                const loan: Loan = {
+                    id: 'loan1',
+                    amount: 12000,
+                    interestRate: 0.12,
+                    interestMethod: 'REDUCING_BALANCE',
+                    duration: 12,
+                    status: LoanStatus.ACTIVE,
+                    membershipId: 'membership1',
+                    approvedAt: new Date('2023-01-01'),
+                    disbursedAt: new Date('2023-01-01'),
+                    repaymentAmount: 12780,
+                    monthlyInstallment: 1120,
+                    isRestructured: false,
+                    restructureNotes: null,
+                    dueDate: addMonths(new Date('2023-01-01'), 1),
+                    appliedAt: new Date('2022-12-01'),
+                    purpose: 'Business',
+                    mpesaB2CRequestId: null,
+                };
+
+                const schedule = loanService.generateRepaymentSchedule(loan);
+
+                expect(schedule[0]).toMatchObject({ payment: 1120, principal: 1000, interest: 120 });
+                expect(schedule[11]).toMatchObject({ payment: 1010, principal: 1000, interest: 10, balance: 0 });
+                expect(schedule.reduce((sum, row) => sum + row.payment, 0)).toBeCloseTo(12780);
+            });
+        });
+
+        describe('calculateLoanTerms', () => {
+            it('should charge flat interest on the original principal', () => {
+                const terms = loanService.calculateLoanTerms(10000, 0.1, 12, 'FLAT');
+
+                expect(terms.repaymentAmount).toBe(11000);
+                expect(terms.totalInterest).toBe(1000);
+                expect(terms.installments.reduce((sum, i) => sum + i.principal, 0)).toBeCloseTo(10000);
+            });
+
+            it('should charge less interest on a reducing balance than flat', () => {
+                const terms = loanService.calculateLoanTerms(12000, 0.12, 12, 'REDUCING_BALANCE');
+
+                expect(terms.totalInterest).toBe(780);
+                expect(terms.repaymentAmount).toBe(12780);
+                expect(terms.monthlyInstallment).toBe(1120);
+            });
+
+            it('should produce equal installments for an amortized loan', () => {
+                const terms = loanService.calculateLoanTerms(12000, 0.12, 12, 'AMORTIZED');
+
+                expect(terms.monthlyInstallment).toBeCloseTo(1066.19, 2);
+                terms.installments.slice(0, 11).forEach(i => expect(i.payment).toBeCloseTo(1066.19, 2));
+                expect(terms.installments[11].principalBalance).toBe(0);
+                expect(terms.repaymentAmount).toBeCloseTo(12794.2, 0);
+            });
+
+            it('should spread principal evenly when the interest rate is zero', () => {
+                const terms = loanService.calculateLoanTerms(1200, 0, 12, 'AMORTIZED');
+
+                expect(terms.totalInterest).toBe(0);
+                expect(terms.monthlyInstallment).toBe(100);
+            });
         });
     
         describe('applyForLoan', () => {
+            beforeEach(() => {
+                (prisma.membership.findFirst as jest.Mock).mockResolvedValue({
+                    ...mockMemberships[0],
+                    chama: mockChamas[0],
+                    user: { firstName: 'John', lastName: 'Doe' },
+                });
+            });
+
+            it("should apply the chama's default interest rate when none is given", async () => {
+                (prisma.loan.create as jest.Mock).mockResolvedValue({ id: 'loan1' });
+
+                await loanService.applyForLoan(
+                    { amount: 5000, duration: 6, purpose: 'School fees', membership: { connect: { id: 'membership1' } } },
+                    'membership1', 'user1', {}
+                );
+
+                expect(prisma.loan.create).toHaveBeenCalledWith({
+                    data: expect.objectContaining({ interestRate: 0.12, interestMethod: 'FLAT' }),
+                });
+            });
+
+            it("should reject a duration longer than the chama's maximum", async () => {
+                (prisma.chamaSettings.upsert as jest.Mock).mockResolvedValue({ ...mockSettings, maxLoanDuration: 6 });
+
+                await expect(loanService.applyForLoan(
+                    { amount: 5000, duration: 12, purpose: 'School fees', interestRate: 0.1, membership: { connect: { id: 'membership1' } } },
+                    'membership1', 'user1', {}
+                )).rejects.toThrow('Loan duration cannot exceed 6 months.');
+                expect(prisma.loan.create).not.toHaveBeenCalled();
+            });
+
             it('should successfully apply for a loan if eligible', async () => {
                 const loanData = {
                     amount: 10000,
@@ -288,15 +539,20 @@ describe('Loan Module', () => {
     
                 (prisma.membership.findFirst as jest.Mock).mockResolvedValue({
                     ...mockMemberships[0],
-                    chamaId: 'chama1'
+                    chamaId: 'chama1',
+                    chama: mockChamas[0]
                 });
-                (prisma.contribution.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
+                (prisma.chamaSettings.upsert as jest.Mock).mockResolvedValue({ ...mockSettings, loanInterestMethod: 'REDUCING_BALANCE' });
+                (prisma.fundAllocation.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
                 (prisma.loan.create as jest.Mock).mockResolvedValue(newLoan);
     
     
                 const result = await loanService.applyForLoan(loanData, 'membership1', 'user1', {});
     
                 expect(result).toEqual(newLoan);
+                expect(prisma.loan.create).toHaveBeenCalledWith({
+                    data: { ...loanData, interestMethod: 'REDUCING_BALANCE' }
+                });
                 expect(createAuditLog).toHaveBeenCalled();
             });
     
@@ -310,18 +566,106 @@ describe('Loan Module', () => {
                 };
     
                 (prisma.membership.findFirst as jest.Mock).mockResolvedValue(mockMemberships[0]);
-                (prisma.contribution.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
+                (prisma.fundAllocation.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
     
                 await expect(loanService.applyForLoan(loanData, 'membership1', 'user1', {})).rejects.toThrow('Loan application rejected.');
             });
+
+            it('should accept an application above the limit when guarantor pledges cover the shortfall', async () => {
+                const loanData = {
+                    amount: 20000,
+                    duration: 12,
+                    purpose: 'Business',
+                    interestRate: 0.1,
+                    membership: { connect: { id: 'membership1' } },
+                };
+
+                (prisma.membership.findFirst as jest.Mock)
+                    .mockResolvedValueOnce({ ...mockMemberships[0], chamaId: 'chama1', chama: mockChamas[0], user: { firstName: 'John', lastName: 'Doe' } })
+                    .mockResolvedValueOnce(mockMemberships[1]);
+                (prisma.fundAllocation.aggregate as jest.Mock)
+                    .mockResolvedValueOnce({ _sum: { amount: 5000 } })
+                    .mockResolvedValueOnce({ _sum: { amount: 8000 } });
+                (prisma.loan.create as jest.Mock).mockResolvedValue({ id: 'loan1', ...loanData });
+
+                await loanService.applyForLoan(loanData, 'membership1', 'user1', {}, [{ membershipId: 'membership2', amount: 5000 }]);
+
+                expect(prisma.loan.create).toHaveBeenCalledWith({
+                    data: expect.objectContaining({
+                        guarantors: { create: [{ amount: 5000, membership: { connect: { id: 'membership2' } } }] },
+                    }),
+                });
+                expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({
+                    membershipId: 'membership2',
+                    type: 'LOAN_GUARANTEE',
+                }));
+            });
+
+            it('should reject an application whose guarantor pledges do not cover the shortfall', async () => {
+                const loanData = {
+                    amount: 20000,
+                    duration: 12,
+                    purpose: 'Business',
+                    interestRate: 0.1,
+                    membership: { connect: { id: 'membership1' } },
+                };
+
+                (prisma.membership.findFirst as jest.Mock).mockResolvedValue({ ...mockMemberships[0], chama: mockChamas[0] });
+                (prisma.fundAllocation.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
+
+                await expect(loanService.applyForLoan(loanData, 'membership1', 'user1', {}, [{ membershipId: 'membership2', amount: 2000 }]))
+                    .rejects.toThrow('Guarantor pledges of 2000.00 do not cover the 5000.00 above your limit');
+                expect(prisma.loan.create).not.toHaveBeenCalled();
+            });
+
+            it('should not let an applicant guarantee their own loan', async () => {
+                const loanData = {
+                    amount: 10000,
+                    duration: 12,
+                    purpose: 'Business',
+                    interestRate: 0.1,
+                    membership: { connect: { id: 'membership1' } },
+                };
+
+                (prisma.membership.findFirst as jest.Mock).mockResolvedValue({ ...mockMemberships[0], chama: mockChamas[0] });
+
+                await expect(loanService.applyForLoan(loanData, 'membership1', 'user1', {}, [{ membershipId: 'membership1', amount: 1000 }]))
+                    .rejects.toThrow('You cannot guarantee your own loan.');
+            });
         });
     
         describe('approveOrRejectLoan', () => {
+            it('should refuse approval until accepted pledges cover the amount above the applicant\'s limit', async () => {
+                (prisma.loan.findUnique as jest.Mock).mockResolvedValue({
+                    id: 'loan1',
+                    amount: 20000,
+                    interestRate: 0.1,
+                    interestMethod: 'FLAT',
+                    duration: 12,
+                    status: LoanStatus.PENDING,
+                    membershipId: 'membership1',
+                    membership: { chamaId: 'chama1' },
+                });
+                (prisma.fundAllocation.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
+                (prisma.loanGuarantor.aggregate as jest.Mock)
+                    .mockResolvedValueOnce({ _sum: { amount: null } })
+                    .mockResolvedValueOnce({ _sum: { amount: 3000 } });
+
+                await expect(loanService.approveOrRejectLoan('loan1', LoanStatus.APPROVED, 'user1', {}))
+                    .rejects.toThrow('Loan cannot be approved until accepted guarantor pledges cover 5000.00. Currently covered: 3000.00.');
+                expect(prisma.loanGuarantor.aggregate).toHaveBeenLastCalledWith({
+                    _sum: { amount: true },
+                    where: { loanId: 'loan1', status: 'ACCEPTED' },
+                });
+                expect(prisma.loan.update).not.toHaveBeenCalled();
+            });
+
             it('should approve a pending loan', async () => {
                 const loan: Loan & { membership: { chamaId: string } } = {
                     id: 'loan1',
                     amount: 10000,
                     interestRate: 0.1,
+                    interestMethod: 'FLAT',
                     duration: 10,
                     disbursedAt: null,
                     status: LoanStatus.PENDING,
@@ -346,12 +690,39 @@ describe('Loan Module', () => {
                 expect(result.status).toBe(LoanStatus.APPROVED);
                 expect(createAuditLog).toHaveBeenCalled();
             });
+
+            it('should price the loan with an overriding interest method on approval', async () => {
+                const loan = {
+                    id: 'loan1',
+                    amount: 12000,
+                    interestRate: 0.12,
+                    interestMethod: 'FLAT',
+                    duration: 12,
+                    status: LoanStatus.PENDING,
+                    membership: { chamaId: 'chama1' }
+                };
+                (prisma.loan.findUnique as jest.Mock).mockResolvedValue(loan);
+                (prisma.loan.update as jest.Mock).mockResolvedValue({ ...loan, status: LoanStatus.APPROVED });
+
+                await loanService.approveOrRejectLoan('loan1', LoanStatus.APPROVED, 'user1', {}, 'REDUCING_BALANCE');
+
+                expect(prisma.loan.update).toHaveBeenCalledWith({
+                    where: { id: 'loan1' },
+                    data: expect.objectContaining({
+                        status: LoanStatus.APPROVED,
+                        interestMethod: 'REDUCING_BALANCE',
+                        repaymentAmount: 12780,
+                        monthlyInstallment: 1120,
+                    }),
+                });
+            });
     
             it('should reject a pending loan', async () => {
                 const loan: Loan & { membership: { chamaId: string } } = {
                     id: 'loan1',
                     amount: 10000,
                     interestRate: 0.1,
+                    interestMethod: 'FLAT',
                     duration: 10,
                     disbursedAt: null,
                     status: LoanStatus.PENDING,
@@ -378,12 +749,58 @@ describe('Loan Module', () => {
             });
         });
     
+        describe('respondToGuaranteeRequest', () => {
+            const guarantor = {
+                id: 'guarantor1',
+                amount: 5000,
+                status: 'PENDING',
+                loanId: 'loan1',
+                membershipId: 'membership2',
+                loan: { id: 'loan1', status: LoanStatus.PENDING, membershipId: 'membership1', membership: { chamaId: 'chama1' } },
+            };
+
+            it('should record an accepted pledge and tell the applicant', async () => {
+                (prisma.loanGuarantor.findFirst as jest.Mock).mockResolvedValue(guarantor);
+                (prisma.loanGuarantor.update as jest.Mock).mockResolvedValue({ ...guarantor, status: 'ACCEPTED' });
+
+                await loanService.respondToGuaranteeRequest('loan1', 'ACCEPTED', 'user2', {});
+
+                expect(prisma.loanGuarantor.update).toHaveBeenCalledWith({
+                    where: { id: 'guarantor1' },
+                    data: { status: 'ACCEPTED', respondedAt: expect.any(Date) },
+                });
+                expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'LOAN_GUARANTEE_ACCEPT', loanId: 'loan1' }));
+                expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({
+                    membershipId: 'membership1',
+                    title: 'Loan Guarantee Accepted',
+                }));
+            });
+
+            it('should refuse a pledge larger than the guarantor\'s free savings', async () => {
+                (prisma.loanGuarantor.findFirst as jest.Mock).mockResolvedValue(guarantor);
+                (prisma.fundAllocation.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 8000 } });
+                (prisma.loanGuarantor.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 4000 } });
+
+                await expect(loanService.respondToGuaranteeRequest('loan1', 'ACCEPTED', 'user2', {}))
+                    .rejects.toThrow('You can pledge at most 4000.00 of your savings.');
+                expect(prisma.loanGuarantor.update).not.toHaveBeenCalled();
+            });
+
+            it('should refuse a second response', async () => {
+                (prisma.loanGuarantor.findFirst as jest.Mock).mockResolvedValue({ ...guarantor, status: 'DECLINED' });
+
+                await expect(loanService.respondToGuaranteeRequest('loan1', 'ACCEPTED', 'user2', {}))
+                    .rejects.toThrow('You have already responded to this guarantee request.');
+            });
+        });
+
         describe('disburseLoan', () => {
             it('should disburse an approved loan', async () => {
                 const loan: Loan & { membership: { chamaId: string } } = { 
                     id: 'loan1', 
                     amount: 10000, 
                     interestRate: 0.1,
+                    interestMethod: 'FLAT',
                     duration: 12,
                     approvedAt: new Date(),
                     repaymentAmount: 11000,
@@ -401,21 +818,32 @@ describe('Loan Module', () => {
                 };
                 const updatedLoan = { ...loan, status: LoanStatus.ACTIVE, disbursedAt: expect.any(Date) };
     
+                const tx = {
+                    loan: {
+                        update: jest.fn().mockResolvedValue(updatedLoan),
+                    },
+                    transaction: {
+                        create: jest.fn().mockResolvedValue({}),
+                    },
+                    loanInstallment: {
+                        createMany: jest.fn().mockResolvedValue({ count: 12 }),
+                    },
+                };
                 (prisma.loan.findUnique as jest.Mock).mockResolvedValue(loan);
-                (prisma.$transaction as jest.Mock).mockImplementation(async (callback) => {
-                    const tx = {
-                        loan: {
-                            update: jest.fn().mockResolvedValue(updatedLoan),
-                        },
-                        transaction: {
-                            create: jest.fn().mockResolvedValue({}),
-                        },
-                    };
-                    return await callback(tx);
-                });
+                (prisma.$transaction as jest.Mock).mockImplementation(async (callback) => callback(tx));
     
                 const result = await loanService.disburseLoan('loan1', 'user1', {});
                 expect(result.status).toBe(LoanStatus.ACTIVE);
+
+                const { data: installments } = tx.loanInstallment.createMany.mock.calls[0][0];
+                expect(installments).toHaveLength(12);
+                expect(installments[0]).toMatchObject({ loanId: 'loan1', installmentNumber: 1 });
+                expect(installments.reduce((sum: number, i: any) => sum + i.amountDue, 0)).toBeCloseTo(11000, 2);
+                expect(tx.loan.update).toHaveBeenCalledWith({
+                    where: { id: 'loan1' },
+                    data: expect.objectContaining({ status: LoanStatus.ACTIVE, dueDate: installments[0].dueDate }),
+                });
+                expect(postLoanDisbursement).toHaveBeenCalledWith(updatedLoan, 'chama1', expect.any(Object));
                 expect(createAuditLog).toHaveBeenCalled();
             });
     
@@ -424,6 +852,7 @@ describe('Loan Module', () => {
                     id: 'loan1', 
                     amount: 10000, 
                     interestRate: 0.1,
+                    interestMethod: 'FLAT',
                     duration: 12,
                     approvedAt: null,
                     repaymentAmount: 11000,
@@ -444,6 +873,25 @@ describe('Loan Module', () => {
             });
         });
     
+        describe('getNextInstallmentAmount', () => {
+            it('should return what is left of the earliest unpaid installment', async () => {
+                (prisma.loanInstallment.findFirst as jest.Mock).mockResolvedValue({ id: 'inst2', amountDue: 1100, amountPaid: 400 });
+
+                await expect(loanService.getNextInstallmentAmount('loan1')).resolves.toBe(700);
+                expect(prisma.loanInstallment.findFirst).toHaveBeenCalledWith({
+                    where: { loanId: 'loan1', status: { not: 'PAID' } },
+                    orderBy: { installmentNumber: 'asc' },
+                });
+            });
+
+            it('should cap the monthly installment at the balance for loans without stored installments', async () => {
+                (prisma.loanInstallment.findFirst as jest.Mock).mockResolvedValue(null);
+                (prisma.loan.findUnique as jest.Mock).mockResolvedValue({ id: 'loan1', amount: 10000, repaymentAmount: 11000, monthlyInstallment: 1100, payments: [{ amount: 10450 }] });
+
+                await expect(loanService.getNextInstallmentAmount('loan1')).resolves.toBe(550);
+            });
+        });
+    
         describe('recordLoanPayment', () => {
             it('should record a payment and update loan status if fully paid', async () => {
                 const loan: Loan & { payments: { amount: number }[], membership: { chamaId: string } } = {
@@ -454,6 +902,7 @@ describe('Loan Module', () => {
                     membershipId: 'membership1',
                     amount: 10000,
                     interestRate: 0.1,
+                    interestMethod: 'FLAT',
                     duration: 10,
                     approvedAt: new Date(),
                     disbursedAt: new Date(),
@@ -473,8 +922,9 @@ describe('Loan Module', () => {
                 };
     
                 (prisma.loan.findUnique as jest.Mock).mockResolvedValue(loan);
-                (prisma.loanPayment.create as jest.Mock).mockResolvedValue({});
+                (prisma.loanPayment.create as jest.Mock).mockResolvedValue({ id: 'payment1', amount: 1000 });
                 (prisma.loan.update as jest.Mock).mockResolvedValue({ ...loan, status: LoanStatus.PAID });
+                (prisma.$transaction as jest.Mock).mockImplementation(async (callback) => callback(prisma));
     
                 await loanService.recordLoanPayment('loan1', paymentData, 'user1', {});
     
@@ -483,17 +933,108 @@ describe('Loan Module', () => {
                     where: { id: 'loan1' },
                     data: { status: LoanStatus.PAID, dueDate: null }
                 });
+                expect(postLoanRepayment).toHaveBeenCalledWith(
+                    { id: 'payment1', amount: 1000 },
+                    loan,
+                    { principal: 1000, interest: 0, overpayment: 0 },
+                    'chama1',
+                    prisma
+                );
                 expect(createAuditLog).toHaveBeenCalled();
             });
+
+            it('should allocate a payment to the oldest installments, interest before principal', async () => {
+                const paidAt = new Date();
+                const installments = [
+                    { id: 'inst1', installmentNumber: 1, dueDate: new Date('2025-02-01'), principalDue: 1000, interestDue: 100, penaltyDue: 0, amountDue: 1100, principalPaid: 0, interestPaid: 0, penaltyPaid: 0, amountPaid: 0, status: 'OVERDUE' },
+                    { id: 'inst2', installmentNumber: 2, dueDate: addMonths(new Date(), 1), principalDue: 1000, interestDue: 100, penaltyDue: 0, amountDue: 1100, principalPaid: 0, interestPaid: 0, penaltyPaid: 0, amountPaid: 0, status: 'PENDING' },
+                ];
+                (prisma.loan.findUnique as jest.Mock).mockResolvedValue({
+                    id: 'loan1',
+                    status: LoanStatus.ACTIVE,
+                    amount: 2000,
+                    repaymentAmount: 2200,
+                    payments: [],
+                    membership: { chamaId: 'chama1' },
+                });
+                (prisma.loanPayment.create as jest.Mock).mockResolvedValue({ id: 'payment1', amount: 1500, paidAt });
+                (prisma.loanInstallment.findMany as jest.Mock).mockResolvedValue(installments);
+
+                await loanService.recordLoanPayment('loan1', { amount: 1500, paymentMethod: 'CASH' }, 'user1', {});
+
+                expect(prisma.loanInstallment.update).toHaveBeenCalledWith({
+                    where: { id: 'inst1' },
+                    data: { penaltyPaid: 0, interestPaid: 100, principalPaid: 1000, amountPaid: 1100, status: 'PAID', paidAt },
+                });
+                expect(prisma.loanInstallment.update).toHaveBeenCalledWith({
+                    where: { id: 'inst2' },
+                    data: { penaltyPaid: 0, interestPaid: 100, principalPaid: 300, amountPaid: 400, status: 'PARTIAL', paidAt: null },
+                });
+                expect(prisma.loan.update).toHaveBeenCalledWith({
+                    where: { id: 'loan1' },
+                    data: { dueDate: installments[1].dueDate },
+                });
+                expect(postLoanRepayment).toHaveBeenCalledWith(
+                    expect.objectContaining({ id: 'payment1' }),
+                    expect.objectContaining({ id: 'loan1' }),
+                    { principal: 1300, interest: 200, penalty: 0, overpayment: 0 },
+                    'chama1',
+                    prisma
+                );
+            });
+        });
+
+        describe('allocatePaymentToInstallments', () => {
+            const installment = (id: string, dueDate: Date, paid = 0, penaltyDue = 0) => ({
+                id,
+                dueDate,
+                principalDue: 1000,
+                interestDue: 100,
+                penaltyDue,
+                amountDue: 1100 + penaltyDue,
+                principalPaid: paid,
+                interestPaid: paid > 0 ? 100 : 0,
+                penaltyPaid: 0,
+            });
+
+            it('should settle installments oldest first regardless of input order', () => {
+                const later = installment('inst2', addMonths(new Date(), 2));
+                const sooner = installment('inst1', addMonths(new Date(), 1));
+
+                const { updates } = loanService.allocatePaymentToInstallments([later, sooner], 1100, new Date());
+
+                expect(updates).toHaveLength(1);
+                expect(updates[0]).toMatchObject({ id: 'inst1', status: 'PAID' });
+            });
+
+            it('should keep a part-paid installment past its due date OVERDUE', () => {
+                const { updates } = loanService.allocatePaymentToInstallments([installment('inst1', new Date('2025-01-01'))], 500, new Date());
+
+                expect(updates[0]).toMatchObject({ interestPaid: 100, principalPaid: 400, amountPaid: 500, status: 'OVERDUE', paidAt: null });
+            });
+
+            it('should report anything beyond the remaining installments as an overpayment', () => {
+                const { allocation } = loanService.allocatePaymentToInstallments([installment('inst1', new Date(), 600)], 1000, new Date());
+
+                expect(allocation).toEqual({ principal: 400, interest: 0, penalty: 0, overpayment: 600 });
+            });
+
+            it('should settle penalty interest before interest and principal', () => {
+                const { updates, allocation } = loanService.allocatePaymentToInstallments([installment('inst1', new Date('2025-01-01'), 0, 50)], 600, new Date());
+
+                expect(updates[0]).toMatchObject({ penaltyPaid: 50, interestPaid: 100, principalPaid: 450, amountPaid: 600 });
+                expect(allocation).toEqual({ principal: 450, interest: 100, penalty: 50, overpayment: 0 });
+            });
         });
     
         describe('findLoanDefaulters', () => {
-            it('should find loans that are past their due date', async () => {
-                const defaulters: Loan[] = [{ 
+            it('should find loans with overdue installments', async () => {
+                const defaulters: (Loan & { installments: { amountDue: number, amountPaid: number }[] })[] = [{ 
                     id: 'loan1', 
                     dueDate: new Date('2022-01-01'),
                     amount: 10000,
                     interestRate: 0.1,
+                    interestMethod: 'FLAT',
                     duration: 12,
                     approvedAt: new Date(),
                     repaymentAmount: 11000,
@@ -506,22 +1047,163 @@ describe('Loan Module', () => {
                     status: LoanStatus.ACTIVE,
                     membershipId: 'membership1',
                     disbursedAt: new Date('2022-01-01'),
+                    installments: [
+                        { amountDue: 916.67, amountPaid: 916.67 - 500 },
+                        { amountDue: 916.67, amountPaid: 0 },
+                    ],
                 }];
                 (prisma.loan.findMany as jest.Mock).mockResolvedValue(defaulters);
     
                 const result = await loanService.findLoanDefaulters('chama1');
     
+                expect(prisma.loanInstallment.updateMany).toHaveBeenCalledWith({
+                    where: expect.objectContaining({ status: { in: ['PENDING', 'PARTIAL'] } }),
+                    data: { status: 'OVERDUE' },
+                });
                 expect(result.length).toBe(1);
                 expect(result[0].id).toBe('loan1');
+                expect(result[0].amountOverdue).toBe(1416.67);
+            });
+        });
+
+        describe('sendInstallmentReminders', () => {
+            it('should notify the borrower of each due or overdue installment', async () => {
+                (prisma.loanInstallment.findMany as jest.Mock).mockResolvedValue([
+                    { installmentNumber: 2, dueDate: new Date('2025-01-01'), amountDue: 1100, amountPaid: 400, status: 'OVERDUE', loan: { membershipId: 'membership1' } },
+                    { installmentNumber: 3, dueDate: new Date('2025-02-01'), amountDue: 1100, amountPaid: 0, status: 'PENDING', loan: { membershipId: 'membership1' } },
+                ]);
+
+                const result = await loanService.sendInstallmentReminders('chama1', 5);
+
+                expect(result).toEqual({ reminders: 2 });
+                expect(createNotification).toHaveBeenCalledWith({
+                    membershipId: 'membership1',
+                    title: 'Loan Installment Overdue',
+                    message: 'Installment 2 of your loan (KES 700.00) was due on 2025-01-01 and is overdue.',
+                    type: 'LOAN_INSTALLMENT_DUE',
+                });
+                expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({ title: 'Loan Installment Due' }));
             });
         });
     
+        describe('calculateInstallmentPenalty', () => {
+            const rules = { loanGracePeriodDays: 7, loanPenaltyRate: 0.05, loanPenaltyPeriod: 'MONTHLY' as any, loanDefaultAfter: 3 };
+            const installment = {
+                dueDate: new Date('2025-01-01'),
+                principalDue: 1000,
+                interestDue: 100,
+                principalPaid: 0,
+                interestPaid: 100,
+                penaltyAccruedTo: null,
+            };
+
+            it('should charge nothing while the installment is within the grace period', () => {
+                expect(loanService.calculateInstallmentPenalty(installment, rules, new Date('2025-01-07'))).toBeNull();
+            });
+
+            it('should charge the rate on the arrears for each whole period after the grace period', () => {
+                const result = loanService.calculateInstallmentPenalty(installment, rules, new Date('2025-03-10'));
+
+                expect(result).toEqual({ penalty: 100, accruedTo: new Date('2025-03-08') });
+            });
+
+            it('should only charge periods not already charged', () => {
+                const charged = { ...installment, penaltyAccruedTo: new Date('2025-03-08') };
+
+                expect(loanService.calculateInstallmentPenalty(charged, rules, new Date('2025-03-10'))).toBeNull();
+                expect(loanService.calculateInstallmentPenalty(charged, { ...rules, loanPenaltyPeriod: 'DAILY' as any }, new Date('2025-03-10')))
+                    .toEqual({ penalty: 100, accruedTo: new Date('2025-03-10') });
+            });
+
+            it('should charge nothing when the chama has no penalty rate', () => {
+                expect(loanService.calculateInstallmentPenalty(installment, { ...rules, loanPenaltyRate: 0 }, new Date('2025-06-01'))).toBeNull();
+            });
+        });
+
+        describe('applyOverdueLoanRules', () => {
+            const overdueLoan = (status: LoanStatus, missed: number) => ({
+                id: 'loan1',
+                status,
+                amount: 10000,
+                membershipId: 'membership1',
+                membership: { id: 'membership1', user: { firstName: 'John', lastName: 'Doe' } },
+                installments: Array.from({ length: missed }, (_, i) => ({
+                    id: `inst${i + 1}`,
+                    installmentNumber: i + 1,
+                    dueDate: new Date(`2025-0${i + 1}-01`),
+                    principalDue: 1000,
+                    interestDue: 100,
+                    penaltyDue: 0,
+                    amountDue: 1100,
+                    principalPaid: 0,
+                    interestPaid: 0,
+                    penaltyAccruedTo: null,
+                })),
+            });
+
+            beforeEach(() => {
+                (prisma.chama.findUnique as jest.Mock).mockResolvedValue(mockChamas[0]);
+                (prisma.membership.findMany as jest.Mock).mockResolvedValue([{ id: 'membership3' }]);
+            });
+
+            it('should charge penalties on missed installments and default the loan', async () => {
+                (prisma.loan.findMany as jest.Mock).mockResolvedValue([overdueLoan(LoanStatus.ACTIVE, 2)]);
+                (prisma.loan.update as jest.Mock).mockResolvedValue({ id: 'loan1', status: LoanStatus.DEFAULTED });
+
+                const result = await loanService.applyOverdueLoanRules('chama1', new Date('2025-03-10'));
+
+                // inst1: 2 months past grace, inst2: 1 month past grace, at 5% of 1100 each.
+                expect(prisma.loanInstallment.update).toHaveBeenCalledWith({
+                    where: { id: 'inst1' },
+                    data: { penaltyDue: 110, amountDue: 1210, penaltyAccruedTo: new Date('2025-03-08') },
+                });
+                expect(prisma.loanInstallment.update).toHaveBeenCalledWith({
+                    where: { id: 'inst2' },
+                    data: { penaltyDue: 55, amountDue: 1155, penaltyAccruedTo: new Date('2025-03-08') },
+                });
+                expect(prisma.loan.update).toHaveBeenCalledWith({
+                    where: { id: 'loan1' },
+                    data: { status: LoanStatus.DEFAULTED },
+                });
+                expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'LOAN_PENALTY_APPLY', actorId: null, loanId: 'loan1' }));
+                expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'LOAN_DEFAULT', actorId: null, loanId: 'loan1' }));
+                expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({ membershipId: 'membership1', type: 'LOAN_DEFAULT' }));
+                expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({ membershipId: 'membership3', type: 'LOAN_DEFAULT' }));
+                expect(result).toEqual({ loansPenalized: 1, penaltyCharged: 165, loansDefaulted: 1 });
+            });
+
+            it('should not default a loan below the missed-installment threshold', async () => {
+                (prisma.loan.findMany as jest.Mock).mockResolvedValue([overdueLoan(LoanStatus.ACTIVE, 1)]);
+
+                const result = await loanService.applyOverdueLoanRules('chama1', new Date('2025-03-10'));
+
+                expect(prisma.loan.update).not.toHaveBeenCalled();
+                expect(result).toEqual({ loansPenalized: 1, penaltyCharged: 110, loansDefaulted: 0 });
+            });
+
+            it('should keep charging penalties on a loan that has already defaulted', async () => {
+                (prisma.loan.findMany as jest.Mock).mockResolvedValue([overdueLoan(LoanStatus.DEFAULTED, 2)]);
+
+                const result = await loanService.applyOverdueLoanRules('chama1', new Date('2025-03-10'));
+
+                expect(prisma.loan.update).not.toHaveBeenCalled();
+                expect(result).toEqual({ loansPenalized: 1, penaltyCharged: 165, loansDefaulted: 0 });
+            });
+
+            it('should throw if the chama does not exist', async () => {
+                (prisma.chama.findUnique as jest.Mock).mockResolvedValue(null);
+
+                await expect(loanService.applyOverdueLoanRules('missing')).rejects.toThrow('Chama not found.');
+            });
+        });
+
         describe('restructureLoan', () => {
             it('should restructure a loan with new terms', async () => {
                 const loan: Loan & { membership: { chamaId: string } } = { 
                     id: 'loan1', 
                     amount: 10000, 
                     interestRate: 0.1, 
+                    interestMethod: 'FLAT',
                     duration: 10, 
                     membershipId: 'membership1',
                     approvedAt: new Date(),
@@ -553,8 +1235,77 @@ describe('Loan Module', () => {
     
                 expect(result.interestRate).toBe(0.12);
                 expect(result.duration).toBe(12);
+                expect(prisma.loanInstallment.deleteMany).toHaveBeenCalledWith({ where: { loanId: 'loan1' } });
+                expect((prisma.loanInstallment.createMany as jest.Mock).mock.calls[0][0].data).toHaveLength(12);
                 expect(createAuditLog).toHaveBeenCalled();
             });
+
+            it('should keep penalties across the rebuilt schedule of a defaulted loan', async () => {
+                const loan = {
+                    id: 'loan1',
+                    amount: 1000,
+                    interestRate: 0.1,
+                    interestMethod: 'FLAT',
+                    duration: 2,
+                    status: LoanStatus.DEFAULTED,
+                    disbursedAt: new Date(2025, 0, 1),
+                    membership: { chamaId: 'chama1' }
+                };
+                const accruedTo = new Date(2025, 2, 10);
+                const rebuilt = { id: 'new1', installmentNumber: 1, dueDate: new Date(2025, 1, 1), principalDue: 1000, interestDue: 100, amountDue: 1100, principalPaid: 0, interestPaid: 0, penaltyDue: 0, penaltyPaid: 0, amountPaid: 0, status: 'PENDING' };
+                (prisma.loan.findUnique as jest.Mock).mockResolvedValue(loan);
+                (prisma.loan.update as jest.Mock).mockImplementation(async ({ data }: any) => ({ ...loan, ...data }));
+                (prisma.loanInstallment.findMany as jest.Mock)
+                    .mockResolvedValueOnce([
+                        { id: 'old1', installmentNumber: 1, penaltyDue: 100, penaltyPaid: 100, penaltyAccruedTo: accruedTo },
+                        { id: 'old2', installmentNumber: 2, penaltyDue: 50, penaltyPaid: 0, penaltyAccruedTo: null },
+                    ])
+                    .mockResolvedValueOnce([rebuilt])
+                    .mockResolvedValueOnce([{ ...rebuilt, penaltyDue: 150, penaltyPaid: 100, amountDue: 1250, amountPaid: 100, status: 'OVERDUE' }]);
+                (prisma.loanPayment.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 600 }, _max: { paidAt: new Date(2025, 2, 1) } });
+
+                await loanService.restructureLoan('loan1', { newDuration: 1, notes: 'Shortened after default' }, 'user1', {});
+
+                expect(prisma.loanInstallment.deleteMany).toHaveBeenCalledWith({ where: { loanId: 'loan1' } });
+                // Both old penalties land on the only installment left, with the paid part still paid.
+                expect(prisma.loanInstallment.update).toHaveBeenCalledWith({
+                    where: { id: 'new1' },
+                    data: { penaltyDue: 150, penaltyPaid: 100, amountDue: 1250, amountPaid: 100, penaltyAccruedTo: accruedTo, status: 'OVERDUE' },
+                });
+                // The 100 already paid towards penalties is not re-applied as interest and principal.
+                expect(prisma.loanInstallment.update).toHaveBeenLastCalledWith({
+                    where: { id: 'new1' },
+                    data: expect.objectContaining({ penaltyPaid: 150, interestPaid: 100, principalPaid: 350, amountPaid: 600 }),
+                });
+            });
+
+            it('should recalculate repayment terms when the interest method changes', async () => {
+                const loan = {
+                    id: 'loan1',
+                    amount: 12000,
+                    interestRate: 0.12,
+                    interestMethod: 'FLAT',
+                    duration: 12,
+                    status: LoanStatus.ACTIVE,
+                    membership: { chamaId: 'chama1' }
+                };
+                (prisma.loan.findUnique as jest.Mock).mockResolvedValue(loan);
+                (prisma.loan.update as jest.Mock).mockResolvedValue({ ...loan, interestMethod: 'REDUCING_BALANCE' });
+
+                await loanService.restructureLoan('loan1', { newInterestMethod: 'REDUCING_BALANCE', notes: 'Moved to reducing balance' }, 'user1', {});
+
+                expect(prisma.loan.update).toHaveBeenCalledWith({
+                    where: { id: 'loan1' },
+                    data: expect.objectContaining({
+                        interestRate: 0.12,
+                        duration: 12,
+                        interestMethod: 'REDUCING_BALANCE',
+                        repaymentAmount: 12780,
+                        monthlyInstallment: 1120,
+                        isRestructured: true,
+                    }),
+                });
+            });
         });
     });
 
@@ -562,6 +1313,9 @@ describe('Loan Module', () => {
         const loan = {
             id: 'loan1',
             amount: 10000,
+            interestRate: 0.1,
+            interestMethod: 'FLAT',
+            duration: 12,
             status: LoanStatus.PENDING,
             membershipId: 'membership1',
             membership: { 
@@ -594,6 +1348,7 @@ describe('Loan Module', () => {
                     duration: 12,
                     purpose: 'Business',
                     interestRate: 0.1,
+                    interestMethod: 'FLAT',
                     status: LoanStatus.PENDING,
                     membershipId: 'membership1',
                     approvedAt: null,
@@ -607,8 +1362,8 @@ describe('Loan Module', () => {
                     mpesaB2CRequestId: null,
                 };
 
-                (prisma.membership.findFirst as jest.Mock).mockResolvedValue(mockMemberships[0]);
-                (prisma.contribution.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
+                (prisma.membership.findFirst as jest.Mock).mockResolvedValue({ ...mockMemberships[0], chama: mockChamas[0] });
+                (prisma.fundAllocation.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
                 (prisma.loan.create as jest.Mock).mockResolvedValue(newLoan);
 
                 const res = await request(app)
@@ -634,7 +1389,7 @@ describe('Loan Module', () => {
                 };
 
                 (prisma.membership.findFirst as jest.Mock).mockResolvedValue(mockMemberships[0]);
-                (prisma.contribution.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
+                (prisma.fundAllocation.aggregate as jest.Mock).mockResolvedValue({ _sum: { amount: 5000 } });
 
                 const res = await request(app)
                     .post('/loans')
@@ -754,6 +1509,7 @@ describe('Loan Module', () => {
                     const tx = {
                         loan: { update: jest.fn().mockResolvedValue(activeLoan) },
                         transaction: { create: jest.fn().mockResolvedValue({}) },
+                        loanInstallment: { createMany: jest.fn().mockResolvedValue({ count: 12 }) },
                     };
                     return await callback(tx);
                 });
@@ -0,0 +1,444 @@
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaFunctions: any = {
+    rotation: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+    },
+    rotationSlot: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+    rotationPayout: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      count: jest.fn(),
+    },
+    rotationSwap: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    membership: {
+      findMany: jest.fn(),
+    },
+    contribution: {
+      findMany: jest.fn(),
+    },
+    contributionPeriod: {
+      findFirst: jest.fn(),
+    },
+    loan: {
+      findMany: jest.fn(),
+    },
+    transaction: {
+      create: jest.fn(),
+    },
+    fundAllocation: {
+      createMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mockPrismaFunctions),
+    MembershipRole: {
+      ADMIN: 'ADMIN',
+      TREASURER: 'TREASURER',
+      SECRETARY: 'SECRETARY',
+      MEMBER: 'MEMBER',
+    },
+    RotationOrder: { FIXED: 'FIXED', RANDOM: 'RANDOM' },
+    PayoutStatus: { PENDING: 'PENDING', PAID: 'PAID', FAILED: 'FAILED' },
+    SwapStatus: { PENDING: 'PENDING', ACCEPTED: 'ACCEPTED', DECLINED: 'DECLINED' },
+    ContributionStatus: { PENDING: 'PENDING', PARTIALLY_PAID: 'PARTIALLY_PAID', PAID: 'PAID', OVERDUE: 'OVERDUE' },
+    LoanStatus: { DEFAULTED: 'DEFAULTED' },
+    TransactionType: { MERRY_GO_ROUND_PAYOUT: 'MERRY_GO_ROUND_PAYOUT' },
+    NotificationType: { GENERAL: 'GENERAL' },
+    AuditAction: { ROTATION_SCHEDULE: 'ROTATION_SCHEDULE', ROTATION_SWAP: 'ROTATION_SWAP', ROTATION_PAYOUT: 'ROTATION_PAYOUT' },
+  };
+});
+
+jest.mock('../src/middleware/auth.middleware', () => ({
+  protect: (req: any, res: Response, next: NextFunction) => {
+    req.user = { id: req.headers['x-user-id'] || 'user1' };
+    next();
+  },
+}));
+
+jest.mock('../src/middleware/membership.middleware', () => ({
+  checkMembership: () => (req: Request, res: Response, next: NextFunction) => next(),
+}));
+
+jest.mock('../src/middleware/stepUp.middleware', () => ({
+  requireStepUp: () => (req: Request, res: Response, next: NextFunction) => next(),
+}));
+
+jest.mock('../src/services/audit.service');
+jest.mock('../src/services/notification.service');
+jest.mock('../src/services/mpesa.service');
+jest.mock('../src/services/contributionPeriod.service');
+jest.mock('../src/services/ledger.service');
+
+import * as merryGoRoundService from '../src/services/merryGoRound.service';
+import merryGoRoundRoutes from '../src/routes/merryGoRound.routes';
+import { initiateB2CPayment } from '../src/services/mpesa.service';
+import { findCurrentPeriod } from '../src/services/contributionPeriod.service';
+import { postRotationPayout } from '../src/services/ledger.service';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient() as any;
+
+const app = express();
+app.use(express.json());
+app.use('/merry-go-round', merryGoRoundRoutes);
+
+const rotation = { id: 'rot1', chamaId: 'chama1', order: 'FIXED', cycle: 1 };
+const period = { id: 'period1', chamaId: 'chama1', dueDate: new Date(2025, 0, 15) };
+const member = (id: string, position: number, isActive = true) => ({
+  id: `slot-${id}`,
+  rotationId: 'rot1',
+  membershipId: id,
+  position,
+  membership: { id, userId: `user-${id}`, isActive, user: { firstName: 'Member', lastName: id, phone: '254700000000' } },
+});
+const slots = [member('mem1', 1), member('mem2', 2), member('mem3', 3)];
+
+describe('Merry-Go-Round Module Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.$transaction.mockImplementation((callback: any) => callback(prisma));
+    prisma.rotation.findUnique.mockResolvedValue(rotation);
+    prisma.rotation.findUniqueOrThrow.mockResolvedValue(rotation);
+    prisma.rotationSlot.findMany.mockResolvedValue(slots);
+    prisma.rotationSlot.count.mockResolvedValue(slots.length);
+    prisma.rotationPayout.findMany.mockResolvedValue([]);
+    prisma.rotationPayout.findUnique.mockResolvedValue(null);
+    prisma.rotationPayout.count.mockResolvedValue(0);
+    prisma.contribution.findMany.mockResolvedValue([]);
+    prisma.loan.findMany.mockResolvedValue([]);
+    (findCurrentPeriod as jest.Mock).mockResolvedValue(period);
+  });
+
+  describe('Rotation Schedule', () => {
+    beforeEach(() => {
+      prisma.membership.findMany.mockResolvedValue([{ id: 'mem1' }, { id: 'mem2' }, { id: 'mem3' }]);
+      prisma.rotation.findUnique.mockResolvedValue(null);
+      prisma.rotation.upsert.mockResolvedValue(rotation);
+    });
+
+    it('should save a fixed order as given', async () => {
+      const res = await request(app)
+        .put('/merry-go-round/chama1')
+        .send({ order: 'FIXED', membershipIds: ['mem3', 'mem1', 'mem2'] });
+
+      expect(res.statusCode).toBe(200);
+      expect(prisma.rotationSlot.createMany).toHaveBeenCalledWith({
+        data: [
+          { rotationId: 'rot1', membershipId: 'mem3', position: 1 },
+          { rotationId: 'rot1', membershipId: 'mem1', position: 2 },
+          { rotationId: 'rot1', membershipId: 'mem2', position: 3 },
+        ],
+      });
+    });
+
+    it('should draw a random order from every active member by default', async () => {
+      const res = await request(app)
+        .put('/merry-go-round/chama1')
+        .send({ order: 'RANDOM' });
+
+      expect(res.statusCode).toBe(200);
+      const { data } = prisma.rotationSlot.createMany.mock.calls[0][0];
+      expect(data.map((slot: any) => slot.membershipId).sort()).toEqual(['mem1', 'mem2', 'mem3']);
+      expect(data.map((slot: any) => slot.position)).toEqual([1, 2, 3]);
+    });
+
+    it('should require the members for a fixed order', async () => {
+      const res = await request(app)
+        .put('/merry-go-round/chama1')
+        .send({ order: 'FIXED' });
+
+      expect(res.statusCode).toBe(400);
+      expect(prisma.rotation.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject members who are not active in the chama', async () => {
+      const res = await request(app)
+        .put('/merry-go-round/chama1')
+        .send({ order: 'FIXED', membershipIds: ['mem1', 'outsider'] });
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body.message).toContain('outsider');
+    });
+
+    it('should not change the order while a payout is being processed', async () => {
+      prisma.rotation.findUnique.mockResolvedValue(rotation);
+      prisma.rotationPayout.count.mockResolvedValue(1);
+
+      const res = await request(app)
+        .put('/merry-go-round/chama1')
+        .send({ order: 'FIXED', membershipIds: ['mem1', 'mem2', 'mem3'] });
+
+      expect(res.statusCode).toBe(409);
+    });
+  });
+
+  describe('findNextRecipient', () => {
+    it('should skip members who have not paid for the period or have defaulted on a loan', async () => {
+      prisma.contribution.findMany.mockResolvedValue([{ membershipId: 'mem2' }, { membershipId: 'mem3' }]);
+      prisma.loan.findMany.mockResolvedValue([{ membershipId: 'mem2' }]);
+
+      const { recipient, skipped } = await merryGoRoundService.findNextRecipient(rotation as any, period as any);
+
+      expect(recipient?.membershipId).toBe('mem3');
+      expect(skipped.map(slot => slot.membershipId)).toEqual(['mem1', 'mem2']);
+    });
+
+    it('should pass over members who have had their turn this cycle', async () => {
+      prisma.contribution.findMany.mockResolvedValue(slots.map(slot => ({ membershipId: slot.membershipId })));
+      prisma.rotationPayout.findMany.mockResolvedValue([{ membershipId: 'mem1' }]);
+
+      const { recipient, skipped } = await merryGoRoundService.findNextRecipient(rotation as any, period as any);
+
+      expect(recipient?.membershipId).toBe('mem2');
+      expect(skipped).toEqual([]);
+    });
+  });
+
+  describe('Payouts', () => {
+    beforeEach(() => {
+      const paid = [
+        { membershipId: 'mem1', amount: 5000, expectedAmount: 5000, fundAllocations: [{ fundId: 'savings', amount: 4000 }, { fundId: 'welfare', amount: 1000 }] },
+        { membershipId: 'mem2', amount: 7000, expectedAmount: 5000, fundAllocations: [{ fundId: 'savings', amount: 5600 }, { fundId: 'welfare', amount: 1400 }] },
+        { membershipId: 'mem3', amount: 5000, expectedAmount: 5000, fundAllocations: [{ fundId: 'savings', amount: 5000 }] },
+      ];
+      prisma.contribution.findMany.mockImplementation(({ select }: any) => Promise.resolve(!select
+        ? paid
+        : select.amount ? paid.map(({ amount, expectedAmount }) => ({ amount, expectedAmount })) : paid.map(({ membershipId }) => ({ membershipId }))));
+      prisma.rotationPayout.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'payout1', status: 'PENDING', ...data }));
+      prisma.rotationPayout.update.mockImplementation(({ where, data }: any) => Promise.resolve({
+        id: where.id, rotationId: 'rot1', membershipId: 'mem1', amount: 15000, ...data,
+        membership: slots[0].membership, period,
+      }));
+    });
+
+    it('should pay the pot to the next member and write it to the books', async () => {
+      const res = await request(app)
+        .post('/merry-go-round/chama1/payouts')
+        .send({ paymentMethod: 'CASH' });
+
+      expect(res.statusCode).toBe(201);
+      // Surplus on an overpaid contribution is the member's credit, not part of the pot.
+      expect(prisma.rotationPayout.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ membershipId: 'mem1', periodId: 'period1', cycle: 1, amount: 15000, paymentMethod: 'CASH' }),
+      });
+      expect(prisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ chamaId: 'chama1', type: 'MERRY_GO_ROUND_PAYOUT', amount: -15000 }),
+      });
+      expect(res.body.data.status).toBe('PAID');
+    });
+
+    it('should take the pot out of the savings and funds of the members who paid into it', async () => {
+      await request(app).post('/merry-go-round/chama1/payouts').send({ paymentMethod: 'CASH' });
+
+      expect(postRotationPayout).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'payout1', membershipId: 'mem1', amount: 15000 }),
+        [
+          expect.objectContaining({ membershipId: 'mem1', amount: 5000 }),
+          expect.objectContaining({ membershipId: 'mem2', amount: 5000 }),
+          expect.objectContaining({ membershipId: 'mem3', amount: 5000 }),
+        ],
+        'chama1',
+        prisma,
+      );
+      // Surplus carried on mem2's contribution stays in their funds; the rest leaves in the same split it went in.
+      expect(prisma.fundAllocation.createMany).toHaveBeenCalledWith({
+        data: [
+          { rotationPayoutId: 'payout1', fundId: 'savings', membershipId: 'mem1', amount: -4000 },
+          { rotationPayoutId: 'payout1', fundId: 'welfare', membershipId: 'mem1', amount: -1000 },
+          { rotationPayoutId: 'payout1', fundId: 'savings', membershipId: 'mem2', amount: -4000 },
+          { rotationPayoutId: 'payout1', fundId: 'welfare', membershipId: 'mem2', amount: -1000 },
+          { rotationPayoutId: 'payout1', fundId: 'savings', membershipId: 'mem3', amount: -5000 },
+        ],
+      });
+    });
+
+    it('should start a new cycle once every member has been paid', async () => {
+      prisma.rotationSlot.count.mockResolvedValue(0);
+
+      await request(app).post('/merry-go-round/chama1/payouts').send({});
+
+      expect(prisma.rotation.update).toHaveBeenCalledWith({ where: { id: 'rot1' }, data: { cycle: { increment: 1 } } });
+    });
+
+    it('should only wait on active members who have not had their turn before starting a new cycle', async () => {
+      await request(app).post('/merry-go-round/chama1/payouts').send({});
+
+      expect(prisma.rotationSlot.count).toHaveBeenCalledWith({
+        where: {
+          rotationId: 'rot1',
+          membership: {
+            isActive: true,
+            rotationPayouts: { none: { rotationId: 'rot1', cycle: 1, status: 'PAID' } },
+          },
+        },
+      });
+      expect(prisma.rotation.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to pay a period twice', async () => {
+      prisma.rotationPayout.findUnique.mockResolvedValue({ id: 'payout0', status: 'PAID' });
+
+      const res = await request(app).post('/merry-go-round/chama1/payouts').send({});
+
+      expect(res.statusCode).toBe(409);
+      expect(prisma.rotationPayout.create).not.toHaveBeenCalled();
+    });
+
+    it('should retry a period whose earlier payout failed', async () => {
+      prisma.rotationPayout.findUnique.mockResolvedValue({ id: 'payout0', status: 'FAILED' });
+
+      const res = await request(app).post('/merry-go-round/chama1/payouts').send({});
+
+      expect(res.statusCode).toBe(201);
+      expect(prisma.rotationPayout.delete).toHaveBeenCalledWith({ where: { id: 'payout0' } });
+    });
+
+    it('should fail when nobody left in the cycle is eligible', async () => {
+      prisma.loan.findMany.mockResolvedValue(slots.map(slot => ({ membershipId: slot.membershipId })));
+
+      const res = await request(app).post('/merry-go-round/chama1/payouts').send({});
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body.message).toContain('No member is eligible');
+    });
+
+    it('should send the pot by M-Pesa B2C and leave it pending', async () => {
+      (initiateB2CPayment as jest.Mock).mockResolvedValue({ reference: 'AG_123' });
+
+      const res = await request(app)
+        .post('/merry-go-round/chama1/payouts')
+        .send({ sendViaMpesa: true });
+
+      expect(res.statusCode).toBe(201);
+      expect(initiateB2CPayment).toHaveBeenCalledWith('254700000000', 15000, 'Merry-go-round payout');
+      expect(prisma.rotationPayout.update).toHaveBeenCalledWith({ where: { id: 'payout1' }, data: { mpesaB2CRequestId: 'AG_123' } });
+      expect(prisma.transaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should mark the payout failed when the B2C request fails', async () => {
+      (initiateB2CPayment as jest.Mock).mockRejectedValue(new Error('Failed to initiate M-Pesa B2C payment.'));
+
+      const res = await request(app)
+        .post('/merry-go-round/chama1/payouts')
+        .send({ sendViaMpesa: true });
+
+      expect(res.statusCode).toBe(502);
+      expect(prisma.rotationPayout.update).toHaveBeenCalledWith({ where: { id: 'payout1' }, data: { status: 'FAILED' } });
+    });
+
+    describe('settleMpesaPayout', () => {
+      const pending = { id: 'payout1', rotationId: 'rot1', status: 'PENDING', amount: 15000, rotation };
+
+      it('should settle a successful B2C payout', async () => {
+        prisma.rotationPayout.findUnique.mockResolvedValue(pending);
+
+        const payout = await merryGoRoundService.settleMpesaPayout('AG_123', true, 'RCPT1');
+
+        expect(payout?.status).toBe('PAID');
+        expect(prisma.rotationPayout.update).toHaveBeenCalledWith(expect.objectContaining({
+          data: expect.objectContaining({ status: 'PAID', mpesaCode: 'RCPT1' }),
+        }));
+        expect(prisma.transaction.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({ type: 'MERRY_GO_ROUND_PAYOUT', amount: -15000 }),
+        });
+        expect(postRotationPayout).toHaveBeenCalledWith(expect.objectContaining({ id: 'payout1', mpesaCode: 'RCPT1' }), expect.any(Array), 'chama1', prisma);
+      });
+
+      it('should free the period when the B2C payout fails', async () => {
+        prisma.rotationPayout.findUnique.mockResolvedValue(pending);
+
+        await merryGoRoundService.settleMpesaPayout('AG_123', false);
+
+        expect(prisma.rotationPayout.update).toHaveBeenCalledWith({ where: { id: 'payout1' }, data: { status: 'FAILED' } });
+        expect(prisma.transaction.create).not.toHaveBeenCalled();
+        expect(postRotationPayout).not.toHaveBeenCalled();
+      });
+
+      it('should ignore conversations that are not merry-go-round payouts', async () => {
+        await expect(merryGoRoundService.settleMpesaPayout('AG_unknown', true)).resolves.toBeNull();
+      });
+    });
+  });
+
+  describe('Swaps', () => {
+    const swap = { id: 'swap1', rotationId: 'rot1', requesterId: 'mem1', targetId: 'mem3', status: 'PENDING', target: slots[2].membership };
+
+    it('should let a member ask another to swap', async () => {
+      prisma.rotationSlot.findFirst.mockResolvedValueOnce(slots[0]).mockResolvedValueOnce(slots[2]);
+      prisma.rotationSwap.findFirst.mockResolvedValue(null);
+      prisma.rotationSwap.create.mockResolvedValue({ id: 'swap1' });
+
+      const res = await request(app)
+        .post('/merry-go-round/chama1/swaps')
+        .set('x-user-id', 'user-mem1')
+        .send({ targetMembershipId: 'mem3' });
+
+      expect(res.statusCode).toBe(201);
+      expect(prisma.rotationSwap.create).toHaveBeenCalledWith({ data: { rotationId: 'rot1', requesterId: 'mem1', targetId: 'mem3' } });
+    });
+
+    it('should not swap with a member who has had their turn this cycle', async () => {
+      prisma.rotationSlot.findFirst.mockResolvedValueOnce(slots[0]).mockResolvedValueOnce(slots[2]);
+      prisma.rotationPayout.findMany.mockResolvedValue([{ membershipId: 'mem3' }]);
+
+      const res = await request(app)
+        .post('/merry-go-round/chama1/swaps')
+        .set('x-user-id', 'user-mem1')
+        .send({ targetMembershipId: 'mem3' });
+
+      expect(res.statusCode).toBe(409);
+    });
+
+    it('should exchange positions when the other member accepts', async () => {
+      prisma.rotationSwap.findFirst.mockResolvedValue(swap);
+      prisma.rotationSlot.findUniqueOrThrow.mockResolvedValueOnce(slots[0]).mockResolvedValueOnce(slots[2]);
+      prisma.rotationSwap.update.mockResolvedValue({ ...swap, status: 'ACCEPTED' });
+
+      const res = await request(app)
+        .put('/merry-go-round/chama1/swaps/swap1')
+        .set('x-user-id', 'user-mem3')
+        .send({ status: 'ACCEPTED' });
+
+      expect(res.statusCode).toBe(200);
+      expect(prisma.rotationSlot.update).toHaveBeenCalledWith({ where: { id: 'slot-mem3' }, data: { position: 1 } });
+      expect(prisma.rotationSlot.update).toHaveBeenLastCalledWith({ where: { id: 'slot-mem1' }, data: { position: 3 } });
+    });
+
+    it('should only let the member asked respond', async () => {
+      prisma.rotationSwap.findFirst.mockResolvedValue(swap);
+
+      const res = await request(app)
+        .put('/merry-go-round/chama1/swaps/swap1')
+        .set('x-user-id', 'user-mem2')
+        .send({ status: 'ACCEPTED' });
+
+      expect(res.statusCode).toBe(403);
+      expect(prisma.rotationSlot.update).not.toHaveBeenCalled();
+    });
+  });
+});
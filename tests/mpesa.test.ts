@@ -22,6 +22,7 @@ jest.mock('@prisma/client', () => {
         },
         ContributionStatus: {
             PENDING: 'PENDING',
+            PARTIALLY_PAID: 'PARTIALLY_PAID',
             PAID: 'PAID',
             OVERDUE: 'OVERDUE',
         },
@@ -39,11 +40,30 @@ jest.mock('@prisma/client', () => {
             LOAN_REPAYMENT: 'LOAN_REPAYMENT',
             WITHDRAWAL: 'WITHDRAWAL',
             FINE: 'FINE',
-        }
+        },
+        AuditAction: {
+            CONTRIBUTION_CREATE: 'CONTRIBUTION_CREATE',
+            CONTRIBUTION_UPDATE: 'CONTRIBUTION_UPDATE',
+        },
+        NotificationType: {
+            GENERAL: 'GENERAL',
+        },
+        MpesaCallbackType: {
+            STK_CALLBACK: 'STK_CALLBACK',
+            C2B_CONFIRMATION: 'C2B_CONFIRMATION',
+            B2C_RESULT: 'B2C_RESULT',
+            B2C_TIMEOUT: 'B2C_TIMEOUT',
+        },
+        MpesaCallbackStatus: {
+            PROCESSING: 'PROCESSING',
+            PROCESSED: 'PROCESSED',
+            FAILED: 'FAILED',
+        },
     };
 });
 
 jest.mock('axios');
+jest.mock('../src/services/notification.service');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
 import { app, server } from '../src/server';
@@ -70,6 +90,17 @@ describe('M-Pesa Routes', () => {
         emailVerificationToken: null,
         passwordResetToken: null,
         passwordResetTokenExpires: null,
+        isPhoneVerified: false,
+        pin: null,
+        failedPinAttempts: 0,
+        pinLockedUntil: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        twoFactorMethod: null,
+        twoFactorSecret: null,
+        failedTwoFactorAttempts: 0,
+        twoFactorLockedUntil: null,
+        lastTotpStep: null,
         password: 'hashedpassword'
     };
 
@@ -88,6 +119,17 @@ describe('M-Pesa Routes', () => {
         emailVerificationToken: null,
         passwordResetToken: null,
         passwordResetTokenExpires: null,
+        isPhoneVerified: false,
+        pin: null,
+        failedPinAttempts: 0,
+        pinLockedUntil: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        twoFactorMethod: null,
+        twoFactorSecret: null,
+        failedTwoFactorAttempts: 0,
+        twoFactorLockedUntil: null,
+        lastTotpStep: null,
         password: 'hashedpassword'
     };
 
@@ -106,6 +148,17 @@ describe('M-Pesa Routes', () => {
         emailVerificationToken: null,
         passwordResetToken: null,
         passwordResetTokenExpires: null,
+        isPhoneVerified: false,
+        pin: null,
+        failedPinAttempts: 0,
+        pinLockedUntil: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        twoFactorMethod: null,
+        twoFactorSecret: null,
+        failedTwoFactorAttempts: 0,
+        twoFactorLockedUntil: null,
+        lastTotpStep: null,
         password: 'hashedpassword'
     };
 
@@ -154,6 +207,7 @@ describe('M-Pesa Routes', () => {
         membershipId: mockMembership.id,
         amount: 5000,
         interestRate: 5,
+        interestMethod: 'FLAT',
         status: LoanStatus.APPROVED,
         requestedAt: new Date(),
         approvedAt: new Date(),
@@ -179,9 +233,9 @@ describe('M-Pesa Routes', () => {
         process.env.AT_USERNAME = 'test_at_username';
 
         const JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
-        userToken = jwt.sign({ id: mockUser.id, role: mockUser.role }, JWT_SECRET);
-        treasurerToken = jwt.sign({ id: mockTreasurer.id, role: mockTreasurer.role }, JWT_SECRET);
-        adminToken = jwt.sign({ id: mockAdmin.id, role: mockAdmin.role }, JWT_SECRET);
+        userToken = jwt.sign({ id: mockUser.id, sessionId: `session-${mockUser.id}`, role: mockUser.role }, JWT_SECRET);
+        treasurerToken = jwt.sign({ id: mockTreasurer.id, sessionId: `session-${mockTreasurer.id}`, role: mockTreasurer.role }, JWT_SECRET);
+        adminToken = jwt.sign({ id: mockAdmin.id, sessionId: `session-${mockAdmin.id}`, role: mockAdmin.role }, JWT_SECRET);
     });
 
     afterAll((done) => {
@@ -192,6 +246,12 @@ describe('M-Pesa Routes', () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
+        // Every token belongs to a live session of the user it was issued to
+        prismaMock.session.findUnique.mockImplementation(((args: any) => Promise.resolve({
+            userId: args.where.id.replace('session-', ''),
+            revokedAt: null,
+            expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        })) as any);
         prismaMock.user.findUnique.mockClear();
         prismaMock.contribution.findUnique.mockClear();
         prismaMock.contribution.findFirst.mockClear();
@@ -206,6 +266,7 @@ describe('M-Pesa Routes', () => {
         prismaMock.transaction.create.mockClear();
         mockedAxios.get.mockClear();
         mockedAxios.post.mockClear();
+        prismaMock.mpesaCallback.create.mockResolvedValue({ id: 'callback-1' } as any);
     });
 
     describe('POST /api/payments/stk-push', () => {
@@ -384,7 +445,49 @@ describe('M-Pesa Routes', () => {
                 },
             };
 
-            prismaMock.contribution.updateMany.mockResolvedValue({ count: 1 });
+            const pendingContribution = {
+                ...mockContribution,
+                amount: 0,
+                expectedAmount: 1000,
+                penaltyApplied: 0,
+                mpesaCheckoutId: 'checkout-123',
+                periodId: 'period-1',
+                period: { id: 'period-1', chamaId: mockChama.id, startDate: new Date(), endDate: new Date(), dueDate: new Date(Date.now() + 86400000) },
+                membership: { ...mockMembership, chama: { ...mockChama, monthlyContribution: 1000, meetingDay: 'Saturday' } },
+            };
+            const loggedPush = {
+                id: 'mpesa-request-1',
+                checkoutRequestId: 'checkout-123',
+                phone: '254712345678',
+                amount: 1000,
+                status: 'PENDING',
+                mpesaReceipt: null,
+                contributionId: 'contribution-1',
+                membershipId: mockMembership.id,
+                chamaId: mockChama.id,
+                chama: { name: mockChama.name },
+            };
+            prismaMock.mpesaRequest.findUnique.mockImplementation((({ where }: any) => Promise.resolve(where.checkoutRequestId ? loggedPush : null)) as any);
+            prismaMock.mpesaRequest.update.mockImplementation((({ data }: any) => Promise.resolve({ ...loggedPush, ...data })) as any);
+            prismaMock.contribution.findFirst.mockResolvedValue(pendingContribution as any);
+            prismaMock.contribution.findMany.mockResolvedValue([]);
+            prismaMock.contributionPayment.findFirst.mockResolvedValue(null);
+            prismaMock.chamaSettings.upsert.mockResolvedValue({
+                chamaId: mockChama.id, contributionFrequency: 'MONTHLY', contributionDeadlineDay: 15, cycleStartDate: null,
+                penaltyType: 'FIXED', penaltyAmount: 0, penaltyCap: null,
+            } as any);
+            prismaMock.contribution.update.mockImplementation((({ where, data }: any) => Promise.resolve({ ...pendingContribution, id: where.id, ...data })) as any);
+            prismaMock.fund.findMany.mockResolvedValue([
+                { id: 'fund-share', allocationRate: 0.2 },
+                { id: 'fund-savings', allocationRate: 0.8 },
+            ] as any);
+            prismaMock.fundAllocation.findMany.mockResolvedValue([]);
+            prismaMock.ledgerAccount.findMany.mockResolvedValue(
+                ['CASH', 'LOANS_RECEIVABLE', 'MEMBER_SAVINGS', 'INTEREST_INCOME', 'PENALTY_INCOME', 'EXPENSES']
+                    .map(systemKey => ({ id: `account-${systemKey}`, systemKey })) as any
+            );
+            prismaMock.journalEntry.create.mockResolvedValue({ id: 'entry-1' } as any);
+            prismaMock.$transaction.mockImplementation((callback: any) => callback(prismaMock));
 
             const res = await request(app)
                 .post('/api/payments/callback')
@@ -397,16 +500,66 @@ describe('M-Pesa Routes', () => {
             // Wait for async processing
             await new Promise(resolve => setTimeout(resolve, 100));
 
-            expect(prismaMock.contribution.updateMany).toHaveBeenCalledWith(
+            expect(prismaMock.contribution.update).toHaveBeenCalledWith(
                 expect.objectContaining({
-                    where: { mpesaCheckoutId: 'checkout-123' },
+                    where: { id: 'contribution-1' },
                     data: expect.objectContaining({
+                        amount: 1000,
                         status: 'PAID',
                         mpesaCode: 'QGH12345',
                         paymentMethod: 'M-PESA',
                     }),
                 })
             );
+            expect(prismaMock.contributionPayment.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ contributionId: 'contribution-1', amount: 1000, mpesaCode: 'QGH12345' }),
+            });
+            expect(prismaMock.fundAllocation.createMany).toHaveBeenCalledWith({
+                data: [
+                    { fundId: 'fund-share', amount: 200, contributionId: 'contribution-1', membershipId: mockMembership.id },
+                    { fundId: 'fund-savings', amount: 800, contributionId: 'contribution-1', membershipId: mockMembership.id },
+                ],
+            });
+            expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ chamaId: mockChama.id, type: 'CONTRIBUTION', amount: 1000 }),
+            });
+            expect(prismaMock.mpesaRequest.update).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: 'mpesa-request-1' },
+                data: expect.objectContaining({ status: 'COMPLETED', mpesaReceipt: 'QGH12345' }),
+            }));
+        });
+
+        it('should ignore a receipt that has already been recorded', async () => {
+            const callbackPayload = {
+                Body: {
+                    stkCallback: {
+                        MerchantRequestID: 'merchant-123',
+                        CheckoutRequestID: 'checkout-123',
+                        ResultCode: 0,
+                        ResultDesc: 'The service request is processed successfully.',
+                        CallbackMetadata: {
+                            Item: [
+                                { Name: 'Amount', Value: 1000 },
+                                { Name: 'MpesaReceiptNumber', Value: 'QGH12345' },
+                            ],
+                        },
+                    },
+                },
+            };
+
+            prismaMock.contribution.findFirst.mockResolvedValue({ ...mockContribution, mpesaCheckoutId: 'checkout-123' } as any);
+            prismaMock.contributionPayment.findFirst.mockResolvedValue({ id: 'payment-1' } as any);
+
+            const res = await request(app)
+                .post('/api/payments/callback')
+                .send(callbackPayload);
+
+            expect(res.statusCode).toEqual(200);
+
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            expect(prismaMock.$transaction).not.toHaveBeenCalled();
+            expect(prismaMock.contributionPayment.create).not.toHaveBeenCalled();
         });
 
         it('should handle failed payment callback', async () => {
@@ -432,6 +585,7 @@ describe('M-Pesa Routes', () => {
             await new Promise(resolve => setTimeout(resolve, 100));
 
             expect(prismaMock.contribution.updateMany).not.toHaveBeenCalled();
+            expect(prismaMock.contributionPayment.create).not.toHaveBeenCalled();
         });
 
         it('should handle invalid callback structure', async () => {
@@ -457,10 +611,11 @@ describe('M-Pesa Routes', () => {
     describe('GET /api/payments/status/:checkoutRequestId', () => {
         it('should check STK status successfully', async () => {
             prismaMock.user.findUnique.mockResolvedValue(mockUser);
-            prismaMock.contribution.findFirst.mockResolvedValue({
-                ...mockContribution,
-                mpesaCheckoutId: 'checkout-123',
-                membership: mockMembership,
+            prismaMock.mpesaRequest.findUnique.mockResolvedValue({
+                id: 'mpesa-request-1',
+                checkoutRequestId: 'checkout-123',
+                status: 'PENDING',
+                chamaId: mockChama.id,
             } as any);
             prismaMock.membership.findFirst.mockResolvedValue(mockMembership as any);
 
@@ -489,7 +644,7 @@ describe('M-Pesa Routes', () => {
 
         it('should return 404 for non-existent transaction', async () => {
             prismaMock.user.findUnique.mockResolvedValue(mockUser);
-            prismaMock.contribution.findFirst.mockResolvedValue(null);
+            prismaMock.mpesaRequest.findUnique.mockResolvedValue(null);
 
             const res = await request(app)
                 .get('/api/payments/status/invalid-checkout')
@@ -501,10 +656,11 @@ describe('M-Pesa Routes', () => {
 
         it('should deny access to non-members', async () => {
             prismaMock.user.findUnique.mockResolvedValue(mockUser);
-            prismaMock.contribution.findFirst.mockResolvedValue({
-                ...mockContribution,
-                mpesaCheckoutId: 'checkout-123',
-                membership: mockMembership,
+            prismaMock.mpesaRequest.findUnique.mockResolvedValue({
+                id: 'mpesa-request-1',
+                checkoutRequestId: 'checkout-123',
+                status: 'PENDING',
+                chamaId: mockChama.id,
             } as any);
             prismaMock.membership.findFirst.mockResolvedValue(null);
 
@@ -683,6 +839,213 @@ describe('M-Pesa Routes', () => {
         });
     });
 
+    describe('Webhook verification and idempotency', () => {
+        const b2cResultPayload = {
+            Result: {
+                ResultType: 0,
+                ResultCode: 0,
+                ResultDesc: 'The service request is processed successfully.',
+                ConversationID: 'conv-123',
+                ResultParameters: {
+                    ResultParameter: [
+                        { Key: 'TransactionAmount', Value: 5000 },
+                        { Key: 'TransactionReceipt', Value: 'QGH67890' },
+                    ],
+                },
+            },
+        };
+
+        beforeEach(() => {
+            prismaMock.loan.findFirst.mockResolvedValue({
+                ...mockLoan,
+                mpesaB2CRequestId: 'conv-123',
+                membership: mockMembership,
+            } as any);
+            prismaMock.$transaction.mockImplementation(async (callback: any) => callback({
+                loan: { update: jest.fn().mockResolvedValue({ ...mockLoan, status: LoanStatus.ACTIVE }) },
+                transaction: { create: jest.fn().mockResolvedValue({}) },
+            }));
+        });
+
+        afterEach(() => {
+            delete process.env.MPESA_CALLBACK_TOKEN;
+            delete process.env.MPESA_CALLBACK_ALLOWED_IPS;
+        });
+
+        it('should record a processed B2C result against its ConversationID', async () => {
+            const failedResultPayload = { Result: { ResultType: 0, ResultCode: 2001, ResultDesc: 'The initiator information is invalid.', ConversationID: 'conv-123' } };
+
+            await request(app).post('/api/payments/b2c-result').send(failedResultPayload);
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            expect(prismaMock.mpesaCallback.create).toHaveBeenCalledWith({
+                data: { type: 'B2C_RESULT', reference: 'conv-123', payload: failedResultPayload },
+            });
+            expect(prismaMock.mpesaCallback.update).toHaveBeenCalledWith({
+                where: { id: 'callback-1' },
+                data: expect.objectContaining({ status: 'PROCESSED' }),
+            });
+        });
+
+        it('should not post a disbursement twice for a repeated B2C result', async () => {
+            prismaMock.mpesaCallback.create.mockRejectedValue({ code: 'P2002' });
+            prismaMock.mpesaCallback.update.mockResolvedValue({
+                id: 'callback-1', status: 'PROCESSED', deliveries: 2, attempts: 1, claimedAt: new Date(), updatedAt: new Date(),
+            } as any);
+
+            const res = await request(app).post('/api/payments/b2c-result').send(b2cResultPayload);
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            expect(res.statusCode).toEqual(200);
+            expect(prismaMock.mpesaCallback.update).toHaveBeenCalledWith({
+                where: { type_reference: { type: 'B2C_RESULT', reference: 'conv-123' } },
+                data: { deliveries: { increment: 1 } },
+            });
+            expect(prismaMock.loan.findFirst).not.toHaveBeenCalled();
+            expect(prismaMock.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should reprocess a repeated B2C result whose first delivery failed', async () => {
+            const claimedAt = new Date();
+            prismaMock.mpesaCallback.create.mockRejectedValue({ code: 'P2002' });
+            prismaMock.mpesaCallback.update.mockResolvedValue({
+                id: 'callback-1', status: 'FAILED', deliveries: 2, attempts: 1, claimedAt, updatedAt: new Date(),
+            } as any);
+            prismaMock.mpesaCallback.updateMany.mockResolvedValue({ count: 1 });
+
+            await request(app).post('/api/payments/b2c-result').send(b2cResultPayload);
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            expect(prismaMock.mpesaCallback.updateMany).toHaveBeenCalledWith({
+                where: { id: 'callback-1', status: 'FAILED', claimedAt },
+                data: expect.objectContaining({ status: 'PROCESSING', attempts: { increment: 1 }, claimedAt: expect.any(Date) }),
+            });
+            expect(prismaMock.$transaction).toHaveBeenCalled();
+        });
+
+        it('should take over a B2C result whose processing was interrupted', async () => {
+            // Counting this delivery has just moved updatedAt; the claim is what has gone stale.
+            const claimedAt = new Date(Date.now() - 10 * 60 * 1000);
+            prismaMock.mpesaCallback.create.mockRejectedValue({ code: 'P2002' });
+            prismaMock.mpesaCallback.update.mockResolvedValue({
+                id: 'callback-1', status: 'PROCESSING', deliveries: 2, attempts: 1, claimedAt, updatedAt: new Date(),
+            } as any);
+            prismaMock.mpesaCallback.updateMany.mockResolvedValue({ count: 1 });
+
+            await request(app).post('/api/payments/b2c-result').send(b2cResultPayload);
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            expect(prismaMock.mpesaCallback.updateMany).toHaveBeenCalledWith({
+                where: { id: 'callback-1', status: 'PROCESSING', claimedAt },
+                data: expect.objectContaining({ status: 'PROCESSING', claimedAt: expect.any(Date) }),
+            });
+            expect(prismaMock.$transaction).toHaveBeenCalled();
+        });
+
+        it('should leave a B2C result that is still being processed', async () => {
+            prismaMock.mpesaCallback.create.mockRejectedValue({ code: 'P2002' });
+            prismaMock.mpesaCallback.update.mockResolvedValue({
+                id: 'callback-1', status: 'PROCESSING', deliveries: 2, attempts: 1, claimedAt: new Date(Date.now() - 60 * 1000), updatedAt: new Date(),
+            } as any);
+
+            await request(app).post('/api/payments/b2c-result').send(b2cResultPayload);
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            expect(prismaMock.mpesaCallback.updateMany).not.toHaveBeenCalled();
+            expect(prismaMock.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should mark a callback FAILED when processing it throws', async () => {
+            prismaMock.$transaction.mockRejectedValue(new Error('Database unavailable'));
+
+            await request(app).post('/api/payments/b2c-result').send(b2cResultPayload);
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            expect(prismaMock.mpesaCallback.update).toHaveBeenCalledWith({
+                where: { id: 'callback-1' },
+                data: { status: 'FAILED', error: 'Database unavailable' },
+            });
+        });
+
+        it('should not disburse a loan that has already been disbursed', async () => {
+            prismaMock.loan.findFirst.mockResolvedValue({
+                ...mockLoan,
+                status: LoanStatus.ACTIVE,
+                disbursedAt: new Date(),
+                mpesaB2CRequestId: 'conv-123',
+                membership: mockMembership,
+            } as any);
+
+            await request(app).post('/api/payments/b2c-result').send(b2cResultPayload);
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            expect(prismaMock.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should reject a callback without the callback token', async () => {
+            process.env.MPESA_CALLBACK_TOKEN = 'callback-secret';
+
+            const res = await request(app).post('/api/payments/b2c-result').send(b2cResultPayload);
+
+            expect(res.statusCode).toEqual(403);
+            expect(prismaMock.mpesaCallback.create).not.toHaveBeenCalled();
+        });
+
+        it('should reject a callback with the wrong callback token', async () => {
+            process.env.MPESA_CALLBACK_TOKEN = 'callback-secret';
+
+            const res = await request(app).post('/api/payments/callback/wrong-secret').send({});
+
+            expect(res.statusCode).toEqual(403);
+        });
+
+        it('should accept a callback with the callback token', async () => {
+            process.env.MPESA_CALLBACK_TOKEN = 'callback-secret';
+
+            const res = await request(app).post('/api/payments/b2c-result/callback-secret').send(b2cResultPayload);
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            expect(res.statusCode).toEqual(200);
+            expect(prismaMock.$transaction).toHaveBeenCalled();
+        });
+
+        it('should reject a callback from an address outside the allowlist', async () => {
+            process.env.MPESA_CALLBACK_ALLOWED_IPS = '196.201.214.0/24, 196.201.213.114';
+
+            const res = await request(app).post('/api/payments/b2c-timeout').send({ Result: { ConversationID: 'conv-123' } });
+
+            expect(res.statusCode).toEqual(403);
+            expect(prismaMock.loan.update).not.toHaveBeenCalled();
+        });
+
+        it('should accept a callback from an allowed address', async () => {
+            process.env.MPESA_CALLBACK_ALLOWED_IPS = '196.201.214.0/24,127.0.0.0/8,::1';
+
+            const res = await request(app).post('/api/payments/b2c-result').send(b2cResultPayload);
+
+            expect(res.statusCode).toEqual(200);
+        });
+
+        it('should give Daraja callback URLs that carry the callback token', async () => {
+            process.env.MPESA_CALLBACK_TOKEN = 'callback-secret';
+            prismaMock.user.findUnique.mockResolvedValue(mockUser);
+            prismaMock.contribution.findUnique.mockResolvedValue({ ...mockContribution, membership: mockMembership } as any);
+            mockedAxios.get.mockResolvedValue({ data: { access_token: 'test_token', expires_in: 3599 } });
+            mockedAxios.post.mockResolvedValue({ data: { MerchantRequestID: 'merchant-123', CheckoutRequestID: 'checkout-123', ResponseCode: '0' } });
+
+            await request(app)
+                .post('/api/payments/stk-push')
+                .set('Authorization', `Bearer ${userToken}`)
+                .send({ amount: 1000, phone: '254712345678', contributionId: mockContribution.id });
+
+            expect(mockedAxios.post).toHaveBeenCalledWith(
+                expect.stringContaining('/mpesa/stkpush/v1/processrequest'),
+                expect.objectContaining({ CallBackURL: 'https://test-api.com/api/payments/callback/callback-secret' }),
+                expect.anything()
+            );
+        });
+    });
+
     describe('GET /api/payments/transactions/:chamaId', () => {
         
         it('should deny access to non-members', async () => {
@@ -0,0 +1,463 @@
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaFunctions: any = {
+    mpesaRequest: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    contribution: {
+      updateMany: jest.fn(),
+    },
+    contributionPayment: {
+      findFirst: jest.fn(),
+    },
+    loan: {
+      findUnique: jest.fn(),
+    },
+    loanPayment: {
+      findUnique: jest.fn(),
+    },
+    membership: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    transaction: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mockPrismaFunctions),
+    MembershipRole: {
+      ADMIN: 'ADMIN',
+      TREASURER: 'TREASURER',
+      SECRETARY: 'SECRETARY',
+      MEMBER: 'MEMBER',
+    },
+    ContributionStatus: { PENDING: 'PENDING', PARTIALLY_PAID: 'PARTIALLY_PAID', PAID: 'PAID', OVERDUE: 'OVERDUE' },
+    LoanStatus: { PENDING: 'PENDING', APPROVED: 'APPROVED', ACTIVE: 'ACTIVE', DEFAULTED: 'DEFAULTED', PAID: 'PAID' },
+    NotificationType: { GENERAL: 'GENERAL' },
+    AuditAction: { MPESA_PAYMENT_ASSIGN: 'MPESA_PAYMENT_ASSIGN' },
+  };
+});
+
+jest.mock('../src/middleware/auth.middleware', () => ({
+  protect: (req: any, res: Response, next: NextFunction) => {
+    req.user = { id: req.headers['x-user-id'] || 'user2' };
+    next();
+  },
+}));
+
+jest.mock('../src/middleware/membership.middleware', () => ({
+  checkMembership: () => (req: Request, res: Response, next: NextFunction) => next(),
+}));
+
+jest.mock('../src/services/audit.service');
+jest.mock('../src/services/notification.service');
+jest.mock('../src/services/contribution.service');
+jest.mock('../src/services/mpesa.service');
+jest.mock('../src/services/ledger.service');
+jest.mock('../src/services/loan.service');
+jest.mock('../src/services/merryGoRound.service');
+jest.mock('../src/services/withdrawal.service');
+jest.mock('../src/services/dividend.service');
+
+import mpesaRoutes from '../src/routes/mpesa.routes';
+import * as mpesaRequestService from '../src/services/mpesaRequest.service';
+import { recordContribution, recordMpesaContributionPayment, recordPaybillContributionPayment } from '../src/services/contribution.service';
+import { getNextInstallmentAmount, getOutstandingLoans, recordLoanPayment } from '../src/services/loan.service';
+import { initiateLoanStkPush } from '../src/services/mpesa.service';
+import { darajaProvider } from '../src/services/payments/daraja.provider';
+import { createNotification, sendSms } from '../src/services/notification.service';
+import { createAuditLog } from '../src/services/audit.service';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient() as any;
+
+const app = express();
+app.use(express.json());
+app.use('/payments', mpesaRoutes);
+
+const pendingPush = {
+  id: 'req1',
+  checkoutRequestId: 'ws_CO_1',
+  phone: '254712345678',
+  amount: 1000,
+  status: 'PENDING',
+  mpesaReceipt: null,
+  contributionId: 'contrib1',
+  membershipId: 'mem1',
+  chamaId: 'chama1',
+  chama: { name: 'Umoja Chama' },
+};
+
+// Callbacks reach the reconciliation service already parsed by the payment provider
+const stkCallback = (callback: object) => darajaProvider.parseCollectionCallback({ Body: { stkCallback: callback } });
+
+const successCallback = (checkoutRequestId: string) => stkCallback({
+  MerchantRequestID: 'merchant-1',
+  CheckoutRequestID: checkoutRequestId,
+  ResultCode: 0,
+  ResultDesc: 'The service request is processed successfully.',
+  CallbackMetadata: {
+    Item: [
+      { Name: 'Amount', Value: 1000 },
+      { Name: 'MpesaReceiptNumber', Value: 'QGH12345' },
+      { Name: 'TransactionDate', Value: 20261015093000 },
+      { Name: 'PhoneNumber', Value: 254712345678 },
+    ],
+  },
+});
+
+describe('M-Pesa Reconciliation Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.$transaction.mockImplementation((callback: any) => callback(prisma));
+    prisma.mpesaRequest.findUnique.mockImplementation(({ where }: any) => Promise.resolve(where.checkoutRequestId === 'ws_CO_1' ? pendingPush : null));
+    prisma.mpesaRequest.update.mockImplementation(({ data }: any) => Promise.resolve({ ...pendingPush, ...data }));
+    prisma.mpesaRequest.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'req2', membershipId: null, ...data }));
+    prisma.contributionPayment.findFirst.mockResolvedValue(null);
+    prisma.loanPayment.findUnique.mockResolvedValue(null);
+    (recordMpesaContributionPayment as jest.Mock).mockResolvedValue([{ id: 'contrib1' }]);
+  });
+
+  describe('processStkCallback', () => {
+    it('should apply a successful payment and notify the member in the app and by SMS', async () => {
+      const completed = await mpesaRequestService.processStkCallback(successCallback('ws_CO_1'));
+
+      expect(recordMpesaContributionPayment).toHaveBeenCalledWith('ws_CO_1', 1000, 'QGH12345', new Date(2026, 9, 15, 9, 30));
+      expect(completed?.status).toBe('COMPLETED');
+      expect(prisma.mpesaRequest.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'COMPLETED', mpesaReceipt: 'QGH12345', events: { create: { status: 'COMPLETED', note: expect.any(String) } } }),
+      }));
+      expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({ membershipId: 'mem1', title: 'Payment Received' }));
+      expect(sendSms).toHaveBeenCalledWith(['+254712345678'], expect.stringContaining('QGH12345'));
+    });
+
+    it('should close a cancelled push and stop the contribution waiting on it', async () => {
+      const closed = await mpesaRequestService.processStkCallback(stkCallback({
+        CheckoutRequestID: 'ws_CO_1',
+        ResultCode: 1032,
+        ResultDesc: 'Request cancelled by user',
+      }));
+
+      expect(closed?.status).toBe('CANCELLED');
+      expect(prisma.contribution.updateMany).toHaveBeenCalledWith({
+        where: { id: 'contrib1', mpesaCheckoutId: 'ws_CO_1' },
+        data: { mpesaCheckoutId: null },
+      });
+      expect(recordMpesaContributionPayment).not.toHaveBeenCalled();
+      expect(sendSms).toHaveBeenCalledWith(['+254712345678'], expect.stringContaining('the M-Pesa prompt was cancelled'));
+    });
+
+    it('should queue a payment for an unknown push as unmatched', async () => {
+      const queued = await mpesaRequestService.processStkCallback(successCallback('ws_CO_unknown'));
+
+      expect(queued?.status).toBe('UNMATCHED');
+      expect(prisma.mpesaRequest.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ checkoutRequestId: 'ws_CO_unknown', phone: '254712345678', amount: 1000, mpesaReceipt: 'QGH12345', status: 'UNMATCHED' }),
+      });
+      expect(recordMpesaContributionPayment).not.toHaveBeenCalled();
+    });
+
+    it('should queue a payment whose contribution no longer exists as unmatched', async () => {
+      (recordMpesaContributionPayment as jest.Mock).mockResolvedValue(null);
+
+      const queued = await mpesaRequestService.processStkCallback(successCallback('ws_CO_1'));
+
+      expect(queued?.status).toBe('UNMATCHED');
+      expect(prisma.mpesaRequest.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'req1' } }));
+    });
+
+    it('should ignore a receipt that has already been recorded', async () => {
+      prisma.contributionPayment.findFirst.mockResolvedValue({ id: 'payment1' });
+
+      await expect(mpesaRequestService.processStkCallback(successCallback('ws_CO_1'))).resolves.toBeNull();
+      expect(recordMpesaContributionPayment).not.toHaveBeenCalled();
+    });
+
+    it('should ignore a failure callback for a push that is already settled', async () => {
+      prisma.mpesaRequest.findUnique.mockResolvedValue({ ...pendingPush, status: 'COMPLETED' });
+
+      await expect(mpesaRequestService.processStkCallback(stkCallback({ CheckoutRequestID: 'ws_CO_1', ResultCode: 1, ResultDesc: 'Insufficient funds' }))).resolves.toBeNull();
+      expect(prisma.mpesaRequest.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Loan repayments', () => {
+    const loanPush = { ...pendingPush, id: 'req3', checkoutRequestId: 'ws_CO_loan', contributionId: null, loanId: 'loan1' };
+    const activeLoan = { id: 'loan1', status: 'ACTIVE', membership: { userId: 'user1', chamaId: 'chama1' } };
+
+    beforeEach(() => {
+      prisma.loan.findUnique.mockResolvedValue(activeLoan);
+      (getNextInstallmentAmount as jest.Mock).mockResolvedValue(1833.33);
+      (initiateLoanStkPush as jest.Mock).mockResolvedValue({ CheckoutRequestID: 'ws_CO_loan', ResponseCode: '0' });
+      (recordLoanPayment as jest.Mock).mockResolvedValue({ id: 'payment1' });
+    });
+
+    it('should ask for the next installment, rounded up to whole shillings', async () => {
+      const res = await request(app)
+        .post('/payments/stk-push/loan')
+        .set('x-user-id', 'user1')
+        .send({ loanId: 'loan1', phone: '254712345678' });
+
+      expect(res.statusCode).toBe(200);
+      expect(initiateLoanStkPush).toHaveBeenCalledWith('254712345678', 1834, 'loan1');
+      expect(res.body.data).toEqual(expect.objectContaining({ CheckoutRequestID: 'ws_CO_loan', amount: 1834 }));
+    });
+
+    it('should use the amount the member chose', async () => {
+      const res = await request(app)
+        .post('/payments/stk-push/loan')
+        .set('x-user-id', 'user1')
+        .send({ loanId: 'loan1', phone: '254712345678', amount: 5000 });
+
+      expect(res.statusCode).toBe(200);
+      expect(getNextInstallmentAmount).not.toHaveBeenCalled();
+      expect(initiateLoanStkPush).toHaveBeenCalledWith('254712345678', 5000, 'loan1');
+    });
+
+    it('should not let a member repay someone else\'s loan', async () => {
+      const res = await request(app)
+        .post('/payments/stk-push/loan')
+        .set('x-user-id', 'user2')
+        .send({ loanId: 'loan1', phone: '254712345678' });
+
+      expect(res.statusCode).toBe(403);
+      expect(initiateLoanStkPush).not.toHaveBeenCalled();
+    });
+
+    it('should only accept active loans', async () => {
+      prisma.loan.findUnique.mockResolvedValue({ ...activeLoan, status: 'PAID' });
+
+      const res = await request(app)
+        .post('/payments/stk-push/loan')
+        .set('x-user-id', 'user1')
+        .send({ loanId: 'loan1', phone: '254712345678' });
+
+      expect(res.statusCode).toBe(409);
+      expect(initiateLoanStkPush).not.toHaveBeenCalled();
+    });
+
+    it('should record a confirmed push as a repayment on the loan', async () => {
+      prisma.mpesaRequest.findUnique.mockImplementation(({ where }: any) => Promise.resolve(where.checkoutRequestId === 'ws_CO_loan' ? loanPush : null));
+
+      const completed = await mpesaRequestService.processStkCallback(successCallback('ws_CO_loan'));
+
+      expect(recordLoanPayment).toHaveBeenCalledWith(
+        'loan1',
+        { amount: 1000, paymentMethod: 'M-PESA', mpesaCode: 'QGH12345', paidAt: new Date(2026, 9, 15, 9, 30) },
+        null,
+        {}
+      );
+      expect(recordMpesaContributionPayment).not.toHaveBeenCalled();
+      expect(completed?.status).toBe('COMPLETED');
+      expect(sendSms).toHaveBeenCalledWith(['+254712345678'], expect.stringContaining('towards your loan'));
+    });
+
+    it('should queue a payment for a loan that is no longer outstanding as unmatched', async () => {
+      prisma.mpesaRequest.findUnique.mockImplementation(({ where }: any) => Promise.resolve(where.checkoutRequestId === 'ws_CO_loan' ? loanPush : null));
+      (recordLoanPayment as jest.Mock).mockRejectedValue(new Error('Cannot record payment for this loan.'));
+
+      const queued = await mpesaRequestService.processStkCallback(successCallback('ws_CO_loan'));
+
+      expect(queued?.status).toBe('UNMATCHED');
+    });
+  });
+
+  describe('Paybill (C2B) payments', () => {
+    const member = { id: 'mem1', memberNumber: 1042, chamaId: 'chama1', chama: { name: 'Umoja Chama' } };
+    const c2bPayment = (billRefNumber: string) => ({
+      TransactionType: 'Pay Bill',
+      TransID: 'RKTQDM7W6S',
+      TransTime: '20261015093000',
+      TransAmount: '1500.00',
+      BusinessShortCode: '600000',
+      BillRefNumber: billRefNumber,
+      MSISDN: '254712345678',
+    });
+
+    beforeEach(() => {
+      prisma.mpesaRequest.findUnique.mockResolvedValue(null);
+      prisma.mpesaRequest.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'req4', ...data }));
+      prisma.mpesaRequest.update.mockImplementation(({ data }: any) => Promise.resolve({ id: 'req4', status: 'UNMATCHED', ...data }));
+      prisma.membership.findFirst.mockResolvedValue(member);
+      (recordPaybillContributionPayment as jest.Mock).mockResolvedValue([{ id: 'contrib5' }]);
+      (getOutstandingLoans as jest.Mock).mockResolvedValue([{ loan: { id: 'loan1' }, paid: 0, balance: 5000 }]);
+      (recordLoanPayment as jest.Mock).mockResolvedValue({ id: 'payment1' });
+    });
+
+    it('should reject a payment to a member number that does not exist', async () => {
+      prisma.membership.findFirst.mockResolvedValue(null);
+
+      const res = await request(app).post('/payments/c2b/validation').send(c2bPayment('9999CONT'));
+
+      expect(res.body).toEqual({ ResultCode: 'C2B00012', ResultDesc: 'Rejected' });
+      expect(prisma.membership.findFirst).toHaveBeenCalledWith({ where: { memberNumber: 9999, isActive: true } });
+    });
+
+    it('should accept a payment without a member number', async () => {
+      const res = await request(app).post('/payments/c2b/validation').send(c2bPayment('school fees'));
+
+      expect(res.body).toEqual({ ResultCode: '0', ResultDesc: 'Accepted' });
+      expect(prisma.membership.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should apply a payment to the member\'s contributions by account number', async () => {
+      const logged = await mpesaRequestService.processC2BConfirmation(c2bPayment('1042cont'));
+
+      expect(prisma.membership.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { memberNumber: 1042, isActive: true } }));
+      expect(prisma.mpesaRequest.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ channel: 'C2B', accountReference: '1042cont', amount: 1500, mpesaReceipt: 'RKTQDM7W6S', status: 'UNMATCHED', membershipId: 'mem1' }),
+      });
+      expect(recordPaybillContributionPayment).toHaveBeenCalledWith('mem1', 1500, 'RKTQDM7W6S', new Date(2026, 9, 15, 9, 30));
+      expect(logged).toEqual(expect.objectContaining({ status: 'COMPLETED', contributionId: 'contrib5' }));
+      expect(sendSms).toHaveBeenCalledWith(['+254712345678'], expect.stringContaining('Umoja Chama'));
+    });
+
+    it('should apply a LOAN payment to the member\'s oldest outstanding loan', async () => {
+      const logged = await mpesaRequestService.processC2BConfirmation(c2bPayment('1042-LOAN'));
+
+      expect(getOutstandingLoans).toHaveBeenCalledWith('mem1');
+      expect(recordLoanPayment).toHaveBeenCalledWith('loan1', expect.objectContaining({ amount: 1500, paymentMethod: 'M-PESA', mpesaCode: 'RKTQDM7W6S' }), null, {});
+      expect(recordPaybillContributionPayment).not.toHaveBeenCalled();
+      expect(logged).toEqual(expect.objectContaining({ status: 'COMPLETED', loanId: 'loan1' }));
+    });
+
+    it('should match by phone number when it belongs to exactly one member', async () => {
+      prisma.membership.findMany.mockResolvedValue([member]);
+
+      const logged = await mpesaRequestService.processC2BConfirmation(c2bPayment('LOAN'));
+
+      expect(prisma.membership.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { isActive: true, user: { phone: { in: ['254712345678', '+254712345678'] } } },
+      }));
+      expect(logged?.status).toBe('COMPLETED');
+    });
+
+    it('should queue a payment from a phone shared by several memberships for review', async () => {
+      prisma.membership.findMany.mockResolvedValue([member, { ...member, id: 'mem9', chamaId: 'chama2' }]);
+
+      const logged = await mpesaRequestService.processC2BConfirmation(c2bPayment('CONT'));
+
+      expect(logged?.status).toBe('UNMATCHED');
+      expect(recordPaybillContributionPayment).not.toHaveBeenCalled();
+      expect(prisma.mpesaRequest.create).toHaveBeenCalledWith({ data: expect.objectContaining({ chamaId: undefined, membershipId: undefined }) });
+    });
+
+    it('should queue a LOAN payment from a member with no outstanding loan for review', async () => {
+      (getOutstandingLoans as jest.Mock).mockResolvedValue([]);
+
+      const logged = await mpesaRequestService.processC2BConfirmation(c2bPayment('1042LOAN'));
+
+      expect(logged?.status).toBe('UNMATCHED');
+      expect(prisma.mpesaRequest.update).toHaveBeenCalledWith({
+        where: { id: 'req4' },
+        data: { events: { create: { status: 'UNMATCHED', note: expect.stringContaining('could not be applied to an outstanding loan') } } },
+      });
+    });
+
+    it('should ignore a receipt that has already been recorded', async () => {
+      prisma.mpesaRequest.findUnique.mockResolvedValue({ id: 'req4' });
+
+      await expect(mpesaRequestService.processC2BConfirmation(c2bPayment('1042'))).resolves.toBeNull();
+      expect(prisma.mpesaRequest.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireStalePushes', () => {
+    it('should time out pushes that have had no callback', async () => {
+      prisma.mpesaRequest.findMany.mockResolvedValue([pendingPush]);
+
+      const expired = await mpesaRequestService.expireStalePushes(5, new Date(2026, 9, 15, 10, 0));
+
+      expect(expired).toBe(1);
+      expect(prisma.mpesaRequest.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: 'PENDING', createdAt: { lt: new Date(2026, 9, 15, 9, 55) } },
+      }));
+      expect(prisma.mpesaRequest.update).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ status: 'TIMED_OUT' }) }));
+    });
+  });
+
+  describe('Unmatched payments', () => {
+    const unmatched = { ...pendingPush, id: 'req2', status: 'UNMATCHED', chamaId: null, membershipId: null, contributionId: null, mpesaReceipt: 'QGH999', completedAt: new Date(2026, 9, 15) };
+
+    beforeEach(() => {
+      prisma.membership.findMany.mockResolvedValue([{ user: { phone: '+254712345678' } }]);
+      prisma.membership.findFirst.mockImplementation(({ where }: any) => Promise.resolve(
+        where.userId === 'user2' ? { id: 'mem2', role: 'TREASURER' } : { id: where.id, chamaId: 'chama1' }
+      ));
+      prisma.mpesaRequest.findFirst.mockResolvedValue(unmatched);
+      prisma.mpesaRequest.updateMany.mockResolvedValue({ count: 1 });
+      (recordContribution as jest.Mock).mockResolvedValue({ id: 'contrib9' });
+    });
+
+    it('should list payments paid from a member\'s phone number', async () => {
+      prisma.mpesaRequest.findMany.mockResolvedValue([unmatched]);
+
+      const res = await request(app).get('/payments/unmatched/chama1');
+
+      expect(res.statusCode).toBe(200);
+      expect(prisma.mpesaRequest.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: 'UNMATCHED', OR: [{ chamaId: 'chama1' }, { chamaId: null, phone: { in: ['254712345678'] } }] },
+      }));
+    });
+
+    it('should record an assigned payment as the member\'s contribution', async () => {
+      const res = await request(app)
+        .post('/payments/unmatched/chama1/req2/assign')
+        .send({ membershipId: 'mem1' });
+
+      expect(res.statusCode).toBe(200);
+      expect(recordContribution).toHaveBeenCalledWith(
+        expect.objectContaining({ membershipId: 'mem1', amount: 1000, paymentMethod: 'M-PESA', mpesaCode: 'QGH999', paidAt: unmatched.completedAt }),
+        'user2',
+        expect.any(Object)
+      );
+      expect(prisma.transaction.create).toHaveBeenCalledWith({ data: expect.objectContaining({ chamaId: 'chama1', type: 'CONTRIBUTION', amount: 1000 }) });
+      expect(prisma.mpesaRequest.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ chamaId: 'chama1', membershipId: 'mem1', contributionId: 'contrib9', assignedById: 'mem2' }),
+      }));
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'MPESA_PAYMENT_ASSIGN' }));
+    });
+
+    it('should not assign a payment twice', async () => {
+      prisma.mpesaRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      const res = await request(app)
+        .post('/payments/unmatched/chama1/req2/assign')
+        .send({ membershipId: 'mem1' });
+
+      expect(res.statusCode).toBe(409);
+      expect(recordContribution).not.toHaveBeenCalled();
+    });
+
+    it('should put the payment back in the queue when it cannot be recorded', async () => {
+      (recordContribution as jest.Mock).mockRejectedValue(new Error('A payment with this M-Pesa code has already been recorded.'));
+
+      const res = await request(app)
+        .post('/payments/unmatched/chama1/req2/assign')
+        .send({ membershipId: 'mem1' });
+
+      expect(res.statusCode).toBe(500);
+      expect(prisma.mpesaRequest.update).toHaveBeenCalledWith({ where: { id: 'req2' }, data: { status: 'UNMATCHED' } });
+    });
+
+    it('should require a membership ID', async () => {
+      const res = await request(app)
+        .post('/payments/unmatched/chama1/req2/assign')
+        .send({});
+
+      expect(res.statusCode).toBe(400);
+    });
+  });
+});
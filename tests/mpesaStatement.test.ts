@@ -0,0 +1,380 @@
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaFunctions: any = {
+    mpesaStatement: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    mpesaStatementLine: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    mpesaRequest: {
+      updateMany: jest.fn(),
+    },
+    contribution: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    contributionPayment: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    loanPayment: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    membership: {
+      findFirst: jest.fn(),
+    },
+    transaction: {
+      create: jest.fn(),
+    },
+  };
+
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mockPrismaFunctions),
+    MembershipRole: {
+      ADMIN: 'ADMIN',
+      TREASURER: 'TREASURER',
+      SECRETARY: 'SECRETARY',
+      MEMBER: 'MEMBER',
+    },
+    ContributionStatus: { PENDING: 'PENDING', PARTIALLY_PAID: 'PARTIALLY_PAID', PAID: 'PAID', OVERDUE: 'OVERDUE' },
+    LoanStatus: { PENDING: 'PENDING', APPROVED: 'APPROVED', ACTIVE: 'ACTIVE', DEFAULTED: 'DEFAULTED', PAID: 'PAID' },
+    StatementLineStatus: {
+      MATCHED: 'MATCHED',
+      MISSING: 'MISSING',
+      DUPLICATE: 'DUPLICATE',
+      AMOUNT_MISMATCH: 'AMOUNT_MISMATCH',
+      RESOLVED: 'RESOLVED',
+    },
+    NotificationType: { GENERAL: 'GENERAL' },
+    AuditAction: {
+      MPESA_STATEMENT_IMPORT: 'MPESA_STATEMENT_IMPORT',
+      MPESA_STATEMENT_RESOLVE: 'MPESA_STATEMENT_RESOLVE',
+    },
+  };
+});
+
+jest.mock('../src/middleware/auth.middleware', () => ({
+  protect: (req: any, res: Response, next: NextFunction) => {
+    req.user = { id: req.headers['x-user-id'] || 'user2' };
+    next();
+  },
+}));
+
+jest.mock('../src/middleware/membership.middleware', () => ({
+  checkMembership: () => (req: Request, res: Response, next: NextFunction) => next(),
+}));
+
+jest.mock('../src/services/audit.service');
+jest.mock('../src/services/notification.service');
+jest.mock('../src/services/contribution.service');
+jest.mock('../src/services/mpesa.service');
+jest.mock('../src/services/ledger.service');
+jest.mock('../src/services/loan.service');
+jest.mock('../src/services/merryGoRound.service');
+jest.mock('../src/services/withdrawal.service');
+jest.mock('../src/services/dividend.service');
+
+import mpesaRoutes from '../src/routes/mpesa.routes';
+import * as mpesaStatementService from '../src/services/mpesaStatement.service';
+import { recordContribution, updateContribution } from '../src/services/contribution.service';
+import { getOutstandingLoans, recordLoanPayment } from '../src/services/loan.service';
+import { createAuditLog } from '../src/services/audit.service';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient() as any;
+
+const app = express();
+app.use(express.json());
+app.use('/payments', mpesaRoutes);
+
+const statementCsv = [
+  'Account Holder:,UMOJA CHAMA',
+  'Short Code:,600000',
+  '',
+  'Receipt No.,Completion Time,Initiation Time,Details,Transaction Status,Paid In,Withdrawn,Balance,Other Party Info,A/C No.',
+  'QGH001,2026-10-01 09:00:00,2026-10-01 09:00:00,Pay Bill from 254712345678,Completed,"1,000.00",,"1,000.00",254712***678 - JANE DOE,1042CONT',
+  'QGH002,2026-10-02 10:00:00,2026-10-02 10:00:00,Pay Bill from 254722345678,Completed,1500.00,,2500.00,254722***678 - JOHN DOE,1043',
+  'QGH003,2026-10-03 11:00:00,2026-10-03 11:00:00,Pay Bill from 254733345678,Completed,2000.00,,4500.00,254733***678 - MARY WANJIKU,1044LOAN',
+  'QGH004,2026-10-04 12:00:00,2026-10-04 12:00:00,Pay Bill from 254744345678,Completed,500.00,,5000.00,254744***678 - PETER OTIENO,',
+  'QGH001,2026-10-01 09:00:00,2026-10-01 09:00:00,Pay Bill from 254712345678,Completed,1000.00,,6000.00,254712***678 - JANE DOE,1042CONT',
+  'QGH005,2026-10-05 13:00:00,2026-10-05 13:00:00,Business Payment to 254755345678,Completed,,-3000.00,3000.00,254755***678 - ALICE,',
+  'QGH006,2026-10-06 14:00:00,2026-10-06 14:00:00,Pay Bill from 254766345678,Failed,700.00,,3000.00,254766***678 - BOB,',
+].join('\n');
+
+describe('M-Pesa Statement Reconciliation Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.contributionPayment.findMany.mockResolvedValue([]);
+    prisma.contribution.findMany.mockResolvedValue([]);
+    prisma.loanPayment.findMany.mockResolvedValue([]);
+    prisma.membership.findFirst.mockImplementation(({ where }: any) => Promise.resolve({ id: where.id ?? 'mem2', chamaId: 'chama1' }));
+  });
+
+  describe('parseStatement', () => {
+    it('should skip the account details above the table and keep completed payments in', () => {
+      const { entries, skipped } = mpesaStatementService.parseStatement(Buffer.from(statementCsv));
+
+      expect(entries.map(entry => entry.receipt)).toEqual(['QGH001', 'QGH002', 'QGH003', 'QGH004', 'QGH001']);
+      expect(entries[0]).toEqual({
+        receipt: 'QGH001',
+        completedAt: new Date(2026, 9, 1, 9, 0),
+        details: 'Pay Bill from 254712345678',
+        otherParty: '254712***678 - JANE DOE',
+        accountNumber: '1042CONT',
+        amount: 1000,
+      });
+      expect(skipped).toBe(2);
+    });
+
+    it('should reject a file that is not an M-Pesa statement', () => {
+      expect(() => mpesaStatementService.parseStatement(Buffer.from('email,amount\njane@example.com,1000')))
+        .toThrow('CSV parsing error: this is not an M-Pesa statement, as it has no "Receipt No." column.');
+    });
+  });
+
+  describe('Importing a statement', () => {
+    beforeEach(() => {
+      prisma.contributionPayment.findMany.mockImplementation(({ where }: any) => Promise.resolve(where.mpesaCode.in ? [
+        { mpesaCode: 'QGH001', amount: 600, contributionId: 'contrib1' },
+        { mpesaCode: 'QGH001', amount: 400, contributionId: 'contrib2' },
+        { mpesaCode: 'QGH002', amount: 1000, contributionId: 'contrib3' },
+      ] : []));
+      prisma.loanPayment.findMany.mockImplementation(({ where }: any) => Promise.resolve(where.mpesaCode.in ? [
+        { id: 'loanPayment1', mpesaCode: 'QGH003', amount: 2000 },
+        { id: 'loanPayment2', mpesaCode: 'QGH002', amount: 500 },
+      ] : []));
+      prisma.mpesaStatement.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'statement1', ...data }));
+      prisma.mpesaStatement.findFirst.mockResolvedValue({ id: 'statement1', periodStart: null, periodEnd: null, lines: [] });
+    });
+
+    it('should flag each payment against the recorded contributions and loan repayments', async () => {
+      await mpesaStatementService.importStatement('chama1', 'october.csv', Buffer.from(statementCsv), 'user2', {});
+
+      const { data } = prisma.mpesaStatement.create.mock.calls[0][0];
+      const lines = data.lines.create;
+      expect(data).toEqual(expect.objectContaining({
+        chamaId: 'chama1',
+        fileName: 'october.csv',
+        periodStart: new Date(2026, 9, 1, 9, 0),
+        periodEnd: new Date(2026, 9, 4, 12, 0),
+        skippedLines: 2,
+        uploadedById: 'mem2',
+      }));
+      // A payment spread over two periods is matched on its total
+      expect(lines[0]).toEqual(expect.objectContaining({ receipt: 'QGH001', status: 'MATCHED', recordedAmount: 1000, contributionId: 'contrib1' }));
+      expect(lines[1]).toEqual(expect.objectContaining({ receipt: 'QGH002', status: 'DUPLICATE', recordedAmount: 1500 }));
+      expect(lines[2]).toEqual(expect.objectContaining({ receipt: 'QGH003', status: 'MATCHED', loanPaymentId: 'loanPayment1' }));
+      expect(lines[3]).toEqual(expect.objectContaining({ receipt: 'QGH004', status: 'MISSING' }));
+      expect(lines[4]).toEqual(expect.objectContaining({ receipt: 'QGH001', status: 'DUPLICATE', note: 'This receipt appears more than once on the statement' }));
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'MPESA_STATEMENT_IMPORT', chamaId: 'chama1' }));
+    });
+
+    it('should flag a payment recorded for a different amount', async () => {
+      prisma.contributionPayment.findMany.mockImplementation(({ where }: any) => Promise.resolve(where.mpesaCode.in ? [
+        { mpesaCode: 'QGH004', amount: 400, contributionId: 'contrib4' },
+      ] : []));
+      prisma.loanPayment.findMany.mockResolvedValue([]);
+
+      await mpesaStatementService.importStatement('chama1', 'october.csv', Buffer.from(statementCsv), 'user2', {});
+
+      const lines = prisma.mpesaStatement.create.mock.calls[0][0].data.lines.create;
+      expect(lines[3]).toEqual(expect.objectContaining({
+        status: 'AMOUNT_MISMATCH',
+        recordedAmount: 400,
+        note: 'Recorded as KES 400.00 but the statement shows KES 500.00',
+      }));
+    });
+
+    it('should accept an uploaded statement file', async () => {
+      const res = await request(app)
+        .post('/payments/statements/chama1')
+        .attach('statementFile', Buffer.from(statementCsv), 'october.csv');
+
+      expect(res.statusCode).toBe(201);
+      expect(prisma.mpesaStatement.create).toHaveBeenCalled();
+    });
+
+    it('should require a statement file', async () => {
+      const res = await request(app).post('/payments/statements/chama1');
+
+      expect(res.statusCode).toBe(400);
+      expect(prisma.mpesaStatement.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Reconciliation report', () => {
+    it('should count lines by status and list payments recorded during the period but not on the statement', async () => {
+      const periodStart = new Date(2026, 9, 1);
+      const periodEnd = new Date(2026, 9, 31);
+      prisma.mpesaStatement.findFirst.mockResolvedValue({
+        id: 'statement1',
+        periodStart,
+        periodEnd,
+        lines: [
+          { id: 'line1', receipt: 'QGH001', status: 'MATCHED' },
+          { id: 'line2', receipt: 'QGH004', status: 'MISSING' },
+        ],
+      });
+      prisma.contributionPayment.findMany.mockResolvedValue([{ id: 'payment9', mpesaCode: 'QGH999', amount: 800 }]);
+
+      const res = await request(app).get('/payments/statements/chama1/statement1');
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body.data.summary).toEqual({ MATCHED: 1, MISSING: 1, DUPLICATE: 0, AMOUNT_MISMATCH: 0, RESOLVED: 0 });
+      expect(res.body.data.notOnStatement.contributionPayments).toEqual([{ id: 'payment9', mpesaCode: 'QGH999', amount: 800 }]);
+      expect(prisma.contributionPayment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { mpesaCode: { not: null, notIn: ['QGH001', 'QGH004'] }, paidAt: { gte: periodStart, lte: periodEnd }, contribution: { membership: { chamaId: 'chama1' } } },
+      }));
+    });
+
+    it('should return 404 for another chama\'s statement', async () => {
+      prisma.mpesaStatement.findFirst.mockResolvedValue(null);
+
+      const res = await request(app).get('/payments/statements/chama1/statement9');
+
+      expect(res.statusCode).toBe(404);
+    });
+  });
+
+  describe('Resolving lines', () => {
+    const missingLine = {
+      id: 'line4',
+      receipt: 'QGH004',
+      amount: 500,
+      completedAt: new Date(2026, 9, 4, 12, 0),
+      status: 'MISSING',
+      recordedAmount: null,
+      contributionId: null,
+      loanPaymentId: null,
+    };
+
+    beforeEach(() => {
+      prisma.mpesaStatementLine.update.mockImplementation(({ data }: any) => Promise.resolve({ ...missingLine, ...data }));
+      prisma.contributionPayment.findFirst.mockResolvedValue(null);
+      prisma.loanPayment.findUnique.mockResolvedValue(null);
+      (recordContribution as jest.Mock).mockResolvedValue({ id: 'contrib9' });
+      (recordLoanPayment as jest.Mock).mockResolvedValue({ id: 'loanPayment9' });
+    });
+
+    it('should record a missing payment as a contribution and take it out of the unmatched queue', async () => {
+      prisma.mpesaStatementLine.findFirst.mockResolvedValue(missingLine);
+
+      const res = await request(app)
+        .post('/payments/statements/chama1/statement1/lines/line4/resolve')
+        .send({ action: 'CREATE', type: 'CONTRIBUTION', membershipId: 'mem1' });
+
+      expect(res.statusCode).toBe(200);
+      expect(recordContribution).toHaveBeenCalledWith(
+        { membershipId: 'mem1', amount: 500, paymentMethod: 'M-PESA', mpesaCode: 'QGH004', paidAt: missingLine.completedAt },
+        'user2',
+        expect.any(Object)
+      );
+      expect(prisma.transaction.create).toHaveBeenCalledWith({ data: expect.objectContaining({ type: 'CONTRIBUTION', amount: 500 }) });
+      expect(prisma.mpesaRequest.updateMany).toHaveBeenCalledWith({
+        where: { mpesaReceipt: 'QGH004', status: 'UNMATCHED' },
+        data: expect.objectContaining({ status: 'ASSIGNED', contributionId: 'contrib9' }),
+      });
+      expect(prisma.mpesaStatementLine.update).toHaveBeenCalledWith({
+        where: { id: 'line4' },
+        data: expect.objectContaining({ status: 'RESOLVED', contributionId: 'contrib9' }),
+      });
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'MPESA_STATEMENT_RESOLVE' }));
+    });
+
+    it('should record a missing payment on the member\'s oldest outstanding loan', async () => {
+      prisma.mpesaStatementLine.findFirst.mockResolvedValue(missingLine);
+      (getOutstandingLoans as jest.Mock).mockResolvedValue([{ loan: { id: 'loan1' } }, { loan: { id: 'loan2' } }]);
+
+      const res = await request(app)
+        .post('/payments/statements/chama1/statement1/lines/line4/resolve')
+        .send({ action: 'CREATE', type: 'LOAN', membershipId: 'mem1' });
+
+      expect(res.statusCode).toBe(200);
+      expect(recordLoanPayment).toHaveBeenCalledWith('loan1', expect.objectContaining({ amount: 500, mpesaCode: 'QGH004' }), 'user2', expect.any(Object));
+      expect(prisma.mpesaStatementLine.update).toHaveBeenCalledWith({
+        where: { id: 'line4' },
+        data: expect.objectContaining({ status: 'RESOLVED', loanPaymentId: 'loanPayment9' }),
+      });
+    });
+
+    it('should not record a receipt that has been recorded since the import', async () => {
+      prisma.mpesaStatementLine.findFirst.mockResolvedValue(missingLine);
+      prisma.loanPayment.findUnique.mockResolvedValue({ id: 'loanPayment9' });
+
+      const res = await request(app)
+        .post('/payments/statements/chama1/statement1/lines/line4/resolve')
+        .send({ action: 'CREATE', type: 'CONTRIBUTION', membershipId: 'mem1' });
+
+      expect(res.statusCode).toBe(409);
+      expect(recordContribution).not.toHaveBeenCalled();
+    });
+
+    it('should correct a contribution recorded for the wrong amount', async () => {
+      prisma.mpesaStatementLine.findFirst.mockResolvedValue({ ...missingLine, status: 'AMOUNT_MISMATCH', recordedAmount: 400, contributionId: 'contrib4' });
+      prisma.contribution.findUnique.mockResolvedValue({ id: 'contrib4', amount: 400 });
+      prisma.contributionPayment.findFirst.mockResolvedValue({ id: 'payment4', amount: 400 });
+
+      const res = await request(app)
+        .post('/payments/statements/chama1/statement1/lines/line4/resolve')
+        .send({ action: 'FIX' });
+
+      expect(res.statusCode).toBe(200);
+      expect(updateContribution).toHaveBeenCalledWith('contrib4', { amount: 500 }, 'user2', expect.any(Object));
+      expect(prisma.contributionPayment.update).toHaveBeenCalledWith({ where: { id: 'payment4' }, data: { amount: 500 } });
+    });
+
+    it('should not reduce a loan repayment recorded for more than the statement shows', async () => {
+      prisma.mpesaStatementLine.findFirst.mockResolvedValue({ ...missingLine, status: 'AMOUNT_MISMATCH', recordedAmount: 800, loanPaymentId: 'loanPayment4' });
+      prisma.loanPayment.findUnique.mockResolvedValue({ id: 'loanPayment4', loanId: 'loan1', amount: 800 });
+
+      const res = await request(app)
+        .post('/payments/statements/chama1/statement1/lines/line4/resolve')
+        .send({ action: 'FIX' });
+
+      expect(res.statusCode).toBe(409);
+      expect(recordLoanPayment).not.toHaveBeenCalled();
+    });
+
+    it('should only fix amount mismatches', async () => {
+      prisma.mpesaStatementLine.findFirst.mockResolvedValue(missingLine);
+
+      const res = await request(app)
+        .post('/payments/statements/chama1/statement1/lines/line4/resolve')
+        .send({ action: 'FIX' });
+
+      expect(res.statusCode).toBe(409);
+    });
+
+    it('should require a note to dismiss a line', async () => {
+      const res = await request(app)
+        .post('/payments/statements/chama1/statement1/lines/line4/resolve')
+        .send({ action: 'DISMISS' });
+
+      expect(res.statusCode).toBe(400);
+      expect(prisma.mpesaStatementLine.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should dismiss a duplicate line with a note', async () => {
+      prisma.mpesaStatementLine.findFirst.mockResolvedValue({ ...missingLine, status: 'DUPLICATE' });
+
+      const res = await request(app)
+        .post('/payments/statements/chama1/statement1/lines/line4/resolve')
+        .send({ action: 'DISMISS', note: 'Statement export repeated the row' });
+
+      expect(res.statusCode).toBe(200);
+      expect(prisma.mpesaStatementLine.update).toHaveBeenCalledWith({
+        where: { id: 'line4' },
+        data: expect.objectContaining({ status: 'RESOLVED', note: 'Statement export repeated the row' }),
+      });
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import axios from 'axios';
+import { simulatorProvider } from '../src/services/payments/simulator.provider';
+import { darajaProvider } from '../src/services/payments/daraja.provider';
+import { getPaymentProvider } from '../src/services/payments/paymentProvider';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const collection = (phone: string) => ({
+  phone,
+  amount: 1500,
+  accountReference: 'Umoja Chama',
+  description: 'Contribution',
+  callbackUrl: 'http://localhost:3000/api/payments/callback',
+});
+
+const payout = (phone: string) => ({
+  phone,
+  amount: 2000,
+  remarks: 'Loan disbursement',
+  resultUrl: 'http://localhost:3000/api/payments/b2c-result',
+  timeoutUrl: 'http://localhost:3000/api/payments/b2c-timeout',
+});
+
+// The body of the n-th simulated callback, and the URL it was sent to
+const sentCallback = (n = 0) => ({ url: mockedAxios.post.mock.calls[n][0], body: mockedAxios.post.mock.calls[n][1] as any });
+
+describe('Payment Providers', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    mockedAxios.post.mockResolvedValue({ data: {} });
+    process.env = { ...originalEnv, PAYMENT_SIMULATOR_DELAY_MS: '1000' };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    process.env = originalEnv;
+  });
+
+  describe('Simulator', () => {
+    it('should accept an STK push and send a paid callback after the delay', async () => {
+      const result = await simulatorProvider.collect(collection('254712345678'));
+
+      expect(result.reference).toMatch(/^ws_CO_SIM_/);
+      expect(result.response).toEqual(expect.objectContaining({ CheckoutRequestID: result.reference, ResponseCode: '0' }));
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      const { url, body } = sentCallback();
+      expect(url).toBe('http://localhost:3000/api/payments/callback');
+      const callback = darajaProvider.parseCollectionCallback(body);
+      expect(callback).toEqual(expect.objectContaining({ reference: result.reference, merchantReference: result.merchantReference, outcome: 'PAID', resultCode: 0 }));
+      expect(callback.payment).toEqual(expect.objectContaining({ amount: 1500, phone: '254712345678', receipt: expect.stringMatching(/^[0-9A-F]{10}$/) }));
+    });
+
+    it.each([
+      ['254712340001', 1, 'FAILED'],
+      ['254712341032', 1032, 'CANCELLED'],
+      ['254712341037', 1037, 'TIMED_OUT'],
+      ['254712342001', 2001, 'FAILED'],
+    ])('should choose the outcome for a phone number ending in its result code (%s)', async (phone, resultCode, outcome) => {
+      await simulatorProvider.collect(collection(phone));
+      await jest.advanceTimersByTimeAsync(1000);
+
+      const callback = darajaProvider.parseCollectionCallback(sentCallback().body);
+      expect(callback).toEqual(expect.objectContaining({ outcome, resultCode }));
+      expect(callback.payment).toBeUndefined();
+    });
+
+    it('should report a push as pending until its callback has been sent', async () => {
+      const { reference } = await simulatorProvider.collect(collection('254712341032'));
+
+      await expect(simulatorProvider.queryCollection(reference)).resolves.toEqual(expect.objectContaining({ outcome: 'PENDING', resultCode: null }));
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(simulatorProvider.queryCollection(reference)).resolves.toEqual(expect.objectContaining({ outcome: 'CANCELLED', resultCode: 1032 }));
+    });
+
+    it('should reject a status query for a push it never accepted', async () => {
+      await expect(simulatorProvider.queryCollection('ws_CO_unknown')).rejects.toThrow('Invalid CheckoutRequestID');
+    });
+
+    it('should send a successful B2C result to the result URL', async () => {
+      const { reference } = await simulatorProvider.payout(payout('254712345678'));
+      await jest.advanceTimersByTimeAsync(1000);
+
+      const { url, body } = sentCallback();
+      expect(url).toBe('http://localhost:3000/api/payments/b2c-result');
+      expect(darajaProvider.parsePayoutCallback(body)).toEqual(expect.objectContaining({ reference, succeeded: true, amount: 2000, receipt: expect.any(String) }));
+    });
+
+    it('should send a B2C payment to an unreachable number to the timeout URL', async () => {
+      const { reference } = await simulatorProvider.payout(payout('254712341037'));
+      await jest.advanceTimersByTimeAsync(1000);
+
+      const { url, body } = sentCallback();
+      expect(url).toBe('http://localhost:3000/api/payments/b2c-timeout');
+      expect(darajaProvider.parsePayoutCallback(body)).toEqual(expect.objectContaining({ reference, succeeded: false, resultCode: 1037 }));
+    });
+  });
+
+  describe('getPaymentProvider', () => {
+    it('should use Daraja by default', () => {
+      delete process.env.PAYMENT_PROVIDER;
+
+      expect(getPaymentProvider()).toBe(darajaProvider);
+    });
+
+    it('should use the simulator when selected', () => {
+      process.env.PAYMENT_PROVIDER = 'simulator';
+
+      expect(getPaymentProvider()).toBe(simulatorProvider);
+    });
+
+    it('should refuse the simulator in production', () => {
+      process.env.PAYMENT_PROVIDER = 'simulator';
+      process.env.NODE_ENV = 'production';
+
+      expect(() => getPaymentProvider()).toThrow('cannot be used in production');
+    });
+
+    it('should reject an unknown provider', () => {
+      process.env.PAYMENT_PROVIDER = 'paypal';
+
+      expect(() => getPaymentProvider()).toThrow('Unknown payment provider "paypal"');
+    });
+  });
+});
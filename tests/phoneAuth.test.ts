@@ -0,0 +1,289 @@
+import request from 'supertest';
+import crypto from 'crypto';
+import { mockDeep } from 'jest-mock-extended';
+import { PrismaClient, User, UserRole } from '@prisma/client';
+import bcrypt from 'bcrypt';
+
+const prismaMock = mockDeep<PrismaClient>();
+
+jest.mock('@prisma/client', () => {
+    return {
+        __esModule: true,
+        PrismaClient: jest.fn(() => prismaMock),
+        UserRole: {
+            USER: 'USER',
+            ADMIN: 'ADMIN',
+        },
+        MembershipRole: {
+            ADMIN: 'ADMIN',
+            TREASURER: 'TREASURER',
+            SECRETARY: 'SECRETARY',
+            MEMBER: 'MEMBER',
+        },
+        ContributionStatus: {
+            PENDING: 'PENDING',
+            PAID: 'PAID',
+            OVERDUE: 'OVERDUE',
+        },
+        LoanStatus: {
+            PENDING: 'PENDING',
+            APPROVED: 'APPROVED',
+            REJECTED: 'REJECTED',
+            ACTIVE: 'ACTIVE',
+            PAID: 'PAID',
+            DEFAULTED: 'DEFAULTED',
+        },
+        AuditAction: {
+            LOGIN_SUCCESS: 'LOGIN_SUCCESS',
+            LOGIN_FAILED: 'LOGIN_FAILED',
+            PASSWORD_RESET: 'PASSWORD_RESET',
+            EMAIL_VERIFIED: 'EMAIL_VERIFIED',
+        },
+        SessionRevocation: {
+            LOGOUT: 'LOGOUT',
+            LOGOUT_ALL: 'LOGOUT_ALL',
+            REVOKED: 'REVOKED',
+            TOKEN_REUSE: 'TOKEN_REUSE',
+            PASSWORD_RESET: 'PASSWORD_RESET',
+        },
+        TwoFactorMethod: {
+            SMS: 'SMS',
+            TOTP: 'TOTP',
+        },
+        TwoFactorPurpose: {
+            LOGIN: 'LOGIN',
+            STEP_UP: 'STEP_UP',
+            SETUP: 'SETUP',
+            PHONE_VERIFICATION: 'PHONE_VERIFICATION',
+        },
+    };
+});
+
+jest.mock('bcrypt');
+
+jest.mock('../src/services/notification.service', () => ({
+    sendEmail: jest.fn().mockResolvedValue(true),
+    sendSms: jest.fn().mockResolvedValue(true),
+}));
+
+import { app, server } from '../src/server';
+import { sendSms } from '../src/services/notification.service';
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('Phone and PIN Accounts', () => {
+    afterAll((done) => {
+        server.close(() => {
+            done();
+        });
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        prismaMock.user.findUnique.mockReset();
+        prismaMock.user.findFirst.mockReset();
+    });
+
+    const phoneUser: User = {
+        id: '1',
+        email: null,
+        firstName: 'Wanjiru',
+        lastName: 'Kamau',
+        phone: '+254712345678',
+        role: UserRole.USER,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        deletedAt: null,
+        idNumber: '12345678',
+        isEmailVerified: false,
+        emailVerificationToken: null,
+        passwordResetToken: null,
+        passwordResetTokenExpires: null,
+        isPhoneVerified: true,
+        pin: 'hashedpin',
+        failedPinAttempts: 0,
+        pinLockedUntil: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        twoFactorMethod: null,
+        twoFactorSecret: null,
+        failedTwoFactorAttempts: 0,
+        twoFactorLockedUntil: null,
+        lastTotpStep: null,
+        password: null
+    };
+
+    describe('POST /phone/register', () => {
+        it('should create an account without email and text a verification code', async () => {
+            prismaMock.user.findFirst.mockResolvedValue(null);
+            prismaMock.user.create.mockResolvedValue({ ...phoneUser, isPhoneVerified: false });
+            prismaMock.twoFactorChallenge.create.mockResolvedValue({ id: 'challenge-1' } as any);
+            (bcrypt.genSalt as jest.Mock).mockResolvedValue('salt');
+            (bcrypt.hash as jest.Mock).mockResolvedValue('hashedpin');
+
+            const res = await request(app)
+                .post('/api/auth/phone/register')
+                .send({ phone: '0712345678', pin: '4821', firstName: 'Wanjiru', lastName: 'Kamau', idNumber: '12345678' });
+
+            expect(res.statusCode).toEqual(201);
+            expect(prismaMock.user.findFirst).toHaveBeenCalledWith({
+                where: { OR: [{ phone: '+254712345678' }, { idNumber: '12345678' }] },
+            });
+            expect(prismaMock.user.create).toHaveBeenCalledWith(expect.objectContaining({
+                data: { phone: '+254712345678', firstName: 'Wanjiru', lastName: 'Kamau', idNumber: '12345678', pin: 'hashedpin' },
+            }));
+            expect(prismaMock.twoFactorChallenge.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ userId: '1', purpose: 'PHONE_VERIFICATION', method: 'SMS' }),
+            });
+            expect(sendSms).toHaveBeenCalledWith(['+254712345678'], expect.stringMatching(/verification code is \d{6}/));
+        });
+
+        it('should not register a phone number that is already registered', async () => {
+            prismaMock.user.findFirst.mockResolvedValue(phoneUser);
+
+            const res = await request(app)
+                .post('/api/auth/phone/register')
+                .send({ phone: '+254712345678', pin: '4821', firstName: 'Wanjiru', lastName: 'Kamau', idNumber: '12345678' });
+
+            expect(res.statusCode).toEqual(400);
+            expect(prismaMock.user.create).not.toHaveBeenCalled();
+            expect(sendSms).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('POST /phone/verify', () => {
+        const challenge = {
+            id: 'challenge-1',
+            userId: '1',
+            purpose: 'PHONE_VERIFICATION',
+            method: 'SMS',
+            codeHash: sha256('492817'),
+            secret: null,
+            attempts: 0,
+            expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+            usedAt: null,
+            createdAt: new Date(),
+        };
+
+        beforeEach(() => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...phoneUser, isPhoneVerified: false });
+            prismaMock.twoFactorChallenge.findFirst.mockResolvedValue(challenge as any);
+        });
+
+        it('should verify the phone number with the texted code', async () => {
+            prismaMock.user.update.mockResolvedValue({ ...phoneUser, isPhoneVerified: true });
+
+            const res = await request(app)
+                .post('/api/auth/phone/verify')
+                .send({ phone: '0712345678', code: '492817' });
+
+            expect(res.statusCode).toEqual(200);
+            expect(prismaMock.twoFactorChallenge.update).toHaveBeenCalledWith({ where: { id: 'challenge-1' }, data: { usedAt: expect.any(Date) } });
+            expect(prismaMock.user.update).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: '1' },
+                data: { isPhoneVerified: true },
+            }));
+        });
+
+        it('should count a wrong code against the challenge', async () => {
+            const res = await request(app)
+                .post('/api/auth/phone/verify')
+                .send({ phone: '0712345678', code: '000000' });
+
+            expect(res.statusCode).toEqual(400);
+            expect(prismaMock.twoFactorChallenge.update).toHaveBeenCalledWith({ where: { id: 'challenge-1' }, data: { attempts: { increment: 1 } } });
+            expect(prismaMock.user.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('POST /phone/resend-code', () => {
+        it('should answer the same for a number that is not registered', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(null);
+
+            const res = await request(app)
+                .post('/api/auth/phone/resend-code')
+                .send({ phone: '0712345678' });
+
+            expect(res.statusCode).toEqual(200);
+            expect(sendSms).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('POST /phone/login', () => {
+        it('should log in with the PIN and clear earlier failed attempts', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...phoneUser, failedPinAttempts: 2 });
+            (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+            prismaMock.session.create.mockResolvedValue({ id: 'session-1' } as any);
+
+            const res = await request(app)
+                .post('/api/auth/phone/login')
+                .send({ phone: '0712345678', pin: '4821' });
+
+            expect(res.statusCode).toEqual(200);
+            expect(res.body.data).toHaveProperty('accessToken');
+            expect(res.body.data.user).toEqual({ id: '1', email: null, firstName: 'Wanjiru', lastName: 'Kamau' });
+            expect(prismaMock.user.update).toHaveBeenCalledWith({ where: { id: '1' }, data: { failedPinAttempts: 0, pinLockedUntil: null } });
+        });
+
+        it('should not log in before the phone number is verified', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...phoneUser, isPhoneVerified: false });
+
+            const res = await request(app)
+                .post('/api/auth/phone/login')
+                .send({ phone: '0712345678', pin: '4821' });
+
+            expect(res.statusCode).toEqual(401);
+            expect(res.body.message).toBe('Please verify your phone number before logging in');
+            expect(bcrypt.compare).not.toHaveBeenCalled();
+        });
+
+        it('should count a wrong PIN against the phone number', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(phoneUser);
+            (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+            prismaMock.user.update.mockResolvedValue({ failedPinAttempts: 1 } as any);
+
+            const res = await request(app)
+                .post('/api/auth/phone/login')
+                .send({ phone: '0712345678', pin: '1111' });
+
+            expect(res.statusCode).toEqual(401);
+            expect(res.body.message).toBe('Invalid credentials');
+            expect(prismaMock.user.update).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: '1' },
+                data: { failedPinAttempts: { increment: 1 } },
+            }));
+            expect(prismaMock.session.create).not.toHaveBeenCalled();
+        });
+
+        it('should lock the phone number out after the fifth wrong PIN', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...phoneUser, failedPinAttempts: 4 });
+            (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+            prismaMock.user.update.mockResolvedValue({ failedPinAttempts: 5 } as any);
+
+            const res = await request(app)
+                .post('/api/auth/phone/login')
+                .send({ phone: '0712345678', pin: '1111' });
+
+            expect(res.statusCode).toEqual(429);
+            expect(res.body.message).toBe('Too many wrong PINs. Try again in 30 minutes.');
+            expect(prismaMock.user.update).toHaveBeenLastCalledWith({
+                where: { id: '1' },
+                data: { failedPinAttempts: 0, pinLockedUntil: expect.any(Date) },
+            });
+        });
+
+        it('should refuse even the right PIN while the phone number is locked out', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...phoneUser, pinLockedUntil: new Date(Date.now() + 10 * 60 * 1000) });
+            (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+
+            const res = await request(app)
+                .post('/api/auth/phone/login')
+                .send({ phone: '0712345678', pin: '4821' });
+
+            expect(res.statusCode).toEqual(429);
+            expect(res.body.message).toBe('Too many wrong PINs. Try again in 10 minutes.');
+            expect(bcrypt.compare).not.toHaveBeenCalled();
+            expect(prismaMock.session.create).not.toHaveBeenCalled();
+        });
+    });
+});
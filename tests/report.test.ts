@@ -25,6 +25,10 @@ jest.mock('@prisma/client', () => {
     loanPayment: {
       aggregate: jest.fn(),
     },
+    journalLine: {
+      aggregate: jest.fn(),
+      findMany: jest.fn(),
+    },
     membership: {
       findMany: jest.fn(),
       findFirst: jest.fn(),
@@ -95,48 +99,52 @@ describe('Report Module Tests', () => {
     });
 
     describe('getFinancialSummary', () => {
-      it('should calculate financial summary correctly', async () => {
-        prisma.contribution.aggregate.mockResolvedValue({
-          _sum: { amount: 10000, penaltyApplied: 500 },
-        });
-        prisma.loan.aggregate
-          .mockResolvedValueOnce({ _sum: { amount: 5000 } })
-          .mockResolvedValueOnce({ _sum: { amount: 3000 } });
-        prisma.loanPayment.aggregate.mockResolvedValue({
-          _sum: { amount: 2000 },
-        });
+      const movement = (debit: number | null, credit: number | null) => ({ _sum: { debit, credit } });
+
+      it('should derive the financial summary from ledger accounts', async () => {
+        prisma.journalLine.aggregate
+          .mockResolvedValueOnce(movement(10000, 0))   // cash from contributions
+          .mockResolvedValueOnce(movement(2000, 0))    // cash from loan repayments
+          .mockResolvedValueOnce(movement(5000, 0))    // receivables from disbursements
+          .mockResolvedValueOnce(movement(5000, 1800)) // loans receivable
+          .mockResolvedValueOnce(movement(0, 500))     // penalty income
+          .mockResolvedValueOnce(movement(0, 200))     // interest income
+          .mockResolvedValueOnce(movement(1500, 0))    // expenses
+          .mockResolvedValueOnce(movement(12000, 5000)); // cash
 
         const summary = await reportService.getFinancialSummary('chama1');
 
         expect(summary).toEqual({
           totalContributions: 10000,
           totalPenalties: 500,
+          totalInterestIncome: 200,
           totalLoansDisbursed: 5000,
           totalLoanRepayments: 2000,
-          outstandingLoanPrincipal: 3000,
+          outstandingLoanPrincipal: 3200,
+          totalExpenses: 1500,
           netPosition: 7000,
         });
+        expect(prisma.journalLine.aggregate).toHaveBeenCalledWith(expect.objectContaining({
+          where: expect.objectContaining({
+            account: { chamaId: 'chama1', systemKey: 'CASH' },
+            entry: expect.objectContaining({ sourceType: 'CONTRIBUTION' }),
+          }),
+        }));
       });
 
       it('should handle zero values', async () => {
-        prisma.contribution.aggregate.mockResolvedValue({
-          _sum: { amount: null, penaltyApplied: null },
-        });
-        prisma.loan.aggregate
-          .mockResolvedValueOnce({ _sum: { amount: null } })
-          .mockResolvedValueOnce({ _sum: { amount: null } });
-        prisma.loanPayment.aggregate.mockResolvedValue({
-          _sum: { amount: null },
-        });
+        prisma.journalLine.aggregate.mockResolvedValue(movement(null, null));
 
         const summary = await reportService.getFinancialSummary('chama1');
 
         expect(summary).toEqual({
           totalContributions: 0,
           totalPenalties: 0,
+          totalInterestIncome: 0,
           totalLoansDisbursed: 0,
           totalLoanRepayments: 0,
           outstandingLoanPrincipal: 0,
+          totalExpenses: 0,
           netPosition: 0,
         });
       });
@@ -196,16 +204,13 @@ describe('Report Module Tests', () => {
     });
 
     describe('getCashflowReport', () => {
-      it('should calculate cashflow for date range', async () => {
-        prisma.contribution.aggregate.mockResolvedValue({
-          _sum: { amount: 8000 },
-        });
-        prisma.loanPayment.aggregate.mockResolvedValue({
-          _sum: { amount: 2000 },
-        });
-        prisma.loan.aggregate.mockResolvedValue({
-          _sum: { amount: 5000 },
-        });
+      it('should calculate cashflow for date range from cash account movements', async () => {
+        prisma.journalLine.findMany.mockResolvedValue([
+          { debit: 5000, credit: 0, entry: { sourceType: 'CONTRIBUTION' } },
+          { debit: 3000, credit: 0, entry: { sourceType: 'CONTRIBUTION' } },
+          { debit: 2000, credit: 0, entry: { sourceType: 'LOAN_REPAYMENT' } },
+          { debit: 0, credit: 5000, entry: { sourceType: 'LOAN_DISBURSEMENT' } },
+        ]);
 
         const dateRange = {
           from: new Date('2024-01-01'),
@@ -221,7 +226,18 @@ describe('Report Module Tests', () => {
           totalInflows: 10000,
           totalOutflows: 5000,
           netCashflow: 5000,
+          breakdown: {
+            CONTRIBUTION: { inflows: 8000, outflows: 0 },
+            LOAN_REPAYMENT: { inflows: 2000, outflows: 0 },
+            LOAN_DISBURSEMENT: { inflows: 0, outflows: 5000 },
+          },
         });
+        expect(prisma.journalLine.findMany).toHaveBeenCalledWith(expect.objectContaining({
+          where: {
+            account: { chamaId: 'chama1', systemKey: 'CASH' },
+            entry: { postedAt: { gte: dateRange.from, lte: dateRange.to } },
+          },
+        }));
       });
     });
 
@@ -0,0 +1,540 @@
+import request from 'supertest';
+import crypto from 'crypto';
+import { mockDeep } from 'jest-mock-extended';
+import { PrismaClient, User, UserRole } from '@prisma/client';
+import bcrypt from 'bcrypt';
+
+const prismaMock = mockDeep<PrismaClient>();
+
+jest.mock('@prisma/client', () => {
+    return {
+        __esModule: true,
+        PrismaClient: jest.fn(() => prismaMock),
+        UserRole: {
+            USER: 'USER',
+            ADMIN: 'ADMIN',
+        },
+        MembershipRole: {
+            ADMIN: 'ADMIN',
+            TREASURER: 'TREASURER',
+            SECRETARY: 'SECRETARY',
+            MEMBER: 'MEMBER',
+        },
+        ContributionStatus: {
+            PENDING: 'PENDING',
+            PAID: 'PAID',
+            OVERDUE: 'OVERDUE',
+        },
+        LoanStatus: {
+            PENDING: 'PENDING',
+            APPROVED: 'APPROVED',
+            REJECTED: 'REJECTED',
+            ACTIVE: 'ACTIVE',
+            PAID: 'PAID',
+            DEFAULTED: 'DEFAULTED',
+        },
+        AuditAction: {
+            LOGIN_SUCCESS: 'LOGIN_SUCCESS',
+            LOGIN_FAILED: 'LOGIN_FAILED',
+            PASSWORD_RESET: 'PASSWORD_RESET',
+            EMAIL_VERIFIED: 'EMAIL_VERIFIED',
+        },
+        SessionRevocation: {
+            LOGOUT: 'LOGOUT',
+            LOGOUT_ALL: 'LOGOUT_ALL',
+            REVOKED: 'REVOKED',
+            TOKEN_REUSE: 'TOKEN_REUSE',
+            PASSWORD_RESET: 'PASSWORD_RESET',
+        },
+        TwoFactorMethod: {
+            SMS: 'SMS',
+            TOTP: 'TOTP',
+        },
+        TwoFactorPurpose: {
+            LOGIN: 'LOGIN',
+            STEP_UP: 'STEP_UP',
+            SETUP: 'SETUP',
+        },
+    };
+});
+
+jest.mock('bcrypt');
+
+jest.mock('../src/services/notification.service', () => ({
+    sendEmail: jest.fn().mockResolvedValue(true),
+    sendSms: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../src/services/chama.service');
+
+import { app, server } from '../src/server';
+import { sendSms } from '../src/services/notification.service';
+import { generateToken } from '../src/utils/jwt.utils';
+import { generateTotp, generateTotpSecret, verifyTotp } from '../src/utils/totp.utils';
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('Two-Factor Authentication', () => {
+    afterAll((done) => {
+        server.close(() => {
+            done();
+        });
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        prismaMock.session.findUnique.mockReset();
+        prismaMock.user.findUnique.mockReset();
+        prismaMock.chamaSettings.findUnique.mockReset();
+        prismaMock.user.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    const secret = generateTotpSecret();
+
+    const mockUser: User = {
+        id: '1',
+        email: 'test@example.com',
+        firstName: 'Test',
+        lastName: 'User',
+        phone: '+254712345678',
+        role: UserRole.USER,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        deletedAt: null,
+        idNumber: '12345678',
+        isEmailVerified: true,
+        emailVerificationToken: null,
+        passwordResetToken: null,
+        passwordResetTokenExpires: null,
+        isPhoneVerified: false,
+        pin: null,
+        failedPinAttempts: 0,
+        pinLockedUntil: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        twoFactorMethod: 'TOTP',
+        twoFactorSecret: secret,
+        failedTwoFactorAttempts: 0,
+        twoFactorLockedUntil: null,
+        lastTotpStep: null,
+        password: 'hashedpassword'
+    };
+
+    const loginChallenge = {
+        id: 'challenge-1',
+        userId: '1',
+        purpose: 'LOGIN',
+        method: 'TOTP',
+        codeHash: null,
+        secret: null,
+        attempts: 0,
+        expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+        usedAt: null,
+        createdAt: new Date(),
+    };
+
+    const liveSession = {
+        id: 'session-1',
+        userId: '1',
+        tokenId: 'token-1',
+        userAgent: null,
+        ipAddress: null,
+        createdAt: new Date(),
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        revokedAt: null,
+        revokedReason: null,
+        stepUpAt: null,
+    };
+    const accessToken = generateToken({ id: '1', sessionId: 'session-1' });
+
+    describe('TOTP codes', () => {
+        it('should accept the current code and codes one step either side', () => {
+            const now = Date.now();
+
+            expect(verifyTotp(secret, generateTotp(secret, now), now)).toBe(true);
+            expect(verifyTotp(secret, generateTotp(secret, now - 30 * 1000), now)).toBe(true);
+            expect(verifyTotp(secret, generateTotp(secret, now + 30 * 1000), now)).toBe(true);
+            expect(verifyTotp(secret, generateTotp(secret, now - 5 * 60 * 1000), now)).toBe(false);
+        });
+
+        it('should match the RFC 6238 test vector', () => {
+            // The RFC's SHA-1 key "12345678901234567890", base32-encoded
+            expect(generateTotp('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', 59 * 1000)).toBe('287082');
+        });
+    });
+
+    describe('Login', () => {
+        it('should ask for a second factor instead of issuing tokens', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(mockUser);
+            (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+            prismaMock.twoFactorChallenge.create.mockResolvedValue(loginChallenge as any);
+
+            const res = await request(app)
+                .post('/api/auth/login')
+                .send({ email: 'test@example.com', password: 'password123' });
+
+            expect(res.statusCode).toEqual(200);
+            expect(res.body.data).toEqual({ twoFactorRequired: true, method: 'TOTP', challengeId: 'challenge-1' });
+            expect(res.body.data).not.toHaveProperty('accessToken');
+            expect(prismaMock.session.create).not.toHaveBeenCalled();
+        });
+
+        it('should finish the login with an authenticator code and start a stepped-up session', async () => {
+            prismaMock.twoFactorChallenge.findUnique.mockResolvedValue({ ...loginChallenge, user: mockUser } as any);
+            prismaMock.twoFactorChallenge.updateMany.mockResolvedValue({ count: 1 });
+            prismaMock.session.create.mockResolvedValue(liveSession as any);
+
+            const res = await request(app)
+                .post('/api/auth/2fa/verify')
+                .send({ challengeId: 'challenge-1', code: generateTotp(secret) });
+
+            expect(res.statusCode).toEqual(200);
+            expect(res.body.data).toHaveProperty('accessToken');
+            expect(res.body.data).toHaveProperty('refreshToken');
+            expect(prismaMock.user.updateMany).toHaveBeenCalledWith({
+                where: { id: '1', OR: [{ lastTotpStep: null }, { lastTotpStep: { lt: expect.any(Number) } }] },
+                data: { lastTotpStep: expect.any(Number) },
+            });
+            expect(prismaMock.session.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ userId: '1', stepUpAt: expect.any(Date) }),
+            });
+        });
+
+        it('should count a wrong code against the challenge and the user', async () => {
+            prismaMock.twoFactorChallenge.findUnique.mockResolvedValue({ ...loginChallenge, user: mockUser } as any);
+            prismaMock.user.update.mockResolvedValue({ failedTwoFactorAttempts: 1 } as any);
+
+            const res = await request(app)
+                .post('/api/auth/2fa/verify')
+                .send({ challengeId: 'challenge-1', code: '000000' });
+
+            expect(res.statusCode).toEqual(401);
+            expect(res.body.message).toBe('Invalid verification code.');
+            expect(prismaMock.twoFactorChallenge.update).toHaveBeenCalledWith({
+                where: { id: 'challenge-1' },
+                data: { attempts: { increment: 1 } },
+            });
+            expect(prismaMock.user.update).toHaveBeenCalledWith({
+                where: { id: '1' },
+                data: { failedTwoFactorAttempts: { increment: 1 } },
+                select: { failedTwoFactorAttempts: true },
+            });
+            expect(prismaMock.session.create).not.toHaveBeenCalled();
+        });
+
+        it('should lock the user out after wrong codes across several login challenges', async () => {
+            // Each password login brings a new challenge, but wrong codes keep counting against the user.
+            const state = { failedTwoFactorAttempts: 3, twoFactorLockedUntil: null as Date | null };
+            prismaMock.twoFactorChallenge.findUnique.mockImplementation((({ where }: any) =>
+                Promise.resolve({ ...loginChallenge, id: where.id, user: { ...mockUser, ...state } })) as any);
+            prismaMock.user.update.mockImplementation((({ data }: any) => {
+                if (data.failedTwoFactorAttempts?.increment) state.failedTwoFactorAttempts += 1;
+                else Object.assign(state, data);
+                return Promise.resolve({ ...state });
+            }) as any);
+            const verify = (challengeId: string, code: string) => request(app)
+                .post('/api/auth/2fa/verify')
+                .send({ challengeId, code });
+
+            expect((await verify('challenge-2', '000000')).statusCode).toEqual(401);
+
+            const locking = await verify('challenge-3', '000000');
+            expect(locking.statusCode).toEqual(429);
+            expect(locking.body.message).toBe('Too many wrong verification codes. Try again in 15 minutes.');
+            expect(state.twoFactorLockedUntil).toEqual(expect.any(Date));
+
+            const locked = await verify('challenge-4', generateTotp(secret));
+            expect(locked.statusCode).toEqual(429);
+            expect(prismaMock.session.create).not.toHaveBeenCalled();
+        });
+
+        it('should refuse a challenge after too many wrong codes', async () => {
+            prismaMock.twoFactorChallenge.findUnique.mockResolvedValue({ ...loginChallenge, attempts: 5, user: mockUser } as any);
+
+            const res = await request(app)
+                .post('/api/auth/2fa/verify')
+                .send({ challengeId: 'challenge-1', code: generateTotp(secret) });
+
+            expect(res.statusCode).toEqual(401);
+            expect(res.body.message).toContain('expired');
+        });
+
+        it('should accept a recovery code once', async () => {
+            prismaMock.twoFactorChallenge.findUnique.mockResolvedValue({ ...loginChallenge, user: mockUser } as any);
+            prismaMock.recoveryCode.updateMany.mockResolvedValue({ count: 1 });
+            prismaMock.twoFactorChallenge.updateMany.mockResolvedValue({ count: 1 });
+            prismaMock.session.create.mockResolvedValue(liveSession as any);
+
+            const res = await request(app)
+                .post('/api/auth/2fa/verify')
+                .send({ challengeId: 'challenge-1', code: '3F9A-C12E' });
+
+            expect(res.statusCode).toEqual(200);
+            expect(prismaMock.recoveryCode.updateMany).toHaveBeenCalledWith({
+                where: { userId: '1', codeHash: sha256('3f9a-c12e'), usedAt: null },
+                data: { usedAt: expect.any(Date) },
+            });
+        });
+    });
+
+    describe('Setup', () => {
+        beforeEach(() => {
+            prismaMock.session.findUnique.mockResolvedValue(liveSession as any);
+        });
+
+        it('should return a secret and QR code for an authenticator app', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...mockUser, twoFactorMethod: null, twoFactorSecret: null });
+            prismaMock.twoFactorChallenge.create.mockResolvedValue({ ...loginChallenge, id: 'setup-1', purpose: 'SETUP' } as any);
+
+            const res = await request(app)
+                .post('/api/auth/2fa/setup')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ method: 'TOTP' });
+
+            expect(res.statusCode).toEqual(200);
+            expect(res.body.data).toEqual(expect.objectContaining({ challengeId: 'setup-1', method: 'TOTP', secret: expect.any(String) }));
+            expect(res.body.data.otpauthUrl).toContain('otpauth://totp/');
+            expect(res.body.data.qrCode).toMatch(/^data:image\/png;base64,/);
+        });
+
+        it('should text a code to set up SMS', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...mockUser, twoFactorMethod: null, twoFactorSecret: null });
+            prismaMock.twoFactorChallenge.create.mockResolvedValue({ ...loginChallenge, id: 'setup-1', purpose: 'SETUP', method: 'SMS' } as any);
+
+            const res = await request(app)
+                .post('/api/auth/2fa/setup')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ method: 'SMS' });
+
+            expect(res.statusCode).toEqual(200);
+            expect(res.body.data).toEqual({ challengeId: 'setup-1', method: 'SMS', phone: '+254****678' });
+            expect(sendSms).toHaveBeenCalledWith(['+254712345678'], expect.stringMatching(/verification code is \d{6}/));
+        });
+
+        it('should turn two-factor on and issue ten recovery codes', async () => {
+            const setupSecret = generateTotpSecret();
+            prismaMock.user.findUnique.mockResolvedValue({ ...mockUser, twoFactorMethod: null, twoFactorSecret: null });
+            prismaMock.twoFactorChallenge.findFirst.mockResolvedValue({ ...loginChallenge, id: 'setup-1', purpose: 'SETUP', secret: setupSecret } as any);
+            prismaMock.$transaction.mockImplementation((callback: any) => callback(prismaMock));
+
+            const res = await request(app)
+                .post('/api/auth/2fa/enable')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ challengeId: 'setup-1', code: generateTotp(setupSecret) });
+
+            expect(res.statusCode).toEqual(200);
+            expect(res.body.data.recoveryCodes).toHaveLength(10);
+            expect(res.body.data.recoveryCodes[0]).toMatch(/^[0-9a-f]{4}-[0-9a-f]{4}$/);
+            expect(prismaMock.user.update).toHaveBeenCalledWith({
+                where: { id: '1' },
+                data: { twoFactorMethod: 'TOTP', twoFactorSecret: setupSecret, lastTotpStep: expect.any(Number) },
+            });
+            expect(prismaMock.session.update).toHaveBeenCalledWith({ where: { id: 'session-1' }, data: { stepUpAt: expect.any(Date) } });
+        });
+
+        it('should refuse to start setup when two-factor is already on', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(mockUser);
+
+            const res = await request(app)
+                .post('/api/auth/2fa/setup')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ method: 'SMS' });
+
+            expect(res.statusCode).toEqual(409);
+        });
+    });
+
+    describe('Profile changes', () => {
+        beforeEach(() => {
+            prismaMock.session.findUnique.mockResolvedValue(liveSession as any);
+            prismaMock.user.update.mockResolvedValue({ id: '1' } as any);
+        });
+
+        it('should ignore account and two-factor fields sent with a profile update', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(mockUser);
+
+            const res = await request(app)
+                .put('/api/auth/profile')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ firstName: 'New', twoFactorMethod: null, twoFactorSecret: null, pin: 'hash', lockedUntil: null });
+
+            expect(res.statusCode).toEqual(200);
+            const { data } = prismaMock.user.update.mock.calls[0][0];
+            expect(data).toEqual({ firstName: 'New' });
+            expect(data).not.toHaveProperty('twoFactorSecret');
+        });
+
+        it('should refuse to move the SMS second factor to a new phone without a step-up', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...mockUser, twoFactorMethod: 'SMS', twoFactorSecret: null });
+
+            const res = await request(app)
+                .put('/api/auth/profile')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ phone: '0799999999' });
+
+            expect(res.statusCode).toEqual(403);
+            expect(prismaMock.user.update).not.toHaveBeenCalled();
+        });
+
+        it('should change the phone of an SMS user whose session has stepped up', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...mockUser, twoFactorMethod: 'SMS', twoFactorSecret: null });
+            prismaMock.session.findUnique.mockResolvedValue({ ...liveSession, stepUpAt: new Date() } as any);
+
+            const res = await request(app)
+                .put('/api/auth/profile')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ phone: '0799999999' });
+
+            expect(res.statusCode).toEqual(200);
+            expect(prismaMock.user.update).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ phone: '+254799999999' }) }));
+        });
+    });
+
+    describe('Step-up for sensitive actions', () => {
+        beforeEach(() => {
+            prismaMock.membership.findUnique.mockResolvedValue({ role: 'ADMIN', isActive: true } as any);
+            prismaMock.chamaSettings.findUnique.mockResolvedValue({ requireStepUp: true } as any);
+        });
+
+        it('should let the action through when the chama does not require step-up', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(mockUser);
+            prismaMock.session.findUnique.mockResolvedValue(liveSession as any);
+            prismaMock.chamaSettings.findUnique.mockResolvedValue({ requireStepUp: false } as any);
+
+            const res = await request(app)
+                .delete('/api/chamas/chama-1')
+                .set('Authorization', `Bearer ${accessToken}`);
+
+            expect(res.statusCode).toEqual(200);
+        });
+
+        it('should ask a user without two-factor to enable it', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...mockUser, twoFactorMethod: null, twoFactorSecret: null });
+            prismaMock.session.findUnique.mockResolvedValue(liveSession as any);
+
+            const res = await request(app)
+                .delete('/api/chamas/chama-1')
+                .set('Authorization', `Bearer ${accessToken}`);
+
+            expect(res.statusCode).toEqual(403);
+            expect(res.body.code).toBe('TWO_FACTOR_REQUIRED');
+        });
+
+        it('should ask for a code when the session has not stepped up recently', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(mockUser);
+            prismaMock.session.findUnique.mockResolvedValue({ ...liveSession, stepUpAt: new Date(Date.now() - 30 * 60 * 1000) } as any);
+
+            const res = await request(app)
+                .delete('/api/chamas/chama-1')
+                .set('Authorization', `Bearer ${accessToken}`);
+
+            expect(res.statusCode).toEqual(403);
+            expect(res.body.code).toBe('STEP_UP_REQUIRED');
+        });
+
+        it('should ask for a code before disbursing a loan by M-Pesa', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(mockUser);
+            prismaMock.session.findUnique.mockResolvedValue(liveSession as any);
+            prismaMock.loan.findUnique.mockResolvedValue({ membership: { chamaId: 'chama-1' } } as any);
+
+            const res = await request(app)
+                .post('/api/payments/b2c')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ loanId: 'loan-1', phone: '254712345678', amount: 5000 });
+
+            expect(res.statusCode).toEqual(403);
+            expect(res.body.code).toBe('STEP_UP_REQUIRED');
+        });
+
+        it('should step up the session with a valid code and then allow the action', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(mockUser);
+            prismaMock.session.findUnique.mockResolvedValue(liveSession as any);
+
+            const stepUp = await request(app)
+                .post('/api/auth/2fa/step-up')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ code: generateTotp(secret) });
+
+            expect(stepUp.statusCode).toEqual(200);
+            expect(prismaMock.session.update).toHaveBeenCalledWith({ where: { id: 'session-1' }, data: { stepUpAt: expect.any(Date) } });
+
+            prismaMock.session.findUnique.mockResolvedValue({ ...liveSession, stepUpAt: new Date() } as any);
+
+            const res = await request(app)
+                .delete('/api/chamas/chama-1')
+                .set('Authorization', `Bearer ${accessToken}`);
+
+            expect(res.statusCode).toEqual(200);
+        });
+
+        it('should not step up the session with a wrong code', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(mockUser);
+            prismaMock.session.findUnique.mockResolvedValue(liveSession as any);
+            prismaMock.user.update.mockResolvedValue({ failedTwoFactorAttempts: 1 } as any);
+
+            const res = await request(app)
+                .post('/api/auth/2fa/step-up')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ code: '000000' });
+
+            expect(res.statusCode).toEqual(400);
+            expect(prismaMock.user.update).toHaveBeenCalledWith({
+                where: { id: '1' },
+                data: { failedTwoFactorAttempts: { increment: 1 } },
+                select: { failedTwoFactorAttempts: true },
+            });
+            expect(prismaMock.session.update).not.toHaveBeenCalled();
+        });
+
+        it('should refuse an authenticator code that has already been used', async () => {
+            prismaMock.user.findUnique.mockResolvedValue(mockUser);
+            prismaMock.session.findUnique.mockResolvedValue(liveSession as any);
+            prismaMock.user.updateMany.mockResolvedValue({ count: 0 });
+            prismaMock.user.update.mockResolvedValue({ failedTwoFactorAttempts: 1 } as any);
+
+            const res = await request(app)
+                .post('/api/auth/2fa/step-up')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ code: generateTotp(secret) });
+
+            expect(res.statusCode).toEqual(400);
+            expect(res.body.message).toBe('Invalid verification code.');
+            expect(prismaMock.session.update).not.toHaveBeenCalled();
+        });
+
+        it('should lock the user out of code checks after the fifth wrong code in a row', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...mockUser, failedTwoFactorAttempts: 4 });
+            prismaMock.session.findUnique.mockResolvedValue(liveSession as any);
+            prismaMock.user.update.mockResolvedValue({ failedTwoFactorAttempts: 5 } as any);
+
+            const res = await request(app)
+                .post('/api/auth/2fa/disable')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ code: '000000' });
+
+            expect(res.statusCode).toEqual(429);
+            expect(res.body.message).toBe('Too many wrong verification codes. Try again in 15 minutes.');
+            expect(prismaMock.user.update).toHaveBeenLastCalledWith({
+                where: { id: '1' },
+                data: { failedTwoFactorAttempts: 0, twoFactorLockedUntil: expect.any(Date) },
+            });
+            expect(prismaMock.recoveryCode.deleteMany).not.toHaveBeenCalled();
+        });
+
+        it('should refuse even a right code while the user is locked out', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...mockUser, twoFactorLockedUntil: new Date(Date.now() + 10 * 60 * 1000) });
+            prismaMock.session.findUnique.mockResolvedValue(liveSession as any);
+
+            const res = await request(app)
+                .post('/api/auth/2fa/step-up')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ code: generateTotp(secret) });
+
+            expect(res.statusCode).toEqual(429);
+            expect(res.body.message).toBe('Too many wrong verification codes. Try again in 10 minutes.');
+            expect(prismaMock.user.updateMany).not.toHaveBeenCalled();
+            expect(prismaMock.session.update).not.toHaveBeenCalled();
+        });
+    });
+});
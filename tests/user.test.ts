@@ -69,6 +69,17 @@ describe('User Routes', () => {
         emailVerificationToken: null,
         passwordResetToken: null,
         passwordResetTokenExpires: null,
+        isPhoneVerified: false,
+        pin: null,
+        failedPinAttempts: 0,
+        pinLockedUntil: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        twoFactorMethod: null,
+        twoFactorSecret: null,
+        failedTwoFactorAttempts: 0,
+        twoFactorLockedUntil: null,
+        lastTotpStep: null,
         password: 'hashedpassword'
     };
 
@@ -87,6 +98,17 @@ describe('User Routes', () => {
         emailVerificationToken: null,
         passwordResetToken: null,
         passwordResetTokenExpires: null,
+        isPhoneVerified: false,
+        pin: null,
+        failedPinAttempts: 0,
+        pinLockedUntil: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        twoFactorMethod: null,
+        twoFactorSecret: null,
+        failedTwoFactorAttempts: 0,
+        twoFactorLockedUntil: null,
+        lastTotpStep: null,
         password: 'hashedpassword'
     };
 
@@ -105,13 +127,24 @@ describe('User Routes', () => {
         emailVerificationToken: null,
         passwordResetToken: null,
         passwordResetTokenExpires: null,
+        isPhoneVerified: false,
+        pin: null,
+        failedPinAttempts: 0,
+        pinLockedUntil: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        twoFactorMethod: null,
+        twoFactorSecret: null,
+        failedTwoFactorAttempts: 0,
+        twoFactorLockedUntil: null,
+        lastTotpStep: null,
         password: 'hashedpassword'
     };
 
     beforeAll(() => {
         const JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
-        adminToken = jwt.sign({ id: mockAdminUser.id, role: mockAdminUser.role }, JWT_SECRET);
-        userToken = jwt.sign({ id: mockRegularUser.id, role: mockRegularUser.role }, JWT_SECRET);
+        adminToken = jwt.sign({ id: mockAdminUser.id, sessionId: `session-${mockAdminUser.id}`, role: mockAdminUser.role }, JWT_SECRET);
+        userToken = jwt.sign({ id: mockRegularUser.id, sessionId: `session-${mockRegularUser.id}`, role: mockRegularUser.role }, JWT_SECRET);
     });
 
     afterAll((done) => {
@@ -122,6 +155,12 @@ describe('User Routes', () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
+        // Every token belongs to a live session of the user it was issued to
+        prismaMock.session.findUnique.mockImplementation(((args: any) => Promise.resolve({
+            userId: args.where.id.replace('session-', ''),
+            revokedAt: null,
+            expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        })) as any);
         prismaMock.user.findMany.mockClear();
         prismaMock.user.findFirst.mockClear();
         prismaMock.user.findUnique.mockClear();
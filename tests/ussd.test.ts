@@ -0,0 +1,328 @@
+import request from 'supertest';
+import { mockDeep } from 'jest-mock-extended';
+import { PrismaClient, User, UserRole } from '@prisma/client';
+import bcrypt from 'bcrypt';
+
+const prismaMock = mockDeep<PrismaClient>();
+
+jest.mock('@prisma/client', () => {
+    return {
+        __esModule: true,
+        PrismaClient: jest.fn(() => prismaMock),
+        UserRole: {
+            USER: 'USER',
+            ADMIN: 'ADMIN',
+        },
+        MembershipRole: {
+            ADMIN: 'ADMIN',
+            TREASURER: 'TREASURER',
+            SECRETARY: 'SECRETARY',
+            MEMBER: 'MEMBER',
+        },
+        ContributionStatus: {
+            PENDING: 'PENDING',
+            PAID: 'PAID',
+            PARTIALLY_PAID: 'PARTIALLY_PAID',
+            OVERDUE: 'OVERDUE',
+        },
+        LoanStatus: {
+            PENDING: 'PENDING',
+            APPROVED: 'APPROVED',
+            REJECTED: 'REJECTED',
+            ACTIVE: 'ACTIVE',
+            PAID: 'PAID',
+            DEFAULTED: 'DEFAULTED',
+        },
+        MeetingStatus: {
+            SCHEDULED: 'SCHEDULED',
+            COMPLETED: 'COMPLETED',
+            CANCELLED: 'CANCELLED',
+        },
+    };
+});
+
+jest.mock('bcrypt');
+jest.mock('../src/services/contributionPeriod.service');
+jest.mock('../src/services/loan.service');
+jest.mock('../src/services/mpesa.service');
+jest.mock('../src/services/mpesaRequest.service');
+
+import { app, server } from '../src/server';
+import { findCurrentPeriod } from '../src/services/contributionPeriod.service';
+import { getNextInstallmentAmount, getOutstandingLoans } from '../src/services/loan.service';
+import { initiateStkPush } from '../src/services/mpesa.service';
+import { startLoanRepaymentPush } from '../src/services/mpesaRequest.service';
+import { AppError } from '../src/utils/customErrors';
+
+const mockedFindCurrentPeriod = findCurrentPeriod as jest.Mock;
+const mockedGetOutstandingLoans = getOutstandingLoans as jest.Mock;
+const mockedGetNextInstallmentAmount = getNextInstallmentAmount as jest.Mock;
+const mockedInitiateStkPush = initiateStkPush as jest.Mock;
+const mockedStartLoanRepaymentPush = startLoanRepaymentPush as jest.Mock;
+
+// One step of a session, as Africa's Talking posts it
+const dial = (text: string, phoneNumber = '+254712345678', path = '/api/ussd') => request(app)
+    .post(path)
+    .type('form')
+    .send({ sessionId: 'ATUid_1', serviceCode: '*384*1234#', phoneNumber, text });
+
+describe('USSD Menu', () => {
+    afterAll((done) => {
+        server.close(() => {
+            done();
+        });
+    });
+
+    const member: User = {
+        id: 'user-1',
+        email: null,
+        firstName: 'Wanjiru',
+        lastName: 'Kamau',
+        phone: '+254712345678',
+        role: UserRole.USER,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        deletedAt: null,
+        idNumber: '12345678',
+        isEmailVerified: false,
+        emailVerificationToken: null,
+        passwordResetToken: null,
+        passwordResetTokenExpires: null,
+        isPhoneVerified: true,
+        pin: 'hashedpin',
+        failedPinAttempts: 0,
+        pinLockedUntil: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        twoFactorMethod: null,
+        twoFactorSecret: null,
+        failedTwoFactorAttempts: 0,
+        twoFactorLockedUntil: null,
+        lastTotpStep: null,
+        password: null
+    };
+
+    const membership = { id: 'membership-1', chamaId: 'chama-1', chama: { id: 'chama-1', name: 'Umoja Chama', monthlyContribution: 2000 } };
+
+    const period = {
+        id: 'period-1',
+        startDate: new Date(2026, 9, 1),
+        endDate: new Date(2026, 9, 31),
+        dueDate: new Date(2026, 9, 31),
+    };
+
+    beforeEach(() => {
+        prismaMock.user.findUnique.mockResolvedValue(member);
+        prismaMock.membership.findMany.mockResolvedValue([membership] as any);
+        (bcrypt.compare as jest.Mock).mockImplementation(async (pin: string) => pin === '4821');
+    });
+
+    describe('Signing in', () => {
+        it('should ask for the PIN when the session starts', async () => {
+            const res = await dial('');
+
+            expect(res.statusCode).toEqual(200);
+            expect(res.headers['content-type']).toMatch(/text\/plain/);
+            expect(res.text).toBe('CON Welcome to Chama App.\nEnter your PIN:');
+            expect(prismaMock.user.findUnique).toHaveBeenCalledWith({ where: { phone: '+254712345678' } });
+        });
+
+        it('should turn away a phone without a PIN account', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...member, pin: null, password: 'hashedpassword' });
+
+            const res = await dial('');
+
+            expect(res.text).toMatch(/^END This service is for members who log in with their phone number and PIN/);
+        });
+
+        it('should end the session on a wrong PIN and count it towards the lockout', async () => {
+            prismaMock.user.update.mockResolvedValue({ failedPinAttempts: 1 } as any);
+
+            const res = await dial('1111');
+
+            expect(res.text).toBe('END Wrong PIN.');
+            expect(prismaMock.user.update).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: 'user-1' },
+                data: { failedPinAttempts: { increment: 1 } },
+            }));
+        });
+
+        it('should refuse a locked-out phone', async () => {
+            prismaMock.user.findUnique.mockResolvedValue({ ...member, pinLockedUntil: new Date(Date.now() + 5 * 60 * 1000) });
+
+            const res = await dial('4821');
+
+            expect(res.text).toBe('END Too many wrong PINs. Try again in 5 minutes.');
+        });
+
+        it('should show the main menu after the PIN for a member of one chama', async () => {
+            const res = await dial('4821');
+
+            expect(res.text).toBe('CON Umoja Chama\n1. Contribution status\n2. Loan balance\n3. Pay contribution\n4. Repay loan\n5. Next meeting');
+        });
+
+        it('should ask a member of several chamas which one to use', async () => {
+            prismaMock.membership.findMany.mockResolvedValue([
+                membership,
+                { id: 'membership-2', chamaId: 'chama-2', chama: { id: 'chama-2', name: 'Jirani Women Group', monthlyContribution: 500 } },
+            ] as any);
+
+            const choose = await dial('4821');
+            const chosen = await dial('4821*2');
+
+            expect(choose.text).toBe('CON Choose a chama:\n1. Umoja Chama\n2. Jirani Women Group');
+            expect(chosen.text).toMatch(/^CON Jirani Women Group\n1. Contribution status/);
+        });
+
+        it('should repeat the menu after an invalid choice', async () => {
+            const res = await dial('4821*9');
+
+            expect(res.text).toMatch(/^CON Invalid choice.\nUmoja Chama\n1. Contribution status/);
+        });
+    });
+
+    describe('Checking balances', () => {
+        it('should show the contribution for the current period', async () => {
+            mockedFindCurrentPeriod.mockResolvedValue(period);
+            prismaMock.contribution.findFirst.mockResolvedValue({ id: 'contribution-1', amount: 1500, expectedAmount: 2000, status: 'PARTIALLY_PAID' } as any);
+
+            const res = await dial('4821*1');
+
+            expect(res.text).toBe('END Contribution for 01/10/2026 - 31/10/2026:\nPaid KES 1500.00 of KES 2000.00 (PARTIALLY PAID).\nDue 31/10/2026.');
+            expect(prismaMock.contribution.findFirst).toHaveBeenCalledWith({ where: { membershipId: 'membership-1', periodId: 'period-1' } });
+        });
+
+        it('should show the loan balance and the next installment', async () => {
+            mockedGetOutstandingLoans.mockResolvedValue([
+                { loan: { id: 'loan-1', dueDate: new Date(2026, 10, 5) }, paid: 2000, balance: 8000 },
+                { loan: { id: 'loan-2', dueDate: null }, paid: 0, balance: 1500 },
+            ]);
+            mockedGetNextInstallmentAmount.mockResolvedValue(2166.67);
+
+            const res = await dial('4821*2');
+
+            expect(res.text).toBe('END Loan balance: KES 9500.00.\nNext installment: KES 2166.67 due 05/11/2026.');
+            expect(mockedGetNextInstallmentAmount).toHaveBeenCalledWith('loan-1');
+        });
+
+        it('should show the next meeting', async () => {
+            prismaMock.meeting.findMany.mockResolvedValue([
+                { id: 'meeting-1', title: 'Monthly meeting', scheduledFor: new Date(2026, 10, 7, 14, 0), location: 'Community Hall' },
+            ] as any);
+
+            const res = await dial('4821*5');
+
+            expect(res.text).toBe('END Next meeting: Monthly meeting\nSat 07/11/2026 14:00\nAt Community Hall');
+            expect(prismaMock.meeting.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: expect.objectContaining({ chamaId: 'chama-1', status: 'SCHEDULED' }),
+            }));
+        });
+    });
+
+    describe('Paying', () => {
+        it('should send an STK push for what is due on the contribution', async () => {
+            mockedFindCurrentPeriod.mockResolvedValue(period);
+            prismaMock.contribution.findFirst.mockResolvedValue({ id: 'contribution-1', amount: 1500, expectedAmount: 2000, status: 'PARTIALLY_PAID' } as any);
+            mockedInitiateStkPush.mockResolvedValue({ CheckoutRequestID: 'ws_CO_1' });
+
+            const offer = await dial('4821*3');
+            const res = await dial('4821*3*1');
+
+            expect(offer.text).toBe('CON Contribution due 31/10/2026\n1. Pay KES 500.00\n2. Enter another amount');
+            expect(res.text).toBe('END Enter your M-Pesa PIN on the prompt to pay KES 500.00.');
+            expect(mockedInitiateStkPush).toHaveBeenCalledWith('254712345678', 500, 'contribution-1');
+        });
+
+        it('should send an STK push for an amount the member enters', async () => {
+            mockedFindCurrentPeriod.mockResolvedValue(period);
+            prismaMock.contribution.findFirst.mockResolvedValue({ id: 'contribution-1', amount: 1500, expectedAmount: 2000, status: 'PARTIALLY_PAID' } as any);
+            mockedInitiateStkPush.mockResolvedValue({ CheckoutRequestID: 'ws_CO_1' });
+
+            const invalid = await dial('4821*3*2*abc');
+            const res = await dial('4821*3*2*750');
+
+            expect(invalid.text).toBe('CON Enter a whole number of shillings.\nEnter amount in KES:');
+            expect(res.text).toBe('END Enter your M-Pesa PIN on the prompt to pay KES 750.00.');
+            expect(mockedInitiateStkPush).toHaveBeenCalledTimes(1);
+            expect(mockedInitiateStkPush).toHaveBeenCalledWith('254712345678', 750, 'contribution-1');
+        });
+
+        it('should send an STK push for the next loan installment', async () => {
+            mockedGetOutstandingLoans.mockResolvedValue([{ loan: { id: 'loan-1', dueDate: new Date(2026, 10, 5) }, paid: 2000, balance: 8000 }]);
+            mockedGetNextInstallmentAmount.mockResolvedValue(2166.67);
+            mockedStartLoanRepaymentPush.mockResolvedValue({ CheckoutRequestID: 'ws_CO_2', amount: 2167 });
+
+            const res = await dial('4821*4*1');
+
+            expect(res.text).toBe('END Enter your M-Pesa PIN on the prompt to pay KES 2167.00.');
+            expect(mockedStartLoanRepaymentPush).toHaveBeenCalledWith('loan-1', '254712345678', 2167, 'user-1');
+        });
+
+        it('should explain why a loan cannot be repaid', async () => {
+            mockedGetOutstandingLoans.mockResolvedValue([{ loan: { id: 'loan-1', dueDate: null }, paid: 0, balance: 8000 }]);
+            mockedGetNextInstallmentAmount.mockResolvedValue(2000);
+            mockedStartLoanRepaymentPush.mockRejectedValue(new AppError('Only active loans can be repaid by M-Pesa.', 409));
+
+            const res = await dial('4821*4*1');
+
+            expect(res.text).toBe('END Only active loans can be repaid by M-Pesa.');
+        });
+    });
+
+    describe('Verifying the caller', () => {
+        afterEach(() => {
+            delete process.env.USSD_CALLBACK_TOKEN;
+            delete process.env.USSD_CALLBACK_ALLOWED_IPS;
+        });
+
+        it('should reject a request without the callback token', async () => {
+            process.env.USSD_CALLBACK_TOKEN = 'ussd-secret';
+
+            const missing = await dial('4821');
+            const wrong = await dial('4821', '+254712345678', '/api/ussd/wrong-secret');
+
+            expect(missing.statusCode).toEqual(403);
+            expect(wrong.statusCode).toEqual(403);
+            expect(prismaMock.user.findUnique).not.toHaveBeenCalled();
+        });
+
+        it('should accept a request with the callback token', async () => {
+            process.env.USSD_CALLBACK_TOKEN = 'ussd-secret';
+
+            const res = await dial('', '+254712345678', '/api/ussd/ussd-secret');
+
+            expect(res.text).toBe('CON Welcome to Chama App.\nEnter your PIN:');
+        });
+
+        it('should reject a request from an address outside the allowlist', async () => {
+            process.env.USSD_CALLBACK_ALLOWED_IPS = '196.201.214.0/24';
+
+            const res = await dial('4821');
+
+            expect(res.statusCode).toEqual(403);
+            expect(prismaMock.user.findUnique).not.toHaveBeenCalled();
+        });
+
+        it('should end sessions from a phone that makes too many requests', async () => {
+            const phoneNumber = '+254799999999';
+            for (let i = 0; i < 30; i++) {
+                await dial('', phoneNumber);
+            }
+
+            const limited = await dial('', phoneNumber);
+            const otherPhone = await dial('');
+
+            expect(limited.text).toBe('END Too many requests. Please try again in a few minutes.');
+            expect(otherPhone.text).toBe('CON Welcome to Chama App.\nEnter your PIN:');
+        });
+    });
+
+    it('should end the session with an apology when something goes wrong', async () => {
+        prismaMock.membership.findMany.mockRejectedValue(new Error('Database unavailable'));
+
+        const res = await dial('4821');
+
+        expect(res.statusCode).toEqual(200);
+        expect(res.text).toBe('END Sorry, something went wrong. Please try again later.');
+    });
+});
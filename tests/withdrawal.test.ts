@@ -0,0 +1,375 @@
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock Prisma
+jest.mock('@prisma/client', () => {
+  const mockPrismaFunctions: any = {
+    withdrawal: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    membership: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    fundAllocation: {
+      groupBy: jest.fn(),
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    contribution: {
+      aggregate: jest.fn(),
+    },
+    loan: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+    },
+    transaction: {
+      create: jest.fn(),
+    },
+    chama: {
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  return {
+    PrismaClient: jest.fn().mockImplementation(() => mockPrismaFunctions),
+    MembershipRole: {
+      ADMIN: 'ADMIN',
+      TREASURER: 'TREASURER',
+      SECRETARY: 'SECRETARY',
+      MEMBER: 'MEMBER',
+    },
+    LoanStatus: { PENDING: 'PENDING', APPROVED: 'APPROVED', ACTIVE: 'ACTIVE', DEFAULTED: 'DEFAULTED', PAID: 'PAID' },
+    NotificationType: { GENERAL: 'GENERAL' },
+    AuditAction: {
+      WITHDRAWAL_REQUEST: 'WITHDRAWAL_REQUEST',
+      WITHDRAWAL_APPROVE: 'WITHDRAWAL_APPROVE',
+      WITHDRAWAL_REJECT: 'WITHDRAWAL_REJECT',
+      WITHDRAWAL_PAYOUT: 'WITHDRAWAL_PAYOUT',
+    },
+  };
+});
+
+jest.mock('../src/middleware/auth.middleware', () => ({
+  protect: (req: any, res: Response, next: NextFunction) => {
+    req.user = { id: req.headers['x-user-id'] || 'user1' };
+    next();
+  },
+}));
+
+jest.mock('../src/middleware/membership.middleware', () => ({
+  checkMembership: () => (req: Request, res: Response, next: NextFunction) => next(),
+}));
+
+jest.mock('../src/middleware/stepUp.middleware', () => ({
+  requireStepUp: () => (req: Request, res: Response, next: NextFunction) => next(),
+}));
+
+jest.mock('../src/services/audit.service');
+jest.mock('../src/services/notification.service');
+jest.mock('../src/services/ledger.service');
+jest.mock('../src/services/mpesa.service');
+jest.mock('../src/services/fund.service');
+jest.mock('../src/services/loan.service');
+
+import withdrawalRoutes from '../src/routes/withdrawal.routes';
+import * as withdrawalService from '../src/services/withdrawal.service';
+import { getChamaFunds } from '../src/services/fund.service';
+import { applyLoanRepayment, getAvailableSavings, getOutstandingLoans } from '../src/services/loan.service';
+import { postWithdrawal } from '../src/services/ledger.service';
+import { initiateB2CPayment } from '../src/services/mpesa.service';
+import { createAuditLog } from '../src/services/audit.service';
+import { createNotification } from '../src/services/notification.service';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient() as any;
+
+const app = express();
+app.use(express.json());
+app.use('/withdrawals', withdrawalRoutes);
+
+const funds = [
+  { id: 'fund-share', name: 'Share Capital', type: 'SHARE_CAPITAL', isWithdrawable: false, withdrawalNoticeDays: 0, minimumBalance: 0 },
+  { id: 'fund-savings', name: 'Savings', type: 'SAVINGS', isWithdrawable: true, withdrawalNoticeDays: 30, minimumBalance: 1000 },
+  { id: 'fund-welfare', name: 'Welfare', type: 'WELFARE', isWithdrawable: false, withdrawalNoticeDays: 0, minimumBalance: 0 },
+];
+
+const member = { id: 'mem1', userId: 'user1', chamaId: 'chama1', role: 'MEMBER', isActive: true, user: { firstName: 'Jane', lastName: 'Doe', phone: '254700000001' } };
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+const approvedExit = {
+  id: 'wd1',
+  chamaId: 'chama1',
+  membershipId: 'mem1',
+  type: 'EXIT',
+  fundId: null,
+  requestedAmount: null,
+  status: 'APPROVED',
+  availableFrom: daysAgo(1),
+  loanOffset: 0,
+  penaltyOffset: 0,
+  membership: member,
+};
+
+describe('Withdrawal Module Tests', () => {
+  let stored: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.$transaction.mockImplementation((callback: any) => callback(prisma));
+    prisma.membership.findFirst.mockImplementation(({ where }: any) => Promise.resolve(
+      where.userId === 'user2'
+        ? { id: 'mem2', userId: 'user2', chamaId: 'chama1', role: 'TREASURER', isActive: true }
+        : member
+    ));
+    (getChamaFunds as jest.Mock).mockResolvedValue(funds);
+    prisma.fundAllocation.groupBy.mockResolvedValue([
+      { fundId: 'fund-share', _sum: { amount: 5000 } },
+      { fundId: 'fund-savings', _sum: { amount: 13000 } },
+      { fundId: 'fund-welfare', _sum: { amount: 2000 } },
+    ]);
+    (getAvailableSavings as jest.Mock).mockResolvedValue({ totalSavings: 13000, lockedSavings: 0, availableSavings: 13000 });
+    prisma.contribution.aggregate.mockResolvedValue({ _sum: { penaltyApplied: 0 } });
+    prisma.withdrawal.aggregate.mockResolvedValue({ _sum: { penaltyOffset: 0 } });
+    (getOutstandingLoans as jest.Mock).mockResolvedValue([]);
+    prisma.withdrawal.findFirst.mockResolvedValue(null);
+    prisma.withdrawal.findUnique.mockResolvedValue(null);
+    prisma.loan.count.mockResolvedValue(0);
+    prisma.withdrawal.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'wd1', status: 'PENDING', ...data, membership: member }));
+    stored = approvedExit;
+    prisma.withdrawal.update.mockImplementation(({ data }: any) => {
+      stored = { ...stored, ...data };
+      return Promise.resolve(stored);
+    });
+  });
+
+  describe('Requesting withdrawals', () => {
+    it('should create a partial withdrawal that waits out the fund notice period, netting off penalties and loans', async () => {
+      prisma.contribution.aggregate.mockResolvedValue({ _sum: { penaltyApplied: 500 } });
+      prisma.withdrawal.aggregate.mockResolvedValue({ _sum: { penaltyOffset: 300 } });
+      (getOutstandingLoans as jest.Mock).mockResolvedValue([{ loan: { id: 'loan1' }, paid: 0, balance: 1800 }]);
+
+      const res = await request(app)
+        .post('/withdrawals/chama1')
+        .send({ type: 'PARTIAL', fundId: 'fund-savings', amount: 5000, reason: 'School fees' });
+
+      expect(res.statusCode).toBe(201);
+      expect(res.body.data.settlement).toMatchObject({ grossAmount: 5000, penaltyOffset: 200, loanOffset: 1800, netAmount: 3000 });
+      const { data } = prisma.withdrawal.create.mock.calls[0][0];
+      expect(data).toMatchObject({ chamaId: 'chama1', membershipId: 'mem1', type: 'PARTIAL', fundId: 'fund-savings', requestedAmount: 5000 });
+      expect(data.availableFrom.getTime() - Date.now()).toBeGreaterThan(29 * 24 * 60 * 60 * 1000);
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'WITHDRAWAL_REQUEST', targetId: 'user1' }));
+    });
+
+    it('should not let a member withdraw below the fund minimum balance', async () => {
+      const res = await request(app)
+        .post('/withdrawals/chama1')
+        .send({ type: 'PARTIAL', fundId: 'fund-savings', amount: 12500 });
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body.message).toBe('Only KES 12000.00 can be withdrawn from the Savings fund.');
+      expect(prisma.withdrawal.create).not.toHaveBeenCalled();
+    });
+
+    it('should not let a member withdraw from a fund that does not allow it', async () => {
+      const res = await request(app)
+        .post('/withdrawals/chama1')
+        .send({ type: 'PARTIAL', fundId: 'fund-share', amount: 1000 });
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body.message).toBe('The Share Capital fund does not allow withdrawals.');
+    });
+
+    it('should keep savings pledged as guarantor', async () => {
+      (getAvailableSavings as jest.Mock).mockResolvedValue({ totalSavings: 13000, lockedSavings: 10000, availableSavings: 3000 });
+
+      const res = await request(app)
+        .post('/withdrawals/chama1')
+        .send({ type: 'PARTIAL', fundId: 'fund-savings', amount: 5000 });
+
+      expect(res.statusCode).toBe(400);
+    });
+
+    it('should reject a second withdrawal while one is in progress', async () => {
+      prisma.withdrawal.findFirst.mockResolvedValue({ id: 'wd0', status: 'APPROVED' });
+
+      const res = await request(app)
+        .post('/withdrawals/chama1')
+        .send({ type: 'EXIT' });
+
+      expect(res.statusCode).toBe(409);
+    });
+
+    it('should refund share capital and savings but not welfare on exit', async () => {
+      const res = await request(app)
+        .post('/withdrawals/chama1')
+        .send({ type: 'EXIT' });
+
+      expect(res.statusCode).toBe(201);
+      expect(res.body.data.settlement.lines.map((line: any) => line.fundId)).toEqual(['fund-share', 'fund-savings']);
+      expect(res.body.data.settlement.grossAmount).toBe(18000);
+      expect(prisma.withdrawal.create.mock.calls[0][0].data).toMatchObject({ type: 'EXIT', fundId: null, requestedAmount: null });
+    });
+
+    it('should block an exit while loans exceed the refund', async () => {
+      (getOutstandingLoans as jest.Mock).mockResolvedValue([{ loan: { id: 'loan1' }, paid: 0, balance: 20000 }]);
+
+      const res = await request(app)
+        .post('/withdrawals/chama1')
+        .send({ type: 'EXIT' });
+
+      expect(res.statusCode).toBe(409);
+      expect(res.body.message).toContain('KES 2000.00');
+    });
+
+    it('should only let officers request a withdrawal for another member', async () => {
+      const res = await request(app)
+        .post('/withdrawals/chama1')
+        .send({ type: 'EXIT', membershipId: 'mem3' });
+
+      expect(res.statusCode).toBe(403);
+    });
+  });
+
+  describe('Reviewing withdrawals', () => {
+    it('should approve a pending withdrawal and notify the member', async () => {
+      prisma.withdrawal.findFirst.mockResolvedValue({ ...approvedExit, status: 'PENDING' });
+
+      const res = await request(app)
+        .put('/withdrawals/chama1/wd1/review')
+        .set('x-user-id', 'user2')
+        .send({ status: 'APPROVED' });
+
+      expect(res.statusCode).toBe(200);
+      expect(prisma.withdrawal.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'APPROVED', reviewedById: 'mem2' }),
+      }));
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'WITHDRAWAL_APPROVE' }));
+      expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({ membershipId: 'mem1', title: 'Withdrawal Approved' }));
+    });
+
+    it('should not let a member review their own withdrawal', async () => {
+      prisma.withdrawal.findFirst.mockResolvedValue({ ...approvedExit, status: 'PENDING' });
+
+      const res = await request(app)
+        .put('/withdrawals/chama1/wd1/review')
+        .set('x-user-id', 'user1')
+        .send({ status: 'APPROVED' });
+
+      expect(res.statusCode).toBe(403);
+      expect(prisma.withdrawal.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Paying out withdrawals', () => {
+    it('should not pay out before the notice period ends', async () => {
+      prisma.withdrawal.findFirst.mockResolvedValue({ ...approvedExit, availableFrom: new Date(Date.now() + 60000) });
+
+      const res = await request(app)
+        .post('/withdrawals/chama1/wd1/pay')
+        .set('x-user-id', 'user2')
+        .send({});
+
+      expect(res.statusCode).toBe(400);
+      expect(prisma.fundAllocation.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should settle an exit, repaying loans from the refund and closing the membership', async () => {
+      const loan = { id: 'loan1' };
+      prisma.withdrawal.findFirst.mockResolvedValue(approvedExit);
+      (getOutstandingLoans as jest.Mock).mockResolvedValue([{ loan, paid: 1000, balance: 3000 }]);
+
+      const res = await request(app)
+        .post('/withdrawals/chama1/wd1/pay')
+        .set('x-user-id', 'user2')
+        .send({ paymentMethod: 'BANK' });
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body.data).toMatchObject({ status: 'PAID', grossAmount: 18000, loanOffset: 3000, netAmount: 15000 });
+      // Pledged savings are checked inside the payout transaction, so a pledge accepted meanwhile is seen.
+      expect(getAvailableSavings).toHaveBeenCalledWith('mem1', prisma);
+      expect(prisma.fundAllocation.createMany).toHaveBeenCalledWith({
+        data: [
+          { withdrawalId: 'wd1', fundId: 'fund-share', membershipId: 'mem1', amount: -5000 },
+          { withdrawalId: 'wd1', fundId: 'fund-savings', membershipId: 'mem1', amount: -13000 },
+        ],
+      });
+      expect(applyLoanRepayment).toHaveBeenCalledWith(prisma, loan, 1000, 'chama1', expect.objectContaining({ amount: 3000, paymentMethod: 'SAVINGS_OFFSET' }));
+      expect(prisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ chamaId: 'chama1', type: 'WITHDRAWAL', amount: -15000 }),
+      });
+      expect(postWithdrawal).toHaveBeenCalled();
+      expect(prisma.membership.update).toHaveBeenCalledWith({ where: { id: 'mem1' }, data: { isActive: false } });
+      expect(prisma.chama.update).toHaveBeenCalledWith({ where: { id: 'chama1' }, data: { totalMembers: { decrement: 1 } } });
+      expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({ title: 'Exit Refund Paid' }));
+    });
+
+    it('should send the net amount by M-Pesa and wait for the callback', async () => {
+      prisma.withdrawal.findFirst.mockResolvedValue(approvedExit);
+      (initiateB2CPayment as jest.Mock).mockResolvedValue({ reference: 'AG_123' });
+
+      const res = await request(app)
+        .post('/withdrawals/chama1/wd1/pay')
+        .set('x-user-id', 'user2')
+        .send({ sendViaMpesa: true });
+
+      expect(res.statusCode).toBe(200);
+      expect(initiateB2CPayment).toHaveBeenCalledWith('254700000001', 18000, 'Savings withdrawal');
+      expect(prisma.withdrawal.update).toHaveBeenLastCalledWith(expect.objectContaining({ data: { mpesaB2CRequestId: 'AG_123' } }));
+      expect(prisma.membership.update).not.toHaveBeenCalled();
+      expect(createNotification).not.toHaveBeenCalled();
+    });
+
+    it('should release the reserved balances when the M-Pesa request fails', async () => {
+      prisma.withdrawal.findFirst.mockResolvedValue(approvedExit);
+      (initiateB2CPayment as jest.Mock).mockRejectedValue(new Error('B2C unavailable'));
+
+      const res = await request(app)
+        .post('/withdrawals/chama1/wd1/pay')
+        .set('x-user-id', 'user2')
+        .send({ sendViaMpesa: true });
+
+      expect(res.statusCode).toBe(502);
+      expect(prisma.fundAllocation.deleteMany).toHaveBeenCalledWith({ where: { withdrawalId: 'wd1' } });
+      expect(prisma.withdrawal.update).toHaveBeenLastCalledWith({ where: { id: 'wd1' }, data: { status: 'FAILED' } });
+    });
+  });
+
+  describe('settleMpesaWithdrawal', () => {
+    it('should complete a processing withdrawal when the B2C payment succeeds', async () => {
+      const { membership, ...processing } = approvedExit;
+      prisma.withdrawal.findUnique.mockResolvedValue({ ...processing, status: 'PROCESSING', grossAmount: 18000, netAmount: 18000, membership });
+
+      const paid = await withdrawalService.settleMpesaWithdrawal('AG_123', true, 'RCPT1');
+
+      expect(paid?.status).toBe('PAID');
+      expect(prisma.withdrawal.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'PAID', mpesaCode: 'RCPT1' }),
+      }));
+      expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'WITHDRAWAL_PAYOUT', actorId: null }));
+    });
+
+    it('should ignore conversations that are not withdrawals', async () => {
+      await expect(withdrawalService.settleMpesaWithdrawal('AG_unknown', true)).resolves.toBeNull();
+    });
+  });
+
+  describe('Member statements', () => {
+    it('should not let a member download someone else\'s statement', async () => {
+      const res = await request(app)
+        .get('/withdrawals/chama1/members/mem2/statement')
+        .set('x-user-id', 'user1');
+
+      expect(res.statusCode).toBe(403);
+    });
+  });
+});